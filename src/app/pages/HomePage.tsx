@@ -1,9 +1,16 @@
 import { A } from '@solidjs/router';
-import { createSignal, onMount, Show, For } from 'solid-js';
+import { createSignal, onMount, onCleanup, Show, For } from 'solid-js';
 import { Card, CardBody, CardHeader } from '@/shared/ui';
 import { getUser } from '@/features/auth/store/session.store';
 import { getInventoryItems } from '@/features/inventory/api/inventory.api';
 import type { Item } from '@/features/inventory/types/inventory.types';
+import { getStockStatus } from '@/features/inventory/lib/inventory-stats';
+import { getAvailableQuantity, isKit } from '@/features/inventory/lib/kits';
+import {
+  EXPIRY_WARNING_DAYS,
+  getExpiringLots,
+  type ExpiringLot,
+} from '@/features/inventory/lib/lots';
 import {
   getPendingTransactions,
   getTransactions,
@@ -17,6 +24,16 @@ import { QuickRestockModal } from '@/shared/components/QuickRestockModal';
 import { Button } from '@/shared/ui/Button';
 import { formatRelativeDate } from '@/shared/lib/format';
 import { getBusiness } from '@/shared/stores/business.store';
+import { subscribeQueries, type QueryScope } from '@/shared/lib/query-client';
+import { realtimeStore } from '@/shared/stores/realtime.store';
+
+// Cache scopes the dashboard is built from
+const DASHBOARD_SCOPES: QueryScope[] = [
+  'items',
+  'transactions',
+  'imports',
+  'partners',
+];
 
 interface DashboardStats {
   totalItems: number;
@@ -37,14 +54,15 @@ export default function HomePage() {
   });
   const [lowStockItems, setLowStockItems] = createSignal<Item[]>([]);
   const [allLowStockItems, setAllLowStockItems] = createSignal<Item[]>([]);
+  const [expiringLots, setExpiringLots] = createSignal<ExpiringLot[]>([]);
   const [recentImports, setRecentImports] = createSignal<Import[]>([]);
   const [recentOrders, setRecentOrders] = createSignal<Transaction[]>([]);
   const [suppliers, setSuppliers] = createSignal<Partner[]>([]);
   const [loading, setLoading] = createSignal(true);
   const [isRestockModalOpen, setIsRestockModalOpen] = createSignal(false);
 
-  const loadData = async () => {
-    setLoading(true);
+  const loadData = async (background = false) => {
+    if (!background) setLoading(true);
     try {
       const [
         items,
@@ -64,8 +82,9 @@ export default function HomePage() {
         getTransactions().catch(() => []),
       ]);
 
+      // Low or out at any location, not just in total
       const lowStock = items.filter(
-        (item) => item.quantity <= (item.lowStockAt || 0)
+        (item) => getStockStatus(item) !== 'in-stock'
       );
 
       setStats({
@@ -76,7 +95,9 @@ export default function HomePage() {
         totalClients: clients.length,
       });
       setLowStockItems(lowStock.slice(0, 5)); // Show top 5
-      setAllLowStockItems(lowStock); // Store all for restock modal
+      // Kits are restocked through their components, not from a supplier
+      setAllLowStockItems(lowStock.filter((item) => !isKit(item)));
+      setExpiringLots(getExpiringLots(items));
       setSuppliers(suppliers);
 
       // Sort by date and take most recent 5
@@ -93,6 +114,14 @@ export default function HomePage() {
     loadData();
   });
 
+  // Refresh in place when stock, orders, imports or partners change anywhere
+  const unsubscribe = subscribeQueries((changed) => {
+    if (DASHBOARD_SCOPES.some((scope) => changed.has(scope))) {
+      loadData(true);
+    }
+  });
+  onCleanup(unsubscribe);
+
   const formatDate = (dateString: string) => {
     return formatRelativeDate(dateString, getBusiness()?.timezone);
   };
@@ -120,6 +149,14 @@ export default function HomePage() {
         <p class="mt-2 text-text-secondary">
           Quick overview of your store operations
         </p>
+        <Show when={realtimeStore.lastChange()}>
+          {(change) => (
+            <p class="mt-2 inline-flex items-center rounded-full bg-accent-primary-subtle px-3 py-1 text-xs font-medium text-accent-primary">
+              Stats updated — {change().entity} {change().action} by{' '}
+              {change().actorName}
+            </p>
+          )}
+        </Show>
       </div>
 
       {/* Quick Stats */}
@@ -356,7 +393,7 @@ export default function HomePage() {
                           {item.name}
                         </p>
                         <p class="text-xs text-text-secondary">
-                          Stock: {item.quantity} {item.unit}
+                          Stock: {getAvailableQuantity(item)} {item.unit}
                           <Show when={item.storeHouse}>
                             {' · '}
                             {item.storeHouse.name}
@@ -397,6 +434,77 @@ export default function HomePage() {
           </CardBody>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <h2 class="text-lg font-semibold text-text-primary">
+              Expiring Soon
+            </h2>
+          </CardHeader>
+          <CardBody>
+            <Show
+              when={!loading() && expiringLots().length > 0}
+              fallback={
+                <div class="py-8 text-center text-text-muted">
+                  <Show when={loading()}>
+                    <div class="space-y-3">
+                      <For each={[1, 2, 3]}>
+                        {() => (
+                          <div class="h-12 animate-pulse rounded bg-bg-hover" />
+                        )}
+                      </For>
+                    </div>
+                  </Show>
+                  <Show when={!loading()}>
+                    <p class="text-sm">
+                      No lots expire in the next {EXPIRY_WARNING_DAYS} days
+                    </p>
+                  </Show>
+                </div>
+              }
+            >
+              <div class="space-y-2">
+                <For each={expiringLots().slice(0, 5)}>
+                  {(entry) => (
+                    <A
+                      href={`/inventory?search=${encodeURIComponent(entry.item.name)}`}
+                      class="flex items-center justify-between rounded-lg border border-border-default p-3 transition-colors hover:bg-bg-hover"
+                    >
+                      <div class="min-w-0 flex-1">
+                        <p class="truncate text-sm font-medium text-text-primary">
+                          {entry.item.name}
+                        </p>
+                        <p class="text-xs text-text-secondary">
+                          Lot {entry.lot.lotNumber} · {entry.lot.quantity}{' '}
+                          {entry.item.unit} · {entry.storeHouse.name}
+                        </p>
+                      </div>
+                      <span
+                        class={`ml-3 rounded-full px-2 py-1 text-xs font-medium ${
+                          entry.daysLeft < 0
+                            ? 'bg-status-error/10 text-status-error'
+                            : 'bg-status-warning/10 text-status-warning'
+                        }`}
+                        title={`Expires ${entry.lot.expiresAt}`}
+                      >
+                        {entry.daysLeft < 0
+                          ? 'Expired'
+                          : entry.daysLeft === 0
+                            ? 'Expires today'
+                            : `${entry.daysLeft} day${entry.daysLeft === 1 ? '' : 's'} left`}
+                      </span>
+                    </A>
+                  )}
+                </For>
+                <Show when={expiringLots().length > 5}>
+                  <p class="py-2 text-center text-sm text-text-secondary">
+                    And {expiringLots().length - 5} more lots
+                  </p>
+                </Show>
+              </div>
+            </Show>
+          </CardBody>
+        </Card>
+
         <Card>
           <CardHeader>
             <div class="flex items-center justify-between">
@@ -9,6 +9,8 @@ import {
 import { createStore } from 'solid-js/store';
 import { useSearchParams } from '@solidjs/router';
 import { Button } from '@/shared/ui/Button';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import { EXPORT_REQUEST } from '@/shared/lib/export';
 import { Card, CardBody, CopyableId, ItemSelect } from '@/shared/ui';
 import { can } from '@/shared/stores/permissions.store';
 import {
@@ -22,21 +24,39 @@ import {
   cancelImport,
   markImportPending,
 } from '@/shared/api';
-import { getSuppliers, getInventoryItems } from '@/shared/api';
+import { getSuppliers, getInventoryItems, getStorehouses } from '@/shared/api';
 import { apiClient } from '@/shared/lib/api-client';
 import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
+import {
+  IMPORT_EXPORT_COLUMNS,
+  describeListFilters,
+} from '@/shared/lib/export-columns';
 import {
   formatCurrency as sharedFormatCurrency,
   formatDate as sharedFormatDate,
 } from '@/shared/lib/format';
 import { getBusiness } from '@/shared/stores/business.store';
-import type { Import, ImportFormData } from '@/shared/types/import.types';
+import type {
+  Import,
+  ImportFormData,
+  ImportItem,
+} from '@/shared/types/import.types';
+import { formatLot } from '@/features/inventory/lib/lots';
+import { formatSerials } from '@/features/inventory/lib/serials';
+import {
+  formatLineQuantity,
+  getEnteredUnitPrice,
+} from '@/features/inventory/lib/units';
+import type { PackUnit } from '@/features/inventory/types/inventory.types';
+import { SerialNumbersInput } from '@/features/inventory/components/SerialNumbersInput';
 
 type ModalMode =
   | 'create'
   | 'edit'
   | 'delete'
   | 'detail'
+  | 'serials'
   | 'confirm-action'
   | null;
 
@@ -52,10 +72,34 @@ interface ConfirmAction {
   message: string;
 }
 
+/**
+ * Lot and serial numbers received on a line, under the item name on
+ * printouts
+ */
+function lineDetailsHtml(item: ImportItem): string {
+  const details = [
+    ...(item.lotNumber
+      ? [
+          `Lot ${formatLot({ lotNumber: item.lotNumber, expiresAt: item.expiresAt })}`,
+        ]
+      : []),
+    ...(item.serials?.length ? [formatSerials(item.serials)] : []),
+  ];
+  if (details.length === 0) return '';
+  return `<br><small class="item-detail">${details.join('<br>')}</small>`;
+}
+
 interface FormItem {
   itemId: string;
   quantity: string;
   unitPrice: string;
+  /** Destination storehouse, empty for the item's home storehouse */
+  storeHouse: string;
+  /** Kept from the record when editing; the form doesn't change them */
+  lotNumber?: string;
+  expiresAt?: string;
+  serials?: string[];
+  packUnit?: PackUnit;
 }
 
 interface AdvancedFilters {
@@ -79,6 +123,7 @@ export default function ImportsPage() {
   const [modalMode, setModalMode] = createSignal<ModalMode>(null);
   const [selectedImport, setSelectedImport] = createSignal<Import | null>(null);
   const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const importSubmission = createSubmissionKey();
   const [error, setError] = createSignal<string | null>(null);
   const [confirmAction, setConfirmAction] = createSignal<ConfirmAction | null>(
     null
@@ -113,31 +158,33 @@ export default function ImportsPage() {
   // Resources
   const [suppliers] = createResource(() => getSuppliers());
   const [items] = createResource(() => getInventoryItems());
+  const [storehouses] = createResource(() => getStorehouses());
   const business = getBusiness;
 
+  // Active filters, shared by the list and the export
+  const listFilters = () => {
+    const advFilters = advancedFilters();
+    return {
+      status: filter() === 'all' ? undefined : filter(),
+      search: searchTerm() || undefined,
+      supplierId: advFilters.supplierId || undefined,
+      dateFrom: advFilters.dateFrom || undefined,
+      dateTo: advFilters.dateTo || undefined,
+      priceMin: advFilters.priceMin
+        ? parseFloat(advFilters.priceMin)
+        : undefined,
+      priceMax: advFilters.priceMax
+        ? parseFloat(advFilters.priceMax)
+        : undefined,
+      sortBy: advFilters.sortBy,
+      sortOrder: advFilters.sortOrder,
+    };
+  };
+
   // Fetch imports with all filters (server-side filtering)
   const [imports, { refetch }] = createResource(
     // Reactive dependency - will refetch when any of these change
-    () => {
-      const advFilters = advancedFilters();
-      return {
-        status: filter() === 'all' ? undefined : filter(),
-        search: searchTerm() || undefined,
-        supplierId: advFilters.supplierId || undefined,
-        dateFrom: advFilters.dateFrom || undefined,
-        dateTo: advFilters.dateTo || undefined,
-        priceMin: advFilters.priceMin
-          ? parseFloat(advFilters.priceMin)
-          : undefined,
-        priceMax: advFilters.priceMax
-          ? parseFloat(advFilters.priceMax)
-          : undefined,
-        sortBy: advFilters.sortBy,
-        sortOrder: advFilters.sortOrder,
-        page: currentPage(),
-        limit: 20,
-      };
-    },
+    () => ({ ...listFilters(), page: currentPage(), limit: 20 }),
     async (filters) => {
       const response = await getImportsWithPagination(filters);
       setPaginationInfo(response.pagination);
@@ -298,8 +345,8 @@ export default function ImportsPage() {
               .map(
                 (item) => `
               <tr>
-                <td class="item-name">${item.itemName || 'Item'}</td>
-                <td class="item-qty">${item.quantity}</td>
+                <td class="item-name">${item.itemName || 'Item'}${lineDetailsHtml(item)}</td>
+                <td class="item-qty">${formatLineQuantity(item)}</td>
                 <td class="item-total">$${item.totalPrice.toFixed(2)}</td>
               </tr>
             `
@@ -355,6 +402,7 @@ export default function ImportsPage() {
               .items-table td { padding: 2px 0; font-size: 11px; }
               .item-name { text-align: left; }
               .item-qty { text-align: center; width: 30px; }
+              .item-detail { font-size: 9px; }
               .item-total { text-align: right; width: 50px; }
               .import-total {
                 display: flex;
@@ -434,8 +482,8 @@ export default function ImportsPage() {
                     .map(
                       (item) => `
                     <tr>
-                      <td class="item-name">${item.itemName || 'Item'}</td>
-                      <td class="item-qty">${item.quantity} x $${item.unitPrice.toFixed(2)}</td>
+                      <td class="item-name">${item.itemName || 'Item'}${lineDetailsHtml(item)}</td>
+                      <td class="item-qty">${formatLineQuantity(item)} x $${getEnteredUnitPrice(item).toFixed(2)}</td>
                       <td class="item-total">$${item.totalPrice.toFixed(2)}</td>
                     </tr>
                   `
@@ -615,7 +663,9 @@ export default function ImportsPage() {
   // Modal handlers
   const openCreateModal = () => {
     setSupplierId('');
-    setFormItems([{ itemId: '', quantity: '1', unitPrice: '0' }]);
+    setFormItems([
+      { itemId: '', quantity: '1', unitPrice: '0', storeHouse: '' },
+    ]);
     setError(null);
     setModalMode('create');
   };
@@ -628,6 +678,11 @@ export default function ImportsPage() {
         itemId: item.itemId,
         quantity: item.quantity.toString(),
         unitPrice: item.unitPrice.toString(),
+        storeHouse: item.storeHouse ?? '',
+        lotNumber: item.lotNumber,
+        expiresAt: item.expiresAt,
+        serials: item.serials,
+        packUnit: item.packUnit,
       }))
     );
     setError(null);
@@ -656,11 +711,83 @@ export default function ImportsPage() {
     }
   };
 
-  // Show confirmation modal
+  // Serial numbers being captured per line, before receiving
+  const [serialDrafts, setSerialDrafts] = createStore<string[][]>([]);
+
+  const findImport = (importId: string) =>
+    imports()?.find((i) => i.id === importId) ??
+    (selectedImport()?.id === importId ? selectedImport()! : undefined);
+
+  const isSerialized = (itemId: string) =>
+    !!items()?.find((item) => item.id === itemId)?.serialized;
+
+  // Lines of serialized items still missing a serial number per unit
+  const needsSerials = (record: Import) =>
+    record.items.some(
+      (line) =>
+        isSerialized(line.itemId) &&
+        (line.serials?.length ?? 0) !== line.quantity
+    );
+
+  // Show confirmation modal. Receiving serialized items asks for their
+  // serial numbers first.
   const showConfirmation = (action: ConfirmAction) => {
     setConfirmAction(action);
+    setError(null);
+    const record = findImport(action.importId);
+    if (
+      (action.type === 'markReceived' || action.type === 'completeImport') &&
+      record &&
+      needsSerials(record)
+    ) {
+      setSelectedImport(record);
+      setSerialDrafts(record.items.map((line) => line.serials ?? []));
+      setModalMode('serials');
+      return;
+    }
     setModalMode('confirm-action');
+  };
+
+  const handleSaveSerials = async () => {
+    const record = selectedImport();
+    if (!record) return;
+    const incomplete = record.items.find(
+      (line, index) =>
+        isSerialized(line.itemId) &&
+        serialDrafts[index]!.length !== line.quantity
+    );
+    if (incomplete) {
+      setError(
+        `Enter a serial number for every unit of ${incomplete.itemName ?? 'each item'}`
+      );
+      return;
+    }
+
+    setIsSubmitting(true);
     setError(null);
+    try {
+      const updated = await updateImport(record.id, {
+        items: record.items.map((line, index) => ({
+          itemId: line.itemId,
+          storeHouse: line.storeHouse,
+          lotNumber: line.lotNumber,
+          expiresAt: line.expiresAt,
+          serials: serialDrafts[index]!.length
+            ? [...serialDrafts[index]!]
+            : undefined,
+          packUnit: line.packUnit,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+        })),
+      });
+      setSelectedImport(updated);
+      await refetch();
+      setModalMode('confirm-action');
+    } catch (err: any) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
   };
 
   // Form handlers
@@ -669,6 +796,7 @@ export default function ImportsPage() {
       itemId: '',
       quantity: '1',
       unitPrice: '0',
+      storeHouse: '',
     });
   };
 
@@ -706,9 +834,11 @@ export default function ImportsPage() {
           itemId: item.itemId,
           quantity: parseInt(item.quantity) || 0,
           unitPrice: parseFloat(item.unitPrice) || 0,
+          storeHouse: item.storeHouse || undefined,
         })),
       };
-      await createImport(formData);
+      await createImport(formData, importSubmission.keyFor(formData));
+      importSubmission.reset();
       await refetch();
       closeModal();
     } catch (err: any) {
@@ -733,11 +863,26 @@ export default function ImportsPage() {
     try {
       const formData: Partial<ImportFormData> = {
         supplierId: supplierId() || undefined,
-        items: formItems.map((item) => ({
-          itemId: item.itemId,
-          quantity: parseInt(item.quantity) || 0,
-          unitPrice: parseFloat(item.unitPrice) || 0,
-        })),
+        items: formItems.map((item) => {
+          const quantity = parseInt(item.quantity) || 0;
+          return {
+            itemId: item.itemId,
+            quantity,
+            unitPrice: parseFloat(item.unitPrice) || 0,
+            storeHouse: item.storeHouse || undefined,
+            lotNumber: item.lotNumber,
+            expiresAt: item.expiresAt,
+            // Captured again on receipt once the quantity changes
+            serials:
+              item.serials?.length === quantity ? item.serials : undefined,
+            // Quantities are edited in the base unit; the pack stays only
+            // while it still divides them
+            packUnit:
+              item.packUnit && quantity % item.packUnit.factor === 0
+                ? item.packUnit
+                : undefined,
+          };
+        }),
       };
       await updateImport(selectedImport()!.id, formData);
       await refetch();
@@ -893,24 +1038,61 @@ export default function ImportsPage() {
             Manage purchase orders and stock replenishment from suppliers
           </p>
         </div>
-        <Show when={can('imports', 'create')}>
-          <Button variant="primary" onClick={openCreateModal}>
-            <svg
-              class="mr-2 h-5 w-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            New Import
-          </Button>
-        </Show>
+        <div class="flex gap-2">
+          <ExportButton
+            title="Imports"
+            filename="imports"
+            columns={IMPORT_EXPORT_COLUMNS}
+            fetchPage={async (page, limit) => {
+              const response = await getImportsWithPagination(
+                {
+                  ...listFilters(),
+                  page,
+                  limit,
+                },
+                EXPORT_REQUEST
+              );
+              return {
+                rows: response.imports,
+                pages:
+                  response.pagination.pages ??
+                  response.pagination.totalPages ??
+                  1,
+              };
+            }}
+            filters={() =>
+              describeListFilters({
+                status: filter(),
+                search: searchTerm(),
+                partner: [
+                  'Supplier',
+                  suppliers()?.find(
+                    (s) => s.id === advancedFilters().supplierId
+                  )?.partnerName,
+                ],
+                ...advancedFilters(),
+              })
+            }
+          />
+          <Show when={can('imports', 'create')}>
+            <Button variant="primary" onClick={openCreateModal}>
+              <svg
+                class="mr-2 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              New Import
+            </Button>
+          </Show>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -1569,16 +1751,17 @@ export default function ImportsPage() {
                               <ItemSelect
                                 items={items()!}
                                 value={item().itemId}
-                                onChange={(id) =>
-                                  updateFormItem(index, 'itemId', id)
-                                }
+                                onChange={(id) => {
+                                  updateFormItem(index, 'itemId', id);
+                                  updateFormItem(index, 'storeHouse', '');
+                                }}
                                 placeholder="Select item..."
                                 showStock
                                 required
                               />
                             </Show>
 
-                            <div class="grid grid-cols-2 gap-2">
+                            <div class="grid grid-cols-3 gap-2">
                               {/* Quantity */}
                               <div>
                                 <label class="mb-1 block text-xs text-text-secondary">
@@ -1624,6 +1807,38 @@ export default function ImportsPage() {
                                   class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-transparent focus:ring-2 focus:ring-accent-primary"
                                 />
                               </div>
+
+                              {/* Destination */}
+                              <div>
+                                <label class="mb-1 block text-xs text-text-secondary">
+                                  Receive into
+                                </label>
+                                <select
+                                  name={`storeHouse-${index}`}
+                                  value={item().storeHouse}
+                                  onChange={(e) =>
+                                    updateFormItem(
+                                      index,
+                                      'storeHouse',
+                                      e.currentTarget.value
+                                    )
+                                  }
+                                  class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-transparent focus:ring-2 focus:ring-accent-primary"
+                                >
+                                  <option value="">Home storehouse</option>
+                                  <For each={storehouses() ?? []}>
+                                    {(storehouse) => (
+                                      <option
+                                        value={storehouse.id}
+                                        disabled={storehouse.isLocked}
+                                      >
+                                        {storehouse.isLocked ? '🔒 ' : ''}
+                                        {storehouse.name}
+                                      </option>
+                                    )}
+                                  </For>
+                                </select>
+                              </div>
                             </div>
 
                             {/* Subtotal */}
@@ -1915,9 +2130,30 @@ export default function ImportsPage() {
                           {item.itemName || `Item ${item.itemId.slice(-6)}`}
                         </p>
                         <p class="text-sm text-text-secondary">
-                          Quantity: {item.quantity} ×{' '}
-                          {formatCurrency(item.unitPrice)}
+                          Quantity: {formatLineQuantity(item)} ×{' '}
+                          {formatCurrency(getEnteredUnitPrice(item))}
+                          <Show when={item.storeHouseName}>
+                            {' '}
+                            into {item.storeHouseName}
+                          </Show>
+                          <Show when={item.lotNumber}>
+                            {(lotNumber) => (
+                              <>
+                                {' '}
+                                · Lot{' '}
+                                {formatLot({
+                                  lotNumber: lotNumber(),
+                                  expiresAt: item.expiresAt,
+                                })}
+                              </>
+                            )}
+                          </Show>
                         </p>
+                        <Show when={item.serials?.length}>
+                          <p class="font-mono text-xs text-text-secondary">
+                            {formatSerials(item.serials!)}
+                          </p>
+                        </Show>
                       </div>
                       <div class="text-right">
                         <p class="font-semibold text-text-primary">
@@ -2171,6 +2407,79 @@ export default function ImportsPage() {
       </Show>
 
       {/* Confirmation Modal */}
+      {/* Serial numbers, captured on receipt */}
+      <Show when={modalMode() === 'serials' && selectedImport()}>
+        {(record) => (
+          <div
+            class="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+            onClick={(e) => {
+              if (e.target === e.currentTarget) closeModal();
+            }}
+          >
+            <div class="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-lg bg-bg-surface p-6 shadow-xl">
+              <h2 class="mb-1 text-xl font-bold text-text-primary">
+                Serial Numbers
+              </h2>
+              <p class="mb-4 text-sm text-text-secondary">
+                Type or scan the serial number of every unit received.
+              </p>
+
+              <div class="space-y-4">
+                <For each={record().items}>
+                  {(line, index) => (
+                    <Show when={isSerialized(line.itemId)}>
+                      <div>
+                        <p class="mb-1.5 text-sm font-medium text-text-primary">
+                          {line.itemName || `Item ${line.itemId.slice(-6)}`}
+                          <Show when={line.storeHouseName}>
+                            <span class="font-normal text-text-secondary">
+                              {' '}
+                              into {line.storeHouseName}
+                            </span>
+                          </Show>
+                        </p>
+                        <SerialNumbersInput
+                          value={serialDrafts[index()] ?? []}
+                          onChange={(serials) =>
+                            setSerialDrafts(index(), serials)
+                          }
+                          max={line.quantity}
+                        />
+                      </div>
+                    </Show>
+                  )}
+                </For>
+              </div>
+
+              <Show when={error()}>
+                <div class="bg-status-error-bg text-status-error-text mt-4 rounded-lg p-3 text-sm">
+                  {error()}
+                </div>
+              </Show>
+
+              <div class="mt-6 flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={closeModal}
+                  disabled={isSubmitting()}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  variant="primary"
+                  onClick={handleSaveSerials}
+                  disabled={isSubmitting()}
+                >
+                  {isSubmitting() ? 'Saving...' : 'Continue'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </Show>
+
       <Show when={modalMode() === 'confirm-action' && confirmAction()}>
         <div
           class="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
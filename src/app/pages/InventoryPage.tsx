@@ -1,19 +1,36 @@
-import { createSignal, createResource, Show, createEffect } from 'solid-js';
-import { useSearchParams } from '@solidjs/router';
+import { createSignal, Show, createEffect } from 'solid-js';
+import { useNavigate, useSearchParams } from '@solidjs/router';
 import { Button } from '@/shared/ui/Button';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import { EXPORT_REQUEST } from '@/shared/lib/export';
 import { InventoryTable } from '@/features/inventory/components/InventoryTable';
 import { InventoryFiltersBar } from '@/features/inventory/components/InventoryFiltersBar';
 import { AddItemModal } from '@/features/inventory/components/AddItemModal';
-import { getInventoryItemsWithPagination } from '@/features/inventory/api/inventory.api';
+import { ViewItemDetailsModal } from '@/features/inventory/components/ViewItemDetailsModal';
+import { ImportItemsModal } from '@/features/inventory/components/ImportItemsModal';
+import {
+  findItemByCode,
+  getInventoryItemsWithPagination,
+} from '@/features/inventory/api/inventory.api';
 import { getStorehouses } from '@/shared/api/storehouses.api';
 import { getBusiness } from '@/shared/stores/business.store';
 import { can } from '@/shared/stores/permissions.store';
 import { formatCurrency as sharedFormatCurrency } from '@/shared/lib/format';
-import { getInventorySummary } from '@/features/inventory/lib/mock-inventory';
-import type { InventoryFilters } from '@/features/inventory/types/inventory.types';
+import { createQuery } from '@/shared/lib/create-query';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { getInventorySummary } from '@/features/inventory/lib/inventory-stats';
+import {
+  INVENTORY_EXPORT_COLUMNS,
+  describeInventoryFilters,
+} from '@/features/inventory/lib/inventory-export';
+import type {
+  InventoryFilters,
+  Item,
+} from '@/features/inventory/types/inventory.types';
 
 export default function InventoryPage() {
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const [filters, setFilters] = createSignal<InventoryFilters>({
     status: 'all',
   });
@@ -21,25 +38,45 @@ export default function InventoryPage() {
   const [paginationInfo, setPaginationInfo] = createSignal<any>(null);
   const business = getBusiness;
 
-  const [items, { refetch }] = createResource(
-    () => ({ filters: filters(), page: currentPage() }),
-    async ({ filters: currentFilters, page }) => {
-      const response = await getInventoryItemsWithPagination({
+  const fetchItemsPage = (
+    currentFilters: InventoryFilters,
+    page: number,
+    limit: number,
+    options?: typeof EXPORT_REQUEST
+  ) =>
+    getInventoryItemsWithPagination(
+      {
         page,
-        limit: 20,
+        limit,
         search: currentFilters.search,
         status:
           currentFilters.status !== 'all' ? currentFilters.status : undefined,
         tags: currentFilters.tags,
         storeHouse: currentFilters.storeHouse,
-      });
+        archived: currentFilters.archived,
+      },
+      options
+    );
+
+  const [items, { refetch }] = createQuery(
+    () => ({ filters: filters(), page: currentPage() }),
+    async ({ filters: currentFilters, page }) => {
+      const response = await fetchItemsPage(currentFilters, page, 20);
       setPaginationInfo(response.pagination);
       return response.items;
-    }
+    },
+    { scopes: ['items'] }
   );
 
-  const [storehouses] = createResource(() => getStorehouses());
+  const [storehouses] = createQuery(
+    () => true,
+    () => getStorehouses(),
+    {
+      scopes: ['storehouses'],
+    }
+  );
   const [isModalOpen, setIsModalOpen] = createSignal(false);
+  const [isImportOpen, setIsImportOpen] = createSignal(false);
 
   // Handle action query param (from FAB - use createEffect to react to changes)
   createEffect(() => {
@@ -65,6 +102,23 @@ export default function InventoryPage() {
     }
   });
 
+  // Item opened from a scanned label, here or elsewhere in the app (?item=)
+  const [scannedItem, setScannedItem] = createSignal<Item | null>(null);
+
+  useScanHandler(async (code) => {
+    const item = await findItemByCode(code).catch(() => null);
+    if (item) setScannedItem(item);
+    return !!item;
+  });
+
+  createEffect(() => {
+    const itemId = searchParams['item'];
+    if (typeof itemId === 'string' && itemId) {
+      setSearchParams({ item: undefined });
+      void findItemByCode(itemId).then((item) => item && setScannedItem(item));
+    }
+  });
+
   // Reset to page 1 when filters change
   const changeFilters = (newFilters: InventoryFilters) => {
     setFilters(newFilters);
@@ -98,24 +152,52 @@ export default function InventoryPage() {
             Track and manage your stock levels across all locations
           </p>
         </div>
-        <Show when={can('items', 'create')}>
-          <Button variant="primary" onClick={() => setIsModalOpen(true)}>
-            <svg
-              class="mr-2 h-5 w-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            Add New Item
+        <div class="flex gap-2">
+          <Button variant="outline" onClick={() => navigate('/stocktake')}>
+            Stock Counts
           </Button>
-        </Show>
+          <ExportButton
+            title="Inventory"
+            filename="inventory"
+            columns={INVENTORY_EXPORT_COLUMNS}
+            fetchPage={async (page, limit) => {
+              const response = await fetchItemsPage(
+                filters(),
+                page,
+                limit,
+                EXPORT_REQUEST
+              );
+              return {
+                rows: response.items,
+                pages: response.pagination.pages,
+              };
+            }}
+            filters={() =>
+              describeInventoryFilters(filters(), storehouses() ?? [])
+            }
+          />
+          <Show when={can('items', 'create')}>
+            <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+              Import
+            </Button>
+            <Button variant="primary" onClick={() => setIsModalOpen(true)}>
+              <svg
+                class="mr-2 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              Add New Item
+            </Button>
+          </Show>
+        </div>
       </div>
 
       {/* Summary Cards */}
@@ -250,6 +332,20 @@ export default function InventoryPage() {
         storehouses={storehouses() ?? []}
       />
 
+      <Show when={scannedItem()}>
+        {(item) => (
+          <ViewItemDetailsModal
+            item={item()}
+            isOpen
+            onClose={() => setScannedItem(null)}
+            onSuccess={() => {
+              setScannedItem(null);
+              refetch();
+            }}
+          />
+        )}
+      </Show>
+
       {/* Table */}
       <Show
         when={!items.loading}
@@ -311,6 +407,13 @@ export default function InventoryPage() {
         }}
         storehouses={storehouses() ?? []}
       />
+
+      <Show when={isImportOpen()}>
+        <ImportItemsModal
+          onClose={() => setIsImportOpen(false)}
+          onImported={refetch}
+        />
+      </Show>
     </div>
   );
 }
@@ -1,7 +1,9 @@
-import { createSignal, createResource, Show, createEffect } from 'solid-js';
+import { createSignal, Show, createEffect } from 'solid-js';
 import { createStore } from 'solid-js/store';
 import { useSearchParams } from '@solidjs/router';
 import { Button } from '@/shared/ui/Button';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import { EXPORT_REQUEST } from '@/shared/lib/export';
 import { can } from '@/shared/stores/permissions.store';
 import {
   getTransactionsWithPagination,
@@ -17,12 +19,24 @@ import {
 import { getClients, getInventoryItems } from '@/shared/api';
 import { apiClient } from '@/shared/lib/api-client';
 import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
+import { isQueuedOffline } from '@/shared/lib/offline-queue';
+import { createQuery } from '@/shared/lib/create-query';
+import {
+  ORDER_EXPORT_COLUMNS,
+  describeListFilters,
+} from '@/shared/lib/export-columns';
+import { notificationStore } from '@/shared/stores/notification.store';
 import {
   formatCurrency as sharedFormatCurrency,
   formatDate as sharedFormatDate,
 } from '@/shared/lib/format';
 import { getBusiness } from '@/shared/stores/business.store';
-import type { Transaction } from '@/shared/types/transaction.types';
+import type {
+  Transaction,
+  TransactionFormData,
+} from '@/shared/types/transaction.types';
+import { fromBaseUnits, toBaseUnits } from '@/features/inventory/lib/units';
 import {
   OrdersTable,
   OrderFiltersBar,
@@ -61,6 +75,8 @@ export default function OrdersPage() {
   const [selectedTransaction, setSelectedTransaction] =
     createSignal<Transaction | null>(null);
   const [isSubmitting, setIsSubmitting] = createSignal(false);
+  // Same key while the same order is resubmitted (double click, stalled network)
+  const orderSubmission = createSubmissionKey();
   const [error, setError] = createSignal<string | null>(null);
   const [confirmAction, setConfirmAction] = createSignal<ConfirmAction | null>(
     null
@@ -91,37 +107,47 @@ export default function OrdersPage() {
   const [formItems, setFormItems] = createStore<FormItem[]>([]);
 
   // Resources
-  const [clients] = createResource(() => getClients());
-  const [items] = createResource(() => getInventoryItems());
+  const [clients] = createQuery(
+    () => true,
+    () => getClients(),
+    { scopes: ['partners'] }
+  );
+  const [items] = createQuery(
+    () => true,
+    () => getInventoryItems(),
+    { scopes: ['items'] }
+  );
   const business = getBusiness;
 
+  // Active filters, shared by the list and the export
+  const listFilters = () => {
+    const advFilters = advancedFilters();
+    return {
+      status: filter() === 'all' ? undefined : filter(),
+      search: searchTerm() || undefined,
+      clientId: advFilters.clientId || undefined,
+      dateFrom: advFilters.dateFrom || undefined,
+      dateTo: advFilters.dateTo || undefined,
+      priceMin: advFilters.priceMin
+        ? parseFloat(advFilters.priceMin)
+        : undefined,
+      priceMax: advFilters.priceMax
+        ? parseFloat(advFilters.priceMax)
+        : undefined,
+      sortBy: advFilters.sortBy,
+      sortOrder: advFilters.sortOrder,
+    };
+  };
+
   // Fetch transactions with all filters
-  const [transactions, { refetch }] = createResource(
-    () => {
-      const advFilters = advancedFilters();
-      return {
-        status: filter() === 'all' ? undefined : filter(),
-        search: searchTerm() || undefined,
-        clientId: advFilters.clientId || undefined,
-        dateFrom: advFilters.dateFrom || undefined,
-        dateTo: advFilters.dateTo || undefined,
-        priceMin: advFilters.priceMin
-          ? parseFloat(advFilters.priceMin)
-          : undefined,
-        priceMax: advFilters.priceMax
-          ? parseFloat(advFilters.priceMax)
-          : undefined,
-        sortBy: advFilters.sortBy,
-        sortOrder: advFilters.sortOrder,
-        page: currentPage(),
-        limit: 20,
-      };
-    },
+  const [transactions, { refetch }] = createQuery(
+    () => ({ ...listFilters(), page: currentPage(), limit: 20 }),
     async (filters) => {
       const response = await getTransactionsWithPagination(filters);
       setPaginationInfo(response.pagination);
       return response.transactions;
-    }
+    },
+    { scopes: ['transactions'] }
   );
 
   // Debounced search
@@ -226,7 +252,17 @@ export default function OrdersPage() {
   // Modal handlers
   const openCreateModal = () => {
     setClientId('');
-    setFormItems([{ itemId: '', quantity: '1', unitPrice: '0' }]);
+    setFormItems([
+      {
+        itemId: '',
+        storeHouse: '',
+        lotNumber: '',
+        serials: [],
+        unit: '',
+        quantity: '1',
+        unitPrice: '0',
+      },
+    ]);
     setError(null);
     setModalMode('create');
   };
@@ -235,11 +271,24 @@ export default function OrdersPage() {
     setSelectedTransaction(transaction);
     setClientId(transaction.clientId || '');
     setFormItems(
-      transaction.items.map((item) => ({
-        itemId: item.itemId,
-        quantity: item.quantity.toString(),
-        unitPrice: item.unitPrice.toString(),
-      }))
+      transaction.items.map((item) => {
+        // Lines entered in a pack are edited in it again
+        const entered = fromBaseUnits(
+          item.quantity,
+          item.unitPrice,
+          item.packUnit?.factor ?? 1
+        );
+        return {
+          itemId: item.itemId,
+          storeHouse: item.storeHouse ?? '',
+          lotNumber: item.lotNumber ?? '',
+          serials: item.serials ?? [],
+          unit: item.packUnit?.unit ?? '',
+          packUnit: item.packUnit,
+          quantity: entered.quantity.toString(),
+          unitPrice: entered.unitPrice.toString(),
+        };
+      })
     );
     setError(null);
     setModalMode('edit');
@@ -273,26 +322,66 @@ export default function OrdersPage() {
     setError(null);
   };
 
+  // Lines of serialized items need a serial number per unit
+  const missingSerials = () =>
+    formItems
+      .map((line) => items()?.find((item) => item.id === line.itemId))
+      .find(
+        (item, index) =>
+          item?.serialized &&
+          formItems[index]!.serials.length !==
+            (parseInt(formItems[index]!.quantity) || 0)
+      );
+
+  // Form lines as sent: quantities and prices in the base unit, naming the
+  // pack they were entered in
+  const orderLines = (): TransactionFormData['items'] =>
+    formItems.map((line) => {
+      const { packUnit } = line;
+      return {
+        itemId: line.itemId,
+        storeHouse: line.storeHouse || undefined,
+        lotNumber: line.lotNumber || undefined,
+        serials: line.serials.length > 0 ? line.serials : undefined,
+        packUnit,
+        ...toBaseUnits(
+          parseInt(line.quantity) || 0,
+          parseFloat(line.unitPrice) || 0,
+          packUnit?.factor ?? 1
+        ),
+      };
+    });
+
   // CRUD Operations
   const handleCreate = async () => {
     if (formItems.length === 0 || formItems.some((i) => !i.itemId)) {
       setError('At least one valid item is required');
       return;
     }
+    const unserialized = missingSerials();
+    if (unserialized) {
+      setError(`Pick a serial number for every unit of ${unserialized.name}`);
+      return;
+    }
     setIsSubmitting(true);
     setError(null);
     try {
-      await createTransaction({
+      const order = {
         clientId: clientId() || undefined,
-        items: formItems.map((item) => ({
-          itemId: item.itemId,
-          quantity: parseInt(item.quantity) || 0,
-          unitPrice: parseFloat(item.unitPrice) || 0,
-        })),
-      });
+        items: orderLines(),
+      };
+      await createTransaction(order, orderSubmission.keyFor(order));
+      orderSubmission.reset();
       await refetch();
       closeModal();
     } catch (err: any) {
+      if (isQueuedOffline(err)) {
+        // Saved to the outbox — treat as done, it syncs when back online
+        orderSubmission.reset();
+        notificationStore.info(getErrorMessage(err));
+        closeModal();
+        return;
+      }
       setError(getErrorMessage(err));
     } finally {
       setIsSubmitting(false);
@@ -305,16 +394,17 @@ export default function OrdersPage() {
       setError('At least one valid item is required');
       return;
     }
+    const unserialized = missingSerials();
+    if (unserialized) {
+      setError(`Pick a serial number for every unit of ${unserialized.name}`);
+      return;
+    }
     setIsSubmitting(true);
     setError(null);
     try {
       await updateTransaction(selectedTransaction()!.id, {
         clientId: clientId() || undefined,
-        items: formItems.map((item) => ({
-          itemId: item.itemId,
-          quantity: parseInt(item.quantity) || 0,
-          unitPrice: parseFloat(item.unitPrice) || 0,
-        })),
+        items: orderLines(),
       });
       await refetch();
       closeModal();
@@ -346,6 +436,10 @@ export default function OrdersPage() {
       await markItemsDelivered(transactionId);
       await refetch();
     } catch (err: any) {
+      if (isQueuedOffline(err)) {
+        notificationStore.info(getErrorMessage(err));
+        return;
+      }
       alert(getErrorMessage(err));
     }
   };
@@ -366,6 +460,10 @@ export default function OrdersPage() {
       await completeTransactionPayment(transactionId);
       await refetch();
     } catch (err: any) {
+      if (isQueuedOffline(err)) {
+        notificationStore.info(getErrorMessage(err));
+        return;
+      }
       alert(getErrorMessage(err));
     }
   };
@@ -473,24 +571,60 @@ export default function OrdersPage() {
             Track and manage sales transactions with your clients
           </p>
         </div>
-        <Show when={can('transactions', 'create')}>
-          <Button variant="primary" onClick={openCreateModal}>
-            <svg
-              class="mr-2 h-5 w-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            New Order
-          </Button>
-        </Show>
+        <div class="flex gap-2">
+          <ExportButton
+            title="Orders"
+            filename="orders"
+            columns={ORDER_EXPORT_COLUMNS}
+            fetchPage={async (page, limit) => {
+              const response = await getTransactionsWithPagination(
+                {
+                  ...listFilters(),
+                  page,
+                  limit,
+                },
+                EXPORT_REQUEST
+              );
+              return {
+                rows: response.transactions,
+                pages:
+                  response.pagination.pages ??
+                  response.pagination.totalPages ??
+                  1,
+              };
+            }}
+            filters={() =>
+              describeListFilters({
+                status: filter(),
+                search: searchTerm(),
+                partner: [
+                  'Client',
+                  clients()?.find((c) => c.id === advancedFilters().clientId)
+                    ?.partnerName,
+                ],
+                ...advancedFilters(),
+              })
+            }
+          />
+          <Show when={can('transactions', 'create')}>
+            <Button variant="primary" onClick={openCreateModal}>
+              <svg
+                class="mr-2 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              New Order
+            </Button>
+          </Show>
+        </div>
       </div>
 
       {/* Filters */}
@@ -11,6 +11,7 @@ import {
   saveAndRefreshBusiness,
   isBusinessLoaded,
 } from '@/shared/stores/business.store';
+import type { CostingMethod } from '@/shared/api/business.api';
 import { can } from '@/shared/stores/permissions.store';
 import {
   getStorehouses,
@@ -21,6 +22,11 @@ import {
 import type { Storehouse } from '@/shared/types/storehouse.types';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage, getErrorTitle } from '@/shared/lib/error-messages';
+import {
+  DEFAULT_SKU_PATTERN,
+  formatSku,
+  isValidSkuPattern,
+} from '@/shared/lib/product-codes';
 
 /**
  * Common currencies with labels
@@ -152,6 +158,160 @@ export default function SettingsPage() {
     }
   };
 
+  // ── Item codes ──
+  const [skuPattern, setSkuPattern] = createSignal('');
+  const [isSavingSku, setIsSavingSku] = createSignal(false);
+
+  createEffect(() => {
+    const biz = business();
+    if (biz) setSkuPattern(biz.skuPattern || DEFAULT_SKU_PATTERN);
+  });
+
+  const skuPreview = () =>
+    isValidSkuPattern(skuPattern())
+      ? formatSku(skuPattern(), { sequence: 42, name: 'Widget' })
+      : null;
+
+  const hasSkuChanges = () => {
+    const biz = business();
+    return !!biz && skuPattern() !== (biz.skuPattern || DEFAULT_SKU_PATTERN);
+  };
+
+  const handleSaveSkuPattern = async () => {
+    const biz = business();
+    if (!biz || !isValidSkuPattern(skuPattern())) return;
+    setIsSavingSku(true);
+    try {
+      await saveAndRefreshBusiness(biz.id, { skuPattern: skuPattern() });
+      notificationStore.success('SKU pattern saved');
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Error',
+      });
+    } finally {
+      setIsSavingSku(false);
+    }
+  };
+
+  // ── Reordering ──
+  const REORDER_FIELDS = [
+    {
+      key: 'leadTimeDays',
+      label: 'Supplier Lead Time',
+      hint: 'Days between placing an order and receiving it',
+    },
+    {
+      key: 'safetyStockDays',
+      label: 'Safety Stock',
+      hint: 'Extra days of sales kept in case of late deliveries',
+    },
+    {
+      key: 'reorderCoverDays',
+      label: 'Order Covers',
+      hint: 'Days of sales one reorder should last',
+    },
+  ] as const;
+  type ReorderField = (typeof REORDER_FIELDS)[number]['key'];
+
+  const [reorderDays, setReorderDays] = createSignal<
+    Record<ReorderField, string>
+  >({ leadTimeDays: '', safetyStockDays: '', reorderCoverDays: '' });
+  const [isSavingReorder, setIsSavingReorder] = createSignal(false);
+
+  createEffect(() => {
+    const biz = business();
+    if (biz) {
+      setReorderDays({
+        leadTimeDays: String(biz.leadTimeDays),
+        safetyStockDays: String(biz.safetyStockDays),
+        reorderCoverDays: String(biz.reorderCoverDays),
+      });
+    }
+  });
+
+  const parsedReorderDays = () => {
+    const parsed = {} as Record<ReorderField, number>;
+    for (const { key } of REORDER_FIELDS) {
+      const days = Number(reorderDays()[key]);
+      const min = key === 'reorderCoverDays' ? 1 : 0;
+      if (!Number.isInteger(days) || days < min || days > 365) return null;
+      parsed[key] = days;
+    }
+    return parsed;
+  };
+
+  const hasReorderChanges = () => {
+    const biz = business();
+    return (
+      !!biz &&
+      REORDER_FIELDS.some(({ key }) => reorderDays()[key] !== String(biz[key]))
+    );
+  };
+
+  const handleSaveReorder = async () => {
+    const biz = business();
+    const days = parsedReorderDays();
+    if (!biz || !days) return;
+    setIsSavingReorder(true);
+    try {
+      await saveAndRefreshBusiness(biz.id, days);
+      notificationStore.success('Reorder settings saved');
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Error',
+      });
+    } finally {
+      setIsSavingReorder(false);
+    }
+  };
+
+  // ── Inventory valuation ──
+  const COSTING_METHODS: Array<{
+    value: CostingMethod;
+    label: string;
+    hint: string;
+  }> = [
+    {
+      value: 'fifo',
+      label: 'FIFO (first in, first out)',
+      hint: 'Sales use up the oldest receipts first; stock on hand carries the latest purchase prices.',
+    },
+    {
+      value: 'average',
+      label: 'Moving weighted average',
+      hint: 'Every unit costs the average of what was paid, updated with each receipt.',
+    },
+  ];
+
+  const [costingMethod, setCostingMethod] = createSignal<CostingMethod>('fifo');
+  const [isSavingCosting, setIsSavingCosting] = createSignal(false);
+
+  createEffect(() => {
+    const biz = business();
+    if (biz) setCostingMethod(biz.costingMethod);
+  });
+
+  const hasCostingChanges = () => {
+    const biz = business();
+    return !!biz && costingMethod() !== biz.costingMethod;
+  };
+
+  const handleSaveCosting = async () => {
+    const biz = business();
+    if (!biz) return;
+    setIsSavingCosting(true);
+    try {
+      await saveAndRefreshBusiness(biz.id, { costingMethod: costingMethod() });
+      notificationStore.success('Valuation method saved');
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Error',
+      });
+    } finally {
+      setIsSavingCosting(false);
+    }
+  };
+
   // ── Storehouses ──
   const [storehouses, { refetch: refetchStorehouses }] = createResource(() =>
     getStorehouses()
@@ -430,6 +590,216 @@ export default function SettingsPage() {
             </CardBody>
           </Card>
 
+          {/* ─── Item Codes ─── */}
+          <Card>
+            <CardHeader>
+              <h2 class="text-lg font-semibold text-text-primary">
+                Item Codes
+              </h2>
+              <p class="mt-1 text-sm text-text-secondary">
+                How SKUs are generated for new items without one
+              </p>
+            </CardHeader>
+            <CardBody>
+              <div class="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                    SKU Pattern
+                  </label>
+                  <input
+                    type="text"
+                    value={skuPattern()}
+                    onInput={(e) => setSkuPattern(e.currentTarget.value)}
+                    disabled={!can('businessSettings', 'update')}
+                    class={`${inputClass} font-mono`}
+                  />
+                  <p class="mt-1 text-xs text-text-muted">
+                    Tokens: {'{seq}'} or {'{seq:5}'} (running number, required),{' '}
+                    {'{yyyy}'}, {'{yy}'}, {'{name}'} (first letters of the item
+                    name).
+                  </p>
+                </div>
+                <div>
+                  <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                    Preview
+                  </label>
+                  <Show
+                    when={skuPreview()}
+                    fallback={
+                      <p class="text-sm text-status-danger-text">
+                        The pattern must contain {'{seq}'} and be at most 40
+                        characters.
+                      </p>
+                    }
+                  >
+                    <p class="py-2 font-mono text-sm text-text-primary">
+                      {skuPreview()}
+                    </p>
+                  </Show>
+                  <p class="mt-1 text-xs text-text-muted">
+                    Item "Widget", number 42. Existing SKUs don't change.
+                  </p>
+                </div>
+              </div>
+
+              <Show when={can('businessSettings', 'update')}>
+                <div class="mt-6 flex items-center gap-3 border-t border-border-subtle pt-4">
+                  <Button
+                    variant="primary"
+                    onClick={handleSaveSkuPattern}
+                    disabled={
+                      !hasSkuChanges() || !skuPreview() || isSavingSku()
+                    }
+                  >
+                    {isSavingSku() ? 'Saving...' : 'Save Pattern'}
+                  </Button>
+                  <Show when={hasSkuChanges()}>
+                    <span class="text-status-warning text-xs">
+                      Unsaved changes
+                    </span>
+                  </Show>
+                </div>
+              </Show>
+            </CardBody>
+          </Card>
+
+          {/* ─── Reordering ─── */}
+          <Card>
+            <CardHeader>
+              <h2 class="text-lg font-semibold text-text-primary">
+                Reordering
+              </h2>
+              <p class="mt-1 text-sm text-text-secondary">
+                Reorder points and quantities are suggested from each item's
+                sales over the last 90 days
+              </p>
+            </CardHeader>
+            <CardBody>
+              <div class="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                <For each={REORDER_FIELDS}>
+                  {(field) => (
+                    <div>
+                      <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                        {field.label}
+                      </label>
+                      <div class="flex items-center gap-2">
+                        <input
+                          type="number"
+                          min={field.key === 'reorderCoverDays' ? 1 : 0}
+                          max="365"
+                          step="1"
+                          value={reorderDays()[field.key]}
+                          onInput={(e) => {
+                            const value = e.currentTarget.value;
+                            setReorderDays((days) => ({
+                              ...days,
+                              [field.key]: value,
+                            }));
+                          }}
+                          disabled={!can('businessSettings', 'update')}
+                          class={inputClass}
+                        />
+                        <span class="text-sm text-text-muted">days</span>
+                      </div>
+                      <p class="mt-1 text-xs text-text-muted">{field.hint}</p>
+                    </div>
+                  )}
+                </For>
+              </div>
+              <p class="mt-4 text-xs text-text-muted">
+                Reorder point = daily sales × (lead time + safety stock).
+                Reorder quantity = daily sales × order cover.
+              </p>
+
+              <Show when={can('businessSettings', 'update')}>
+                <div class="mt-6 flex items-center gap-3 border-t border-border-subtle pt-4">
+                  <Button
+                    variant="primary"
+                    onClick={handleSaveReorder}
+                    disabled={
+                      !hasReorderChanges() ||
+                      !parsedReorderDays() ||
+                      isSavingReorder()
+                    }
+                  >
+                    {isSavingReorder() ? 'Saving...' : 'Save Settings'}
+                  </Button>
+                  <Show when={hasReorderChanges() && !parsedReorderDays()}>
+                    <span class="text-xs text-status-danger-text">
+                      Use whole days up to 365; an order covers at least 1
+                    </span>
+                  </Show>
+                  <Show when={hasReorderChanges() && parsedReorderDays()}>
+                    <span class="text-status-warning text-xs">
+                      Unsaved changes
+                    </span>
+                  </Show>
+                </div>
+              </Show>
+            </CardBody>
+          </Card>
+
+          {/* ─── Inventory Valuation ─── */}
+          <Card>
+            <CardHeader>
+              <h2 class="text-lg font-semibold text-text-primary">
+                Inventory Valuation
+              </h2>
+              <p class="mt-1 text-sm text-text-secondary">
+                How stock is valued and what sold goods cost in gross profit
+              </p>
+            </CardHeader>
+            <CardBody>
+              <div class="space-y-3">
+                <For each={COSTING_METHODS}>
+                  {(method) => (
+                    <label class="flex items-start gap-3">
+                      <input
+                        type="radio"
+                        name="costing-method"
+                        value={method.value}
+                        checked={costingMethod() === method.value}
+                        onChange={() => setCostingMethod(method.value)}
+                        disabled={!can('businessSettings', 'update')}
+                        class="mt-0.5 h-4 w-4 border-border-default text-accent-primary focus:ring-accent-primary"
+                      />
+                      <span>
+                        <span class="block text-sm font-medium text-text-primary">
+                          {method.label}
+                        </span>
+                        <span class="block text-xs text-text-muted">
+                          {method.hint}
+                        </span>
+                      </span>
+                    </label>
+                  )}
+                </For>
+              </div>
+              <p class="mt-4 text-xs text-text-muted">
+                Costs come from the unit prices on received imports. A switch
+                applies from now on: sales already delivered keep their cost and
+                valuations for earlier dates don't change.
+              </p>
+
+              <Show when={can('businessSettings', 'update')}>
+                <div class="mt-6 flex items-center gap-3 border-t border-border-subtle pt-4">
+                  <Button
+                    variant="primary"
+                    onClick={handleSaveCosting}
+                    disabled={!hasCostingChanges() || isSavingCosting()}
+                  >
+                    {isSavingCosting() ? 'Saving...' : 'Save Method'}
+                  </Button>
+                  <Show when={hasCostingChanges()}>
+                    <span class="text-status-warning text-xs">
+                      Unsaved changes
+                    </span>
+                  </Show>
+                </div>
+              </Show>
+            </CardBody>
+          </Card>
+
           {/* ─── Storehouses ─── */}
           <Card>
             <CardHeader>
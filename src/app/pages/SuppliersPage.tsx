@@ -8,6 +8,8 @@ import {
 } from 'solid-js';
 import { useSearchParams } from '@solidjs/router';
 import { Button } from '@/shared/ui/Button';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import { EXPORT_REQUEST } from '@/shared/lib/export';
 import { Card, CardBody, CopyableId } from '@/shared/ui';
 import { can } from '@/shared/stores/permissions.store';
 import {
@@ -20,6 +22,11 @@ import {
 import { getBusiness } from '@/shared/stores/business.store';
 import type { Partner } from '@/shared/types/partner.types';
 import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
+import {
+  PARTNER_EXPORT_COLUMNS,
+  describeListFilters,
+} from '@/shared/lib/export-columns';
 
 type ModalMode = 'create' | 'edit' | 'delete' | 'detail' | null;
 
@@ -49,6 +56,7 @@ export default function SuppliersPage() {
     null
   );
   const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const partnerSubmission = createSubmissionKey();
   const [error, setError] = createSignal<string | null>(null);
 
   // Form state
@@ -407,7 +415,8 @@ export default function SuppliersPage() {
     setError(null);
 
     try {
-      await createPartner(formData());
+      await createPartner(formData(), partnerSubmission.keyFor(formData()));
+      partnerSubmission.reset();
       await refetch();
       closeModal();
     } catch (err: any) {
@@ -472,24 +481,46 @@ export default function SuppliersPage() {
             Manage your suppliers (vendors)
           </p>
         </div>
-        <Show when={can('partners', 'create')}>
-          <Button variant="primary" onClick={openCreateModal}>
-            <svg
-              class="mr-2 h-5 w-5"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width={2}
-                d="M12 4v16m8-8H4"
-              />
-            </svg>
-            New Supplier
-          </Button>
-        </Show>
+        <div class="flex gap-2">
+          <ExportButton
+            title="Suppliers"
+            filename="suppliers"
+            columns={PARTNER_EXPORT_COLUMNS}
+            fetchPage={async (page, limit) => {
+              const response = await getSuppliersWithPagination(
+                {
+                  page,
+                  limit,
+                  search: searchTerm(),
+                },
+                EXPORT_REQUEST
+              );
+              return {
+                rows: response.partners,
+                pages: response.pagination.pages,
+              };
+            }}
+            filters={() => describeListFilters({ search: searchTerm() })}
+          />
+          <Show when={can('partners', 'create')}>
+            <Button variant="primary" onClick={openCreateModal}>
+              <svg
+                class="mr-2 h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              New Supplier
+            </Button>
+          </Show>
+        </div>
       </div>
 
       {/* Search */}
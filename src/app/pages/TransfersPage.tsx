@@ -7,18 +7,26 @@ import {
 } from 'solid-js';
 import { useSearchParams } from '@solidjs/router';
 import { Button } from '@/shared/ui/Button';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import { EXPORT_REQUEST } from '@/shared/lib/export';
 import { Card, CardBody } from '@/shared/ui';
 import { formatDate as sharedFormatDate } from '@/shared/lib/format';
 import { getBusiness } from '@/shared/stores/business.store';
 import {
   getTransfers,
+  getTransfersWithPagination,
   executeTransferAction,
   deleteTransfer,
 } from '@/shared/api/transfers.api';
 import type { Transfer } from '@/shared/types/transfer.types';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage, getErrorTitle } from '@/shared/lib/error-messages';
+import {
+  TRANSFER_EXPORT_COLUMNS,
+  describeListFilters,
+} from '@/shared/lib/export-columns';
 import { FeatureGate } from '@/features/billing/components/UpgradePrompt';
+import { formatSerials } from '@/features/inventory/lib/serials';
 
 type StatusFilter = 'all' | 'pending' | 'completed' | 'cancelled';
 
@@ -143,6 +151,28 @@ export default function TransfersPage() {
               Track stock movements between storehouses
             </p>
           </div>
+          <ExportButton
+            title="Transfers"
+            filename="transfers"
+            columns={TRANSFER_EXPORT_COLUMNS}
+            fetchPage={async (page, limit) => {
+              const response = await getTransfersWithPagination(
+                {
+                  status: filter() === 'all' ? undefined : filter(),
+                  sortBy: 'createdAt',
+                  sortOrder: 'desc',
+                  page,
+                  limit,
+                },
+                EXPORT_REQUEST
+              );
+              return {
+                rows: response.transfers,
+                pages: response.pagination.pages,
+              };
+            }}
+            filters={() => describeListFilters({ status: filter() })}
+          />
         </div>
 
         {/* Status filter tabs */}
@@ -372,6 +402,11 @@ export default function TransfersPage() {
                         Quantity: {transfer().quantity}{' '}
                         {transfer().itemUnit || ''}
                       </p>
+                      <Show when={transfer().serials?.length}>
+                        <p class="mt-0.5 font-mono text-xs text-text-secondary">
+                          {formatSerials(transfer().serials!)}
+                        </p>
+                      </Show>
                     </div>
 
                     {/* From → To */}
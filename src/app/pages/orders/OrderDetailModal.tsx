@@ -1,6 +1,12 @@
 import { Show, For } from 'solid-js';
 import { Button } from '@/shared/ui/Button';
 import { CopyableId } from '@/shared/ui';
+import { formatLot } from '@/features/inventory/lib/lots';
+import { formatSerials } from '@/features/inventory/lib/serials';
+import {
+  formatLineQuantity,
+  getEnteredUnitPrice,
+} from '@/features/inventory/lib/units';
 import type { Transaction } from '@/shared/types/transaction.types';
 import { getStatusColor } from './orderStatusUtils';
 import type { ConfirmAction, FormatCurrencyFn, FormatDateFn } from './types';
@@ -139,13 +145,52 @@ export function OrderDetailModal(props: OrderDetailModalProps) {
                       {item.itemName || `Item ${item.itemId.slice(-6)}`}
                     </p>
                     <p class="text-sm text-text-secondary">
-                      Quantity: {item.quantity}
+                      Quantity: {formatLineQuantity(item)}
+                      <Show when={item.storeHouseName}>
+                        {' '}
+                        from {item.storeHouseName}
+                      </Show>
                     </p>
+                    <Show
+                      when={item.lots?.length}
+                      fallback={
+                        <Show when={item.lotNumber}>
+                          <p class="text-sm text-text-secondary">
+                            Lot {item.lotNumber} first
+                          </p>
+                        </Show>
+                      }
+                    >
+                      <p class="text-sm text-text-secondary">
+                        Lots:{' '}
+                        {item
+                          .lots!.map(
+                            (lot) => `${formatLot(lot)} × ${lot.quantity}`
+                          )
+                          .join(', ')}
+                      </p>
+                    </Show>
+                    <Show when={item.serials?.length}>
+                      <p class="font-mono text-xs text-text-secondary">
+                        {formatSerials(item.serials!)}
+                      </p>
+                    </Show>
                     <p class="text-sm text-text-secondary">
                       Listed Price: {props.formatCurrency(item.listedPrice)}
                     </p>
                     <p class="text-sm text-text-secondary">
                       Sell Price: {props.formatCurrency(item.unitPrice)}
+                      <Show when={item.packUnit}>
+                        {(pack) => (
+                          <>
+                            {' '}
+                            ({props.formatCurrency(
+                              getEnteredUnitPrice(item)
+                            )}{' '}
+                            per {pack().unit})
+                          </>
+                        )}
+                      </Show>
                       <Show
                         when={
                           item.listedPrice && item.unitPrice < item.listedPrice
@@ -1,8 +1,27 @@
-import { Show, Index } from 'solid-js';
+import { Show, Index, For } from 'solid-js';
 import type { SetStoreFunction } from 'solid-js/store';
 import { Button } from '@/shared/ui/Button';
 import { ItemSelect } from '@/shared/ui';
 import type { Item } from '@/features/inventory/types/inventory.types';
+import { findItemWithCode } from '@/features/inventory/lib/item-codes';
+import {
+  getDefaultSourceStorehouse,
+  getStockLevel,
+} from '@/features/inventory/lib/inventory-stats';
+import { formatLot, sortLotsByExpiry } from '@/features/inventory/lib/lots';
+import { getItemSerials } from '@/features/inventory/lib/serials';
+import {
+  getKitLocations,
+  getKitSourceStorehouse,
+  isKit,
+} from '@/features/inventory/lib/kits';
+import {
+  findPackUnit,
+  formatConversion,
+  getUnitOptions,
+} from '@/features/inventory/lib/units';
+import { SerialNumbersInput } from '@/features/inventory/components/SerialNumbersInput';
+import { useScanHandler } from '@/shared/stores/scanner.store';
 import type { FormItem, FormatCurrencyFn } from './types';
 
 interface Client {
@@ -28,9 +47,15 @@ interface OrderFormModalProps {
 }
 
 export function OrderFormModal(props: OrderFormModalProps) {
+  const findItem = (id: string) => props.items?.find((item) => item.id === id);
+
   const addFormItem = () => {
     props.setFormItems(props.formItems.length, {
       itemId: '',
+      storeHouse: '',
+      lotNumber: '',
+      serials: [],
+      unit: '',
       quantity: '1',
       unitPrice: '0',
     });
@@ -43,6 +68,23 @@ export function OrderFormModal(props: OrderFormModalProps) {
   const updateFormItem = (index: number, field: keyof FormItem, value: any) => {
     props.setFormItems(index, field, value);
 
+    // Pack units belong to the item
+    if (field === 'itemId') {
+      props.setFormItems(index, 'unit', '');
+      props.setFormItems(index, 'packUnit', undefined);
+    }
+
+    // Picked lots and units only apply to the item and storehouse they
+    // were picked at
+    if (field === 'itemId' || field === 'storeHouse') {
+      props.setFormItems(index, 'lotNumber', '');
+      props.setFormItems(index, 'serials', []);
+      const line = props.formItems[index]!;
+      if (props.items?.find((item) => item.id === line.itemId)?.serialized) {
+        props.setFormItems(index, 'quantity', '0');
+      }
+    }
+
     if (field === 'itemId' && value) {
       const selectedItem = props.items?.find((item) => item.id === value);
       if (selectedItem) {
@@ -51,8 +93,130 @@ export function OrderFormModal(props: OrderFormModalProps) {
           'unitPrice',
           selectedItem.unitPrice.toString()
         );
+        props.setFormItems(
+          index,
+          'storeHouse',
+          isKit(selectedItem)
+            ? getKitSourceStorehouse(selectedItem)
+            : getDefaultSourceStorehouse(selectedItem)
+        );
+      }
+    }
+  };
+
+  // Switching units keeps the price per base unit: a case costs 24 pieces
+  const setUnit = (index: number, unit: string) => {
+    const line = props.formItems[index]!;
+    const item = findItem(line.itemId);
+    if (!item) return;
+    const from = line.packUnit?.factor ?? 1;
+    const packUnit = findPackUnit(packUnitsOf(line) ?? item, unit);
+    const to = packUnit?.factor ?? 1;
+    const price = parseFloat(line.unitPrice);
+    props.setFormItems(index, 'unit', unit);
+    props.setFormItems(index, 'packUnit', packUnit);
+    if (!isNaN(price)) {
+      props.setFormItems(
+        index,
+        'unitPrice',
+        String(Math.round((price / from) * to * 100) / 100)
+      );
+    }
+  };
+
+  // Serialized lines sell exactly the units picked
+  const setSerials = (index: number, serials: string[]) => {
+    props.setFormItems(index, 'serials', serials);
+    props.setFormItems(index, 'quantity', String(serials.length));
+  };
+
+  // A scanned serial number goes on the line taking stock from where the
+  // unit is held, added if there is none yet
+  const addScannedSerial = (code: string): boolean => {
+    const item = props.items?.find(
+      (i) =>
+        i.serialized && i.stock.some((level) => level.serials?.includes(code))
+    );
+    if (!item) return false;
+    if (props.formItems.some((line) => line.serials.includes(code)))
+      return true;
+    const storeHouse = item.stock.find((level) =>
+      level.serials?.includes(code)
+    )!.storeHouse.id;
+
+    let index = props.formItems.findIndex(
+      (line) => line.itemId === item.id && line.storeHouse === storeHouse
+    );
+    if (index === -1) {
+      index = props.formItems.findIndex((line) => !line.itemId);
+      if (index === -1) {
+        addFormItem();
+        index = props.formItems.length - 1;
       }
+      updateFormItem(index, 'itemId', item.id);
+      updateFormItem(index, 'storeHouse', storeHouse);
+    }
+    setSerials(index, [...props.formItems[index]!.serials, code]);
+    return true;
+  };
+
+  // A scanned item adds a line, or one more unit on its existing line
+  useScanHandler((code) => {
+    if (addScannedSerial(code)) return true;
+    const scanned = findItemWithCode(props.items ?? [], code);
+    if (!scanned) return false;
+
+    const existing = props.formItems.findIndex((i) => i.itemId === scanned.id);
+    // Units of serialized items are added by scanning their serial numbers
+    if (existing !== -1 && scanned.serialized) return true;
+    if (existing !== -1) {
+      const quantity = parseFloat(props.formItems[existing]!.quantity) || 0;
+      props.setFormItems(existing, 'quantity', String(quantity + 1));
+      return true;
     }
+    const empty = props.formItems.findIndex((i) => !i.itemId);
+    if (empty === -1) addFormItem();
+    updateFormItem(
+      empty === -1 ? props.formItems.length - 1 : empty,
+      'itemId',
+      scanned.id
+    );
+    return true;
+  });
+
+  // Lots held where a line takes its stock from, if any
+  const lotsAt = (itemId: string, storehouseId: string) => {
+    const item = findItem(itemId);
+    const lots = item && getStockLevel(item, storehouseId)?.lots;
+    return lots?.length ? sortLotsByExpiry(lots) : undefined;
+  };
+
+  // Pack units a line can be entered in; serialized items sell single units.
+  // A pack the line was saved in stays listed after the item drops it.
+  const packUnitsOf = (line: FormItem) => {
+    const item = findItem(line.itemId);
+    if (!item || item.serialized) return undefined;
+    const saved =
+      line.packUnit && !findPackUnit(item, line.packUnit.unit)
+        ? [line.packUnit]
+        : [];
+    const packUnits = [...(item.packUnits ?? []), ...saved];
+    return packUnits.length > 0 ? { ...item, packUnits } : undefined;
+  };
+
+  // "= 48 pcs" under a line entered in a pack
+  const baseQuantityHint = (line: FormItem) => {
+    const item = findItem(line.itemId);
+    const pack = item && line.packUnit;
+    const quantity = parseFloat(line.quantity);
+    if (!pack || isNaN(quantity)) return undefined;
+    return `= ${quantity * pack.factor} ${item.unit} · ${formatConversion(pack, item.unit)}`;
+  };
+
+  // Units in stock where a serialized line takes its stock from
+  const serialsAt = (itemId: string, storehouseId: string) => {
+    const item = findItem(itemId);
+    return item?.serialized ? getItemSerials(item, storehouseId) : undefined;
   };
 
   const calculateTotal = () => {
@@ -127,7 +291,7 @@ export function OrderFormModal(props: OrderFormModalProps) {
               <Index each={props.formItems}>
                 {(item, index) => (
                   <div class="flex gap-2 rounded-lg border border-border-default p-3">
-                    <div class="flex-1">
+                    <div class="flex-1 space-y-2">
                       <ItemSelect
                         items={props.items ?? []}
                         value={item().itemId}
@@ -136,8 +300,76 @@ export function OrderFormModal(props: OrderFormModalProps) {
                         showStock
                         required
                       />
+                      <Show when={findItem(item().itemId)}>
+                        {(selected) => (
+                          <select
+                            value={item().storeHouse}
+                            onChange={(e) =>
+                              updateFormItem(
+                                index,
+                                'storeHouse',
+                                e.currentTarget.value
+                              )
+                            }
+                            aria-label="Take stock from"
+                            class="w-full rounded border border-border-default bg-bg-surface px-3 py-1.5 text-xs text-text-primary focus:border-accent-primary focus:outline-none"
+                          >
+                            <For each={getKitLocations(selected())}>
+                              {(location) => (
+                                <option value={location.storeHouse.id}>
+                                  From {location.storeHouse.name} (
+                                  {location.assembled} {selected().unit}
+                                  {isKit(selected())
+                                    ? ` + ${location.buildable} to build`
+                                    : ''}
+                                  )
+                                </option>
+                              )}
+                            </For>
+                          </select>
+                        )}
+                      </Show>
+                      <Show when={lotsAt(item().itemId, item().storeHouse)}>
+                        {(lots) => (
+                          <select
+                            value={item().lotNumber}
+                            onChange={(e) =>
+                              updateFormItem(
+                                index,
+                                'lotNumber',
+                                e.currentTarget.value
+                              )
+                            }
+                            aria-label="Lot"
+                            class="w-full rounded border border-border-default bg-bg-surface px-3 py-1.5 text-xs text-text-primary focus:border-accent-primary focus:outline-none"
+                          >
+                            <option value="">Lot: first expiry first</option>
+                            <For each={lots()}>
+                              {(lot) => (
+                                <option value={lot.lotNumber}>
+                                  Lot {formatLot(lot)} ({lot.quantity})
+                                </option>
+                              )}
+                            </For>
+                          </select>
+                        )}
+                      </Show>
+                      <Show when={serialsAt(item().itemId, item().storeHouse)}>
+                        {(serials) => (
+                          <SerialNumbersInput
+                            value={item().serials}
+                            onChange={(picked) => setSerials(index, picked)}
+                            options={serials()}
+                          />
+                        )}
+                      </Show>
+                      <Show when={baseQuantityHint(item())}>
+                        {(hint) => (
+                          <p class="text-xs text-text-muted">{hint()}</p>
+                        )}
+                      </Show>
                     </div>
-                    <div class="w-24">
+                    <div class="w-24 space-y-2">
                       <input
                         type="text"
                         inputmode="numeric"
@@ -151,10 +383,38 @@ export function OrderFormModal(props: OrderFormModalProps) {
                             e.currentTarget.value
                           )
                         }
+                        readOnly={!!findItem(item().itemId)?.serialized}
+                        title={
+                          findItem(item().itemId)?.serialized
+                            ? 'Set by the serial numbers picked'
+                            : undefined
+                        }
                         required
                         placeholder="Qty"
                         class="w-full rounded border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-accent-primary focus:outline-none"
                       />
+                      <Show when={packUnitsOf(item())}>
+                        {(selected) => (
+                          <select
+                            value={item().unit}
+                            onChange={(e) =>
+                              setUnit(index, e.currentTarget.value)
+                            }
+                            aria-label="Unit"
+                            class="w-full rounded border border-border-default bg-bg-surface px-2 py-1.5 text-xs text-text-primary focus:border-accent-primary focus:outline-none"
+                          >
+                            <For each={getUnitOptions(selected())}>
+                              {(option) => (
+                                <option
+                                  value={option.factor === 1 ? '' : option.unit}
+                                >
+                                  {option.unit}
+                                </option>
+                              )}
+                            </For>
+                          </select>
+                        )}
+                      </Show>
                     </div>
                     <div class="w-32">
                       <input
@@ -172,6 +432,7 @@ export function OrderFormModal(props: OrderFormModalProps) {
                         }
                         required
                         placeholder="Price"
+                        title={`Price per ${item().unit || findItem(item().itemId)?.unit || 'unit'}`}
                         class="w-full rounded border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-accent-primary focus:outline-none"
                       />
                     </div>
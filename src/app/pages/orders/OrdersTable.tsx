@@ -4,6 +4,11 @@ import { Card, CardBody, CopyableId } from '@/shared/ui';
 import type { Transaction } from '@/shared/types/transaction.types';
 import { getStatusColor } from './orderStatusUtils';
 import type { FormatCurrencyFn, FormatDateFn } from './types';
+import {
+  RecentChangeBadge,
+  RECENT_CHANGE_ROW_CLASS,
+} from '@/shared/components/RecentChangeBadge';
+import { getRecentChange } from '@/shared/stores/realtime.store';
 
 interface PaginationInfo {
   total: number;
@@ -111,7 +116,13 @@ export function OrdersTable(props: OrdersTableProps) {
                     <For each={props.transactions}>
                       {(transaction: Transaction) => (
                         <tr
-                          class={`transition-colors hover:bg-bg-hover ${props.selectedOrders.has(transaction.id) ? 'bg-accent-primary/5' : ''}`}
+                          class={`transition-colors hover:bg-bg-hover ${
+                            props.selectedOrders.has(transaction.id)
+                              ? 'bg-accent-primary/5'
+                              : getRecentChange(transaction.id)
+                                ? RECENT_CHANGE_ROW_CLASS
+                                : ''
+                          }`}
                         >
                           <td class="whitespace-nowrap px-4 py-4">
                             <input
@@ -125,6 +136,7 @@ export function OrdersTable(props: OrdersTableProps) {
                           </td>
                           <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
                             <CopyableId id={transaction.id} />
+                            <RecentChangeBadge id={transaction.id} />
                           </td>
                           <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
                             {transaction.clientName || 'Unknown'}
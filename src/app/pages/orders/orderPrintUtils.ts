@@ -1,4 +1,10 @@
-import type { Transaction } from '@/shared/types/transaction.types';
+import type {
+  Transaction,
+  TransactionItem,
+} from '@/shared/types/transaction.types';
+import { formatLot } from '@/features/inventory/lib/lots';
+import { formatSerials } from '@/features/inventory/lib/serials';
+import { formatLineQuantity } from '@/features/inventory/lib/units';
 
 export function groupOrdersByDate(orders: Transaction[]) {
   const grouped: Record<string, Transaction[]> = {};
@@ -30,6 +36,21 @@ interface BusinessInfo {
   email?: string;
 }
 
+/**
+ * Lots a delivered line was taken from and the serial numbers sold,
+ * under the item name
+ */
+function lineDetailsHtml(item: TransactionItem): string {
+  const details = [
+    ...(item.lots ?? []).map(
+      (lot) => `Lot ${formatLot(lot)} × ${lot.quantity}`
+    ),
+    ...(item.serials?.length ? [formatSerials(item.serials)] : []),
+  ];
+  if (details.length === 0) return '';
+  return `<br><small class="item-detail">${details.join('<br>')}</small>`;
+}
+
 function buildReceiptHtml(
   ordersToPrint: Transaction[],
   businessInfo: BusinessInfo,
@@ -54,8 +75,8 @@ function buildReceiptHtml(
           .map(
             (item) => `
           <tr>
-            <td class="item-name">${item.itemName || 'Item'}</td>
-            <td class="item-qty">${item.quantity}</td>
+            <td class="item-name">${item.itemName || 'Item'}${lineDetailsHtml(item)}</td>
+            <td class="item-qty">${formatLineQuantity(item)}</td>
             <td class="item-total">$${item.totalPrice.toFixed(2)}</td>
           </tr>
         `
@@ -110,6 +131,7 @@ function buildReceiptHtml(
           .items-table td { padding: 2px 0; font-size: 11px; }
           .item-name { text-align: left; }
           .item-qty { text-align: center; width: 30px; }
+          .item-detail { font-size: 9px; }
           .item-total { text-align: right; width: 50px; }
           .order-total {
             display: flex;
@@ -213,8 +235,8 @@ function buildReportHtml(
               .map(
                 (item) => `
               <tr>
-                <td class="item-name">${item.itemName || 'Item'}</td>
-                <td class="item-qty">${item.quantity}</td>
+                <td class="item-name">${item.itemName || 'Item'}${lineDetailsHtml(item)}</td>
+                <td class="item-qty">${formatLineQuantity(item)}</td>
                 <td class="item-price">$${item.unitPrice.toFixed(2)}${item.listedPrice !== item.unitPrice ? `<br><s class="original-price">$${item.listedPrice.toFixed(2)}</s>` : ''}</td>
                 <td class="item-total">$${item.totalPrice.toFixed(2)}</td>
               </tr>
@@ -343,6 +365,7 @@ function buildReportHtml(
           .item-qty, .item-price, .item-total { text-align: center; width: 80px; }
           .item-total { text-align: right; }
           .original-price { color: #999; font-size: 10px; }
+          .item-detail { color: #666; font-size: 10px; }
           
           .order-total { display: flex; justify-content: space-between; padding-top: 10px; border-top: 2px solid #333; font-weight: bold; font-size: 14px; }
           .total-amount { font-size: 16px; color: #059669; }
@@ -1,3 +1,5 @@
+import type { PackUnit } from '@/features/inventory/types/inventory.types';
+
 export type ModalMode =
   | 'create'
   | 'edit'
@@ -20,6 +22,11 @@ export interface ConfirmAction {
 
 export interface FormItem {
   itemId: string;
+  storeHouse: string; // Storehouse the stock is taken from
+  lotNumber: string; // Lot taken first, empty for first expiry first out
+  serials: string[]; // Units sold, serialized items; sets the quantity
+  unit: string; // Pack unit quantity and price are entered in, empty for the base unit
+  packUnit?: PackUnit; // Pack `unit` names, as saved; edits don't look it up again
   quantity: string;
   unitPrice: string;
 }
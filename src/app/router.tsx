@@ -22,6 +22,12 @@ const BillingPage = lazy(() => import('@/features/billing/pages/BillingPage'));
 const AnalyticsPage = lazy(
   () => import('@/features/analytics/pages/AnalyticsPage')
 );
+const StocktakePage = lazy(
+  () => import('@/features/stocktake/pages/StocktakePage')
+);
+const StocktakeSessionPage = lazy(
+  () => import('@/features/stocktake/pages/StocktakeSessionPage')
+);
 const NotFoundPage = lazy(() => import('./pages/NotFoundPage'));
 const OnboardingPage = lazy(
   () => import('@/features/auth/pages/OnboardingPage')
@@ -58,6 +64,8 @@ export function AppRouter() {
         <Route path="/" component={ProtectedLayout}>
           <Route path="/" component={HomePage} />
           <Route path="/inventory" component={InventoryPage} />
+          <Route path="/stocktake" component={StocktakePage} />
+          <Route path="/stocktake/:id" component={StocktakeSessionPage} />
           <Route path="/orders" component={OrdersPage} />
           <Route path="/imports" component={ImportsPage} />
           <Route path="/transfers" component={TransfersPage} />
@@ -2,10 +2,10 @@
  * Analytics API
  *
  * All analytics endpoint calls. Every function accepts an
- * AnalyticsQuery object and returns the typed response.
+ * AnalyticsQuery object and returns the validated response.
  */
 
-import { apiClient } from '@/shared/lib/api-client';
+import { queryGet } from '@/shared/lib/query-client';
 import type { AnalyticsPeriod } from '../types/analytics.constants';
 import type {
   ProfitLossData,
@@ -17,7 +17,21 @@ import type {
   DiscountAnalysisData,
   StorehouseComparisonData,
   TransferFlowData,
+  ValuationReportData,
 } from '../types/analytics.types';
+import {
+  ProfitLossDataSchema,
+  TrendsDataSchema,
+  TopItemResultSchema,
+  PartnerAnalyticsEntrySchema,
+  InventorySnapshotDataSchema,
+  PaymentInsightsDataSchema,
+  DiscountAnalysisDataSchema,
+  StorehouseComparisonDataSchema,
+  TransferFlowDataSchema,
+  ValuationReportDataSchema,
+} from '../types/analytics.types';
+import { z } from 'zod';
 
 const BASE = '/analytics';
 
@@ -39,8 +53,12 @@ export function getProfitLoss(
   period: AnalyticsPeriod,
   storehouseId?: string
 ): Promise<ProfitLossData> {
-  return apiClient.get<ProfitLossData>(
-    `${BASE}/profit-loss?${buildQs({ period, storehouseId })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/profit-loss?${buildQs({ period, storehouseId })}`,
+    {
+      schema: ProfitLossDataSchema,
+    }
   );
 }
 
@@ -48,8 +66,12 @@ export function getTrends(
   period: AnalyticsPeriod,
   storehouseId?: string
 ): Promise<TrendsData> {
-  return apiClient.get<TrendsData>(
-    `${BASE}/trends?${buildQs({ period, storehouseId })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/trends?${buildQs({ period, storehouseId })}`,
+    {
+      schema: TrendsDataSchema,
+    }
   );
 }
 
@@ -59,8 +81,12 @@ export function getTopItems(
   limit = 10,
   storehouseId?: string
 ): Promise<TopItemResult[]> {
-  return apiClient.get<TopItemResult[]>(
-    `${BASE}/top-items?${buildQs({ period, storehouseId, type, limit })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/top-items?${buildQs({ period, storehouseId, type, limit })}`,
+    {
+      schema: z.array(TopItemResultSchema),
+    }
   );
 }
 
@@ -70,8 +96,12 @@ export function getPartnerAnalytics(
   limit = 10,
   storehouseId?: string
 ): Promise<PartnerAnalyticsEntry[]> {
-  return apiClient.get<PartnerAnalyticsEntry[]>(
-    `${BASE}/partners?${buildQs({ period, storehouseId, type, limit })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/partners?${buildQs({ period, storehouseId, type, limit })}`,
+    {
+      schema: z.array(PartnerAnalyticsEntrySchema),
+    }
   );
 }
 
@@ -79,8 +109,12 @@ export function getInventorySnapshot(
   period: AnalyticsPeriod,
   storehouseId?: string
 ): Promise<InventorySnapshotData> {
-  return apiClient.get<InventorySnapshotData>(
-    `${BASE}/inventory?${buildQs({ period, storehouseId })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/inventory?${buildQs({ period, storehouseId })}`,
+    {
+      schema: InventorySnapshotDataSchema,
+    }
   );
 }
 
@@ -88,8 +122,12 @@ export function getPaymentInsights(
   period: AnalyticsPeriod,
   storehouseId?: string
 ): Promise<PaymentInsightsData> {
-  return apiClient.get<PaymentInsightsData>(
-    `${BASE}/payments?${buildQs({ period, storehouseId })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/payments?${buildQs({ period, storehouseId })}`,
+    {
+      schema: PaymentInsightsDataSchema,
+    }
   );
 }
 
@@ -98,24 +136,46 @@ export function getDiscountAnalysis(
   limit = 10,
   storehouseId?: string
 ): Promise<DiscountAnalysisData> {
-  return apiClient.get<DiscountAnalysisData>(
-    `${BASE}/discounts?${buildQs({ period, storehouseId, limit })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/discounts?${buildQs({ period, storehouseId, limit })}`,
+    {
+      schema: DiscountAnalysisDataSchema,
+    }
   );
 }
 
 export function getStorehouseComparison(
   period: AnalyticsPeriod
 ): Promise<StorehouseComparisonData> {
-  return apiClient.get<StorehouseComparisonData>(
-    `${BASE}/storehouses?${buildQs({ period })}`
-  );
+  return queryGet('analytics', `${BASE}/storehouses?${buildQs({ period })}`, {
+    schema: StorehouseComparisonDataSchema,
+  });
 }
 
 export function getTransferFlow(
   period: AnalyticsPeriod,
   limit = 10
 ): Promise<TransferFlowData> {
-  return apiClient.get<TransferFlowData>(
-    `${BASE}/transfers?${buildQs({ period, limit })}`
+  return queryGet(
+    'analytics',
+    `${BASE}/transfers?${buildQs({ period, limit })}`,
+    {
+      schema: TransferFlowDataSchema,
+    }
   );
 }
+
+/**
+ * Stock per storehouse valued at cost as of the end of `date` (YYYY-MM-DD)
+ */
+export function getInventoryValuation(
+  date: string,
+  storehouseId?: string
+): Promise<ValuationReportData> {
+  const sp = new URLSearchParams({ date });
+  if (storehouseId) sp.set('storehouseId', storehouseId);
+  return queryGet('analytics', `${BASE}/valuation?${sp.toString()}`, {
+    schema: ValuationReportDataSchema,
+  });
+}
@@ -10,18 +10,23 @@
  *   3. Top Items
  *   4. Partner Analytics
  *   5. Inventory Snapshot
- *   6. Payment Insights
- *   7. Margin Analysis
- *   8. Storehouse Comparison
- *   9. Transfer Flow
+ *   6. Inventory Valuation (stock at cost on a chosen date)
+ *   7. Payment Insights
+ *   8. Margin Analysis
+ *   9. Storehouse Comparison
+ *  10. Transfer Flow
  */
 
-import { createSignal, createResource, Show, For, type JSX } from 'solid-js';
+import { createSignal, Show, For, type JSX } from 'solid-js';
+import { A } from '@solidjs/router';
 import { Card, CardHeader, CardBody } from '@/shared/ui';
+import { ExportButton } from '@/shared/ui/ExportButton';
+import type { ExportColumn } from '@/shared/lib/export';
 import { FeatureGate } from '@/features/billing/components/UpgradePrompt';
 import { hasFeature } from '@/features/billing/store/subscription.store';
 import { formatCurrency } from '@/shared/lib/format';
 import { getStorehouses } from '@/shared/api/storehouses.api';
+import { createQuery } from '@/shared/lib/create-query';
 import {
   getProfitLoss,
   getTrends,
@@ -32,6 +37,7 @@ import {
   getDiscountAnalysis,
   getStorehouseComparison,
   getTransferFlow,
+  getInventoryValuation,
 } from '../api/analytics.api';
 import {
   PERIOD_OPTIONS,
@@ -51,6 +57,8 @@ import type {
   DiscountAnalysisData,
   StorehouseComparisonData,
   TransferFlowData,
+  ValuationItem,
+  ValuationReportData,
 } from '../types/analytics.types';
 
 // ============================================
@@ -72,6 +80,32 @@ function changeColor(n: number | null | undefined): string {
   return n >= 0 ? 'text-status-success' : 'text-status-error';
 }
 
+const METHOD_LABELS: Record<ValuationReportData['method'], string> = {
+  fifo: 'FIFO (first in, first out)',
+  average: 'Moving weighted average cost',
+};
+
+type ValuationRow = ValuationItem & { storehouseName: string };
+
+const VALUATION_EXPORT_COLUMNS: ExportColumn<ValuationRow>[] = [
+  { id: 'storehouse', header: 'Storehouse', value: (r) => r.storehouseName },
+  { id: 'item', header: 'Item', value: (r) => r.name },
+  {
+    id: 'quantity',
+    header: 'Quantity',
+    value: (r) => r.quantity,
+    kind: 'number',
+  },
+  { id: 'unit', header: 'Unit', value: (r) => r.unit },
+  {
+    id: 'unitCost',
+    header: 'Unit cost',
+    value: (r) => r.unitCost,
+    kind: 'currency',
+  },
+  { id: 'value', header: 'Value', value: (r) => r.value, kind: 'currency' },
+];
+
 function barWidth(value: number, max: number): string {
   if (max <= 0) return '0%';
   return `${Math.min((value / max) * 100, 100)}%`;
@@ -174,9 +208,19 @@ export default function AnalyticsPage() {
   const [partnerType, setPartnerType] = createSignal<'clients' | 'suppliers'>(
     'clients'
   );
+  const [valuationDate, setValuationDate] = createSignal(
+    new Date().toISOString().slice(0, 10)
+  );
+  const [openStorehouse, setOpenStorehouse] = createSignal<string | null>(null);
 
   // Storehouses for the filter dropdown
-  const [storehouses] = createResource(() => getStorehouses());
+  const [storehouses] = createQuery(
+    () => true,
+    () => getStorehouses(),
+    {
+      scopes: ['storehouses'],
+    }
+  );
 
   // The sh filter value (empty string = all)
   const shFilter = () => storehouseId() || undefined;
@@ -185,55 +229,73 @@ export default function AnalyticsPage() {
   const allowed = () => hasFeature('advancedReports');
 
   // ── Resources (guarded by feature flag) ────────────────────────────
-  const [profitLoss] = createResource(
+  const [profitLoss] = createQuery(
     () => (allowed() ? { p: period(), sh: shFilter() } : (false as const)),
-    ({ p, sh }) => getProfitLoss(p, sh)
+    ({ p, sh }) => getProfitLoss(p, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [trends] = createResource(
+  const [trends] = createQuery(
     () => (allowed() ? { p: period(), sh: shFilter() } : (false as const)),
-    ({ p, sh }) => getTrends(p, sh)
+    ({ p, sh }) => getTrends(p, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [topItems] = createResource(
+  const [topItems] = createQuery(
     () =>
       allowed()
         ? { p: period(), t: topItemsType(), sh: shFilter() }
         : (false as const),
-    ({ p, t, sh }) => getTopItems(p, t, 10, sh)
+    ({ p, t, sh }) => getTopItems(p, t, 10, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [partners] = createResource(
+  const [partners] = createQuery(
     () =>
       allowed()
         ? { p: period(), t: partnerType(), sh: shFilter() }
         : (false as const),
-    ({ p, t, sh }) => getPartnerAnalytics(p, t, 10, sh)
+    ({ p, t, sh }) => getPartnerAnalytics(p, t, 10, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [inventory] = createResource(
+  const [inventory] = createQuery(
     () => (allowed() ? { p: period(), sh: shFilter() } : (false as const)),
-    ({ p, sh }) => getInventorySnapshot(p, sh)
+    ({ p, sh }) => getInventorySnapshot(p, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [payments] = createResource(
+  const [payments] = createQuery(
     () => (allowed() ? { p: period(), sh: shFilter() } : (false as const)),
-    ({ p, sh }) => getPaymentInsights(p, sh)
+    ({ p, sh }) => getPaymentInsights(p, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [discounts] = createResource(
+  const [discounts] = createQuery(
     () => (allowed() ? { p: period(), sh: shFilter() } : (false as const)),
-    ({ p, sh }) => getDiscountAnalysis(p, 10, sh)
+    ({ p, sh }) => getDiscountAnalysis(p, 10, sh),
+    { scopes: ['analytics'] }
+  );
+
+  const [valuation] = createQuery(
+    () =>
+      allowed() && valuationDate()
+        ? { d: valuationDate(), sh: shFilter() }
+        : (false as const),
+    ({ d, sh }) => getInventoryValuation(d, sh),
+    { scopes: ['analytics'] }
   );
 
-  const [shComparison] = createResource(
+  const [shComparison] = createQuery(
     () => (allowed() ? period() : (false as const)),
-    (p) => getStorehouseComparison(p)
+    (p) => getStorehouseComparison(p),
+    { scopes: ['analytics'] }
   );
 
-  const [transferFlow] = createResource(
+  const [transferFlow] = createQuery(
     () => (allowed() ? period() : (false as const)),
-    (p) => getTransferFlow(p)
+    (p) => getTransferFlow(p),
+    { scopes: ['analytics'] }
   );
 
   return (
@@ -300,9 +362,9 @@ export default function AnalyticsPage() {
                       subColor={changeColor(d.revenueChangePercent)}
                     />
                     <StatCard
-                      label="Cost"
-                      value={fc(d.cost)}
-                      sub={`${pct(d.costChangePercent)} vs prev period`}
+                      label="Cost of Goods Sold"
+                      value={fc(d.cogs)}
+                      sub={`Purchases ${fc(d.cost)} (${pct(d.costChangePercent)})`}
                       subColor={changeColor(
                         d.costChangePercent != null
                           ? -d.costChangePercent
@@ -354,7 +416,8 @@ export default function AnalyticsPage() {
                           <tr>
                             <Th>Date</Th>
                             <Th>Revenue</Th>
-                            <Th>Cost</Th>
+                            <Th>Purchases</Th>
+                            <Th>COGS</Th>
                             <Th>Profit</Th>
                             <Th class="hidden sm:table-cell">Visual</Th>
                           </tr>
@@ -366,6 +429,7 @@ export default function AnalyticsPage() {
                                 <Td>{new Date(b.date).toLocaleDateString()}</Td>
                                 <Td>{fc(b.revenue)}</Td>
                                 <Td>{fc(b.cost)}</Td>
+                                <Td>{fc(b.cogs)}</Td>
                                 <Td
                                   class={
                                     b.profit >= 0
@@ -704,6 +768,147 @@ export default function AnalyticsPage() {
           </Show>
         </section>
 
+        {/* ── Inventory Valuation ──────────────── */}
+        <section>
+          <div class="mb-3 flex flex-wrap items-center justify-between gap-3">
+            <SectionHeading>Inventory Valuation</SectionHeading>
+            <div class="flex items-center gap-3">
+              <input
+                type="date"
+                value={valuationDate()}
+                max={new Date().toISOString().slice(0, 10)}
+                onChange={(e) => setValuationDate(e.currentTarget.value)}
+                aria-label="Valuation date"
+                class="rounded-md border border-border-default bg-bg-surface px-3 py-1.5 text-sm text-text-primary focus:border-accent-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+              />
+              <ExportButton
+                title="Inventory Valuation"
+                filename="inventory-valuation"
+                columns={VALUATION_EXPORT_COLUMNS}
+                fetchPage={async () => {
+                  const report = await getInventoryValuation(
+                    valuationDate(),
+                    shFilter()
+                  );
+                  return {
+                    rows: report.storehouses.flatMap((s) =>
+                      s.items.map((item) => ({
+                        ...item,
+                        storehouseName: s.storehouseName,
+                      }))
+                    ),
+                    pages: 1,
+                  };
+                }}
+                filters={() => [`As of ${valuationDate()}`]}
+              />
+            </div>
+          </div>
+          <Card>
+            <CardBody>
+              <Show when={!valuation.loading} fallback={<LoadingSpinner />}>
+                <Show
+                  when={!valuation.error}
+                  fallback={<ErrorMessage error={valuation.error} />}
+                >
+                  {(() => {
+                    const d = valuation() as ValuationReportData | undefined;
+                    if (!d) return null;
+                    return (
+                      <div class="space-y-3">
+                        <p class="text-sm text-text-secondary">
+                          {fc(d.totalValue)} in stock at the end of{' '}
+                          {new Date(d.date).toLocaleDateString()}, valued by{' '}
+                          {METHOD_LABELS[d.method]}.{' '}
+                          <A
+                            href="/settings"
+                            class="text-text-link hover:underline"
+                          >
+                            Change method
+                          </A>
+                        </p>
+                        <Show
+                          when={d.storehouses.length > 0}
+                          fallback={
+                            <p class="py-6 text-center text-sm text-text-muted">
+                              No stock on this date.
+                            </p>
+                          }
+                        >
+                          <TableWrapper>
+                            <thead>
+                              <tr>
+                                <Th>Storehouse / Item</Th>
+                                <Th>Qty</Th>
+                                <Th>Unit Cost</Th>
+                                <Th>Value</Th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              <For each={d.storehouses}>
+                                {(s) => (
+                                  <>
+                                    <tr
+                                      class="cursor-pointer hover:bg-bg-hover"
+                                      onClick={() =>
+                                        setOpenStorehouse(
+                                          openStorehouse() === s.storehouseId
+                                            ? null
+                                            : s.storehouseId
+                                        )
+                                      }
+                                      aria-expanded={
+                                        openStorehouse() === s.storehouseId
+                                      }
+                                    >
+                                      <Td>
+                                        <span class="font-medium text-text-primary">
+                                          {openStorehouse() === s.storehouseId
+                                            ? '▾'
+                                            : '▸'}{' '}
+                                          {s.storehouseName}
+                                        </span>
+                                        <span class="ml-1 text-xs text-text-muted">
+                                          ({s.items.length} items)
+                                        </span>
+                                      </Td>
+                                      <Td>{s.totalQuantity}</Td>
+                                      <Td>—</Td>
+                                      <Td class="font-medium">
+                                        {fc(s.totalValue)}
+                                      </Td>
+                                    </tr>
+                                    <Show
+                                      when={openStorehouse() === s.storehouseId}
+                                    >
+                                      <For each={s.items}>
+                                        {(i) => (
+                                          <tr class="hover:bg-bg-hover">
+                                            <Td class="pl-8">{i.name}</Td>
+                                            <Td>
+                                              {i.quantity} {i.unit}
+                                            </Td>
+                                            <Td>{fc(i.unitCost)}</Td>
+                                            <Td>{fc(i.value)}</Td>
+                                          </tr>
+                                        )}
+                                      </For>
+                                    </Show>
+                                  </>
+                                )}
+                              </For>
+                            </tbody>
+                          </TableWrapper>
+                        </Show>
+                      </div>
+                    );
+                  })()}
+                </Show>
+              </Show>
+            </CardBody>
+          </Card>
+        </section>
+
         {/* ── Payment & Delivery Insights ──────────────── */}
         <section>
           <SectionHeading>Payment & Delivery Insights</SectionHeading>
@@ -1,10 +1,11 @@
 /**
  * Analytics Types
  *
- * Response types for the analytics API endpoints.
+ * Response schemas for the analytics API endpoints.
  * These mirror the shapes returned by AnalyticsRepository on the backend.
  */
 
+import { z } from 'zod';
 import type { AnalyticsPeriod } from './analytics.constants.js';
 
 // ============================================
@@ -22,59 +23,78 @@ export interface AnalyticsQuery {
 // Profit & Loss
 // ============================================
 
-export interface ProfitLossData {
-  revenue: number;
-  cost: number;
-  grossProfit: number;
-  marginPercent: number;
-  transactionCount: number;
-  importCount: number;
-  revenueChangePercent: number | null;
-  costChangePercent: number | null;
-}
+export const ProfitLossDataSchema = z.object({
+  revenue: z.number(),
+  /** Purchases booked in the period */
+  cost: z.number(),
+  /** Cost of the goods sold in the period, from the cost layers */
+  cogs: z.number(),
+  grossProfit: z.number(),
+  marginPercent: z.number(),
+  transactionCount: z.number(),
+  importCount: z.number(),
+  revenueChangePercent: z.number().nullable(),
+  costChangePercent: z.number().nullable(),
+});
+
+export type ProfitLossData = z.infer<typeof ProfitLossDataSchema>;
 
 // ============================================
 // Trends
 // ============================================
 
-export interface TrendBucket {
-  date: string;
-  revenue: number;
-  cost: number;
-  profit: number;
-  transactionCount: number;
-  importCount: number;
-}
+const TrendBucketSchema = z.object({
+  date: z.string(),
+  revenue: z.number(),
+  cost: z.number(),
+  cogs: z.number(),
+  profit: z.number(),
+  transactionCount: z.number(),
+  importCount: z.number(),
+});
 
-export interface TrendsData {
-  buckets: TrendBucket[];
-}
+export type TrendBucket = z.infer<typeof TrendBucketSchema>;
+
+export const TrendsDataSchema = z.object({
+  buckets: z.array(TrendBucketSchema),
+});
+
+export type TrendsData = z.infer<typeof TrendsDataSchema>;
 
 // ============================================
 // Top Items
 // ============================================
 
-export interface TopSoldItem {
-  itemId: string;
-  name: string;
-  unit: string;
-  totalQuantity: number;
-  totalValue: number;
-  avgPrice: number;
-}
+const TopSoldItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  totalQuantity: z.number(),
+  totalValue: z.number(),
+  avgPrice: z.number(),
+});
 
-export interface TopProfitableItem {
-  itemId: string;
-  name: string;
-  unit: string;
-  avgSellPrice: number;
-  avgBuyPrice: number;
-  totalRevenue: number;
-  totalCost: number;
-  profit: number;
-  marginPercent: number;
-  totalQtySold: number;
-}
+export type TopSoldItem = z.infer<typeof TopSoldItemSchema>;
+
+const TopProfitableItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  avgSellPrice: z.number(),
+  avgBuyPrice: z.number(),
+  totalRevenue: z.number(),
+  totalCost: z.number(),
+  profit: z.number(),
+  marginPercent: z.number(),
+  totalQtySold: z.number(),
+});
+
+export type TopProfitableItem = z.infer<typeof TopProfitableItemSchema>;
+
+export const TopItemResultSchema = z.union([
+  TopProfitableItemSchema,
+  TopSoldItemSchema,
+]);
 
 export type TopItemResult = TopSoldItem | TopProfitableItem;
 
@@ -82,132 +102,199 @@ export type TopItemResult = TopSoldItem | TopProfitableItem;
 // Partner Analytics
 // ============================================
 
-export interface PartnerAnalyticsEntry {
-  partnerId: string;
-  name: string;
-  isWalkIn?: boolean;
-  totalValue: number;
-  orderCount: number;
-  avgOrderValue: number;
-  lastActivityDate: string;
-}
+export const PartnerAnalyticsEntrySchema = z.object({
+  partnerId: z.string(),
+  name: z.string(),
+  isWalkIn: z.boolean().optional(),
+  totalValue: z.number(),
+  orderCount: z.number(),
+  avgOrderValue: z.number(),
+  lastActivityDate: z.string(),
+});
+
+export type PartnerAnalyticsEntry = z.infer<typeof PartnerAnalyticsEntrySchema>;
 
 // ============================================
 // Inventory Snapshot
 // ============================================
 
-export interface StorehouseInventory {
-  storehouseId: string;
-  storehouseName: string;
-  isLocked: boolean;
-  totalValue: number;
-  totalItems: number;
-  totalQuantity: number;
-  lowStockCount: number;
-}
+const StorehouseInventorySchema = z.object({
+  storehouseId: z.string(),
+  storehouseName: z.string(),
+  isLocked: z.boolean(),
+  totalValue: z.number(),
+  totalItems: z.number(),
+  totalQuantity: z.number(),
+  lowStockCount: z.number(),
+});
 
-export interface InventorySnapshotData {
-  totalValue: number;
-  totalItems: number;
-  lowStockCount: number;
-  deadStockCount: number;
-  avgTurnoverRate: number;
-  byStorehouse: StorehouseInventory[];
-}
+export type StorehouseInventory = z.infer<typeof StorehouseInventorySchema>;
+
+export const InventorySnapshotDataSchema = z.object({
+  totalValue: z.number(),
+  totalItems: z.number(),
+  lowStockCount: z.number(),
+  deadStockCount: z.number(),
+  avgTurnoverRate: z.number(),
+  byStorehouse: z.array(StorehouseInventorySchema),
+});
+
+export type InventorySnapshotData = z.infer<typeof InventorySnapshotDataSchema>;
 
 // ============================================
 // Payment Insights
 // ============================================
 
-export interface PaymentInsightsData {
-  outstandingTransactions: number;
-  outstandingRevenue: number;
-  outstandingImports: number;
-  outstandingCost: number;
-  avgPaymentLagDays: {
-    transactions: number | null;
-    imports: number | null;
-  };
-  avgDeliveryLagDays: {
-    transactions: number | null;
-    imports: number | null;
-  };
-}
+const LagDaysSchema = z.object({
+  transactions: z.number().nullable(),
+  imports: z.number().nullable(),
+});
+
+export const PaymentInsightsDataSchema = z.object({
+  outstandingTransactions: z.number(),
+  outstandingRevenue: z.number(),
+  outstandingImports: z.number(),
+  outstandingCost: z.number(),
+  avgPaymentLagDays: LagDaysSchema,
+  avgDeliveryLagDays: LagDaysSchema,
+});
+
+export type PaymentInsightsData = z.infer<typeof PaymentInsightsDataSchema>;
 
 // ============================================
 // Margin Analysis
 // ============================================
 
-export interface MarginTrendEntry {
-  date: string;
-  gain: number;
-}
+const MarginTrendEntrySchema = z.object({
+  date: z.string(),
+  gain: z.number(),
+});
 
-export interface TopMarginItem {
-  itemId: string;
-  name: string;
-  avgSellPrice: number;
-  avgBuyPrice: number;
-  marginPercent: number;
-  totalGain: number;
-}
+export type MarginTrendEntry = z.infer<typeof MarginTrendEntrySchema>;
 
-export interface DiscountAnalysisData {
-  totalGain: number;
-  avgMarginPercent: number;
-  gainTrend: MarginTrendEntry[];
-  topMarginItems: TopMarginItem[];
-}
+const TopMarginItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  avgSellPrice: z.number(),
+  avgBuyPrice: z.number(),
+  marginPercent: z.number(),
+  totalGain: z.number(),
+});
+
+export type TopMarginItem = z.infer<typeof TopMarginItemSchema>;
+
+export const DiscountAnalysisDataSchema = z.object({
+  totalGain: z.number(),
+  avgMarginPercent: z.number(),
+  gainTrend: z.array(MarginTrendEntrySchema),
+  topMarginItems: z.array(TopMarginItemSchema),
+});
+
+export type DiscountAnalysisData = z.infer<typeof DiscountAnalysisDataSchema>;
 
 // ============================================
 // Storehouse Comparison
 // ============================================
 
-export interface StorehouseComparisonEntry {
-  id: string;
-  name: string;
-  isLocked: boolean;
-  revenue: number;
-  cost: number;
-  profit: number;
-  inventoryValue: number;
-  itemCount: number;
-  transfersIn: number;
-  transfersOut: number;
-}
+const StorehouseComparisonEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  isLocked: z.boolean(),
+  revenue: z.number(),
+  cost: z.number(),
+  profit: z.number(),
+  inventoryValue: z.number(),
+  itemCount: z.number(),
+  transfersIn: z.number(),
+  transfersOut: z.number(),
+});
 
-export interface StorehouseComparisonData {
-  storehouses: StorehouseComparisonEntry[];
-}
+export type StorehouseComparisonEntry = z.infer<
+  typeof StorehouseComparisonEntrySchema
+>;
+
+export const StorehouseComparisonDataSchema = z.object({
+  storehouses: z.array(StorehouseComparisonEntrySchema),
+});
+
+export type StorehouseComparisonData = z.infer<
+  typeof StorehouseComparisonDataSchema
+>;
 
 // ============================================
 // Transfer Flow
 // ============================================
 
-export interface TransferFlowEntry {
-  from: { id: string; name: string };
-  to: { id: string; name: string };
-  totalQuantity: number;
-  transferCount: number;
-}
+const StorehouseRefSchema = z.object({ id: z.string(), name: z.string() });
 
-export interface TransferTopItem {
-  itemId: string;
-  name: string;
-  totalQuantity: number;
-  transferCount: number;
-}
+const TransferFlowEntrySchema = z.object({
+  from: StorehouseRefSchema,
+  to: StorehouseRefSchema,
+  totalQuantity: z.number(),
+  transferCount: z.number(),
+});
 
-export interface NetFlowEntry {
-  storehouseId: string;
-  name: string;
-  in: number;
-  out: number;
-  net: number;
-}
+export type TransferFlowEntry = z.infer<typeof TransferFlowEntrySchema>;
 
-export interface TransferFlowData {
-  flows: TransferFlowEntry[];
-  topItems: TransferTopItem[];
-  netFlow: NetFlowEntry[];
-}
+const TransferTopItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  totalQuantity: z.number(),
+  transferCount: z.number(),
+});
+
+export type TransferTopItem = z.infer<typeof TransferTopItemSchema>;
+
+const NetFlowEntrySchema = z.object({
+  storehouseId: z.string(),
+  name: z.string(),
+  in: z.number(),
+  out: z.number(),
+  net: z.number(),
+});
+
+export type NetFlowEntry = z.infer<typeof NetFlowEntrySchema>;
+
+export const TransferFlowDataSchema = z.object({
+  flows: z.array(TransferFlowEntrySchema),
+  topItems: z.array(TransferTopItemSchema),
+  netFlow: z.array(NetFlowEntrySchema),
+});
+
+export type TransferFlowData = z.infer<typeof TransferFlowDataSchema>;
+
+// ============================================
+// Inventory Valuation
+// ============================================
+
+const ValuationItemSchema = z.object({
+  itemId: z.string(),
+  name: z.string(),
+  unit: z.string(),
+  quantity: z.number(),
+  unitCost: z.number(),
+  value: z.number(),
+});
+
+export type ValuationItem = z.infer<typeof ValuationItemSchema>;
+
+const ValuationStorehouseSchema = z.object({
+  storehouseId: z.string(),
+  storehouseName: z.string(),
+  totalQuantity: z.number(),
+  totalValue: z.number(),
+  items: z.array(ValuationItemSchema),
+});
+
+export type ValuationStorehouse = z.infer<typeof ValuationStorehouseSchema>;
+
+export const ValuationReportDataSchema = z.object({
+  /** Stock as of the end of this day (YYYY-MM-DD) */
+  date: z.string(),
+  method: z.enum(['fifo', 'average']),
+  totalQuantity: z.number(),
+  totalValue: z.number(),
+  storehouses: z.array(ValuationStorehouseSchema),
+});
+
+export type ValuationReportData = z.infer<typeof ValuationReportDataSchema>;
@@ -19,14 +19,19 @@ import {
   AuthResponseSchema,
   CompleteRegistrationResponseSchema,
   CompleteInvitationResponseSchema,
+  CsrfTokenResponseSchema,
+  SessionListSchema,
+  SignupResponseSchema,
+  UserSchema,
+  VerifyTokenResponseSchema,
 } from '../types/auth.types';
-import { USE_MOCK_API, MOCK_USER, mockDelay } from '@/shared/lib/mock-data';
+import { MessageResponseSchema } from '@/shared/lib/contract';
 
 /**
  * Auth API Service
  *
- * Handles all authentication-related API calls with Zod validation.
- * Uses mock data when VITE_USE_MOCK_API=true
+ * Handles all authentication-related API calls. Every response is
+ * validated against its Zod schema by the api-client.
  */
 
 /**
@@ -34,28 +39,18 @@ import { USE_MOCK_API, MOCK_USER, mockDelay } from '@/shared/lib/mock-data';
  * Sends verification email to the user
  */
 export async function signup(data: SignupRequest): Promise<SignupResponse> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { message: 'Verification email sent. Please check your inbox.' };
-  }
-
-  const response = await apiClient.post<SignupResponse>('/auth/signup', data);
-  return response;
+  return apiClient.post('/auth/signup', data, {
+    schema: SignupResponseSchema,
+  });
 }
 
 /**
  * Verify a token before showing the onboarding wizard
  */
 export async function verifyToken(token: string): Promise<VerifyTokenResponse> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { email: 'test@example.com', accountType: 'self_registered' };
-  }
-
-  const response = await apiClient.get<VerifyTokenResponse>(
-    `/auth/verify-token/${token}`
-  );
-  return response;
+  return apiClient.get(`/auth/verify-token/${token}`, {
+    schema: VerifyTokenResponseSchema,
+  });
 }
 
 /**
@@ -65,71 +60,25 @@ export async function verifyToken(token: string): Promise<VerifyTokenResponse> {
 export async function completeRegistration(
   data: CompleteRegistrationRequest
 ): Promise<CompleteRegistrationResponse> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return {
-      user: MOCK_USER,
-      business: {
-        _id: 'mock_business_id',
-        name: 'Mock Business',
-        address: '123 Mock St',
-        phoneNumber: '+1234567890',
-        creator: MOCK_USER._id,
-      },
-      storeHouse: {
-        _id: 'mock_storehouse_id',
-        address: '123 Mock St',
-        business: 'mock_business_id',
-      },
-      accessToken: 'mock_access_token',
-      csrfToken: 'mock_csrf_token',
-    };
-  }
-
-  const response = await apiClient.post<CompleteRegistrationResponse>(
-    '/auth/complete-registration',
-    data
-  );
-  const validated = CompleteRegistrationResponseSchema.parse(response);
-  return validated;
+  return apiClient.post('/auth/complete-registration', data, {
+    schema: CompleteRegistrationResponseSchema,
+  });
 }
 
 /**
  * Login with email and password
  */
 export async function login(credentials: LoginRequest): Promise<AuthResponse> {
-  // Mock mode: accept any credentials
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return {
-      user: MOCK_USER,
-      accessToken: 'mock_access_token',
-      csrfToken: 'mock_csrf_token',
-    };
-  }
-
-  const response = await apiClient.post<AuthResponse>(
-    '/auth/login',
-    credentials
-  );
-
-  // Validate response shape
-  const validated = AuthResponseSchema.parse(response);
-
   // Tokens are managed by session store, not stored here
-  return validated;
+  return apiClient.post('/auth/login', credentials, {
+    schema: AuthResponseSchema,
+  });
 }
 
 /**
  * Logout current session
  */
 export async function logout(): Promise<void> {
-  if (USE_MOCK_API) {
-    await mockDelay(300);
-    // Tokens cleared by session store
-    return;
-  }
-
   await apiClient.post<void>('/auth/logout');
 
   // Tokens are cleared by session store
@@ -139,32 +88,17 @@ export async function logout(): Promise<void> {
  * Logout from all devices
  */
 export async function logoutAll(): Promise<{ message: string }> {
-  if (USE_MOCK_API) {
-    await mockDelay(300);
-    // Tokens cleared by session store
-    return { message: 'Logged out from all devices' };
-  }
-
-  const response = await apiClient.post<{ message: string }>(
-    '/auth/logout-all'
-  );
-
   // Tokens are cleared by session store
-  return response;
+  return apiClient.post('/auth/logout-all', undefined, {
+    schema: MessageResponseSchema,
+  });
 }
 
 /**
  * Get current user profile
  */
 export async function getCurrentUser(): Promise<User> {
-  if (USE_MOCK_API) {
-    await mockDelay(300);
-    // Simulate being logged in
-    return MOCK_USER;
-  }
-
-  const response = await apiClient.get<User>('/auth/profile');
-  return response;
+  return apiClient.get('/auth/profile', { schema: UserSchema });
 }
 
 /**
@@ -174,26 +108,7 @@ export async function getSessions(): Promise<{
   sessions: Session[];
   count: number;
 }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return {
-      sessions: [
-        {
-          id: '1',
-          deviceInfo: { userAgent: 'Mozilla/5.0...', ip: '192.168.1.1' },
-          lastUsedAt: new Date().toISOString(),
-          createdAt: new Date(Date.now() - 86400000).toISOString(),
-          expiresAt: new Date(Date.now() + 6 * 86400000).toISOString(),
-        },
-      ],
-      count: 1,
-    };
-  }
-
-  const response = await apiClient.get<{ sessions: Session[]; count: number }>(
-    '/auth/sessions'
-  );
-  return response;
+  return apiClient.get('/auth/sessions', { schema: SessionListSchema });
 }
 
 /**
@@ -202,15 +117,9 @@ export async function getSessions(): Promise<{
 export async function revokeSession(
   sessionId: string
 ): Promise<{ message: string }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { message: 'Session revoked' };
-  }
-
-  const response = await apiClient.delete<{ message: string }>(
-    `/auth/sessions/${sessionId}`
-  );
-  return response;
+  return apiClient.delete(`/auth/sessions/${sessionId}`, {
+    schema: MessageResponseSchema,
+  });
 }
 
 /**
@@ -219,16 +128,9 @@ export async function revokeSession(
 export async function forgotPassword(
   data: ForgotPasswordRequest
 ): Promise<{ message: string }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { message: 'Password reset email sent' };
-  }
-
-  const response = await apiClient.post<{ message: string }>(
-    '/auth/forgot-password',
-    data
-  );
-  return response;
+  return apiClient.post('/auth/forgot-password', data, {
+    schema: MessageResponseSchema,
+  });
 }
 
 /**
@@ -237,16 +139,11 @@ export async function forgotPassword(
 export async function resetPassword(
   data: ResetPasswordRequest
 ): Promise<{ message: string }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { message: 'Password reset successfully' };
-  }
-
-  const response = await apiClient.post<{ message: string }>(
+  return apiClient.post(
     '/auth/reset-password',
-    { token: data.token, password: data.password }
+    { token: data.token, password: data.password },
+    { schema: MessageResponseSchema }
   );
-  return response;
 }
 
 /**
@@ -256,28 +153,9 @@ export async function resetPassword(
 export async function completeInvitation(
   data: CompleteInvitationRequest
 ): Promise<CompleteInvitationResponse> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return {
-      user: MOCK_USER,
-      business: {
-        _id: 'mock_business_id',
-        name: 'Mock Business',
-        address: '123 Mock St',
-        phoneNumber: '+1234567890',
-        creator: MOCK_USER._id,
-      },
-      accessToken: 'mock_access_token',
-      csrfToken: 'mock_csrf_token',
-    };
-  }
-
-  const response = await apiClient.post<CompleteInvitationResponse>(
-    '/auth/complete-invitation',
-    data
-  );
-  const validated = CompleteInvitationResponseSchema.parse(response);
-  return validated;
+  return apiClient.post('/auth/complete-invitation', data, {
+    schema: CompleteInvitationResponseSchema,
+  });
 }
 
 /**
@@ -287,16 +165,8 @@ export async function getCsrfToken(): Promise<{
   csrfToken: string;
   headerName?: string;
 }> {
-  if (USE_MOCK_API) {
-    return { csrfToken: 'mock_csrf_token' };
-  }
-
-  const response = await apiClient.get<{
-    csrfToken: string;
-    headerName?: string;
-  }>('/auth/csrf');
   // CSRF token is already set in cookie by backend
-  return response;
+  return apiClient.get('/auth/csrf', { schema: CsrfTokenResponseSchema });
 }
 
 /**
@@ -305,14 +175,7 @@ export async function getCsrfToken(): Promise<{
 export async function changePassword(
   data: ChangePasswordRequest
 ): Promise<{ message: string }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return { message: 'Password changed successfully' };
-  }
-
-  const response = await apiClient.post<{ message: string }>(
-    '/auth/change-password',
-    data
-  );
-  return response;
+  return apiClient.post('/auth/change-password', data, {
+    schema: MessageResponseSchema,
+  });
 }
@@ -0,0 +1,134 @@
+import { createSignal, Show } from 'solid-js';
+import { Input, Button, Alert } from '@/shared/ui';
+import { getUser, logoutUser } from '../store/session.store';
+import {
+  canUsePin,
+  idleLockStore,
+  stopIdleLock,
+  unlockWithPassword,
+  unlockWithPin,
+} from '../store/idle-lock.store';
+
+/**
+ * Full-screen lock shown after the idle timeout.
+ * The app stays mounted (and inert) underneath, so unsaved work survives.
+ */
+export function IdleLockScreen() {
+  const [secret, setSecret] = createSignal('');
+  const [usePassword, setUsePassword] = createSignal(false);
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const [error, setError] = createSignal('');
+
+  const pinMode = () => !usePassword() && canUsePin();
+
+  const handleSubmit = async (e: Event) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      if (pinMode()) {
+        const ok = await unlockWithPin(secret());
+        if (!ok) {
+          setError(
+            canUsePin()
+              ? 'Incorrect PIN.'
+              : 'Too many incorrect PINs. Enter your password instead.'
+          );
+        }
+      } else {
+        const result = await unlockWithPassword(secret());
+        if (!result.success) {
+          setError(result.error?.message ?? 'Could not unlock.');
+        } else {
+          setUsePassword(false);
+        }
+      }
+    } finally {
+      setSecret('');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    stopIdleLock();
+    await logoutUser();
+    window.location.href = '/login';
+  };
+
+  return (
+    <Show when={idleLockStore.isLocked()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="idle-lock-title"
+        class="bg-bg-app/95 fixed inset-0 z-[100] flex items-center justify-center px-4 backdrop-blur-sm"
+      >
+        <form
+          onSubmit={handleSubmit}
+          class="w-full max-w-sm space-y-4 rounded-xl border border-border-default bg-bg-surface p-6 shadow-lg"
+        >
+          <div class="text-center">
+            <h2
+              id="idle-lock-title"
+              class="text-lg font-semibold text-text-primary"
+            >
+              Screen locked
+            </h2>
+            <p class="mt-1 text-sm text-text-secondary">
+              {getUser()?.name} — your work is kept open.
+            </p>
+          </div>
+
+          <Show when={error()}>
+            <Alert variant="error">{error()}</Alert>
+          </Show>
+
+          <Input
+            type="password"
+            label={pinMode() ? 'PIN' : 'Password'}
+            inputMode={pinMode() ? 'numeric' : undefined}
+            autocomplete={pinMode() ? 'off' : 'current-password'}
+            placeholder={pinMode() ? '••••' : '••••••••'}
+            value={secret()}
+            onInput={(e) => setSecret(e.currentTarget.value)}
+            required
+            autofocus
+            disabled={isSubmitting()}
+          />
+
+          <Button
+            type="submit"
+            fullWidth
+            disabled={isSubmitting() || !secret()}
+          >
+            {isSubmitting() ? 'Unlocking...' : 'Unlock'}
+          </Button>
+
+          <div class="flex items-center justify-between text-sm">
+            <Show when={canUsePin()} fallback={<span />}>
+              <button
+                type="button"
+                class="text-text-link hover:underline"
+                onClick={() => {
+                  setError('');
+                  setSecret('');
+                  setUsePassword(pinMode());
+                }}
+              >
+                {pinMode() ? 'Use password instead' : 'Use PIN instead'}
+              </button>
+            </Show>
+            <button
+              type="button"
+              class="text-text-secondary hover:text-text-primary"
+              onClick={handleSignOut}
+            >
+              Sign out
+            </button>
+          </div>
+        </form>
+      </div>
+    </Show>
+  );
+}
@@ -0,0 +1,285 @@
+import { createSignal } from 'solid-js';
+import * as authApi from '../api/auth.api';
+import { getUser, updateAccessToken } from './session.store';
+import type { AppError } from '@/shared/types/api.types';
+import { normalizeError } from '@/shared/lib/errors';
+import { broadcastToTabs, onTabMessage } from '@/shared/lib/tab-sync';
+
+/**
+ * Idle Lock Store
+ *
+ * Locks the screen of a shared counter PC after a period without input.
+ * Unlike logging out, the app stays mounted underneath the lock screen, so
+ * open modals (e.g. a half-filled OrderFormModal) keep their state.
+ *
+ * - Timeout is a per-device setting (off by default)
+ * - Unlock with a short per-user PIN set on this device, or the password
+ * - Too many wrong PINs require the password
+ * - Every tab of the user locks and unlocks together; the lock and the
+ *   wrong-PIN count are kept per user on the device, so neither a new tab
+ *   nor a reload gets around them
+ */
+
+const TIMEOUT_STORAGE_KEY = 'idle_lock_timeout_minutes';
+const PIN_STORAGE_PREFIX = 'idle_lock_pin_';
+const LOCKED_STORAGE_PREFIX = 'idle_lock_locked_';
+const ATTEMPTS_STORAGE_PREFIX = 'idle_lock_pin_attempts_';
+const MAX_PIN_ATTEMPTS = 5;
+
+const ACTIVITY_EVENTS = [
+  'mousemove',
+  'keydown',
+  'pointerdown',
+  'scroll',
+  'touchstart',
+] as const;
+
+export const IDLE_TIMEOUT_OPTIONS = [0, 1, 5, 10, 15, 30] as const;
+
+function readTimeout(): number {
+  const stored = Number(localStorage.getItem(TIMEOUT_STORAGE_KEY));
+  return Number.isFinite(stored) && stored > 0 ? stored : 0;
+}
+
+const [timeoutMinutes, setTimeoutMinutesSignal] =
+  createSignal<number>(readTimeout());
+const [isLocked, setIsLocked] = createSignal(false);
+const [pinAttempts, setPinAttempts] = createSignal(0);
+const [pinVersion, setPinVersion] = createSignal(0);
+
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+let isWatching = false;
+
+// ============================================
+// PIN storage (hashed, per user, this device only)
+// ============================================
+
+function pinStorageKey(userId: string): string {
+  return `${PIN_STORAGE_PREFIX}${userId}`;
+}
+
+async function hashPin(userId: string, pin: string): Promise<string> {
+  const data = new TextEncoder().encode(`${userId}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Whether the signed-in user has a PIN on this device (reactive)
+ */
+export function hasPin(): boolean {
+  pinVersion();
+  const userId = getUser()?._id;
+  return !!userId && localStorage.getItem(pinStorageKey(userId)) !== null;
+}
+
+/**
+ * Set the quick-unlock PIN (4–8 digits) for the signed-in user
+ */
+export async function setPin(pin: string): Promise<void> {
+  const userId = getUser()?._id;
+  if (!userId || !/^\d{4,8}$/.test(pin)) return;
+
+  localStorage.setItem(pinStorageKey(userId), await hashPin(userId, pin));
+  setPinVersion((v) => v + 1);
+}
+
+/**
+ * Remove the signed-in user's PIN from this device
+ */
+export function clearPin(): void {
+  const userId = getUser()?._id;
+  if (!userId) return;
+
+  localStorage.removeItem(pinStorageKey(userId));
+  setPinVersion((v) => v + 1);
+}
+
+/**
+ * Whether PIN unlock is still allowed (a PIN exists and attempts remain)
+ */
+export function canUsePin(): boolean {
+  return hasPin() && pinAttempts() < MAX_PIN_ATTEMPTS;
+}
+
+// ============================================
+// Lock state (per user, shared by every tab)
+// ============================================
+
+function readAttempts(userId: string): number {
+  return (
+    Number(localStorage.getItem(`${ATTEMPTS_STORAGE_PREFIX}${userId}`)) || 0
+  );
+}
+
+/**
+ * Pick up the signed-in user's lock and wrong-PIN count from storage
+ */
+function loadLockState(): void {
+  const userId = getUser()?._id;
+  setIsLocked(
+    !!userId &&
+      localStorage.getItem(`${LOCKED_STORAGE_PREFIX}${userId}`) !== null
+  );
+  setPinAttempts(userId ? readAttempts(userId) : 0);
+}
+
+function storeLockState(userId: string, locked: boolean): void {
+  if (locked) {
+    localStorage.setItem(`${LOCKED_STORAGE_PREFIX}${userId}`, '1');
+  } else {
+    localStorage.removeItem(`${LOCKED_STORAGE_PREFIX}${userId}`);
+    localStorage.removeItem(`${ATTEMPTS_STORAGE_PREFIX}${userId}`);
+  }
+}
+
+function setLocked(locked: boolean): void {
+  const userId = getUser()?._id;
+  setIsLocked(locked);
+  if (!locked) setPinAttempts(0);
+  if (!userId) return;
+
+  storeLockState(userId, locked);
+  broadcastToTabs({ type: 'idle-lock', userId, locked });
+}
+
+// Another tab of the same user locked or unlocked
+onTabMessage('idle-lock', (message) => {
+  if (!isWatching || message.userId !== getUser()?._id) return;
+  loadLockState();
+  resetIdleTimer();
+});
+
+/**
+ * Lock the screen now
+ */
+export function lockScreen(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  setLocked(true);
+}
+
+function resetIdleTimer(): void {
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+
+  const minutes = timeoutMinutes();
+  if (!isWatching || isLocked() || minutes <= 0) return;
+  idleTimer = setTimeout(lockScreen, minutes * 60_000);
+}
+
+/**
+ * Change the idle timeout for this device. 0 turns the lock off.
+ */
+export function setTimeoutMinutes(minutes: number): void {
+  const value = Math.max(0, Math.floor(minutes));
+  if (value > 0) {
+    localStorage.setItem(TIMEOUT_STORAGE_KEY, String(value));
+  } else {
+    localStorage.removeItem(TIMEOUT_STORAGE_KEY);
+  }
+  setTimeoutMinutesSignal(value);
+  resetIdleTimer();
+}
+
+/**
+ * Start watching for user activity (call from the signed-in layout)
+ */
+export function startIdleLock(): void {
+  if (isWatching) return;
+  isWatching = true;
+  loadLockState();
+  ACTIVITY_EVENTS.forEach((event) =>
+    window.addEventListener(event, resetIdleTimer, { passive: true })
+  );
+  resetIdleTimer();
+}
+
+/**
+ * Stop watching and drop the lock (e.g. on sign-out). The other tabs
+ * follow the sign-out itself.
+ */
+export function stopIdleLock(): void {
+  isWatching = false;
+  ACTIVITY_EVENTS.forEach((event) =>
+    window.removeEventListener(event, resetIdleTimer)
+  );
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+
+  const userId = getUser()?._id;
+  if (userId) storeLockState(userId, false);
+  setIsLocked(false);
+  setPinAttempts(0);
+}
+
+// ============================================
+// Unlocking
+// ============================================
+
+/**
+ * Unlock with the device PIN. Returns false on a wrong PIN.
+ */
+export async function unlockWithPin(pin: string): Promise<boolean> {
+  const userId = getUser()?._id;
+  if (!userId) return false;
+
+  // Another tab may have used up attempts meanwhile
+  setPinAttempts(readAttempts(userId));
+  if (!canUsePin()) return false;
+
+  const stored = localStorage.getItem(pinStorageKey(userId));
+  if (stored !== (await hashPin(userId, pin))) {
+    const attempts = readAttempts(userId) + 1;
+    localStorage.setItem(
+      `${ATTEMPTS_STORAGE_PREFIX}${userId}`,
+      String(attempts)
+    );
+    setPinAttempts(attempts);
+    return false;
+  }
+
+  setLocked(false);
+  resetIdleTimer();
+  return true;
+}
+
+/**
+ * Unlock by re-entering the account password
+ */
+export async function unlockWithPassword(
+  password: string
+): Promise<{ success: boolean; error?: AppError }> {
+  const email = getUser()?.email;
+  if (!email) return { success: false };
+
+  try {
+    const response = await authApi.login({ email, password });
+    updateAccessToken(response.accessToken);
+    setLocked(false);
+    resetIdleTimer();
+    return { success: true };
+  } catch (err) {
+    return { success: false, error: normalizeError(err) };
+  }
+}
+
+export const idleLockStore = {
+  // State
+  isLocked,
+  timeoutMinutes,
+  hasPin,
+  canUsePin,
+
+  // Actions
+  start: startIdleLock,
+  stop: stopIdleLock,
+  lock: lockScreen,
+  setTimeoutMinutes,
+  setPin,
+  clearPin,
+  unlockWithPin,
+  unlockWithPassword,
+};
@@ -13,8 +13,12 @@ import type {
   CompleteInvitationRequest,
 } from '../types/auth.types';
 import * as authApi from '../api/auth.api';
+import { renewSession } from '@/shared/lib/api-client';
 import type { AppError } from '@/shared/types/api.types';
 import { normalizeError } from '@/shared/lib/errors';
+import { clearResponseCache } from '@/shared/lib/offline-queue';
+import { clearQueryCache } from '@/shared/lib/query-client';
+import { broadcastToTabs, onTabMessage } from '@/shared/lib/tab-sync';
 
 /**
  * Session Store
@@ -25,6 +29,8 @@ import { normalizeError } from '@/shared/lib/errors';
  * - Login/logout actions
  * - Current user state
  * - Loading and error states
+ * - Logout and refreshed tokens shared across open tabs (see tab-sync.ts)
+ * - Access token renewed shortly before it expires, not only after a 401
  */
 
 // Session state
@@ -34,7 +40,63 @@ const [error, setError] = createSignal<AppError | null>(null);
 const [isInitialized, setIsInitialized] = createSignal(false);
 
 // Token stored in memory (not localStorage for security)
-const [accessToken, setAccessToken] = createSignal<string | null>(null);
+const [accessToken, setAccessTokenSignal] = createSignal<string | null>(null);
+
+// Renew this long before the token's `exp`
+const RENEW_BEFORE_EXPIRY = 60_000;
+let renewTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Expiry (ms epoch) from a JWT's `exp` claim, or null if it has none
+ */
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const json = atob(payload.replace(/-/g, '+').replace(/_/g, '/'));
+    const exp = (JSON.parse(json) as { exp?: unknown }).exp;
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Schedule a refresh ahead of expiry. Tokens without `exp`, or with less
+ * than RENEW_BEFORE_EXPIRY left, keep relying on the api-client's
+ * refresh-on-401: a server issuing short-lived tokens would otherwise be
+ * asked for a new one every few seconds.
+ */
+function scheduleRenewal(token: string | null): void {
+  if (renewTimer) clearTimeout(renewTimer);
+  renewTimer = null;
+
+  const expiresAt = token ? getTokenExpiry(token) : null;
+  if (!expiresAt) return;
+
+  const delay = expiresAt - Date.now() - RENEW_BEFORE_EXPIRY;
+  if (delay <= 0) return;
+  renewTimer = setTimeout(() => {
+    renewSession().catch(() => {
+      // Leave it to the next request's 401 handling
+    });
+  }, delay);
+}
+
+function setAccessToken(token: string | null): void {
+  setAccessTokenSignal(token);
+  scheduleRenewal(token);
+}
+
+// Another tab signed out (or out everywhere): follow without calling the API
+onTabMessage('logout', () => {
+  if (status() !== 'unauthenticated') clearLocalSession();
+});
+
+// Another tab refreshed the token — reuse it instead of refreshing again
+onTabMessage('token', (message) => {
+  if (status() !== 'unauthenticated') setAccessToken(message.accessToken);
+});
 
 /**
  * Initialize session on app startup
@@ -99,7 +161,23 @@ export async function loginUser(
 }
 
 /**
- * Logout current user
+ * Drop all signed-in state in this tab
+ */
+function clearLocalSession(): void {
+  setUser(null);
+  setAccessToken(null);
+  setStatus('unauthenticated');
+  setError(null);
+  clearPermissions();
+  clearSubscription();
+  clearDevContext();
+  // Cached reads belong to this user — don't show them to the next one
+  clearQueryCache();
+  void clearResponseCache();
+}
+
+/**
+ * Logout current user (in every open tab)
  */
 export async function logoutUser(): Promise<void> {
   try {
@@ -107,13 +185,22 @@ export async function logoutUser(): Promise<void> {
   } catch {
     // Logout locally even if API call fails
   } finally {
-    setUser(null);
-    setAccessToken(null);
-    setStatus('unauthenticated');
-    setError(null);
-    clearPermissions();
-    clearSubscription();
-    clearDevContext();
+    clearLocalSession();
+    broadcastToTabs({ type: 'logout' });
+  }
+}
+
+/**
+ * Revoke every session of the current user, then sign out all open tabs
+ */
+export async function logoutAllUser(): Promise<void> {
+  try {
+    await authApi.logoutAll();
+  } catch {
+    // Sessions elsewhere may survive, but this browser still signs out
+  } finally {
+    clearLocalSession();
+    broadcastToTabs({ type: 'logout' });
   }
 }
 
@@ -39,18 +39,22 @@ export interface SignupRequest {
 /**
  * Signup response (no user is created yet)
  */
-export interface SignupResponse {
-  message: string;
-}
+export const SignupResponseSchema = z.object({
+  message: z.string(),
+});
+
+export type SignupResponse = z.infer<typeof SignupResponseSchema>;
 
 /**
  * Verify token response
  */
-export interface VerifyTokenResponse {
-  email: string;
-  accountType: 'self_registered' | 'invited' | 'deactivated';
-  businessName?: string;
-}
+export const VerifyTokenResponseSchema = z.object({
+  email: z.string(),
+  accountType: z.enum(['self_registered', 'invited', 'deactivated']),
+  businessName: z.string().optional(),
+});
+
+export type VerifyTokenResponse = z.infer<typeof VerifyTokenResponseSchema>;
 
 /**
  * Complete invitation request (invited users — personal details only)
@@ -167,6 +171,19 @@ export const SessionSchema = z.object({
 
 export type Session = z.infer<typeof SessionSchema>;
 
+export const SessionListSchema = z.object({
+  sessions: z.array(SessionSchema),
+  count: z.number(),
+});
+
+/**
+ * CSRF token response
+ */
+export const CsrfTokenResponseSchema = z.object({
+  csrfToken: z.string(),
+  headerName: z.string().optional(),
+});
+
 /**
  * Session state
  */
@@ -14,65 +14,89 @@ import type {
   SwapCandidates,
   EnforceLimitsRequest,
 } from '../types/billing.types';
+import {
+  DowngradeRequirementsSchema,
+  PendingDowngradeSchema,
+  PlanDefinitionSchema,
+  SwapCandidatesSchema,
+  UsageSummarySchema,
+} from '../types/billing.types';
+import { z } from 'zod';
 
 const BASE = '/subscription';
 
 /** Get current subscription + usage summary */
 export function getSubscription(): Promise<UsageSummary> {
-  return apiClient.get<UsageSummary>(BASE);
+  return apiClient.get(BASE, { schema: UsageSummarySchema });
 }
 
 /** Get all available plans */
 export function getPlans(): Promise<PlanDefinition[]> {
-  return apiClient.get<PlanDefinition[]>(`${BASE}/plans`);
+  return apiClient.get(`${BASE}/plans`, {
+    schema: z.array(PlanDefinitionSchema),
+  });
 }
 
 /** Change the business subscription plan (with optional downgrade selections) */
 export function changePlan(data: ChangePlanRequest): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(`${BASE}/change-plan`, data);
+  return apiClient.post(`${BASE}/change-plan`, data, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Get downgrade requirements for a target plan */
 export function getDowngradeRequirements(
   targetPlan: string
 ): Promise<DowngradeRequirements> {
-  return apiClient.get<DowngradeRequirements>(
-    `${BASE}/downgrade-requirements?plan=${targetPlan}`
-  );
+  return apiClient.get(`${BASE}/downgrade-requirements?plan=${targetPlan}`, {
+    schema: DowngradeRequirementsSchema,
+  });
 }
 
 /** Check for pending auto-downgrade */
 export function getPendingDowngrade(): Promise<PendingDowngrade | null> {
-  return apiClient.get<PendingDowngrade | null>(`${BASE}/pending-downgrade`);
+  return apiClient.get(`${BASE}/pending-downgrade`, {
+    schema: PendingDowngradeSchema.nullable(),
+  });
 }
 
 /** Resolve a downgrade (unlock storehouses / reactivate users) */
 export function resolveDowngrade(
   data: ResolveDowngradeRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(`${BASE}/resolve-downgrade`, data);
+  return apiClient.post(`${BASE}/resolve-downgrade`, data, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Swap locked/active resources (net-zero). Rate-limited to 2/day. */
 export function swapResources(
   data: SwapResourcesRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(`${BASE}/swap`, data);
+  return apiClient.post(`${BASE}/swap`, data, { schema: UsageSummarySchema });
 }
 
 /** Get swap candidates (locked/active storehouses + inactive/active users) */
 export function getSwapCandidates(): Promise<SwapCandidates> {
-  return apiClient.get<SwapCandidates>(`${BASE}/swap-candidates`);
+  return apiClient.get(`${BASE}/swap-candidates`, {
+    schema: SwapCandidatesSchema,
+  });
 }
 
 /** Lock/deactivate resources to comply with current plan limits */
 export function enforceLimits(
   data: EnforceLimitsRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(`${BASE}/enforce-limits`, data);
+  return apiClient.post(`${BASE}/enforce-limits`, data, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Start the 30-day Pro trial for the current business */
 export function startTrial(): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(`${BASE}/start-trial`, {});
+  return apiClient.post(
+    `${BASE}/start-trial`,
+    {},
+    { schema: UsageSummarySchema }
+  );
 }
@@ -12,7 +12,16 @@ import type {
   PortalSessionResponse,
   CancelSubscriptionResponse,
   Invoice,
+  UsageSummary,
 } from '../types/billing.types';
+import {
+  CancelSubscriptionResponseSchema,
+  CreateSubscriptionResponseSchema,
+  InvoiceSchema,
+  PortalSessionResponseSchema,
+  UsageSummarySchema,
+} from '../types/billing.types';
+import { z } from 'zod';
 
 const BASE = '/stripe';
 
@@ -21,38 +30,46 @@ export function createSubscription(
   plan: Exclude<PlanTier, 'free'>,
   cycle: BillingCycle
 ): Promise<CreateSubscriptionResponse> {
-  return apiClient.post<CreateSubscriptionResponse>(`${BASE}/subscribe`, {
-    plan,
-    cycle,
-  });
+  return apiClient.post(
+    `${BASE}/subscribe`,
+    { plan, cycle },
+    { schema: CreateSubscriptionResponseSchema }
+  );
 }
 
 /** Create a Stripe Billing Portal session; returns redirect URL */
 export function createPortalSession(
   returnUrl?: string
 ): Promise<PortalSessionResponse> {
-  return apiClient.post<PortalSessionResponse>(`${BASE}/portal`, {
-    returnUrl: returnUrl ?? window.location.href,
-  });
+  return apiClient.post(
+    `${BASE}/portal`,
+    { returnUrl: returnUrl ?? window.location.href },
+    { schema: PortalSessionResponseSchema }
+  );
 }
 
 /** List recent Stripe invoices for the business */
 export function getInvoices(limit = 10): Promise<Invoice[]> {
-  return apiClient.get<Invoice[]>(`${BASE}/invoices?limit=${limit}`);
+  return apiClient.get(`${BASE}/invoices?limit=${limit}`, {
+    schema: z.array(InvoiceSchema),
+  });
 }
 
 /** Cancel Stripe subscription at end of billing period */
 export function cancelSubscription(): Promise<CancelSubscriptionResponse> {
-  return apiClient.post<CancelSubscriptionResponse>(`${BASE}/cancel`, {});
+  return apiClient.post(
+    `${BASE}/cancel`,
+    {},
+    { schema: CancelSubscriptionResponseSchema }
+  );
 }
 
 /** Reactivate a subscription that was scheduled for cancellation */
-export function reactivateSubscription(): Promise<
-  import('../types/billing.types').UsageSummary
-> {
-  return apiClient.post<import('../types/billing.types').UsageSummary>(
+export function reactivateSubscription(): Promise<UsageSummary> {
+  return apiClient.post(
     `${BASE}/reactivate`,
-    {}
+    {},
+    { schema: UsageSummarySchema }
   );
 }
 
@@ -65,7 +82,9 @@ export function cancelPendingDowngrade(): Promise<void> {
 export function retryPayment(
   returnUrl?: string
 ): Promise<PortalSessionResponse> {
-  return apiClient.post<PortalSessionResponse>(`${BASE}/retry-payment`, {
-    returnUrl: returnUrl ?? window.location.href,
-  });
+  return apiClient.post(
+    `${BASE}/retry-payment`,
+    { returnUrl: returnUrl ?? window.location.href },
+    { schema: PortalSessionResponseSchema }
+  );
 }
@@ -17,18 +17,25 @@ import type {
 } from '../types/billing.types';
 import * as billingApi from '../api/billing.api';
 import * as stripeApi from '../api/stripe.api';
+import { setRequestRate } from '@/shared/lib/rate-limit';
 
 // ============================================
 // Signals
 // ============================================
 
-const [usage, setUsage] = createSignal<UsageSummary | null>(null);
+const [usage, setUsageSignal] = createSignal<UsageSummary | null>(null);
 const [plans, setPlans] = createSignal<PlanDefinition[]>([]);
 const [pendingDowngrade, setPendingDowngrade] =
   createSignal<PendingDowngrade | null>(null);
 const [isLoaded, setIsLoaded] = createSignal(false);
 const [isLoading, setIsLoading] = createSignal(false);
 
+/** Store usage and size the api-client's request pacing from the plan. */
+function setUsage(data: UsageSummary | null): void {
+  setUsageSignal(data);
+  setRequestRate(data?.apiRequestsPerMinute ?? null);
+}
+
 // ============================================
 // Actions
 // ============================================
@@ -2,89 +2,57 @@
  * Subscription / Billing Types
  *
  * Mirrors the backend plan definitions and subscription model.
+ * Response payloads are Zod schemas so the api-client can validate them.
  */
 
+import { z } from 'zod';
+
 // ============================================
 // Plan Types
 // ============================================
 
-export type PlanTier = 'free' | 'pro' | 'enterprise';
+export const PlanTierSchema = z.enum(['free', 'pro', 'enterprise']);
+
+export type PlanTier = z.infer<typeof PlanTierSchema>;
 
 export type FeatureFlag = 'transfers' | 'customRoles' | 'advancedReports';
 
+const FeaturesSchema = z.object({
+  transfers: z.boolean(),
+  customRoles: z.boolean(),
+  advancedReports: z.boolean(),
+});
+
 export type LimitDimension =
   | 'storehouses'
   | 'users'
   | 'items'
   | 'monthlyTransactions';
 
-export interface PlanLimits {
-  storehouses: number;
-  users: number;
-  items: number;
-  monthlyTransactions: number;
-  apiRequestsPerMinute: number;
-}
+export const PlanLimitsSchema = z.object({
+  storehouses: z.number(),
+  users: z.number(),
+  items: z.number(),
+  monthlyTransactions: z.number(),
+  apiRequestsPerMinute: z.number(),
+});
+
+export type PlanLimits = z.infer<typeof PlanLimitsSchema>;
 
-export interface PlanDefinition {
-  tier: PlanTier;
-  label: string;
-  description: string;
-  limits: PlanLimits;
-  features: Record<FeatureFlag, boolean>;
+export const PlanDefinitionSchema = z.object({
+  tier: PlanTierSchema,
+  label: z.string(),
+  description: z.string(),
+  limits: PlanLimitsSchema,
+  features: FeaturesSchema,
   /** Price in USD cents (0 for free) */
-  priceMonthly: number;
-  priceAnnual: number;
+  priceMonthly: z.number(),
+  priceAnnual: z.number(),
   /** When true, the plan is not yet available */
-  comingSoon?: boolean;
-}
-
-// ============================================
-// Usage Summary (from GET /subscription)
-// ============================================
-
-export interface UsageEntry {
-  current: number;
-  limit: number; // -1 = unlimited
-}
-
-export interface UsageSummary {
-  plan: PlanTier;
-  status: 'active' | 'trialing' | 'past_due' | 'canceled' | 'expired';
-  limits: {
-    storehouses: UsageEntry;
-    users: UsageEntry;
-    items: UsageEntry;
-    monthlyTransactions: UsageEntry;
-  };
-  features: Record<FeatureFlag, boolean>;
-  apiRequestsPerMinute: number;
-  /** ISO date string — when the current billing period starts (null for free / no Stripe) */
-  currentPeriodStart: string | null;
-  /** ISO date string — when the current billing period ends (null for free / no Stripe) */
-  currentPeriodEnd: string | null;
-  /** When the subscription was canceled (null if not canceled) */
-  canceledAt: string | null;
-  /** Current billing cycle (null for free / unknown) */
-  billingCycle: BillingCycle | null;
-  /** Pending downgrade info (if any) */
-  pendingDowngrade: PendingDowngrade | null;
-  /** Whether this subscription is backed by a Stripe subscription */
-  hasStripeSubscription: boolean;
-  /** Payment method on file (null if none) */
-  paymentMethod: PaymentMethodInfo | null;
-  /** Next upcoming invoice (null if none / free plan) */
-  nextInvoice: NextInvoiceInfo | null;
-  /** ISO date — when the trial ends (null if not trialing) */
-  trialEndsAt: string | null;
-  /** Whether this business has already used its one-time free trial */
-  hasUsedTrial: boolean;
+  comingSoon: z.boolean().optional(),
+});
 
-  /** Raw limit overrides currently set (for dev portal display) */
-  limitOverrides?: Record<string, number>;
-  /** Raw feature overrides currently set (for dev portal display) */
-  featureOverrides?: Record<string, boolean>;
-}
+export type PlanDefinition = z.infer<typeof PlanDefinitionSchema>;
 
 // ============================================
 // Request Types
@@ -104,49 +72,61 @@ export interface ChangePlanRequest {
 // Downgrade Types
 // ============================================
 
-export interface DowngradeStorehouse {
-  id: string;
-  name: string;
-  createdAt: string;
-}
+const DowngradeStorehouseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+});
 
-export interface DowngradeUser {
-  id: string;
-  name: string;
-  email: string;
-  createdAt: string;
-}
+export type DowngradeStorehouse = z.infer<typeof DowngradeStorehouseSchema>;
 
-export interface DowngradeRequirements {
-  storehousesToLock: number;
-  usersToDeactivate: number;
-  currentStorehouses: DowngradeStorehouse[];
-  currentActiveUsers: DowngradeUser[];
-}
+const DowngradeUserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  createdAt: z.string(),
+});
 
-export interface PendingDowngrade {
-  targetPlan: PlanTier;
-  initiatedAt: string;
-  gracePeriodEndsAt: string;
-  executed: boolean;
-}
+export type DowngradeUser = z.infer<typeof DowngradeUserSchema>;
+
+export const DowngradeRequirementsSchema = z.object({
+  storehousesToLock: z.number(),
+  usersToDeactivate: z.number(),
+  currentStorehouses: z.array(DowngradeStorehouseSchema),
+  currentActiveUsers: z.array(DowngradeUserSchema),
+});
+
+export type DowngradeRequirements = z.infer<typeof DowngradeRequirementsSchema>;
+
+export const PendingDowngradeSchema = z.object({
+  targetPlan: PlanTierSchema,
+  initiatedAt: z.string(),
+  gracePeriodEndsAt: z.string(),
+  executed: z.boolean(),
+});
+
+export type PendingDowngrade = z.infer<typeof PendingDowngradeSchema>;
 
 // ============================================
 // Payment & Invoice Info
 // ============================================
 
-export interface PaymentMethodInfo {
-  last4: string;
-  brand: string;
-  expMonth: number;
-  expYear: number;
-}
+const PaymentMethodInfoSchema = z.object({
+  last4: z.string(),
+  brand: z.string(),
+  expMonth: z.number(),
+  expYear: z.number(),
+});
 
-export interface NextInvoiceInfo {
-  amountDue: number;
-  currency: string;
-  dueDate: string;
-}
+export type PaymentMethodInfo = z.infer<typeof PaymentMethodInfoSchema>;
+
+const NextInvoiceInfoSchema = z.object({
+  amountDue: z.number(),
+  currency: z.string(),
+  dueDate: z.string(),
+});
+
+export type NextInvoiceInfo = z.infer<typeof NextInvoiceInfoSchema>;
 
 export interface ResolveDowngradeRequest {
   unlockStorehouseIds?: string[];
@@ -164,33 +144,39 @@ export interface SwapResourcesRequest {
   reactivateUserIds?: string[];
 }
 
-export interface SwapCandidates {
-  lockedStorehouses: DowngradeStorehouse[];
-  activeStorehouses: DowngradeStorehouse[];
-  inactiveUsers: DowngradeUser[];
-  activeUsers: DowngradeUser[];
-}
+export const SwapCandidatesSchema = z.object({
+  lockedStorehouses: z.array(DowngradeStorehouseSchema),
+  activeStorehouses: z.array(DowngradeStorehouseSchema),
+  inactiveUsers: z.array(DowngradeUserSchema),
+  activeUsers: z.array(DowngradeUserSchema),
+});
+
+export type SwapCandidates = z.infer<typeof SwapCandidatesSchema>;
 
 // ============================================
 // Stripe Types
 // ============================================
 
-export type BillingCycle = 'monthly' | 'annual';
+export const BillingCycleSchema = z.enum(['monthly', 'annual']);
+
+export type BillingCycle = z.infer<typeof BillingCycleSchema>;
 
 /** Trimmed invoice representation from GET /stripe/invoices */
-export interface Invoice {
-  id: string;
-  number: string | null;
-  status: string | null;
-  amountPaid: number;
-  amountDue: number;
-  currency: string;
-  created: number;
-  periodStart: number;
-  periodEnd: number;
-  hostedInvoiceUrl: string | null;
-  invoicePdf: string | null;
-}
+export const InvoiceSchema = z.object({
+  id: z.string(),
+  number: z.string().nullable(),
+  status: z.string().nullable(),
+  amountPaid: z.number(),
+  amountDue: z.number(),
+  currency: z.string(),
+  created: z.number(),
+  periodStart: z.number(),
+  periodEnd: z.number(),
+  hostedInvoiceUrl: z.string().nullable(),
+  invoicePdf: z.string().nullable(),
+});
+
+export type Invoice = z.infer<typeof InvoiceSchema>;
 
 export interface EnforceLimitsRequest {
   /** Storehouses to lock to comply with current plan limits */
@@ -200,24 +186,85 @@ export interface EnforceLimitsRequest {
 }
 
 /** Response from POST /stripe/subscribe */
-export interface CreateSubscriptionResponse {
-  clientSecret: string | null;
-  subscriptionId: string;
-  customerId: string;
+export const CreateSubscriptionResponseSchema = z.object({
+  clientSecret: z.string().nullable(),
+  subscriptionId: z.string(),
+  customerId: z.string(),
   /** True when the sub was already active (no new payment needed) */
-  alreadyActive?: boolean;
+  alreadyActive: z.boolean().optional(),
   /** True when running in mock Stripe mode */
-  mock?: boolean;
-}
+  mock: z.boolean().optional(),
+});
+
+export type CreateSubscriptionResponse = z.infer<
+  typeof CreateSubscriptionResponseSchema
+>;
 
 /** Response from POST /stripe/portal */
-export interface PortalSessionResponse {
-  url: string;
-}
+export const PortalSessionResponseSchema = z.object({
+  url: z.string(),
+});
+
+export type PortalSessionResponse = z.infer<typeof PortalSessionResponseSchema>;
 
 /** Response from POST /stripe/cancel */
-export interface CancelSubscriptionResponse {
-  subscriptionId: string;
-  cancelAtPeriodEnd: boolean;
-  currentPeriodEnd: number;
-}
+export const CancelSubscriptionResponseSchema = z.object({
+  subscriptionId: z.string(),
+  cancelAtPeriodEnd: z.boolean(),
+  currentPeriodEnd: z.number(),
+});
+
+export type CancelSubscriptionResponse = z.infer<
+  typeof CancelSubscriptionResponseSchema
+>;
+
+// ============================================
+// Usage Summary (from GET /subscription)
+// ============================================
+
+const UsageEntrySchema = z.object({
+  current: z.number(),
+  limit: z.number(), // -1 = unlimited
+});
+
+export type UsageEntry = z.infer<typeof UsageEntrySchema>;
+
+export const UsageSummarySchema = z.object({
+  plan: PlanTierSchema,
+  status: z.enum(['active', 'trialing', 'past_due', 'canceled', 'expired']),
+  limits: z.object({
+    storehouses: UsageEntrySchema,
+    users: UsageEntrySchema,
+    items: UsageEntrySchema,
+    monthlyTransactions: UsageEntrySchema,
+  }),
+  features: FeaturesSchema,
+  apiRequestsPerMinute: z.number(),
+  /** ISO date string — when the current billing period starts (null for free / no Stripe) */
+  currentPeriodStart: z.string().nullable(),
+  /** ISO date string — when the current billing period ends (null for free / no Stripe) */
+  currentPeriodEnd: z.string().nullable(),
+  /** When the subscription was canceled (null if not canceled) */
+  canceledAt: z.string().nullable(),
+  /** Current billing cycle (null for free / unknown) */
+  billingCycle: BillingCycleSchema.nullable(),
+  /** Pending downgrade info (if any) */
+  pendingDowngrade: PendingDowngradeSchema.nullable(),
+  /** Whether this subscription is backed by a Stripe subscription */
+  hasStripeSubscription: z.boolean(),
+  /** Payment method on file (null if none) */
+  paymentMethod: PaymentMethodInfoSchema.nullable(),
+  /** Next upcoming invoice (null if none / free plan) */
+  nextInvoice: NextInvoiceInfoSchema.nullable(),
+  /** ISO date — when the trial ends (null if not trialing) */
+  trialEndsAt: z.string().nullable(),
+  /** Whether this business has already used its one-time free trial */
+  hasUsedTrial: z.boolean(),
+
+  /** Raw limit overrides currently set (for dev portal display) */
+  limitOverrides: z.record(z.number()).optional(),
+  /** Raw feature overrides currently set (for dev portal display) */
+  featureOverrides: z.record(z.boolean()).optional(),
+});
+
+export type UsageSummary = z.infer<typeof UsageSummarySchema>;
@@ -18,18 +18,28 @@ import type {
   BusinessActivity,
   SendReminderResponse,
 } from '../types/dev.types';
-import type { UsageSummary } from '@/features/billing/types/billing.types';
+import {
+  BusinessActivitySchema,
+  SendReminderResponseSchema,
+} from '../types/dev.types';
+import {
+  UsageSummarySchema,
+  type UsageSummary,
+} from '@/features/billing/types/billing.types';
+import { z } from 'zod';
 
-interface BackendBusiness {
-  _id: string;
-  name: string;
-  email: string;
-  address: string;
-  phoneNumber: string;
-  currency: string;
-  timezone: string;
-  createdAt?: string;
-}
+const BackendBusinessSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  email: z.string().optional(),
+  address: z.string().optional(),
+  phoneNumber: z.string().optional(),
+  currency: z.string().optional(),
+  timezone: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+type BackendBusiness = z.infer<typeof BackendBusinessSchema>;
 
 function mapBusiness(b: BackendBusiness): BusinessSummary {
   return {
@@ -49,70 +59,82 @@ export async function getAllBusinesses(
   search?: string
 ): Promise<BusinessSummary[]> {
   const query = search ? `?search=${encodeURIComponent(search)}` : '';
-  const data = await apiClient.get<BackendBusiness[]>(`/business${query}`);
-  return (data ?? []).map(mapBusiness);
+  const data = await apiClient.get(`/business${query}`, {
+    schema: z.array(BackendBusinessSchema),
+  });
+  return data.map(mapBusiness);
 }
 
 /** Inspect a specific business's subscription + usage */
 export async function inspectSubscription(
   businessId: string
 ): Promise<UsageSummary> {
-  return apiClient.get<UsageSummary>(`/subscription/inspect/${businessId}`);
+  return apiClient.get(`/subscription/inspect/${businessId}`, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Set a limit override on a specific business */
 export async function setLimitOverride(
   req: SetLimitOverrideRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>('/subscription/override/limit', req);
+  return apiClient.post('/subscription/override/limit', req, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Set a feature override on a specific business */
 export async function setFeatureOverride(
   req: SetFeatureOverrideRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>('/subscription/override/feature', req);
+  return apiClient.post('/subscription/override/feature', req, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Clear a limit override on a specific business */
 export async function clearLimitOverride(
   req: ClearLimitOverrideRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(
-    '/subscription/override/clear-limit',
-    req
-  );
+  return apiClient.post('/subscription/override/clear-limit', req, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Clear a feature override on a specific business */
 export async function clearFeatureOverride(
   req: ClearFeatureOverrideRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>(
-    '/subscription/override/clear-feature',
-    req
-  );
+  return apiClient.post('/subscription/override/clear-feature', req, {
+    schema: UsageSummarySchema,
+  });
 }
 
 /** Clear ALL overrides on a specific business */
 export async function clearAllOverrides(
   req: ClearAllOverridesRequest
 ): Promise<UsageSummary> {
-  return apiClient.post<UsageSummary>('/subscription/override/clear-all', req);
+  return apiClient.post('/subscription/override/clear-all', req, {
+    schema: UsageSummarySchema,
+  });
 }
 
 // ─── Activity ───────────────────────────────────────────────
 
 /** Fetch business activity overview (dev only) */
 export async function getBusinessActivity(): Promise<BusinessActivity[]> {
-  return apiClient.get<BusinessActivity[]>('/business/activity');
+  return apiClient.get('/business/activity', {
+    schema: z.array(BusinessActivitySchema),
+  });
 }
 
 /** Send a reminder email to a business owner (dev only) */
 export async function sendReminderEmail(
   businessId: string
 ): Promise<SendReminderResponse> {
-  return apiClient.post<SendReminderResponse>('/business/send-reminder', {
-    businessId,
-  });
+  return apiClient.post(
+    '/business/send-reminder',
+    { businessId },
+    { schema: SendReminderResponseSchema }
+  );
 }
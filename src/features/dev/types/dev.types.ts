@@ -4,6 +4,7 @@
  * Types used by the developer portal for business inspection and overrides.
  */
 
+import { z } from 'zod';
 import type {
   UsageSummary,
   LimitDimension,
@@ -47,25 +48,29 @@ export interface ClearAllOverridesRequest {
   businessId: string;
 }
 
-export interface BusinessActivity {
-  businessId: string;
-  businessName: string;
-  ownerEmail: string;
-  plan: string;
-  status: string;
-  lastTransactionAt: string | null;
-  lastImportAt: string | null;
-  lastLoginAt: string | null;
-  lastActivityAt: string | null;
-  transactionCount30d: number;
-  importCount30d: number;
-  daysSinceLastActivity: number; // -1 = never active
-  createdAt: string;
-}
+export const BusinessActivitySchema = z.object({
+  businessId: z.string(),
+  businessName: z.string(),
+  ownerEmail: z.string(),
+  plan: z.string(),
+  status: z.string(),
+  lastTransactionAt: z.string().nullable(),
+  lastImportAt: z.string().nullable(),
+  lastLoginAt: z.string().nullable(),
+  lastActivityAt: z.string().nullable(),
+  transactionCount30d: z.number(),
+  importCount30d: z.number(),
+  daysSinceLastActivity: z.number(), // -1 = never active
+  createdAt: z.string(),
+});
 
-export interface SendReminderResponse {
-  message: string;
-  to: string;
-}
+export type BusinessActivity = z.infer<typeof BusinessActivitySchema>;
+
+export const SendReminderResponseSchema = z.object({
+  message: z.string(),
+  to: z.string(),
+});
+
+export type SendReminderResponse = z.infer<typeof SendReminderResponseSchema>;
 
 export type { UsageSummary, LimitDimension, FeatureFlag };
@@ -1,117 +1,334 @@
-import { USE_MOCK_API, mockDelay } from '@/shared/lib/mock-data';
 import { apiClient } from '@/shared/lib/api-client';
+import { createIdempotencyKey } from '@/shared/lib/idempotency';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { paginatedSchema } from '@/shared/lib/contract';
+import { z } from 'zod';
+import type { AppError, RequestConfig } from '@/shared/types/api.types';
 import type {
   Item,
+  ItemImportResult,
+  ItemImportRow,
   StockAdjustmentRequest,
   InventoryFilters,
+  KitAssemblyRequest,
+  KitComponent,
+  PriceHistory,
+  PricePoint,
+  ReorderSuggestions,
+  SerialHistory,
+  StockMovement,
+  StockMovementFilters,
 } from '../types/inventory.types';
-import { MOCK_ITEMS, getStockStatus } from '../lib/mock-inventory';
+import {
+  ItemImportResultSchema,
+  PackUnitSchema,
+  StockMovementSourceSchema,
+} from '../types/inventory.types';
+
+// ObjectId, or populated with ?populate=storeHouse
+const BackendStorehouseRefSchema = z.union([
+  z.string(),
+  z.object({ _id: z.string(), name: z.string() }),
+]);
+
+const BackendStockLevelSchema = z.object({
+  storeHouse: BackendStorehouseRefSchema,
+  quantity: z.number(),
+  lowStockAt: z.number().optional(),
+  lots: z
+    .array(
+      z.object({
+        lotNumber: z.string(),
+        expiresAt: z.string().optional(),
+        quantity: z.number(),
+      })
+    )
+    .optional(),
+  serials: z.array(z.string()).optional(),
+});
 
 /**
- * Backend Item type (from MongoDB)
+ * Backend Item schema (from MongoDB)
  */
-interface BackendItem {
-  _id: string;
-  name: string;
-  description?: string;
-  unitPrice: number;
-  origin?: string;
-  tags: string[];
-  quantity: number;
-  unit: string;
-  imageUrl?: string[];
-  storeHouse: string | { _id: string; name: string }; // Can be ObjectId or populated
-  lowStockAt?: number;
-  createdAt?: string;
-  updatedAt?: string;
+const BackendItemSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  sku: z.string().optional(),
+  description: z.string().optional(),
+  unitPrice: z.number(),
+  sellingPrice: z.number().optional(),
+  origin: z.string().optional(),
+  tags: z.array(z.string()),
+  quantity: z.number(),
+  unit: z.string(),
+  packUnits: z.array(PackUnitSchema).optional(),
+  imageUrl: z.array(z.string()).optional(),
+  barcodes: z.array(z.string()).optional(),
+  storeHouse: BackendStorehouseRefSchema.nullish(),
+  // Older deployments keep all stock at storeHouse and omit this
+  stock: z.array(BackendStockLevelSchema).optional(),
+  lowStockAt: z.number().optional(),
+  serialized: z.boolean().optional(),
+  // Kits: components populated with the item's name and unit
+  components: z
+    .array(
+      z.object({
+        itemId: z.union([
+          z.string(),
+          z.object({ _id: z.string(), name: z.string(), unit: z.string() }),
+        ]),
+        quantity: z.number(),
+      })
+    )
+    .optional(),
+  buildable: z
+    .array(
+      z.object({ storeHouse: BackendStorehouseRefSchema, quantity: z.number() })
+    )
+    .optional(),
+  archived: z.boolean().optional(),
+  stockValue: z.number().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+type BackendItem = z.infer<typeof BackendItemSchema>;
+
+const ItemListSchema = paginatedSchema(BackendItemSchema);
+
+function mapStorehouseRef(
+  ref: z.infer<typeof BackendStorehouseRefSchema> | null | undefined
+): Item['storeHouse'] {
+  return !ref
+    ? { id: '', name: 'No Warehouse' } // Missing storeHouse
+    : typeof ref === 'string'
+      ? { id: ref, name: 'Unknown' } // Not populated
+      : { id: ref._id, name: ref.name }; // Populated
 }
 
 /**
  * Map backend item to frontend Item type
  */
 function mapBackendItem(item: BackendItem): Item {
-  if (!item) {
-    throw new Error('Item is null or undefined');
-  }
-
-  // Handle both _id and id field names
-  const itemId = item._id || (item as any).id;
-
-  if (!itemId) {
-    throw new Error('Item missing _id or id field');
-  }
-
+  const storeHouse = mapStorehouseRef(item.storeHouse);
   return {
-    id: itemId,
+    id: item._id,
     name: item.name,
+    sku: item.sku,
     description: item.description,
     unitPrice: item.unitPrice,
+    sellingPrice: item.sellingPrice,
     origin: item.origin,
     tags: item.tags || [],
     quantity: item.quantity,
     unit: item.unit,
+    packUnits: item.packUnits?.length ? item.packUnits : undefined,
     imageUrl: item.imageUrl || [],
-    storeHouse: !item.storeHouse
-      ? { id: '', name: 'No Warehouse' } // Missing storeHouse
-      : typeof item.storeHouse === 'string'
-        ? { id: item.storeHouse, name: 'Unknown' } // Not populated
-        : {
-            id: item.storeHouse._id || (item.storeHouse as any).id,
-            name: item.storeHouse.name,
-          }, // Populated
+    barcodes: item.barcodes || [],
+    storeHouse,
+    stock: item.stock
+      ? item.stock.map((level) => ({
+          storeHouse: mapStorehouseRef(level.storeHouse),
+          quantity: level.quantity,
+          lowStockAt: level.lowStockAt,
+          lots: level.lots,
+          serials: level.serials,
+        }))
+      : [{ storeHouse, quantity: item.quantity }],
     lowStockAt: item.lowStockAt ?? 10,
+    serialized: item.serialized || undefined,
+    components: item.components?.length
+      ? item.components.map((component) => ({
+          item:
+            typeof component.itemId === 'string'
+              ? { id: component.itemId, name: 'Unknown', unit: '' } // Not populated
+              : {
+                  id: component.itemId._id,
+                  name: component.itemId.name,
+                  unit: component.itemId.unit,
+                },
+          quantity: component.quantity,
+        }))
+      : undefined,
+    buildable: item.buildable?.map((level) => ({
+      storeHouse: mapStorehouseRef(level.storeHouse),
+      quantity: level.quantity,
+    })),
+    archived: item.archived || undefined,
+    stockValue: item.stockValue,
     createdAt: item.createdAt || new Date().toISOString(),
     updatedAt: item.updatedAt || new Date().toISOString(),
   };
 }
 
+/**
+ * Backend stock movement schema (performedBy populated with the user)
+ */
+const BackendStockMovementSchema = z.object({
+  _id: z.string(),
+  itemId: z.string(),
+  change: z.number(),
+  source: StockMovementSourceSchema,
+  reason: z.string(),
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+  previousQuantity: z.number(),
+  newQuantity: z.number(),
+  performedBy: z.union([
+    z.string(),
+    z.object({ _id: z.string(), name: z.string() }),
+  ]),
+  createdAt: z.string(),
+});
+
+type BackendStockMovement = z.infer<typeof BackendStockMovementSchema>;
+
+function mapBackendStockMovement(
+  movement: BackendStockMovement
+): StockMovement {
+  return {
+    id: movement._id,
+    itemId: movement.itemId,
+    change: movement.change,
+    source: movement.source,
+    reason: movement.reason,
+    reference: movement.reference,
+    notes: movement.notes,
+    previousQuantity: movement.previousQuantity,
+    newQuantity: movement.newQuantity,
+    performedBy:
+      typeof movement.performedBy === 'string'
+        ? { id: movement.performedBy, name: 'Unknown' } // Not populated
+        : { id: movement.performedBy._id, name: movement.performedBy.name },
+    createdAt: movement.createdAt,
+  };
+}
+
+/**
+ * Backend serial history (storehouses and partners populated)
+ */
+const BackendSerialHistorySchema = z.object({
+  serial: z.string(),
+  item: z.object({ _id: z.string(), name: z.string(), sku: z.string() }),
+  storeHouse: BackendStorehouseRefSchema.nullable(),
+  events: z.array(
+    z.object({
+      type: z.enum(['import', 'sale', 'transfer']),
+      reference: z.string(),
+      status: z.enum(['pending', 'completed', 'cancelled']),
+      date: z.string(),
+      storeHouse: BackendStorehouseRefSchema,
+      toStoreHouse: BackendStorehouseRefSchema.nullish(),
+      partner: z
+        .union([
+          z.string(),
+          z.object({ _id: z.string(), partnerName: z.string() }),
+        ])
+        .nullish(),
+    })
+  ),
+});
+
+// Client or supplier: ObjectId, or populated
+const BackendPartnerRefSchema = z.union([
+  z.string(),
+  z.object({ _id: z.string(), partnerName: z.string() }),
+]);
+
+const BackendPricePointSchema = z.object({
+  reference: z.string(),
+  date: z.string(),
+  partner: BackendPartnerRefSchema.nullish(),
+  quantity: z.number(),
+  unitPrice: z.number(),
+  listedPrice: z.number().optional(),
+});
+
+const BackendPriceHistorySchema = z.object({
+  catalogue: z.array(
+    z.object({
+      unitPrice: z.number(),
+      sellingPrice: z.number().optional(),
+      changedBy: z.union([
+        z.string(),
+        z.object({ _id: z.string(), name: z.string() }),
+      ]),
+      createdAt: z.string(),
+    })
+  ),
+  sales: z.array(BackendPricePointSchema),
+  purchases: z.array(BackendPricePointSchema),
+});
+
+const BackendReorderSuggestionsSchema = z.object({
+  lookbackDays: z.number(),
+  leadTimeDays: z.number(),
+  safetyStockDays: z.number(),
+  reorderCoverDays: z.number(),
+  items: z.array(
+    z.object({
+      item: z.string(),
+      dailySales: z.number(),
+      reorderPoint: z.number(),
+      reorderQuantity: z.number(),
+    })
+  ),
+});
+
+function mapSerialHistory(
+  history: z.infer<typeof BackendSerialHistorySchema>
+): SerialHistory {
+  return {
+    serial: history.serial,
+    item: {
+      id: history.item._id,
+      name: history.item.name,
+      sku: history.item.sku,
+    },
+    storeHouse: history.storeHouse
+      ? mapStorehouseRef(history.storeHouse)
+      : null,
+    events: history.events.map((event) => ({
+      type: event.type,
+      reference: event.reference,
+      status: event.status,
+      date: event.date,
+      storeHouse: mapStorehouseRef(event.storeHouse),
+      toStoreHouse: event.toStoreHouse
+        ? mapStorehouseRef(event.toStoreHouse)
+        : undefined,
+      partner: !event.partner
+        ? undefined
+        : typeof event.partner === 'string'
+          ? { id: event.partner, name: 'Unknown' } // Not populated
+          : { id: event.partner._id, name: event.partner.partnerName },
+    })),
+  };
+}
+
+function mapPricePoint(
+  point: z.infer<typeof BackendPricePointSchema>
+): PricePoint {
+  return {
+    reference: point.reference,
+    date: point.date,
+    partner: !point.partner
+      ? undefined
+      : typeof point.partner === 'string'
+        ? { id: point.partner, name: 'Unknown' } // Not populated
+        : { id: point.partner._id, name: point.partner.partnerName },
+    quantity: point.quantity,
+    unitPrice: point.unitPrice,
+    listedPrice: point.listedPrice,
+  };
+}
+
 /**
  * Get all inventory items with optional filters
  */
 export async function getInventoryItems(
   filters?: InventoryFilters
 ): Promise<Item[]> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: getInventoryItems', filters);
-
-    let filtered = [...MOCK_ITEMS];
-
-    // Search
-    if (filters?.search) {
-      const search = filters.search.toLowerCase();
-      filtered = filtered.filter(
-        (item) =>
-          item.name.toLowerCase().includes(search) ||
-          item.description?.toLowerCase().includes(search) ||
-          item.tags.some((tag) => tag.toLowerCase().includes(search))
-      );
-    }
-
-    // Status filter
-    if (filters?.status && filters.status !== 'all') {
-      filtered = filtered.filter(
-        (item) => getStockStatus(item) === filters.status
-      );
-    }
-
-    // Tags filter
-    if (filters?.tags && filters.tags.length > 0) {
-      filtered = filtered.filter((item) =>
-        filters.tags!.some((tag) => item.tags.includes(tag))
-      );
-    }
-
-    // Storehouse filter
-    if (filters?.storeHouse) {
-      filtered = filtered.filter(
-        (item) => item.storeHouse.id === filters.storeHouse
-      );
-    }
-
-    return filtered;
-  }
-
   const params = new URLSearchParams();
   if (filters?.search) params.append('search', filters.search);
   if (filters?.status && filters.status !== 'all')
@@ -119,6 +336,7 @@ export async function getInventoryItems(
   if (filters?.tags && filters.tags.length > 0)
     params.append('tags', filters.tags.join(','));
   if (filters?.storeHouse) params.append('storeHouse', filters.storeHouse);
+  if (filters?.archived) params.append('archived', 'true');
 
   // Request populated storeHouse data
   params.append('populate', 'storeHouse');
@@ -126,90 +344,31 @@ export async function getInventoryItems(
   const queryString = params.toString();
   const endpoint = queryString ? `/item?${queryString}` : '/item';
 
-  const response = await apiClient.get<{
-    items: BackendItem[];
-    pagination: any;
-  }>(endpoint);
-
-  // Extract items from paginated response
-  const backendItems = response?.items || [];
-  const mappedItems = Array.isArray(backendItems)
-    ? backendItems.map(mapBackendItem)
-    : [];
+  const response = await queryGet('items', endpoint, {
+    schema: ItemListSchema,
+  });
 
-  return mappedItems;
+  return response.items.map(mapBackendItem);
 }
 
 /**
  * Get inventory items with pagination
  */
-export async function getInventoryItemsWithPagination(params: {
-  page?: number;
-  limit?: number;
-  search?: string;
-  status?: string;
-  tags?: string[];
-  storeHouse?: string;
-}): Promise<{
+export async function getInventoryItemsWithPagination(
+  params: {
+    page?: number;
+    limit?: number;
+    search?: string;
+    status?: string;
+    tags?: string[];
+    storeHouse?: string;
+    archived?: boolean;
+  },
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+): Promise<{
   items: Item[];
   pagination: { page: number; limit: number; total: number; pages: number };
 }> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: getInventoryItemsWithPagination', params);
-
-    let filtered = [...MOCK_ITEMS];
-
-    // Search
-    if (params.search) {
-      const search = params.search.toLowerCase();
-      filtered = filtered.filter(
-        (item) =>
-          item.name.toLowerCase().includes(search) ||
-          item.description?.toLowerCase().includes(search) ||
-          item.tags.some((tag) => tag.toLowerCase().includes(search))
-      );
-    }
-
-    // Status filter
-    if (params.status && params.status !== 'all') {
-      filtered = filtered.filter(
-        (item) => getStockStatus(item) === params.status
-      );
-    }
-
-    // Tags filter
-    if (params.tags && params.tags.length > 0) {
-      filtered = filtered.filter((item) =>
-        params.tags!.some((tag) => item.tags.includes(tag))
-      );
-    }
-
-    // Storehouse filter
-    if (params.storeHouse) {
-      filtered = filtered.filter(
-        (item) => item.storeHouse.id === params.storeHouse
-      );
-    }
-
-    // Pagination
-    const page = params.page || 1;
-    const limit = params.limit || 20;
-    const start = (page - 1) * limit;
-    const end = start + limit;
-    const paginatedItems = filtered.slice(start, end);
-
-    return {
-      items: paginatedItems,
-      pagination: {
-        page,
-        limit,
-        total: filtered.length,
-        pages: Math.ceil(filtered.length / limit),
-      },
-    };
-  }
-
   const queryParams = new URLSearchParams();
 
   if (params.page) queryParams.append('page', params.page.toString());
@@ -220,71 +379,213 @@ export async function getInventoryItemsWithPagination(params: {
   if (params.tags && params.tags.length > 0)
     queryParams.append('tags', params.tags.join(','));
   if (params.storeHouse) queryParams.append('storeHouse', params.storeHouse);
+  if (params.archived) queryParams.append('archived', 'true');
 
   // Request populated storeHouse data
   queryParams.append('populate', 'storeHouse');
 
-  const response = await apiClient.get<{
-    items: BackendItem[];
-    pagination: {
-      page: number;
-      limit: number;
-      total: number;
-      totalPages: number;
-    };
-  }>(`/item?${queryParams.toString()}`);
+  const response = await queryGet('items', `/item?${queryParams.toString()}`, {
+    ...options,
+    schema: ItemListSchema,
+  });
 
+  const { page, limit, total, pages, totalPages } = response.pagination;
   return {
     items: response.items.map(mapBackendItem),
-    pagination: {
-      page: response.pagination.page,
-      limit: response.pagination.limit,
-      total: response.pagination.total,
-      pages: response.pagination.totalPages,
-    },
+    pagination: { page, limit, total, pages: totalPages ?? pages ?? 1 },
   };
 }
 
+/**
+ * Every item, page by page (the bulk import checks duplicates against the
+ * whole catalogue)
+ */
+export async function getAllInventoryItems(): Promise<Item[]> {
+  const items: Item[] = [];
+  for (let page = 1; ; page++) {
+    const response = await getInventoryItemsWithPagination({
+      page,
+      limit: 100,
+    });
+    items.push(...response.items);
+    if (page >= response.pagination.pages) return items;
+  }
+}
+
 /**
  * Get single item by ID
  */
 export async function getItemById(itemId: string): Promise<Item> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: getItemById', itemId);
+  const backendItem = await queryGet('items', `/item/${itemId}`, {
+    schema: BackendItemSchema,
+  });
+  return mapBackendItem(backendItem);
+}
+
+/**
+ * Find the item a scanned code belongs to: its id (our printed labels),
+ * SKU or one of its barcodes (any GTIN length). Resolves null for
+ * unknown codes.
+ */
+export async function findItemByCode(code: string): Promise<Item | null> {
+  try {
+    const backendItem = await queryGet(
+      'items',
+      `/item/lookup?code=${encodeURIComponent(code)}&populate=storeHouse`,
+      { schema: BackendItemSchema }
+    );
+    return mapBackendItem(backendItem);
+  } catch (err) {
+    if ((err as AppError).status === 404) return null;
+    throw err;
+  }
+}
 
-    const item = MOCK_ITEMS.find((i) => i.id === itemId);
-    if (!item) throw new Error('Item not found');
-    return item;
+/**
+ * Everything that happened to one serialized unit: where it was received,
+ * moved and who it was sold to. Resolves null for unknown serials.
+ */
+export async function getSerialHistory(
+  serial: string
+): Promise<SerialHistory | null> {
+  try {
+    const history = await queryGet(
+      'items',
+      `/item/serial/${encodeURIComponent(serial)}`,
+      { schema: BackendSerialHistorySchema }
+    );
+    return mapSerialHistory(history);
+  } catch (err) {
+    if ((err as AppError).status === 404) return null;
+    throw err;
   }
+}
 
-  const backendItem = await apiClient.get<BackendItem>(`/item/${itemId}`);
-  return mapBackendItem(backendItem);
+/**
+ * Reorder point and quantity suggested per item from its recent sales
+ * and the business's lead time, safety stock and cover days
+ */
+export async function getReorderSuggestions(): Promise<ReorderSuggestions> {
+  const { items, ...settings } = await queryGet(
+    'analytics',
+    '/item/reorder-suggestions',
+    { schema: BackendReorderSuggestionsSchema }
+  );
+  return {
+    ...settings,
+    byItem: Object.fromEntries(
+      items.map(({ item, ...suggestion }) => [
+        item,
+        { itemId: item, ...suggestion },
+      ])
+    ),
+  };
 }
 
 /**
- * Adjust stock quantity
+ * Adjust stock quantity (recorded in the item's movement ledger)
  */
 export async function adjustStock(
   request: StockAdjustmentRequest
 ): Promise<Item> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: adjustStock', request);
+  const backendItem = await apiClient.patch(
+    `/item/${request.itemId}/adjust`,
+    {
+      change: request.quantity,
+      storeHouse: request.storeHouse,
+      lotNumber: request.lotNumber,
+      serials: request.serials,
+      reason: request.reason,
+      notes: request.notes,
+    },
+    { schema: BackendItemSchema }
+  );
+  invalidateAfterMutation('items');
+  return mapBackendItem(backendItem);
+}
 
-    const item = MOCK_ITEMS.find((i) => i.id === request.itemId);
-    if (!item) throw new Error('Item not found');
+/**
+ * Get an item's stock movements (newest first): manual adjustments,
+ * sales, imports and transfers
+ */
+export async function getStockMovements(
+  itemId: string,
+  filters?: StockMovementFilters
+): Promise<StockMovement[]> {
+  const params = new URLSearchParams();
+  if (filters?.reasons && filters.reasons.length > 0)
+    params.append('reason', filters.reasons.join(','));
+  if (filters?.performedBy) params.append('performedBy', filters.performedBy);
+  if (filters?.dateFrom) params.append('dateFrom', filters.dateFrom);
+  if (filters?.dateTo) params.append('dateTo', filters.dateTo);
 
-    // Update mock item (in-memory only)
-    item.quantity = Math.max(0, item.quantity + request.quantity);
-    item.updatedAt = new Date().toISOString();
+  const queryString = params.toString();
+  const movements = await queryGet(
+    'items',
+    `/item/${itemId}/movements${queryString ? `?${queryString}` : ''}`,
+    { schema: z.array(BackendStockMovementSchema) }
+  );
+  return movements.map(mapBackendStockMovement);
+}
 
-    return item;
-  }
+/**
+ * Catalogue price changes, sales and purchases of an item
+ */
+export async function getPriceHistory(
+  itemId: string,
+  filters?: { dateFrom?: string; dateTo?: string }
+): Promise<PriceHistory> {
+  const params = new URLSearchParams();
+  if (filters?.dateFrom) params.append('dateFrom', filters.dateFrom);
+  if (filters?.dateTo) params.append('dateTo', filters.dateTo);
+
+  const queryString = params.toString();
+  const history = await queryGet(
+    'items',
+    `/item/${itemId}/price-history${queryString ? `?${queryString}` : ''}`,
+    { schema: BackendPriceHistorySchema }
+  );
+  return {
+    catalogue: history.catalogue.map((change) => ({
+      date: change.createdAt,
+      unitPrice: change.unitPrice,
+      sellingPrice: change.sellingPrice,
+      changedBy:
+        typeof change.changedBy === 'string'
+          ? { id: change.changedBy, name: 'Unknown' } // Not populated
+          : { id: change.changedBy._id, name: change.changedBy.name },
+    })),
+    sales: history.sales.map(mapPricePoint),
+    purchases: history.purchases.map(mapPricePoint),
+  };
+}
 
-  // TODO: Backend doesn't have adjust-stock endpoint yet
-  // For now, use updateItem to change quantity
-  throw new Error('Stock adjustment endpoint not implemented on backend yet');
+/**
+ * Kit components as the backend takes them (item ids)
+ */
+function toBackendComponents(components: KitComponent[]) {
+  return components.map((component) => ({
+    itemId: component.item.id,
+    quantity: component.quantity,
+  }));
+}
+
+/**
+ * Assemble kits from their components. Returns the kit with its new stock.
+ * Pass the same idempotency key when resubmitting the same assembly.
+ */
+export async function assembleKits(
+  itemId: string,
+  request: KitAssemblyRequest,
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<Item> {
+  const backendItem = await apiClient.post(
+    `/item/${itemId}/assemble`,
+    request,
+    { schema: BackendItemSchema, idempotencyKey }
+  );
+  invalidateAfterMutation('items');
+  return mapBackendItem(backendItem);
 }
 
 /**
@@ -292,29 +593,35 @@ export async function adjustStock(
  */
 export async function updateItem(
   itemId: string,
-  updates: Partial<Omit<Item, 'id' | 'createdAt' | 'updatedAt'>>
+  updates: Partial<
+    Omit<Item, 'id' | 'createdAt' | 'updatedAt' | 'sellingPrice'> & {
+      /** null clears the selling price */
+      sellingPrice: number | null;
+    }
+  >
 ): Promise<Item> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: updateItem', itemId, updates);
-
-    const item = MOCK_ITEMS.find((i) => i.id === itemId);
-    if (!item) throw new Error('Item not found');
-
-    Object.assign(item, updates, { updatedAt: new Date().toISOString() });
-    return item;
-  }
-
   // Convert frontend updates to backend format
   const backendUpdates: any = { ...updates };
   if (updates.storeHouse) {
     backendUpdates.storeHouse = updates.storeHouse.id; // Send only the ID
   }
+  if (updates.components) {
+    backendUpdates.components = toBackendComponents(updates.components);
+  }
+  delete backendUpdates.buildable; // Computed by the backend
+  if (updates.stock) {
+    // Only thresholds are set this way; quantities move by adjustment,
+    // order or transfer. null clears a location's own threshold.
+    backendUpdates.stock = updates.stock.map((level) => ({
+      storeHouse: level.storeHouse.id,
+      lowStockAt: level.lowStockAt ?? null,
+    }));
+  }
 
-  const backendItem = await apiClient.put<BackendItem>(
-    `/item/${itemId}`,
-    backendUpdates
-  );
+  const backendItem = await apiClient.put(`/item/${itemId}`, backendUpdates, {
+    schema: BackendItemSchema,
+  });
+  invalidateAfterMutation('items');
   return mapBackendItem(backendItem);
 }
 
@@ -322,99 +629,93 @@ export async function updateItem(
  * Create new item
  */
 export async function createItem(
-  data: Omit<Item, 'id' | 'createdAt' | 'updatedAt'>
+  data: Omit<Item, 'id' | 'stock' | 'createdAt' | 'updatedAt'>
 ): Promise<Item> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: createItem', data);
-
-    const newItem: Item = {
-      ...data,
-      id: `item-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    MOCK_ITEMS.push(newItem);
-    return newItem;
-  }
-
   // Convert frontend Item to backend format
   const backendData = {
     name: data.name,
+    sku: data.sku, // Generated by the backend when empty
     description: data.description,
     unitPrice: data.unitPrice,
+    sellingPrice: data.sellingPrice,
     origin: data.origin,
     tags: data.tags,
     quantity: data.quantity,
     unit: data.unit,
+    packUnits: data.packUnits,
     imageUrl: data.imageUrl,
-    storeHouse: data.storeHouse.id, // Send only the ID
+    barcodes: data.barcodes,
+    storeHouse: data.storeHouse.id, // Send only the ID; the stock starts here
     lowStockAt: data.lowStockAt,
+    serialized: data.serialized,
+    components: data.components && toBackendComponents(data.components),
   };
 
-  const backendItem = await apiClient.post<BackendItem>('/item', backendData);
+  const backendItem = await apiClient.post('/item', backendData, {
+    schema: BackendItemSchema,
+  });
+  invalidateAfterMutation('items');
   return mapBackendItem(backendItem);
 }
 
+/**
+ * Create or update a batch of imported rows (at most 100). Failed rows
+ * come back with their rcode; the rest of the batch still goes through.
+ */
+export async function importItems(
+  rows: ItemImportRow[]
+): Promise<ItemImportResult> {
+  const result = await apiClient.post(
+    '/item/import',
+    { rows },
+    { schema: ItemImportResultSchema }
+  );
+  invalidateAfterMutation('items');
+  return result;
+}
+
 /**
  * Delete item
  */
 export async function deleteItem(itemId: string): Promise<void> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: deleteItem', itemId);
-
-    const index = MOCK_ITEMS.findIndex((i) => i.id === itemId);
-    if (index !== -1) {
-      MOCK_ITEMS.splice(index, 1);
-    }
-    return;
-  }
-
   await apiClient.delete(`/item/${itemId}`);
+  invalidateAfterMutation('items');
+}
+
+/**
+ * Upload one item photo and get back the URL to store in `imageUrl`.
+ * With a `signal` the upload runs until it finishes or is aborted; without
+ * one the usual request timeout applies.
+ */
+export async function uploadItemImage(
+  image: Blob,
+  options: {
+    onProgress?: (loaded: number, total: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<string> {
+  const form = new FormData();
+  form.append('image', image, 'image.jpg');
+  const { url } = await apiClient.post('/item/image', form, {
+    schema: z.object({ url: z.string() }),
+    onUploadProgress: options.onProgress,
+    signal: options.signal,
+  });
+  return url;
 }
 
 /**
  * Get unique units from all items
  */
 export async function getItemUnits(): Promise<string[]> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: getItemUnits');
-
-    // Extract unique units from mock items
-    const units = Array.from(new Set(MOCK_ITEMS.map((item) => item.unit)));
-    return units.sort();
-  }
-
-  const units = await apiClient.get<string[]>('/item/units');
-  return units;
+  return queryGet('itemMeta', '/item/units', { schema: z.array(z.string()) });
 }
 
 /**
  * Get distinct tags from all items (limited to top N most used)
  */
 export async function getItemTags(limit: number = 12): Promise<string[]> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    console.log('🔧 Mock: getItemTags', limit);
-
-    // Extract all tags and count occurrences
-    const tagCounts = new Map<string, number>();
-    MOCK_ITEMS.forEach((item) => {
-      item.tags.forEach((tag) => {
-        tagCounts.set(tag, (tagCounts.get(tag) || 0) + 1);
-      });
-    });
-
-    // Sort by count and return top N
-    return Array.from(tagCounts.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, limit)
-      .map(([tag]) => tag);
-  }
-
-  const tags = await apiClient.get<string[]>(`/item/tags?limit=${limit}`);
-  return tags;
+  return queryGet('itemMeta', `/item/tags?limit=${limit}`, {
+    schema: z.array(z.string()),
+  });
 }
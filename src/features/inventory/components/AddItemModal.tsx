@@ -14,17 +14,30 @@ import {
 } from '../api/inventory.api';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage } from '@/shared/lib/error-messages';
-import type { Item } from '../types/inventory.types';
+import { isValidGtin } from '@/shared/lib/product-codes';
+import type { Item, KitComponent, PackUnit } from '../types/inventory.types';
+import { validatePackUnits } from '../lib/units';
+import { getComponentOptions, validateKitComponents } from '../lib/kits';
+import { BarcodeListInput } from './BarcodeListInput';
+import { PackUnitsInput } from './PackUnitsInput';
+import { KitComponentsInput } from './KitComponentsInput';
+import { ItemImageGallery } from './ItemImageGallery';
 
 interface AddItemModalProps {
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
   storehouses: Array<{ id: string; name: string; isLocked?: boolean }>;
+  /**
+   * Unknown scanned code to attach to the new item: as a barcode when
+   * it is a valid GTIN, otherwise as the SKU
+   */
+  barcode?: string;
 }
 
 interface ItemFormData {
   name: string;
+  sku: string;
   description: string;
   unitPrice: string;
   origin: string;
@@ -38,6 +51,7 @@ interface ItemFormData {
 export const AddItemModal: Component<AddItemModalProps> = (props) => {
   const [formData, setFormData] = createSignal<ItemFormData>({
     name: '',
+    sku: '',
     description: '',
     unitPrice: '',
     origin: '',
@@ -52,6 +66,12 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
   const [showSuggestions, setShowSuggestions] = createSignal(false);
   const [unitInput, setUnitInput] = createSignal('pcs');
   const [showUnitSuggestions, setShowUnitSuggestions] = createSignal(false);
+  const [barcodes, setBarcodes] = createSignal<string[]>([]);
+  const [serialized, setSerialized] = createSignal(false);
+  const [packUnits, setPackUnits] = createSignal<PackUnit[]>([]);
+  const [components, setComponents] = createSignal<KitComponent[]>([]);
+  const [images, setImages] = createSignal<string[]>([]);
+  const [isUploading, setIsUploading] = createSignal(false);
   const [isSubmitting, setIsSubmitting] = createSignal(false);
   const [error, setError] = createSignal<string | null>(null);
 
@@ -70,6 +90,17 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
     }
   });
 
+  // Prefill the scanned code
+  createEffect(() => {
+    const code = props.barcode;
+    if (!props.isOpen || !code) return;
+    if (isValidGtin(code)) {
+      setBarcodes([code]);
+    } else {
+      setFormData((data) => ({ ...data, sku: code }));
+    }
+  });
+
   // Filter items based on name input
   const suggestions = () => {
     const input = nameInput().toLowerCase().trim();
@@ -169,6 +200,10 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
       if (!data.unitPrice || parseFloat(data.unitPrice) <= 0) {
         throw new Error('Unit price must be greater than 0');
       }
+      const packProblem = validatePackUnits(packUnits(), data.unit);
+      if (packProblem) throw new Error(packProblem);
+      const kitProblem = validateKitComponents(components());
+      if (kitProblem) throw new Error(kitProblem);
 
       // Find selected storehouse
       const selectedStorehouse = props.storehouses.find(
@@ -181,6 +216,7 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
       // Prepare payload
       const payload = {
         name: data.name.trim(),
+        sku: data.sku.trim() || undefined,
         description: data.description.trim() || undefined,
         unitPrice: parseFloat(data.unitPrice),
         origin: data.origin.trim() || undefined,
@@ -195,6 +231,13 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
           name: selectedStorehouse.name,
         },
         lowStockAt: parseInt(data.lowStockAt) || 10,
+        barcodes: barcodes(),
+        serialized: serialized() || undefined,
+        packUnits: packUnits().length
+          ? packUnits().map((pack) => ({ ...pack, unit: pack.unit.trim() }))
+          : undefined,
+        components: components().length ? components() : undefined,
+        imageUrl: images(),
       };
 
       await createItem(payload);
@@ -208,6 +251,7 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
       // Reset form
       setFormData({
         name: '',
+        sku: '',
         description: '',
         unitPrice: '',
         origin: '',
@@ -219,6 +263,11 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
       });
       setNameInput('');
       setUnitInput('pcs');
+      setBarcodes([]);
+      setSerialized(false);
+      setPackUnits([]);
+      setComponents([]);
+      setImages([]);
 
       props.onSuccess();
       props.onClose();
@@ -233,6 +282,7 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
     if (!isSubmitting()) {
       setFormData({
         name: '',
+        sku: '',
         description: '',
         unitPrice: '',
         origin: '',
@@ -244,6 +294,11 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
       });
       setNameInput('');
       setUnitInput('pcs');
+      setBarcodes([]);
+      setSerialized(false);
+      setPackUnits([]);
+      setComponents([]);
+      setImages([]);
       setError(null);
       props.onClose();
     }
@@ -586,6 +641,112 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
                     </div>
                   </div>
 
+                  {/* SKU */}
+                  <div>
+                    <label class="block text-sm font-medium text-text-primary">
+                      SKU
+                    </label>
+                    <input
+                      type="text"
+                      value={formData().sku}
+                      onInput={(e) =>
+                        setFormData({
+                          ...formData(),
+                          sku: e.currentTarget.value,
+                        })
+                      }
+                      onFocus={() => {
+                        setShowSuggestions(false);
+                        setShowUnitSuggestions(false);
+                      }}
+                      placeholder="Leave empty to generate one"
+                      class="placeholder-text-tertiary mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 font-mono text-text-primary focus:border-accent-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+                    />
+                    <p class="text-text-tertiary mt-1 text-xs">
+                      Must be unique. Generated from the pattern in Settings
+                      when left empty
+                    </p>
+                  </div>
+
+                  {/* Barcodes */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-primary">
+                      Barcodes
+                    </label>
+                    <BarcodeListInput
+                      value={barcodes()}
+                      onChange={setBarcodes}
+                      disabled={isSubmitting()}
+                    />
+                  </div>
+
+                  {/* Serial number tracking */}
+                  <div>
+                    <label class="flex items-center gap-2 text-sm font-medium text-text-primary">
+                      <input
+                        type="checkbox"
+                        checked={serialized()}
+                        onChange={(e) => setSerialized(e.currentTarget.checked)}
+                        disabled={isSubmitting() || components().length > 0}
+                        class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                      />
+                      Track serial numbers
+                    </label>
+                    <p class="text-text-tertiary mt-1 text-xs">
+                      Each unit's serial number is captured when it is received
+                      and picked when it is sold
+                    </p>
+                  </div>
+
+                  {/* Pack units */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-primary">
+                      Pack Units
+                    </label>
+                    <PackUnitsInput
+                      value={packUnits()}
+                      onChange={setPackUnits}
+                      baseUnit={formData().unit}
+                      disabled={isSubmitting()}
+                    />
+                    <p class="text-text-tertiary mt-1 text-xs">
+                      Packs it is bought or sold in, such as a case of 24. Stock
+                      is always counted in {formData().unit || 'the unit'}
+                    </p>
+                  </div>
+
+                  {/* Kit components */}
+                  <Show when={!serialized()}>
+                    <div>
+                      <label class="mb-1 block text-sm font-medium text-text-primary">
+                        Kit Components
+                      </label>
+                      <KitComponentsInput
+                        value={components()}
+                        onChange={setComponents}
+                        items={getComponentOptions(existingItems() ?? [])}
+                        disabled={isSubmitting()}
+                      />
+                      <p class="text-text-tertiary mt-1 text-xs">
+                        For a bundle sold as one item: orders build it from
+                        these items when no assembled sets are in stock
+                      </p>
+                    </div>
+                  </Show>
+
+                  {/* Photos */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-primary">
+                      Photos
+                    </label>
+                    <ItemImageGallery
+                      value={images()}
+                      onChange={setImages}
+                      onUploadingChange={setIsUploading}
+                      disabled={isSubmitting()}
+                    />
+                  </div>
+
                   {/* Origin */}
                   <div>
                     <label class="block text-sm font-medium text-text-primary">
@@ -651,9 +812,13 @@ export const AddItemModal: Component<AddItemModalProps> = (props) => {
                   <Button
                     type="submit"
                     variant="primary"
-                    disabled={isSubmitting()}
+                    disabled={isSubmitting() || isUploading()}
                   >
-                    {isSubmitting() ? 'Creating...' : 'Create Item'}
+                    {isSubmitting()
+                      ? 'Creating...'
+                      : isUploading()
+                        ? 'Uploading photos...'
+                        : 'Create Item'}
                   </Button>
                 </div>
               </div>
@@ -0,0 +1,223 @@
+/**
+ * AssembleKitModal – put kits together ahead of selling them.
+ *
+ * The components are taken from one storehouse and the assembled kits
+ * stocked there; both sides show in the stock history as an assembly.
+ */
+
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { Button } from '@/shared/ui/Button';
+import { notificationStore } from '@/shared/stores/notification.store';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
+import { assembleKits } from '../api/inventory.api';
+import { getKitLocations } from '../lib/kits';
+import type { Item } from '../types/inventory.types';
+
+interface AssembleKitModalProps {
+  item: Item;
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+const FIELD_CLASS =
+  'w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus';
+
+export const AssembleKitModal: Component<AssembleKitModalProps> = (props) => {
+  // Where the components are, most buildable first
+  const locations = () =>
+    getKitLocations(props.item)
+      .filter((location) => location.buildable > 0)
+      .sort((a, b) => b.buildable - a.buildable);
+
+  const [storeHouse, setStoreHouse] = createSignal('');
+  const [quantity, setQuantity] = createSignal(1);
+  const [notes, setNotes] = createSignal('');
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const [error, setError] = createSignal('');
+  const assemblySubmission = createSubmissionKey();
+
+  const location = () =>
+    locations().find((l) => l.storeHouse.id === storeHouse()) ?? locations()[0];
+  const maxQty = () => location()?.buildable ?? 0;
+
+  const handleSubmit = async () => {
+    setError('');
+    const target = location();
+    if (!target) return;
+    if (quantity() < 1 || quantity() > maxQty()) {
+      setError(`Quantity must be between 1 and ${maxQty()}`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const request = {
+        quantity: quantity(),
+        storeHouse: target.storeHouse.id,
+        notes: notes().trim() || undefined,
+      };
+      await assembleKits(
+        props.item.id,
+        request,
+        assemblySubmission.keyFor(request)
+      );
+      assemblySubmission.reset();
+      notificationStore.success(
+        `${quantity()} ${props.item.unit} of ${props.item.name} assembled`
+      );
+      resetForm();
+      props.onSuccess();
+      props.onClose();
+    } catch (err: any) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resetForm = () => {
+    setStoreHouse('');
+    setQuantity(1);
+    setNotes('');
+    setError('');
+  };
+
+  const handleClose = () => {
+    resetForm();
+    props.onClose();
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+        onClick={(e) => {
+          if (e.target === e.currentTarget) handleClose();
+        }}
+      >
+        <div class="w-full max-w-md rounded-xl border border-border-default bg-bg-surface shadow-xl">
+          {/* Header */}
+          <div class="border-b border-border-default px-6 py-4">
+            <h2 class="text-lg font-semibold text-text-primary">
+              Assemble Kits
+            </h2>
+            <p class="mt-0.5 text-sm text-text-secondary">
+              Build <span class="font-medium">{props.item.name}</span> from its
+              components
+            </p>
+          </div>
+
+          {/* Body */}
+          <div class="space-y-4 px-6 py-5">
+            <Show
+              when={location()}
+              fallback={
+                <p class="text-sm text-text-secondary">
+                  There isn't enough component stock at any storehouse to
+                  assemble a kit.
+                </p>
+              }
+            >
+              {(target) => (
+                <>
+                  <div>
+                    <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                      Storehouse
+                    </label>
+                    <select
+                      value={target().storeHouse.id}
+                      onChange={(e) => {
+                        setStoreHouse(e.currentTarget.value);
+                        setQuantity(1);
+                      }}
+                      class={FIELD_CLASS}
+                    >
+                      <For each={locations()}>
+                        {(l) => (
+                          <option value={l.storeHouse.id}>
+                            {l.storeHouse.name} — up to {l.buildable}{' '}
+                            {props.item.unit}
+                          </option>
+                        )}
+                      </For>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                      Kits to Assemble
+                    </label>
+                    <div class="flex items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        max={maxQty()}
+                        value={quantity()}
+                        onInput={(e) =>
+                          setQuantity(parseInt(e.currentTarget.value) || 0)
+                        }
+                        class={FIELD_CLASS}
+                      />
+                      <span class="whitespace-nowrap text-sm text-text-muted">
+                        / {maxQty()} {props.item.unit}
+                      </span>
+                    </div>
+                  </div>
+
+                  {/* Components used */}
+                  <div class="divide-y divide-border-default rounded-lg border border-border-default">
+                    <For each={props.item.components}>
+                      {(component) => (
+                        <div class="flex justify-between px-3 py-2 text-sm">
+                          <span class="text-text-primary">
+                            {component.item.name}
+                          </span>
+                          <span class="text-text-secondary">
+                            −{component.quantity * Math.max(quantity(), 0)}{' '}
+                            {component.item.unit}
+                          </span>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+
+                  <div>
+                    <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                      Note <span class="text-text-muted">(optional)</span>
+                    </label>
+                    <textarea
+                      value={notes()}
+                      onInput={(e) => setNotes(e.currentTarget.value)}
+                      rows={2}
+                      class={`${FIELD_CLASS} resize-none`}
+                    />
+                  </div>
+                </>
+              )}
+            </Show>
+
+            <Show when={error()}>
+              <p class="text-sm text-status-danger-text">{error()}</p>
+            </Show>
+          </div>
+
+          {/* Footer */}
+          <div class="flex justify-end gap-3 border-t border-border-default px-6 py-4">
+            <Button variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSubmit}
+              disabled={isSubmitting() || !location()}
+            >
+              {isSubmitting() ? 'Assembling...' : 'Assemble'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -1,14 +1,17 @@
 /**
  * BarcodeLabel – renders a single printable label for an item.
  *
- * Displays business name (+ logo placeholder), QR/barcode,
- * item name, unit, storehouse, and truncated ID.
+ * Displays business name (+ logo placeholder), QR/barcode with an
+ * optional item photo, item name, unit, storehouse, lot, and the
+ * (truncated) encoded code.
  */
 import { createSignal, createEffect, Show, type Component } from 'solid-js';
 import {
   generateQRDataURL,
   generateBarcodeDataURL,
+  resolveLabelCode,
   truncateId,
+  type CodeSource,
   type CodeType,
 } from '@/shared/lib/barcode-utils';
 
@@ -21,28 +24,45 @@ export interface BarcodeLabelProps {
   unit: string;
   /** Storehouse / location name */
   storehouse?: string;
-  /** Which code to render */
+  /** Lot line, e.g. "Lot L01-A · exp 2026-11-02" */
+  lot?: string;
+  sku?: string;
+  /** GTIN/EAN/UPC codes */
+  barcodes?: string[];
+  /** Symbology to render */
   codeType: CodeType;
+  /** Which of the item's codes to encode. Default 'id' */
+  codeSource?: CodeSource;
   /** Label size variant */
   size?: 'sm' | 'md' | 'lg';
+  /** Item photo shown beside the code */
+  imageUrl?: string;
 }
 
 export const BarcodeLabel: Component<BarcodeLabelProps> = (props) => {
   const [dataURL, setDataURL] = createSignal<string>('');
 
+  const code = () =>
+    resolveLabelCode(
+      { id: props.itemId, sku: props.sku, barcodes: props.barcodes },
+      props.codeSource ?? 'id',
+      props.codeType
+    );
+
   createEffect(async () => {
-    const id = props.itemId;
-    if (!id) return;
+    if (!props.itemId) return;
+    const { value, symbology } = code();
 
-    if (props.codeType === 'qr') {
+    if (symbology === 'qr') {
       const qrSize =
         props.size === 'sm' ? 120 : props.size === 'lg' ? 240 : 160;
-      const url = await generateQRDataURL(id, { size: qrSize, margin: 1 });
+      const url = await generateQRDataURL(value, { size: qrSize, margin: 1 });
       setDataURL(url);
     } else {
       const barHeight =
         props.size === 'sm' ? 40 : props.size === 'lg' ? 80 : 60;
-      const url = generateBarcodeDataURL(id, {
+      const url = generateBarcodeDataURL(value, {
+        format: symbology,
         height: barHeight,
         displayValue: true,
         fontSize: props.size === 'sm' ? 10 : 14,
@@ -87,17 +107,30 @@ export const BarcodeLabel: Component<BarcodeLabelProps> = (props) => {
         {props.itemName}
       </p>
 
-      {/* Code image */}
-      <Show when={dataURL()}>
-        <img
-          src={dataURL()}
-          alt={`${props.codeType === 'qr' ? 'QR Code' : 'Barcode'} for ${props.itemName}`}
-          class={
-            props.codeType === 'qr' ? 'aspect-square' : 'w-full max-w-[220px]'
-          }
-          style={{ 'image-rendering': 'pixelated' }}
-        />
-      </Show>
+      {/* Code image, with the item photo beside it */}
+      <div class="flex w-full items-center justify-center gap-1">
+        <Show when={props.imageUrl}>
+          <img
+            src={props.imageUrl}
+            alt=""
+            class={`aspect-square object-cover ${
+              props.codeType === 'qr' ? 'w-1/2' : 'w-1/4'
+            }`}
+          />
+        </Show>
+        <Show when={dataURL()}>
+          <img
+            src={dataURL()}
+            alt={`${props.codeType === 'qr' ? 'QR Code' : 'Barcode'} for ${props.itemName}`}
+            class={
+              props.codeType === 'qr'
+                ? `aspect-square ${props.imageUrl ? 'w-1/2' : ''}`
+                : 'w-full min-w-0 max-w-[220px]'
+            }
+            style={{ 'image-rendering': 'pixelated' }}
+          />
+        </Show>
+      </div>
 
       {/* Meta row: unit + storehouse */}
       <div
@@ -112,12 +145,20 @@ export const BarcodeLabel: Component<BarcodeLabelProps> = (props) => {
         </Show>
       </div>
 
-      {/* ID (tiny, for reference – truncated) */}
+      <Show when={props.lot}>
+        <p
+          class={`max-w-full truncate text-text-secondary ${textClasses().meta}`}
+        >
+          {props.lot}
+        </p>
+      </Show>
+
+      {/* Encoded code (tiny, for reference – truncated) */}
       <p
         class={`max-w-full truncate font-mono text-gray-400 ${textClasses().id}`}
-        title={props.itemId}
+        title={code().value}
       >
-        {truncateId(props.itemId)}
+        {truncateId(code().value, 14)}
       </p>
     </div>
   );
@@ -0,0 +1,104 @@
+/**
+ * BarcodeListInput – edits the GTIN/EAN/UPC codes of an item.
+ *
+ * Codes are typed in one at a time, or scanned while the form is open,
+ * and rejected unless the check digit is right.
+ */
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { getGtinType } from '@/shared/lib/product-codes';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+
+interface BarcodeListInputProps {
+  value: string[];
+  onChange: (barcodes: string[]) => void;
+  disabled?: boolean;
+}
+
+export const BarcodeListInput: Component<BarcodeListInputProps> = (props) => {
+  const [draft, setDraft] = createSignal('');
+  const [error, setError] = createSignal<string | null>(null);
+
+  const add = () => {
+    const code = draft().replace(/\s/g, '');
+    if (!code) return;
+    if (!getGtinType(code)) {
+      setError(
+        'Not a valid EAN-8, UPC-A, EAN-13 or GTIN-14 code. Check the last digit.'
+      );
+      return;
+    }
+    if (!props.value.includes(code)) props.onChange([...props.value, code]);
+    setDraft('');
+    setError(null);
+  };
+
+  // Scanned GTINs go straight into the list; other codes pass through
+  useScanHandler((code) => {
+    if (props.disabled || !getGtinType(code)) return false;
+    if (!props.value.includes(code)) props.onChange([...props.value, code]);
+    return true;
+  });
+
+  const remove = (code: string) =>
+    props.onChange(props.value.filter((barcode) => barcode !== code));
+
+  return (
+    <div>
+      <Show when={props.value.length > 0}>
+        <div class="mb-2 flex flex-wrap gap-2">
+          <For each={props.value}>
+            {(code) => (
+              <span class="bg-bg-subtle inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs text-text-primary">
+                <span class="font-mono">{code}</span>
+                <span class="text-text-muted">{getGtinType(code)}</span>
+                <Show when={!props.disabled}>
+                  <button
+                    type="button"
+                    onClick={() => remove(code)}
+                    class="text-text-muted hover:text-status-danger-text"
+                    aria-label={`Remove ${code}`}
+                  >
+                    ×
+                  </button>
+                </Show>
+              </span>
+            )}
+          </For>
+        </div>
+      </Show>
+
+      <Show when={!props.disabled}>
+        <div class="flex gap-2">
+          <input
+            type="text"
+            inputMode="numeric"
+            value={draft()}
+            onInput={(e) => {
+              setDraft(e.currentTarget.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                add();
+              }
+            }}
+            placeholder="EAN / UPC / GTIN"
+            class="placeholder-text-tertiary block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 font-mono text-sm text-text-primary focus:border-accent-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+          />
+          <button
+            type="button"
+            onClick={add}
+            disabled={!draft().trim()}
+            class="hover:bg-bg-subtle rounded-lg border border-border-default px-3 py-2 text-sm font-medium text-text-primary disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        <Show when={error()}>
+          <p class="mt-1 text-xs text-status-danger-text">{error()}</p>
+        </Show>
+      </Show>
+    </div>
+  );
+};
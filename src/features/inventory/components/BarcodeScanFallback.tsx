@@ -0,0 +1,101 @@
+/**
+ * BarcodeScanFallback – what a scan does when nothing on screen claims it.
+ *
+ * Known codes open the item on the inventory page, and serial numbers
+ * open their unit's history. Unknown codes show a prompt offering to
+ * create an item with that code (as its barcode, or as its SKU when it
+ * isn't a GTIN). Mounted once by the main layout, so it sits at the
+ * bottom of the scan handler stack.
+ */
+import { createSignal, Show, type Component } from 'solid-js';
+import { useNavigate } from '@solidjs/router';
+import { Button } from '@/shared/ui/Button';
+import { createQuery } from '@/shared/lib/create-query';
+import { getStorehouses } from '@/shared/api/storehouses.api';
+import { can } from '@/shared/stores/permissions.store';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { findItemByCode, getSerialHistory } from '../api/inventory.api';
+import { AddItemModal } from './AddItemModal';
+import { SerialLookupModal } from './SerialLookupModal';
+
+export const BarcodeScanFallback: Component = () => {
+  const navigate = useNavigate();
+  const [unknownCode, setUnknownCode] = createSignal<string | null>(null);
+  const [isCreating, setIsCreating] = createSignal(false);
+  const [scannedSerial, setScannedSerial] = createSignal<string | null>(null);
+
+  const [storehouses] = createQuery(
+    () => isCreating(),
+    () => getStorehouses(),
+    { scopes: ['storehouses'] }
+  );
+
+  useScanHandler(async (code) => {
+    const item = await findItemByCode(code).catch(() => null);
+    setUnknownCode(null);
+    if (item) {
+      navigate(`/inventory?item=${item.id}`);
+      return true;
+    }
+    const unit = await getSerialHistory(code).catch(() => null);
+    if (unit) setScannedSerial(unit.serial);
+    else setUnknownCode(code);
+    return true;
+  });
+
+  const dismiss = () => {
+    setIsCreating(false);
+    setUnknownCode(null);
+  };
+
+  return (
+    <>
+      <SerialLookupModal
+        isOpen={scannedSerial() !== null}
+        serial={scannedSerial() ?? undefined}
+        onClose={() => setScannedSerial(null)}
+      />
+      <Show when={unknownCode()}>
+        {(code) => (
+          <>
+            <Show when={!isCreating()}>
+              <div class="fixed bottom-4 left-1/2 z-50 w-full max-w-md -translate-x-1/2 px-4">
+                <div class="rounded-lg border border-border-default bg-bg-surface p-4 shadow-lg">
+                  <p class="text-sm font-medium text-text-primary">
+                    Unknown barcode
+                  </p>
+                  <p class="mt-1 text-sm text-text-secondary">
+                    No item matches{' '}
+                    <span class="font-mono text-text-primary">{code()}</span>.
+                  </p>
+                  <div class="mt-3 flex justify-end gap-2">
+                    <Button size="sm" variant="ghost" onClick={dismiss}>
+                      Dismiss
+                    </Button>
+                    <Show when={can('items', 'create')}>
+                      <Button
+                        size="sm"
+                        variant="primary"
+                        onClick={() => setIsCreating(true)}
+                      >
+                        Create item with this barcode
+                      </Button>
+                    </Show>
+                  </div>
+                </div>
+              </div>
+            </Show>
+
+            <AddItemModal
+              isOpen={isCreating()}
+              onClose={dismiss}
+              onSuccess={dismiss}
+              storehouses={storehouses() ?? []}
+              barcode={code()}
+            />
+          </>
+        )}
+      </Show>
+    </>
+  );
+};
@@ -0,0 +1,740 @@
+/**
+ * BulkEditItemsModal – change, archive or delete many items at once.
+ *
+ * Changes are previewed per item (before → after), confirmed once and
+ * written item by item, so one failure doesn't stop the rest. A finished
+ * edit or archive can be undone by writing the previous values back;
+ * deletes cannot.
+ */
+import {
+  createMemo,
+  createSignal,
+  For,
+  Match,
+  Show,
+  Switch,
+  type Component,
+} from 'solid-js';
+import { Button } from '@/shared/ui/Button';
+import { Alert } from '@/shared/ui/Alert';
+import { ConfirmDialog } from '@/shared/ui/ConfirmDialog';
+import { createQuery } from '@/shared/lib/create-query';
+import { formatCurrency } from '@/shared/lib/format';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { getStorehouses } from '@/shared/api/storehouses.api';
+import { getBusiness } from '@/shared/stores/business.store';
+import { can } from '@/shared/stores/permissions.store';
+import { notificationStore } from '@/shared/stores/notification.store';
+import {
+  deleteItem,
+  getReorderSuggestions,
+  updateItem,
+} from '../api/inventory.api';
+import {
+  hasChanges,
+  planBulkEdit,
+  type BulkEdit,
+  type BulkItemFields,
+  type PriceChange,
+} from '../lib/bulk-edit';
+import type { Item } from '../types/inventory.types';
+
+interface BulkEditItemsModalProps {
+  items: Item[];
+  onClose: () => void;
+  /** Called after items were written (and again after an undo) */
+  onComplete: () => void;
+}
+
+type Action = 'edit' | 'archive' | 'delete';
+type Phase = 'form' | 'running' | 'done';
+type PriceMode = '' | PriceChange['mode'];
+
+interface Outcome {
+  item: Item;
+  error?: string;
+  /** Values to write back on undo */
+  before?: BulkItemFields;
+}
+
+const FIELD_LABELS: Record<keyof BulkItemFields, string> = {
+  unitPrice: 'Unit price',
+  sellingPrice: 'Selling price',
+  tags: 'Tags',
+  unit: 'Unit',
+  lowStockAt: 'Low stock at',
+  storeHouse: 'Home storehouse',
+  archived: 'Status',
+};
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-accent-primary focus:outline-none';
+
+export const BulkEditItemsModal: Component<BulkEditItemsModalProps> = (
+  props
+) => {
+  const [action, setAction] = createSignal<Action>(
+    can('items', 'update') ? 'edit' : 'delete'
+  );
+  const [phase, setPhase] = createSignal<Phase>('form');
+  const [isConfirmOpen, setIsConfirmOpen] = createSignal(false);
+
+  // Edit form
+  const [unitPriceMode, setUnitPriceMode] = createSignal<PriceMode>('');
+  const [unitPriceValue, setUnitPriceValue] = createSignal('');
+  const [sellingPriceMode, setSellingPriceMode] = createSignal<PriceMode>('');
+  const [sellingPriceValue, setSellingPriceValue] = createSignal('');
+  const [addTags, setAddTags] = createSignal('');
+  const [removeTags, setRemoveTags] = createSignal<Set<string>>(new Set());
+  const [unit, setUnit] = createSignal('');
+  const [lowStockAt, setLowStockAt] = createSignal('');
+  const [useSuggested, setUseSuggested] = createSignal(false);
+  const [storehouseId, setStorehouseId] = createSignal('');
+
+  // Run
+  const [progress, setProgress] = createSignal(0);
+  const [outcomes, setOutcomes] = createSignal<Outcome[]>([]);
+  const [isUndoing, setIsUndoing] = createSignal(false);
+  const [undone, setUndone] = createSignal(false);
+
+  const [storehouses] = createQuery(
+    () => true,
+    () => getStorehouses(),
+    { scopes: ['storehouses'] }
+  );
+
+  const [suggestions] = createQuery(
+    () => useSuggested(),
+    () => getReorderSuggestions(),
+    { scopes: ['analytics'] }
+  );
+
+  // Suggested reorder point of every item that has recent sales
+  const reorderPoints = () => {
+    const byItem = suggestions()?.byItem;
+    if (!useSuggested() || !byItem) return undefined;
+    return Object.fromEntries(
+      Object.values(byItem).map((s) => [s.itemId, s.reorderPoint])
+    );
+  };
+
+  const currency = () => getBusiness()?.currency;
+  const allArchived = () => props.items.every((item) => item.archived);
+
+  const existingTags = createMemo(() =>
+    Array.from(new Set(props.items.flatMap((item) => item.tags))).sort()
+  );
+
+  const priceChange = (mode: PriceMode, value: string) => {
+    const number = parseFloat(value);
+    return mode && Number.isFinite(number)
+      ? { mode, value: number }
+      : undefined;
+  };
+
+  const edit = createMemo((): BulkEdit => {
+    if (action() === 'archive') return { archived: !allArchived() };
+    if (action() === 'delete') return {};
+    const storehouse = storehouses()?.find((s) => s.id === storehouseId());
+    const threshold = parseInt(lowStockAt(), 10);
+    return {
+      unitPrice: priceChange(unitPriceMode(), unitPriceValue()),
+      sellingPrice: priceChange(sellingPriceMode(), sellingPriceValue()),
+      addTags: addTags()
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      removeTags: Array.from(removeTags()),
+      unit: unit().trim() || undefined,
+      lowStockAt:
+        !useSuggested() && Number.isInteger(threshold) && threshold >= 0
+          ? threshold
+          : undefined,
+      reorderPoints: reorderPoints(),
+      storeHouse: storehouse
+        ? { id: storehouse.id, name: storehouse.name }
+        : undefined,
+    };
+  });
+
+  const preview = createMemo(() => planBulkEdit(props.items, edit()));
+  const changing = () => preview().filter(hasChanges);
+  const withErrors = () => preview().filter((row) => row.errors.length > 0);
+
+  const targetCount = () =>
+    action() === 'delete' ? props.items.length : changing().length;
+
+  const formatValue = (
+    field: keyof BulkItemFields,
+    value: BulkItemFields[keyof BulkItemFields]
+  ): string => {
+    if (value === undefined) return '—';
+    switch (field) {
+      case 'unitPrice':
+      case 'sellingPrice':
+        return formatCurrency(value as number, currency());
+      case 'tags':
+        return (value as string[]).join(', ') || 'No tags';
+      case 'storeHouse':
+        return (value as Item['storeHouse']).name;
+      case 'archived':
+        return value ? 'Archived' : 'Active';
+      default:
+        return String(value);
+    }
+  };
+
+  const toggleRemoveTag = (tag: string) => {
+    setRemoveTags((prev) => {
+      const next = new Set(prev);
+      if (next.has(tag)) next.delete(tag);
+      else next.add(tag);
+      return next;
+    });
+  };
+
+  // ── Run ─────────────────────────────────────────────
+  const run = async () => {
+    setIsConfirmOpen(false);
+    setPhase('running');
+    setProgress(0);
+    setUndone(false);
+
+    const results: Outcome[] = [];
+    if (action() === 'delete') {
+      for (const item of props.items) {
+        try {
+          await deleteItem(item.id);
+          results.push({ item });
+        } catch (err: any) {
+          results.push({ item, error: getErrorMessage(err) });
+        }
+        setProgress(results.length);
+      }
+    } else {
+      for (const row of changing()) {
+        try {
+          await updateItem(row.item.id, row.after);
+          results.push({ item: row.item, before: row.before });
+        } catch (err: any) {
+          results.push({ item: row.item, error: getErrorMessage(err) });
+        }
+        setProgress(results.length);
+      }
+    }
+
+    setOutcomes(results);
+    setPhase('done');
+    props.onComplete();
+  };
+
+  const succeeded = () => outcomes().filter((outcome) => !outcome.error);
+  const failed = () => outcomes().filter((outcome) => outcome.error);
+
+  const undo = async () => {
+    setIsUndoing(true);
+    const failures: string[] = [];
+    for (const outcome of succeeded()) {
+      try {
+        await updateItem(outcome.item.id, outcome.before!);
+      } catch (err: any) {
+        failures.push(`${outcome.item.name}: ${getErrorMessage(err)}`);
+      }
+    }
+    setIsUndoing(false);
+    setUndone(true);
+    props.onComplete();
+
+    if (failures.length > 0) {
+      notificationStore.error(failures.join('\n'), {
+        title: `Undo failed for ${failures.length} item${failures.length === 1 ? '' : 's'}`,
+      });
+    } else {
+      notificationStore.success('Bulk change undone');
+    }
+  };
+
+  const close = () => {
+    if (phase() !== 'running' && !isUndoing()) props.onClose();
+  };
+
+  const actionLabel = () =>
+    action() === 'delete'
+      ? 'Delete'
+      : action() === 'archive'
+        ? allArchived()
+          ? 'Restore'
+          : 'Archive'
+        : 'Update';
+
+  return (
+    <div
+      class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) close();
+      }}
+    >
+      <div class="flex max-h-[90vh] w-full max-w-3xl flex-col rounded-xl border border-border-default bg-bg-surface shadow-xl">
+        {/* Header */}
+        <div class="flex items-center justify-between border-b border-border-default px-6 py-4">
+          <div>
+            <h2 class="text-lg font-semibold text-text-primary">Bulk Edit</h2>
+            <p class="mt-0.5 text-sm text-text-secondary">
+              {props.items.length} item{props.items.length === 1 ? '' : 's'}{' '}
+              selected
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={close}
+            class="rounded-lg p-1.5 text-text-muted hover:bg-bg-hover hover:text-text-primary"
+            aria-label="Close"
+          >
+            <svg
+              class="h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                stroke-width="2"
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div class="flex-1 space-y-5 overflow-y-auto px-6 py-4">
+          <Switch>
+            <Match when={phase() === 'form'}>
+              {/* Action tabs */}
+              <div class="bg-bg-subtle flex gap-1 rounded-lg p-1">
+                <For
+                  each={
+                    [
+                      ...(can('items', 'update')
+                        ? [
+                            { value: 'edit', label: 'Edit fields' },
+                            {
+                              value: 'archive',
+                              label: allArchived() ? 'Restore' : 'Archive',
+                            },
+                          ]
+                        : []),
+                      ...(can('items', 'delete')
+                        ? [{ value: 'delete', label: 'Delete' }]
+                        : []),
+                    ] as { value: Action; label: string }[]
+                  }
+                >
+                  {(tab) => (
+                    <button
+                      type="button"
+                      onClick={() => setAction(tab.value)}
+                      class={`flex-1 rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                        action() === tab.value
+                          ? 'bg-bg-surface text-text-primary shadow-sm'
+                          : 'text-text-secondary hover:text-text-primary'
+                      }`}
+                    >
+                      {tab.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+
+              <Switch>
+                <Match when={action() === 'edit'}>
+                  <p class="text-xs text-text-muted">
+                    Leave a field empty to keep each item's current value.
+                  </p>
+                  <div class="grid grid-cols-2 gap-4">
+                    <For
+                      each={[
+                        {
+                          label: 'Unit price',
+                          mode: unitPriceMode,
+                          setMode: setUnitPriceMode,
+                          value: unitPriceValue,
+                          setValue: setUnitPriceValue,
+                        },
+                        {
+                          label: 'Selling price',
+                          mode: sellingPriceMode,
+                          setMode: setSellingPriceMode,
+                          value: sellingPriceValue,
+                          setValue: setSellingPriceValue,
+                        },
+                      ]}
+                    >
+                      {(price) => (
+                        <div>
+                          <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                            {price.label}
+                          </label>
+                          <div class="flex gap-2">
+                            <select
+                              value={price.mode()}
+                              onChange={(e) =>
+                                price.setMode(
+                                  e.currentTarget.value as PriceMode
+                                )
+                              }
+                              class={INPUT_CLASS}
+                            >
+                              <option value="">No change</option>
+                              <option value="set">Set to</option>
+                              <option value="percent">Adjust by %</option>
+                              <option value="amount">Adjust by amount</option>
+                            </select>
+                            <input
+                              type="number"
+                              step="0.01"
+                              value={price.value()}
+                              onInput={(e) =>
+                                price.setValue(e.currentTarget.value)
+                              }
+                              disabled={!price.mode()}
+                              placeholder={
+                                price.mode() === 'percent'
+                                  ? 'e.g. 10 or -5'
+                                  : ''
+                              }
+                              class={INPUT_CLASS}
+                            />
+                          </div>
+                        </div>
+                      )}
+                    </For>
+
+                    <div>
+                      <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                        Unit
+                      </label>
+                      <input
+                        type="text"
+                        value={unit()}
+                        onInput={(e) => setUnit(e.currentTarget.value)}
+                        placeholder="Keep current"
+                        class={INPUT_CLASS}
+                      />
+                    </div>
+
+                    <div>
+                      <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                        Low stock at
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="1"
+                        value={lowStockAt()}
+                        onInput={(e) => setLowStockAt(e.currentTarget.value)}
+                        disabled={useSuggested()}
+                        placeholder={
+                          useSuggested() ? 'Suggested per item' : 'Keep current'
+                        }
+                        class={INPUT_CLASS}
+                      />
+                      <label class="mt-1.5 flex items-center gap-2 text-xs text-text-secondary">
+                        <input
+                          type="checkbox"
+                          checked={useSuggested()}
+                          onChange={(e) =>
+                            setUseSuggested(e.currentTarget.checked)
+                          }
+                          class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                        />
+                        Use reorder points suggested by recent sales
+                      </label>
+                      <Show when={useSuggested() && suggestions.error}>
+                        <p class="mt-1 text-xs text-status-danger-text">
+                          Couldn't load the suggestions. Please try again.
+                        </p>
+                      </Show>
+                    </div>
+
+                    <div>
+                      <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                        Home storehouse
+                      </label>
+                      <select
+                        value={storehouseId()}
+                        onChange={(e) => setStorehouseId(e.currentTarget.value)}
+                        class={INPUT_CLASS}
+                      >
+                        <option value="">Keep current</option>
+                        <For each={storehouses() ?? []}>
+                          {(storehouse) => (
+                            <option
+                              value={storehouse.id}
+                              disabled={storehouse.isLocked}
+                            >
+                              {storehouse.isLocked ? '🔒 ' : ''}
+                              {storehouse.name}
+                            </option>
+                          )}
+                        </For>
+                      </select>
+                      <p class="mt-1 text-xs text-text-muted">
+                        Where new stock is received. Stock on hand stays put;
+                        move it with a transfer.
+                      </p>
+                    </div>
+
+                    <div>
+                      <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                        Add tags
+                      </label>
+                      <input
+                        type="text"
+                        value={addTags()}
+                        onInput={(e) => setAddTags(e.currentTarget.value)}
+                        placeholder="Comma separated"
+                        class={INPUT_CLASS}
+                      />
+                    </div>
+                  </div>
+
+                  <Show when={existingTags().length > 0}>
+                    <div>
+                      <p class="mb-1.5 text-sm font-medium text-text-primary">
+                        Remove tags
+                      </p>
+                      <div class="flex flex-wrap gap-2">
+                        <For each={existingTags()}>
+                          {(tag) => (
+                            <button
+                              type="button"
+                              onClick={() => toggleRemoveTag(tag)}
+                              class={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+                                removeTags().has(tag)
+                                  ? 'border-status-danger-text bg-status-danger-bg text-status-danger-text line-through'
+                                  : 'border-border-default bg-bg-surface text-text-primary hover:bg-bg-hover'
+                              }`}
+                            >
+                              {tag}
+                            </button>
+                          )}
+                        </For>
+                      </div>
+                    </div>
+                  </Show>
+                </Match>
+
+                <Match when={action() === 'archive'}>
+                  <Alert variant="info">
+                    {allArchived()
+                      ? 'Restored items show up in the inventory list, pickers and counts again.'
+                      : 'Archived items are hidden from the inventory list, order and import pickers and stock counts. Their history is kept and they can be restored from the Archived filter.'}
+                  </Alert>
+                </Match>
+
+                <Match when={action() === 'delete'}>
+                  <Alert variant="error" title="This cannot be undone">
+                    Deleted items are removed for good. Archive them instead if
+                    you may need them again.
+                  </Alert>
+                </Match>
+              </Switch>
+
+              {/* Preview */}
+              <div>
+                <div class="mb-2 flex items-center justify-between">
+                  <p class="text-sm font-medium text-text-primary">Preview</p>
+                  <p class="text-xs text-text-secondary">
+                    <Show
+                      when={action() !== 'delete'}
+                      fallback={`${props.items.length} to delete`}
+                    >
+                      {changing().length} to change ·{' '}
+                      {preview().length -
+                        changing().length -
+                        withErrors().length}{' '}
+                      unchanged
+                      <Show when={withErrors().length > 0}>
+                        {' '}
+                        · {withErrors().length} skipped
+                      </Show>
+                    </Show>
+                  </p>
+                </div>
+                <div class="max-h-72 overflow-y-auto rounded-lg border border-border-default">
+                  <table class="w-full text-sm">
+                    <tbody class="divide-y divide-border-subtle">
+                      <For each={preview()}>
+                        {(row) => (
+                          <tr>
+                            <td class="w-1/3 px-3 py-2 align-top font-medium text-text-primary">
+                              {row.item.name}
+                              <Show when={row.item.sku}>
+                                <span class="block font-mono text-xs font-normal text-text-muted">
+                                  {row.item.sku}
+                                </span>
+                              </Show>
+                            </td>
+                            <td class="px-3 py-2 text-text-secondary">
+                              <Switch
+                                fallback={
+                                  <For
+                                    each={
+                                      Object.keys(
+                                        row.after
+                                      ) as (keyof BulkItemFields)[]
+                                    }
+                                    fallback={
+                                      <span class="text-text-muted">
+                                        No change
+                                      </span>
+                                    }
+                                  >
+                                    {(field) => (
+                                      <div>
+                                        <span class="text-text-muted">
+                                          {FIELD_LABELS[field]}:
+                                        </span>{' '}
+                                        <span class="line-through">
+                                          {formatValue(
+                                            field,
+                                            row.before[field]
+                                          )}
+                                        </span>{' '}
+                                        →{' '}
+                                        <span class="font-medium text-text-primary">
+                                          {formatValue(field, row.after[field])}
+                                        </span>
+                                      </div>
+                                    )}
+                                  </For>
+                                }
+                              >
+                                <Match when={action() === 'delete'}>
+                                  <span class="text-status-danger-text">
+                                    Will be deleted
+                                  </span>
+                                </Match>
+                                <Match when={row.errors.length > 0}>
+                                  <span class="text-status-danger-text">
+                                    Skipped: {row.errors.join('; ')}
+                                  </span>
+                                </Match>
+                              </Switch>
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </Match>
+
+            <Match when={phase() === 'running'}>
+              <div class="py-6">
+                <div class="mb-2 flex justify-between text-sm text-text-secondary">
+                  <span>Saving…</span>
+                  <span>
+                    {progress()} / {targetCount()}
+                  </span>
+                </div>
+                <div class="bg-bg-subtle h-2 overflow-hidden rounded-full">
+                  <div
+                    class="h-full bg-accent-primary transition-all"
+                    style={{
+                      width: `${targetCount() ? (progress() / targetCount()) * 100 : 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            </Match>
+
+            <Match when={phase() === 'done'}>
+              <Show when={succeeded().length > 0}>
+                <Alert variant={undone() ? 'info' : 'success'}>
+                  {undone()
+                    ? `Changes to ${succeeded().length} item${succeeded().length === 1 ? '' : 's'} were undone.`
+                    : `${actionLabel() === 'Update' ? 'Updated' : `${actionLabel()}d`} ${succeeded().length} item${succeeded().length === 1 ? '' : 's'}.`}
+                </Alert>
+              </Show>
+              <Show when={failed().length > 0}>
+                <Alert
+                  variant="error"
+                  title={`${failed().length} item${failed().length === 1 ? '' : 's'} failed`}
+                >
+                  <ul class="mt-1 space-y-1">
+                    <For each={failed()}>
+                      {(outcome) => (
+                        <li>
+                          <span class="font-medium">{outcome.item.name}:</span>{' '}
+                          {outcome.error}
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                </Alert>
+              </Show>
+            </Match>
+          </Switch>
+        </div>
+
+        {/* Footer */}
+        <div class="flex justify-end gap-3 border-t border-border-default px-6 py-4">
+          <Switch>
+            <Match when={phase() === 'form'}>
+              <Button variant="outline" onClick={close}>
+                Cancel
+              </Button>
+              <Button
+                variant={action() === 'delete' ? 'danger' : 'primary'}
+                onClick={() => setIsConfirmOpen(true)}
+                disabled={targetCount() === 0}
+              >
+                {actionLabel()} {targetCount()} item
+                {targetCount() === 1 ? '' : 's'}
+              </Button>
+            </Match>
+            <Match when={phase() === 'done'}>
+              <Show
+                when={
+                  action() !== 'delete' && succeeded().length > 0 && !undone()
+                }
+              >
+                <Button
+                  variant="outline"
+                  onClick={() => void undo()}
+                  disabled={isUndoing()}
+                >
+                  {isUndoing() ? 'Undoing…' : 'Undo'}
+                </Button>
+              </Show>
+              <Button variant="primary" onClick={close} disabled={isUndoing()}>
+                Done
+              </Button>
+            </Match>
+          </Switch>
+        </div>
+      </div>
+
+      <ConfirmDialog
+        isOpen={isConfirmOpen()}
+        title={`${actionLabel()} ${targetCount()} item${targetCount() === 1 ? '' : 's'}?`}
+        confirmLabel={actionLabel()}
+        danger={action() === 'delete'}
+        onConfirm={() => void run()}
+        onCancel={() => setIsConfirmOpen(false)}
+      >
+        <p class="text-sm text-text-secondary">
+          <Show
+            when={action() === 'delete'}
+            fallback="Each item is saved on its own; you can undo the whole batch afterwards."
+          >
+            The selected items and their details are deleted permanently.
+          </Show>
+        </p>
+      </ConfirmDialog>
+    </div>
+  );
+};
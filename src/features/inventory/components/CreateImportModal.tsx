@@ -1,6 +1,7 @@
 import {
   createSignal,
   createResource,
+  createEffect,
   Show,
   For,
   type Component,
@@ -9,10 +10,20 @@ import { Button } from '@/shared/ui/Button';
 import type { Item } from '../types/inventory.types';
 import { createImport } from '@/shared/api/imports.api';
 import { getSuppliers } from '@/shared/api/partners.api';
+import { getStorehouses } from '@/shared/api/storehouses.api';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
 import { getBusiness } from '@/shared/stores/business.store';
 import { formatCurrency as sharedFormatCurrency } from '@/shared/lib/format';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { itemMatchesCode } from '../lib/item-codes';
+import {
+  findPackUnit,
+  formatConversion,
+  getUnitOptions,
+  toBaseUnits,
+} from '../lib/units';
 
 interface CreateImportModalProps {
   item: Item;
@@ -24,15 +35,38 @@ interface CreateImportModalProps {
 export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
   // Form fields
   const [supplierId, setSupplierId] = createSignal('');
+  const [storeHouse, setStoreHouse] = createSignal(props.item.storeHouse.id);
   const [quantity, setQuantity] = createSignal('');
   const [unitPrice, setUnitPrice] = createSignal('');
+  // Pack unit quantity and price are entered in, empty for the base unit
+  const [unit, setUnit] = createSignal('');
+  const [lotNumber, setLotNumber] = createSignal('');
+  const [expiresAt, setExpiresAt] = createSignal('');
 
   // Loading and error states
   const [isLoading, setIsLoading] = createSignal(false);
+  const importSubmission = createSubmissionKey();
   const [error, setError] = createSignal<string | null>(null);
 
   // Resources
   const [suppliers] = createResource(() => getSuppliers());
+  const [storehouses] = createResource(() => getStorehouses());
+
+  // Scanning the item adds one unit; other items can't join this import
+  createEffect(() => {
+    if (!props.isOpen) return;
+    useScanHandler((code) => {
+      if (itemMatchesCode(props.item, code)) {
+        setQuantity(String((parseFloat(quantity()) || 0) + 1));
+      } else {
+        notificationStore.warning(`This import is for ${props.item.name} only`);
+      }
+      return true;
+    });
+  });
+
+  const packUnit = () => findPackUnit(props.item, unit());
+  const unitName = () => packUnit()?.unit ?? props.item.unit;
 
   // Calculated total
   const calculateTotal = () => {
@@ -59,6 +93,11 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
       return;
     }
 
+    if (expiresAt() && !lotNumber().trim()) {
+      setError('Enter the lot number the expiry date belongs to');
+      return;
+    }
+
     setIsLoading(true);
 
     try {
@@ -68,14 +107,22 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
         items: [
           {
             itemId: props.item.id,
-            quantity: parsedQuantity,
-            unitPrice: parsedUnitPrice,
+            storeHouse: storeHouse(),
+            packUnit: packUnit(),
+            ...toBaseUnits(
+              parsedQuantity,
+              parsedUnitPrice,
+              packUnit()?.factor ?? 1
+            ),
+            lotNumber: lotNumber().trim() || undefined,
+            expiresAt: expiresAt() || undefined,
           },
         ],
         status: 'pending' as const,
       };
 
-      await createImport(importData);
+      await createImport(importData, importSubmission.keyFor(importData));
+      importSubmission.reset();
 
       notificationStore.success(`Import created for ${props.item.name}`, {
         title: 'Import created',
@@ -84,8 +131,12 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
 
       // Reset form
       setSupplierId('');
+      setStoreHouse(props.item.storeHouse.id);
       setQuantity('');
       setUnitPrice('');
+      setUnit('');
+      setLotNumber('');
+      setExpiresAt('');
 
       props.onSuccess();
     } catch (err: any) {
@@ -99,8 +150,12 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
   const handleCancel = () => {
     // Reset form
     setSupplierId('');
+    setStoreHouse(props.item.storeHouse.id);
     setQuantity('');
     setUnitPrice('');
+    setUnit('');
+    setLotNumber('');
+    setExpiresAt('');
     setError(null);
     props.onClose();
   };
@@ -214,32 +269,97 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
                 </p>
               </div>
 
+              {/* Destination */}
+              <div>
+                <label class="block text-sm font-medium text-text-secondary">
+                  Receive into
+                </label>
+                <select
+                  value={storeHouse()}
+                  onChange={(e) => setStoreHouse(e.currentTarget.value)}
+                  class="mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                >
+                  <For
+                    each={
+                      storehouses() ?? [
+                        { ...props.item.storeHouse, isLocked: false },
+                      ]
+                    }
+                  >
+                    {(storehouse) => (
+                      <option
+                        value={storehouse.id}
+                        disabled={storehouse.isLocked}
+                      >
+                        {storehouse.isLocked ? '🔒 ' : ''}
+                        {storehouse.name}
+                        {storehouse.id === props.item.storeHouse.id
+                          ? ' (home)'
+                          : ''}
+                      </option>
+                    )}
+                  </For>
+                </select>
+              </div>
+
               {/* Quantity */}
               <div>
                 <label class="block text-sm font-medium text-text-secondary">
                   Quantity <span class="text-status-danger-text">*</span>
                 </label>
-                <div class="relative mt-1">
-                  <input
-                    type="number"
-                    step="0.01"
-                    min="0.01"
-                    value={quantity()}
-                    onInput={(e) => setQuantity(e.currentTarget.value)}
-                    class="block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
-                    placeholder="0"
-                    required
-                  />
-                  <div class="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
-                    <span class="text-sm text-text-muted">
-                      {props.item.unit}
-                    </span>
+                <div class="mt-1 flex gap-2">
+                  <div class="relative flex-1">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={quantity()}
+                      onInput={(e) => setQuantity(e.currentTarget.value)}
+                      class="block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                      placeholder="0"
+                      required
+                    />
+                    <Show when={!props.item.packUnits?.length}>
+                      <div class="pointer-events-none absolute inset-y-0 right-0 flex items-center pr-3">
+                        <span class="text-sm text-text-muted">
+                          {props.item.unit}
+                        </span>
+                      </div>
+                    </Show>
                   </div>
+                  <Show when={props.item.packUnits?.length}>
+                    <select
+                      value={unit()}
+                      onChange={(e) => setUnit(e.currentTarget.value)}
+                      aria-label="Unit"
+                      class="rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                    >
+                      <For each={getUnitOptions(props.item)}>
+                        {(option) => (
+                          <option
+                            value={option.factor === 1 ? '' : option.unit}
+                          >
+                            {option.unit}
+                          </option>
+                        )}
+                      </For>
+                    </select>
+                  </Show>
                 </div>
                 <Show when={quantity() && !isNaN(parseFloat(quantity()))}>
                   <p class="mt-1 text-xs text-text-muted">
+                    <Show when={packUnit()}>
+                      {(pack) => (
+                        <>
+                          {parseFloat(quantity()) * pack().factor}{' '}
+                          {props.item.unit} (
+                          {formatConversion(pack(), props.item.unit)}).{' '}
+                        </>
+                      )}
+                    </Show>
                     New stock will be:{' '}
-                    {props.item.quantity + parseFloat(quantity())}{' '}
+                    {props.item.quantity +
+                      parseFloat(quantity()) * (packUnit()?.factor ?? 1)}{' '}
                     {props.item.unit}
                   </p>
                 </Show>
@@ -261,10 +381,37 @@ export const CreateImportModal: Component<CreateImportModalProps> = (props) => {
                   required
                 />
                 <p class="mt-1 text-xs text-text-muted">
-                  Price per {props.item.unit} from supplier
+                  Price per {unitName()} from supplier
                 </p>
               </div>
 
+              {/* Lot */}
+              <div class="grid grid-cols-2 gap-4">
+                <div>
+                  <label class="block text-sm font-medium text-text-secondary">
+                    Lot Number
+                  </label>
+                  <input
+                    type="text"
+                    value={lotNumber()}
+                    onInput={(e) => setLotNumber(e.currentTarget.value)}
+                    class="mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                    placeholder="Optional"
+                  />
+                </div>
+                <div>
+                  <label class="block text-sm font-medium text-text-secondary">
+                    Expiry Date
+                  </label>
+                  <input
+                    type="date"
+                    value={expiresAt()}
+                    onInput={(e) => setExpiresAt(e.currentTarget.value)}
+                    class="mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                  />
+                </div>
+              </div>
+
               {/* Total Price (calculated) */}
               <Show when={quantity() && unitPrice()}>
                 <div class="rounded-lg border border-border-default bg-bg-surface-subtle p-4">
@@ -0,0 +1,762 @@
+/**
+ * ImportItemsModal – bulk item import wizard.
+ *
+ * Upload a CSV or XLSX file, map its columns to item fields, review the
+ * dry run row by row (errors, duplicates, create vs update), then import
+ * in batches with progress. Rows that fail, in the dry run or on the
+ * server, can be downloaded as an error report.
+ */
+import {
+  createMemo,
+  createSignal,
+  For,
+  Match,
+  Show,
+  Switch,
+  type Component,
+} from 'solid-js';
+import { Button } from '@/shared/ui/Button';
+import { Alert } from '@/shared/ui/Alert';
+import { createQuery } from '@/shared/lib/create-query';
+import { downloadCsv, parseCsv, toCsv } from '@/shared/lib/csv';
+import { readXlsxRows } from '@/shared/lib/xlsx';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { getStorehouses } from '@/shared/api/storehouses.api';
+import {
+  fetchSubscription,
+  subscriptionStore,
+} from '@/features/billing/store/subscription.store';
+import { getAllInventoryItems, importItems } from '../api/inventory.api';
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  planItemImport,
+  toImportRows,
+  type ColumnMapping,
+  type ExistingItemMode,
+  type ImportAction,
+  type ImportField,
+  type ImportPlanRow,
+} from '../lib/item-import';
+
+interface ImportItemsModalProps {
+  onClose: () => void;
+  /** Called once an import has run (even partly) */
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'review' | 'import';
+
+/** Rows per request; the endpoint takes at most 100 */
+const BATCH_SIZE = 50;
+/** Review table rows rendered at once */
+const PREVIEW_LIMIT = 200;
+
+const ACTION_BADGES: Record<ImportAction, { label: string; class: string }> = {
+  create: {
+    label: 'Create',
+    class: 'bg-status-success-bg text-status-success-text',
+  },
+  update: { label: 'Update', class: 'bg-status-info-bg text-status-info-text' },
+  skip: { label: 'Skip', class: 'bg-bg-subtle text-text-secondary' },
+  error: {
+    label: 'Error',
+    class: 'bg-status-danger-bg text-status-danger-text',
+  },
+};
+
+interface ReportRow {
+  row: number;
+  error: string;
+  cells: string[];
+}
+
+export const ImportItemsModal: Component<ImportItemsModalProps> = (props) => {
+  const [step, setStep] = createSignal<Step>('upload');
+  const [fileName, setFileName] = createSignal('');
+  const [headers, setHeaders] = createSignal<string[]>([]);
+  const [rows, setRows] = createSignal<string[][]>([]);
+  const [mapping, setMapping] = createSignal<ColumnMapping>({});
+  const [defaultStorehouseId, setDefaultStorehouseId] = createSignal('');
+  const [mode, setMode] = createSignal<ExistingItemMode>('skip');
+  const [errorsOnly, setErrorsOnly] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  const [isReading, setIsReading] = createSignal(false);
+
+  // Import run
+  const [runPlan, setRunPlan] = createSignal<ImportPlanRow[]>([]);
+  const [progress, setProgress] = createSignal({ done: 0, total: 0 });
+  const [counts, setCounts] = createSignal({ created: 0, updated: 0 });
+  const [failures, setFailures] = createSignal<ReportRow[]>([]);
+  const [isRunning, setIsRunning] = createSignal(false);
+  const [stopRequested, setStopRequested] = createSignal(false);
+
+  const [storehouses] = createQuery(
+    () => true,
+    () => getStorehouses(),
+    { scopes: ['storehouses'] }
+  );
+  // Frozen once the import starts: the items it creates would otherwise
+  // turn its own rows into duplicates
+  const [existingItems] = createQuery(
+    () => step() === 'map' || step() === 'review',
+    () => getAllInventoryItems(),
+    { scopes: ['items'] }
+  );
+
+  // ── Upload ──────────────────────────────────────────
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setIsReading(true);
+    try {
+      const parsed = /\.xlsx$/i.test(file.name)
+        ? await readXlsxRows(await file.arrayBuffer())
+        : parseCsv(await file.text());
+      if (parsed.length < 2) {
+        throw new Error('The file needs a header row and at least one item.');
+      }
+      const [headerRow, ...dataRows] = parsed;
+      setFileName(file.name);
+      setHeaders(headerRow!.map((header) => header.trim()));
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow!));
+      setStep('map');
+    } catch (err: any) {
+      setError(err?.message || 'Could not read the file.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadCsv(
+      'item-import-template',
+      toCsv<null>(
+        [],
+        IMPORT_FIELDS.map(({ label }) => ({ header: label, value: () => '' }))
+      )
+    );
+  };
+
+  // ── Mapping ─────────────────────────────────────────
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === '') delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  };
+
+  const sampleValue = (column: number) =>
+    rows().find((row) => (row[column] ?? '').trim())?.[column] ?? '';
+
+  const canReview = () =>
+    (mapping().name !== undefined || mapping().sku !== undefined) &&
+    (mapping().storehouse !== undefined || !!defaultStorehouseId());
+
+  const goToReview = () => {
+    void fetchSubscription(true);
+    setStep('review');
+  };
+
+  // ── Dry run ─────────────────────────────────────────
+  const plan = createMemo(() =>
+    step() === 'review' && existingItems()
+      ? planItemImport(rows(), mapping(), {
+          items: existingItems() ?? [],
+          storehouses: storehouses() ?? [],
+          defaultStorehouseId: defaultStorehouseId() || undefined,
+          mode: mode(),
+        })
+      : []
+  );
+
+  const countOf = (action: ImportAction) =>
+    plan().filter((row) => row.action === action).length;
+
+  const visibleRows = () =>
+    (errorsOnly()
+      ? plan().filter((row) => row.action === 'error')
+      : plan()
+    ).slice(0, PREVIEW_LIMIT);
+
+  const itemLimit = () => subscriptionStore.usage()?.limits.items;
+  const remainingItems = () => {
+    const entry = itemLimit();
+    if (!entry || entry.limit === -1) return Infinity;
+    return Math.max(0, entry.limit - entry.current);
+  };
+  const exceedsLimit = () => countOf('create') > remainingItems();
+
+  const storehouseName = (id?: string) =>
+    storehouses()?.find((s) => s.id === id)?.name ?? '—';
+
+  // ── Import ──────────────────────────────────────────
+  const runImport = async () => {
+    const frozen = plan();
+    const requests = toImportRows(frozen);
+    setRunPlan(frozen);
+    setProgress({ done: 0, total: requests.length });
+    setCounts({ created: 0, updated: 0 });
+    setFailures([]);
+    setStopRequested(false);
+    setIsRunning(true);
+    setStep('import');
+
+    const cellsOf = new Map(frozen.map((row) => [row.row, row.cells]));
+    try {
+      for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+        if (stopRequested()) break;
+        const batch = requests.slice(i, i + BATCH_SIZE);
+        try {
+          const result = await importItems(batch);
+          setCounts((c) => ({
+            created: c.created + result.created,
+            updated: c.updated + result.updated,
+          }));
+          setFailures((list) => [
+            ...list,
+            ...result.failed.map((failure) => ({
+              row: failure.row,
+              error: getErrorMessage({ code: failure.rcode }),
+              cells: cellsOf.get(failure.row) ?? [],
+            })),
+          ]);
+        } catch (err: any) {
+          // The whole batch was rejected (network, auth, ...)
+          const message = getErrorMessage(err);
+          setFailures((list) => [
+            ...list,
+            ...batch.map((request) => ({
+              row: request.row,
+              error: message,
+              cells: cellsOf.get(request.row) ?? [],
+            })),
+          ]);
+        }
+        setProgress((p) => ({ ...p, done: p.done + batch.length }));
+      }
+    } finally {
+      setIsRunning(false);
+      void fetchSubscription(true);
+      props.onImported();
+    }
+  };
+
+  const reportRows = (): ReportRow[] => {
+    const source = step() === 'import' ? runPlan() : plan();
+    return [
+      ...source
+        .filter((row) => row.action === 'error')
+        .map((row) => ({
+          row: row.row,
+          error: row.errors.join('; '),
+          cells: row.cells,
+        })),
+      ...failures(),
+    ].sort((a, b) => a.row - b.row);
+  };
+
+  const downloadErrorReport = () => {
+    const base = fileName().replace(/\.(csv|xlsx)$/i, '');
+    downloadCsv(
+      `${base}-errors`,
+      toCsv(reportRows(), [
+        { header: 'Row', value: (r) => r.row },
+        { header: 'Error', value: (r) => r.error },
+        ...headers().map((header, column) => ({
+          header,
+          value: (r: ReportRow) => r.cells[column],
+        })),
+      ])
+    );
+  };
+
+  const close = () => {
+    if (!isRunning()) props.onClose();
+  };
+
+  const selectClass =
+    'w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-accent-primary focus:outline-none';
+
+  return (
+    <div
+      class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) close();
+      }}
+    >
+      <div class="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-xl border border-border-default bg-bg-surface shadow-xl">
+        {/* Header */}
+        <div class="flex items-center justify-between border-b border-border-default px-6 py-4">
+          <div>
+            <h2 class="text-lg font-semibold text-text-primary">
+              Import Items
+            </h2>
+            <p class="mt-0.5 text-sm text-text-secondary">
+              <Switch>
+                <Match when={step() === 'upload'}>
+                  Step 1 of 4 · Upload a CSV or XLSX file
+                </Match>
+                <Match when={step() === 'map'}>
+                  Step 2 of 4 · Map columns · {fileName()}
+                </Match>
+                <Match when={step() === 'review'}>
+                  Step 3 of 4 · Review · {rows().length} rows
+                </Match>
+                <Match when={step() === 'import'}>Step 4 of 4 · Import</Match>
+              </Switch>
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={close}
+            disabled={isRunning()}
+            class="rounded-lg p-1.5 text-text-muted hover:bg-bg-hover hover:text-text-primary disabled:opacity-50"
+            aria-label="Close"
+          >
+            <svg
+              class="h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                stroke-width="2"
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {/* Body */}
+        <div class="flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          <Show when={error()}>
+            <Alert variant="error">{error()}</Alert>
+          </Show>
+
+          <Switch>
+            {/* ── Step 1: upload ── */}
+            <Match when={step() === 'upload'}>
+              <label class="flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed border-border-default px-6 py-12 text-center hover:bg-bg-hover">
+                <svg
+                  class="h-10 w-10 text-text-muted"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                    stroke-width="2"
+                    d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+                  />
+                </svg>
+                <span class="mt-3 text-sm font-medium text-text-primary">
+                  {isReading() ? 'Reading file…' : 'Choose a CSV or XLSX file'}
+                </span>
+                <span class="mt-1 text-xs text-text-muted">
+                  The first row must hold the column names. Only the first sheet
+                  of a workbook is read.
+                </span>
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  class="hidden"
+                  disabled={isReading()}
+                  onChange={(e) => {
+                    void handleFile(e.currentTarget.files?.[0]);
+                    e.currentTarget.value = '';
+                  }}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={downloadTemplate}
+                class="text-sm font-medium text-accent-primary hover:underline"
+              >
+                Download a CSV template
+              </button>
+            </Match>
+
+            {/* ── Step 2: column mapping ── */}
+            <Match when={step() === 'map'}>
+              <div class="overflow-hidden rounded-lg border border-border-default">
+                <table class="w-full text-sm">
+                  <thead class="bg-bg-subtle text-left text-xs uppercase text-text-secondary">
+                    <tr>
+                      <th class="px-4 py-2">Item field</th>
+                      <th class="px-4 py-2">Column in file</th>
+                      <th class="px-4 py-2">First value</th>
+                    </tr>
+                  </thead>
+                  <tbody class="divide-y divide-border-subtle">
+                    <For each={IMPORT_FIELDS}>
+                      {(field) => (
+                        <tr>
+                          <td class="px-4 py-2 font-medium text-text-primary">
+                            {field.label}
+                            <Show when={field.required}>
+                              <span class="text-status-danger-text"> *</span>
+                            </Show>
+                          </td>
+                          <td class="px-4 py-2">
+                            <select
+                              value={mapping()[field.field] ?? ''}
+                              onChange={(e) =>
+                                setFieldColumn(
+                                  field.field,
+                                  e.currentTarget.value
+                                )
+                              }
+                              class={selectClass}
+                            >
+                              <option value="">— Not imported —</option>
+                              <For each={headers()}>
+                                {(header, column) => (
+                                  <option value={column()}>
+                                    {header || `Column ${column() + 1}`}
+                                  </option>
+                                )}
+                              </For>
+                            </select>
+                          </td>
+                          <td class="max-w-[200px] truncate px-4 py-2 text-text-secondary">
+                            <Show when={mapping()[field.field] !== undefined}>
+                              {sampleValue(mapping()[field.field]!)}
+                            </Show>
+                          </td>
+                        </tr>
+                      )}
+                    </For>
+                  </tbody>
+                </table>
+              </div>
+              <p class="text-xs text-text-muted">
+                * Needed to create items. Rows that match an existing item only
+                need its name or SKU.
+              </p>
+
+              <div>
+                <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                  Storehouse for rows without one
+                </label>
+                <select
+                  value={defaultStorehouseId()}
+                  onChange={(e) =>
+                    setDefaultStorehouseId(e.currentTarget.value)
+                  }
+                  class={selectClass}
+                >
+                  <option value="">Select storehouse...</option>
+                  <For each={storehouses() ?? []}>
+                    {(storehouse) => (
+                      <option
+                        value={storehouse.id}
+                        disabled={storehouse.isLocked}
+                      >
+                        {storehouse.isLocked ? '🔒 ' : ''}
+                        {storehouse.name}
+                      </option>
+                    )}
+                  </For>
+                </select>
+              </div>
+
+              <Show when={!canReview()}>
+                <Alert variant="warning">
+                  Map the Name or SKU column, and either map the Storehouse
+                  column or pick a storehouse for rows without one.
+                </Alert>
+              </Show>
+            </Match>
+
+            {/* ── Step 3: dry run ── */}
+            <Match when={step() === 'review'}>
+              <Show
+                when={!existingItems.loading || plan().length > 0}
+                fallback={
+                  <p class="py-8 text-center text-sm text-text-muted">
+                    Checking rows against your inventory…
+                  </p>
+                }
+              >
+                <div>
+                  <p class="mb-2 text-sm font-medium text-text-primary">
+                    Rows matching an existing item
+                  </p>
+                  <div class="flex gap-4 text-sm text-text-primary">
+                    <label class="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="existing-items"
+                        checked={mode() === 'skip'}
+                        onChange={() => setMode('skip')}
+                      />
+                      Skip them
+                    </label>
+                    <label class="flex items-center gap-2">
+                      <input
+                        type="radio"
+                        name="existing-items"
+                        checked={mode() === 'update'}
+                        onChange={() => setMode('update')}
+                      />
+                      Update them with the filled-in cells
+                    </label>
+                  </div>
+                  <p class="mt-1 text-xs text-text-muted">
+                    A row matches the item with the same SKU or, without a SKU,
+                    the same name; its quantity is the stock at the row's
+                    storehouse.
+                  </p>
+                </div>
+
+                <div class="grid grid-cols-4 gap-3">
+                  <For each={['create', 'update', 'skip', 'error'] as const}>
+                    {(action) => (
+                      <div class="rounded-lg border border-border-default px-4 py-3">
+                        <p class="text-xs text-text-secondary">
+                          {ACTION_BADGES[action].label}
+                        </p>
+                        <p class="text-2xl font-semibold text-text-primary">
+                          {countOf(action)}
+                        </p>
+                      </div>
+                    )}
+                  </For>
+                </div>
+
+                <Show when={exceedsLimit()}>
+                  <Alert variant="error" title="Plan limit">
+                    Your plan allows {remainingItems()} more item
+                    {remainingItems() === 1 ? '' : 's'}, but this import would
+                    create {countOf('create')}. Upgrade your plan or remove rows
+                    from the file.
+                  </Alert>
+                </Show>
+
+                <div class="flex items-center justify-between">
+                  <label class="flex items-center gap-2 text-sm text-text-secondary">
+                    <input
+                      type="checkbox"
+                      checked={errorsOnly()}
+                      onChange={(e) => setErrorsOnly(e.currentTarget.checked)}
+                    />
+                    Only rows with errors
+                  </label>
+                  <Show when={countOf('error') > 0}>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={downloadErrorReport}
+                    >
+                      Download error report
+                    </Button>
+                  </Show>
+                </div>
+
+                <div class="overflow-x-auto rounded-lg border border-border-default">
+                  <table class="w-full text-sm">
+                    <thead class="bg-bg-subtle text-left text-xs uppercase text-text-secondary">
+                      <tr>
+                        <th class="px-3 py-2">Row</th>
+                        <th class="px-3 py-2">Item</th>
+                        <th class="px-3 py-2">Storehouse</th>
+                        <th class="px-3 py-2">Action</th>
+                        <th class="px-3 py-2">Problems</th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-border-subtle">
+                      <For each={visibleRows()}>
+                        {(row) => (
+                          <tr>
+                            <td class="px-3 py-2 text-text-muted">{row.row}</td>
+                            <td class="px-3 py-2 text-text-primary">
+                              {row.item.name ?? row.match?.name ?? '—'}
+                              <Show when={row.item.sku}>
+                                <span class="ml-1.5 font-mono text-xs text-text-muted">
+                                  {row.item.sku}
+                                </span>
+                              </Show>
+                            </td>
+                            <td class="px-3 py-2 text-text-secondary">
+                              {storehouseName(row.item.storeHouse)}
+                            </td>
+                            <td class="px-3 py-2">
+                              <span
+                                class={`rounded-full px-2 py-0.5 text-xs font-medium ${ACTION_BADGES[row.action].class}`}
+                              >
+                                {ACTION_BADGES[row.action].label}
+                              </span>
+                            </td>
+                            <td class="px-3 py-2 text-xs text-status-danger-text">
+                              {row.errors.join('; ')}
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </div>
+                <Show when={plan().length > PREVIEW_LIMIT && !errorsOnly()}>
+                  <p class="text-xs text-text-muted">
+                    Showing the first {PREVIEW_LIMIT} of {plan().length} rows.
+                  </p>
+                </Show>
+              </Show>
+            </Match>
+
+            {/* ── Step 4: import ── */}
+            <Match when={step() === 'import'}>
+              <div>
+                <div class="mb-2 flex justify-between text-sm text-text-secondary">
+                  <span>
+                    {isRunning()
+                      ? stopRequested()
+                        ? 'Stopping after this batch…'
+                        : 'Importing…'
+                      : 'Import finished'}
+                  </span>
+                  <span>
+                    {progress().done} / {progress().total} rows
+                  </span>
+                </div>
+                <div class="bg-bg-subtle h-2 overflow-hidden rounded-full">
+                  <div
+                    class="h-full bg-accent-primary transition-all"
+                    style={{
+                      width: `${progress().total ? (progress().done / progress().total) * 100 : 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div class="grid grid-cols-3 gap-3">
+                <div class="rounded-lg border border-border-default px-4 py-3">
+                  <p class="text-xs text-text-secondary">Created</p>
+                  <p class="text-2xl font-semibold text-text-primary">
+                    {counts().created}
+                  </p>
+                </div>
+                <div class="rounded-lg border border-border-default px-4 py-3">
+                  <p class="text-xs text-text-secondary">Updated</p>
+                  <p class="text-2xl font-semibold text-text-primary">
+                    {counts().updated}
+                  </p>
+                </div>
+                <div class="rounded-lg border border-border-default px-4 py-3">
+                  <p class="text-xs text-text-secondary">Failed</p>
+                  <p class="text-2xl font-semibold text-text-primary">
+                    {failures().length}
+                  </p>
+                </div>
+              </div>
+
+              <Show when={!isRunning() && reportRows().length > 0}>
+                <Alert variant="warning">
+                  {reportRows().length} row
+                  {reportRows().length === 1 ? ' was' : 's were'} not imported.
+                  Download the error report, fix the rows and import the report
+                  file again.
+                </Alert>
+              </Show>
+
+              <Show when={failures().length > 0}>
+                <ul class="max-h-48 space-y-1 overflow-y-auto text-sm">
+                  <For each={failures()}>
+                    {(failure) => (
+                      <li class="text-text-secondary">
+                        <span class="font-medium text-text-primary">
+                          Row {failure.row}:
+                        </span>{' '}
+                        {failure.error}
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </Show>
+            </Match>
+          </Switch>
+        </div>
+
+        {/* Footer */}
+        <div class="flex items-center justify-between border-t border-border-default px-6 py-4">
+          <div>
+            <Show when={step() === 'map' || step() === 'review'}>
+              <Button
+                variant="ghost"
+                onClick={() => setStep(step() === 'review' ? 'map' : 'upload')}
+              >
+                Back
+              </Button>
+            </Show>
+          </div>
+          <div class="flex gap-3">
+            <Switch>
+              <Match when={step() === 'upload'}>
+                <Button variant="outline" onClick={close}>
+                  Cancel
+                </Button>
+              </Match>
+              <Match when={step() === 'map'}>
+                <Button variant="outline" onClick={close}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={goToReview}
+                  disabled={!canReview()}
+                >
+                  Review rows
+                </Button>
+              </Match>
+              <Match when={step() === 'review'}>
+                <Button variant="outline" onClick={close}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => void runImport()}
+                  disabled={
+                    countOf('create') + countOf('update') === 0 ||
+                    exceedsLimit()
+                  }
+                >
+                  Import {countOf('create') + countOf('update')} rows
+                </Button>
+              </Match>
+              <Match when={step() === 'import'}>
+                <Show when={!isRunning() && reportRows().length > 0}>
+                  <Button variant="outline" onClick={downloadErrorReport}>
+                    Download error report
+                  </Button>
+                </Show>
+                <Show
+                  when={isRunning()}
+                  fallback={
+                    <Button variant="primary" onClick={close}>
+                      Done
+                    </Button>
+                  }
+                >
+                  <Button
+                    variant="outline"
+                    onClick={() => setStopRequested(true)}
+                    disabled={stopRequested()}
+                  >
+                    Stop
+                  </Button>
+                </Show>
+              </Match>
+            </Switch>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
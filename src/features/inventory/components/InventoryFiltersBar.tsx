@@ -65,7 +65,8 @@ export const InventoryFiltersBar: Component<InventoryFiltersBarProps> = (
       props.filters.search ||
       (props.filters.status && props.filters.status !== 'all') ||
       (props.filters.tags && props.filters.tags.length > 0) ||
-      props.filters.storeHouse
+      props.filters.storeHouse ||
+      props.filters.archived
     );
   };
 
@@ -78,7 +79,7 @@ export const InventoryFiltersBar: Component<InventoryFiltersBarProps> = (
             type="text"
             value={searchInput()}
             onInput={(e) => setSearchInput(e.currentTarget.value)}
-            placeholder="Search by name, description, or tags..."
+            placeholder="Search by name, SKU, barcode, description or tags..."
             class="focus:ring-border-focus/20 w-full rounded-lg border border-border-default bg-bg-surface px-4 py-2 pr-10 text-sm text-text-primary placeholder:text-text-muted focus:border-border-focus focus:outline-none focus:ring-2"
           />
           <svg
@@ -160,6 +161,24 @@ export const InventoryFiltersBar: Component<InventoryFiltersBarProps> = (
           </Show>
         </div>
 
+        {/* Archived items */}
+        <button
+          type="button"
+          onClick={() =>
+            props.onFiltersChange({
+              ...props.filters,
+              archived: props.filters.archived ? undefined : true,
+            })
+          }
+          class={`rounded-full border px-3 py-1 text-xs font-medium transition-colors ${
+            props.filters.archived
+              ? 'border-accent-primary bg-accent-primary-subtle text-accent-primary'
+              : 'border-border-default bg-bg-surface text-text-primary hover:bg-bg-hover'
+          }`}
+        >
+          Archived
+        </button>
+
         {/* Tag chips */}
         <div class="flex items-center gap-2">
           <span class="text-sm font-medium text-text-primary">Tags:</span>
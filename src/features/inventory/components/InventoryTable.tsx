@@ -1,13 +1,27 @@
 import { For, Show, createSignal, createMemo, type Component } from 'solid-js';
 import { Button } from '@/shared/ui/Button';
-import { StockStatusBadge } from './StockStatusBadge';
+import { ItemThumbnail } from '@/shared/ui/ItemThumbnail';
+import { StockStatusBadge, type LocationStockStatus } from './StockStatusBadge';
 import { CreateImportModal } from './CreateImportModal';
 import { ViewItemDetailsModal } from './ViewItemDetailsModal';
 import { PrintLabelsModal } from './PrintLabelsModal';
+import { BulkEditItemsModal } from './BulkEditItemsModal';
 import type { Item } from '../types/inventory.types';
 import type { LabelItem } from '@/shared/lib/barcode-utils';
-import { getStockStatus } from '../lib/mock-inventory';
+import { getItemLots } from '../lib/lots';
+import {
+  getAllStorehouses,
+  getLevelStockStatus,
+  getStockLevel,
+  getStockStatus,
+} from '../lib/inventory-stats';
 import { getBusiness } from '@/shared/stores/business.store';
+import {
+  RecentChangeBadge,
+  RECENT_CHANGE_ROW_CLASS,
+} from '@/shared/components/RecentChangeBadge';
+import { getRecentChange } from '@/shared/stores/realtime.store';
+import { can } from '@/shared/stores/permissions.store';
 import {
   formatCurrency as sharedFormatCurrency,
   formatRelativeDate,
@@ -26,6 +40,9 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
   const [isPrintModalOpen, setIsPrintModalOpen] = createSignal(false);
   const [printItems, setPrintItems] = createSignal<LabelItem[]>([]);
   const [selectedIds, setSelectedIds] = createSignal<Set<string>>(new Set());
+  const [bulkEditItems, setBulkEditItems] = createSignal<Item[] | null>(null);
+  // List: one row per item; pivot: a stock column per storehouse
+  const [view, setView] = createSignal<'list' | 'pivot'>('list');
 
   // Fetch business info for label branding
   const business = getBusiness;
@@ -40,6 +57,18 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
 
   const selectedCount = createMemo(() => selectedIds().size);
 
+  // Pivot columns: every storehouse the listed items are stocked at
+  const pivotStorehouses = createMemo(() =>
+    getAllStorehouses(props.items).sort((a, b) => a.name.localeCompare(b.name))
+  );
+
+  const locationStatuses = (item: Item): LocationStockStatus[] =>
+    item.stock.map((level) => ({
+      name: level.storeHouse.name,
+      status: getLevelStockStatus(item, level),
+      quantity: level.quantity,
+    }));
+
   const toggleSelectAll = () => {
     if (allSelected()) {
       setSelectedIds(new Set<string>());
@@ -85,10 +114,14 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
       {
         id: item.id,
         name: item.name,
+        sku: item.sku,
+        barcodes: item.barcodes,
         unit: item.unit,
         storehouse: item.storeHouse?.name,
         quantity: item.quantity,
         copies: 1,
+        lots: getItemLots(item),
+        imageUrl: item.imageUrl?.[0],
       },
     ]);
     setIsPrintModalOpen(true);
@@ -104,10 +137,14 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
         (item): LabelItem => ({
           id: item.id,
           name: item.name,
+          sku: item.sku,
+          barcodes: item.barcodes,
           unit: item.unit,
           storehouse: item.storeHouse?.name,
           quantity: item.quantity,
           copies: 1,
+          lots: getItemLots(item),
+          imageUrl: item.imageUrl?.[0],
         })
       );
     if (items.length === 0) return;
@@ -121,10 +158,14 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
       (item): LabelItem => ({
         id: item.id,
         name: item.name,
+        sku: item.sku,
+        barcodes: item.barcodes,
         unit: item.unit,
         storehouse: item.storeHouse?.name,
         quantity: item.quantity,
         copies: 1,
+        lots: getItemLots(item),
+        imageUrl: item.imageUrl?.[0],
       })
     );
     if (items.length === 0) return;
@@ -132,6 +173,13 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
     setIsPrintModalOpen(true);
   };
 
+  /** Open bulk edit with the selected items as they are now */
+  const handleBulkEdit = () => {
+    const ids = selectedIds();
+    const items = props.items.filter((item) => ids.has(item.id));
+    if (items.length > 0) setBulkEditItems(items);
+  };
+
   const handleImportComplete = () => {
     setIsImportModalOpen(false);
     setSelectedItem(null);
@@ -145,6 +193,126 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
     return formatRelativeDate(dateString, business()?.timezone);
   };
 
+  /** Products as rows, storehouses as columns */
+  const pivotTable = () => (
+    <table class="w-full divide-y divide-border-subtle">
+      <thead class="bg-bg-surface-subtle">
+        <tr>
+          <th class="px-4 py-3 text-left">
+            <input
+              type="checkbox"
+              checked={allSelected()}
+              onChange={toggleSelectAll}
+              class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+            />
+          </th>
+          <th
+            scope="col"
+            class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+          >
+            Item
+          </th>
+          <For each={pivotStorehouses()}>
+            {(storehouse) => (
+              <th
+                scope="col"
+                class="px-4 py-3 text-right text-xs font-medium uppercase tracking-wider text-text-secondary"
+              >
+                {storehouse.name}
+              </th>
+            )}
+          </For>
+          <th
+            scope="col"
+            class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+          >
+            Total
+          </th>
+        </tr>
+      </thead>
+      <tbody class="divide-y divide-border-subtle bg-bg-surface">
+        <Show
+          when={props.items.length > 0}
+          fallback={
+            <tr>
+              <td
+                colspan={pivotStorehouses().length + 3}
+                class="px-6 py-12 text-center text-sm text-text-secondary"
+              >
+                No items found
+              </td>
+            </tr>
+          }
+        >
+          <For each={props.items}>
+            {(item) => (
+              <tr
+                class={`cursor-pointer transition-colors hover:bg-bg-hover ${
+                  selectedIds().has(item.id) ? 'bg-accent-primary/5' : ''
+                }`}
+                onClick={() => handleRowClick(item)}
+              >
+                <td
+                  class="whitespace-nowrap px-4 py-3"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds().has(item.id)}
+                    onChange={() => toggleSelectItem(item.id)}
+                    class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                  />
+                </td>
+                <td class="whitespace-nowrap px-6 py-3">
+                  <div class="flex items-center gap-3">
+                    <ItemThumbnail imageUrl={item.imageUrl} name={item.name} />
+                    <div>
+                      <div class="text-sm font-medium text-text-primary">
+                        {item.name}
+                      </div>
+                      <Show when={item.sku}>
+                        <div class="font-mono text-xs text-text-muted">
+                          {item.sku}
+                        </div>
+                      </Show>
+                    </div>
+                  </div>
+                </td>
+                <For each={pivotStorehouses()}>
+                  {(storehouse) => {
+                    const level = () => getStockLevel(item, storehouse.id);
+                    return (
+                      <td class="whitespace-nowrap px-4 py-3 text-right">
+                        <Show
+                          when={level()}
+                          fallback={<span class="text-text-muted">—</span>}
+                        >
+                          {(stock) => (
+                            <StockStatusBadge
+                              compact
+                              status={getLevelStockStatus(item, stock())}
+                              quantity={stock().quantity}
+                            />
+                          )}
+                        </Show>
+                      </td>
+                    );
+                  }}
+                </For>
+                <td class="whitespace-nowrap px-6 py-3">
+                  <StockStatusBadge
+                    status={getStockStatus(item)}
+                    quantity={item.quantity}
+                  />
+                </td>
+              </tr>
+            )}
+          </For>
+        </Show>
+      </tbody>
+    </table>
+  );
+
   return (
     <>
       {/* Selection Actions Bar */}
@@ -159,6 +327,24 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
             </Button>
           </div>
           <div class="flex items-center gap-3">
+            <Show when={can('items', 'update') || can('items', 'delete')}>
+              <Button variant="outline" size="sm" onClick={handleBulkEdit}>
+                <svg
+                  class="mr-1.5 h-4 w-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                    stroke-width={2}
+                    d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                  />
+                </svg>
+                Bulk Edit
+              </Button>
+            </Show>
             <Button variant="outline" size="sm" onClick={handlePrintAll}>
               <svg
                 class="mr-1.5 h-4 w-4"
@@ -195,194 +381,248 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
         </div>
       </Show>
 
+      {/* View toggle */}
+      <div class="mb-3 flex justify-end">
+        <div class="inline-flex rounded-lg border border-border-default bg-bg-surface p-0.5">
+          <For
+            each={
+              [
+                { value: 'list', label: 'List' },
+                { value: 'pivot', label: 'By storehouse' },
+              ] as const
+            }
+          >
+            {(option) => (
+              <button
+                type="button"
+                onClick={() => setView(option.value)}
+                class={`rounded-md px-3 py-1 text-sm font-medium transition-colors ${
+                  view() === option.value
+                    ? 'bg-accent-primary text-white'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {option.label}
+              </button>
+            )}
+          </For>
+        </div>
+      </div>
+
       <div class="overflow-hidden rounded-lg border border-border-default bg-bg-surface shadow-sm">
         <div class="overflow-x-auto">
-          <table class="w-full divide-y divide-border-subtle">
-            <thead class="bg-bg-surface-subtle">
-              <tr>
-                <th class="px-4 py-3 text-left">
-                  <input
-                    type="checkbox"
-                    checked={allSelected()}
-                    onChange={toggleSelectAll}
-                    class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
-                  />
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Item
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Category
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Stock Status
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Unit
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Cost
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
-                >
-                  Location
-                </th>
-                <th
-                  scope="col"
-                  class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+          <Show when={view() === 'list'} fallback={pivotTable()}>
+            <table class="w-full divide-y divide-border-subtle">
+              <thead class="bg-bg-surface-subtle">
+                <tr>
+                  <th class="px-4 py-3 text-left">
+                    <input
+                      type="checkbox"
+                      checked={allSelected()}
+                      onChange={toggleSelectAll}
+                      class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                    />
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Item
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Category
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Stock Status
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Unit
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Cost
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Location
+                  </th>
+                  <th
+                    scope="col"
+                    class="px-6 py-3 text-left text-xs font-medium uppercase tracking-wider text-text-secondary"
+                  >
+                    Last Updated
+                  </th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-border-subtle bg-bg-surface">
+                <Show
+                  when={props.items.length > 0}
+                  fallback={
+                    <tr>
+                      <td colspan="8" class="px-6 py-12 text-center">
+                        <div class="flex flex-col items-center gap-2">
+                          <svg
+                            class="h-12 w-12 text-text-muted"
+                            fill="none"
+                            stroke="currentColor"
+                            viewBox="0 0 24 24"
+                          >
+                            <path
+                              stroke-linecap="round"
+                              stroke-linejoin="round"
+                              stroke-width={2}
+                              d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4"
+                            />
+                          </svg>
+                          <p class="text-sm font-medium text-text-primary">
+                            No items found
+                          </p>
+                          <p class="text-sm text-text-secondary">
+                            Try adjusting your filters or search query
+                          </p>
+                        </div>
+                      </td>
+                    </tr>
+                  }
                 >
-                  Last Updated
-                </th>
-              </tr>
-            </thead>
-            <tbody class="divide-y divide-border-subtle bg-bg-surface">
-              <Show
-                when={props.items.length > 0}
-                fallback={
-                  <tr>
-                    <td colspan="8" class="px-6 py-12 text-center">
-                      <div class="flex flex-col items-center gap-2">
-                        <svg
-                          class="h-12 w-12 text-text-muted"
-                          fill="none"
-                          stroke="currentColor"
-                          viewBox="0 0 24 24"
-                        >
-                          <path
-                            stroke-linecap="round"
-                            stroke-linejoin="round"
-                            stroke-width={2}
-                            d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4"
-                          />
-                        </svg>
-                        <p class="text-sm font-medium text-text-primary">
-                          No items found
-                        </p>
-                        <p class="text-sm text-text-secondary">
-                          Try adjusting your filters or search query
-                        </p>
-                      </div>
-                    </td>
-                  </tr>
-                }
-              >
-                <For each={props.items}>
-                  {(item) => {
-                    const status = () => getStockStatus(item);
+                  <For each={props.items}>
+                    {(item) => {
+                      const status = () => getStockStatus(item);
 
-                    return (
-                      <tr
-                        class={`cursor-pointer transition-colors hover:bg-bg-hover ${
-                          selectedIds().has(item.id)
-                            ? 'bg-accent-primary/5'
-                            : ''
-                        }`}
-                        onClick={() => handleRowClick(item)}
-                      >
-                        <td
-                          class="whitespace-nowrap px-4 py-4"
-                          onClick={(e) => e.stopPropagation()}
+                      return (
+                        <tr
+                          class={`cursor-pointer transition-colors hover:bg-bg-hover ${
+                            selectedIds().has(item.id)
+                              ? 'bg-accent-primary/5'
+                              : getRecentChange(item.id)
+                                ? RECENT_CHANGE_ROW_CLASS
+                                : ''
+                          }`}
+                          onClick={() => handleRowClick(item)}
                         >
-                          <input
-                            type="checkbox"
-                            checked={selectedIds().has(item.id)}
-                            onChange={() => toggleSelectItem(item.id)}
-                            class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
-                          />
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4">
-                          <div class="flex items-center">
-                            <div>
-                              <div class="text-sm font-medium text-text-primary">
-                                {item.name}
-                              </div>
-                              <Show when={item.description}>
-                                <div class="max-w-xs truncate text-sm text-text-secondary">
-                                  {item.description}
+                          <td
+                            class="whitespace-nowrap px-4 py-4"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={selectedIds().has(item.id)}
+                              onChange={() => toggleSelectItem(item.id)}
+                              class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                            />
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4">
+                            <div class="flex items-center gap-3">
+                              <ItemThumbnail
+                                imageUrl={item.imageUrl}
+                                name={item.name}
+                                class="h-10 w-10"
+                              />
+                              <div>
+                                <div class="text-sm font-medium text-text-primary">
+                                  {item.name}
+                                  <RecentChangeBadge id={item.id} />
                                 </div>
+                                <Show when={item.sku}>
+                                  <div class="font-mono text-xs text-text-muted">
+                                    {item.sku}
+                                  </div>
+                                </Show>
+                                <Show when={item.description}>
+                                  <div class="max-w-xs truncate text-sm text-text-secondary">
+                                    {item.description}
+                                  </div>
+                                </Show>
+                              </div>
+                            </div>
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4">
+                            <div class="flex flex-wrap gap-1">
+                              <For each={item.tags.slice(0, 2)}>
+                                {(tag) => (
+                                  <span class="inline-flex items-center rounded-full border border-border-subtle bg-bg-surface-subtle px-2 py-0.5 text-xs font-medium text-text-primary">
+                                    {tag}
+                                  </span>
+                                )}
+                              </For>
+                              <Show when={item.tags.length > 2}>
+                                <span class="inline-flex items-center rounded-full border border-border-subtle bg-bg-surface-subtle px-2 py-0.5 text-xs font-medium text-text-secondary">
+                                  +{item.tags.length - 2}
+                                </span>
                               </Show>
                             </div>
-                          </div>
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4">
-                          <div class="flex flex-wrap gap-1">
-                            <For each={item.tags.slice(0, 2)}>
-                              {(tag) => (
-                                <span class="inline-flex items-center rounded-full border border-border-subtle bg-bg-surface-subtle px-2 py-0.5 text-xs font-medium text-text-primary">
-                                  {tag}
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4">
+                            <StockStatusBadge
+                              status={status()}
+                              quantity={item.quantity}
+                              locations={locationStatuses(item)}
+                            />
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+                            {item.unit}
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
+                            {formatCurrency(item.unitPrice)}
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
+                            <div class="flex items-center gap-1.5">
+                              <svg
+                                class="h-4 w-4 text-text-muted"
+                                fill="none"
+                                stroke="currentColor"
+                                viewBox="0 0 24 24"
+                              >
+                                <path
+                                  stroke-linecap="round"
+                                  stroke-linejoin="round"
+                                  stroke-width={2}
+                                  d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
+                                />
+                                <path
+                                  stroke-linecap="round"
+                                  stroke-linejoin="round"
+                                  stroke-width={2}
+                                  d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
+                                />
+                              </svg>
+                              {item.storeHouse.name}
+                              <Show when={item.stock.length > 1}>
+                                <span
+                                  class="text-xs text-text-muted"
+                                  title={item.stock
+                                    .map((level) => level.storeHouse.name)
+                                    .join(', ')}
+                                >
+                                  +{item.stock.length - 1}
                                 </span>
-                              )}
-                            </For>
-                            <Show when={item.tags.length > 2}>
-                              <span class="inline-flex items-center rounded-full border border-border-subtle bg-bg-surface-subtle px-2 py-0.5 text-xs font-medium text-text-secondary">
-                                +{item.tags.length - 2}
-                              </span>
-                            </Show>
-                          </div>
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4">
-                          <StockStatusBadge
-                            status={status()}
-                            quantity={item.quantity}
-                          />
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
-                          {item.unit}
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4 text-sm font-medium text-text-primary">
-                          {formatCurrency(item.unitPrice)}
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4 text-sm text-text-primary">
-                          <div class="flex items-center gap-1.5">
-                            <svg
-                              class="h-4 w-4 text-text-muted"
-                              fill="none"
-                              stroke="currentColor"
-                              viewBox="0 0 24 24"
-                            >
-                              <path
-                                stroke-linecap="round"
-                                stroke-linejoin="round"
-                                stroke-width={2}
-                                d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z"
-                              />
-                              <path
-                                stroke-linecap="round"
-                                stroke-linejoin="round"
-                                stroke-width={2}
-                                d="M15 11a3 3 0 11-6 0 3 3 0 016 0z"
-                              />
-                            </svg>
-                            {item.storeHouse.name}
-                          </div>
-                        </td>
-                        <td class="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
-                          {formatDate(item.updatedAt)}
-                        </td>
-                      </tr>
-                    );
-                  }}
-                </For>
-              </Show>
-            </tbody>
-          </table>
+                              </Show>
+                            </div>
+                          </td>
+                          <td class="whitespace-nowrap px-6 py-4 text-sm text-text-secondary">
+                            {formatDate(item.updatedAt)}
+                          </td>
+                        </tr>
+                      );
+                    }}
+                  </For>
+                </Show>
+              </tbody>
+            </table>
+          </Show>
         </div>
       </div>
 
@@ -533,6 +773,19 @@ export const InventoryTable: Component<InventoryTableProps> = (props) => {
         )}
       </Show>
 
+      <Show when={bulkEditItems()}>
+        {(items) => (
+          <BulkEditItemsModal
+            items={items()}
+            onClose={() => {
+              setBulkEditItems(null);
+              clearSelection();
+            }}
+            onComplete={props.onRefresh}
+          />
+        )}
+      </Show>
+
       {/* Print Labels Modal */}
       <PrintLabelsModal
         isOpen={isPrintModalOpen()}
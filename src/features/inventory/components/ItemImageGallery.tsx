@@ -0,0 +1,383 @@
+/**
+ * ItemImageGallery – an item's photos, the first one being its cover.
+ *
+ * Photos are added by dropping files, pasting an image or picking from
+ * the camera roll; each is shrunk in the browser and uploaded right away,
+ * with progress and a cancel button. Drag a photo (or use the arrows) to
+ * reorder; whatever ends up first is shown in lists and on labels.
+ */
+import {
+  createSignal,
+  For,
+  Index,
+  onCleanup,
+  onMount,
+  Show,
+  type Component,
+} from 'solid-js';
+import { resizeImage } from '@/shared/lib/images';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { uploadItemImage } from '../api/inventory.api';
+
+/** Photos an item can have */
+export const MAX_ITEM_IMAGES = 10;
+
+interface ItemImageGalleryProps {
+  /** Image URLs, the cover first */
+  value: string[];
+  onChange: (urls: string[]) => void;
+  /** Upload state, so the form can wait for uploads to finish */
+  onUploadingChange?: (uploading: boolean) => void;
+  disabled?: boolean;
+}
+
+interface Upload {
+  id: number;
+  name: string;
+  /** Object URL of the original file */
+  preview: string;
+  /** 0-1, or null while the photo is being resized */
+  progress: number | null;
+  error?: string;
+  controller: AbortController;
+}
+
+let nextUploadId = 1;
+
+export const ItemImageGallery: Component<ItemImageGalleryProps> = (props) => {
+  const [uploads, setUploads] = createSignal<Upload[]>([]);
+  const [dragIndex, setDragIndex] = createSignal<number | null>(null);
+  const [isDropTarget, setIsDropTarget] = createSignal(false);
+  const [notice, setNotice] = createSignal<string | null>(null);
+  let fileInput: HTMLInputElement | undefined;
+
+  const pending = () => uploads().filter((upload) => !upload.error);
+  const room = () => MAX_ITEM_IMAGES - props.value.length - pending().length;
+
+  const patchUpload = (id: number, changes: Partial<Upload>) =>
+    setUploads((list) =>
+      list.map((upload) =>
+        upload.id === id ? { ...upload, ...changes } : upload
+      )
+    );
+
+  const dropUpload = (id: number) => {
+    const upload = uploads().find((u) => u.id === id);
+    if (upload) URL.revokeObjectURL(upload.preview);
+    setUploads((list) => list.filter((u) => u.id !== id));
+    props.onUploadingChange?.(pending().length > 0);
+  };
+
+  const cancel = (id: number) => {
+    uploads()
+      .find((upload) => upload.id === id)
+      ?.controller.abort();
+    dropUpload(id);
+  };
+
+  const upload = async (file: File) => {
+    const entry: Upload = {
+      id: nextUploadId++,
+      name: file.name || 'Pasted image',
+      preview: URL.createObjectURL(file),
+      progress: null,
+      controller: new AbortController(),
+    };
+    setUploads((list) => [...list, entry]);
+    props.onUploadingChange?.(true);
+
+    try {
+      const image = await resizeImage(file);
+      if (entry.controller.signal.aborted) return;
+      patchUpload(entry.id, { progress: 0 });
+      const url = await uploadItemImage(image, {
+        signal: entry.controller.signal,
+        onProgress: (loaded, total) =>
+          patchUpload(entry.id, { progress: total ? loaded / total : 0 }),
+      });
+      if (entry.controller.signal.aborted) return;
+      props.onChange([...props.value, url]);
+      dropUpload(entry.id);
+    } catch (err: any) {
+      if (entry.controller.signal.aborted) return;
+      patchUpload(entry.id, {
+        progress: null,
+        error:
+          err instanceof Error
+            ? "Couldn't read this image"
+            : getErrorMessage(err),
+      });
+      props.onUploadingChange?.(pending().length > 0);
+    }
+  };
+
+  const addFiles = (files: Iterable<File>) => {
+    if (props.disabled) return;
+    const images = Array.from(files).filter((file) =>
+      file.type.startsWith('image/')
+    );
+    const skipped = Array.from(files).length - images.length;
+    const accepted = images.slice(0, Math.max(0, room()));
+    setNotice(
+      accepted.length < images.length
+        ? `An item can have up to ${MAX_ITEM_IMAGES} photos`
+        : skipped > 0
+          ? 'Only image files can be added'
+          : null
+    );
+    accepted.forEach((file) => void upload(file));
+  };
+
+  // Pasting an image anywhere while the gallery is open adds it; text
+  // pastes are left to the focused field
+  const handlePaste = (e: ClipboardEvent) => {
+    const files = Array.from(e.clipboardData?.files ?? []).filter((file) =>
+      file.type.startsWith('image/')
+    );
+    if (files.length === 0 || props.disabled) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
+  onMount(() => document.addEventListener('paste', handlePaste));
+  onCleanup(() => {
+    document.removeEventListener('paste', handlePaste);
+    for (const upload of uploads()) {
+      upload.controller.abort();
+      URL.revokeObjectURL(upload.preview);
+    }
+  });
+
+  const move = (from: number, to: number) => {
+    if (from === to || to < 0 || to >= props.value.length) return;
+    const next = [...props.value];
+    const [url] = next.splice(from, 1);
+    next.splice(to, 0, url!);
+    props.onChange(next);
+  };
+
+  const remove = (index: number) =>
+    props.onChange(props.value.filter((_, i) => i !== index));
+
+  // A drag that started on a photo reorders; anything else brings files
+  const handleDrop = (e: DragEvent, index?: number) => {
+    e.preventDefault();
+    setIsDropTarget(false);
+    const from = dragIndex();
+    setDragIndex(null);
+    if (from !== null) {
+      move(from, index ?? props.value.length - 1);
+    } else if (e.dataTransfer?.files.length) {
+      addFiles(e.dataTransfer.files);
+    }
+  };
+
+  const iconButton =
+    'rounded bg-black/60 p-1 text-white hover:bg-black/80 disabled:opacity-30';
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => {
+          if (props.disabled) return;
+          e.preventDefault();
+          setIsDropTarget(dragIndex() === null);
+        }}
+        onDragLeave={() => setIsDropTarget(false)}
+        onDrop={(e) => handleDrop(e)}
+        class={`rounded-lg border-2 border-dashed p-3 transition-colors ${
+          isDropTarget()
+            ? 'bg-accent-primary/5 border-accent-primary'
+            : 'border-border-default'
+        }`}
+      >
+        <div class="grid grid-cols-3 gap-3 sm:grid-cols-4">
+          <Index each={props.value}>
+            {(url, index) => (
+              <div
+                draggable={!props.disabled}
+                onDragStart={() => setDragIndex(index)}
+                onDragEnd={() => setDragIndex(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.stopPropagation();
+                  handleDrop(e, index);
+                }}
+                class={`group relative aspect-square overflow-hidden rounded-lg border bg-bg-hover ${
+                  dragIndex() === index
+                    ? 'border-accent-primary opacity-50'
+                    : 'border-border-default'
+                } ${props.disabled ? '' : 'cursor-move'}`}
+              >
+                <img
+                  src={url()}
+                  alt={`Photo ${index + 1}`}
+                  class="h-full w-full object-cover"
+                />
+                <Show when={index === 0}>
+                  <span class="absolute left-1 top-1 rounded bg-accent-primary px-1.5 py-0.5 text-[10px] font-semibold uppercase text-white">
+                    Cover
+                  </span>
+                </Show>
+                <Show when={!props.disabled}>
+                  <div class="absolute inset-x-1 bottom-1 flex justify-between">
+                    <div class="flex gap-1">
+                      <button
+                        type="button"
+                        onClick={() => move(index, index - 1)}
+                        disabled={index === 0}
+                        class={iconButton}
+                        aria-label="Move earlier"
+                        title={index === 1 ? 'Make cover' : 'Move earlier'}
+                      >
+                        <svg
+                          class="h-3 w-3"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            stroke-linecap="round"
+                            stroke-linejoin="round"
+                            stroke-width={2}
+                            d="M15 19l-7-7 7-7"
+                          />
+                        </svg>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => move(index, index + 1)}
+                        disabled={index === props.value.length - 1}
+                        class={iconButton}
+                        aria-label="Move later"
+                      >
+                        <svg
+                          class="h-3 w-3"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            stroke-linecap="round"
+                            stroke-linejoin="round"
+                            stroke-width={2}
+                            d="M9 5l7 7-7 7"
+                          />
+                        </svg>
+                      </button>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => remove(index)}
+                      class={iconButton}
+                      aria-label={`Remove photo ${index + 1}`}
+                    >
+                      <svg
+                        class="h-3 w-3"
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                      >
+                        <path
+                          stroke-linecap="round"
+                          stroke-linejoin="round"
+                          stroke-width={2}
+                          d="M6 18L18 6M6 6l12 12"
+                        />
+                      </svg>
+                    </button>
+                  </div>
+                </Show>
+              </div>
+            )}
+          </Index>
+
+          <For each={uploads()}>
+            {(upload) => (
+              <div class="relative aspect-square overflow-hidden rounded-lg border border-border-default bg-bg-hover">
+                <img
+                  src={upload.preview}
+                  alt={upload.name}
+                  class="h-full w-full object-cover opacity-40"
+                />
+                <div class="absolute inset-0 flex flex-col items-center justify-center gap-1 p-2 text-center">
+                  <Show
+                    when={!upload.error}
+                    fallback={
+                      <p class="text-xs font-medium text-status-danger-text">
+                        {upload.error}
+                      </p>
+                    }
+                  >
+                    <p class="text-xs font-medium text-text-primary">
+                      {upload.progress === null
+                        ? 'Preparing…'
+                        : `${Math.round(upload.progress * 100)}%`}
+                    </p>
+                    <div class="h-1 w-full overflow-hidden rounded-full bg-bg-surface">
+                      <div
+                        class="h-full bg-accent-primary transition-all"
+                        style={{ width: `${(upload.progress ?? 0) * 100}%` }}
+                      />
+                    </div>
+                  </Show>
+                  <button
+                    type="button"
+                    onClick={() => cancel(upload.id)}
+                    class="mt-1 text-xs font-medium text-text-link hover:underline"
+                  >
+                    {upload.error ? 'Dismiss' : 'Cancel'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </For>
+
+          <Show when={!props.disabled && room() > 0}>
+            <button
+              type="button"
+              onClick={() => fileInput?.click()}
+              class="flex aspect-square flex-col items-center justify-center gap-1 rounded-lg border border-border-default text-text-muted hover:bg-bg-hover hover:text-text-primary"
+            >
+              <svg
+                class="h-6 w-6"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width={2}
+                  d="M12 4v16m8-8H4"
+                />
+              </svg>
+              <span class="text-xs">Add photos</span>
+            </button>
+          </Show>
+        </div>
+
+        <Show when={!props.disabled}>
+          <p class="mt-2 text-xs text-text-muted">
+            Drop, paste or pick photos (up to {MAX_ITEM_IMAGES}). Drag to
+            reorder; the first is the cover.
+          </p>
+        </Show>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/*"
+          multiple
+          class="hidden"
+          onChange={(e) => {
+            addFiles(e.currentTarget.files ?? []);
+            e.currentTarget.value = '';
+          }}
+        />
+      </div>
+      <Show when={notice()}>
+        <p class="mt-1 text-xs text-status-warning-text">{notice()}</p>
+      </Show>
+    </div>
+  );
+};
@@ -0,0 +1,476 @@
+/**
+ * ItemPriceHistory – what an item was listed at, sold for and paid for.
+ *
+ * The chart plots the catalogue unit price as a step line with every sale
+ * and purchase as a dot. Below it, min/avg/max per month or quarter, then
+ * the same per client and per supplier, and the catalogue changes with
+ * who made them. Averages are weighted by quantity.
+ */
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { createQuery } from '@/shared/lib/create-query';
+import { formatCurrency, formatDate } from '@/shared/lib/format';
+import { getBusiness } from '@/shared/stores/business.store';
+import { getPriceHistory } from '../api/inventory.api';
+import {
+  formatPeriod,
+  summarizeByPartner,
+  summarizeByPeriod,
+  type PartnerPrices,
+  type PricePeriod,
+  type PriceStats,
+} from '../lib/price-history';
+import type { Item, PriceHistory, PricePoint } from '../types/inventory.types';
+
+interface ItemPriceHistoryProps {
+  item: Item;
+}
+
+const FILTER_CLASS =
+  'w-full rounded-lg border border-border-default bg-bg-surface px-2 py-1.5 text-sm text-text-primary focus:border-accent-primary focus:outline-none';
+
+// Chart area, in SVG units
+const WIDTH = 600;
+const HEIGHT = 200;
+const PAD = { top: 10, right: 10, bottom: 20, left: 56 };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const ItemPriceHistory: Component<ItemPriceHistoryProps> = (props) => {
+  const [dateFrom, setDateFrom] = createSignal('');
+  const [dateTo, setDateTo] = createSignal('');
+  const [period, setPeriod] = createSignal<PricePeriod>('month');
+
+  const [history] = createQuery(
+    () => ({
+      itemId: props.item.id,
+      dateFrom: dateFrom() || undefined,
+      dateTo: dateTo() || undefined,
+    }),
+    ({ itemId, ...filters }) => getPriceHistory(itemId, filters),
+    { scopes: ['items'] }
+  );
+
+  const money = (amount: number) =>
+    formatCurrency(amount, getBusiness()?.currency);
+  const date = (value: string) =>
+    formatDate(value, getBusiness()?.timezone, {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const hasLines = () =>
+    !!history() && history()!.sales.length + history()!.purchases.length > 0;
+
+  return (
+    <div class="space-y-4">
+      {/* Filters */}
+      <div class="grid grid-cols-3 gap-2">
+        <input
+          type="date"
+          value={dateFrom()}
+          onChange={(e) => setDateFrom(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Date from"
+        />
+        <input
+          type="date"
+          value={dateTo()}
+          onChange={(e) => setDateTo(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Date to"
+        />
+        <select
+          value={period()}
+          onChange={(e) => setPeriod(e.currentTarget.value as PricePeriod)}
+          class={FILTER_CLASS}
+          aria-label="Group by"
+        >
+          <option value="month">By month</option>
+          <option value="quarter">By quarter</option>
+        </select>
+      </div>
+
+      <Show
+        when={!history.loading}
+        fallback={
+          <div class="space-y-2">
+            <div class="h-40 animate-pulse rounded-lg bg-bg-hover" />
+            <div class="h-10 animate-pulse rounded-lg bg-bg-hover" />
+          </div>
+        }
+      >
+        <Show
+          when={history()}
+          fallback={
+            <p class="rounded-lg border border-border-subtle py-6 text-center text-sm text-text-secondary">
+              Could not load the price history.
+            </p>
+          }
+        >
+          {(data) => (
+            <>
+              <PriceChart
+                history={data()}
+                dateFrom={dateFrom()}
+                dateTo={dateTo()}
+                formatMoney={money}
+                formatDate={date}
+              />
+
+              <Show
+                when={hasLines()}
+                fallback={
+                  <p class="rounded-lg border border-border-subtle py-6 text-center text-sm text-text-secondary">
+                    {dateFrom() || dateTo()
+                      ? 'No sales or purchases in these dates.'
+                      : 'No sales or purchases recorded yet.'}
+                  </p>
+                }
+              >
+                {/* Per period */}
+                <div class="overflow-x-auto rounded-lg border border-border-subtle">
+                  <table class="w-full text-sm">
+                    <thead class="bg-bg-surface-subtle text-left text-xs uppercase text-text-secondary">
+                      <tr>
+                        <th class="px-3 py-2 font-medium">Period</th>
+                        <th class="px-3 py-2 text-right font-medium">Listed</th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Sold min / avg / max
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Paid min / avg / max
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-border-subtle">
+                      <For
+                        each={summarizeByPeriod(
+                          data(),
+                          period(),
+                          getBusiness()?.timezone
+                        )}
+                      >
+                        {(row) => (
+                          <tr>
+                            <td class="whitespace-nowrap px-3 py-2 text-text-primary">
+                              {formatPeriod(row.period)}
+                            </td>
+                            <td class="px-3 py-2 text-right text-text-secondary">
+                              {row.listed === undefined
+                                ? '—'
+                                : money(row.listed)}
+                            </td>
+                            <td class="whitespace-nowrap px-3 py-2 text-right text-text-primary">
+                              <StatsCell stats={row.sold} formatMoney={money} />
+                            </td>
+                            <td class="whitespace-nowrap px-3 py-2 text-right text-text-primary">
+                              <StatsCell stats={row.paid} formatMoney={money} />
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                  </table>
+                </div>
+
+                {/* Per client / supplier */}
+                <div class="grid gap-4 sm:grid-cols-2">
+                  <PartnerTable
+                    title="Clients"
+                    rows={summarizeByPartner(data().sales)}
+                    fallbackName="Unknown client"
+                    formatMoney={money}
+                    formatDate={date}
+                  />
+                  <PartnerTable
+                    title="Suppliers"
+                    rows={summarizeByPartner(data().purchases)}
+                    fallbackName="No supplier"
+                    formatMoney={money}
+                    formatDate={date}
+                  />
+                </div>
+              </Show>
+
+              {/* Catalogue changes */}
+              <Show when={data().catalogue.length > 0}>
+                <div>
+                  <h4 class="mb-2 text-sm font-medium text-text-secondary">
+                    Catalogue prices
+                  </h4>
+                  <div class="overflow-hidden rounded-lg border border-border-subtle">
+                    <table class="w-full text-sm">
+                      <thead class="bg-bg-surface-subtle text-left text-xs uppercase text-text-secondary">
+                        <tr>
+                          <th class="px-3 py-2 font-medium">From</th>
+                          <th class="px-3 py-2 text-right font-medium">
+                            Unit price
+                          </th>
+                          <th class="px-3 py-2 text-right font-medium">
+                            Selling price
+                          </th>
+                          <th class="hidden px-3 py-2 font-medium sm:table-cell">
+                            By
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody class="divide-y divide-border-subtle">
+                        <For each={[...data().catalogue].reverse()}>
+                          {(change) => (
+                            <tr>
+                              <td class="whitespace-nowrap px-3 py-2 text-text-secondary">
+                                {date(change.date)}
+                              </td>
+                              <td class="px-3 py-2 text-right text-text-primary">
+                                {money(change.unitPrice)}
+                              </td>
+                              <td class="px-3 py-2 text-right text-text-primary">
+                                {change.sellingPrice === undefined
+                                  ? '—'
+                                  : money(change.sellingPrice)}
+                              </td>
+                              <td class="hidden px-3 py-2 text-text-secondary sm:table-cell">
+                                {change.changedBy.name}
+                              </td>
+                            </tr>
+                          )}
+                        </For>
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </Show>
+            </>
+          )}
+        </Show>
+      </Show>
+    </div>
+  );
+};
+
+const StatsCell: Component<{
+  stats: PriceStats | null;
+  formatMoney: (amount: number) => string;
+}> = (props) => (
+  <Show when={props.stats} fallback={<span class="text-text-muted">—</span>}>
+    {(stats) => (
+      <>
+        <span class="text-text-secondary">
+          {props.formatMoney(stats().min)} /{' '}
+        </span>
+        <span class="font-medium">{props.formatMoney(stats().average)}</span>
+        <span class="text-text-secondary">
+          {' '}
+          / {props.formatMoney(stats().max)}
+        </span>
+        <span class="block text-xs text-text-muted">
+          {stats().quantity} units, {stats().lines} lines
+        </span>
+      </>
+    )}
+  </Show>
+);
+
+const PartnerTable: Component<{
+  title: string;
+  rows: PartnerPrices[];
+  fallbackName: string;
+  formatMoney: (amount: number) => string;
+  formatDate: (value: string) => string;
+}> = (props) => (
+  <div>
+    <h4 class="mb-2 text-sm font-medium text-text-secondary">{props.title}</h4>
+    <Show
+      when={props.rows.length > 0}
+      fallback={
+        <p class="rounded-lg border border-border-subtle py-4 text-center text-sm text-text-secondary">
+          None in these dates.
+        </p>
+      }
+    >
+      <div class="divide-y divide-border-subtle rounded-lg border border-border-subtle">
+        <For each={props.rows}>
+          {(row) => (
+            <div class="px-3 py-2 text-sm">
+              <div class="flex justify-between gap-2">
+                <span class="truncate font-medium text-text-primary">
+                  {row.partner?.name ?? props.fallbackName}
+                </span>
+                <span class="whitespace-nowrap text-text-secondary">
+                  {row.stats.quantity} units
+                </span>
+              </div>
+              <div class="flex justify-between gap-2 text-xs text-text-secondary">
+                <span>
+                  {props.formatMoney(row.stats.min)} /{' '}
+                  {props.formatMoney(row.stats.average)} /{' '}
+                  {props.formatMoney(row.stats.max)}
+                </span>
+                <span class="whitespace-nowrap">
+                  Last {props.formatMoney(row.lastPrice)},{' '}
+                  {props.formatDate(row.lastDate)}
+                </span>
+              </div>
+            </div>
+          )}
+        </For>
+      </div>
+    </Show>
+  </div>
+);
+
+/**
+ * Catalogue unit price over time (step line), sales and purchases (dots)
+ */
+const PriceChart: Component<{
+  history: PriceHistory;
+  dateFrom: string;
+  dateTo: string;
+  formatMoney: (amount: number) => string;
+  formatDate: (value: string) => string;
+}> = (props) => {
+  const range = () => {
+    const times = [
+      ...props.history.sales,
+      ...props.history.purchases,
+      ...props.history.catalogue,
+    ].map((entry) => new Date(entry.date).getTime());
+    const start = props.dateFrom
+      ? new Date(props.dateFrom).getTime()
+      : Math.min(...times, Date.now());
+    const end = props.dateTo
+      ? new Date(props.dateTo).getTime() + DAY - 1
+      : Date.now();
+    return { start, end: Math.max(end, start + DAY) };
+  };
+
+  const maxPrice = () =>
+    Math.max(
+      ...props.history.sales.map((p) => p.unitPrice),
+      ...props.history.purchases.map((p) => p.unitPrice),
+      ...props.history.catalogue.map((c) => c.unitPrice),
+      1
+    ) * 1.1;
+
+  const x = (value: string | number) => {
+    const { start, end } = range();
+    const time = typeof value === 'number' ? value : new Date(value).getTime();
+    const clamped = Math.min(Math.max(time, start), end);
+    return (
+      PAD.left +
+      ((clamped - start) / (end - start)) * (WIDTH - PAD.left - PAD.right)
+    );
+  };
+  const y = (price: number) =>
+    PAD.top + (1 - price / maxPrice()) * (HEIGHT - PAD.top - PAD.bottom);
+
+  const listedPath = () => {
+    const changes = props.history.catalogue;
+    return changes
+      .map((change, i) => {
+        const next = changes[i + 1]?.date ?? range().end;
+        const level = y(change.unitPrice);
+        return `${i === 0 ? 'M' : 'L'}${x(change.date)},${level} L${x(next)},${level}`;
+      })
+      .join(' ');
+  };
+
+  const dotTitle = (point: PricePoint, kind: string) =>
+    `${kind} ${props.formatDate(point.date)}: ${point.quantity} × ${props.formatMoney(point.unitPrice)}${
+      point.partner ? ` (${point.partner.name})` : ''
+    }`;
+
+  return (
+    <div class="rounded-lg border border-border-subtle p-3">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        class="h-auto w-full"
+        role="img"
+        aria-label="Price history chart"
+      >
+        <For each={[0, 0.5, 1]}>
+          {(share) => (
+            <>
+              <line
+                x1={PAD.left}
+                x2={WIDTH - PAD.right}
+                y1={y(maxPrice() * share)}
+                y2={y(maxPrice() * share)}
+                class="stroke-border-subtle"
+                stroke-width="1"
+              />
+              <text
+                x={PAD.left - 6}
+                y={y(maxPrice() * share) + 4}
+                text-anchor="end"
+                class="fill-text-muted text-[10px]"
+              >
+                {props.formatMoney(maxPrice() * share)}
+              </text>
+            </>
+          )}
+        </For>
+        <text x={PAD.left} y={HEIGHT - 4} class="fill-text-muted text-[10px]">
+          {props.formatDate(new Date(range().start).toISOString())}
+        </text>
+        <text
+          x={WIDTH - PAD.right}
+          y={HEIGHT - 4}
+          text-anchor="end"
+          class="fill-text-muted text-[10px]"
+        >
+          {props.formatDate(new Date(range().end).toISOString())}
+        </text>
+
+        <path
+          d={listedPath()}
+          fill="none"
+          class="stroke-text-secondary"
+          stroke-width="2"
+          stroke-dasharray="4 3"
+        />
+        <For each={props.history.purchases}>
+          {(point) => (
+            <circle
+              cx={x(point.date)}
+              cy={y(point.unitPrice)}
+              r="4"
+              class="fill-accent-success"
+              opacity="0.8"
+            >
+              <title>{dotTitle(point, 'Bought')}</title>
+            </circle>
+          )}
+        </For>
+        <For each={props.history.sales}>
+          {(point) => (
+            <circle
+              cx={x(point.date)}
+              cy={y(point.unitPrice)}
+              r="4"
+              class="fill-accent-primary"
+              opacity="0.8"
+            >
+              <title>{dotTitle(point, 'Sold')}</title>
+            </circle>
+          )}
+        </For>
+      </svg>
+      <div class="mt-2 flex flex-wrap gap-4 text-xs text-text-secondary">
+        <span class="flex items-center gap-1.5">
+          <span class="inline-block w-4 border-t-2 border-dashed border-text-secondary" />
+          Catalogue price
+        </span>
+        <span class="flex items-center gap-1.5">
+          <span class="inline-block h-2 w-2 rounded-full bg-accent-primary" />
+          Sold
+        </span>
+        <span class="flex items-center gap-1.5">
+          <span class="inline-block h-2 w-2 rounded-full bg-accent-success" />
+          Bought
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * KitComponentsInput – a kit's bill of materials: the items in one set and
+ * how many of each, in their base units.
+ */
+import { Index, Show, type Component } from 'solid-js';
+import { ItemSelect } from '@/shared/ui/ItemSelect';
+import type { Item, KitComponent } from '../types/inventory.types';
+
+interface KitComponentsInputProps {
+  value: KitComponent[];
+  onChange: (components: KitComponent[]) => void;
+  /** Items that can be components */
+  items: Item[];
+  disabled?: boolean;
+}
+
+const INPUT_CLASS =
+  'block rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus';
+
+export const KitComponentsInput: Component<KitComponentsInputProps> = (
+  props
+) => {
+  const update = (index: number, changes: Partial<KitComponent>) =>
+    props.onChange(
+      props.value.map((component, i) =>
+        i === index ? { ...component, ...changes } : component
+      )
+    );
+
+  const pick = (index: number, itemId: string) => {
+    const item = props.items.find((i) => i.id === itemId);
+    if (item) {
+      update(index, {
+        item: { id: item.id, name: item.name, unit: item.unit },
+      });
+    }
+  };
+
+  const remove = (index: number) =>
+    props.onChange(props.value.filter((_, i) => i !== index));
+
+  return (
+    <div class="space-y-2">
+      <Index each={props.value}>
+        {(component, index) => (
+          <div class="flex items-center gap-2">
+            <div class="min-w-0 flex-1">
+              <Show
+                when={!props.disabled}
+                fallback={
+                  <p class="text-sm text-text-primary">
+                    {component().item.name}
+                  </p>
+                }
+              >
+                <ItemSelect
+                  items={props.items}
+                  value={component().item.id}
+                  onChange={(itemId) => pick(index, itemId)}
+                  placeholder="Select item..."
+                  showStock
+                />
+              </Show>
+            </div>
+            <span class="text-sm text-text-muted">×</span>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={component().quantity || ''}
+              onInput={(e) =>
+                update(index, { quantity: parseFloat(e.currentTarget.value) })
+              }
+              disabled={props.disabled}
+              placeholder="1"
+              aria-label={`${component().item.name || 'Component'} per kit`}
+              class={`${INPUT_CLASS} w-20`}
+            />
+            <span class="w-10 whitespace-nowrap text-sm text-text-muted">
+              {component().item.unit}
+            </span>
+            <Show when={!props.disabled}>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                class="text-text-muted hover:text-status-danger-text"
+                aria-label={`Remove ${component().item.name || 'component'}`}
+              >
+                ×
+              </button>
+            </Show>
+          </div>
+        )}
+      </Index>
+      <Show when={!props.disabled}>
+        <button
+          type="button"
+          onClick={() =>
+            props.onChange([
+              ...props.value,
+              { item: { id: '', name: '', unit: '' }, quantity: 1 },
+            ])
+          }
+          class="text-sm font-medium text-text-link hover:underline"
+        >
+          + Add component
+        </button>
+      </Show>
+    </div>
+  );
+};
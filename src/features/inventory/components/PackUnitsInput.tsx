@@ -0,0 +1,88 @@
+/**
+ * PackUnitsInput – the packs an item also comes in, each holding a number
+ * of base units (a case of 24, a pallet of 40).
+ */
+import { Index, Show, type Component } from 'solid-js';
+import type { PackUnit } from '../types/inventory.types';
+
+interface PackUnitsInputProps {
+  value: PackUnit[];
+  onChange: (packs: PackUnit[]) => void;
+  /** Unit the factors count in */
+  baseUnit: string;
+  disabled?: boolean;
+}
+
+const INPUT_CLASS =
+  'block rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus';
+
+export const PackUnitsInput: Component<PackUnitsInputProps> = (props) => {
+  const update = (index: number, changes: Partial<PackUnit>) =>
+    props.onChange(
+      props.value.map((pack, i) =>
+        i === index ? { ...pack, ...changes } : pack
+      )
+    );
+
+  const remove = (index: number) =>
+    props.onChange(props.value.filter((_, i) => i !== index));
+
+  return (
+    <div class="space-y-2">
+      <Index each={props.value}>
+        {(pack, index) => (
+          <div class="flex items-center gap-2">
+            <span class="text-sm text-text-muted">1</span>
+            <input
+              type="text"
+              value={pack().unit}
+              onInput={(e) => update(index, { unit: e.currentTarget.value })}
+              disabled={props.disabled}
+              placeholder="case"
+              aria-label="Pack unit"
+              class={`${INPUT_CLASS} min-w-0 flex-1`}
+            />
+            <span class="text-sm text-text-muted">=</span>
+            <input
+              type="number"
+              min="2"
+              step="any"
+              value={pack().factor || ''}
+              onInput={(e) =>
+                update(index, { factor: parseFloat(e.currentTarget.value) })
+              }
+              disabled={props.disabled}
+              placeholder="24"
+              aria-label={`${props.baseUnit || 'Base units'} per pack`}
+              class={`${INPUT_CLASS} w-24`}
+            />
+            <span class="whitespace-nowrap text-sm text-text-muted">
+              {props.baseUnit || 'units'}
+            </span>
+            <Show when={!props.disabled}>
+              <button
+                type="button"
+                onClick={() => remove(index)}
+                class="text-text-muted hover:text-status-danger-text"
+                aria-label={`Remove ${pack().unit || 'pack unit'}`}
+              >
+                ×
+              </button>
+            </Show>
+          </div>
+        )}
+      </Index>
+      <Show when={!props.disabled}>
+        <button
+          type="button"
+          onClick={() =>
+            props.onChange([...props.value, { unit: '', factor: NaN }])
+          }
+          class="text-sm font-medium text-text-link hover:underline"
+        >
+          + Add pack unit
+        </button>
+      </Show>
+    </div>
+  );
+};
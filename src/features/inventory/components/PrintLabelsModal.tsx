@@ -2,12 +2,15 @@
  * PrintLabelsModal – configures and prints barcode / QR labels.
  *
  * Features:
- *  - Pick code type: QR or Barcode (Code128)
+ *  - Pick code type: QR, Barcode (Code128) or EAN-13
+ *  - Pick which code to encode: item ID, SKU or GTIN barcode
  *  - Pick label size preset (40×30, 50×25, 60×40, 70×50, thermal)
  *  - Set quantity (copies) per item
  *  - Search / filter items when list is large
  *  - Business name + logo on each label
  *  - Storehouse name on each label
+ *  - Optional lot number and expiry per item
+ *  - Optional item photo beside the code
  *  - Live preview
  *  - Print via browser window.print()
  *  - Download as PDF via jspdf
@@ -24,7 +27,9 @@ import {
 import { createStore } from 'solid-js/store';
 import { Button } from '@/shared/ui/Button';
 import { BarcodeLabel } from './BarcodeLabel';
+import { formatLot } from '../lib/lots';
 import type {
+  CodeSource,
   CodeType,
   LabelItem,
   LabelSizePreset,
@@ -32,11 +37,13 @@ import type {
 import {
   generateQRDataURL,
   generateBarcodeDataURL,
+  resolveLabelCode,
   truncateId,
   LABEL_SIZE_PRESETS,
   loadLabelSettings,
   saveLabelSettings,
 } from '@/shared/lib/barcode-utils';
+import { loadImageForPdf } from '@/shared/lib/images';
 import { jsPDF } from 'jspdf';
 
 /**
@@ -86,8 +93,14 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
   const saved = loadLabelSettings();
 
   const [codeType, setCodeType] = createSignal<CodeType>(saved.codeType);
+  const [codeSource, setCodeSource] = createSignal<CodeSource>(
+    saved.codeSource
+  );
   const [sizePresetId, setSizePresetId] = createSignal(saved.sizePresetId);
+  const [showImage, setShowImage] = createSignal(saved.showImage);
   const [itemCopies, setItemCopies] = createStore<Record<string, number>>({});
+  // Lot number printed per item, empty for none
+  const [itemLots, setItemLots] = createStore<Record<string, string>>({});
   const [searchTerm, setSearchTerm] = createSignal('');
   const [isGeneratingPdf, setIsGeneratingPdf] = createSignal(false);
 
@@ -103,8 +116,10 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
   createEffect(() => {
     saveLabelSettings({
       codeType: codeType(),
+      codeSource: codeSource(),
       labelFormat: isThermal() ? 'thermal' : 'a4',
       sizePresetId: sizePresetId(),
+      showImage: showImage(),
     });
   });
 
@@ -116,6 +131,7 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
         copies[item.id] = item.copies || 1;
       }
       setItemCopies(copies);
+      setItemLots({});
       setSearchTerm('');
     }
   });
@@ -128,6 +144,7 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
       (item) =>
         item.name.toLowerCase().includes(term) ||
         item.id.toLowerCase().includes(term) ||
+        (item.sku ?? '').toLowerCase().includes(term) ||
         (item.storehouse ?? '').toLowerCase().includes(term)
     );
   });
@@ -152,6 +169,22 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
 
   const bizName = () => props.businessName || '';
 
+  const labelCode = (item: LabelItem) =>
+    resolveLabelCode(item, codeSource(), codeType());
+
+  const photo = (item: LabelItem) => (showImage() ? item.imageUrl : undefined);
+
+  const lotText = (item: LabelItem) => {
+    const lot = item.lots?.find((l) => l.lotNumber === itemLots[item.id]);
+    return lot ? `Lot ${formatLot(lot)}` : '';
+  };
+
+  // EAN-13 only carries retail codes, so it implies printing the GTIN
+  const selectCodeType = (type: CodeType) => {
+    setCodeType(type);
+    if (type === 'ean13') setCodeSource('gtin');
+  };
+
   // ── Build expanded items + code images ─────────────
   const buildExpanded = () => {
     const expanded: LabelItem[] = [];
@@ -171,19 +204,20 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
     preset: LabelSizePreset,
     forPdf = false
   ) => {
-    const isQR = codeType() === 'qr';
     const isSmall = preset.width <= 50;
     const images: string[] = [];
     for (const item of expanded) {
-      if (isQR) {
+      const { value, symbology } = labelCode(item);
+      if (symbology === 'qr') {
         images.push(
-          await generateQRDataURL(item.id, {
+          await generateQRDataURL(value, {
             size: isSmall ? 140 : 200,
             margin: 1,
           })
         );
       } else {
-        const svg = generateBarcodeDataURL(item.id, {
+        const svg = generateBarcodeDataURL(value, {
+          format: symbology,
           height: isSmall ? 50 : 70,
           fontSize: 12,
           margin: 4,
@@ -223,10 +257,18 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
     // Budget (mm): padding 2 + name ~3 + gap 0.5 + meta ~2.5 + gap 0.5 + id ~2 + gap 0.5 = ~11
     // Smaller labels get tighter text so less overhead
     const overhead = isSmall ? 9 : 11;
-    const qrDim = Math.max(8, Math.min(h - overhead, preset.width - 4));
+    // A photo shares the code's row, so a QR code gets half the width
+    const image = photo(item);
+    const rowWidth = image ? (preset.width - 5) / 2 : preset.width - 4;
+    const qrDim = Math.max(8, Math.min(h - overhead, rowWidth));
+    const codeHeight = Math.max(6, h - overhead);
     const codeStyle = isQR
       ? `width: ${qrDim}mm; height: ${qrDim}mm;`
-      : `width: 90%; max-height: ${Math.max(6, h - overhead)}mm;`;
+      : `width: ${image ? '70%' : '90%'}; max-height: ${codeHeight}mm;`;
+    const photoDim = isQR ? qrDim : Math.min(codeHeight, preset.width * 0.25);
+    const photoHTML = image
+      ? `<img src="${image}" style="width: ${photoDim}mm; height: ${photoDim}mm; object-fit: cover; flex-shrink: 0;" />`
+      : '';
 
     return `<div style="
         width: ${preset.width}mm;
@@ -239,13 +281,17 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
         <div style="font-weight: 700; font-size: ${namePx}px; text-align: center; max-width: 100%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; line-height: 1.2;">
           ${item.name}
         </div>
-        <img src="${codeImg}" style="max-width: 100%; ${codeStyle} image-rendering: pixelated; flex-shrink: 0;" />
+        <div style="display: flex; align-items: center; justify-content: center; gap: 1mm; max-width: 100%;">
+          ${photoHTML}
+          <img src="${codeImg}" style="max-width: 100%; ${codeStyle} image-rendering: pixelated; flex-shrink: 0;" />
+        </div>
         <div style="font-size: ${metaPx}px; color: #555; display: flex; gap: 1.5mm; line-height: 1.2;">
           <span>Unit: ${item.unit}</span>
           ${item.storehouse ? `<span style="color: #999;">·</span><span>${item.storehouse}</span>` : ''}
         </div>
-        <div style="font-family: monospace; font-size: ${idPx}px; color: #999; max-width: 100%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; line-height: 1.2;" title="${item.id}">
-          ${truncateId(item.id)}
+        ${lotText(item) ? `<div style="font-size: ${metaPx}px; color: #555; line-height: 1.2;">${lotText(item)}</div>` : ''}
+        <div style="font-family: monospace; font-size: ${idPx}px; color: #999; max-width: 100%; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; line-height: 1.2;" title="${labelCode(item).value}">
+          ${truncateId(labelCode(item).value, 14)}
         </div>
       </div>`;
   };
@@ -310,6 +356,18 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
       const expanded = buildExpanded();
       const codeImages = await generateCodeImages(expanded, preset, true);
 
+      // Photos are embedded once per item; ones that fail to load are left off
+      const photos = new Map<
+        string,
+        Awaited<ReturnType<typeof loadImageForPdf>>
+      >();
+      for (const item of props.items) {
+        const image = photo(item);
+        if (image && !photos.has(image)) {
+          photos.set(image, await loadImageForPdf(image));
+        }
+      }
+
       const cols = preset.columns ?? 4;
       const isTh = cols === 1;
 
@@ -368,12 +426,37 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
         curY += lh <= 30 ? 2 : 2.5;
 
         // Code image — QR sized to fill available height, leaving room for text
+        // With a photo, it takes the left part of the code's row
         const isQR = codeType() === 'qr';
         const overhead = lh <= 30 ? 7 : 9; // mm for name + meta + id + padding
         const availH = lh - overhead;
-        const imgW = isQR ? Math.min(lw - 4, availH) : lw - 6;
-        const imgH = isQR ? imgW : Math.min(availH, 12);
-        doc.addImage(img, 'PNG', x + (lw - imgW) / 2, curY, imgW, imgH);
+        const itemPhoto = photos.get(photo(item) ?? '');
+        const rowW = itemPhoto ? lw - 5 : lw - 4;
+        const imgH = isQR
+          ? Math.min(itemPhoto ? rowW / 2 : rowW, availH)
+          : Math.min(availH, 12);
+        const photoDim = itemPhoto ? Math.min(imgH, isQR ? imgH : lw / 4) : 0;
+        const imgW = isQR ? imgH : rowW - 2 - photoDim;
+        let imgX = x + (lw - imgW - (photoDim ? photoDim + 1 : 0)) / 2;
+        if (itemPhoto) {
+          // Cover-crop isn't available in jsPDF: fit the photo in its square
+          const scale = Math.min(
+            photoDim / itemPhoto.width,
+            photoDim / itemPhoto.height
+          );
+          const pw = itemPhoto.width * scale;
+          const ph = itemPhoto.height * scale;
+          doc.addImage(
+            itemPhoto.dataUrl,
+            'JPEG',
+            imgX + (photoDim - pw) / 2,
+            curY + (imgH - ph) / 2,
+            pw,
+            ph
+          );
+          imgX += photoDim + 1;
+        }
+        doc.addImage(img, 'PNG', imgX, curY, imgW, imgH);
         curY += imgH + 1.5;
 
         // Unit + storehouse
@@ -384,11 +467,17 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
           : `Unit: ${item.unit}`;
         doc.text(meta, x + lw / 2, curY, { align: 'center' });
         curY += lh <= 30 ? 1.2 : 1.5;
+        if (lotText(item)) {
+          doc.text(lotText(item), x + lw / 2, curY, { align: 'center' });
+          curY += lh <= 30 ? 1.2 : 1.5;
+        }
 
-        // ID
+        // Encoded code
         doc.setFontSize(lh <= 30 ? 3 : 3.5);
         doc.setTextColor(150);
-        doc.text(truncateId(item.id), x + lw / 2, curY, { align: 'center' });
+        doc.text(truncateId(labelCode(item).value, 14), x + lw / 2, curY, {
+          align: 'center',
+        });
 
         // Move to next position
         col++;
@@ -469,7 +558,7 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                 <div class="flex gap-2">
                   <button
                     type="button"
-                    onClick={() => setCodeType('qr')}
+                    onClick={() => selectCodeType('qr')}
                     class={`flex flex-1 items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
                       codeType() === 'qr'
                         ? 'bg-accent-primary/10 border-accent-primary text-accent-primary'
@@ -487,7 +576,7 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                   </button>
                   <button
                     type="button"
-                    onClick={() => setCodeType('barcode')}
+                    onClick={() => selectCodeType('barcode')}
                     class={`flex flex-1 items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
                       codeType() === 'barcode'
                         ? 'bg-accent-primary/10 border-accent-primary text-accent-primary'
@@ -503,6 +592,17 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                     </svg>
                     Barcode
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => selectCodeType('ean13')}
+                    class={`flex flex-1 items-center justify-center gap-2 rounded-lg border px-3 py-2 text-sm font-medium transition-colors ${
+                      codeType() === 'ean13'
+                        ? 'bg-accent-primary/10 border-accent-primary text-accent-primary'
+                        : 'border-border-default bg-bg-surface text-text-secondary hover:bg-bg-hover'
+                    }`}
+                  >
+                    EAN-13
+                  </button>
                 </div>
               </div>
 
@@ -523,6 +623,46 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                   </For>
                 </select>
               </div>
+
+              {/* Item photo */}
+              <label class="col-span-2 flex items-center gap-2 text-sm text-text-primary">
+                <input
+                  type="checkbox"
+                  checked={showImage()}
+                  onChange={(e) => setShowImage(e.currentTarget.checked)}
+                  class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                />
+                Print item photo beside the code
+                <span class="text-xs text-text-muted">
+                  (items without a photo print as usual)
+                </span>
+              </label>
+
+              {/* Code to encode */}
+              <div class="col-span-2">
+                <label class="mb-2 block text-sm font-medium text-text-primary">
+                  Encode
+                </label>
+                <select
+                  value={codeSource()}
+                  onChange={(e) =>
+                    setCodeSource(e.currentTarget.value as CodeSource)
+                  }
+                  class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-accent-primary focus:outline-none"
+                >
+                  <option value="id">Item ID</option>
+                  <option value="sku">SKU</option>
+                  <option value="gtin">GTIN / EAN barcode</option>
+                </select>
+                <p class="mt-1 text-xs text-text-muted">
+                  <Show
+                    when={codeType() === 'ean13'}
+                    fallback="Items without the chosen code print their item ID."
+                  >
+                    Items without an EAN-13 or UPC-A barcode print as Code128.
+                  </Show>
+                </p>
+              </div>
             </div>
 
             {/* Items with copy count */}
@@ -580,6 +720,25 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                             </Show>
                           </p>
                         </div>
+                        <Show when={item.lots?.length}>
+                          <select
+                            value={itemLots[item.id] ?? ''}
+                            onChange={(e) =>
+                              setItemLots(item.id, e.currentTarget.value)
+                            }
+                            aria-label="Lot on label"
+                            class="h-7 max-w-[11rem] rounded border border-border-default bg-bg-surface px-2 text-xs text-text-primary focus:border-accent-primary focus:outline-none"
+                          >
+                            <option value="">No lot</option>
+                            <For each={item.lots}>
+                              {(lot) => (
+                                <option value={lot.lotNumber}>
+                                  {formatLot(lot)}
+                                </option>
+                              )}
+                            </For>
+                          </select>
+                        </Show>
                         <div class="flex items-center gap-2">
                           <span class="whitespace-nowrap text-xs text-text-muted">
                             Qty: {item.quantity}
@@ -657,7 +816,12 @@ export const PrintLabelsModal: Component<PrintLabelsModalProps> = (props) => {
                       itemName={item.name}
                       unit={item.unit}
                       storehouse={item.storehouse}
+                      lot={lotText(item) || undefined}
+                      imageUrl={photo(item)}
+                      sku={item.sku}
+                      barcodes={item.barcodes}
                       codeType={codeType()}
+                      codeSource={codeSource()}
                       size={
                         (activePreset().columns ?? 4) >= 4
                           ? 'sm'
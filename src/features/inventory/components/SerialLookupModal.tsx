@@ -0,0 +1,227 @@
+/**
+ * SerialLookupModal – find one unit by its serial number.
+ *
+ * Shows the item, where the unit is now and everything that happened to
+ * it: the import that received it, transfers between storehouses and the
+ * sale to a client, each linking to its record. Opened from the header,
+ * or by scanning a serial number nothing else on screen claims.
+ */
+import {
+  createEffect,
+  createSignal,
+  For,
+  Show,
+  type Component,
+} from 'solid-js';
+import { A } from '@solidjs/router';
+import { Button } from '@/shared/ui/Button';
+import { createQuery } from '@/shared/lib/create-query';
+import { formatDate } from '@/shared/lib/format';
+import { getBusiness } from '@/shared/stores/business.store';
+import { getSerialHistory } from '../api/inventory.api';
+import type { SerialEvent } from '../types/inventory.types';
+
+interface SerialLookupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Looked up as soon as the modal opens */
+  serial?: string;
+}
+
+const EVENT_CONFIG: Record<
+  SerialEvent['type'],
+  { label: string; badge: string; href: string }
+> = {
+  import: {
+    label: 'Received',
+    badge: 'bg-status-success-bg text-status-success-text',
+    href: '/imports',
+  },
+  transfer: {
+    label: 'Transferred',
+    badge: 'bg-status-warning-bg text-status-warning-text',
+    href: '/transfers',
+  },
+  sale: {
+    label: 'Sold',
+    badge: 'bg-status-info-bg text-status-info-text',
+    href: '/orders',
+  },
+};
+
+function describeEvent(event: SerialEvent): string {
+  switch (event.type) {
+    case 'import':
+      return `Into ${event.storeHouse.name}${event.partner ? ` from ${event.partner.name}` : ''}`;
+    case 'transfer':
+      return `From ${event.storeHouse.name} to ${event.toStoreHouse?.name ?? '?'}`;
+    case 'sale':
+      return `From ${event.storeHouse.name}${event.partner ? ` to ${event.partner.name}` : ''}`;
+  }
+}
+
+export const SerialLookupModal: Component<SerialLookupModalProps> = (props) => {
+  const [draft, setDraft] = createSignal('');
+  const [serial, setSerial] = createSignal('');
+
+  createEffect(() => {
+    if (props.isOpen) {
+      setDraft(props.serial ?? '');
+      setSerial(props.serial ?? '');
+    }
+  });
+
+  const [history] = createQuery(
+    () => props.isOpen && serial(),
+    (value) => getSerialHistory(value),
+    { scopes: ['items'] }
+  );
+
+  const search = (e: Event) => {
+    e.preventDefault();
+    setSerial(draft().trim());
+  };
+
+  const formatDay = (date: string) => formatDate(date, getBusiness()?.timezone);
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+        onClick={(e) => {
+          if (e.target === e.currentTarget) props.onClose();
+        }}
+      >
+        <div class="max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-xl border border-border-default bg-bg-surface shadow-xl">
+          {/* Header */}
+          <div class="flex items-center justify-between border-b border-border-default px-6 py-4">
+            <h2 class="text-lg font-semibold text-text-primary">
+              Serial Number Lookup
+            </h2>
+            <button
+              onClick={props.onClose}
+              class="rounded-lg p-1.5 text-text-muted hover:bg-bg-hover hover:text-text-primary"
+              aria-label="Close"
+            >
+              <svg
+                class="h-5 w-5"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                  stroke-width="2"
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+
+          <div class="space-y-4 px-6 py-5">
+            <form onSubmit={search} class="flex gap-2">
+              <input
+                type="search"
+                value={draft()}
+                onInput={(e) => setDraft(e.currentTarget.value)}
+                placeholder="Serial number"
+                autofocus
+                class="block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 font-mono text-sm text-text-primary focus:border-accent-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+              />
+              <Button
+                type="submit"
+                variant="primary"
+                disabled={!draft().trim()}
+              >
+                Find
+              </Button>
+            </form>
+
+            <Show when={history.loading && serial()}>
+              <div class="h-24 animate-pulse rounded-lg bg-bg-hover" />
+            </Show>
+            <Show when={history.error}>
+              <p class="text-sm text-status-danger-text">
+                Couldn't look up that serial number. Please try again.
+              </p>
+            </Show>
+            <Show when={!history.loading && history() === null}>
+              <p class="text-sm text-text-secondary">
+                No unit has the serial number{' '}
+                <span class="font-mono text-text-primary">{serial()}</span>.
+              </p>
+            </Show>
+
+            <Show when={!history.loading && history()}>
+              {(found) => (
+                <div class="space-y-4">
+                  <div class="bg-bg-subtle rounded-lg p-4">
+                    <p class="font-mono text-sm text-text-secondary">
+                      {found().serial}
+                    </p>
+                    <A
+                      href={`/inventory?item=${found().item.id}`}
+                      onClick={props.onClose}
+                      class="mt-1 block text-base font-semibold text-text-primary hover:text-text-link"
+                    >
+                      {found().item.name}
+                    </A>
+                    <p class="mt-0.5 text-sm text-text-secondary">
+                      {found().storeHouse
+                        ? `In stock at ${found().storeHouse!.name}`
+                        : 'Not in stock'}
+                    </p>
+                  </div>
+
+                  <Show
+                    when={found().events.length > 0}
+                    fallback={
+                      <p class="text-sm text-text-muted">
+                        No receipts, transfers or sales list this unit yet.
+                      </p>
+                    }
+                  >
+                    <ol class="space-y-3 border-l border-border-default pl-4">
+                      <For each={found().events}>
+                        {(event) => (
+                          <li>
+                            <div class="flex items-center gap-2">
+                              <span
+                                class={`rounded-full px-2 py-0.5 text-xs font-medium ${EVENT_CONFIG[event.type].badge}`}
+                              >
+                                {EVENT_CONFIG[event.type].label}
+                              </span>
+                              <span class="text-xs text-text-muted">
+                                {formatDay(event.date)}
+                              </span>
+                              <Show when={event.status !== 'completed'}>
+                                <span class="text-xs capitalize text-text-muted">
+                                  ({event.status})
+                                </span>
+                              </Show>
+                            </div>
+                            <p class="mt-1 text-sm text-text-primary">
+                              {describeEvent(event)}
+                            </p>
+                            <A
+                              href={`${EVENT_CONFIG[event.type].href}?id=${event.reference}`}
+                              onClick={props.onClose}
+                              class="font-mono text-xs text-text-link hover:underline"
+                            >
+                              #{event.reference.slice(-8)}
+                            </A>
+                          </li>
+                        )}
+                      </For>
+                    </ol>
+                  </Show>
+                </div>
+              )}
+            </Show>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -0,0 +1,174 @@
+/**
+ * SerialNumbersInput – serial numbers of the units on a line.
+ *
+ * With `options` (the units in stock) serials are picked from the list,
+ * typed or scanned; without them they are typed, pasted or scanned in as
+ * units arrive. Scans are claimed only while the line still needs serials.
+ */
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { parseSerials } from '../lib/serials';
+
+interface SerialNumbersInputProps {
+  value: string[];
+  onChange: (serials: string[]) => void;
+  /** Units to choose from; free entry when omitted */
+  options?: string[];
+  /** Units on the line; no more serials are taken once reached */
+  max?: number;
+  disabled?: boolean;
+}
+
+export const SerialNumbersInput: Component<SerialNumbersInputProps> = (
+  props
+) => {
+  const [draft, setDraft] = createSignal('');
+  const [error, setError] = createSignal<string | null>(null);
+
+  const isFull = () =>
+    props.max !== undefined && props.value.length >= props.max;
+  const isSelected = (serial: string) => props.value.includes(serial);
+
+  const add = (serials: string[]): boolean => {
+    const fresh = serials.filter((serial) => !isSelected(serial));
+    const unknown = props.options
+      ? fresh.find((serial) => !props.options!.includes(serial))
+      : undefined;
+    if (unknown) {
+      setError(`${unknown} is not in stock here`);
+      return false;
+    }
+    const room =
+      props.max === undefined ? fresh.length : props.max - props.value.length;
+    if (fresh.length > room) {
+      setError(`Only ${props.max} serial numbers are needed`);
+      return false;
+    }
+    props.onChange([...props.value, ...fresh]);
+    setError(null);
+    return true;
+  };
+
+  const addDraft = () => {
+    if (add(parseSerials(draft()))) setDraft('');
+  };
+
+  const toggle = (serial: string) => {
+    if (isSelected(serial)) remove(serial);
+    else add([serial]);
+  };
+
+  const remove = (serial: string) => {
+    props.onChange(props.value.filter((s) => s !== serial));
+    setError(null);
+  };
+
+  useScanHandler((code) => {
+    if (props.disabled || isFull() || isSelected(code)) return false;
+    if (props.options && !props.options.includes(code)) return false;
+    return add([code]);
+  });
+
+  const chipClass =
+    'inline-flex items-center gap-1.5 rounded-full px-2.5 py-1 font-mono text-xs';
+
+  return (
+    <div>
+      <Show
+        when={props.options}
+        fallback={
+          <Show when={props.value.length > 0}>
+            <div class="mb-2 flex flex-wrap gap-2">
+              <For each={props.value}>
+                {(serial) => (
+                  <span class={`bg-bg-subtle text-text-primary ${chipClass}`}>
+                    {serial}
+                    <Show when={!props.disabled}>
+                      <button
+                        type="button"
+                        onClick={() => remove(serial)}
+                        class="text-text-muted hover:text-status-danger-text"
+                        aria-label={`Remove ${serial}`}
+                      >
+                        ×
+                      </button>
+                    </Show>
+                  </span>
+                )}
+              </For>
+            </div>
+          </Show>
+        }
+      >
+        {(options) => (
+          <Show
+            when={options().length > 0}
+            fallback={
+              <p class="mb-2 text-xs text-text-muted">
+                No serial numbers in stock here
+              </p>
+            }
+          >
+            <div class="mb-2 flex max-h-28 flex-wrap gap-2 overflow-y-auto">
+              <For each={options()}>
+                {(serial) => (
+                  <button
+                    type="button"
+                    onClick={() => toggle(serial)}
+                    disabled={props.disabled}
+                    aria-pressed={isSelected(serial)}
+                    class={`${chipClass} border ${
+                      isSelected(serial)
+                        ? 'border-accent-primary bg-accent-primary text-white'
+                        : 'hover:bg-bg-subtle border-border-default text-text-primary'
+                    }`}
+                  >
+                    {serial}
+                  </button>
+                )}
+              </For>
+            </div>
+          </Show>
+        )}
+      </Show>
+
+      <Show when={!props.disabled}>
+        <div class="flex gap-2">
+          <input
+            type="text"
+            value={draft()}
+            onInput={(e) => {
+              setDraft(e.currentTarget.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addDraft();
+              }
+            }}
+            placeholder={
+              props.options ? 'Type or scan a serial' : 'Type, paste or scan'
+            }
+            class="placeholder-text-tertiary block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 font-mono text-sm text-text-primary focus:border-accent-primary focus:outline-none focus:ring-1 focus:ring-accent-primary"
+          />
+          <button
+            type="button"
+            onClick={addDraft}
+            disabled={!draft().trim()}
+            class="hover:bg-bg-subtle rounded-lg border border-border-default px-3 py-2 text-sm font-medium text-text-primary disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        <p class="mt-1 text-xs text-text-muted">
+          {props.value.length}
+          {props.max !== undefined ? ` of ${props.max}` : ''} serial numbers
+        </p>
+        <Show when={error()}>
+          <p class="mt-1 text-xs text-status-danger-text">{error()}</p>
+        </Show>
+      </Show>
+    </div>
+  );
+};
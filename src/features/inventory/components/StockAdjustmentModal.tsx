@@ -1,9 +1,19 @@
-import { createSignal, Show, type Component } from 'solid-js';
+import {
+  createEffect,
+  createSignal,
+  For,
+  Show,
+  type Component,
+} from 'solid-js';
 import { Button } from '@/shared/ui/Button';
 import { Input } from '@/shared/ui/Input';
 import { Alert } from '@/shared/ui/Alert';
 import type { Item, StockAdjustmentRequest } from '../types/inventory.types';
 import { adjustStock } from '../api/inventory.api';
+import { getStockLevel } from '../lib/inventory-stats';
+import { formatLot, sortLotsByExpiry } from '../lib/lots';
+import { getItemSerials } from '../lib/serials';
+import { SerialNumbersInput } from './SerialNumbersInput';
 import { getErrorMessage } from '@/shared/lib/error-messages';
 
 interface StockAdjustmentModalProps {
@@ -26,13 +36,47 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
   const [isSubmitting, setIsSubmitting] = createSignal(false);
   const [error, setError] = createSignal('');
   const [success, setSuccess] = createSignal(false);
+  const [storeHouse, setStoreHouse] = createSignal(props.item.storeHouse.id);
+  const [lotNumber, setLotNumber] = createSignal('');
+  const [serials, setSerials] = createSignal<string[]>([]);
+
+  // Adjust at the home storehouse unless another location is picked
+  createEffect(() => {
+    if (props.isOpen) setStoreHouse(props.item.storeHouse.id);
+  });
+
+  // Lots held at the selected storehouse, for writing off a specific one
+  const lots = () =>
+    sortLotsByExpiry(getStockLevel(props.item, storeHouse())?.lots ?? []);
+
+  // Stock held at the selected storehouse
+  const available = () =>
+    getStockLevel(props.item, storeHouse())?.quantity ?? 0;
+
+  // Serialized items add or remove exactly the units listed
+  const units = () =>
+    props.item.serialized ? serials().length : parseInt(quantity(), 10);
+
+  const changeType = (type: 'add' | 'remove') => {
+    setAdjustmentType(type);
+    setSerials([]);
+  };
 
   const handleSubmit = async (e: Event) => {
     e.preventDefault();
     setError('');
     setSuccess(false);
 
-    const qty = parseInt(quantity(), 10);
+    if (props.item.serialized && serials().length === 0) {
+      setError(
+        adjustmentType() === 'add'
+          ? 'Enter the serial numbers of the units to add'
+          : 'Pick the serial numbers of the units to remove'
+      );
+      return;
+    }
+
+    const qty = units();
     if (isNaN(qty) || qty <= 0) {
       setError('Please enter a valid quantity greater than 0');
       return;
@@ -41,16 +85,18 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
     const finalQuantity = adjustmentType() === 'add' ? qty : -qty;
 
     // Check if removal would make quantity negative
-    if (finalQuantity < 0 && props.item.quantity + finalQuantity < 0) {
-      setError(
-        `Cannot remove ${qty} units. Only ${props.item.quantity} available.`
-      );
+    if (finalQuantity < 0 && available() + finalQuantity < 0) {
+      setError(`Cannot remove ${qty} units. Only ${available()} available.`);
       return;
     }
 
     const request: StockAdjustmentRequest = {
       itemId: props.item.id,
       quantity: finalQuantity,
+      storeHouse: storeHouse(),
+      lotNumber:
+        adjustmentType() === 'remove' ? lotNumber() || undefined : undefined,
+      serials: props.item.serialized ? serials() : undefined,
       reason: reason(),
       notes: notes().trim() || undefined,
     };
@@ -63,6 +109,8 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
       // Reset form
       setQuantity('');
       setNotes('');
+      setLotNumber('');
+      setSerials([]);
       setAdjustmentType('add');
 
       // Close after brief success message
@@ -78,11 +126,11 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
   };
 
   const newQuantity = () => {
-    const qty = parseInt(quantity(), 10);
-    if (isNaN(qty)) return props.item.quantity;
+    const qty = units();
+    if (isNaN(qty)) return available();
 
     const change = adjustmentType() === 'add' ? qty : -qty;
-    return Math.max(0, props.item.quantity + change);
+    return Math.max(0, available() + change);
   };
 
   return (
@@ -142,16 +190,49 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
           <div class="mb-4 rounded-lg border border-border-subtle bg-bg-surface-subtle p-3">
             <p class="text-sm text-text-secondary">Current Stock</p>
             <p class="text-2xl font-bold text-text-primary">
-              {props.item.quantity} {props.item.unit}
+              {available()} {props.item.unit}
             </p>
+            <Show when={props.item.stock.length > 1}>
+              <p class="text-xs text-text-muted">
+                at {getStockLevel(props.item, storeHouse())?.storeHouse.name} ·{' '}
+                {props.item.quantity} {props.item.unit} in total
+              </p>
+            </Show>
           </div>
 
           <form onSubmit={handleSubmit} class="space-y-4">
+            {/* Storehouse */}
+            <Show when={props.item.stock.length > 1}>
+              <div>
+                <label class="mb-1 block text-sm font-medium text-text-primary">
+                  Storehouse
+                </label>
+                <select
+                  value={storeHouse()}
+                  onChange={(e) => {
+                    setStoreHouse(e.currentTarget.value);
+                    setLotNumber('');
+                    setSerials([]);
+                  }}
+                  class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                >
+                  <For each={props.item.stock}>
+                    {(level) => (
+                      <option value={level.storeHouse.id}>
+                        {level.storeHouse.name} ({level.quantity}{' '}
+                        {props.item.unit})
+                      </option>
+                    )}
+                  </For>
+                </select>
+              </div>
+            </Show>
+
             {/* Add/Remove toggle */}
             <div class="flex gap-2">
               <button
                 type="button"
-                onClick={() => setAdjustmentType('add')}
+                onClick={() => changeType('add')}
                 class={`flex-1 rounded-lg border px-4 py-2 font-medium transition-colors ${
                   adjustmentType() === 'add'
                     ? 'border-accent-success bg-accent-success-subtle text-accent-success'
@@ -162,7 +243,7 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
               </button>
               <button
                 type="button"
-                onClick={() => setAdjustmentType('remove')}
+                onClick={() => changeType('remove')}
                 class={`flex-1 rounded-lg border px-4 py-2 font-medium transition-colors ${
                   adjustmentType() === 'remove'
                     ? 'border-accent-danger bg-accent-danger-subtle text-accent-danger'
@@ -173,17 +254,63 @@ export const StockAdjustmentModal: Component<StockAdjustmentModalProps> = (
               </button>
             </div>
 
-            {/* Quantity input */}
-            <Input
-              type="number"
-              label="Quantity"
-              value={quantity()}
-              onInput={(e) => setQuantity(e.currentTarget.value)}
-              min="1"
-              step="1"
-              required
-              helper={`New stock: ${newQuantity()} ${props.item.unit}`}
-            />
+            {/* Lot to remove from */}
+            <Show when={adjustmentType() === 'remove' && lots().length > 0}>
+              <div>
+                <label class="mb-1 block text-sm font-medium text-text-primary">
+                  Lot
+                </label>
+                <select
+                  value={lotNumber()}
+                  onChange={(e) => setLotNumber(e.currentTarget.value)}
+                  class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                >
+                  <option value="">First expiry first</option>
+                  <For each={lots()}>
+                    {(lot) => (
+                      <option value={lot.lotNumber}>
+                        {formatLot(lot)} ({lot.quantity} {props.item.unit})
+                      </option>
+                    )}
+                  </For>
+                </select>
+              </div>
+            </Show>
+
+            {/* Quantity, or the units by serial number */}
+            <Show when={props.item.serialized}>
+              <div>
+                <label class="mb-1 block text-sm font-medium text-text-primary">
+                  Serial Numbers
+                </label>
+                <SerialNumbersInput
+                  value={serials()}
+                  onChange={setSerials}
+                  options={
+                    adjustmentType() === 'remove'
+                      ? getItemSerials(props.item, storeHouse())
+                      : undefined
+                  }
+                  max={adjustmentType() === 'remove' ? available() : undefined}
+                  disabled={isSubmitting()}
+                />
+                <p class="mt-1 text-xs text-text-muted">
+                  New stock: {newQuantity()} {props.item.unit}
+                </p>
+              </div>
+            </Show>
+            <Show when={!props.item.serialized}>
+              <Input
+                type="number"
+                label="Quantity"
+                value={quantity()}
+                onInput={(e) => setQuantity(e.currentTarget.value)}
+                min="1"
+                step="1"
+                required
+                helper={`New stock: ${newQuantity()} ${props.item.unit}`}
+              />
+            </Show>
 
             {/* Reason select */}
             <div>
@@ -0,0 +1,261 @@
+/**
+ * StockMovementLedger – per-item history of every stock change.
+ *
+ * Manual adjustments, sales, imports and transfers in one list with the
+ * running balance after each movement. Filters are applied by the backend;
+ * the export contains exactly what is listed.
+ */
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { Button } from '@/shared/ui/Button';
+import { createQuery } from '@/shared/lib/create-query';
+import { downloadCsv } from '@/shared/lib/csv';
+import { formatDate } from '@/shared/lib/format';
+import { getBusiness } from '@/shared/stores/business.store';
+import { getStockMovements } from '../api/inventory.api';
+import {
+  MOVEMENT_REASON_LABELS,
+  getMovementPerformers,
+  getMovementReasonLabel,
+  stockMovementsToCsv,
+} from '../lib/stock-movements';
+import type { Item, StockMovement } from '../types/inventory.types';
+
+interface StockMovementLedgerProps {
+  item: Item;
+}
+
+const SOURCE_BADGES: Record<StockMovement['source'], string> = {
+  adjustment: 'bg-bg-hover text-text-secondary',
+  sale: 'bg-status-info-bg text-status-info-text',
+  import: 'bg-status-success-bg text-status-success-text',
+  transfer: 'bg-status-warning-bg text-status-warning-text',
+  assembly: 'bg-accent-primary-subtle text-accent-primary',
+};
+
+const FILTER_CLASS =
+  'w-full rounded-lg border border-border-default bg-bg-surface px-2 py-1.5 text-sm text-text-primary focus:border-accent-primary focus:outline-none';
+
+export const StockMovementLedger: Component<StockMovementLedgerProps> = (
+  props
+) => {
+  const [reason, setReason] = createSignal('');
+  const [performedBy, setPerformedBy] = createSignal('');
+  const [dateFrom, setDateFrom] = createSignal('');
+  const [dateTo, setDateTo] = createSignal('');
+  // Everyone seen so far, so picking a user doesn't shrink the user list
+  const [performers, setPerformers] = createSignal<
+    Array<{ id: string; name: string }>
+  >([]);
+
+  const [movements] = createQuery(
+    () => ({
+      itemId: props.item.id,
+      reasons: reason() ? [reason()] : undefined,
+      performedBy: performedBy() || undefined,
+      dateFrom: dateFrom() || undefined,
+      dateTo: dateTo() || undefined,
+    }),
+    async ({ itemId, ...filters }) => {
+      const result = await getStockMovements(itemId, filters);
+      setPerformers((prev) =>
+        getMovementPerformers([
+          ...result,
+          ...prev.map((performer) => ({ performedBy: performer })),
+        ])
+      );
+      return result;
+    },
+    { scopes: ['items'] }
+  );
+
+  const totals = () =>
+    (movements() ?? []).reduce(
+      (sum, m) => ({
+        in: sum.in + Math.max(0, m.change),
+        out: sum.out + Math.max(0, -m.change),
+      }),
+      { in: 0, out: 0 }
+    );
+
+  const hasFilters = () =>
+    !!(reason() || performedBy() || dateFrom() || dateTo());
+
+  const clearFilters = () => {
+    setReason('');
+    setPerformedBy('');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const handleExport = () => {
+    const rows = movements() ?? [];
+    if (rows.length === 0) return;
+    const slug = props.item.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const today = new Date().toISOString().slice(0, 10);
+    downloadCsv(`stock-movements-${slug}-${today}`, stockMovementsToCsv(rows));
+  };
+
+  return (
+    <div class="space-y-3">
+      {/* Filters */}
+      <div class="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        <select
+          value={reason()}
+          onChange={(e) => setReason(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Reason"
+        >
+          <option value="">All reasons</option>
+          <For each={Object.entries(MOVEMENT_REASON_LABELS)}>
+            {([value, label]) => <option value={value}>{label}</option>}
+          </For>
+        </select>
+        <select
+          value={performedBy()}
+          onChange={(e) => setPerformedBy(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Performed by"
+        >
+          <option value="">All users</option>
+          <For each={performers()}>
+            {(performer) => (
+              <option value={performer.id}>{performer.name}</option>
+            )}
+          </For>
+        </select>
+        <input
+          type="date"
+          value={dateFrom()}
+          onChange={(e) => setDateFrom(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Date from"
+        />
+        <input
+          type="date"
+          value={dateTo()}
+          onChange={(e) => setDateTo(e.currentTarget.value)}
+          class={FILTER_CLASS}
+          aria-label="Date to"
+        />
+      </div>
+
+      {/* Totals + actions */}
+      <div class="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div class="flex gap-4 text-text-secondary">
+          <span>
+            In:{' '}
+            <span class="font-medium text-status-success-text">
+              +{totals().in}
+            </span>
+          </span>
+          <span>
+            Out:{' '}
+            <span class="font-medium text-status-danger-text">
+              −{totals().out}
+            </span>
+          </span>
+        </div>
+        <div class="flex gap-2">
+          <Show when={hasFilters()}>
+            <Button size="sm" variant="ghost" onClick={clearFilters}>
+              Clear filters
+            </Button>
+          </Show>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleExport}
+            disabled={(movements() ?? []).length === 0}
+          >
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      {/* Ledger */}
+      <Show
+        when={!movements.loading}
+        fallback={
+          <div class="space-y-2">
+            <div class="h-10 animate-pulse rounded-lg bg-bg-hover" />
+            <div class="h-10 animate-pulse rounded-lg bg-bg-hover" />
+          </div>
+        }
+      >
+        <Show
+          when={(movements() ?? []).length > 0}
+          fallback={
+            <p class="rounded-lg border border-border-subtle py-6 text-center text-sm text-text-secondary">
+              {movements.error
+                ? 'Could not load stock movements.'
+                : hasFilters()
+                  ? 'No movements match these filters.'
+                  : 'No stock movements recorded yet.'}
+            </p>
+          }
+        >
+          <div class="overflow-hidden rounded-lg border border-border-subtle">
+            <table class="w-full text-sm">
+              <thead class="bg-bg-surface-subtle text-left text-xs uppercase text-text-secondary">
+                <tr>
+                  <th class="px-3 py-2 font-medium">Date</th>
+                  <th class="px-3 py-2 font-medium">Reason</th>
+                  <th class="px-3 py-2 text-right font-medium">Change</th>
+                  <th class="px-3 py-2 text-right font-medium">Balance</th>
+                  <th class="hidden px-3 py-2 font-medium sm:table-cell">By</th>
+                </tr>
+              </thead>
+              <tbody class="divide-y divide-border-subtle">
+                <For each={movements()}>
+                  {(movement) => (
+                    <tr>
+                      <td class="whitespace-nowrap px-3 py-2 text-text-secondary">
+                        {formatDate(
+                          movement.createdAt,
+                          getBusiness()?.timezone
+                        )}
+                      </td>
+                      <td class="px-3 py-2">
+                        <div class="flex items-center gap-1.5">
+                          <span
+                            class={`rounded px-1.5 py-0.5 text-xs ${SOURCE_BADGES[movement.source]}`}
+                          >
+                            {movement.source}
+                          </span>
+                          <span class="text-text-primary">
+                            {getMovementReasonLabel(movement.reason)}
+                          </span>
+                        </div>
+                        <Show when={movement.notes}>
+                          <p class="mt-0.5 text-xs text-text-secondary">
+                            {movement.notes}
+                          </p>
+                        </Show>
+                      </td>
+                      <td
+                        class={`px-3 py-2 text-right font-medium ${
+                          movement.change >= 0
+                            ? 'text-status-success-text'
+                            : 'text-status-danger-text'
+                        }`}
+                      >
+                        {movement.change > 0 ? '+' : ''}
+                        {movement.change}
+                      </td>
+                      <td class="px-3 py-2 text-right text-text-primary">
+                        {movement.newQuantity}
+                      </td>
+                      <td class="hidden px-3 py-2 text-text-secondary sm:table-cell">
+                        {movement.performedBy.name}
+                      </td>
+                    </tr>
+                  )}
+                </For>
+              </tbody>
+            </table>
+          </div>
+        </Show>
+      </Show>
+    </div>
+  );
+};
@@ -1,49 +1,93 @@
-import { type Component } from 'solid-js';
+import { For, Show, type Component } from 'solid-js';
 import type { StockStatus } from '../types/inventory.types';
 
+/** Stock at one storehouse, for the per-location breakdown */
+export interface LocationStockStatus {
+  name: string;
+  status: StockStatus;
+  quantity: number;
+}
+
 interface StockStatusBadgeProps {
   status: StockStatus;
   quantity: number;
+  /** Lists the storehouses that are low or out when there are several */
+  locations?: LocationStockStatus[];
+  /** Dot and quantity only, for pivot cells */
+  compact?: boolean;
 }
 
+const STATUS_CONFIG: Record<
+  StockStatus,
+  { label: string; bgColor: string; textColor: string; dotColor: string }
+> = {
+  'in-stock': {
+    label: 'In Stock',
+    bgColor: 'bg-status-success-bg',
+    textColor: 'text-status-success-text',
+    dotColor: 'bg-accent-success',
+  },
+  'low-stock': {
+    label: 'Low Stock',
+    bgColor: 'bg-status-warning-bg',
+    textColor: 'text-status-warning-text',
+    dotColor: 'bg-accent-warning',
+  },
+  'out-of-stock': {
+    label: 'Out of Stock',
+    bgColor: 'bg-status-danger-bg',
+    textColor: 'text-status-danger-text',
+    dotColor: 'bg-accent-danger',
+  },
+};
+
 export const StockStatusBadge: Component<StockStatusBadgeProps> = (props) => {
-  const statusConfig = () => {
-    switch (props.status) {
-      case 'in-stock':
-        return {
-          label: 'In Stock',
-          bgColor: 'bg-status-success-bg',
-          textColor: 'text-status-success-text',
-          dotColor: 'bg-accent-success',
-        };
-      case 'low-stock':
-        return {
-          label: 'Low Stock',
-          bgColor: 'bg-status-warning-bg',
-          textColor: 'text-status-warning-text',
-          dotColor: 'bg-accent-warning',
-        };
-      case 'out-of-stock':
-        return {
-          label: 'Out of Stock',
-          bgColor: 'bg-status-danger-bg',
-          textColor: 'text-status-danger-text',
-          dotColor: 'bg-accent-danger',
-        };
-    }
-  };
+  const statusConfig = () => STATUS_CONFIG[props.status];
+
+  // Locations needing attention, only worth listing when there are several
+  const attention = () =>
+    (props.locations?.length ?? 0) > 1
+      ? props.locations!.filter((location) => location.status !== 'in-stock')
+      : [];
 
   return (
-    <div class="flex items-center gap-2">
-      <span
-        class={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-medium ${statusConfig().bgColor} ${statusConfig().textColor}`}
-      >
-        <span class={`h-1.5 w-1.5 rounded-full ${statusConfig().dotColor}`} />
-        {statusConfig().label}
-      </span>
-      <span class="text-sm font-semibold text-text-primary">
-        {props.quantity}
-      </span>
-    </div>
+    <Show
+      when={!props.compact}
+      fallback={
+        <span
+          class={`inline-flex items-center gap-1.5 rounded-full px-2 py-0.5 text-sm font-semibold ${statusConfig().bgColor} ${statusConfig().textColor}`}
+          title={statusConfig().label}
+        >
+          <span class={`h-1.5 w-1.5 rounded-full ${statusConfig().dotColor}`} />
+          {props.quantity}
+        </span>
+      }
+    >
+      <div>
+        <div class="flex items-center gap-2">
+          <span
+            class={`inline-flex items-center gap-1.5 rounded-full px-2.5 py-0.5 text-xs font-medium ${statusConfig().bgColor} ${statusConfig().textColor}`}
+          >
+            <span
+              class={`h-1.5 w-1.5 rounded-full ${statusConfig().dotColor}`}
+            />
+            {statusConfig().label}
+          </span>
+          <span class="text-sm font-semibold text-text-primary">
+            {props.quantity}
+          </span>
+        </div>
+        <For each={attention()}>
+          {(location) => (
+            <p
+              class={`mt-0.5 text-xs ${STATUS_CONFIG[location.status].textColor}`}
+            >
+              {location.status === 'out-of-stock' ? 'Out' : 'Low'} at{' '}
+              {location.name} ({location.quantity})
+            </p>
+          )}
+        </For>
+      </div>
+    </Show>
   );
 };
@@ -2,7 +2,9 @@
  * TransferStockModal – transfer item stock between storehouses.
  *
  * Supports immediate (one-click) or pending (approve later) transfers.
- * Partial transfers create/merge item records in the destination storehouse.
+ * Stock moves between two locations of the same item; the source is one
+ * of the storehouses the item is stocked at. Serialized items move the
+ * units picked by serial number.
  */
 
 import {
@@ -17,7 +19,14 @@ import { getStorehouses } from '@/shared/api/storehouses.api';
 import { createTransfer } from '@/shared/api/transfers.api';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
+import {
+  getDefaultSourceStorehouse,
+  getStockLevel,
+} from '../lib/inventory-stats';
+import { getItemSerials } from '../lib/serials';
 import type { Item } from '../types/inventory.types';
+import { SerialNumbersInput } from './SerialNumbersInput';
 
 interface TransferStockModalProps {
   item: Item;
@@ -29,23 +38,41 @@ interface TransferStockModalProps {
 export const TransferStockModal: Component<TransferStockModalProps> = (
   props
 ) => {
+  const defaultSource = () => getDefaultSourceStorehouse(props.item);
+  const [fromStoreHouse, setFromStoreHouse] = createSignal(defaultSource());
   const [toStoreHouse, setToStoreHouse] = createSignal('');
   const [quantity, setQuantity] = createSignal(1);
+  const [serials, setSerials] = createSignal<string[]>([]);
   const [note, setNote] = createSignal('');
   const [immediate, setImmediate] = createSignal(true);
   const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const transferSubmission = createSubmissionKey();
   const [error, setError] = createSignal('');
 
   // Fetch storehouses
   const [storehouses] = createResource(() => getStorehouses());
 
-  // Available destinations (exclude current storehouse)
+  // Available destinations (exclude the source storehouse)
   const destinations = () => {
     const all = storehouses() || [];
-    return all.filter((sh) => sh.id !== props.item.storeHouse?.id);
+    return all.filter((sh) => sh.id !== fromStoreHouse());
   };
 
-  const maxQty = () => props.item.quantity;
+  const isLocked = (storehouseId: string) =>
+    !!storehouses()?.find((sh) => sh.id === storehouseId)?.isLocked;
+
+  const maxQty = () =>
+    getStockLevel(props.item, fromStoreHouse())?.quantity ?? 0;
+
+  // Serialized items move exactly the units picked
+  const units = () => (props.item.serialized ? serials().length : quantity());
+
+  const selectSource = (storehouseId: string) => {
+    setFromStoreHouse(storehouseId);
+    setSerials([]);
+    if (toStoreHouse() === storehouseId) setToStoreHouse('');
+    setQuantity(Math.min(quantity(), Math.max(maxQty(), 1)));
+  };
 
   const handleSubmit = async () => {
     setError('');
@@ -54,25 +81,32 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
       setError('Please select a destination storehouse');
       return;
     }
-    if (quantity() < 1 || quantity() > maxQty()) {
+    if (props.item.serialized && serials().length === 0) {
+      setError('Pick the serial numbers of the units to move');
+      return;
+    }
+    if (units() < 1 || units() > maxQty()) {
       setError(`Quantity must be between 1 and ${maxQty()}`);
       return;
     }
-    if (!props.item.storeHouse?.id) {
-      setError('Item has no source storehouse');
+    if (!getStockLevel(props.item, fromStoreHouse())) {
+      setError('Please select a source storehouse');
       return;
     }
 
     setIsSubmitting(true);
     try {
-      await createTransfer({
+      const transfer = {
         itemId: props.item.id,
-        fromStoreHouse: props.item.storeHouse.id,
+        fromStoreHouse: fromStoreHouse(),
         toStoreHouse: toStoreHouse(),
-        quantity: quantity(),
+        quantity: units(),
+        serials: props.item.serialized ? serials() : undefined,
         note: note() || undefined,
         immediate: immediate(),
-      });
+      };
+      await createTransfer(transfer, transferSubmission.keyFor(transfer));
+      transferSubmission.reset();
 
       notificationStore.success(
         immediate()
@@ -91,8 +125,10 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
   };
 
   const resetForm = () => {
+    setFromStoreHouse(defaultSource());
     setToStoreHouse('');
     setQuantity(1);
+    setSerials([]);
     setNote('');
     setImmediate(true);
     setError('');
@@ -120,8 +156,8 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
                 Transfer Stock
               </h2>
               <p class="mt-0.5 text-sm text-text-secondary">
-                Move <span class="font-medium">{props.item.name}</span> to
-                another storehouse
+                Move <span class="font-medium">{props.item.name}</span> between
+                storehouses
               </p>
             </div>
             <button
@@ -146,20 +182,31 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
 
           {/* Body */}
           <div class="space-y-4 px-6 py-5">
-            {/* Current location info */}
-            <div class="bg-bg-subtle rounded-lg p-3">
-              <div class="flex items-center justify-between text-sm">
-                <span class="text-text-secondary">Current Location</span>
-                <span class="font-medium text-text-primary">
-                  {props.item.storeHouse?.name || 'Unknown'}
-                </span>
-              </div>
-              <div class="mt-1 flex items-center justify-between text-sm">
-                <span class="text-text-secondary">Available Stock</span>
-                <span class="font-medium text-text-primary">
-                  {props.item.quantity} {props.item.unit}
-                </span>
-              </div>
+            {/* Source storehouse */}
+            <div>
+              <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                From Storehouse
+              </label>
+              <select
+                value={fromStoreHouse()}
+                onChange={(e) => selectSource(e.currentTarget.value)}
+                class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+              >
+                <For each={props.item.stock}>
+                  {(level) => (
+                    <option
+                      value={level.storeHouse.id}
+                      disabled={
+                        level.quantity === 0 || isLocked(level.storeHouse.id)
+                      }
+                    >
+                      {isLocked(level.storeHouse.id) ? '🔒 ' : ''}
+                      {level.storeHouse.name} — {level.quantity}{' '}
+                      {props.item.unit}
+                    </option>
+                  )}
+                </For>
+              </select>
             </div>
 
             {/* Destination storehouse */}
@@ -191,38 +238,52 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
               </Show>
             </div>
 
-            {/* Quantity */}
-            <div>
-              <label class="mb-1.5 block text-sm font-medium text-text-primary">
-                Quantity to Transfer
-              </label>
-              <div class="flex items-center gap-2">
-                <input
-                  type="number"
-                  min="1"
-                  max={maxQty()}
-                  value={quantity()}
-                  onInput={(e) =>
-                    setQuantity(parseInt(e.currentTarget.value) || 0)
-                  }
-                  class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+            {/* Quantity, or the units by serial number */}
+            <Show when={props.item.serialized}>
+              <div>
+                <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                  Serial Numbers to Transfer
+                </label>
+                <SerialNumbersInput
+                  value={serials()}
+                  onChange={setSerials}
+                  options={getItemSerials(props.item, fromStoreHouse())}
                 />
-                <span class="text-sm text-text-muted">
-                  / {maxQty()} {props.item.unit}
-                </span>
               </div>
-              <Show when={quantity() === maxQty()}>
-                <p class="text-status-warning mt-1 text-xs">
-                  Full transfer — item will be moved entirely
-                </p>
-              </Show>
-              <Show when={quantity() > 0 && quantity() < maxQty()}>
-                <p class="mt-1 text-xs text-text-muted">
-                  Partial transfer — {quantity()} {props.item.unit} will be
-                  moved, {maxQty() - quantity()} remains
-                </p>
-              </Show>
-            </div>
+            </Show>
+            <Show when={!props.item.serialized}>
+              <div>
+                <label class="mb-1.5 block text-sm font-medium text-text-primary">
+                  Quantity to Transfer
+                </label>
+                <div class="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min="1"
+                    max={maxQty()}
+                    value={quantity()}
+                    onInput={(e) =>
+                      setQuantity(parseInt(e.currentTarget.value) || 0)
+                    }
+                    class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                  />
+                  <span class="text-sm text-text-muted">
+                    / {maxQty()} {props.item.unit}
+                  </span>
+                </div>
+                <Show when={quantity() === maxQty()}>
+                  <p class="text-status-warning mt-1 text-xs">
+                    Full transfer — nothing will be left at the source
+                  </p>
+                </Show>
+                <Show when={quantity() > 0 && quantity() < maxQty()}>
+                  <p class="mt-1 text-xs text-text-muted">
+                    Partial transfer — {quantity()} {props.item.unit} will be
+                    moved, {maxQty() - quantity()} remains
+                  </p>
+                </Show>
+              </div>
+            </Show>
 
             {/* Note */}
             <div>
@@ -290,7 +351,7 @@ export const TransferStockModal: Component<TransferStockModalProps> = (
             <Button
               variant="primary"
               onClick={handleSubmit}
-              disabled={isSubmitting() || !toStoreHouse() || quantity() < 1}
+              disabled={isSubmitting() || !toStoreHouse() || units() < 1}
             >
               {isSubmitting()
                 ? 'Transferring...'
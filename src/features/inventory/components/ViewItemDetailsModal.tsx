@@ -11,17 +11,39 @@ import {
   getInventoryItems,
   updateItem,
   getItemUnits,
+  getReorderSuggestions,
 } from '../api/inventory.api';
+import { createQuery } from '@/shared/lib/create-query';
 import { getStorehouses } from '@/shared/api/storehouses.api';
 import { getBusiness } from '@/shared/stores/business.store';
 import { formatCurrency as sharedFormatCurrency } from '@/shared/lib/format';
-import type { Item } from '../types/inventory.types';
+import type { Item, KitComponent, PackUnit } from '../types/inventory.types';
+import { getLevelStockStatus } from '../lib/inventory-stats';
+import { daysUntil, formatLot, getItemLots } from '../lib/lots';
+import { formatConversion, validatePackUnits } from '../lib/units';
+import { formatDailySales } from '../lib/reorder';
+import {
+  getBuildableKits,
+  getComponentOptions,
+  isKit,
+  validateKitComponents,
+} from '../lib/kits';
+import { StockStatusBadge } from './StockStatusBadge';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage } from '@/shared/lib/error-messages';
 import type { Storehouse } from '@/shared/types/storehouse.types';
 import { BarcodeLabel } from './BarcodeLabel';
+import { BarcodeListInput } from './BarcodeListInput';
+import { PackUnitsInput } from './PackUnitsInput';
+import { KitComponentsInput } from './KitComponentsInput';
+import { ItemImageGallery } from './ItemImageGallery';
 import { PrintLabelsModal } from './PrintLabelsModal';
 import { TransferStockModal } from './TransferStockModal';
+import { AssembleKitModal } from './AssembleKitModal';
+import { StockAdjustmentModal } from './StockAdjustmentModal';
+import { StockMovementLedger } from './StockMovementLedger';
+import { ItemPriceHistory } from './ItemPriceHistory';
+import { SerialLookupModal } from './SerialLookupModal';
 import type { CodeType } from '@/shared/lib/barcode-utils';
 
 interface ViewItemDetailsModalProps {
@@ -41,21 +63,50 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
   const [previewCodeType, setPreviewCodeType] = createSignal<CodeType>('qr');
   const [showPrintModal, setShowPrintModal] = createSignal(false);
   const [showTransferModal, setShowTransferModal] = createSignal(false);
+  const [showAdjustModal, setShowAdjustModal] = createSignal(false);
+  const [showAssembleModal, setShowAssembleModal] = createSignal(false);
+  const [lookupSerial, setLookupSerial] = createSignal<string | null>(null);
+
+  // Read-only view: item details, its stock movement ledger or prices
+  const [activeTab, setActiveTab] = createSignal<
+    'details' | 'history' | 'prices'
+  >('details');
 
   // Fetch business info for label branding
   const business = getBusiness;
 
+  // Reorder point suggested by the item's recent sales
+  const [reorderSuggestions] = createQuery(
+    () => props.isOpen,
+    () => getReorderSuggestions(),
+    { scopes: ['analytics'] }
+  );
+  const suggestion = () => reorderSuggestions()?.byItem[props.item.id];
+
   // Form fields
   const [name, setName] = createSignal('');
   const [description, setDescription] = createSignal('');
   const [unitPrice, setUnitPrice] = createSignal('');
   const [origin, setOrigin] = createSignal('');
+  const [sku, setSku] = createSignal('');
+  const [barcodes, setBarcodes] = createSignal<string[]>([]);
+  const [serialized, setSerialized] = createSignal(false);
+  const [packUnits, setPackUnits] = createSignal<PackUnit[]>([]);
+  const [components, setComponents] = createSignal<KitComponent[]>([]);
+  const [images, setImages] = createSignal<string[]>([]);
+  const [isUploading, setIsUploading] = createSignal(false);
+  // Photo shown large in the details view
+  const [shownImage, setShownImage] = createSignal(0);
   const [quantity, setQuantity] = createSignal('');
   const [unit, setUnit] = createSignal('');
   const [tags, setTags] = createSignal<string[]>([]);
   const [tagInput, setTagInput] = createSignal('');
   const [storeHouse, setStoreHouse] = createSignal('');
   const [reorderLevel, setReorderLevel] = createSignal('');
+  // Per-storehouse low stock alerts by storehouse id, empty for the default
+  const [levelThresholds, setLevelThresholds] = createSignal<
+    Record<string, string>
+  >({});
 
   // Loading and error states
   const [isLoading, setIsLoading] = createSignal(false);
@@ -70,6 +121,14 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
   const [unitInput, setUnitInput] = createSignal('');
   const [showUnitSuggestions, setShowUnitSuggestions] = createSignal(false);
 
+  const thresholdsOf = (item: Item) =>
+    Object.fromEntries(
+      item.stock.map((level) => [
+        level.storeHouse.id,
+        level.lowStockAt?.toString() ?? '',
+      ])
+    );
+
   // Resources
   const [allItems] = createResource(() => getInventoryItems());
   const [storehouses] = createResource(() => getStorehouses());
@@ -93,12 +152,20 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
       setDescription(item.description || '');
       setUnitPrice(item.unitPrice.toString());
       setOrigin(item.origin || '');
+      setSku(item.sku || '');
+      setBarcodes(item.barcodes || []);
+      setSerialized(item.serialized ?? false);
+      setPackUnits(item.packUnits ?? []);
+      setComponents(item.components ?? []);
+      setImages(item.imageUrl ?? []);
       setQuantity(item.quantity.toString());
       setUnit(item.unit);
       setUnitInput(item.unit);
       setTags(item.tags || []);
       setStoreHouse(item.storeHouse.id);
       setReorderLevel(item.lowStockAt?.toString() || '');
+      setLevelThresholds(thresholdsOf(item));
+      setShownImage(0);
       setIsEditMode(false);
       setError(null);
     }
@@ -226,6 +293,18 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
       return;
     }
 
+    const packProblem = validatePackUnits(packUnits(), unit().trim());
+    if (packProblem) {
+      setError(packProblem);
+      return;
+    }
+
+    const kitProblem = validateKitComponents(components());
+    if (kitProblem) {
+      setError(kitProblem);
+      return;
+    }
+
     if (!storeHouse()) {
       setError('Please select a storehouse');
       return;
@@ -247,6 +326,14 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
         description: description().trim() || undefined,
         unitPrice: parsedUnitPrice,
         origin: origin().trim() || undefined,
+        sku: sku().trim() || undefined,
+        barcodes: barcodes(),
+        serialized: serialized(),
+        packUnits: packUnits().map((pack) => ({
+          ...pack,
+          unit: pack.unit.trim(),
+        })),
+        components: components(),
         quantity: parsedQuantity,
         unit: unit().trim(),
         tags: tags(),
@@ -254,8 +341,15 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
           id: selectedStoreHouse.id,
           name: selectedStoreHouse.name,
         },
-        reorderLevel: reorderLevel() ? parseInt(reorderLevel()) : undefined,
-        imageUrl: props.item.imageUrl, // Keep existing images
+        lowStockAt: reorderLevel() ? parseInt(reorderLevel()) : undefined,
+        stock: props.item.stock.map((level) => {
+          const threshold = levelThresholds()[level.storeHouse.id];
+          return {
+            ...level,
+            lowStockAt: threshold ? parseInt(threshold) : undefined,
+          };
+        }),
+        imageUrl: images(),
       };
 
       await updateItem(props.item.id, updates);
@@ -283,12 +377,20 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
       setDescription(item.description || '');
       setUnitPrice(item.unitPrice.toString());
       setOrigin(item.origin || '');
+      setSku(item.sku || '');
+      setBarcodes(item.barcodes || []);
+      setSerialized(item.serialized ?? false);
+      setPackUnits(item.packUnits ?? []);
+      setComponents(item.components ?? []);
+      setImages(item.imageUrl ?? []);
       setQuantity(item.quantity.toString());
       setUnit(item.unit);
       setUnitInput(item.unit);
       setTags(item.tags || []);
       setStoreHouse(item.storeHouse.id);
       setReorderLevel(item.lowStockAt?.toString() || '');
+      setLevelThresholds(thresholdsOf(item));
+      setShownImage(0);
       setIsEditMode(false);
       setError(null);
     } else {
@@ -342,10 +444,54 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
             </button>
           </div>
 
+          {/* Tabs (read-only mode) */}
+          <Show when={!isEditMode()}>
+            <div class="flex gap-1 border-b border-border-default px-6">
+              <For
+                each={
+                  [
+                    { id: 'details', label: 'Details' },
+                    { id: 'history', label: 'Stock History' },
+                    { id: 'prices', label: 'Price History' },
+                  ] as const
+                }
+              >
+                {(tab) => (
+                  <button
+                    type="button"
+                    onClick={() => setActiveTab(tab.id)}
+                    class={`-mb-px border-b-2 px-3 py-2 text-sm font-medium transition-colors ${
+                      activeTab() === tab.id
+                        ? 'border-accent-primary text-text-primary'
+                        : 'border-transparent text-text-secondary hover:text-text-primary'
+                    }`}
+                  >
+                    {tab.label}
+                  </button>
+                )}
+              </For>
+            </div>
+          </Show>
+
+          {/* Stock movement ledger */}
+          <Show when={!isEditMode() && activeTab() === 'history'}>
+            <div class="max-h-[70vh] overflow-y-auto px-6 py-4">
+              <StockMovementLedger item={props.item} />
+            </div>
+          </Show>
+
+          {/* Catalogue, sold and paid prices */}
+          <Show when={!isEditMode() && activeTab() === 'prices'}>
+            <div class="max-h-[70vh] overflow-y-auto px-6 py-4">
+              <ItemPriceHistory item={props.item} />
+            </div>
+          </Show>
+
           {/* Content */}
           <form
             onSubmit={handleSubmit}
             class="max-h-[70vh] overflow-y-auto px-6 py-4"
+            hidden={!isEditMode() && activeTab() !== 'details'}
           >
             <div class="space-y-4">
               {/* Error Message */}
@@ -358,6 +504,44 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
               {/* Read-only mode display */}
               <Show when={!isEditMode()}>
                 <div class="space-y-4">
+                  {/* Photos */}
+                  <Show when={props.item.imageUrl?.length}>
+                    <div>
+                      <img
+                        src={
+                          props.item.imageUrl![shownImage()] ??
+                          props.item.imageUrl![0]
+                        }
+                        alt={props.item.name}
+                        class="h-56 w-full rounded-lg border border-border-default bg-bg-hover object-contain"
+                      />
+                      <Show when={props.item.imageUrl!.length > 1}>
+                        <div class="mt-2 flex gap-2 overflow-x-auto">
+                          <For each={props.item.imageUrl}>
+                            {(url, index) => (
+                              <button
+                                type="button"
+                                onClick={() => setShownImage(index())}
+                                aria-label={`Show photo ${index() + 1}`}
+                                class={`h-14 w-14 flex-shrink-0 overflow-hidden rounded border-2 ${
+                                  index() === shownImage()
+                                    ? 'border-accent-primary'
+                                    : 'border-transparent'
+                                }`}
+                              >
+                                <img
+                                  src={url}
+                                  alt=""
+                                  class="h-full w-full object-cover"
+                                />
+                              </button>
+                            )}
+                          </For>
+                        </div>
+                      </Show>
+                    </div>
+                  </Show>
+
                   {/* Name */}
                   <div>
                     <label class="block text-sm font-medium text-text-secondary">
@@ -400,14 +584,23 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                         {props.item.quantity} {props.item.unit}
                       </p>
                     </div>
-                    <Show when={props.item.lowStockAt}>
+                    <Show when={props.item.lowStockAt || suggestion()}>
                       <div>
                         <label class="block text-sm font-medium text-text-secondary">
                           Low Stock Alert
                         </label>
                         <p class="mt-1 text-base text-text-primary">
-                          {props.item.lowStockAt}
+                          {props.item.lowStockAt || '—'}
                         </p>
+                        <Show when={suggestion()}>
+                          {(suggested) => (
+                            <p class="mt-0.5 text-xs text-text-muted">
+                              Suggested {suggested().reorderPoint}, order{' '}
+                              {suggested().reorderQuantity} · sells{' '}
+                              {formatDailySales(suggested(), props.item.unit)}
+                            </p>
+                          )}
+                        </Show>
                       </div>
                     </Show>
                   </div>
@@ -424,6 +617,39 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                     </div>
                   </Show>
 
+                  {/* SKU and barcodes */}
+                  <Show when={props.item.sku || props.item.barcodes?.length}>
+                    <div class="grid grid-cols-2 gap-4">
+                      <div>
+                        <label class="block text-sm font-medium text-text-secondary">
+                          SKU
+                        </label>
+                        <p class="mt-1 font-mono text-base text-text-primary">
+                          {props.item.sku || '—'}
+                        </p>
+                      </div>
+                      <div>
+                        <label class="block text-sm font-medium text-text-secondary">
+                          Barcodes
+                        </label>
+                        <Show
+                          when={props.item.barcodes?.length}
+                          fallback={
+                            <p class="mt-1 text-base text-text-muted">—</p>
+                          }
+                        >
+                          <For each={props.item.barcodes}>
+                            {(code) => (
+                              <p class="mt-1 font-mono text-base text-text-primary">
+                                {code}
+                              </p>
+                            )}
+                          </For>
+                        </Show>
+                      </div>
+                    </div>
+                  </Show>
+
                   {/* Storehouse */}
                   <div>
                     <label class="block text-sm font-medium text-text-secondary">
@@ -434,6 +660,180 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                     </p>
                   </div>
 
+                  {/* Stock by storehouse */}
+                  <Show when={props.item.stock.length > 1}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Stock by Storehouse
+                      </label>
+                      <div class="mt-1 divide-y divide-border-default rounded-lg border border-border-default">
+                        <For each={props.item.stock}>
+                          {(level) => (
+                            <div class="flex items-center justify-between px-3 py-2 text-sm">
+                              <span class="text-text-primary">
+                                {level.storeHouse.name}
+                                <Show
+                                  when={
+                                    level.storeHouse.id ===
+                                    props.item.storeHouse.id
+                                  }
+                                >
+                                  <span class="text-text-muted"> (home)</span>
+                                </Show>
+                              </span>
+                              <div class="flex items-center gap-3">
+                                <Show when={level.lowStockAt !== undefined}>
+                                  <span class="text-xs text-text-secondary">
+                                    Alert at {level.lowStockAt}
+                                  </span>
+                                </Show>
+                                <StockStatusBadge
+                                  status={getLevelStockStatus(
+                                    props.item,
+                                    level
+                                  )}
+                                  quantity={level.quantity}
+                                  compact
+                                />
+                              </div>
+                            </div>
+                          )}
+                        </For>
+                      </div>
+                    </div>
+                  </Show>
+
+                  {/* Pack units and the stock in each */}
+                  <Show when={props.item.packUnits?.length}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Pack Units
+                      </label>
+                      <div class="mt-1 divide-y divide-border-default rounded-lg border border-border-default">
+                        <For each={props.item.packUnits}>
+                          {(pack) => (
+                            <div class="flex items-center justify-between px-3 py-2 text-sm">
+                              <span class="text-text-primary">
+                                {formatConversion(pack, props.item.unit)}
+                              </span>
+                              <span class="text-text-secondary">
+                                {Math.floor(props.item.quantity / pack.factor)}{' '}
+                                {pack.unit} in stock
+                              </span>
+                            </div>
+                          )}
+                        </For>
+                      </div>
+                    </div>
+                  </Show>
+
+                  {/* Kit components and how many more sets they make */}
+                  <Show when={isKit(props.item)}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Kit Components
+                      </label>
+                      <div class="mt-1 divide-y divide-border-default rounded-lg border border-border-default">
+                        <For each={props.item.components}>
+                          {(component) => (
+                            <div class="flex items-center justify-between px-3 py-2 text-sm">
+                              <span class="text-text-primary">
+                                {component.item.name}
+                              </span>
+                              <span class="text-text-secondary">
+                                {component.quantity} {component.item.unit} per{' '}
+                                {props.item.unit}
+                              </span>
+                            </div>
+                          )}
+                        </For>
+                      </div>
+                      <p class="mt-1 text-xs text-text-muted">
+                        {props.item.quantity} assembled ·{' '}
+                        {getBuildableKits(props.item)} more can be built from
+                        component stock
+                      </p>
+                    </div>
+                  </Show>
+
+                  {/* Lots */}
+                  <Show when={getItemLots(props.item).length > 0}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Lots
+                      </label>
+                      <div class="mt-1 divide-y divide-border-default rounded-lg border border-border-default">
+                        <For each={getItemLots(props.item)}>
+                          {(lot) => (
+                            <div class="flex items-center justify-between px-3 py-2 text-sm">
+                              <span
+                                class={
+                                  lot.expiresAt && daysUntil(lot.expiresAt) < 0
+                                    ? 'text-status-danger-text'
+                                    : 'text-text-primary'
+                                }
+                              >
+                                {formatLot(lot)}
+                              </span>
+                              <span class="text-text-secondary">
+                                {lot.quantity} {props.item.unit}
+                              </span>
+                            </div>
+                          )}
+                        </For>
+                      </div>
+                    </div>
+                  </Show>
+
+                  {/* Serial numbers in stock, per storehouse */}
+                  <Show when={props.item.serialized}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Serial Numbers
+                      </label>
+                      <Show
+                        when={props.item.stock.some(
+                          (level) => (level.serials?.length ?? 0) > 0
+                        )}
+                        fallback={
+                          <p class="mt-1 text-sm text-text-muted">
+                            No serial numbers recorded for the stock on hand
+                          </p>
+                        }
+                      >
+                        <div class="mt-1 space-y-2">
+                          <For
+                            each={props.item.stock.filter(
+                              (level) => (level.serials?.length ?? 0) > 0
+                            )}
+                          >
+                            {(level) => (
+                              <div>
+                                <p class="text-xs text-text-muted">
+                                  {level.storeHouse.name}
+                                </p>
+                                <div class="mt-1 flex flex-wrap gap-1.5">
+                                  <For each={level.serials}>
+                                    {(serial) => (
+                                      <button
+                                        type="button"
+                                        onClick={() => setLookupSerial(serial)}
+                                        class="rounded-full border border-border-default px-2.5 py-0.5 font-mono text-xs text-text-primary hover:bg-bg-hover"
+                                        title="Show this unit's history"
+                                      >
+                                        {serial}
+                                      </button>
+                                    )}
+                                  </For>
+                                </div>
+                              </div>
+                            )}
+                          </For>
+                        </div>
+                      </Show>
+                    </div>
+                  </Show>
+
                   {/* Tags */}
                   <Show when={props.item.tags.length > 0}>
                     <div>
@@ -489,6 +889,8 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                         itemName={props.item.name}
                         unit={props.item.unit}
                         storehouse={props.item.storeHouse?.name}
+                        sku={props.item.sku}
+                        barcodes={props.item.barcodes}
                         codeType={previewCodeType()}
                         size="md"
                       />
@@ -707,7 +1109,173 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                         class="mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary placeholder-text-muted focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
                         placeholder="Low stock alert threshold"
                       />
+                      <Show when={suggestion()}>
+                        {(suggested) => (
+                          <p class="mt-1 text-xs text-text-muted">
+                            Suggested {suggested().reorderPoint} from sales of{' '}
+                            {formatDailySales(suggested(), props.item.unit)}
+                            <Show
+                              when={
+                                reorderLevel() !==
+                                String(suggested().reorderPoint)
+                              }
+                            >
+                              {' '}
+                              <button
+                                type="button"
+                                onClick={() =>
+                                  setReorderLevel(
+                                    String(suggested().reorderPoint)
+                                  )
+                                }
+                                class="font-medium text-text-link hover:underline"
+                              >
+                                Use
+                              </button>
+                            </Show>
+                          </p>
+                        )}
+                      </Show>
+                    </div>
+                  </div>
+
+                  {/* Low stock alert per storehouse */}
+                  <Show when={props.item.stock.length > 1}>
+                    <div>
+                      <label class="block text-sm font-medium text-text-secondary">
+                        Low Stock Alert by Storehouse
+                      </label>
+                      <div class="mt-1 space-y-2">
+                        <For each={props.item.stock}>
+                          {(level) => (
+                            <div class="grid grid-cols-2 items-center gap-4">
+                              <span class="text-sm text-text-primary">
+                                {level.storeHouse.name}{' '}
+                                <span class="text-text-muted">
+                                  ({level.quantity} {props.item.unit})
+                                </span>
+                              </span>
+                              <input
+                                type="number"
+                                min="0"
+                                value={
+                                  levelThresholds()[level.storeHouse.id] ?? ''
+                                }
+                                onInput={(e) => {
+                                  const value = e.currentTarget.value;
+                                  setLevelThresholds((current) => ({
+                                    ...current,
+                                    [level.storeHouse.id]: value,
+                                  }));
+                                }}
+                                class="block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary placeholder-text-muted focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                                placeholder={`Default (${reorderLevel() || 'none'})`}
+                              />
+                            </div>
+                          )}
+                        </For>
+                      </div>
+                    </div>
+                  </Show>
+
+                  {/* SKU */}
+                  <div>
+                    <label class="block text-sm font-medium text-text-secondary">
+                      SKU
+                    </label>
+                    <input
+                      type="text"
+                      value={sku()}
+                      onInput={(e) => setSku(e.currentTarget.value)}
+                      onFocus={() => {
+                        setShowNameSuggestions(false);
+                        setShowUnitSuggestions(false);
+                      }}
+                      class="mt-1 block w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 font-mono text-sm text-text-primary placeholder-text-muted focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                      placeholder="Unique item code"
+                    />
+                  </div>
+
+                  {/* Barcodes */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-secondary">
+                      Barcodes
+                    </label>
+                    <BarcodeListInput
+                      value={barcodes()}
+                      onChange={setBarcodes}
+                      disabled={isLoading()}
+                    />
+                  </div>
+
+                  {/* Photos */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-secondary">
+                      Photos
+                    </label>
+                    <ItemImageGallery
+                      value={images()}
+                      onChange={setImages}
+                      onUploadingChange={setIsUploading}
+                      disabled={isLoading()}
+                    />
+                  </div>
+
+                  {/* Pack units */}
+                  <div>
+                    <label class="mb-1 block text-sm font-medium text-text-secondary">
+                      Pack Units
+                    </label>
+                    <PackUnitsInput
+                      value={packUnits()}
+                      onChange={setPackUnits}
+                      baseUnit={unit()}
+                      disabled={isLoading()}
+                    />
+                    <p class="mt-1 text-xs text-text-muted">
+                      Packs it is bought or sold in. Stock stays counted in{' '}
+                      {unit() || 'the unit'}
+                    </p>
+                  </div>
+
+                  {/* Kit components */}
+                  <Show when={!serialized()}>
+                    <div>
+                      <label class="mb-1 block text-sm font-medium text-text-secondary">
+                        Kit Components
+                      </label>
+                      <KitComponentsInput
+                        value={components()}
+                        onChange={setComponents}
+                        items={getComponentOptions(
+                          allItems() ?? [],
+                          props.item.id
+                        )}
+                        disabled={isLoading()}
+                      />
+                      <p class="mt-1 text-xs text-text-muted">
+                        Sold as a set: orders take assembled kits first and
+                        build the rest from these items
+                      </p>
                     </div>
+                  </Show>
+
+                  {/* Serial numbers */}
+                  <div>
+                    <label class="flex items-center gap-2 text-sm font-medium text-text-secondary">
+                      <input
+                        type="checkbox"
+                        checked={serialized()}
+                        onChange={(e) => setSerialized(e.currentTarget.checked)}
+                        disabled={isLoading() || components().length > 0}
+                        class="h-4 w-4 rounded border-border-default text-accent-primary focus:ring-accent-primary"
+                      />
+                      Track serial numbers
+                    </label>
+                    <p class="mt-1 text-xs text-text-muted">
+                      Each unit's serial number is captured when it is received
+                      and picked when it is sold
+                    </p>
                   </div>
 
                   {/* Storehouse */}
@@ -809,6 +1377,20 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
                   <Button variant="outline" onClick={() => props.onClose()}>
                     Close
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => setShowAdjustModal(true)}
+                  >
+                    Adjust Stock
+                  </Button>
+                  <Show when={isKit(props.item)}>
+                    <Button
+                      variant="outline"
+                      onClick={() => setShowAssembleModal(true)}
+                    >
+                      Assemble
+                    </Button>
+                  </Show>
                   <Button
                     variant="outline"
                     onClick={() => setShowTransferModal(true)}
@@ -863,9 +1445,13 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
               <Button
                 variant="primary"
                 onClick={handleSubmit}
-                disabled={isLoading()}
+                disabled={isLoading() || isUploading()}
               >
-                {isLoading() ? 'Saving...' : 'Save Changes'}
+                {isLoading()
+                  ? 'Saving...'
+                  : isUploading()
+                    ? 'Uploading photos...'
+                    : 'Save Changes'}
               </Button>
             </Show>
           </div>
@@ -880,15 +1466,36 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
           {
             id: props.item.id,
             name: props.item.name,
+            sku: props.item.sku,
+            barcodes: props.item.barcodes,
             unit: props.item.unit,
             storehouse: props.item.storeHouse?.name,
             quantity: props.item.quantity,
             copies: 1,
+            lots: getItemLots(props.item),
+            imageUrl: props.item.imageUrl?.[0],
           },
         ]}
         businessName={business()?.name}
       />
 
+      <SerialLookupModal
+        isOpen={lookupSerial() !== null}
+        serial={lookupSerial() ?? undefined}
+        onClose={() => setLookupSerial(null)}
+      />
+
+      {/* Stock Adjustment Modal */}
+      <StockAdjustmentModal
+        item={props.item}
+        isOpen={showAdjustModal()}
+        onClose={() => setShowAdjustModal(false)}
+        onComplete={() => {
+          setShowAdjustModal(false);
+          props.onSuccess();
+        }}
+      />
+
       {/* Transfer Stock Modal */}
       <TransferStockModal
         item={props.item}
@@ -896,6 +1503,14 @@ export const ViewItemDetailsModal: Component<ViewItemDetailsModalProps> = (
         onClose={() => setShowTransferModal(false)}
         onSuccess={props.onSuccess}
       />
+
+      {/* Assemble Kit Modal */}
+      <AssembleKitModal
+        item={props.item}
+        isOpen={showAssembleModal()}
+        onClose={() => setShowAssembleModal(false)}
+        onSuccess={props.onSuccess}
+      />
     </Show>
   );
 };
@@ -0,0 +1,143 @@
+import type { Item } from '../types/inventory.types';
+
+/**
+ * Bulk edit of selected items: turns one set of changes into per-item
+ * before/after values, so the batch can be previewed, applied item by
+ * item and undone by writing the "before" values back.
+ */
+
+/** Set a price, or adjust it by a percentage or a fixed amount */
+export interface PriceChange {
+  mode: 'set' | 'percent' | 'amount';
+  value: number;
+}
+
+export interface BulkEdit {
+  unitPrice?: PriceChange;
+  sellingPrice?: PriceChange;
+  addTags?: string[];
+  removeTags?: string[];
+  unit?: string;
+  lowStockAt?: number;
+  /** Per-item alert thresholds, e.g. the suggested reorder points */
+  reorderPoints?: Record<string, number>;
+  storeHouse?: Item['storeHouse'];
+  archived?: boolean;
+}
+
+/**
+ * Fields a bulk edit can change. A `null` selling price clears it, so
+ * undo can take the price off an item that had none.
+ */
+export type BulkItemFields = Partial<
+  Pick<
+    Item,
+    'unitPrice' | 'tags' | 'unit' | 'lowStockAt' | 'storeHouse' | 'archived'
+  > & { sellingPrice: number | null }
+>;
+
+export interface BulkEditPreview {
+  item: Item;
+  /** Current values of the fields that change */
+  before: BulkItemFields;
+  /** New values of the fields that change */
+  after: BulkItemFields;
+  errors: string[];
+}
+
+const roundPrice = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * New price after a change, rounded to cents
+ */
+export function applyPriceChange(price: number, change: PriceChange): number {
+  switch (change.mode) {
+    case 'set':
+      return roundPrice(change.value);
+    case 'percent':
+      return roundPrice(price * (1 + change.value / 100));
+    case 'amount':
+      return roundPrice(price + change.value);
+  }
+}
+
+const sameTags = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((tag, index) => tag === b[index]);
+
+/**
+ * Before/after values for every item. Fields an item already has the
+ * target value for are left out; items with nothing to change come back
+ * with empty `after`.
+ */
+export function planBulkEdit(items: Item[], edit: BulkEdit): BulkEditPreview[] {
+  return items.map((item) => {
+    const before: BulkItemFields = {};
+    const after: BulkItemFields = {};
+    const errors: string[] = [];
+
+    const change = <K extends keyof BulkItemFields>(
+      field: K,
+      current: BulkItemFields[K],
+      next: BulkItemFields[K]
+    ) => {
+      if (current === next) return;
+      before[field] = current;
+      after[field] = next;
+    };
+
+    if (edit.unitPrice) {
+      const price = applyPriceChange(item.unitPrice, edit.unitPrice);
+      if (price <= 0) errors.push('Unit price would drop to zero or below');
+      else change('unitPrice', item.unitPrice, price);
+    }
+
+    if (edit.sellingPrice) {
+      if (item.sellingPrice === undefined && edit.sellingPrice.mode !== 'set') {
+        errors.push('No selling price to adjust');
+      } else {
+        const price = applyPriceChange(
+          item.sellingPrice ?? 0,
+          edit.sellingPrice
+        );
+        if (price < 0) errors.push('Selling price would drop below zero');
+        else change('sellingPrice', item.sellingPrice ?? null, price);
+      }
+    }
+
+    if (edit.addTags?.length || edit.removeTags?.length) {
+      const remove = new Set(edit.removeTags ?? []);
+      const tags = Array.from(
+        new Set([...item.tags, ...(edit.addTags ?? [])])
+      ).filter((tag) => !remove.has(tag));
+      if (!sameTags(tags, item.tags)) {
+        before.tags = item.tags;
+        after.tags = tags;
+      }
+    }
+
+    if (edit.unit) change('unit', item.unit, edit.unit);
+    if (edit.lowStockAt !== undefined) {
+      change('lowStockAt', item.lowStockAt, edit.lowStockAt);
+    } else if (edit.reorderPoints) {
+      const point = edit.reorderPoints[item.id];
+      if (point === undefined) {
+        errors.push('No recent sales to suggest a reorder point from');
+      } else {
+        change('lowStockAt', item.lowStockAt, point);
+      }
+    }
+    if (edit.storeHouse && edit.storeHouse.id !== item.storeHouse.id) {
+      before.storeHouse = item.storeHouse;
+      after.storeHouse = edit.storeHouse;
+    }
+    if (edit.archived !== undefined) {
+      change('archived', !!item.archived, edit.archived);
+    }
+
+    return { item, before, after, errors };
+  });
+}
+
+/** Whether a preview row will be written */
+export const hasChanges = (preview: BulkEditPreview) =>
+  preview.errors.length === 0 && Object.keys(preview.after).length > 0;
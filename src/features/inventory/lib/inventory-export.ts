@@ -0,0 +1,115 @@
+import type { ExportColumn } from '@/shared/lib/export';
+import type { Storehouse } from '@/shared/types/storehouse.types';
+import { getStockStatus } from './inventory-stats';
+import type {
+  InventoryFilters,
+  Item,
+  StockStatus,
+} from '../types/inventory.types';
+
+/**
+ * Columns offered when exporting the inventory list
+ */
+
+const STATUS_LABELS: Record<StockStatus, string> = {
+  'in-stock': 'In stock',
+  'low-stock': 'Low stock',
+  'out-of-stock': 'Out of stock',
+};
+
+export const INVENTORY_EXPORT_COLUMNS: ExportColumn<Item>[] = [
+  {
+    id: 'photo',
+    header: 'Photo',
+    value: (item) => item.imageUrl?.[0],
+    kind: 'image',
+    optional: true,
+  },
+  { id: 'name', header: 'Name', value: (item) => item.name },
+  { id: 'sku', header: 'SKU', value: (item) => item.sku },
+  {
+    id: 'barcodes',
+    header: 'Barcodes',
+    value: (item) => item.barcodes?.join(' '),
+    optional: true,
+  },
+  {
+    id: 'storehouse',
+    header: 'Storehouse',
+    value: (item) => item.storeHouse.name,
+  },
+  {
+    id: 'quantity',
+    header: 'Quantity',
+    value: (item) => item.quantity,
+    kind: 'number',
+  },
+  { id: 'unit', header: 'Unit', value: (item) => item.unit },
+  {
+    id: 'unitPrice',
+    header: 'Unit price',
+    value: (item) => item.unitPrice,
+    kind: 'currency',
+  },
+  {
+    id: 'sellingPrice',
+    header: 'Selling price',
+    value: (item) => item.sellingPrice,
+    kind: 'currency',
+    optional: true,
+  },
+  {
+    id: 'stockValue',
+    header: 'Stock value',
+    value: (item) => item.stockValue ?? item.quantity * item.unitPrice,
+    kind: 'currency',
+  },
+  {
+    id: 'status',
+    header: 'Status',
+    value: (item) => STATUS_LABELS[getStockStatus(item)],
+  },
+  {
+    id: 'lowStockAt',
+    header: 'Low stock at',
+    value: (item) => item.lowStockAt,
+    kind: 'number',
+    optional: true,
+  },
+  {
+    id: 'tags',
+    header: 'Tags',
+    value: (item) => item.tags.join(', '),
+    optional: true,
+  },
+  {
+    id: 'updatedAt',
+    header: 'Last updated',
+    value: (item) => item.updatedAt,
+    kind: 'date',
+    optional: true,
+  },
+];
+
+/**
+ * Active inventory filters as export header lines
+ */
+export function describeInventoryFilters(
+  filters: InventoryFilters,
+  storehouses: Pick<Storehouse, 'id' | 'name'>[]
+): string[] {
+  const lines: string[] = [];
+  if (filters.archived) lines.push('Archived items');
+  if (filters.search) lines.push(`Search: "${filters.search}"`);
+  if (filters.status && filters.status !== 'all') {
+    lines.push(`Status: ${STATUS_LABELS[filters.status]}`);
+  }
+  if (filters.storeHouse) {
+    const name = storehouses.find((s) => s.id === filters.storeHouse)?.name;
+    lines.push(`Storehouse: ${name ?? filters.storeHouse}`);
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    lines.push(`Tags: ${filters.tags.join(', ')}`);
+  }
+  return lines;
+}
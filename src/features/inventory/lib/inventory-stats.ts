@@ -0,0 +1,123 @@
+import type {
+  Item,
+  StockLevel,
+  StockStatus,
+  InventorySummary,
+} from '../types/inventory.types';
+import { getAvailableQuantity, getBuildableKits, isKit } from './kits';
+
+/**
+ * Low-stock threshold at one storehouse
+ */
+export function getLevelThreshold(item: Item, level: StockLevel): number {
+  return level.lowStockAt ?? item.lowStockAt;
+}
+
+/**
+ * Stock status at one storehouse. Kits count the sets their components
+ * there can still build.
+ */
+export function getLevelStockStatus(
+  item: Item,
+  level: StockLevel
+): StockStatus {
+  const quantity =
+    level.quantity +
+    (isKit(item) ? getBuildableKits(item, level.storeHouse.id) : 0);
+  if (quantity === 0) return 'out-of-stock';
+  const threshold = getLevelThreshold(item, level);
+  if (threshold && quantity <= threshold) return 'low-stock';
+  return 'in-stock';
+}
+
+/**
+ * Calculate stock status: out of stock when nothing is left anywhere
+ * (kits: no set assembled or buildable), low when any storehouse is at or
+ * below its threshold
+ */
+export function getStockStatus(item: Item): StockStatus {
+  if (getAvailableQuantity(item) === 0) return 'out-of-stock';
+  return item.stock.some(
+    (level) => getLevelStockStatus(item, level) !== 'in-stock'
+  )
+    ? 'low-stock'
+    : 'in-stock';
+}
+
+/**
+ * The item's stock at a storehouse, if it is stocked there
+ */
+export function getStockLevel(
+  item: Item,
+  storehouseId: string
+): StockLevel | undefined {
+  return item.stock.find((level) => level.storeHouse.id === storehouseId);
+}
+
+/**
+ * Where stock is taken from unless the user picks: the home storehouse
+ * while it has stock, otherwise the location holding the most
+ */
+export function getDefaultSourceStorehouse(item: Item): string {
+  const home = getStockLevel(item, item.storeHouse.id);
+  if (home && home.quantity > 0) return home.storeHouse.id;
+  const fullest = item.stock.reduce<StockLevel | undefined>(
+    (best, level) => (!best || level.quantity > best.quantity ? level : best),
+    undefined
+  );
+  return fullest?.storeHouse.id ?? item.storeHouse.id;
+}
+
+/**
+ * Where a restock should be received: the first location that is out of
+ * stock, then the first that is low, otherwise the home storehouse
+ */
+export function getRestockStorehouse(item: Item): string {
+  const byStatus = (status: StockStatus) =>
+    item.stock.find((level) => getLevelStockStatus(item, level) === status);
+  const level = byStatus('out-of-stock') ?? byStatus('low-stock');
+  return level?.storeHouse.id ?? item.storeHouse.id;
+}
+
+/**
+ * Get inventory summary. Stock is valued at cost as the backend reports
+ * it, or at the current unit price when it doesn't.
+ */
+export function getInventorySummary(items: Item[]): InventorySummary {
+  return {
+    totalSKUs: items.length,
+    totalInventoryValue: items.reduce(
+      (sum, item) => sum + (item.stockValue ?? item.unitPrice * item.quantity),
+      0
+    ),
+    outOfStockCount: items.filter(
+      (item) => getStockStatus(item) === 'out-of-stock'
+    ).length,
+    lowStockCount: items.filter((item) => getStockStatus(item) === 'low-stock')
+      .length,
+  };
+}
+
+/**
+ * Get all unique tags
+ */
+export function getAllTags(items: Item[]): string[] {
+  const tagSet = new Set<string>();
+  items.forEach((item) => item.tags.forEach((tag) => tagSet.add(tag)));
+  return Array.from(tagSet).sort();
+}
+
+/**
+ * Get all unique storehouses
+ */
+export function getAllStorehouses(
+  items: Item[]
+): Array<{ id: string; name: string }> {
+  const storeMap = new Map<string, string>();
+  items.forEach((item) => {
+    item.stock.forEach((level) =>
+      storeMap.set(level.storeHouse.id, level.storeHouse.name)
+    );
+  });
+  return Array.from(storeMap.entries()).map(([id, name]) => ({ id, name }));
+}
@@ -0,0 +1,29 @@
+import { isValidGtin, normalizeGtin } from '@/shared/lib/product-codes';
+import type { Item } from '../types/inventory.types';
+
+type CodedItem = Pick<Item, 'id' | 'sku' | 'barcodes'>;
+
+/**
+ * Whether a scanned code identifies the item: its id (printed on our own
+ * labels), its SKU or one of its barcodes. GTINs compare regardless of
+ * length, so a UPC-A scan finds the item saved with its EAN-13.
+ */
+export function itemMatchesCode(item: CodedItem, code: string): boolean {
+  if (item.id === code) return true;
+  if (item.sku && item.sku.toLowerCase() === code.toLowerCase()) return true;
+  if (!isValidGtin(code)) return false;
+  const gtin = normalizeGtin(code);
+  return (item.barcodes ?? []).some(
+    (barcode) => normalizeGtin(barcode) === gtin
+  );
+}
+
+/**
+ * First item in a loaded list that a scanned code identifies
+ */
+export function findItemWithCode<T extends CodedItem>(
+  items: T[],
+  code: string
+): T | undefined {
+  return items.find((item) => itemMatchesCode(item, code));
+}
@@ -0,0 +1,327 @@
+import { isValidGtin } from '@/shared/lib/product-codes';
+import type { Storehouse } from '@/shared/types/storehouse.types';
+import type {
+  Item,
+  ItemImportData,
+  ItemImportRow,
+} from '../types/inventory.types';
+
+/**
+ * Bulk item import: column mapping and the dry run that turns uploaded
+ * rows into create / update / skip actions before anything is sent.
+ */
+
+export type ImportField =
+  | 'name'
+  | 'sku'
+  | 'unit'
+  | 'unitPrice'
+  | 'sellingPrice'
+  | 'tags'
+  | 'quantity'
+  | 'lowStockAt'
+  | 'storehouse'
+  | 'barcodes';
+
+export const IMPORT_FIELDS: Array<{
+  field: ImportField;
+  label: string;
+  /** Needed to create an item (updates only need a match) */
+  required?: boolean;
+  /** Header names recognised when guessing the mapping */
+  aliases: string[];
+}> = [
+  {
+    field: 'name',
+    label: 'Name',
+    required: true,
+    aliases: ['item', 'product', 'item name', 'product name'],
+  },
+  { field: 'sku', label: 'SKU', aliases: ['code', 'item code', 'sku code'] },
+  {
+    field: 'unit',
+    label: 'Unit',
+    required: true,
+    aliases: ['uom', 'unit of measure'],
+  },
+  {
+    field: 'unitPrice',
+    label: 'Unit price',
+    required: true,
+    aliases: ['price', 'cost', 'unit cost', 'purchase price'],
+  },
+  {
+    field: 'sellingPrice',
+    label: 'Selling price',
+    aliases: ['sale price', 'retail price', 'sell price'],
+  },
+  { field: 'tags', label: 'Tags', aliases: ['tag', 'category', 'categories'] },
+  {
+    field: 'quantity',
+    label: 'Quantity',
+    aliases: ['qty', 'stock', 'on hand'],
+  },
+  {
+    field: 'lowStockAt',
+    label: 'Low stock at',
+    aliases: ['reorder level', 'reorder point', 'low stock', 'min stock'],
+  },
+  {
+    field: 'storehouse',
+    label: 'Storehouse',
+    aliases: ['warehouse', 'location', 'store'],
+  },
+  {
+    field: 'barcodes',
+    label: 'Barcodes',
+    aliases: ['barcode', 'ean', 'upc', 'gtin'],
+  },
+];
+
+/** Field → column index in the uploaded file */
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** What to do with rows that match an existing item */
+export type ExistingItemMode = 'update' | 'skip';
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ImportPlanRow {
+  /** Line in the uploaded file (the header is line 1) */
+  row: number;
+  cells: string[];
+  action: ImportAction;
+  errors: string[];
+  /** Existing item the row matches */
+  match?: Item;
+  item: ItemImportData;
+}
+
+export interface ImportContext {
+  items: Item[];
+  storehouses: Pick<Storehouse, 'id' | 'name' | 'isLocked'>[];
+  /** Used for rows without a storehouse column or cell */
+  defaultStorehouseId?: string;
+  mode: ExistingItemMode;
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, ' ');
+
+/**
+ * Map columns whose header matches a field's label, key or an alias
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+  for (const { field, label, aliases } of IMPORT_FIELDS) {
+    const names = [field.toLowerCase(), normalizeHeader(label), ...aliases];
+    const index = normalized.findIndex((header) => names.includes(header));
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index;
+    }
+  }
+  return mapping;
+}
+
+function readNumber(
+  value: string,
+  label: string,
+  errors: string[],
+  options: { integer?: boolean; positive?: boolean } = {}
+): number | undefined {
+  if (value === '') return undefined;
+  const number = Number(value.replace(/\s/g, ''));
+  if (
+    !Number.isFinite(number) ||
+    number < 0 ||
+    (options.integer && !Number.isInteger(number)) ||
+    (options.positive && number === 0)
+  ) {
+    const kind = options.integer ? 'a whole number' : 'a number';
+    errors.push(
+      `${label} must be ${kind} ${options.positive ? 'above' : 'of at least'} 0`
+    );
+    return undefined;
+  }
+  return number;
+}
+
+const splitList = (value: string, separator: RegExp) =>
+  value
+    .split(separator)
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+/**
+ * Dry run: validate every row and decide what importing it would do.
+ *
+ * A row matches the business's item with the same SKU or, without a SKU,
+ * the same name, whichever storehouse it calls home; its quantity is the
+ * stock at the row's storehouse. Matches are updated (only the cells that
+ * are filled in) or skipped depending on `mode`; other rows create items.
+ * Two rows for the same item and storehouse, two rows creating the same
+ * item, or a SKU that belongs to a differently named item, are errors.
+ */
+export function planItemImport(
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: ImportContext
+): ImportPlanRow[] {
+  const lower = (value: string) => value.trim().toLowerCase();
+  const seen = new Map<string, number>(); // storehouse|key → row
+  const creating = new Map<string, number>(); // key → row creating it
+  const skuNames = new Map<string, string>(); // sku → name, from the file
+
+  return rows.map((cells, index) => {
+    const row = index + 2;
+    const errors: string[] = [];
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    // Storehouse
+    const storehouseCell = cell('storehouse');
+    const storehouse = storehouseCell
+      ? context.storehouses.find(
+          (s) =>
+            s.id === storehouseCell || lower(s.name) === lower(storehouseCell)
+        )
+      : context.storehouses.find((s) => s.id === context.defaultStorehouseId);
+    if (!storehouse) {
+      errors.push(
+        storehouseCell
+          ? `Unknown storehouse "${storehouseCell}"`
+          : 'No storehouse given'
+      );
+    } else if (storehouse.isLocked) {
+      errors.push(`Storehouse "${storehouse.name}" is locked`);
+    }
+
+    // Values
+    const name = cell('name');
+    const sku = cell('sku');
+    const barcodes = splitList(cell('barcodes'), /[\s,;|]+/);
+    barcodes
+      .filter((code) => !isValidGtin(code))
+      .forEach((code) => errors.push(`Invalid barcode ${code}`));
+    const tags = splitList(cell('tags'), /[,;|]/);
+    const item: ItemImportData = {
+      name: name || undefined,
+      sku: sku || undefined,
+      unit: cell('unit') || undefined,
+      unitPrice: readNumber(cell('unitPrice'), 'Unit price', errors, {
+        positive: true,
+      }),
+      sellingPrice: readNumber(cell('sellingPrice'), 'Selling price', errors),
+      quantity: readNumber(cell('quantity'), 'Quantity', errors, {
+        integer: true,
+      }),
+      lowStockAt: readNumber(cell('lowStockAt'), 'Low stock at', errors, {
+        integer: true,
+      }),
+      tags: tags.length > 0 ? tags : undefined,
+      barcodes: barcodes.length > 0 ? barcodes : undefined,
+      storeHouse: storehouse?.id,
+    };
+
+    // Existing item, preferably the one at home in the row's storehouse
+    const candidates = context.items.filter((existing) =>
+      sku
+        ? lower(existing.sku ?? '') === lower(sku)
+        : !!name && lower(existing.name) === lower(name)
+    );
+    const match =
+      candidates.find(
+        (existing) => existing.storeHouse.id === storehouse?.id
+      ) ?? candidates[0];
+
+    if (!match) {
+      if (!name) errors.push('Name is required');
+      if (!item.unit) errors.push('Unit is required');
+      if (item.unitPrice === undefined && !cell('unitPrice')) {
+        errors.push('Unit price is required');
+      }
+    }
+
+    // SKU owned by another product
+    if (sku) {
+      const owner =
+        context.items.find(
+          (existing) => lower(existing.sku ?? '') === lower(sku)
+        )?.name ?? skuNames.get(lower(sku));
+      const itemName = name || match?.name || '';
+      if (owner !== undefined && lower(owner) !== lower(itemName)) {
+        errors.push(`SKU ${sku} belongs to "${owner}"`);
+      } else {
+        skuNames.set(lower(sku), itemName);
+      }
+    }
+
+    // Same item twice in the file
+    const itemKey = sku ? `sku:${lower(sku)}` : `name:${lower(name)}`;
+    const key = `${storehouse?.id}|${itemKey}`;
+    const firstRow = seen.get(key);
+    const createdAt = match ? undefined : creating.get(itemKey);
+    if (firstRow !== undefined) {
+      errors.push(`Same item as row ${firstRow}`);
+    } else if (createdAt !== undefined) {
+      errors.push(
+        `Row ${createdAt} creates this item; add its stock here once imported`
+      );
+    } else if (storehouse && (sku || name)) {
+      seen.set(key, row);
+      if (!match) creating.set(itemKey, row);
+    }
+
+    const action: ImportAction =
+      errors.length > 0
+        ? 'error'
+        : match
+          ? context.mode === 'update'
+            ? 'update'
+            : 'skip'
+          : 'create';
+    return { row, cells, action, errors, match, item };
+  });
+}
+
+function stripUndefined(item: ItemImportData): ItemImportData {
+  return Object.fromEntries(
+    Object.entries(item).filter(([, value]) => value !== undefined)
+  );
+}
+
+/**
+ * Request rows for the planned creates and updates. Updates only send
+ * what the file fills in, with the storehouse their quantity is counted
+ * at; they never change the item's home storehouse.
+ */
+export function toImportRows(plan: ImportPlanRow[]): ItemImportRow[] {
+  return plan.flatMap((row): ItemImportRow[] => {
+    if (row.action === 'update') {
+      const { storeHouse, ...changes } = row.item;
+      return [
+        {
+          row: row.row,
+          itemId: row.match!.id,
+          storeHouse,
+          item: stripUndefined(changes),
+        },
+      ];
+    }
+    if (row.action === 'create') {
+      return [
+        {
+          row: row.row,
+          item: { quantity: 0, lowStockAt: 10, ...stripUndefined(row.item) },
+        },
+      ];
+    }
+    return [];
+  });
+}
@@ -0,0 +1,119 @@
+import type { Item, KitComponent } from '../types/inventory.types';
+
+/**
+ * Kits: items sold as a set of other items. A kit's stock is the sets
+ * already assembled; more can be built from the components' stock.
+ */
+
+export function isKit(item: Pick<Item, 'components'>): boolean {
+  return !!item.components?.length;
+}
+
+/**
+ * Kits the component stock can build, at one storehouse or in total
+ */
+export function getBuildableKits(
+  item: Pick<Item, 'buildable'>,
+  storeHouse?: string
+): number {
+  return (item.buildable ?? [])
+    .filter((level) => !storeHouse || level.storeHouse.id === storeHouse)
+    .reduce((sum, level) => sum + level.quantity, 0);
+}
+
+/**
+ * Kits that can be sold: assembled plus buildable. Other items: their
+ * stock.
+ */
+export function getAvailableQuantity(
+  item: Pick<Item, 'quantity' | 'buildable'>
+): number {
+  return item.quantity + getBuildableKits(item);
+}
+
+/**
+ * Storehouses a kit can be sold from: where sets are assembled or can be
+ * built, with both counts
+ */
+export function getKitLocations(
+  item: Pick<Item, 'stock' | 'buildable'>
+): Array<{
+  storeHouse: { id: string; name: string };
+  assembled: number;
+  buildable: number;
+}> {
+  const locations = item.stock.map((level) => ({
+    storeHouse: level.storeHouse,
+    assembled: level.quantity,
+    buildable: getBuildableKits(item, level.storeHouse.id),
+  }));
+  (item.buildable ?? []).forEach((level) => {
+    if (!locations.some((l) => l.storeHouse.id === level.storeHouse.id)) {
+      locations.push({
+        storeHouse: level.storeHouse,
+        assembled: 0,
+        buildable: level.quantity,
+      });
+    }
+  });
+  return locations;
+}
+
+/**
+ * Where an order takes a kit from: its home storehouse while sets are
+ * assembled or buildable there, otherwise the location with the most
+ */
+export function getKitSourceStorehouse(
+  item: Pick<Item, 'stock' | 'buildable' | 'storeHouse'>
+): string {
+  const locations = getKitLocations(item);
+  const available = (location: (typeof locations)[number]) =>
+    location.assembled + location.buildable;
+  const home = locations.find((l) => l.storeHouse.id === item.storeHouse.id);
+  if (home && available(home) > 0) return home.storeHouse.id;
+  const fullest = locations.reduce<(typeof locations)[number] | undefined>(
+    (best, location) =>
+      !best || available(location) > available(best) ? location : best,
+    undefined
+  );
+  return fullest?.storeHouse.id ?? item.storeHouse.id;
+}
+
+/**
+ * Items that can go into a kit: not the kit itself, not other kits, not
+ * tracked by serial number
+ */
+export function getComponentOptions(items: Item[], kitId?: string): Item[] {
+  return items.filter(
+    (item) => item.id !== kitId && !isKit(item) && !item.serialized
+  );
+}
+
+/**
+ * Problem with a bill of materials, or null when it can be saved
+ */
+export function validateKitComponents(
+  components: KitComponent[]
+): string | null {
+  const seen = new Set<string>();
+  for (const component of components) {
+    if (!component.item.id) return 'Pick an item for every component';
+    if (seen.has(component.item.id)) {
+      return `${component.item.name} is listed twice`;
+    }
+    if (!(component.quantity > 0)) {
+      return `${component.item.name} needs a quantity above zero`;
+    }
+    seen.add(component.item.id);
+  }
+  return null;
+}
+
+/**
+ * "1 × Headphones, 2 × USB-C Cable"
+ */
+export function formatKitComponents(components: KitComponent[]): string {
+  return components
+    .map((component) => `${component.quantity} × ${component.item.name}`)
+    .join(', ');
+}
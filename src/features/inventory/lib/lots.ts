@@ -0,0 +1,90 @@
+import type { Item, StockLot } from '../types/inventory.types';
+
+/**
+ * Lots (batches) and their expiry dates
+ */
+
+/** Days ahead the "expiring soon" panel looks */
+export const EXPIRY_WARNING_DAYS = 30;
+
+export interface ExpiringLot {
+  item: Item;
+  storeHouse: Item['storeHouse'];
+  lot: StockLot;
+  /** Negative once expired */
+  daysLeft: number;
+}
+
+const DAY = 86_400_000;
+
+/**
+ * Whole days from today until a YYYY-MM-DD date, compared in UTC
+ */
+export function daysUntil(date: string, today: Date = new Date()): number {
+  const start = Date.UTC(
+    today.getFullYear(),
+    today.getMonth(),
+    today.getDate()
+  );
+  return Math.round((Date.parse(date) - start) / DAY);
+}
+
+/**
+ * Lots in the order stock leaves: first expiry first, lots without an
+ * expiry last
+ */
+export function sortLotsByExpiry(lots: StockLot[]): StockLot[] {
+  return [...lots].sort((a, b) =>
+    (a.expiresAt ?? '9999').localeCompare(b.expiresAt ?? '9999')
+  );
+}
+
+/**
+ * The item's lots across all its storehouses, first expiry first
+ */
+export function getItemLots(item: Item): StockLot[] {
+  const byNumber = new Map<string, StockLot>();
+  item.stock.forEach((level) =>
+    (level.lots ?? []).forEach((lot) => {
+      const held = byNumber.get(lot.lotNumber);
+      byNumber.set(
+        lot.lotNumber,
+        held ? { ...held, quantity: held.quantity + lot.quantity } : lot
+      );
+    })
+  );
+  return sortLotsByExpiry(Array.from(byNumber.values()));
+}
+
+/**
+ * "L01-A · exp 2026-11-02"
+ */
+export function formatLot(lot: Pick<StockLot, 'lotNumber' | 'expiresAt'>) {
+  return lot.expiresAt
+    ? `${lot.lotNumber} · exp ${lot.expiresAt}`
+    : lot.lotNumber;
+}
+
+/**
+ * Lots with stock that expire within `days` (or already have), soonest
+ * first
+ */
+export function getExpiringLots(
+  items: Item[],
+  days: number = EXPIRY_WARNING_DAYS,
+  today: Date = new Date()
+): ExpiringLot[] {
+  return items
+    .flatMap((item) =>
+      item.stock.flatMap((level) =>
+        (level.lots ?? []).flatMap((lot) => {
+          if (!lot.expiresAt || lot.quantity <= 0) return [];
+          const daysLeft = daysUntil(lot.expiresAt, today);
+          return daysLeft <= days
+            ? [{ item, storeHouse: level.storeHouse, lot, daysLeft }]
+            : [];
+        })
+      )
+    )
+    .sort((a, b) => a.daysLeft - b.daysLeft);
+}
@@ -0,0 +1,162 @@
+import type { PriceHistory, PricePoint } from '../types/inventory.types';
+
+/**
+ * Price history: what an item was listed at, sold for and bought for,
+ * summarized per period and per client or supplier
+ */
+
+export type PricePeriod = 'month' | 'quarter';
+
+/**
+ * Lowest, quantity-weighted average and highest unit price of some lines
+ */
+export interface PriceStats {
+  lines: number;
+  quantity: number;
+  min: number;
+  average: number;
+  max: number;
+}
+
+export interface PeriodPrices {
+  /** getPeriodKey() of the period */
+  period: string;
+  sold: PriceStats | null;
+  paid: PriceStats | null;
+  /** Catalogue unit price at the end of the period */
+  listed?: number;
+}
+
+export interface PartnerPrices {
+  partner?: { id: string; name: string };
+  stats: PriceStats;
+  lastPrice: number;
+  lastDate: string;
+}
+
+const MONTHS = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+];
+
+/**
+ * "2026-03-31" for an ISO time, in the business timezone
+ */
+function localDay(date: string, timezone: string): string {
+  try {
+    // Swedish formatting is ISO-like
+    return new Date(date).toLocaleDateString('sv-SE', { timeZone: timezone });
+  } catch {
+    return date.slice(0, 10);
+  }
+}
+
+/**
+ * "2026-03" for a month, "2026-Q1" for a quarter, in the business timezone
+ */
+export function getPeriodKey(
+  date: string,
+  period: PricePeriod,
+  timezone = 'UTC'
+): string {
+  const day = localDay(date, timezone);
+  const year = day.slice(0, 4);
+  const month = Number(day.slice(5, 7));
+  return period === 'month'
+    ? day.slice(0, 7)
+    : `${year}-Q${Math.ceil(month / 3)}`;
+}
+
+/**
+ * "Mar 2026" or "Q1 2026"
+ */
+export function formatPeriod(key: string): string {
+  const [year, part = ''] = key.split('-');
+  return part.startsWith('Q')
+    ? `${part} ${year}`
+    : `${MONTHS[Number(part) - 1]} ${year}`;
+}
+
+/**
+ * Price stats of some lines, null when there are none
+ */
+export function getPriceStats(points: PricePoint[]): PriceStats | null {
+  if (points.length === 0) return null;
+  const quantity = points.reduce((sum, p) => sum + p.quantity, 0);
+  const total = points.reduce((sum, p) => sum + p.unitPrice * p.quantity, 0);
+  return {
+    lines: points.length,
+    quantity,
+    min: points.reduce((min, p) => Math.min(min, p.unitPrice), Infinity),
+    average: quantity ? total / quantity : 0,
+    max: points.reduce((max, p) => Math.max(max, p.unitPrice), -Infinity),
+  };
+}
+
+/**
+ * Sold and paid price stats per period, oldest first. Only periods with
+ * sales or purchases are listed.
+ */
+export function summarizeByPeriod(
+  history: PriceHistory,
+  period: PricePeriod,
+  timezone = 'UTC'
+): PeriodPrices[] {
+  const group = (points: PricePoint[]) => {
+    const groups = new Map<string, PricePoint[]>();
+    points.forEach((point) => {
+      const key = getPeriodKey(point.date, period, timezone);
+      const lines = groups.get(key) ?? [];
+      lines.push(point);
+      groups.set(key, lines);
+    });
+    return groups;
+  };
+  const sales = group(history.sales);
+  const purchases = group(history.purchases);
+  const periods = Array.from(
+    new Set([...sales.keys(), ...purchases.keys()])
+  ).sort();
+
+  return periods.map((key) => ({
+    period: key,
+    sold: getPriceStats(sales.get(key) ?? []),
+    paid: getPriceStats(purchases.get(key) ?? []),
+    // The last change made up to the end of the period
+    listed: history.catalogue
+      .filter((change) => getPeriodKey(change.date, period, timezone) <= key)
+      .pop()?.unitPrice,
+  }));
+}
+
+/**
+ * Price stats per client or supplier, biggest buyers or sellers first
+ */
+export function summarizeByPartner(points: PricePoint[]): PartnerPrices[] {
+  const groups = new Map<string, PricePoint[]>();
+  points.forEach((point) => {
+    const key = point.partner?.id ?? '';
+    const lines = groups.get(key) ?? [];
+    lines.push(point);
+    groups.set(key, lines);
+  });
+  return Array.from(groups.values(), (lines) => {
+    const latest = lines.reduce((a, b) => (b.date >= a.date ? b : a));
+    return {
+      partner: latest.partner,
+      stats: getPriceStats(lines)!,
+      lastPrice: latest.unitPrice,
+      lastDate: latest.date,
+    };
+  }).sort((a, b) => b.stats.quantity - a.stats.quantity);
+}
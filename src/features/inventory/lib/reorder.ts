@@ -0,0 +1,43 @@
+import type { Item, ReorderSuggestion } from '../types/inventory.types';
+import { getLevelThreshold, getStockLevel } from './inventory-stats';
+
+/**
+ * Reorder points and quantities: how low an item may run before it is
+ * reordered, and how much to order
+ */
+
+/**
+ * Quantity to order when restocking `storeHouse`. With a suggestion the
+ * order brings the location's stock up to the reorder point plus one
+ * reorder quantity; without one it fills the location's deficit plus half
+ * its threshold.
+ */
+export function getRestockQuantity(
+  item: Item,
+  storeHouse: string,
+  suggestion?: ReorderSuggestion
+): number {
+  const level = getStockLevel(item, storeHouse);
+  if (suggestion) {
+    return Math.max(
+      suggestion.reorderQuantity,
+      suggestion.reorderPoint +
+        suggestion.reorderQuantity -
+        (level?.quantity ?? 0)
+    );
+  }
+  const threshold =
+    (level ? getLevelThreshold(item, level) : item.lowStockAt) || 10;
+  const deficit = Math.max(0, threshold - (level?.quantity ?? 0));
+  return deficit + Math.ceil(threshold * 0.5);
+}
+
+/**
+ * "2.4 pcs/day"
+ */
+export function formatDailySales(
+  suggestion: ReorderSuggestion,
+  unit: string
+): string {
+  return `${suggestion.dailySales.toLocaleString('en-US')} ${unit}/day`;
+}
@@ -0,0 +1,29 @@
+import type { Item } from '../types/inventory.types';
+
+/**
+ * Serial numbers of serialized items
+ */
+
+/**
+ * Serials in stock, at one storehouse or across all of them
+ */
+export function getItemSerials(item: Item, storehouseId?: string): string[] {
+  return item.stock
+    .filter((level) => !storehouseId || level.storeHouse.id === storehouseId)
+    .flatMap((level) => level.serials ?? []);
+}
+
+/**
+ * Serials typed or pasted in one go: split on commas, semicolons and
+ * whitespace, duplicates dropped
+ */
+export function parseSerials(text: string): string[] {
+  return Array.from(new Set(text.split(/[\s,;]+/).filter(Boolean)));
+}
+
+/**
+ * "S/N SN01-00001, SN01-00002"
+ */
+export function formatSerials(serials: string[]): string {
+  return `S/N ${serials.join(', ')}`;
+}
@@ -0,0 +1,67 @@
+import type { StockMovement } from '../types/inventory.types';
+import { toCsv } from '@/shared/lib/csv';
+
+/**
+ * Display labels for movement reasons (manual and system)
+ */
+export const MOVEMENT_REASON_LABELS: Record<string, string> = {
+  'supplier-delivery': 'Supplier Delivery',
+  return: 'Customer Return',
+  'manual-count': 'Manual Count Correction',
+  damage: 'Damaged/Defective',
+  theft: 'Theft/Loss',
+  sale: 'Sale',
+  'sale-cancelled': 'Sale Cancelled',
+  import: 'Import Received',
+  'import-cancelled': 'Import Cancelled',
+  'transfer-in': 'Transfer In',
+  'transfer-out': 'Transfer Out',
+  'item-edit': 'Item Edited',
+  'opening-balance': 'Opening Balance',
+  'kit-assembled': 'Kit Assembled',
+  'kit-component': 'Used in Kit',
+  'kit-sale': 'Sold in Kit',
+  'kit-sale-cancelled': 'Kit Sale Cancelled',
+};
+
+/**
+ * Get the label for a movement reason
+ */
+export function getMovementReasonLabel(reason: string): string {
+  return MOVEMENT_REASON_LABELS[reason] ?? reason;
+}
+
+/**
+ * Distinct users who moved stock, for the "performed by" filter
+ */
+export function getMovementPerformers(
+  movements: Array<Pick<StockMovement, 'performedBy'>>
+): Array<{ id: string; name: string }> {
+  const performers = new Map<string, string>();
+  movements.forEach((m) =>
+    performers.set(m.performedBy.id, m.performedBy.name)
+  );
+  return Array.from(performers, ([id, name]) => ({ id, name })).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Ledger as CSV (oldest first, so the balance column reads top to bottom)
+ */
+export function stockMovementsToCsv(movements: StockMovement[]): string {
+  const rows = [...movements].sort((a, b) =>
+    a.createdAt.localeCompare(b.createdAt)
+  );
+  return toCsv(rows, [
+    { header: 'Date', value: (m) => m.createdAt },
+    { header: 'Source', value: (m) => m.source },
+    { header: 'Reason', value: (m) => getMovementReasonLabel(m.reason) },
+    { header: 'Change', value: (m) => m.change },
+    { header: 'Previous Quantity', value: (m) => m.previousQuantity },
+    { header: 'Balance', value: (m) => m.newQuantity },
+    { header: 'Performed By', value: (m) => m.performedBy.name },
+    { header: 'Reference', value: (m) => m.reference },
+    { header: 'Notes', value: (m) => m.notes },
+  ]);
+}
@@ -0,0 +1,107 @@
+import type { Item, PackUnit } from '../types/inventory.types';
+
+/**
+ * Units of measure: the base unit stock is counted in, and the packs an
+ * item is bought or sold in
+ */
+
+type ItemUnits = Pick<Item, 'unit' | 'packUnits'>;
+
+/**
+ * Units a line can be entered in, the base unit (factor 1) first
+ */
+export function getUnitOptions(item: ItemUnits): PackUnit[] {
+  return [{ unit: item.unit, factor: 1 }, ...(item.packUnits ?? [])];
+}
+
+/**
+ * The pack to record on a line entered in `unit`; undefined for the base
+ * unit or a unit the item doesn't define
+ */
+export function findPackUnit(
+  item: ItemUnits,
+  unit: string
+): PackUnit | undefined {
+  return item.packUnits?.find((pack) => pack.unit === unit);
+}
+
+/**
+ * Quantity and unit price entered in a pack, converted to the base unit
+ */
+export function toBaseUnits(
+  quantity: number,
+  unitPrice: number,
+  factor: number
+): { quantity: number; unitPrice: number } {
+  return { quantity: quantity * factor, unitPrice: unitPrice / factor };
+}
+
+/**
+ * Base-unit quantity and unit price of a line, back in its pack. Rounded
+ * to six places so a case price split per piece comes back whole.
+ */
+export function fromBaseUnits(
+  quantity: number,
+  unitPrice: number,
+  factor: number
+): { quantity: number; unitPrice: number } {
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+  return {
+    quantity: round(quantity / factor),
+    unitPrice: round(unitPrice * factor),
+  };
+}
+
+/**
+ * "1 case = 24 pcs"
+ */
+export function formatConversion(pack: PackUnit, baseUnit: string): string {
+  return `1 ${pack.unit} = ${pack.factor} ${baseUnit}`;
+}
+
+/**
+ * "2 case (48 pcs)" for a line entered in a pack, otherwise "48 pcs".
+ * `baseUnit` may be unknown (item deleted), then only numbers are shown.
+ */
+export function formatLineQuantity(
+  line: { quantity: number; packUnit?: PackUnit },
+  baseUnit?: string
+): string {
+  const base = baseUnit ? `${line.quantity} ${baseUnit}` : `${line.quantity}`;
+  if (!line.packUnit) return base;
+  const packs = fromBaseUnits(line.quantity, 0, line.packUnit.factor).quantity;
+  return `${packs} ${line.packUnit.unit} (${base})`;
+}
+
+/**
+ * Price of one pack for a line entered in a pack, otherwise the unit price
+ */
+export function getEnteredUnitPrice(line: {
+  unitPrice: number;
+  packUnit?: PackUnit;
+}): number {
+  return fromBaseUnits(0, line.unitPrice, line.packUnit?.factor ?? 1).unitPrice;
+}
+
+/**
+ * Problem with an item's pack units, or null when they can be saved: each
+ * named once, not after the base unit, holding more than one base unit
+ */
+export function validatePackUnits(
+  packs: PackUnit[],
+  baseUnit: string
+): string | null {
+  const names = new Set([baseUnit.trim().toLowerCase()]);
+  for (const pack of packs) {
+    const unit = pack.unit.trim();
+    if (!unit) return 'Every pack unit needs a name';
+    if (names.has(unit.toLowerCase())) {
+      return `The unit ${unit} is defined twice`;
+    }
+    if (!(pack.factor > 1)) {
+      return `A ${unit} must hold more than one ${baseUnit}`;
+    }
+    names.add(unit.toLowerCase());
+  }
+  return null;
+}
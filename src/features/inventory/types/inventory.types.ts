@@ -1,24 +1,88 @@
 import { z } from 'zod';
 
+/**
+ * Quantity of one lot (batch) at a storehouse
+ */
+export const StockLotSchema = z.object({
+  lotNumber: z.string(),
+  expiresAt: z.string().optional(), // YYYY-MM-DD
+  quantity: z.number(),
+});
+
+export type StockLot = z.infer<typeof StockLotSchema>;
+
+/**
+ * A pack an item is bought or sold in, holding `factor` base units
+ */
+export const PackUnitSchema = z.object({
+  unit: z.string(), // e.g. "case"
+  factor: z.number(), // Base units per pack, e.g. 24
+});
+
+export type PackUnit = z.infer<typeof PackUnitSchema>;
+
+/**
+ * Stock of an item at one storehouse
+ */
+export const StockLevelSchema = z.object({
+  storeHouse: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
+  quantity: z.number(),
+  lowStockAt: z.number().optional(), // Overrides the item's threshold here
+  lots: z.array(StockLotSchema).optional(), // Stock received without a lot isn't listed
+  serials: z.array(z.string()).optional(), // Units held here, serialized items
+});
+
+export type StockLevel = z.infer<typeof StockLevelSchema>;
+
+/**
+ * Base units of a component item in one kit
+ */
+export const KitComponentSchema = z.object({
+  item: z.object({ id: z.string(), name: z.string(), unit: z.string() }),
+  quantity: z.number(),
+});
+
+export type KitComponent = z.infer<typeof KitComponentSchema>;
+
 /**
  * Item schema matching backend model
  */
+
 export const ItemSchema = z.object({
   id: z.string(),
   name: z.string(),
+  sku: z.string().optional(), // Unique per business
   description: z.string().optional(),
   unitPrice: z.number(),
   sellingPrice: z.number().optional(), // For profit calculation
   origin: z.string().optional(),
   tags: z.array(z.string()),
-  quantity: z.number(),
-  unit: z.string(),
+  quantity: z.number(), // Total across storehouses
+  unit: z.string(), // Base unit: stock, quantities and prices are counted in it
+  packUnits: z.array(PackUnitSchema).optional(), // Other units it comes in
   imageUrl: z.array(z.string()).optional(),
+  barcodes: z.array(z.string()).optional(), // GTIN/EAN/UPC codes, check digit validated
   storeHouse: z.object({
     id: z.string(),
     name: z.string(),
-  }),
+  }), // Home storehouse, where stock goes when no location is chosen
+  stock: z.array(StockLevelSchema), // Per storehouse, home included
   lowStockAt: z.number().default(10), // Alert threshold
+  serialized: z.boolean().optional(), // Every unit tracked by serial number
+  components: z.array(KitComponentSchema).optional(), // Kits: bill of materials
+  buildable: z
+    .array(
+      z.object({
+        storeHouse: z.object({ id: z.string(), name: z.string() }),
+        quantity: z.number(),
+      })
+    )
+    .optional(), // Kits: more that component stock can build, per storehouse
+  archived: z.boolean().optional(), // Hidden from lists and pickers, kept for history
+  stockValue: z.number().optional(), // Stock on hand at cost (FIFO or average, per business)
   createdAt: z.string(),
   updatedAt: z.string(),
 });
@@ -30,39 +94,216 @@ export type Item = z.infer<typeof ItemSchema>;
  */
 export type StockStatus = 'in-stock' | 'low-stock' | 'out-of-stock';
 
+/**
+ * Reasons a user can pick when adjusting stock by hand
+ */
+export type StockAdjustmentReason =
+  | 'sale'
+  | 'damage'
+  | 'theft'
+  | 'manual-count'
+  | 'return'
+  | 'supplier-delivery';
+
 /**
  * Stock adjustment request
  */
 export interface StockAdjustmentRequest {
   itemId: string;
+  storeHouse?: string; // Location to adjust, the home storehouse by default
   quantity: number; // Can be positive (add) or negative (remove)
-  reason:
-    | 'sale'
-    | 'damage'
-    | 'theft'
-    | 'manual-count'
-    | 'return'
-    | 'supplier-delivery';
+  lotNumber?: string; // Lot to take from first when removing
+  serials?: string[]; // Units added or removed, serialized items
+  reason: StockAdjustmentReason;
   notes?: string;
 }
 
+/**
+ * What produced a stock movement
+ */
+export const StockMovementSourceSchema = z.enum([
+  'adjustment',
+  'sale',
+  'import',
+  'transfer',
+  'assembly',
+]);
+
+export type StockMovementSource = z.infer<typeof StockMovementSourceSchema>;
+
 /**
  * Stock movement history
+ * `reason` is an adjustment reason, or one of the system reasons
+ * (sale, sale-cancelled, import, import-cancelled, transfer-in,
+ * transfer-out, item-edit, opening-balance, kit-assembled, kit-component,
+ * kit-sale, kit-sale-cancelled).
  */
 export const StockMovementSchema = z.object({
   id: z.string(),
   itemId: z.string(),
   change: z.number(), // + or -
+  source: StockMovementSourceSchema,
   reason: z.string(),
+  reference: z.string().optional(), // Order / import / transfer id
   notes: z.string().optional(),
   previousQuantity: z.number(),
-  newQuantity: z.number(),
-  performedBy: z.string(),
+  newQuantity: z.number(), // Running balance after the movement
+  performedBy: z.object({
+    id: z.string(),
+    name: z.string(),
+  }),
   createdAt: z.string(),
 });
 
 export type StockMovement = z.infer<typeof StockMovementSchema>;
 
+/**
+ * Something that happened to one serialized unit
+ */
+export const SerialEventSchema = z.object({
+  type: z.enum(['import', 'sale', 'transfer']),
+  reference: z.string(), // Import / order / transfer id
+  status: z.enum(['pending', 'completed', 'cancelled']),
+  date: z.string(),
+  storeHouse: z.object({ id: z.string(), name: z.string() }), // Arrived at (imports) or left from
+  toStoreHouse: z.object({ id: z.string(), name: z.string() }).optional(), // Transfers
+  partner: z.object({ id: z.string(), name: z.string() }).optional(), // Supplier or client
+});
+
+export type SerialEvent = z.infer<typeof SerialEventSchema>;
+
+/**
+ * A serial number's history, oldest first
+ */
+export const SerialHistorySchema = z.object({
+  serial: z.string(),
+  item: z.object({ id: z.string(), name: z.string(), sku: z.string() }),
+  storeHouse: z.object({ id: z.string(), name: z.string() }).nullable(), // Where it is in stock, null once gone
+  events: z.array(SerialEventSchema),
+});
+
+export type SerialHistory = z.infer<typeof SerialHistorySchema>;
+
+/**
+ * Catalogue prices an item had from `date` until the next change
+ */
+export interface PriceChange {
+  date: string;
+  unitPrice: number;
+  sellingPrice?: number;
+  changedBy: { id: string; name: string };
+}
+
+/**
+ * One sale or purchase line of an item, in base units
+ */
+export interface PricePoint {
+  reference: string; // Order / import id
+  date: string; // When the order was placed
+  partner?: { id: string; name: string }; // Client or supplier
+  quantity: number;
+  unitPrice: number; // Sold or paid
+  listedPrice?: number; // Catalogue price at the time (sales)
+}
+
+/**
+ * An item's prices over time, oldest first. `catalogue` starts with the
+ * prices in effect when the range starts.
+ */
+export interface PriceHistory {
+  catalogue: PriceChange[];
+  sales: PricePoint[];
+  purchases: PricePoint[];
+}
+
+/**
+ * Assemble kits from their components
+ */
+export interface KitAssemblyRequest {
+  quantity: number;
+  storeHouse?: string; // Where the components are and the kits go, home by default
+  notes?: string;
+}
+
+/**
+ * Stock movement ledger filters
+ */
+export interface StockMovementFilters {
+  reasons?: string[];
+  performedBy?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/**
+ * Item fields a bulk import row can set. `storeHouse` is the storehouse id.
+ */
+export interface ItemImportData {
+  name?: string;
+  sku?: string;
+  unit?: string;
+  unitPrice?: number;
+  sellingPrice?: number;
+  tags?: string[];
+  quantity?: number;
+  lowStockAt?: number;
+  barcodes?: string[];
+  storeHouse?: string;
+}
+
+/**
+ * One bulk import row: updates `itemId` when set, creates an item
+ * otherwise. `row` is the line number in the uploaded file.
+ */
+export interface ItemImportRow {
+  row: number;
+  itemId?: string;
+  /** Updates: the location whose stock `item.quantity` is */
+  storeHouse?: string;
+  item: ItemImportData;
+}
+
+/**
+ * Outcome of one import batch. Rows fail independently.
+ */
+export const ItemImportResultSchema = z.object({
+  created: z.number(),
+  updated: z.number(),
+  failed: z.array(
+    z.object({
+      row: z.number(),
+      rcode: z.number(),
+      debug: z.string().optional(),
+    })
+  ),
+});
+
+export type ItemImportResult = z.infer<typeof ItemImportResultSchema>;
+
+/**
+ * Suggested low stock threshold (reorder point) and order size for one
+ * item, from its average daily sales
+ */
+export interface ReorderSuggestion {
+  itemId: string;
+  /** Average units sold per day over the lookback window */
+  dailySales: number;
+  reorderPoint: number;
+  reorderQuantity: number;
+}
+
+/**
+ * Reorder suggestions with the settings they were computed with. Items
+ * without recent sales have no suggestion.
+ */
+export interface ReorderSuggestions {
+  lookbackDays: number;
+  leadTimeDays: number;
+  safetyStockDays: number;
+  reorderCoverDays: number;
+  byItem: Record<string, ReorderSuggestion>;
+}
+
 /**
  * Inventory summary stats
  */
@@ -81,4 +322,5 @@ export interface InventoryFilters {
   status?: StockStatus | 'all';
   tags?: string[];
   storeHouse?: string;
+  archived?: boolean; // List archived items instead of active ones
 }
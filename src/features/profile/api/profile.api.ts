@@ -1,13 +1,12 @@
 import { apiClient } from '@/shared/lib/api-client';
 import type { Profile, UpdateProfileRequest } from '../types/profile.types';
-import { USE_MOCK_API, MOCK_PROFILE, mockDelay } from '@/shared/lib/mock-data';
-import type { User } from '@/features/auth/types/auth.types';
+import { UserSchema } from '@/features/auth/types/auth.types';
 
 /**
  * Profile API Service
  *
- * Handles all profile-related API calls with Zod validation.
- * Uses mock data when VITE_USE_MOCK_API=true
+ * Handles all profile-related API calls. Responses are validated against
+ * the auth UserSchema by the api-client.
  *
  * NOTE: Profile operations use the auth/profile endpoint for reading
  * and user/:id endpoint for updating.
@@ -28,23 +27,12 @@ function mapAppRoleToRole(
   }
 }
 
-// Store mock profile state
-let mockProfileState: Profile = {
-  ...MOCK_PROFILE,
-  role: 'admin',
-};
-
 /**
  * Get user profile (from auth endpoint)
  */
 export async function getProfile(): Promise<Profile> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    return mockProfileState;
-  }
-
   // Get profile from auth endpoint (returns User object)
-  const response = await apiClient.get<User>('/auth/profile');
+  const response = await apiClient.get('/auth/profile', { schema: UserSchema });
 
   // Convert User to Profile format
   return {
@@ -65,26 +53,19 @@ export async function getProfile(): Promise<Profile> {
 export async function updateProfile(
   data: UpdateProfileRequest
 ): Promise<Profile> {
-  if (USE_MOCK_API) {
-    await mockDelay();
-    // Update mock state
-    mockProfileState = {
-      ...mockProfileState,
-      ...data,
-      updatedAt: new Date().toISOString(),
-    };
-    return mockProfileState;
-  }
-
   // First get current profile to get user ID
   const currentProfile = await getProfile();
 
   // Update using user endpoint
-  const response = await apiClient.put<User>(`/user/${currentProfile.id}`, {
-    name: data.name,
-    phoneNumber: data.phone,
-    // Include other required fields from current profile
-  });
+  const response = await apiClient.put(
+    `/user/${currentProfile.id}`,
+    {
+      name: data.name,
+      phoneNumber: data.phone,
+      // Include other required fields from current profile
+    },
+    { schema: UserSchema }
+  );
 
   // Convert response to Profile format
   return {
@@ -0,0 +1,127 @@
+import { createSignal, For, Show } from 'solid-js';
+import { Input, Button, Alert } from '@/shared/ui';
+import {
+  IDLE_TIMEOUT_OPTIONS,
+  idleLockStore,
+} from '@/features/auth/store/idle-lock.store';
+import { notificationStore } from '@/shared/stores/notification.store';
+
+/**
+ * Idle timeout and quick-unlock PIN for this device
+ */
+export function ScreenLockSettings() {
+  const [pin, setPinValue] = createSignal('');
+  const [isEditingPin, setIsEditingPin] = createSignal(false);
+  const [error, setError] = createSignal('');
+
+  const handleSavePin = async (e: Event) => {
+    e.preventDefault();
+    setError('');
+
+    if (!/^\d{4,8}$/.test(pin())) {
+      setError('PIN must be 4 to 8 digits.');
+      return;
+    }
+
+    await idleLockStore.setPin(pin());
+    setPinValue('');
+    setIsEditingPin(false);
+    notificationStore.success('You can now unlock this device with your PIN.', {
+      title: 'PIN Saved',
+    });
+  };
+
+  return (
+    <div class="space-y-4">
+      <p class="text-sm text-text-secondary">
+        Lock this screen after a period of inactivity, e.g. on a shared counter
+        PC. Open forms stay as they were until you unlock.
+      </p>
+
+      <div>
+        <label class="mb-1.5 block text-sm font-medium text-text-primary">
+          Lock after
+        </label>
+        <select
+          value={idleLockStore.timeoutMinutes()}
+          onChange={(e) =>
+            idleLockStore.setTimeoutMinutes(Number(e.currentTarget.value))
+          }
+          class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus sm:w-60"
+        >
+          <For each={IDLE_TIMEOUT_OPTIONS}>
+            {(minutes) => (
+              <option value={minutes}>
+                {minutes === 0
+                  ? 'Never'
+                  : `${minutes} minute${minutes === 1 ? '' : 's'} of inactivity`}
+              </option>
+            )}
+          </For>
+        </select>
+      </div>
+
+      <Show
+        when={isEditingPin()}
+        fallback={
+          <div class="flex flex-wrap items-center gap-3">
+            <span class="text-sm text-text-secondary">
+              {idleLockStore.hasPin()
+                ? 'A quick-unlock PIN is set on this device.'
+                : 'No PIN set — unlocking asks for your password.'}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsEditingPin(true)}
+            >
+              {idleLockStore.hasPin() ? 'Change PIN' : 'Set PIN'}
+            </Button>
+            <Show when={idleLockStore.hasPin()}>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => idleLockStore.clearPin()}
+              >
+                Remove PIN
+              </Button>
+            </Show>
+          </div>
+        }
+      >
+        <form onSubmit={handleSavePin} class="space-y-3 sm:w-60">
+          <Show when={error()}>
+            <Alert variant="error">{error()}</Alert>
+          </Show>
+          <Input
+            type="password"
+            label="New PIN"
+            inputMode="numeric"
+            autocomplete="off"
+            placeholder="4–8 digits"
+            value={pin()}
+            onInput={(e) => setPinValue(e.currentTarget.value)}
+            required
+          />
+          <div class="flex gap-2">
+            <Button type="submit" size="sm">
+              Save PIN
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setPinValue('');
+                setError('');
+                setIsEditingPin(false);
+              }}
+            >
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </Show>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { ProfileCard } from '../components/ProfileCard';
 import { ProfileInfo } from '../components/ProfileInfo';
 import { ProfileEditForm } from '../components/ProfileEditForm';
 import { ChangePasswordForm } from '../components/ChangePasswordForm';
+import { ScreenLockSettings } from '../components/ScreenLockSettings';
 import type { UpdateProfileRequest } from '../types/profile.types';
 import { getErrorMessage } from '@/shared/lib/error-messages';
 
@@ -100,6 +101,13 @@ export default function ProfilePage() {
           </Show>
         </ProfileCard>
       </div>
+
+      {/* Screen Lock Section */}
+      <div class="mt-6">
+        <ProfileCard title="Screen Lock">
+          <ScreenLockSettings />
+        </ProfileCard>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,198 @@
+import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { z } from 'zod';
+import {
+  StocktakeStatusSchema,
+  type CreateStocktakeRequest,
+  type Stocktake,
+  type StocktakeCount,
+  type StocktakeFilters,
+} from '../types/stocktake.types';
+
+/**
+ * Stocktake API
+ *
+ * Count sessions per storehouse. Counts are saved as they are entered so
+ * a session can be resumed later or by another assignee.
+ */
+
+const PopulatedUserSchema = z.object({ _id: z.string(), name: z.string() });
+const UserRefSchema = z.union([z.string(), PopulatedUserSchema]);
+
+/**
+ * Backend stocktake schema (storehouse, users and items populated)
+ */
+const BackendStocktakeSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  storeHouse: z.union([
+    z.string(),
+    z.object({ _id: z.string(), name: z.string() }),
+  ]),
+  criteria: z.object({
+    search: z.string().optional(),
+    status: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+  status: StocktakeStatusSchema,
+  assignedTo: z.array(UserRefSchema),
+  createdBy: UserRefSchema,
+  lines: z.array(
+    z.object({
+      itemId: z.union([
+        z.string(),
+        z.object({
+          _id: z.string(),
+          name: z.string(),
+          unit: z.string(),
+          unitPrice: z.number(),
+        }),
+      ]),
+      expectedQuantity: z.number(),
+      countedQuantity: z.number().nullable(),
+      countedBy: UserRefSchema.optional(),
+      countedAt: z.string().optional(),
+    })
+  ),
+  postedAt: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+type BackendStocktake = z.infer<typeof BackendStocktakeSchema>;
+
+const StocktakeActionResponseSchema = z.object({
+  message: z.string(),
+  stocktake: BackendStocktakeSchema,
+});
+
+function mapUser(user: z.infer<typeof UserRefSchema>) {
+  return typeof user === 'string'
+    ? { id: user, name: 'Unknown' } // Not populated
+    : { id: user._id, name: user.name };
+}
+
+/**
+ * Map backend stocktake to frontend Stocktake type
+ */
+function mapBackendStocktake(s: BackendStocktake): Stocktake {
+  return {
+    id: s._id,
+    name: s.name,
+    storeHouse:
+      typeof s.storeHouse === 'string'
+        ? { id: s.storeHouse, name: 'Unknown' }
+        : { id: s.storeHouse._id, name: s.storeHouse.name },
+    criteria: s.criteria,
+    status: s.status,
+    assignedTo: s.assignedTo.map(mapUser),
+    createdBy: mapUser(s.createdBy),
+    lines: s.lines.map((line) => ({
+      itemId: typeof line.itemId === 'string' ? line.itemId : line.itemId._id,
+      itemName:
+        typeof line.itemId === 'string' ? 'Unknown Item' : line.itemId.name,
+      unit: typeof line.itemId === 'string' ? '' : line.itemId.unit,
+      unitPrice: typeof line.itemId === 'string' ? 0 : line.itemId.unitPrice,
+      expectedQuantity: line.expectedQuantity,
+      countedQuantity: line.countedQuantity,
+      countedBy: line.countedBy ? mapUser(line.countedBy) : undefined,
+      countedAt: line.countedAt,
+    })),
+    postedAt: s.postedAt,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+  };
+}
+
+/**
+ * List count sessions (newest first)
+ */
+export async function getStocktakes(
+  filters?: StocktakeFilters
+): Promise<Stocktake[]> {
+  const params = new URLSearchParams();
+  if (filters?.status) params.append('status', filters.status);
+  if (filters?.assignedTo) params.append('assignedTo', filters.assignedTo);
+
+  const queryString = params.toString();
+  const stocktakes = await queryGet(
+    'stocktakes',
+    queryString ? `/stocktake?${queryString}` : '/stocktake',
+    { schema: z.array(BackendStocktakeSchema) }
+  );
+  return stocktakes.map(mapBackendStocktake);
+}
+
+/**
+ * Get a count session with all its lines
+ */
+export async function getStocktake(id: string): Promise<Stocktake> {
+  const stocktake = await queryGet('stocktakes', `/stocktake/${id}`, {
+    schema: BackendStocktakeSchema,
+  });
+  return mapBackendStocktake(stocktake);
+}
+
+/**
+ * Start a count session; expected quantities are frozen by the backend
+ */
+export async function createStocktake(
+  data: CreateStocktakeRequest
+): Promise<Stocktake> {
+  const stocktake = await apiClient.post('/stocktake', data, {
+    schema: BackendStocktakeSchema,
+  });
+  invalidateAfterMutation('stocktakes');
+  return mapBackendStocktake(stocktake);
+}
+
+/**
+ * Save counted quantities (null clears a count)
+ */
+export async function saveStocktakeCounts(
+  id: string,
+  counts: StocktakeCount[]
+): Promise<Stocktake> {
+  const stocktake = await apiClient.patch(
+    `/stocktake/${id}/counts`,
+    { counts },
+    { schema: BackendStocktakeSchema }
+  );
+  invalidateAfterMutation('stocktakes');
+  return mapBackendStocktake(stocktake);
+}
+
+/**
+ * Replace the team members assigned to a session
+ */
+export async function assignStocktake(
+  id: string,
+  userIds: string[]
+): Promise<Stocktake> {
+  const stocktake = await apiClient.patch(
+    `/stocktake/${id}/assign`,
+    { assignedTo: userIds },
+    { schema: BackendStocktakeSchema }
+  );
+  invalidateAfterMutation('stocktakes');
+  return mapBackendStocktake(stocktake);
+}
+
+/**
+ * Post the variances as stock movements, or cancel the session
+ */
+export async function executeStocktakeAction(
+  id: string,
+  action: 'post' | 'cancel'
+): Promise<{ message: string; stocktake: Stocktake }> {
+  const result = await apiClient.patch(
+    `/stocktake/${id}/action`,
+    { action },
+    { schema: StocktakeActionResponseSchema }
+  );
+  invalidateAfterMutation('stocktakes');
+  return {
+    message: result.message,
+    stocktake: mapBackendStocktake(result.stocktake),
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * NewStocktakeModal – start a count session for one storehouse.
+ *
+ * Items are picked with the same filters as the inventory page; the
+ * preview shows how many lines the session will freeze.
+ */
+import { createSignal, For, Show, type Component } from 'solid-js';
+import { Button } from '@/shared/ui/Button';
+import { Input } from '@/shared/ui/Input';
+import { Alert } from '@/shared/ui/Alert';
+import { createQuery } from '@/shared/lib/create-query';
+import { getStorehouses } from '@/shared/api/storehouses.api';
+import { getBusinessUsers } from '@/shared/api/users.api';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { InventoryFiltersBar } from '@/features/inventory/components/InventoryFiltersBar';
+import { getInventoryItemsWithPagination } from '@/features/inventory/api/inventory.api';
+import type { InventoryFilters } from '@/features/inventory/types/inventory.types';
+import { createStocktake } from '../api/stocktake.api';
+import type { Stocktake } from '../types/stocktake.types';
+
+interface NewStocktakeModalProps {
+  onClose: () => void;
+  onCreated: (stocktake: Stocktake) => void;
+}
+
+export const NewStocktakeModal: Component<NewStocktakeModalProps> = (props) => {
+  const [name, setName] = createSignal('');
+  const [filters, setFilters] = createSignal<InventoryFilters>({
+    status: 'all',
+  });
+  const [assignees, setAssignees] = createSignal<string[]>([]);
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const [storehouses] = createQuery(
+    () => true,
+    () => getStorehouses(),
+    { scopes: ['storehouses'] }
+  );
+  const [users] = createQuery(
+    () => true,
+    () => getBusinessUsers(),
+    { scopes: ['users'] }
+  );
+
+  // How many items each filter set covers (total in the storehouse vs matched)
+  const [preview] = createQuery(
+    () => (filters().storeHouse ? filters() : null),
+    async (current) => {
+      const [all, matched] = await Promise.all([
+        getInventoryItemsWithPagination({
+          limit: 1,
+          storeHouse: current.storeHouse,
+        }),
+        getInventoryItemsWithPagination({
+          limit: 1,
+          search: current.search,
+          status: current.status !== 'all' ? current.status : undefined,
+          tags: current.tags,
+          storeHouse: current.storeHouse,
+        }),
+      ]);
+      return { total: all.pagination.total, matched: matched.pagination.total };
+    },
+    { scopes: ['items'] }
+  );
+
+  const toggleAssignee = (id: string) => {
+    setAssignees((prev) =>
+      prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]
+    );
+  };
+
+  const handleSubmit = async () => {
+    const current = filters();
+    if (!current.storeHouse) {
+      setError('Choose the storehouse to count');
+      return;
+    }
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const stocktake = await createStocktake({
+        name: name().trim() || undefined,
+        storeHouse: current.storeHouse,
+        search: current.search,
+        status: current.status !== 'all' ? current.status : undefined,
+        tags: current.tags,
+        assignedTo: assignees(),
+      });
+      props.onCreated(stocktake);
+    } catch (err: any) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) props.onClose();
+      }}
+    >
+      {/* Not a <form>: the filters bar has its own search form */}
+      <div class="flex max-h-[90vh] w-full max-w-2xl flex-col rounded-xl border border-border-default bg-bg-surface shadow-xl">
+        <div class="flex items-center justify-between border-b border-border-default px-6 py-4">
+          <h2 class="text-lg font-semibold text-text-primary">
+            New Stock Count
+          </h2>
+          <button
+            type="button"
+            onClick={() => props.onClose()}
+            class="rounded-lg p-1.5 text-text-muted hover:bg-bg-hover hover:text-text-primary"
+            aria-label="Close"
+          >
+            <svg
+              class="h-5 w-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                stroke-linecap="round"
+                stroke-linejoin="round"
+                stroke-width="2"
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <div class="flex-1 space-y-5 overflow-y-auto px-6 py-4">
+          <Show when={error()}>
+            <Alert variant="error">{error()}</Alert>
+          </Show>
+
+          <Input
+            label="Name"
+            value={name()}
+            onInput={(e) => setName(e.currentTarget.value)}
+            placeholder="Defaults to storehouse and date"
+          />
+
+          <div class="space-y-2">
+            <p class="text-sm font-medium text-text-primary">Items to count</p>
+            <InventoryFiltersBar
+              filters={filters()}
+              onFiltersChange={setFilters}
+              totalItems={preview()?.total ?? 0}
+              filteredCount={preview()?.matched ?? 0}
+              storehouses={(storehouses() ?? []).filter((s) => !s.isLocked)}
+            />
+            <p class="text-sm text-text-secondary">
+              <Show
+                when={filters().storeHouse}
+                fallback="Pick a location to count."
+              >
+                <Show when={preview()} fallback="Counting matching items...">
+                  {(counts) => (
+                    <>
+                      <span class="font-medium text-text-primary">
+                        {counts().matched}
+                      </span>{' '}
+                      of {counts().total} items in this location will be
+                      counted. Their current quantities are frozen when the
+                      count starts.
+                    </>
+                  )}
+                </Show>
+              </Show>
+            </p>
+          </div>
+
+          <div class="space-y-2">
+            <p class="text-sm font-medium text-text-primary">Assign to</p>
+            <div class="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              <For each={(users() ?? []).filter((u) => u.isActive !== false)}>
+                {(user) => (
+                  <label class="flex cursor-pointer items-center gap-2 rounded-lg border border-border-default px-3 py-2 text-sm text-text-primary hover:bg-bg-hover">
+                    <input
+                      type="checkbox"
+                      checked={assignees().includes(user._id)}
+                      onChange={() => toggleAssignee(user._id)}
+                    />
+                    <span class="truncate">{user.name}</span>
+                  </label>
+                )}
+              </For>
+            </div>
+          </div>
+        </div>
+
+        <div class="flex justify-end gap-2 border-t border-border-default px-6 py-4">
+          <Button type="button" variant="outline" onClick={props.onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSubmit}
+            disabled={isSubmitting() || preview()?.matched === 0}
+          >
+            {isSubmitting() ? 'Starting...' : 'Start Count'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
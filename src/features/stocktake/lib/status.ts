@@ -0,0 +1,22 @@
+import type { StocktakeStatus } from '../types/stocktake.types';
+
+/**
+ * Badge label and colours per session status
+ */
+export const STOCKTAKE_STATUS_BADGES: Record<
+  StocktakeStatus,
+  { class: string; label: string }
+> = {
+  'in-progress': {
+    class: 'bg-status-warning-bg text-status-warning-text',
+    label: 'In progress',
+  },
+  posted: {
+    class: 'bg-status-success-bg text-status-success-text',
+    label: 'Posted',
+  },
+  cancelled: {
+    class: 'bg-status-danger-bg text-status-danger-text',
+    label: 'Cancelled',
+  },
+};
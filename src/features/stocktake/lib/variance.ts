@@ -0,0 +1,51 @@
+import type {
+  StocktakeLine,
+  StocktakeSummary,
+  StocktakeVariance,
+} from '../types/stocktake.types';
+
+/**
+ * Variance of a single line
+ */
+export function getLineVariance(line: StocktakeLine): StocktakeVariance {
+  const difference =
+    line.countedQuantity === null
+      ? 0
+      : line.countedQuantity - line.expectedQuantity;
+  return {
+    line,
+    difference,
+    valueImpact: Math.round(difference * line.unitPrice * 100) / 100,
+  };
+}
+
+/**
+ * Counted lines that differ from the frozen quantity, largest value
+ * impact first
+ */
+export function getVarianceReport(lines: StocktakeLine[]): StocktakeVariance[] {
+  return lines
+    .map(getLineVariance)
+    .filter((v) => v.difference !== 0)
+    .sort((a, b) => Math.abs(b.valueImpact) - Math.abs(a.valueImpact));
+}
+
+/**
+ * Progress and totals for a session
+ */
+export function getStocktakeSummary(lines: StocktakeLine[]): StocktakeSummary {
+  const variances = lines.map(getLineVariance);
+  return {
+    totalLines: lines.length,
+    countedLines: lines.filter((l) => l.countedQuantity !== null).length,
+    linesWithVariance: variances.filter((v) => v.difference !== 0).length,
+    unitsOver: variances.reduce((sum, v) => sum + Math.max(0, v.difference), 0),
+    unitsShort: variances.reduce(
+      (sum, v) => sum + Math.max(0, -v.difference),
+      0
+    ),
+    netValueImpact:
+      Math.round(variances.reduce((sum, v) => sum + v.valueImpact, 0) * 100) /
+      100,
+  };
+}
@@ -0,0 +1,190 @@
+import { createSignal, For, Show } from 'solid-js';
+import { useNavigate } from '@solidjs/router';
+import { Button } from '@/shared/ui/Button';
+import { Card, CardBody } from '@/shared/ui';
+import { createQuery } from '@/shared/lib/create-query';
+import { formatDate } from '@/shared/lib/format';
+import { getBusiness } from '@/shared/stores/business.store';
+import { can } from '@/shared/stores/permissions.store';
+import { getUser } from '@/features/auth/store/session.store';
+import { getStocktakes } from '../api/stocktake.api';
+import { NewStocktakeModal } from '../components/NewStocktakeModal';
+import { STOCKTAKE_STATUS_BADGES } from '../lib/status';
+import { getStocktakeSummary } from '../lib/variance';
+import type { StocktakeStatus } from '../types/stocktake.types';
+
+type StatusFilter = StocktakeStatus | 'all';
+
+export default function StocktakePage() {
+  const navigate = useNavigate();
+  const [filter, setFilter] = createSignal<StatusFilter>('in-progress');
+  const [mineOnly, setMineOnly] = createSignal(false);
+  const [isModalOpen, setIsModalOpen] = createSignal(false);
+
+  const [stocktakes] = createQuery(
+    () => ({
+      status: filter() === 'all' ? undefined : (filter() as StocktakeStatus),
+      assignedTo: mineOnly() ? getUser()?._id : undefined,
+    }),
+    (filters) => getStocktakes(filters),
+    { scopes: ['stocktakes'] }
+  );
+
+  return (
+    <div class="space-y-6 py-8">
+      {/* Header */}
+      <div class="flex items-start justify-between">
+        <div>
+          <h1 class="text-3xl font-bold text-text-primary">Stock Counts</h1>
+          <p class="mt-2 text-sm text-text-secondary">
+            Count a storehouse, review the differences and correct stock in one
+            go
+          </p>
+        </div>
+        <Show when={can('items', 'update')}>
+          <Button variant="primary" onClick={() => setIsModalOpen(true)}>
+            New Count
+          </Button>
+        </Show>
+      </div>
+
+      {/* Filters */}
+      <div class="flex flex-wrap items-center justify-between gap-3">
+        <div class="bg-bg-subtle flex gap-1 rounded-lg p-1">
+          <For
+            each={
+              [
+                { value: 'in-progress', label: 'In progress' },
+                { value: 'posted', label: 'Posted' },
+                { value: 'cancelled', label: 'Cancelled' },
+                { value: 'all', label: 'All' },
+              ] as { value: StatusFilter; label: string }[]
+            }
+          >
+            {(tab) => (
+              <button
+                onClick={() => setFilter(tab.value)}
+                class={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                  filter() === tab.value
+                    ? 'bg-bg-surface text-text-primary shadow-sm'
+                    : 'text-text-secondary hover:text-text-primary'
+                }`}
+              >
+                {tab.label}
+              </button>
+            )}
+          </For>
+        </div>
+        <label class="flex items-center gap-2 text-sm text-text-primary">
+          <input
+            type="checkbox"
+            checked={mineOnly()}
+            onChange={(e) => setMineOnly(e.currentTarget.checked)}
+          />
+          Assigned to me
+        </label>
+      </div>
+
+      {/* Sessions */}
+      <Show
+        when={!stocktakes.loading}
+        fallback={
+          <div class="space-y-3">
+            <For each={[1, 2, 3]}>
+              {() => (
+                <div class="h-20 animate-pulse rounded-lg border border-border-default bg-bg-surface" />
+              )}
+            </For>
+          </div>
+        }
+      >
+        <Show
+          when={(stocktakes() ?? []).length > 0}
+          fallback={
+            <Card>
+              <CardBody>
+                <div class="py-12 text-center">
+                  <h3 class="text-lg font-medium text-text-primary">
+                    No stock counts found
+                  </h3>
+                  <p class="mt-1 text-sm text-text-secondary">
+                    Start a count to check what is actually on the shelves.
+                  </p>
+                </div>
+              </CardBody>
+            </Card>
+          }
+        >
+          <div class="space-y-2">
+            <For each={stocktakes()}>
+              {(stocktake) => {
+                const summary = getStocktakeSummary(stocktake.lines);
+                const badge = STOCKTAKE_STATUS_BADGES[stocktake.status];
+                return (
+                  <div
+                    class="cursor-pointer rounded-lg border border-border-default bg-bg-surface p-4 transition-colors hover:bg-bg-hover"
+                    onClick={() => navigate(`/stocktake/${stocktake.id}`)}
+                  >
+                    <div class="flex items-center justify-between gap-4">
+                      <div class="min-w-0 flex-1">
+                        <div class="flex flex-wrap items-center gap-2">
+                          <span class="text-sm font-semibold text-text-primary">
+                            {stocktake.name}
+                          </span>
+                          <span
+                            class={`rounded-full px-2 py-0.5 text-xs font-medium ${badge.class}`}
+                          >
+                            {badge.label}
+                          </span>
+                        </div>
+                        <div class="mt-1 flex flex-wrap items-center gap-x-3 text-xs text-text-secondary">
+                          <span class="font-medium">
+                            {stocktake.storeHouse.name}
+                          </span>
+                          <span>
+                            {formatDate(
+                              stocktake.createdAt,
+                              getBusiness()?.timezone
+                            )}
+                          </span>
+                          <Show when={stocktake.assignedTo.length > 0}>
+                            <span>
+                              Assigned to{' '}
+                              {stocktake.assignedTo
+                                .map((u) => u.name)
+                                .join(', ')}
+                            </span>
+                          </Show>
+                        </div>
+                      </div>
+                      <div class="text-right text-sm">
+                        <p class="font-medium text-text-primary">
+                          {summary.countedLines}/{summary.totalLines} counted
+                        </p>
+                        <Show when={summary.linesWithVariance > 0}>
+                          <p class="text-xs text-status-warning-text">
+                            {summary.linesWithVariance} with differences
+                          </p>
+                        </Show>
+                      </div>
+                    </div>
+                  </div>
+                );
+              }}
+            </For>
+          </div>
+        </Show>
+      </Show>
+
+      <Show when={isModalOpen()}>
+        <NewStocktakeModal
+          onClose={() => setIsModalOpen(false)}
+          onCreated={(stocktake) => {
+            setIsModalOpen(false);
+            navigate(`/stocktake/${stocktake.id}`);
+          }}
+        />
+      </Show>
+    </div>
+  );
+}
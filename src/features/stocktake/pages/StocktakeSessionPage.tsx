@@ -0,0 +1,683 @@
+import { createSignal, For, Index, onCleanup, Show } from 'solid-js';
+import { A, useParams } from '@solidjs/router';
+import { Button } from '@/shared/ui/Button';
+import { Alert, ConfirmDialog } from '@/shared/ui';
+import { createQuery } from '@/shared/lib/create-query';
+import { formatCurrency, formatDate } from '@/shared/lib/format';
+import { getErrorMessage, getErrorTitle } from '@/shared/lib/error-messages';
+import { getBusiness } from '@/shared/stores/business.store';
+import { can } from '@/shared/stores/permissions.store';
+import { notificationStore } from '@/shared/stores/notification.store';
+import { getBusinessUsers } from '@/shared/api/users.api';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { findItemByCode } from '@/features/inventory/api/inventory.api';
+import {
+  assignStocktake,
+  executeStocktakeAction,
+  getStocktake,
+  saveStocktakeCounts,
+} from '../api/stocktake.api';
+import { STOCKTAKE_STATUS_BADGES } from '../lib/status';
+import {
+  getLineVariance,
+  getStocktakeSummary,
+  getVarianceReport,
+} from '../lib/variance';
+import type { StocktakeLine } from '../types/stocktake.types';
+
+type Tab = 'count' | 'variance';
+
+// Counts are saved shortly after typing stops, in one request
+const SAVE_DELAY_MS = 800;
+
+export default function StocktakeSessionPage() {
+  const params = useParams();
+  const [tab, setTab] = createSignal<Tab>('count');
+  const [uncountedOnly, setUncountedOnly] = createSignal(false);
+  const [scanInput, setScanInput] = createSignal('');
+  const [scanMessage, setScanMessage] = createSignal<{
+    text: string;
+    ok: boolean;
+  } | null>(null);
+  // Entered but not yet saved counts, by item id
+  const [drafts, setDrafts] = createSignal<Record<string, number | null>>({});
+  const [isSaving, setIsSaving] = createSignal(false);
+  const [confirmAction, setConfirmAction] = createSignal<
+    'post' | 'cancel' | null
+  >(null);
+  const [isProcessing, setIsProcessing] = createSignal(false);
+  const [isEditingAssignees, setIsEditingAssignees] = createSignal(false);
+  const [assigneeDraft, setAssigneeDraft] = createSignal<string[]>([]);
+
+  const [stocktake, { mutate }] = createQuery(
+    () => params['id'],
+    (id) => getStocktake(id),
+    { scopes: ['stocktakes'] }
+  );
+  const [users] = createQuery(
+    () => isEditingAssignees(),
+    () => getBusinessUsers(),
+    { scopes: ['users'] }
+  );
+
+  const isEditable = () =>
+    stocktake()?.status === 'in-progress' && can('items', 'update');
+
+  // Lines with unsaved counts applied, so totals follow what is typed
+  const lines = (): StocktakeLine[] => {
+    const pending = drafts();
+    return (stocktake()?.lines ?? []).map((line) =>
+      line.itemId in pending
+        ? { ...line, countedQuantity: pending[line.itemId] ?? null }
+        : line
+    );
+  };
+
+  const summary = () => getStocktakeSummary(lines());
+  const visibleLines = () =>
+    uncountedOnly()
+      ? lines().filter((line) => line.countedQuantity === null)
+      : lines();
+
+  const money = (amount: number) =>
+    formatCurrency(amount, getBusiness()?.currency);
+
+  // ── Saving counts ────────────────────────────
+
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+  onCleanup(() => {
+    clearTimeout(saveTimer);
+    void flushCounts();
+  });
+
+  const flushCounts = async () => {
+    clearTimeout(saveTimer);
+    const id = stocktake()?.id;
+    const pending = drafts();
+    const counts = Object.entries(pending).map(([itemId, countedQuantity]) => ({
+      itemId,
+      countedQuantity,
+    }));
+    if (!id || counts.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const saved = await saveStocktakeCounts(id, counts);
+      mutate(saved);
+      // Keep anything typed while the request was in flight
+      setDrafts((current) =>
+        Object.fromEntries(
+          Object.entries(current).filter(
+            ([itemId, value]) => pending[itemId] !== value
+          )
+        )
+      );
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Counts not saved',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const setCount = (itemId: string, value: number | null) => {
+    setDrafts((current) => ({ ...current, [itemId]: value }));
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => void flushCounts(), SAVE_DELAY_MS);
+  };
+
+  const handleCountInput = (itemId: string, raw: string) => {
+    if (raw.trim() === '') {
+      setCount(itemId, null);
+      return;
+    }
+    const value = Number(raw);
+    if (Number.isInteger(value) && value >= 0) setCount(itemId, value);
+  };
+
+  // Labels carry the item id, manufacturer codes are looked up; typed
+  // entries may also use the item name
+  const countCode = async (code: string) => {
+    let line = lines().find(
+      (l) =>
+        l.itemId === code || l.itemName.toLowerCase() === code.toLowerCase()
+    );
+    if (!line) {
+      const item = await findItemByCode(code).catch(() => null);
+      line = item ? lines().find((l) => l.itemId === item.id) : undefined;
+    }
+    if (!line) {
+      setScanMessage({
+        text: `"${code}" is not part of this count`,
+        ok: false,
+      });
+      return;
+    }
+    const next = (line.countedQuantity ?? 0) + 1;
+    setCount(line.itemId, next);
+    setScanMessage({ text: `${line.itemName}: ${next}`, ok: true });
+  };
+
+  const handleScan = (e: Event) => {
+    e.preventDefault();
+    const code = scanInput().trim();
+    setScanInput('');
+    if (code) void countCode(code);
+  };
+
+  // Scanner input counts wherever the focus is, while the session is open
+  useScanHandler(async (code) => {
+    if (!isEditable()) return false;
+    await countCode(code);
+    return true;
+  });
+
+  // ── Session actions ──────────────────────────
+
+  const handleAction = async (action: 'post' | 'cancel') => {
+    const current = stocktake();
+    if (!current) return;
+    setIsProcessing(true);
+    try {
+      await flushCounts();
+      const result = await executeStocktakeAction(current.id, action);
+      mutate(result.stocktake);
+      notificationStore.success(result.message);
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Error',
+      });
+    } finally {
+      setIsProcessing(false);
+      setConfirmAction(null);
+    }
+  };
+
+  const startEditingAssignees = () => {
+    setAssigneeDraft(stocktake()?.assignedTo.map((u) => u.id) ?? []);
+    setIsEditingAssignees(true);
+  };
+
+  const saveAssignees = async () => {
+    const current = stocktake();
+    if (!current) return;
+    setIsProcessing(true);
+    try {
+      mutate(await assignStocktake(current.id, assigneeDraft()));
+      setIsEditingAssignees(false);
+    } catch (err: any) {
+      notificationStore.error(getErrorMessage(err), {
+        title: getErrorTitle(err) || 'Error',
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <div class="space-y-6 py-8">
+      <A
+        href="/stocktake"
+        class="text-sm text-text-secondary hover:text-text-primary"
+      >
+        ← All stock counts
+      </A>
+
+      <Show
+        when={stocktake()}
+        fallback={
+          <Show
+            when={!stocktake.loading}
+            fallback={
+              <div class="h-40 animate-pulse rounded-lg border border-border-default bg-bg-surface" />
+            }
+          >
+            <Alert variant="error">
+              {stocktake.error
+                ? getErrorMessage(stocktake.error)
+                : 'Stock count not found'}
+            </Alert>
+          </Show>
+        }
+      >
+        {(current) => (
+          <>
+            {/* Header */}
+            <div class="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <div class="flex flex-wrap items-center gap-2">
+                  <h1 class="text-3xl font-bold text-text-primary">
+                    {current().name}
+                  </h1>
+                  <span
+                    class={`rounded-full px-2 py-0.5 text-xs font-medium ${STOCKTAKE_STATUS_BADGES[current().status].class}`}
+                  >
+                    {STOCKTAKE_STATUS_BADGES[current().status].label}
+                  </span>
+                </div>
+                <p class="mt-2 text-sm text-text-secondary">
+                  {current().storeHouse.name} · started{' '}
+                  {formatDate(current().createdAt, getBusiness()?.timezone)} by{' '}
+                  {current().createdBy.name}
+                  <Show when={current().criteria.tags?.length}>
+                    {' '}
+                    · tags: {current().criteria.tags?.join(', ')}
+                  </Show>
+                  <Show when={current().criteria.search}>
+                    {' '}
+                    · “{current().criteria.search}”
+                  </Show>
+                </p>
+              </div>
+              <Show when={isEditable()}>
+                <div class="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => setConfirmAction('cancel')}
+                  >
+                    Cancel Count
+                  </Button>
+                  <Button
+                    variant="primary"
+                    onClick={() => setConfirmAction('post')}
+                    disabled={summary().countedLines === 0}
+                  >
+                    Post Differences
+                  </Button>
+                </div>
+              </Show>
+            </div>
+
+            {/* Progress + assignees */}
+            <div class="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div class="rounded-lg border border-border-default bg-bg-surface p-4">
+                <p class="text-sm text-text-secondary">Counted</p>
+                <p class="mt-1 text-2xl font-bold text-text-primary">
+                  {summary().countedLines}/{summary().totalLines}
+                </p>
+                <div class="mt-2 h-1.5 rounded-full bg-bg-hover">
+                  <div
+                    class="h-1.5 rounded-full bg-accent-primary"
+                    style={{
+                      width: `${
+                        summary().totalLines
+                          ? (summary().countedLines / summary().totalLines) *
+                            100
+                          : 0
+                      }%`,
+                    }}
+                  />
+                </div>
+              </div>
+              <div class="rounded-lg border border-border-default bg-bg-surface p-4">
+                <p class="text-sm text-text-secondary">Value impact</p>
+                <p
+                  class={`mt-1 text-2xl font-bold ${
+                    summary().netValueImpact < 0
+                      ? 'text-status-danger-text'
+                      : 'text-text-primary'
+                  }`}
+                >
+                  {money(summary().netValueImpact)}
+                </p>
+                <p class="mt-1 text-xs text-text-secondary">
+                  +{summary().unitsOver} over · −{summary().unitsShort} short
+                </p>
+              </div>
+              <div class="rounded-lg border border-border-default bg-bg-surface p-4">
+                <div class="flex items-center justify-between">
+                  <p class="text-sm text-text-secondary">Assigned to</p>
+                  <Show when={isEditable() && !isEditingAssignees()}>
+                    <button
+                      onClick={startEditingAssignees}
+                      class="text-xs font-medium text-accent-primary hover:underline"
+                    >
+                      Edit
+                    </button>
+                  </Show>
+                </div>
+                <Show
+                  when={isEditingAssignees()}
+                  fallback={
+                    <p class="mt-1 text-sm text-text-primary">
+                      {current().assignedTo.length
+                        ? current()
+                            .assignedTo.map((u) => u.name)
+                            .join(', ')
+                        : 'Nobody yet'}
+                    </p>
+                  }
+                >
+                  <div class="mt-2 max-h-32 space-y-1 overflow-y-auto">
+                    <For each={users() ?? []}>
+                      {(user) => (
+                        <label class="flex items-center gap-2 text-sm text-text-primary">
+                          <input
+                            type="checkbox"
+                            checked={assigneeDraft().includes(user._id)}
+                            onChange={() =>
+                              setAssigneeDraft((prev) =>
+                                prev.includes(user._id)
+                                  ? prev.filter((id) => id !== user._id)
+                                  : [...prev, user._id]
+                              )
+                            }
+                          />
+                          {user.name}
+                        </label>
+                      )}
+                    </For>
+                  </div>
+                  <div class="mt-2 flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setIsEditingAssignees(false)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      onClick={saveAssignees}
+                      disabled={isProcessing()}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </Show>
+              </div>
+            </div>
+
+            {/* Tabs */}
+            <div class="flex items-center justify-between gap-3">
+              <div class="bg-bg-subtle flex gap-1 rounded-lg p-1">
+                <For
+                  each={
+                    [
+                      { value: 'count', label: 'Count' },
+                      { value: 'variance', label: 'Variance Report' },
+                    ] as { value: Tab; label: string }[]
+                  }
+                >
+                  {(t) => (
+                    <button
+                      onClick={() => setTab(t.value)}
+                      class={`rounded-md px-4 py-2 text-sm font-medium transition-colors ${
+                        tab() === t.value
+                          ? 'bg-bg-surface text-text-primary shadow-sm'
+                          : 'text-text-secondary hover:text-text-primary'
+                      }`}
+                    >
+                      {t.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+              <Show when={isSaving() || Object.keys(drafts()).length > 0}>
+                <span class="text-xs text-text-muted">Saving...</span>
+              </Show>
+            </div>
+
+            {/* Count tab */}
+            <Show when={tab() === 'count'}>
+              <div class="space-y-3">
+                <div class="flex flex-wrap items-center gap-3">
+                  <Show when={isEditable()}>
+                    <form onSubmit={handleScan} class="flex flex-1 gap-2">
+                      <input
+                        type="text"
+                        value={scanInput()}
+                        onInput={(e) => setScanInput(e.currentTarget.value)}
+                        placeholder="Scan a label or type an item name, then Enter (+1)"
+                        class="w-full rounded-lg border border-border-default bg-bg-surface px-3 py-2 text-sm text-text-primary focus:border-border-focus focus:outline-none focus:ring-1 focus:ring-border-focus"
+                        autofocus
+                      />
+                    </form>
+                  </Show>
+                  <label class="flex items-center gap-2 text-sm text-text-primary">
+                    <input
+                      type="checkbox"
+                      checked={uncountedOnly()}
+                      onChange={(e) =>
+                        setUncountedOnly(e.currentTarget.checked)
+                      }
+                    />
+                    Uncounted only
+                  </label>
+                </div>
+                <Show when={scanMessage()}>
+                  {(message) => (
+                    <p
+                      class={`text-sm ${
+                        message().ok
+                          ? 'text-status-success-text'
+                          : 'text-status-danger-text'
+                      }`}
+                    >
+                      {message().text}
+                    </p>
+                  )}
+                </Show>
+
+                <div class="overflow-hidden rounded-lg border border-border-subtle">
+                  <table class="w-full text-sm">
+                    <thead class="bg-bg-surface-subtle text-left text-xs uppercase text-text-secondary">
+                      <tr>
+                        <th class="px-3 py-2 font-medium">Item</th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Expected
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Counted
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Difference
+                        </th>
+                        <th class="hidden px-3 py-2 font-medium sm:table-cell">
+                          Counted by
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-border-subtle">
+                      {/* Index keeps the rows (and input focus) while counts change */}
+                      <Index each={visibleLines()}>
+                        {(line) => {
+                          const variance = () => getLineVariance(line());
+                          return (
+                            <tr>
+                              <td class="px-3 py-2 text-text-primary">
+                                {line().itemName}
+                                <span class="ml-1 text-xs text-text-muted">
+                                  {line().unit}
+                                </span>
+                              </td>
+                              <td class="px-3 py-2 text-right text-text-secondary">
+                                {line().expectedQuantity}
+                              </td>
+                              <td class="px-3 py-2 text-right">
+                                <Show
+                                  when={isEditable()}
+                                  fallback={
+                                    <span class="text-text-primary">
+                                      {line().countedQuantity ?? '—'}
+                                    </span>
+                                  }
+                                >
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    step="1"
+                                    value={line().countedQuantity ?? ''}
+                                    onInput={(e) =>
+                                      handleCountInput(
+                                        line().itemId,
+                                        e.currentTarget.value
+                                      )
+                                    }
+                                    class="w-24 rounded-lg border border-border-default bg-bg-surface px-2 py-1 text-right text-sm text-text-primary focus:border-border-focus focus:outline-none"
+                                    aria-label={`Counted ${line().itemName}`}
+                                  />
+                                </Show>
+                              </td>
+                              <td
+                                class={`px-3 py-2 text-right font-medium ${
+                                  variance().difference > 0
+                                    ? 'text-status-success-text'
+                                    : variance().difference < 0
+                                      ? 'text-status-danger-text'
+                                      : 'text-text-muted'
+                                }`}
+                              >
+                                {line().countedQuantity === null
+                                  ? '—'
+                                  : `${variance().difference > 0 ? '+' : ''}${variance().difference}`}
+                              </td>
+                              <td class="hidden px-3 py-2 text-text-secondary sm:table-cell">
+                                {line().countedBy?.name ?? ''}
+                              </td>
+                            </tr>
+                          );
+                        }}
+                      </Index>
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </Show>
+
+            {/* Variance tab */}
+            <Show when={tab() === 'variance'}>
+              <Show
+                when={getVarianceReport(lines()).length > 0}
+                fallback={
+                  <p class="rounded-lg border border-border-subtle py-6 text-center text-sm text-text-secondary">
+                    {summary().countedLines === 0
+                      ? 'Nothing counted yet.'
+                      : 'Every counted item matches the expected quantity.'}
+                  </p>
+                }
+              >
+                <div class="overflow-hidden rounded-lg border border-border-subtle">
+                  <table class="w-full text-sm">
+                    <thead class="bg-bg-surface-subtle text-left text-xs uppercase text-text-secondary">
+                      <tr>
+                        <th class="px-3 py-2 font-medium">Item</th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Expected
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Counted
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Difference
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Unit price
+                        </th>
+                        <th class="px-3 py-2 text-right font-medium">
+                          Value impact
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody class="divide-y divide-border-subtle">
+                      <For each={getVarianceReport(lines())}>
+                        {(variance) => (
+                          <tr>
+                            <td class="px-3 py-2 text-text-primary">
+                              {variance.line.itemName}
+                            </td>
+                            <td class="px-3 py-2 text-right text-text-secondary">
+                              {variance.line.expectedQuantity}
+                            </td>
+                            <td class="px-3 py-2 text-right text-text-primary">
+                              {variance.line.countedQuantity}
+                            </td>
+                            <td
+                              class={`px-3 py-2 text-right font-medium ${
+                                variance.difference > 0
+                                  ? 'text-status-success-text'
+                                  : 'text-status-danger-text'
+                              }`}
+                            >
+                              {variance.difference > 0 ? '+' : ''}
+                              {variance.difference}
+                            </td>
+                            <td class="px-3 py-2 text-right text-text-secondary">
+                              {money(variance.line.unitPrice)}
+                            </td>
+                            <td
+                              class={`px-3 py-2 text-right font-medium ${
+                                variance.valueImpact < 0
+                                  ? 'text-status-danger-text'
+                                  : 'text-status-success-text'
+                              }`}
+                            >
+                              {money(variance.valueImpact)}
+                            </td>
+                          </tr>
+                        )}
+                      </For>
+                    </tbody>
+                    <tfoot class="bg-bg-surface-subtle text-sm">
+                      <tr>
+                        <td
+                          colSpan={5}
+                          class="px-3 py-2 font-medium text-text-primary"
+                        >
+                          Net value impact
+                        </td>
+                        <td class="px-3 py-2 text-right font-bold text-text-primary">
+                          {money(summary().netValueImpact)}
+                        </td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              </Show>
+            </Show>
+
+            <ConfirmDialog
+              isOpen={confirmAction() === 'post'}
+              title="Post differences?"
+              confirmLabel="Post"
+              isSubmitting={isProcessing()}
+              onConfirm={() => handleAction('post')}
+              onCancel={() => setConfirmAction(null)}
+            >
+              <p>
+                {summary().linesWithVariance} item
+                {summary().linesWithVariance === 1 ? '' : 's'} will be corrected
+                as manual-count stock movements (net{' '}
+                {money(summary().netValueImpact)}).
+              </p>
+              <Show when={summary().countedLines < summary().totalLines}>
+                <p class="mt-2">
+                  {summary().totalLines - summary().countedLines} uncounted item
+                  {summary().totalLines - summary().countedLines === 1
+                    ? ''
+                    : 's'}{' '}
+                  will be left unchanged.
+                </p>
+              </Show>
+            </ConfirmDialog>
+
+            <ConfirmDialog
+              isOpen={confirmAction() === 'cancel'}
+              title="Cancel this count?"
+              confirmLabel="Cancel Count"
+              cancelLabel="Keep Counting"
+              danger
+              isSubmitting={isProcessing()}
+              onConfirm={() => handleAction('cancel')}
+              onCancel={() => setConfirmAction(null)}
+            >
+              <p>Entered counts are discarded and no stock is changed.</p>
+            </ConfirmDialog>
+          </>
+        )}
+      </Show>
+    </div>
+  );
+}
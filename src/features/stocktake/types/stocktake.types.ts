@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+/**
+ * Stocktake (cycle count) types
+ *
+ * A session counts the items of one storehouse that matched the chosen
+ * inventory criteria when it was started. Expected quantities are frozen
+ * at that moment; posting books the variances as `manual-count` movements.
+ */
+
+export const StocktakeStatusSchema = z.enum([
+  'in-progress',
+  'posted',
+  'cancelled',
+]);
+
+export type StocktakeStatus = z.infer<typeof StocktakeStatusSchema>;
+
+export interface StocktakeUser {
+  id: string;
+  name: string;
+}
+
+export const StocktakeLineSchema = z.object({
+  itemId: z.string(),
+  itemName: z.string(),
+  unit: z.string(),
+  unitPrice: z.number(),
+  expectedQuantity: z.number(),
+  countedQuantity: z.number().nullable(), // null = not counted yet
+  countedBy: z.object({ id: z.string(), name: z.string() }).optional(),
+  countedAt: z.string().optional(),
+});
+
+export type StocktakeLine = z.infer<typeof StocktakeLineSchema>;
+
+export const StocktakeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  storeHouse: z.object({ id: z.string(), name: z.string() }),
+  criteria: z.object({
+    search: z.string().optional(),
+    status: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+  }),
+  status: StocktakeStatusSchema,
+  assignedTo: z.array(z.object({ id: z.string(), name: z.string() })),
+  createdBy: z.object({ id: z.string(), name: z.string() }),
+  lines: z.array(StocktakeLineSchema),
+  postedAt: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type Stocktake = z.infer<typeof StocktakeSchema>;
+
+/**
+ * Start a session. Criteria are the same as the inventory filters.
+ */
+export interface CreateStocktakeRequest {
+  name?: string;
+  storeHouse: string;
+  search?: string;
+  status?: string;
+  tags?: string[];
+  assignedTo?: string[];
+}
+
+export interface StocktakeCount {
+  itemId: string;
+  countedQuantity: number | null;
+}
+
+export interface StocktakeFilters {
+  status?: StocktakeStatus;
+  assignedTo?: string;
+}
+
+/**
+ * One line of the variance report
+ */
+export interface StocktakeVariance {
+  line: StocktakeLine;
+  /** counted − expected (0 for uncounted lines) */
+  difference: number;
+  /** difference × unitPrice */
+  valueImpact: number;
+}
+
+export interface StocktakeSummary {
+  totalLines: number;
+  countedLines: number;
+  linesWithVariance: number;
+  unitsOver: number;
+  unitsShort: number;
+  /** Net value impact of all variances */
+  netValueImpact: number;
+}
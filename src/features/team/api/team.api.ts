@@ -1,8 +1,18 @@
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { MessageResponseSchema } from '@/shared/lib/contract';
+import { z } from 'zod';
 import type {
   TeamMember,
   InviteUserRequest,
   InvitedUser,
+  EmailAvailability,
+} from '../types/team.types';
+import {
+  EmailAvailabilitySchema,
+  InviteUserResponseSchema,
+  InvitedUserSchema,
+  TeamMemberSchema,
 } from '../types/team.types';
 
 /**
@@ -15,16 +25,16 @@ import type {
  * Get all users in the business
  */
 export async function getTeamMembers(): Promise<TeamMember[]> {
-  const response = await apiClient.get<TeamMember[]>('/user');
-  return response;
+  return queryGet('users', '/user', { schema: z.array(TeamMemberSchema) });
 }
 
 /**
  * Get all pending invited users for the business
  */
 export async function getInvitedUsers(): Promise<InvitedUser[]> {
-  const response = await apiClient.get<InvitedUser[]>('/user/invited');
-  return response;
+  return queryGet('users', '/user/invited', {
+    schema: z.array(InvitedUserSchema),
+  });
 }
 
 /**
@@ -32,12 +42,10 @@ export async function getInvitedUsers(): Promise<InvitedUser[]> {
  */
 export async function checkEmailAvailability(
   email: string
-): Promise<{ available: boolean; reason?: 'registered' | 'invited' }> {
-  const response = await apiClient.get<{
-    available: boolean;
-    reason?: 'registered' | 'invited';
-  }>(`/user/check-email?email=${encodeURIComponent(email)}`);
-  return response;
+): Promise<EmailAvailability> {
+  return apiClient.get(`/user/check-email?email=${encodeURIComponent(email)}`, {
+    schema: EmailAvailabilitySchema,
+  });
 }
 
 /**
@@ -46,10 +54,10 @@ export async function checkEmailAvailability(
 export async function inviteUser(
   data: InviteUserRequest
 ): Promise<{ message: string; email: string }> {
-  const response = await apiClient.post<{ message: string; email: string }>(
-    '/user/invite',
-    data
-  );
+  const response = await apiClient.post('/user/invite', data, {
+    schema: InviteUserResponseSchema,
+  });
+  invalidateAfterMutation('users');
   return response;
 }
 
@@ -59,9 +67,12 @@ export async function inviteUser(
 export async function deactivateUser(
   userId: string
 ): Promise<{ message: string }> {
-  const response = await apiClient.patch<{ message: string }>(
-    `/user/${userId}/deactivate`
+  const response = await apiClient.patch(
+    `/user/${userId}/deactivate`,
+    undefined,
+    { schema: MessageResponseSchema }
   );
+  invalidateAfterMutation('users');
   return response;
 }
 
@@ -71,8 +82,11 @@ export async function deactivateUser(
 export async function reactivateUser(
   userId: string
 ): Promise<{ message: string }> {
-  const response = await apiClient.patch<{ message: string }>(
-    `/user/${userId}/reactivate`
+  const response = await apiClient.patch(
+    `/user/${userId}/reactivate`,
+    undefined,
+    { schema: MessageResponseSchema }
   );
+  invalidateAfterMutation('users');
   return response;
 }
@@ -23,17 +23,37 @@ export interface InviteUserRequest {
 /**
  * Invited (pending) user returned from GET /user/invited
  */
-export interface InvitedUser {
-  _id: string;
-  email: string;
-  accountType: 'invited';
-  assignedAppRole: 'admin' | 'user';
-  assignedRoles: string[];
-  assignedStoreHouses: string[];
-  name?: string;
-  expiresAt: string;
-  createdAt: string;
-}
+export const InvitedUserSchema = z.object({
+  _id: z.string(),
+  email: z.string(),
+  accountType: z.literal('invited'),
+  assignedAppRole: z.enum(['admin', 'user']),
+  assignedRoles: z.array(z.string()),
+  assignedStoreHouses: z.array(z.string()),
+  name: z.string().optional(),
+  expiresAt: z.string(),
+  createdAt: z.string(),
+});
+
+export type InvitedUser = z.infer<typeof InvitedUserSchema>;
+
+/**
+ * Email availability check result
+ */
+export const EmailAvailabilitySchema = z.object({
+  available: z.boolean(),
+  reason: z.enum(['registered', 'invited']).optional(),
+});
+
+export type EmailAvailability = z.infer<typeof EmailAvailabilitySchema>;
+
+/**
+ * Invite user response
+ */
+export const InviteUserResponseSchema = z.object({
+  message: z.string(),
+  email: z.string(),
+});
 
 /**
  * Complete invitation request (for the invited user)
@@ -3,6 +3,7 @@ import { AppRouter } from './app/router';
 import { initSession } from './features/auth/store/session.store';
 import { initTheme } from './theme';
 import { cleanupDeprecatedStorage } from './shared/lib/cleanup';
+import { initSync } from './shared/stores/sync.store';
 import './index.css';
 
 // Clean up deprecated localStorage items from previous versions
@@ -25,3 +26,6 @@ render(() => <AppRouter />, root);
 // Initialize session in background
 // ProtectedRoute components will react to authentication state changes
 initSession();
+
+// Load the offline outbox and replay anything queued in a previous visit
+initSync();
@@ -5,6 +5,9 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { DEFAULT_SKU_PATTERN } from '@/shared/lib/product-codes';
+import { z } from 'zod';
 
 /**
  * Business type from backend
@@ -17,22 +20,52 @@ export interface Business {
   email: string;
   currency: string;
   timezone: string;
+  /** Pattern for generated item SKUs, see formatSku() */
+  skuPattern: string;
+  /** Days suppliers take to deliver, used for reorder points */
+  leadTimeDays: number;
+  /** Extra days of sales kept as safety stock */
+  safetyStockDays: number;
+  /** Days of sales one reorder should cover */
+  reorderCoverDays: number;
+  /** How stock is valued and sales are costed */
+  costingMethod: CostingMethod;
   creator: string;
 }
 
 /**
- * Backend response type
+ * FIFO: sales use up the oldest receipts first. Average: every unit costs
+ * the moving weighted average of what was received.
  */
-interface BackendBusiness {
-  _id: string;
-  name: string;
-  address: string;
-  phoneNumber: string;
-  email: string;
-  currency?: string;
-  timezone?: string;
-  creator?: string;
-}
+export type CostingMethod = 'fifo' | 'average';
+
+/** Reorder settings of a business that never set them */
+export const DEFAULT_REORDER_SETTINGS = {
+  leadTimeDays: 7,
+  safetyStockDays: 3,
+  reorderCoverDays: 30,
+};
+
+/**
+ * Backend response schema
+ */
+const BackendBusinessSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  phoneNumber: z.string(),
+  email: z.string(),
+  currency: z.string().optional(),
+  timezone: z.string().optional(),
+  skuPattern: z.string().optional(),
+  leadTimeDays: z.number().optional(),
+  safetyStockDays: z.number().optional(),
+  reorderCoverDays: z.number().optional(),
+  costingMethod: z.enum(['fifo', 'average']).optional(),
+  creator: z.string().optional(),
+});
+
+type BackendBusiness = z.infer<typeof BackendBusinessSchema>;
 
 /**
  * Map backend business to frontend type
@@ -46,6 +79,14 @@ function mapBackendBusiness(business: BackendBusiness): Business {
     email: business.email,
     currency: business.currency || 'USD',
     timezone: business.timezone || 'UTC',
+    skuPattern: business.skuPattern || DEFAULT_SKU_PATTERN,
+    leadTimeDays:
+      business.leadTimeDays ?? DEFAULT_REORDER_SETTINGS.leadTimeDays,
+    safetyStockDays:
+      business.safetyStockDays ?? DEFAULT_REORDER_SETTINGS.safetyStockDays,
+    reorderCoverDays:
+      business.reorderCoverDays ?? DEFAULT_REORDER_SETTINGS.reorderCoverDays,
+    costingMethod: business.costingMethod ?? 'fifo',
     creator: business.creator || '',
   };
 }
@@ -55,7 +96,9 @@ function mapBackendBusiness(business: BackendBusiness): Business {
  */
 export async function getCurrentBusiness(): Promise<Business | null> {
   try {
-    const response = await apiClient.get<BackendBusiness>('/business/current');
+    const response = await queryGet('business', '/business/current', {
+      schema: BackendBusinessSchema.nullable(),
+    });
     return response ? mapBackendBusiness(response) : null;
   } catch {
     return null;
@@ -67,7 +110,9 @@ export async function getCurrentBusiness(): Promise<Business | null> {
  */
 export async function getBusinessById(id: string): Promise<Business | null> {
   try {
-    const response = await apiClient.get<BackendBusiness>(`/business/${id}`);
+    const response = await queryGet('business', `/business/${id}`, {
+      schema: BackendBusinessSchema.nullable(),
+    });
     return response ? mapBackendBusiness(response) : null;
   } catch {
     return null;
@@ -81,10 +126,10 @@ export async function updateBusiness(
   id: string,
   data: Partial<Omit<Business, 'id'>>
 ): Promise<Business> {
-  const response = await apiClient.put<BackendBusiness>(
-    `/business/${id}`,
-    data
-  );
+  const response = await apiClient.put(`/business/${id}`, data, {
+    schema: BackendBusinessSchema,
+  });
+  invalidateAfterMutation('business');
   return mapBackendBusiness(response);
 }
 
@@ -99,6 +144,9 @@ export async function createBusiness(data: {
   currency?: string;
   timezone?: string;
 }): Promise<Business> {
-  const response = await apiClient.post<BackendBusiness>('/business', data);
+  const response = await apiClient.post('/business', data, {
+    schema: BackendBusinessSchema,
+  });
+  invalidateAfterMutation('business');
   return mapBackendBusiness(response);
 }
@@ -5,51 +5,73 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { createIdempotencyKey } from '@/shared/lib/idempotency';
+import type { RequestConfig } from '@/shared/types/api.types';
 import type {
   Import,
   ImportFormData,
   ImportFilters,
 } from '@/shared/types/import.types';
+import { paginatedSchema } from '@/shared/lib/contract';
+import { z } from 'zod';
 
 /**
- * Backend Import type (from MongoDB)
+ * Backend Import schema (from MongoDB)
  */
-interface BackendImport {
-  _id: string;
-  business: string;
-  supplierId?:
-    | string
-    | { _id: string; partnerName: string; email?: string; phoneNumber?: string }
-    | null;
-  item: Array<{
-    itemId: string | { _id: string; name: string };
-    quantity: number;
-    unitPrice: number;
-    totalPrice: number;
-  }>;
-  totalPrice: number;
-  status: 'pending' | 'completed' | 'cancelled';
-  itemsReceivedDate?: string;
-  paymentCompletedDate?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
+export const BackendImportSchema = z.object({
+  _id: z.string(),
+  business: z.string(),
+  supplierId: z
+    .union([
+      z.string(),
+      z.object({
+        _id: z.string(),
+        partnerName: z.string(),
+        email: z.string().optional(),
+        phoneNumber: z.string().optional(),
+      }),
+    ])
+    .nullish(),
+  item: z.array(
+    z.object({
+      itemId: z.union([
+        z.string(),
+        z.object({ _id: z.string(), name: z.string() }),
+      ]),
+      storeHouse: z
+        .union([z.string(), z.object({ _id: z.string(), name: z.string() })])
+        .optional(), // Missing on lines older than per-storehouse stock
+      lotNumber: z.string().optional(),
+      expiresAt: z.string().optional(),
+      serials: z.array(z.string()).optional(),
+      packUnit: z.object({ unit: z.string(), factor: z.number() }).optional(),
+      quantity: z.number(),
+      unitPrice: z.number(),
+      totalPrice: z.number(),
+    })
+  ),
+  totalPrice: z.number(),
+  status: z.enum(['pending', 'completed', 'cancelled']),
+  itemsReceivedDate: z.string().optional(),
+  paymentCompletedDate: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type BackendImport = z.infer<typeof BackendImportSchema>;
+
+const ImportListSchema = paginatedSchema(BackendImportSchema);
+
+const ImportActionResponseSchema = z.object({
+  message: z.string(),
+  import: BackendImportSchema,
+});
 
 /**
  * Map backend import to frontend Import type
  */
 function mapBackendImport(importRecord: BackendImport): Import {
-  if (!importRecord) {
-    throw new Error('Import is null or undefined');
-  }
-
-  const importId = importRecord._id || (importRecord as any).id;
-
-  if (!importId) {
-    console.error('❌ Import missing both _id and id:', importRecord);
-    throw new Error('Import missing _id or id field');
-  }
-
   // Handle populated supplier (can be null/undefined)
   const supplierId = !importRecord.supplierId
     ? undefined
@@ -75,10 +97,22 @@ function mapBackendImport(importRecord: BackendImport): Import {
       typeof item.itemId === 'string' ? item.itemId : item.itemId._id;
     const itemName =
       typeof item.itemId === 'object' ? item.itemId.name : undefined;
+    const storeHouse =
+      typeof item.storeHouse === 'object'
+        ? item.storeHouse._id
+        : item.storeHouse;
+    const storeHouseName =
+      typeof item.storeHouse === 'object' ? item.storeHouse.name : undefined;
 
     return {
       itemId,
       itemName,
+      storeHouse,
+      storeHouseName,
+      lotNumber: item.lotNumber,
+      expiresAt: item.expiresAt,
+      serials: item.serials,
+      packUnit: item.packUnit,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       totalPrice: item.totalPrice,
@@ -86,7 +120,7 @@ function mapBackendImport(importRecord: BackendImport): Import {
   });
 
   return {
-    id: importId,
+    id: importRecord._id,
     business: importRecord.business,
     supplierId,
     supplierName,
@@ -166,16 +200,11 @@ export async function getImports(filters?: ImportFilters): Promise<Import[]> {
   const queryString = buildImportQueryParams(filters);
   const endpoint = queryString ? `/import?${queryString}` : '/import';
 
-  const response = await apiClient.get<{
-    items: BackendImport[];
-    pagination: any;
-  }>(endpoint);
+  const response = await queryGet('imports', endpoint, {
+    schema: ImportListSchema,
+  });
 
-  // Handle both paginated and non-paginated responses
-  const backendImports = response?.items || [];
-  let imports = Array.isArray(backendImports)
-    ? backendImports.map(mapBackendImport)
-    : [];
+  let imports = response.items.map(mapBackendImport);
 
   // Client-side search filter (applied after pagination)
   // NOTE: Once backend supports text search via aggregation, remove this
@@ -196,20 +225,18 @@ export async function getImports(filters?: ImportFilters): Promise<Import[]> {
  * Get imports with pagination info
  */
 export async function getImportsWithPagination(
-  filters?: ImportFilters
+  filters?: ImportFilters,
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
 ): Promise<{ imports: Import[]; pagination: any }> {
   const queryString = buildImportQueryParams(filters);
   const endpoint = queryString ? `/import?${queryString}` : '/import';
 
-  const response = await apiClient.get<{
-    items: BackendImport[];
-    pagination: any;
-  }>(endpoint);
+  const response = await queryGet('imports', endpoint, {
+    ...options,
+    schema: ImportListSchema,
+  });
 
-  const backendImports = response?.items || [];
-  let imports = Array.isArray(backendImports)
-    ? backendImports.map(mapBackendImport)
-    : [];
+  let imports = response.items.map(mapBackendImport);
 
   // Client-side search filter (applied after pagination)
   // NOTE: Once backend supports text search via aggregation, remove this
@@ -225,12 +252,7 @@ export async function getImportsWithPagination(
 
   return {
     imports,
-    pagination: response?.pagination || {
-      page: 1,
-      limit: 20,
-      total: imports.length,
-      pages: 1,
-    },
+    pagination: response.pagination,
   };
 }
 
@@ -259,19 +281,28 @@ export async function getCancelledImports(): Promise<Import[]> {
  * Get single import by ID
  */
 export async function getImportById(importId: string): Promise<Import> {
-  const backendImport = await apiClient.get<BackendImport>(
-    `/import/${importId}`
-  );
+  const backendImport = await queryGet('imports', `/import/${importId}`, {
+    schema: BackendImportSchema,
+  });
   return mapBackendImport(backendImport);
 }
 
 /**
  * Create new import
+ * Pass the same idempotency key when resubmitting the same import.
  */
-export async function createImport(data: ImportFormData): Promise<Import> {
+export async function createImport(
+  data: ImportFormData,
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<Import> {
   // Calculate totals
   const items = data.items.map((item) => ({
     itemId: item.itemId,
+    storeHouse: item.storeHouse,
+    lotNumber: item.lotNumber,
+    expiresAt: item.expiresAt,
+    serials: item.serials,
+    packUnit: item.packUnit,
     quantity: item.quantity,
     unitPrice: item.unitPrice,
     totalPrice: item.quantity * item.unitPrice,
@@ -286,7 +317,11 @@ export async function createImport(data: ImportFormData): Promise<Import> {
     status: data.status || 'pending',
   };
 
-  const backendImport = await apiClient.post<BackendImport>('/import', payload);
+  const backendImport = await apiClient.post('/import', payload, {
+    schema: BackendImportSchema,
+    idempotencyKey,
+  });
+  invalidateAfterMutation('imports');
   return mapBackendImport(backendImport);
 }
 
@@ -294,12 +329,18 @@ export async function createImport(data: ImportFormData): Promise<Import> {
  * Create multiple imports at once (bulk import creation)
  */
 export async function createImports(
-  imports: ImportFormData[]
+  imports: ImportFormData[],
+  idempotencyKey: string = createIdempotencyKey()
 ): Promise<Import[]> {
   const payload = {
     imports: imports.map((data) => {
       const items = data.items.map((item) => ({
         itemId: item.itemId,
+        storeHouse: item.storeHouse,
+        lotNumber: item.lotNumber,
+        expiresAt: item.expiresAt,
+        serials: item.serials,
+        packUnit: item.packUnit,
         quantity: item.quantity,
         unitPrice: item.unitPrice,
         totalPrice: item.quantity * item.unitPrice,
@@ -316,10 +357,11 @@ export async function createImports(
     }),
   };
 
-  const backendImports = await apiClient.post<BackendImport[]>(
-    '/import/imports',
-    payload
-  );
+  const backendImports = await apiClient.post('/import/imports', payload, {
+    schema: z.array(BackendImportSchema),
+    idempotencyKey,
+  });
+  invalidateAfterMutation('imports');
   return backendImports.map(mapBackendImport);
 }
 
@@ -336,6 +378,11 @@ export async function updateImport(
   if (updates.items) {
     const items = updates.items.map((item) => ({
       itemId: item.itemId,
+      storeHouse: item.storeHouse,
+      lotNumber: item.lotNumber,
+      expiresAt: item.expiresAt,
+      serials: item.serials,
+      packUnit: item.packUnit,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       totalPrice: item.quantity * item.unitPrice,
@@ -350,10 +397,10 @@ export async function updateImport(
     };
   }
 
-  const backendImport = await apiClient.put<BackendImport>(
-    `/import/${importId}`,
-    payload
-  );
+  const backendImport = await apiClient.put(`/import/${importId}`, payload, {
+    schema: BackendImportSchema,
+  });
+  invalidateAfterMutation('imports');
   return mapBackendImport(backendImport);
 }
 
@@ -369,10 +416,12 @@ export async function executeImportAction(
     | 'markItemsReceived'
     | 'markPaymentCompleted'
 ): Promise<Import> {
-  const response = await apiClient.patch<{
-    message: string;
-    import: BackendImport;
-  }>(`/import/${importId}/action`, { action });
+  const response = await apiClient.patch(
+    `/import/${importId}/action`,
+    { action },
+    { schema: ImportActionResponseSchema }
+  );
+  invalidateAfterMutation('imports');
   return mapBackendImport(response.import);
 }
 
@@ -418,4 +467,5 @@ export async function cancelImport(importId: string): Promise<Import> {
  */
 export async function deleteImport(importId: string): Promise<void> {
   await apiClient.delete(`/import/${importId}`);
+  invalidateAfterMutation('imports');
 }
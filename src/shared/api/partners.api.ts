@@ -5,45 +5,46 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { createIdempotencyKey } from '@/shared/lib/idempotency';
+import type { RequestConfig } from '@/shared/types/api.types';
 import type {
   Partner,
   PartnerFormData,
   PartnerFilters,
 } from '@/shared/types/partner.types';
+import { paginatedSchema } from '@/shared/lib/contract';
+import {
+  BackendTransactionSchema,
+  type BackendTransaction,
+} from './transactions.api';
+import { BackendImportSchema, type BackendImport } from './imports.api';
+import { z } from 'zod';
 
 /**
- * Backend Partner type (from MongoDB)
+ * Backend Partner schema (from MongoDB)
  */
-interface BackendPartner {
-  _id: string;
-  partnerName: string;
-  partnerType: 'supplier' | 'client';
-  phoneNumber?: string;
-  email?: string;
-  address?: string;
-  worksWithBusiness: string;
-  isWalkIn?: boolean;
-  createdAt?: string;
-  updatedAt?: string;
-}
+const BackendPartnerSchema = z.object({
+  _id: z.string(),
+  partnerName: z.string(),
+  partnerType: z.enum(['supplier', 'client']),
+  phoneNumber: z.string().optional(),
+  email: z.string().optional(),
+  address: z.string().optional(),
+  worksWithBusiness: z.string(),
+  isWalkIn: z.boolean().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+type BackendPartner = z.infer<typeof BackendPartnerSchema>;
 
 /**
  * Map backend partner to frontend Partner type
  */
 function mapBackendPartner(partner: BackendPartner): Partner {
-  if (!partner) {
-    throw new Error('Partner is null or undefined');
-  }
-
-  const partnerId = partner._id || (partner as any).id;
-
-  if (!partnerId) {
-    console.error('❌ Partner missing both _id and id:', partner);
-    throw new Error('Partner missing _id or id field');
-  }
-
   return {
-    id: partnerId,
+    id: partner._id,
     partnerName: partner.partnerName,
     partnerType: partner.partnerType,
     phoneNumber: partner.phoneNumber,
@@ -71,11 +72,11 @@ export async function getPartners(
   const queryString = params.toString();
   const endpoint = queryString ? `/partner?${queryString}` : '/partner';
 
-  const backendPartners = await apiClient.get<BackendPartner[]>(endpoint);
+  const backendPartners = await queryGet('partners', endpoint, {
+    schema: z.array(BackendPartnerSchema),
+  });
 
-  let partners = Array.isArray(backendPartners)
-    ? backendPartners.map(mapBackendPartner)
-    : [];
+  let partners = backendPartners.map(mapBackendPartner);
 
   // Client-side search filter
   if (filters?.search) {
@@ -109,17 +110,25 @@ export async function getClients(): Promise<Partner[]> {
  * Get single partner by ID
  */
 export async function getPartnerById(partnerId: string): Promise<Partner> {
-  const backendPartner = await apiClient.get<BackendPartner>(
-    `/partner/${partnerId}`
-  );
+  const backendPartner = await queryGet('partners', `/partner/${partnerId}`, {
+    schema: BackendPartnerSchema,
+  });
   return mapBackendPartner(backendPartner);
 }
 
 /**
  * Create new partner
+ * Pass the same idempotency key when resubmitting the same partner.
  */
-export async function createPartner(data: PartnerFormData): Promise<Partner> {
-  const backendPartner = await apiClient.post<BackendPartner>('/partner', data);
+export async function createPartner(
+  data: PartnerFormData,
+  idempotencyKey: string = createIdempotencyKey()
+): Promise<Partner> {
+  const backendPartner = await apiClient.post('/partner', data, {
+    schema: BackendPartnerSchema,
+    idempotencyKey,
+  });
+  invalidateAfterMutation('partners');
   return mapBackendPartner(backendPartner);
 }
 
@@ -130,22 +139,25 @@ export async function updatePartner(
   partnerId: string,
   updates: Partial<PartnerFormData>
 ): Promise<Partner> {
-  const backendPartner = await apiClient.put<BackendPartner>(
-    `/partner/${partnerId}`,
-    updates
-  );
+  const backendPartner = await apiClient.put(`/partner/${partnerId}`, updates, {
+    schema: BackendPartnerSchema,
+  });
+  invalidateAfterMutation('partners');
   return mapBackendPartner(backendPartner);
 }
 
 /**
  * Get partners with pagination
  */
-export async function getPartnersWithPagination(params: {
-  partnerType?: 'client' | 'supplier' | 'all';
-  page?: number;
-  limit?: number;
-  search?: string;
-}): Promise<{
+export async function getPartnersWithPagination(
+  params: {
+    partnerType?: 'client' | 'supplier' | 'all';
+    page?: number;
+    limit?: number;
+    search?: string;
+  },
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+): Promise<{
   partners: Partner[];
   pagination: { page: number; limit: number; total: number; pages: number };
 }> {
@@ -167,43 +179,57 @@ export async function getPartnersWithPagination(params: {
     queryParams.append('search', params.search);
   }
 
-  const response = await apiClient.get<{
-    items: BackendPartner[];
-    pagination: { page: number; limit: number; total: number; pages: number };
-  }>(`/partner/paginated?${queryParams.toString()}`);
+  const response = await queryGet(
+    'partners',
+    `/partner/paginated?${queryParams.toString()}`,
+    { ...options, schema: paginatedSchema(BackendPartnerSchema) }
+  );
 
+  const { page, limit, total, pages, totalPages } = response.pagination;
   return {
     partners: response.items.map(mapBackendPartner),
-    pagination: response.pagination,
+    pagination: { page, limit, total, pages: pages ?? totalPages ?? 1 },
   };
 }
 
 /**
  * Get clients with pagination
  */
-export async function getClientsWithPagination(params: {
-  page?: number;
-  limit?: number;
-  search?: string;
-}): Promise<{
+export async function getClientsWithPagination(
+  params: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  },
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+): Promise<{
   partners: Partner[];
   pagination: { page: number; limit: number; total: number; pages: number };
 }> {
-  return getPartnersWithPagination({ ...params, partnerType: 'client' });
+  return getPartnersWithPagination(
+    { ...params, partnerType: 'client' },
+    options
+  );
 }
 
 /**
  * Get suppliers with pagination
  */
-export async function getSuppliersWithPagination(params: {
-  page?: number;
-  limit?: number;
-  search?: string;
-}): Promise<{
+export async function getSuppliersWithPagination(
+  params: {
+    page?: number;
+    limit?: number;
+    search?: string;
+  },
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+): Promise<{
   partners: Partner[];
   pagination: { page: number; limit: number; total: number; pages: number };
 }> {
-  return getPartnersWithPagination({ ...params, partnerType: 'supplier' });
+  return getPartnersWithPagination(
+    { ...params, partnerType: 'supplier' },
+    options
+  );
 }
 
 /**
@@ -211,6 +237,7 @@ export async function getSuppliersWithPagination(params: {
  */
 export async function deletePartner(partnerId: string): Promise<void> {
   await apiClient.delete(`/partner/${partnerId}`);
+  invalidateAfterMutation('partners');
 }
 
 /**
@@ -218,17 +245,19 @@ export async function deletePartner(partnerId: string): Promise<void> {
  */
 export async function getPartnerTransactions(
   partnerId: string
-): Promise<any[]> {
-  const transactions = await apiClient.get<any[]>(
-    `/partner/${partnerId}/transactions`
-  );
-  return transactions || [];
+): Promise<BackendTransaction[]> {
+  return queryGet('partners', `/partner/${partnerId}/transactions`, {
+    schema: z.array(BackendTransactionSchema),
+  });
 }
 
 /**
  * Get imports for a supplier (partner)
  */
-export async function getPartnerImports(partnerId: string): Promise<any[]> {
-  const imports = await apiClient.get<any[]>(`/partner/${partnerId}/imports`);
-  return imports || [];
+export async function getPartnerImports(
+  partnerId: string
+): Promise<BackendImport[]> {
+  return queryGet('partners', `/partner/${partnerId}/imports`, {
+    schema: z.array(BackendImportSchema),
+  });
 }
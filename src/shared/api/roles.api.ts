@@ -5,46 +5,56 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { z } from 'zod';
 
 // ─── Types ───────────────────────────────────────────────────
 
-export interface ResourcePermissions {
-  create?: boolean;
-  update?: boolean;
-  delete?: boolean;
-  execute?: boolean;
-}
+export const ResourcePermissionsSchema = z.object({
+  create: z.boolean().optional(),
+  update: z.boolean().optional(),
+  delete: z.boolean().optional(),
+  execute: z.boolean().optional(),
+});
 
-export interface Permissions {
-  items: ResourcePermissions;
-  imports: ResourcePermissions;
-  transactions: ResourcePermissions;
-  transfers: ResourcePermissions;
-  partners: ResourcePermissions;
-  storehouses: ResourcePermissions;
-  businessSettings: ResourcePermissions;
-  users: ResourcePermissions;
-}
+export type ResourcePermissions = z.infer<typeof ResourcePermissionsSchema>;
+
+export const PermissionsSchema = z.object({
+  items: ResourcePermissionsSchema,
+  imports: ResourcePermissionsSchema,
+  transactions: ResourcePermissionsSchema,
+  transfers: ResourcePermissionsSchema,
+  partners: ResourcePermissionsSchema,
+  storehouses: ResourcePermissionsSchema,
+  businessSettings: ResourcePermissionsSchema,
+  users: ResourcePermissionsSchema,
+});
+
+export type Permissions = z.infer<typeof PermissionsSchema>;
 
 export type PermissionResource = keyof Permissions;
 export type PermissionAction = 'create' | 'update' | 'delete' | 'execute';
 
-export interface ResolvedPermissions {
-  isAdmin: boolean;
-  permissions: Permissions;
-  storeHouses: string[];
-}
+export const ResolvedPermissionsSchema = z.object({
+  isAdmin: z.boolean(),
+  permissions: PermissionsSchema,
+  storeHouses: z.array(z.string()),
+});
 
-export interface CustomRole {
-  _id: string;
-  name: string;
-  description: string;
-  business: string;
-  permissions: Permissions;
-  createdBy: string;
-  createdAt: string;
-  updatedAt: string;
-}
+export type ResolvedPermissions = z.infer<typeof ResolvedPermissionsSchema>;
+
+export const CustomRoleSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  business: z.string(),
+  permissions: PermissionsSchema,
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type CustomRole = z.infer<typeof CustomRoleSchema>;
 
 export interface CreateRoleInput {
   name: string;
@@ -64,7 +74,9 @@ export interface UpdateRoleInput {
  * Fetch the current user's resolved (merged) permissions
  */
 export async function getMyPermissions(): Promise<ResolvedPermissions> {
-  return apiClient.get<ResolvedPermissions>('/auth/permissions');
+  return apiClient.get('/auth/permissions', {
+    schema: ResolvedPermissionsSchema,
+  });
 }
 
 // ─── Role CRUD ───────────────────────────────────────────────
@@ -73,21 +85,25 @@ export async function getMyPermissions(): Promise<ResolvedPermissions> {
  * List all roles in the current business
  */
 export async function getRoles(): Promise<CustomRole[]> {
-  return apiClient.get<CustomRole[]>('/role');
+  return queryGet('roles', '/role', { schema: z.array(CustomRoleSchema) });
 }
 
 /**
  * Get a single role by ID
  */
 export async function getRoleById(id: string): Promise<CustomRole> {
-  return apiClient.get<CustomRole>(`/role/${id}`);
+  return queryGet('roles', `/role/${id}`, { schema: CustomRoleSchema });
 }
 
 /**
  * Create a new custom role
  */
 export async function createRole(data: CreateRoleInput): Promise<CustomRole> {
-  return apiClient.post<CustomRole>('/role', data);
+  const role = await apiClient.post('/role', data, {
+    schema: CustomRoleSchema,
+  });
+  invalidateAfterMutation('roles');
+  return role;
 }
 
 /**
@@ -97,14 +113,19 @@ export async function updateRole(
   id: string,
   data: UpdateRoleInput
 ): Promise<CustomRole> {
-  return apiClient.put<CustomRole>(`/role/${id}`, data);
+  const role = await apiClient.put(`/role/${id}`, data, {
+    schema: CustomRoleSchema,
+  });
+  invalidateAfterMutation('roles');
+  return role;
 }
 
 /**
  * Delete a custom role
  */
 export async function deleteRole(id: string): Promise<void> {
-  return apiClient.delete<void>(`/role/${id}`);
+  await apiClient.delete<void>(`/role/${id}`);
+  invalidateAfterMutation('roles');
 }
 
 // ─── User Role & Storehouse Assignment ───────────────────────
@@ -117,6 +138,7 @@ export async function assignRolesToUser(
   roleIds: string[]
 ): Promise<void> {
   await apiClient.patch<void>(`/user/${userId}/roles`, { roleIds });
+  invalidateAfterMutation('users');
 }
 
 /**
@@ -127,6 +149,7 @@ export async function assignStorehousesToUser(
   storeHouseIds: string[]
 ): Promise<void> {
   await apiClient.patch<void>(`/user/${userId}/storehouses`, { storeHouseIds });
+  invalidateAfterMutation('users');
 }
 
 /**
@@ -137,4 +160,5 @@ export async function changeUserAppRole(
   appRole: 'admin' | 'user'
 ): Promise<void> {
   await apiClient.patch<void>(`/user/${userId}/app-role`, { appRole });
+  invalidateAfterMutation('users');
 }
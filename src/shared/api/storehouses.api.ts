@@ -5,44 +5,37 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
 import type {
   Storehouse,
   StorehouseFormData,
   StorehouseFilters,
 } from '@/shared/types/storehouse.types';
+import { z } from 'zod';
 
 /**
- * Backend Storehouse type (from MongoDB)
+ * Backend Storehouse schema (from MongoDB)
  */
-interface BackendStorehouse {
-  _id: string;
-  name: string;
-  address: string;
-  phoneNumber: string;
-  email: string;
-  business: string;
-  isLocked?: boolean;
-  createdAt?: string;
-  updatedAt?: string;
-}
+export const BackendStorehouseSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  address: z.string(),
+  phoneNumber: z.string(),
+  email: z.string(),
+  business: z.string(),
+  isLocked: z.boolean().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+type BackendStorehouse = z.infer<typeof BackendStorehouseSchema>;
 
 /**
  * Map backend storehouse to frontend Storehouse type
  */
 function mapBackendStorehouse(storehouse: BackendStorehouse): Storehouse {
-  if (!storehouse) {
-    throw new Error('Storehouse is null or undefined');
-  }
-
-  const storehouseId = storehouse._id || (storehouse as any).id;
-
-  if (!storehouseId) {
-    console.error('❌ Storehouse missing both _id and id:', storehouse);
-    throw new Error('Storehouse missing _id or id field');
-  }
-
   return {
-    id: storehouseId,
+    id: storehouse._id,
     name: storehouse.name,
     address: storehouse.address,
     phoneNumber: storehouse.phoneNumber,
@@ -69,13 +62,11 @@ export async function getStorehouses(
   const queryString = params.toString();
   const endpoint = queryString ? `/storehouse?${queryString}` : '/storehouse';
 
-  const backendStorehouses = await apiClient.get<BackendStorehouse[]>(endpoint);
-
-  const storehouses = Array.isArray(backendStorehouses)
-    ? backendStorehouses.map(mapBackendStorehouse)
-    : [];
+  const backendStorehouses = await queryGet('storehouses', endpoint, {
+    schema: z.array(BackendStorehouseSchema),
+  });
 
-  return storehouses;
+  return backendStorehouses.map(mapBackendStorehouse);
 }
 
 /**
@@ -84,8 +75,10 @@ export async function getStorehouses(
 export async function getStorehouseById(
   storehouseId: string
 ): Promise<Storehouse> {
-  const backendStorehouse = await apiClient.get<BackendStorehouse>(
-    `/storehouse/${storehouseId}`
+  const backendStorehouse = await queryGet(
+    'storehouses',
+    `/storehouse/${storehouseId}`,
+    { schema: BackendStorehouseSchema }
   );
   return mapBackendStorehouse(backendStorehouse);
 }
@@ -96,10 +89,10 @@ export async function getStorehouseById(
 export async function createStorehouse(
   data: StorehouseFormData
 ): Promise<Storehouse> {
-  const backendStorehouse = await apiClient.post<BackendStorehouse>(
-    '/storehouse',
-    data
-  );
+  const backendStorehouse = await apiClient.post('/storehouse', data, {
+    schema: BackendStorehouseSchema,
+  });
+  invalidateAfterMutation('storehouses');
   return mapBackendStorehouse(backendStorehouse);
 }
 
@@ -110,10 +103,12 @@ export async function updateStorehouse(
   storehouseId: string,
   updates: Partial<StorehouseFormData>
 ): Promise<Storehouse> {
-  const backendStorehouse = await apiClient.put<BackendStorehouse>(
+  const backendStorehouse = await apiClient.put(
     `/storehouse/${storehouseId}`,
-    updates
+    updates,
+    { schema: BackendStorehouseSchema }
   );
+  invalidateAfterMutation('storehouses');
   return mapBackendStorehouse(backendStorehouse);
 }
 
@@ -122,4 +117,5 @@ export async function updateStorehouse(
  */
 export async function deleteStorehouse(storehouseId: string): Promise<void> {
   await apiClient.delete(`/storehouse/${storehouseId}`);
+  invalidateAfterMutation('storehouses');
 }
@@ -5,56 +5,75 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { createIdempotencyKey } from '@/shared/lib/idempotency';
+import type { RequestConfig } from '@/shared/types/api.types';
 import type {
   Transaction,
   TransactionFormData,
   TransactionFilters,
 } from '@/shared/types/transaction.types';
+import { paginatedSchema } from '@/shared/lib/contract';
+import { z } from 'zod';
 
 /**
- * Backend Transaction type (from MongoDB)
+ * Backend Transaction schema (from MongoDB)
  */
-interface BackendTransaction {
-  _id: string;
-  business: string;
-  clientId:
-    | string
-    | {
-        _id: string;
-        partnerName: string;
-        email?: string;
-        phoneNumber?: string;
-      };
-  item: Array<{
-    itemId: string | { _id: string; name: string };
-    quantity: number;
-    listedPrice: number;
-    unitPrice: number;
-    totalPrice: number;
-  }>;
-  totalPrice: number;
-  status: 'pending' | 'completed' | 'cancelled';
-  itemsDeliveredDate?: string;
-  paymentCompletedDate?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
+export const BackendTransactionSchema = z.object({
+  _id: z.string(),
+  business: z.string(),
+  clientId: z.union([
+    z.string(),
+    z.object({
+      _id: z.string(),
+      partnerName: z.string(),
+      email: z.string().optional(),
+      phoneNumber: z.string().optional(),
+    }),
+  ]),
+  item: z.array(
+    z.object({
+      itemId: z.union([
+        z.string(),
+        z.object({ _id: z.string(), name: z.string() }),
+      ]),
+      storeHouse: z
+        .union([z.string(), z.object({ _id: z.string(), name: z.string() })])
+        .optional(), // Missing on lines older than per-storehouse stock
+      lotNumber: z.string().optional(),
+      lots: z
+        .array(
+          z.object({
+            lotNumber: z.string(),
+            expiresAt: z.string().optional(),
+            quantity: z.number(),
+          })
+        )
+        .optional(),
+      serials: z.array(z.string()).optional(),
+      packUnit: z.object({ unit: z.string(), factor: z.number() }).optional(),
+      quantity: z.number(),
+      listedPrice: z.number().optional(), // Missing on old transactions
+      unitPrice: z.number(),
+      totalPrice: z.number(),
+    })
+  ),
+  totalPrice: z.number(),
+  status: z.enum(['pending', 'completed', 'cancelled']),
+  itemsDeliveredDate: z.string().optional(),
+  paymentCompletedDate: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export type BackendTransaction = z.infer<typeof BackendTransactionSchema>;
+
+const TransactionListSchema = paginatedSchema(BackendTransactionSchema);
 
 /**
  * Map backend transaction to frontend Transaction type
  */
 function mapBackendTransaction(transaction: BackendTransaction): Transaction {
-  if (!transaction) {
-    throw new Error('Transaction is null or undefined');
-  }
-
-  const transactionId = transaction._id || (transaction as any).id;
-
-  if (!transactionId) {
-    console.error('❌ Transaction missing both _id and id:', transaction);
-    throw new Error('Transaction missing _id or id field');
-  }
-
   // Handle populated client
   const clientId =
     typeof transaction.clientId === 'string'
@@ -79,10 +98,22 @@ function mapBackendTransaction(transaction: BackendTransaction): Transaction {
       typeof item.itemId === 'string' ? item.itemId : item.itemId._id;
     const itemName =
       typeof item.itemId === 'object' ? item.itemId.name : undefined;
+    const storeHouse =
+      typeof item.storeHouse === 'object'
+        ? item.storeHouse._id
+        : item.storeHouse;
+    const storeHouseName =
+      typeof item.storeHouse === 'object' ? item.storeHouse.name : undefined;
 
     return {
       itemId,
       itemName,
+      storeHouse,
+      storeHouseName,
+      lotNumber: item.lotNumber,
+      serials: item.serials,
+      packUnit: item.packUnit,
+      lots: item.lots,
       quantity: item.quantity,
       listedPrice: item.listedPrice ?? item.unitPrice, // Fallback for old transactions without listedPrice
       unitPrice: item.unitPrice,
@@ -91,7 +122,7 @@ function mapBackendTransaction(transaction: BackendTransaction): Transaction {
   });
 
   return {
-    id: transactionId,
+    id: transaction._id,
     business: transaction.business,
     clientId,
     clientName,
@@ -173,16 +204,11 @@ export async function getTransactions(
   const queryString = buildTransactionQueryParams(filters);
   const endpoint = queryString ? `/transaction?${queryString}` : '/transaction';
 
-  const response = await apiClient.get<{
-    items: BackendTransaction[];
-    pagination: any;
-  }>(endpoint);
+  const response = await queryGet('transactions', endpoint, {
+    schema: TransactionListSchema,
+  });
 
-  // Handle both paginated and non-paginated responses
-  const backendTransactions = response?.items || [];
-  let transactions = Array.isArray(backendTransactions)
-    ? backendTransactions.map(mapBackendTransaction)
-    : [];
+  let transactions = response.items.map(mapBackendTransaction);
 
   // Client-side search filter (applied after pagination)
   // NOTE: Once backend supports text search via aggregation, remove this
@@ -203,20 +229,18 @@ export async function getTransactions(
  * Get transactions with pagination info
  */
 export async function getTransactionsWithPagination(
-  filters?: TransactionFilters
+  filters?: TransactionFilters,
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
 ): Promise<{ transactions: Transaction[]; pagination: any }> {
   const queryString = buildTransactionQueryParams(filters);
   const endpoint = queryString ? `/transaction?${queryString}` : '/transaction';
 
-  const response = await apiClient.get<{
-    items: BackendTransaction[];
-    pagination: any;
-  }>(endpoint);
+  const response = await queryGet('transactions', endpoint, {
+    ...options,
+    schema: TransactionListSchema,
+  });
 
-  const backendTransactions = response?.items || [];
-  let transactions = Array.isArray(backendTransactions)
-    ? backendTransactions.map(mapBackendTransaction)
-    : [];
+  let transactions = response.items.map(mapBackendTransaction);
 
   // Client-side search filter (applied after pagination)
   // NOTE: Once backend supports text search via aggregation, remove this
@@ -232,12 +256,7 @@ export async function getTransactionsWithPagination(
 
   return {
     transactions,
-    pagination: response?.pagination || {
-      page: 1,
-      limit: 20,
-      total: transactions.length,
-      pages: 1,
-    },
+    pagination: response.pagination,
   };
 }
 
@@ -254,21 +273,29 @@ export async function getPendingTransactions(): Promise<Transaction[]> {
 export async function getTransactionById(
   transactionId: string
 ): Promise<Transaction> {
-  const backendTransaction = await apiClient.get<BackendTransaction>(
-    `/transaction/${transactionId}`
+  const backendTransaction = await queryGet(
+    'transactions',
+    `/transaction/${transactionId}`,
+    { schema: BackendTransactionSchema }
   );
   return mapBackendTransaction(backendTransaction);
 }
 
 /**
  * Create new transaction (order)
+ * Pass the same idempotency key when resubmitting the same order.
  */
 export async function createTransaction(
-  data: TransactionFormData
+  data: TransactionFormData,
+  idempotencyKey: string = createIdempotencyKey()
 ): Promise<Transaction> {
   // Calculate totals (listedPrice is fetched from DB on backend)
   const items = data.items.map((item) => ({
     itemId: item.itemId,
+    storeHouse: item.storeHouse,
+    lotNumber: item.lotNumber,
+    serials: item.serials,
+    packUnit: item.packUnit,
     quantity: item.quantity,
     unitPrice: item.unitPrice,
     totalPrice: item.quantity * item.unitPrice,
@@ -287,10 +314,15 @@ export async function createTransaction(
     payload['clientId'] = data.clientId;
   }
 
-  const backendTransaction = await apiClient.post<BackendTransaction>(
-    '/transaction',
-    payload
-  );
+  // Sales must keep working offline: queue in the outbox if the network is down
+  const backendTransaction = await apiClient.post('/transaction', payload, {
+    schema: BackendTransactionSchema,
+    idempotencyKey,
+    offline: {
+      label: `New order (${items.length} item${items.length === 1 ? '' : 's'})`,
+    },
+  });
+  invalidateAfterMutation('transactions');
   return mapBackendTransaction(backendTransaction);
 }
 
@@ -308,6 +340,10 @@ export async function updateTransaction(
     // listedPrice is fetched from DB on backend
     const items = updates.items.map((item) => ({
       itemId: item.itemId,
+      storeHouse: item.storeHouse,
+      lotNumber: item.lotNumber,
+      serials: item.serials,
+      packUnit: item.packUnit,
       quantity: item.quantity,
       unitPrice: item.unitPrice,
       totalPrice: item.quantity * item.unitPrice,
@@ -322,29 +358,54 @@ export async function updateTransaction(
     };
   }
 
-  const backendTransaction = await apiClient.put<BackendTransaction>(
+  const backendTransaction = await apiClient.put(
     `/transaction/${transactionId}`,
-    payload
+    payload,
+    { schema: BackendTransactionSchema }
   );
+  invalidateAfterMutation('transactions');
   return mapBackendTransaction(backendTransaction);
 }
 
+type TransactionAction =
+  | 'markPending'
+  | 'markCompleted'
+  | 'markCancelled'
+  | 'markItemsDelivered'
+  | 'markPaymentCompleted';
+
+const TransactionActionResponseSchema = z.object({
+  message: z.string(),
+  transaction: BackendTransactionSchema,
+});
+
+/**
+ * Counter actions that may be queued in the offline outbox
+ */
+const OFFLINE_ACTION_LABELS: Partial<Record<TransactionAction, string>> = {
+  markItemsDelivered: 'Mark order delivered',
+  markPaymentCompleted: 'Mark order paid',
+};
+
 /**
  * Execute transaction action
  */
 export async function executeTransactionAction(
   transactionId: string,
-  action:
-    | 'markPending'
-    | 'markCompleted'
-    | 'markCancelled'
-    | 'markItemsDelivered'
-    | 'markPaymentCompleted'
+  action: TransactionAction
 ): Promise<Transaction> {
-  const response = await apiClient.patch<{
-    message: string;
-    transaction: BackendTransaction;
-  }>(`/transaction/${transactionId}/action`, { action });
+  const offlineLabel = OFFLINE_ACTION_LABELS[action];
+  const response = await apiClient.patch(
+    `/transaction/${transactionId}/action`,
+    { action },
+    {
+      schema: TransactionActionResponseSchema,
+      offline: offlineLabel
+        ? { label: `${offlineLabel} #${transactionId.slice(-6)}` }
+        : undefined,
+    }
+  );
+  invalidateAfterMutation('transactions');
   return mapBackendTransaction(response.transaction);
 }
 
@@ -400,4 +461,5 @@ export async function cancelTransaction(
  */
 export async function deleteTransaction(transactionId: string): Promise<void> {
   await apiClient.delete(`/transaction/${transactionId}`);
+  invalidateAfterMutation('transactions');
 }
@@ -5,37 +5,67 @@
  */
 
 import { apiClient } from '@/shared/lib/api-client';
+import { queryGet, invalidateAfterMutation } from '@/shared/lib/query-client';
+import { createIdempotencyKey } from '@/shared/lib/idempotency';
+import type { RequestConfig } from '@/shared/types/api.types';
 import type {
   Transfer,
   TransferFormData,
   TransferFilters,
 } from '@/shared/types/transfer.types';
+import { paginatedSchema } from '@/shared/lib/contract';
+import { z } from 'zod';
+
+const PopulatedStorehouseSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+});
 
 /**
- * Backend Transfer type (from MongoDB)
+ * Backend Transfer schema (from MongoDB)
  */
-interface BackendTransfer {
-  _id: string;
-  business: string;
-  itemId:
-    | string
-    | { _id: string; name: string; unit?: string; quantity?: number };
-  fromStoreHouse: string | { _id: string; name: string };
-  toStoreHouse: string | { _id: string; name: string };
-  quantity: number;
-  status: 'pending' | 'completed' | 'cancelled';
-  note?: string;
-  transferredAt?: string;
-  createdAt?: string;
-  updatedAt?: string;
-}
+const BackendTransferSchema = z.object({
+  _id: z.string(),
+  business: z.string(),
+  itemId: z.union([
+    z.string(),
+    z.object({
+      _id: z.string(),
+      name: z.string(),
+      unit: z.string().optional(),
+      quantity: z.number().optional(),
+    }),
+  ]),
+  fromStoreHouse: z.union([z.string(), PopulatedStorehouseSchema]),
+  toStoreHouse: z.union([z.string(), PopulatedStorehouseSchema]),
+  quantity: z.number(),
+  serials: z.array(z.string()).optional(),
+  status: z.enum(['pending', 'completed', 'cancelled']),
+  note: z.string().optional(),
+  transferredAt: z.string().optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+type BackendTransfer = z.infer<typeof BackendTransferSchema>;
+
+/**
+ * List endpoint answers paginated; older deployments send a bare array
+ */
+const TransferListSchema = z.union([
+  paginatedSchema(BackendTransferSchema),
+  z.array(BackendTransferSchema),
+]);
+
+const TransferActionResponseSchema = z.object({
+  message: z.string(),
+  transfer: BackendTransferSchema,
+});
 
 /**
  * Map backend transfer to frontend Transfer type
  */
 function mapBackendTransfer(t: BackendTransfer): Transfer {
-  const transferId = t._id || (t as any).id;
-
   const itemId = typeof t.itemId === 'string' ? t.itemId : t.itemId._id;
   const itemName = typeof t.itemId === 'object' ? t.itemId.name : undefined;
   const itemUnit = typeof t.itemId === 'object' ? t.itemId.unit : undefined;
@@ -55,7 +85,7 @@ function mapBackendTransfer(t: BackendTransfer): Transfer {
     typeof t.toStoreHouse === 'object' ? t.toStoreHouse.name : undefined;
 
   return {
-    id: transferId,
+    id: t._id,
     business: t.business,
     itemId,
     itemName,
@@ -66,6 +96,7 @@ function mapBackendTransfer(t: BackendTransfer): Transfer {
     toStoreHouse,
     toStoreHouseName,
     quantity: t.quantity,
+    serials: t.serials,
     status: t.status,
     note: t.note,
     transferredAt: t.transferredAt,
@@ -75,11 +106,12 @@ function mapBackendTransfer(t: BackendTransfer): Transfer {
 }
 
 /**
- * Get transfers with pagination and filters
+ * Fetch one page of the transfer list as the backend sends it
  */
-export async function getTransfers(
-  filters: TransferFilters = {}
-): Promise<Transfer[]> {
+async function getTransfersPage(
+  filters: TransferFilters,
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+) {
   const params: Record<string, string> = {};
 
   if (filters.status && filters.status !== 'all')
@@ -97,40 +129,78 @@ export async function getTransfers(
   const queryString = new URLSearchParams(params).toString();
   const url = queryString ? `/transfer?${queryString}` : '/transfer';
 
-  const result = await apiClient.get<any>(url);
+  return queryGet('transfers', url, {
+    ...options,
+    schema: TransferListSchema,
+  });
+}
 
-  // apiClient already unwraps { isOk, data } → result IS the data
-  if (result?.items) {
-    return result.items.map(mapBackendTransfer);
-  }
+/**
+ * Get transfers with pagination and filters
+ */
+export async function getTransfers(
+  filters: TransferFilters = {}
+): Promise<Transfer[]> {
+  const result = await getTransfersPage(filters);
+  const transfers = Array.isArray(result) ? result : result.items;
+  return transfers.map(mapBackendTransfer);
+}
 
-  if (Array.isArray(result)) {
-    return result.map(mapBackendTransfer);
+/**
+ * Get transfers with pagination info
+ */
+export async function getTransfersWithPagination(
+  filters: TransferFilters = {},
+  options: Pick<RequestConfig, 'skipOfflineCache'> = {}
+): Promise<{
+  transfers: Transfer[];
+  pagination: { page: number; limit: number; total: number; pages: number };
+}> {
+  const page = filters.page ?? 1;
+  const transfers = await getTransfersPage(filters, options);
+  if (Array.isArray(transfers)) {
+    // Unpaginated deployment: everything arrives at once
+    return {
+      transfers: transfers.map(mapBackendTransfer),
+      pagination: {
+        page,
+        limit: transfers.length,
+        total: transfers.length,
+        pages: 1,
+      },
+    };
   }
 
-  return [];
+  const { limit, total, pages, totalPages } = transfers.pagination;
+  return {
+    transfers: transfers.items.map(mapBackendTransfer),
+    pagination: { page, limit, total, pages: totalPages ?? pages ?? 1 },
+  };
 }
 
 /**
  * Get transfers for a specific item
  */
 export async function getTransfersByItem(itemId: string): Promise<Transfer[]> {
-  const result = await apiClient.get<any>(`/transfer/item/${itemId}`);
-
-  if (Array.isArray(result)) {
-    return result.map(mapBackendTransfer);
-  }
-
-  return [];
+  const result = await queryGet('transfers', `/transfer/item/${itemId}`, {
+    schema: z.array(BackendTransferSchema),
+  });
+  return result.map(mapBackendTransfer);
 }
 
 /**
  * Create a new transfer
+ * Pass the same idempotency key when resubmitting the same transfer.
  */
 export async function createTransfer(
-  data: TransferFormData
+  data: TransferFormData,
+  idempotencyKey: string = createIdempotencyKey()
 ): Promise<Transfer> {
-  const result = await apiClient.post<any>('/transfer', data);
+  const result = await apiClient.post('/transfer', data, {
+    schema: BackendTransferSchema,
+    idempotencyKey,
+  });
+  invalidateAfterMutation('transfers');
   return mapBackendTransfer(result);
 }
 
@@ -141,9 +211,12 @@ export async function executeTransferAction(
   id: string,
   action: 'complete' | 'cancel'
 ): Promise<{ message: string; transfer: Transfer }> {
-  const result = await apiClient.patch<any>(`/transfer/${id}/action`, {
-    action,
-  });
+  const result = await apiClient.patch(
+    `/transfer/${id}/action`,
+    { action },
+    { schema: TransferActionResponseSchema }
+  );
+  invalidateAfterMutation('transfers');
   return {
     message: result.message,
     transfer: mapBackendTransfer(result.transfer),
@@ -155,4 +228,5 @@ export async function executeTransferAction(
  */
 export async function deleteTransfer(id: string): Promise<void> {
   await apiClient.delete(`/transfer/${id}`);
+  invalidateAfterMutation('transfers');
 }
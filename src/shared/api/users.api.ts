@@ -4,22 +4,25 @@
  * Fetch business users for role/storehouse assignment.
  */
 
-import { apiClient } from '@/shared/lib/api-client';
+import { queryGet } from '@/shared/lib/query-client';
+import { z } from 'zod';
 
 // ─── Types ───────────────────────────────────────────────────
 
-export interface BusinessUser {
-  _id: string;
-  name: string;
-  email: string;
-  phoneNumber?: string;
-  appRole: 'dev' | 'admin' | 'user';
-  accessRole: string[]; // role IDs
-  storeHouses: string[]; // storehouse IDs
-  isActive?: boolean;
-  createdAt: string;
-  updatedAt: string;
-}
+export const BusinessUserSchema = z.object({
+  _id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  phoneNumber: z.string().optional(),
+  appRole: z.enum(['dev', 'admin', 'user']),
+  accessRole: z.array(z.string()), // role IDs
+  storeHouses: z.array(z.string()), // storehouse IDs
+  isActive: z.boolean().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type BusinessUser = z.infer<typeof BusinessUserSchema>;
 
 // ─── API Functions ───────────────────────────────────────────
 
@@ -27,12 +30,14 @@ export interface BusinessUser {
  * List all users in the current business
  */
 export async function getBusinessUsers(): Promise<BusinessUser[]> {
-  return apiClient.get<BusinessUser[]>('/user');
+  return queryGet('users', '/user', {
+    schema: z.array(BusinessUserSchema),
+  });
 }
 
 /**
  * Get a single user by ID
  */
 export async function getBusinessUser(id: string): Promise<BusinessUser> {
-  return apiClient.get<BusinessUser>(`/user/${id}`);
+  return queryGet('users', `/user/${id}`, { schema: BusinessUserSchema });
 }
@@ -3,27 +3,51 @@
  *
  * Features:
  * - Shows low/out-of-stock items
+ * - Suggests order quantities from each item's sales velocity
  * - Group items by supplier
  * - Edit quantities and unit prices
  * - Change supplier per item (triggers re-grouping)
+ * - Receive each item into the storehouse that is running low
  * - Create multiple imports with one click
  */
 
-import { createSignal, For, Show, createMemo, type Component } from 'solid-js';
+import {
+  createSignal,
+  For,
+  Show,
+  createMemo,
+  untrack,
+  type Component,
+} from 'solid-js';
 import { createStore, produce } from 'solid-js/store';
 import { Button } from '@/shared/ui/Button';
-import type { Item } from '@/features/inventory/types/inventory.types';
+import type {
+  Item,
+  ReorderSuggestion,
+} from '@/features/inventory/types/inventory.types';
+import { getRestockStorehouse } from '@/features/inventory/lib/inventory-stats';
+import {
+  formatDailySales,
+  getRestockQuantity,
+} from '@/features/inventory/lib/reorder';
+import { getReorderSuggestions } from '@/features/inventory/api/inventory.api';
+import { createQuery } from '@/shared/lib/create-query';
 import type { Partner } from '@/shared/types/partner.types';
 import type { ImportFormData } from '@/shared/types/import.types';
 import { createImports } from '@/shared/api/imports.api';
 import { notificationStore } from '@/shared/stores/notification.store';
 import { getErrorMessage, getErrorTitle } from '@/shared/lib/error-messages';
+import { createSubmissionKey } from '@/shared/lib/idempotency';
 
 interface RestockItem {
   item: Item;
   quantity: number;
   unitPrice: number;
   supplierId: string;
+  /** Storehouse the stock is received into */
+  storeHouse: string;
+  /** Velocity-based reorder point and quantity, when the item has sales */
+  suggestion?: ReorderSuggestion;
 }
 
 interface QuickRestockModalProps {
@@ -39,29 +63,40 @@ export const QuickRestockModal: Component<QuickRestockModalProps> = (props) => {
     Record<string, RestockItem>
   >({});
   const [isSubmitting, setIsSubmitting] = createSignal(false);
+  const restockSubmission = createSubmissionKey();
+
+  const [suggestions] = createQuery(
+    () => props.isOpen,
+    () => getReorderSuggestions(),
+    { scopes: ['analytics'] }
+  );
 
   // Initialize restock items when modal opens
   const initializeItems = () => {
     const initialized: Record<string, RestockItem> = {};
     props.items.forEach((item) => {
-      // Calculate suggested reorder quantity
-      const deficit = Math.max(0, (item.lowStockAt || 10) - item.quantity);
-      const suggestedQty = deficit + Math.ceil((item.lowStockAt || 10) * 0.5); // Add 50% buffer
+      // Order for the location running low, sized by the item's sales
+      // when it has any
+      const storeHouse = getRestockStorehouse(item);
+      const suggestion = suggestions()?.byItem[item.id];
 
       initialized[item.id] = {
         item,
-        quantity: suggestedQty,
+        quantity: getRestockQuantity(item, storeHouse, suggestion),
         unitPrice: item.unitPrice,
         supplierId: props.suppliers[0]?.id || '',
+        storeHouse,
+        suggestion,
       };
     });
     setRestockItems(initialized);
   };
 
-  // Initialize when modal opens
+  // Initialize when modal opens, once suggestions are in (or failed).
+  // Background refreshes of the suggestions keep the user's edits.
   createMemo(() => {
-    if (props.isOpen && props.items.length > 0) {
-      initializeItems();
+    if (props.isOpen && props.items.length > 0 && !suggestions.loading) {
+      untrack(initializeItems);
     }
   });
 
@@ -92,6 +127,10 @@ export const QuickRestockModal: Component<QuickRestockModalProps> = (props) => {
     setRestockItems(itemId, 'supplierId', supplierId);
   };
 
+  const updateStorehouse = (itemId: string, storeHouse: string) => {
+    setRestockItems(itemId, 'storeHouse', storeHouse);
+  };
+
   const removeItem = (itemId: string) => {
     setRestockItems(
       produce((items) => {
@@ -129,6 +168,7 @@ export const QuickRestockModal: Component<QuickRestockModalProps> = (props) => {
           itemId: restockItem.item.id,
           quantity: restockItem.quantity,
           unitPrice: restockItem.unitPrice,
+          storeHouse: restockItem.storeHouse,
         })),
         status: 'pending',
       });
@@ -141,7 +181,11 @@ export const QuickRestockModal: Component<QuickRestockModalProps> = (props) => {
 
     setIsSubmitting(true);
     try {
-      await createImports(importRequests);
+      await createImports(
+        importRequests,
+        restockSubmission.keyFor(importRequests)
+      );
+      restockSubmission.reset();
       notificationStore.success(
         `Successfully created ${importRequests.length} import order${importRequests.length > 1 ? 's' : ''}`
       );
@@ -290,13 +334,61 @@ export const QuickRestockModal: Component<QuickRestockModalProps> = (props) => {
                                             Alert at:{' '}
                                             {restockItem.item.lowStockAt || 10}
                                           </span>
+                                          <Show when={restockItem.suggestion}>
+                                            {(suggestion) => (
+                                              <span
+                                                title={`Suggested reorder point ${suggestion().reorderPoint}, reorder quantity ${suggestion().reorderQuantity}`}
+                                              >
+                                                Sells{' '}
+                                                {formatDailySales(
+                                                  suggestion(),
+                                                  restockItem.item.unit
+                                                )}
+                                              </span>
+                                            )}
+                                          </Show>
                                           <Show
-                                            when={restockItem.item.storeHouse}
+                                            when={
+                                              restockItem.item.stock.length > 1
+                                            }
+                                            fallback={
+                                              <span>
+                                                ·{' '}
+                                                {
+                                                  restockItem.item.storeHouse
+                                                    .name
+                                                }
+                                              </span>
+                                            }
                                           >
-                                            <span>
-                                              ·{' '}
-                                              {restockItem.item.storeHouse.name}
-                                            </span>
+                                            <label class="flex items-center gap-1">
+                                              · Receive into
+                                              <select
+                                                value={restockItem.storeHouse}
+                                                onChange={(e) =>
+                                                  updateStorehouse(
+                                                    restockItem.item.id,
+                                                    e.currentTarget.value
+                                                  )
+                                                }
+                                                class="rounded border border-border-default bg-bg-surface px-1.5 py-0.5 text-xs text-text-primary focus:border-accent-primary focus:outline-none"
+                                              >
+                                                <For
+                                                  each={restockItem.item.stock}
+                                                >
+                                                  {(level) => (
+                                                    <option
+                                                      value={
+                                                        level.storeHouse.id
+                                                      }
+                                                    >
+                                                      {level.storeHouse.name} (
+                                                      {level.quantity})
+                                                    </option>
+                                                  )}
+                                                </For>
+                                              </select>
+                                            </label>
                                           </Show>
                                         </div>
                                       </div>
@@ -0,0 +1,32 @@
+/**
+ * RecentChangeBadge - "Updated by <user>" marker for live-updated rows
+ *
+ * Renders nothing unless a colleague changed the record in the last few
+ * seconds (see realtime.store.ts).
+ */
+
+import { Show, type Component } from 'solid-js';
+import { getRecentChange } from '@/shared/stores/realtime.store';
+
+const ACTION_LABELS = {
+  created: 'Added',
+  updated: 'Updated',
+  deleted: 'Removed',
+} as const;
+
+/** Row class for records a colleague just changed */
+export const RECENT_CHANGE_ROW_CLASS = 'bg-status-info-bg';
+
+export const RecentChangeBadge: Component<{ id: string }> = (props) => {
+  const change = () => getRecentChange(props.id);
+
+  return (
+    <Show when={change()}>
+      {(recent) => (
+        <span class="ml-2 inline-flex items-center rounded-full bg-accent-primary-subtle px-2 py-0.5 text-xs font-medium text-accent-primary">
+          {ACTION_LABELS[recent().action]} by {recent().actorName}
+        </span>
+      )}
+    </Show>
+  );
+};
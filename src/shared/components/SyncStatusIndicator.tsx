@@ -0,0 +1,170 @@
+/**
+ * SyncStatusIndicator - Header badge for the offline outbox
+ *
+ * Features:
+ * - Shows offline state and number of changes pending sync
+ * - Dropdown lists each queued change with its status
+ * - Failed/conflicting entries show the server error with retry/discard
+ */
+
+import { createSignal, For, Show, onCleanup, type Component } from 'solid-js';
+import { syncStore } from '@/shared/stores/sync.store';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { formatRelativeDate } from '@/shared/lib/format';
+import { getBusiness } from '@/shared/stores/business.store';
+import type { OutboxStatus } from '@/shared/types/offline.types';
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pending sync',
+  syncing: 'Syncing…',
+  failed: 'Failed',
+  conflict: 'Conflict',
+};
+
+const STATUS_CLASSES: Record<OutboxStatus, string> = {
+  pending: 'bg-status-warning-bg text-status-warning-text',
+  syncing: 'bg-accent-primary-subtle text-accent-primary',
+  failed: 'bg-status-danger-bg text-status-danger-text',
+  conflict: 'bg-status-danger-bg text-status-danger-text',
+};
+
+export const SyncStatusIndicator: Component = () => {
+  const [isOpen, setIsOpen] = createSignal(false);
+
+  const hasActivity = () =>
+    !syncStore.isOnline() || syncStore.entries().length > 0;
+
+  // Close dropdown when clicking outside
+  const handleClickOutside = (e: MouseEvent) => {
+    const target = e.target as HTMLElement;
+    if (!target.closest('.sync-status-dropdown')) {
+      setIsOpen(false);
+    }
+  };
+  document.addEventListener('click', handleClickOutside);
+  onCleanup(() => document.removeEventListener('click', handleClickOutside));
+
+  const badgeLabel = () => {
+    if (syncStore.problemCount() > 0) {
+      return `${syncStore.problemCount()} sync issue${syncStore.problemCount() === 1 ? '' : 's'}`;
+    }
+    if (syncStore.pendingCount() > 0) {
+      return `${syncStore.pendingCount()} pending sync`;
+    }
+    return 'Offline';
+  };
+
+  return (
+    <Show when={hasActivity()}>
+      <div class="sync-status-dropdown relative">
+        <button
+          onClick={() => setIsOpen(!isOpen())}
+          class={`flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium focus:outline-none focus:ring-2 focus:ring-border-focus ${
+            syncStore.problemCount() > 0
+              ? 'bg-status-danger-bg text-status-danger-text'
+              : 'bg-status-warning-bg text-status-warning-text'
+          }`}
+          title={syncStore.isOnline() ? 'Online' : 'Offline'}
+        >
+          <svg
+            class="h-4 w-4"
+            classList={{ 'animate-spin': syncStore.isSyncing() }}
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              stroke-linecap="round"
+              stroke-linejoin="round"
+              stroke-width="2"
+              d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+            />
+          </svg>
+          {badgeLabel()}
+        </button>
+
+        <Show when={isOpen()}>
+          <div class="absolute right-0 z-50 mt-2 w-80 rounded-md border border-border-default bg-bg-surface shadow-lg">
+            <div class="flex items-center justify-between border-b border-border-subtle px-4 py-3">
+              <p class="text-sm font-semibold text-text-primary">
+                {syncStore.isOnline() ? 'Offline changes' : 'You are offline'}
+              </p>
+              <Show when={syncStore.isOnline() && syncStore.pendingCount() > 0}>
+                <button
+                  onClick={() => syncStore.replay()}
+                  disabled={syncStore.isSyncing()}
+                  class="text-xs font-medium text-text-link hover:underline disabled:opacity-50"
+                >
+                  Sync now
+                </button>
+              </Show>
+            </div>
+
+            <div class="max-h-80 overflow-y-auto">
+              <Show
+                when={syncStore.entries().length > 0}
+                fallback={
+                  <p class="px-4 py-6 text-center text-sm text-text-secondary">
+                    Nothing waiting to sync.
+                  </p>
+                }
+              >
+                <For each={syncStore.entries()}>
+                  {(entry) => (
+                    <div class="border-b border-border-subtle px-4 py-3 last:border-b-0">
+                      <div class="flex items-start justify-between gap-2">
+                        <div class="min-w-0">
+                          <p class="truncate text-sm font-medium text-text-primary">
+                            {entry.label}
+                          </p>
+                          <p class="text-xs text-text-secondary">
+                            {formatRelativeDate(
+                              entry.createdAt,
+                              getBusiness()?.timezone
+                            )}
+                          </p>
+                        </div>
+                        <span
+                          class={`shrink-0 rounded-full px-2 py-0.5 text-xs font-medium ${STATUS_CLASSES[entry.status]}`}
+                        >
+                          {STATUS_LABELS[entry.status]}
+                        </span>
+                      </div>
+
+                      <Show
+                        when={
+                          entry.status === 'failed' ||
+                          entry.status === 'conflict'
+                        }
+                      >
+                        <p class="mt-2 text-xs text-status-danger-text">
+                          {entry.error
+                            ? getErrorMessage(entry.error)
+                            : 'The server rejected this change.'}
+                        </p>
+                        <div class="mt-2 flex gap-3">
+                          <button
+                            onClick={() => syncStore.retry(entry.id)}
+                            class="text-xs font-medium text-text-link hover:underline"
+                          >
+                            Retry
+                          </button>
+                          <button
+                            onClick={() => syncStore.discard(entry.id)}
+                            class="text-xs font-medium text-text-secondary hover:underline"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      </Show>
+                    </div>
+                  )}
+                </For>
+              </Show>
+            </div>
+          </div>
+        </Show>
+      </div>
+    </Show>
+  );
+};
@@ -1,8 +1,33 @@
 import type { AppError, RequestConfig } from '../types/api.types';
 import { normalizeError, ERROR_CODES } from './errors';
 import { csrfManager } from './csrf';
+import { transportFetch } from './transport';
+import { parseResponse } from './contract';
+import { broadcastToTabs, withTabLock } from './tab-sync';
+import {
+  IDEMPOTENCY_HEADER,
+  REPLAYED_HEADER,
+  notifyReplayed,
+} from './idempotency';
+import {
+  MAX_RETRIES,
+  acquireRequestToken,
+  backoffDelay,
+  isRetryableStatus,
+  notifySlowingDown,
+  parseRetryAfter,
+  sleep,
+} from './rate-limit';
+import {
+  isOffline,
+  enqueueMutation,
+  createQueuedError,
+  cacheResponse,
+  getCachedResponse,
+} from './offline-queue';
 import {
   getAccessToken,
+  getUser,
   updateAccessToken,
 } from '@/features/auth/store/session.store';
 
@@ -15,8 +40,12 @@ import {
  * - CSRF token handling (X-CSRF-Token header)
  * - Request timeout and AbortController support
  * - Normalized error handling
- * - Single-flight token refresh on 401
+ * - Single-flight token refresh on 401 (across tabs)
  * - Retry-once on CSRF errors
+ * - Offline outbox for flagged mutations, cached fallback for reads
+ * - Client-side request pacing and backoff retries on 429/502/503/504
+ * - Idempotency-Key header for create endpoints (same key on every retry)
+ * - FormData bodies sent as multipart, with optional upload progress
  *
  * Security notes:
  * - Never logs request/response bodies that may contain secrets
@@ -48,10 +77,22 @@ function createTimeoutController(timeout: number): AbortController {
 }
 
 /**
- * Attempt to refresh the session
+ * Attempt to refresh the session.
+ * Only one tab refreshes at a time; a tab that waited for the lock reuses
+ * the token the other tab broadcast instead of refreshing again.
  */
 async function refreshSession(): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+  const staleToken = getAccessToken();
+
+  await withTabLock('auth-refresh', async () => {
+    const current = getAccessToken();
+    if (current && current !== staleToken) return;
+    await requestNewToken();
+  });
+}
+
+async function requestNewToken(): Promise<void> {
+  const response = await transportFetch(`${API_BASE_URL}/auth/refresh`, {
     method: 'POST',
     credentials: 'include',
     headers: {
@@ -67,9 +108,10 @@ async function refreshSession(): Promise<void> {
   const jsonData = await response.json();
   const data = jsonData?.data || jsonData; // Unwrap if wrapped
 
-  // Update access token in session store (memory)
+  // Update access token in session store (memory) and in the other tabs
   if (data.accessToken) {
     updateAccessToken(data.accessToken);
+    broadcastToTabs({ type: 'token', accessToken: data.accessToken });
   }
 
   // CSRF token is already updated in cookie by backend
@@ -105,13 +147,21 @@ async function handleUnauthorized(): Promise<void> {
   }
 }
 
+/**
+ * Refresh the access token now (used for renewal ahead of expiry)
+ */
+export function renewSession(): Promise<void> {
+  return handleUnauthorized();
+}
+
 /**
  * Make an API request with full error handling and retry logic
  */
 async function request<T>(
   endpoint: string,
-  config: RequestConfig = {},
-  _retryCount: number = 0
+  config: RequestConfig<T> = {},
+  _retryCount: number = 0,
+  _attempt: number = 0
 ): Promise<T> {
   const MAX_AUTH_RETRIES = 1;
   const {
@@ -122,18 +172,68 @@ async function request<T>(
     timeout = DEFAULT_TIMEOUT,
     skipCsrf = false,
     skipAuth = false,
+    offline,
+    skipOfflineCache = false,
+    schema,
+    idempotencyKey,
+    onUploadProgress,
   } = config;
 
+  const validate = (payload: unknown): T =>
+    schema
+      ? parseResponse(schema, payload, `${method} ${endpoint}`)
+      : (payload as T);
+
+  const isStateMutating = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method);
+
+  /**
+   * Network is unreachable: queue mutations that opted into the outbox,
+   * serve reads from the last cached response, otherwise fail as before
+   */
+  const handleNetworkFailure = async (appError: AppError): Promise<T> => {
+    if (isStateMutating && offline) {
+      const entry = await enqueueMutation({
+        endpoint,
+        method,
+        body,
+        label: offline.label,
+        idempotencyKey,
+        userId: getUser()?._id,
+      });
+      throw createQueuedError(entry);
+    }
+    if (method === 'GET' && !skipAuth && !skipOfflineCache) {
+      const cached = await getCachedResponse<unknown>(endpoint);
+      if (cached) return validate(cached.data);
+    }
+    throw appError;
+  };
+
+  // Known offline: skip auth/CSRF work entirely (it would need the network too).
+  // Queued entries get fresh headers when they are replayed.
+  if (isOffline() && (method === 'GET' || offline)) {
+    return handleNetworkFailure({
+      message: 'Network error. Please check your connection.',
+      code: ERROR_CODES.NETWORK_ERROR,
+    });
+  }
+
   // Create timeout controller if no signal provided
   const timeoutController = signal ? null : createTimeoutController(timeout);
   const effectiveSignal = signal || timeoutController?.signal;
 
-  // Prepare headers
+  // Prepare headers. Multipart bodies get their Content-Type (with the
+  // boundary) from the browser.
+  const isMultipart = body instanceof FormData;
   const requestHeaders: Record<string, string> = {
-    'Content-Type': 'application/json',
+    ...(!isMultipart && { 'Content-Type': 'application/json' }),
     ...headers,
   };
 
+  if (idempotencyKey) {
+    requestHeaders[IDEMPOTENCY_HEADER] = idempotencyKey;
+  }
+
   // Add Authorization header with access token (if available and not skipped)
   if (!skipAuth) {
     const accessToken = getAccessToken();
@@ -143,7 +243,6 @@ async function request<T>(
   }
 
   // Add CSRF token for state-changing requests
-  const isStateMutating = ['POST', 'PUT', 'PATCH', 'DELETE'].includes(method);
   if (isStateMutating && !skipCsrf) {
     try {
       // Read CSRF token from cookie (set by backend)
@@ -162,19 +261,29 @@ async function request<T>(
         }
       }
     } catch (error) {
-      throw normalizeError(error);
+      const appError = normalizeError(error);
+      if (appError.code === ERROR_CODES.NETWORK_ERROR) {
+        return handleNetworkFailure(appError);
+      }
+      throw appError;
     }
   }
 
   // Make the request
   try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      method,
-      headers: requestHeaders,
-      body: body ? JSON.stringify(body) : undefined,
-      credentials: 'include',
-      signal: effectiveSignal,
-    });
+    await acquireRequestToken(effectiveSignal);
+
+    const response = await transportFetch(
+      `${API_BASE_URL}${endpoint}`,
+      {
+        method,
+        headers: requestHeaders,
+        body: isMultipart ? body : body ? JSON.stringify(body) : undefined,
+        credentials: 'include',
+        signal: effectiveSignal,
+      },
+      onUploadProgress
+    );
 
     // Handle 401 - trigger session refresh and retry (skip for auth endpoints)
     if (response.status === 401 && !skipAuth) {
@@ -248,6 +357,20 @@ async function request<T>(
       }
     }
 
+    // Throttled or temporarily unavailable: wait and resend.
+    // Retry-After wins over our own backoff when the server sends it.
+    if (isRetryableStatus(response.status, method) && _attempt < MAX_RETRIES) {
+      let wait = backoffDelay(_attempt);
+      if (response.status === 429) {
+        wait = parseRetryAfter(response.headers.get('Retry-After')) ?? wait;
+        notifySlowingDown();
+      }
+      // Each attempt starts its own timeout; only the caller can cut the
+      // wait short
+      await sleep(wait, signal);
+      return request<T>(endpoint, config, _retryCount, _attempt + 1);
+    }
+
     // Handle other errors
     if (!response.ok) {
       // Reuse body if already parsed by the 403 CSRF check above
@@ -274,6 +397,11 @@ async function request<T>(
       } as AppError;
     }
 
+    // A repeated submission resolved to the record the first one created
+    if (idempotencyKey && response.headers.get(REPLAYED_HEADER) === 'true') {
+      notifyReplayed();
+    }
+
     // Parse successful response
     if (response.status === 204) {
       return undefined as T;
@@ -282,24 +410,33 @@ async function request<T>(
     const jsonData = await response.json();
 
     // Unwrap backend response format: { isOk: true, data: {...} }
-    if (
+    // Return as-is if not wrapped
+    const result = validate(
       jsonData &&
-      typeof jsonData === 'object' &&
-      'isOk' in jsonData &&
-      'data' in jsonData
-    ) {
-      return jsonData.data as T;
+        typeof jsonData === 'object' &&
+        'isOk' in jsonData &&
+        'data' in jsonData
+        ? jsonData.data
+        : jsonData
+    );
+
+    // Remember the last good read so pages can render while offline
+    if (method === 'GET' && !skipAuth && !skipOfflineCache) {
+      void cacheResponse(endpoint, result);
     }
 
-    // Return as-is if not wrapped
-    return jsonData as T;
+    return result;
   } catch (error) {
     // If it's already an AppError, re-throw it
     if (error && typeof error === 'object' && 'code' in error) {
       throw error;
     }
     // Otherwise normalize it
-    throw normalizeError(error);
+    const appError = normalizeError(error);
+    if (appError.code === ERROR_CODES.NETWORK_ERROR) {
+      return handleNetworkFailure(appError);
+    }
+    throw appError;
   }
 }
 
@@ -327,6 +464,8 @@ function getErrorCode(status: number): string {
       return ERROR_CODES.NOT_FOUND;
     case 422:
       return ERROR_CODES.VALIDATION_ERROR;
+    case 429:
+      return ERROR_CODES.RATE_LIMITED;
     case 500:
     case 502:
     case 503:
@@ -340,29 +479,31 @@ function getErrorCode(status: number): string {
  * Export API client methods
  */
 export const apiClient = {
-  get: <T>(endpoint: string, config?: Omit<RequestConfig, 'method' | 'body'>) =>
-    request<T>(endpoint, { ...config, method: 'GET' }),
+  get: <T>(
+    endpoint: string,
+    config?: Omit<RequestConfig<T>, 'method' | 'body'>
+  ) => request<T>(endpoint, { ...config, method: 'GET' }),
 
   post: <T>(
     endpoint: string,
     body?: unknown,
-    config?: Omit<RequestConfig, 'method'>
+    config?: Omit<RequestConfig<T>, 'method'>
   ) => request<T>(endpoint, { ...config, method: 'POST', body }),
 
   put: <T>(
     endpoint: string,
     body?: unknown,
-    config?: Omit<RequestConfig, 'method'>
+    config?: Omit<RequestConfig<T>, 'method'>
   ) => request<T>(endpoint, { ...config, method: 'PUT', body }),
 
   patch: <T>(
     endpoint: string,
     body?: unknown,
-    config?: Omit<RequestConfig, 'method'>
+    config?: Omit<RequestConfig<T>, 'method'>
   ) => request<T>(endpoint, { ...config, method: 'PATCH', body }),
 
   delete: <T>(
     endpoint: string,
-    config?: Omit<RequestConfig, 'method' | 'body'>
+    config?: Omit<RequestConfig<T>, 'method' | 'body'>
   ) => request<T>(endpoint, { ...config, method: 'DELETE' }),
 };
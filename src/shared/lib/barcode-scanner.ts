@@ -0,0 +1,71 @@
+/**
+ * Keyboard-wedge barcode scanner detection.
+ *
+ * USB/Bluetooth scanners "type" the code followed by Enter, much faster
+ * than a person can. The detector buffers keystrokes that arrive within
+ * `maxKeyInterval` of each other and reports the buffer as a scan when
+ * Enter ends such a burst. Slower keystrokes start a new buffer, so
+ * ordinary typing (even fast typing) is never mistaken for a scan.
+ */
+
+export interface ScanDetectorOptions {
+  /** Shortest code accepted as a scan. Default 6 */
+  minLength?: number;
+  /** Longest gap between two scanner keystrokes, in ms. Default 35 */
+  maxKeyInterval?: number;
+}
+
+/** The parts of a KeyboardEvent the detector looks at */
+export interface ScanKeystroke {
+  key: string;
+  timeStamp: number;
+}
+
+export interface ScanDetector {
+  /** Feed a keydown; returns the code when it completes a scan */
+  push: (keystroke: ScanKeystroke) => string | null;
+  /** Characters in the current burst */
+  pending: () => number;
+  reset: () => void;
+}
+
+// Keys scanners send alongside the characters (e.g. Shift for capitals)
+const IGNORED_KEYS = new Set(['Shift', 'CapsLock']);
+
+export function createScanDetector(
+  options: ScanDetectorOptions = {}
+): ScanDetector {
+  const { minLength = 6, maxKeyInterval = 35 } = options;
+  let buffer = '';
+  let lastKeyAt = -Infinity;
+
+  const reset = () => {
+    buffer = '';
+    lastKeyAt = -Infinity;
+  };
+
+  const push = (keystroke: ScanKeystroke): string | null => {
+    if (IGNORED_KEYS.has(keystroke.key)) return null;
+
+    const isFast = keystroke.timeStamp - lastKeyAt <= maxKeyInterval;
+
+    if (keystroke.key === 'Enter') {
+      const code = buffer;
+      reset();
+      return isFast && code.length >= minLength ? code : null;
+    }
+
+    // Arrows, Backspace, etc. never come from a scanner
+    if (keystroke.key.length !== 1) {
+      reset();
+      return null;
+    }
+
+    if (!isFast) buffer = '';
+    buffer += keystroke.key;
+    lastKeyAt = keystroke.timeStamp;
+    return null;
+  };
+
+  return { push, pending: () => buffer.length, reset };
+}
@@ -3,13 +3,15 @@
  *
  * Uses:
  *  - `qrcode` (toDataURL) for QR codes
- *  - `jsbarcode` (SVG rendering) for Code128 barcodes
+ *  - `jsbarcode` (SVG rendering) for Code128 and EAN-13 barcodes
  *
- * Both encode an arbitrary string (typically the MongoDB _id of an item).
+ * QR and Code128 encode an arbitrary string (the item's _id, SKU or
+ * GTIN); EAN-13 only carries 13-digit retail codes.
  */
 
 import QRCode from 'qrcode';
 import JsBarcode from 'jsbarcode';
+import { toEan13 } from './product-codes';
 
 // ── QR Code ──────────────────────────────────────────────
 
@@ -49,9 +51,13 @@ export async function generateQRDataURL(
   });
 }
 
-// ── Barcode (Code128) ────────────────────────────────────
+// ── Barcode (Code128 / EAN-13) ───────────────────────────
+
+export type BarcodeFormat = 'CODE128' | 'EAN13';
 
 export interface BarcodeOptions {
+  /** Symbology. Default 'CODE128' */
+  format?: BarcodeFormat;
   /** Width of narrowest bar in px. Default 2 */
   width?: number;
   /** Height of bars in px. Default 60 */
@@ -65,7 +71,7 @@ export interface BarcodeOptions {
 }
 
 /**
- * Generate a Code128 barcode as an SVG string.
+ * Generate a Code128 or EAN-13 barcode as an SVG string.
  * We draw into an in-memory SVG element and serialise it.
  */
 export function generateBarcodeSVG(
@@ -73,6 +79,7 @@ export function generateBarcodeSVG(
   opts: BarcodeOptions = {}
 ): string {
   const {
+    format = 'CODE128',
     width = 2,
     height = 60,
     displayValue = true,
@@ -85,7 +92,7 @@ export function generateBarcodeSVG(
   const svg = document.createElementNS(svgNS, 'svg');
 
   JsBarcode(svg, value, {
-    format: 'CODE128',
+    format,
     width,
     height,
     displayValue,
@@ -99,7 +106,7 @@ export function generateBarcodeSVG(
 }
 
 /**
- * Generate a Code128 barcode as a data-URL (image/svg+xml).
+ * Generate a barcode as a data-URL (image/svg+xml).
  */
 export function generateBarcodeDataURL(
   value: string,
@@ -111,12 +118,17 @@ export function generateBarcodeDataURL(
 
 // ── Label types ──────────────────────────────────────────
 
-export type CodeType = 'qr' | 'barcode';
+export type CodeType = 'qr' | 'barcode' | 'ean13';
 export type LabelFormat = 'a4' | 'thermal';
+/** Which of the item's codes a label carries */
+export type CodeSource = 'id' | 'sku' | 'gtin';
 
 export interface LabelItem {
   id: string;
   name: string;
+  sku?: string;
+  /** GTIN/EAN/UPC codes */
+  barcodes?: string[];
   unit: string;
   /** Storehouse / location name */
   storehouse?: string;
@@ -124,6 +136,40 @@ export interface LabelItem {
   quantity: number;
   /** How many copies to print */
   copies: number;
+  /** Lots held, one of which can be printed on the labels */
+  lots?: Array<{ lotNumber: string; expiresAt?: string }>;
+  /** Cover photo, printed when the label settings ask for it */
+  imageUrl?: string;
+}
+
+export interface LabelCode {
+  value: string;
+  symbology: 'qr' | BarcodeFormat;
+}
+
+/**
+ * What a label encodes and how. Items without the chosen code fall back
+ * to their id, and codes EAN-13 can't carry print as Code128, so every
+ * label still scans.
+ */
+export function resolveLabelCode(
+  item: Pick<LabelItem, 'id' | 'sku' | 'barcodes'>,
+  source: CodeSource,
+  codeType: CodeType
+): LabelCode {
+  const barcodes = item.barcodes ?? [];
+  const gtin =
+    codeType === 'ean13'
+      ? (barcodes.find((code) => toEan13(code)) ?? barcodes[0])
+      : barcodes[0];
+  const value =
+    (source === 'sku' && item.sku) || (source === 'gtin' && gtin) || item.id;
+
+  if (codeType === 'qr') return { value, symbology: 'qr' };
+  const ean13 = codeType === 'ean13' ? toEan13(value) : null;
+  return ean13
+    ? { value: ean13, symbology: 'EAN13' }
+    : { value, symbology: 'CODE128' };
 }
 
 // ── Label size presets ───────────────────────────────────
@@ -166,14 +212,19 @@ const SETTINGS_KEY = 'label-print-settings';
 
 export interface LabelPrintSettings {
   codeType: CodeType;
+  codeSource: CodeSource;
   labelFormat: LabelFormat;
   sizePresetId: string;
+  /** Print the item's cover photo beside the code */
+  showImage: boolean;
 }
 
 const DEFAULT_SETTINGS: LabelPrintSettings = {
   codeType: 'qr',
+  codeSource: 'id',
   labelFormat: 'a4',
   sizePresetId: 'default-a4',
+  showImage: false,
 };
 
 export function loadLabelSettings(): LabelPrintSettings {
@@ -0,0 +1,112 @@
+/**
+ * Response Contract Validation
+ *
+ * Every backend payload is parsed against a zod schema before it reaches
+ * mappers or components. A mismatch becomes a CONTRACT_ERROR AppError
+ * instead of `undefined` cells in a table, and in dev builds a report of
+ * the offending fields is printed to the console.
+ */
+
+import { z, type ZodIssue, type ZodType, type ZodTypeDef } from 'zod';
+import type { AppError } from '../types/api.types';
+import { ERROR_CODES } from './errors';
+
+/**
+ * Schema whose parsed output is T (input shape is unconstrained)
+ */
+export type ResponseSchema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+/**
+ * Pagination block of list endpoints (older endpoints send `pages`,
+ * newer ones `totalPages`)
+ */
+export const PaginationSchema = z.object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  pages: z.number().optional(),
+  totalPages: z.number().optional(),
+});
+
+/**
+ * `{ items, pagination }` envelope of paginated list endpoints
+ */
+export function paginatedSchema<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    items: z.array(item),
+    pagination: PaginationSchema,
+  });
+}
+
+/**
+ * `{ message }` acknowledgement returned by most action endpoints
+ */
+export const MessageResponseSchema = z.object({ message: z.string() });
+
+export interface ContractIssue {
+  /** Dotted path into the payload, e.g. `items[3].storeHouse.name` */
+  path: string;
+  message: string;
+}
+
+export interface ContractViolation {
+  endpoint: string;
+  issues: ContractIssue[];
+}
+
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((segment, index) =>
+      typeof segment === 'number'
+        ? `[${segment}]`
+        : index === 0
+          ? segment
+          : `.${segment}`
+    )
+    .join('');
+}
+
+function toIssues(issues: ZodIssue[]): ContractIssue[] {
+  return issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Print which fields broke the contract (dev builds only)
+ */
+function reportViolation(violation: ContractViolation, payload: unknown) {
+  if (!import.meta.env.DEV) return;
+  console.groupCollapsed(
+    `⚠️ API contract violation: ${violation.endpoint} (${violation.issues.length} field${violation.issues.length === 1 ? '' : 's'})`
+  );
+  console.table(violation.issues);
+  console.debug('Payload:', payload);
+  console.groupEnd();
+}
+
+/**
+ * Parse a response payload, throwing a CONTRACT_ERROR AppError on mismatch
+ */
+export function parseResponse<T>(
+  schema: ResponseSchema<T>,
+  payload: unknown,
+  endpoint: string
+): T {
+  const result = schema.safeParse(payload);
+  if (result.success) return result.data;
+
+  const violation: ContractViolation = {
+    endpoint,
+    issues: toIssues(result.error.issues),
+  };
+  reportViolation(violation, payload);
+
+  throw {
+    message: 'The server sent data in an unexpected format.',
+    code: ERROR_CODES.CONTRACT_ERROR,
+    details: violation,
+  } as AppError;
+}
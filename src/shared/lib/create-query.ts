@@ -0,0 +1,114 @@
+/**
+ * createQuery
+ *
+ * Replacement for Solid's createResource for reads that go through the
+ * query client. Takes the same (source, fetcher) pair — a source of
+ * false/null/undefined skips fetching — and returns the same
+ * `[data, { refetch, mutate }]` tuple, plus:
+ *
+ * - `scopes`: the query scopes the fetcher reads from. When any of them
+ *   is invalidated by a mutation (on this page or elsewhere) or refreshed
+ *   in the background, the query refetches without flipping `loading`,
+ *   so the current data stays on screen while it revalidates.
+ *
+ * `loading` is only true while there is nothing to show yet
+ * (first load or a source change).
+ */
+
+import { createSignal, createEffect, on, onCleanup, untrack } from 'solid-js';
+import { subscribeQueries, type QueryScope } from './query-client';
+
+export interface QueryAccessor<T> {
+  (): T | undefined;
+  readonly loading: boolean;
+  /** True while a background revalidation is in flight */
+  readonly refreshing: boolean;
+  readonly error: unknown;
+  readonly latest: T | undefined;
+}
+
+export interface QueryActions<T> {
+  refetch: () => Promise<T | undefined>;
+  mutate: (value: T | undefined) => void;
+}
+
+export interface CreateQueryOptions {
+  scopes: QueryScope[];
+}
+
+type SourceValue<S> = S | false | null | undefined;
+
+export function createQuery<S, T>(
+  source: () => SourceValue<S>,
+  fetcher: (source: S) => Promise<T>,
+  options: CreateQueryOptions
+): [QueryAccessor<T>, QueryActions<T>] {
+  const [data, setData] = createSignal<T | undefined>(undefined);
+  const [loading, setLoading] = createSignal(true);
+  const [refreshing, setRefreshing] = createSignal(false);
+  const [error, setError] = createSignal<unknown>(undefined);
+
+  // Only the latest request may write results
+  let requestId = 0;
+
+  const run = async (
+    value: SourceValue<S>,
+    background: boolean
+  ): Promise<T | undefined> => {
+    if (value === false || value === null || value === undefined) {
+      setLoading(false);
+      return undefined;
+    }
+
+    const id = ++requestId;
+    if (background) {
+      setRefreshing(true);
+    } else {
+      setLoading(true);
+    }
+
+    try {
+      const result = await fetcher(value as S);
+      if (id === requestId) {
+        setData(() => result);
+        setError(undefined);
+      }
+      return result;
+    } catch (err) {
+      if (id === requestId) setError(err);
+      return undefined;
+    } finally {
+      if (id === requestId) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
+  };
+
+  createEffect(on(source, (value) => void run(value, false)));
+
+  if (options.scopes.length) {
+    const unsubscribe = subscribeQueries((changed) => {
+      if (options.scopes.some((scope) => changed.has(scope))) {
+        void run(untrack(source), true);
+      }
+    });
+    onCleanup(unsubscribe);
+  }
+
+  const accessor = (() => data()) as QueryAccessor<T>;
+  Object.defineProperties(accessor, {
+    loading: { get: () => loading() },
+    refreshing: { get: () => refreshing() },
+    error: { get: () => error() },
+    latest: { get: () => data() },
+  });
+
+  return [
+    accessor,
+    {
+      refetch: () => run(untrack(source), true),
+      mutate: (value) => setData(() => value),
+    },
+  ];
+}
@@ -13,6 +13,8 @@
  * - Single concurrent fetch prevents race conditions
  */
 
+import { transportFetch } from './transport';
+
 const API_BASE_URL = import.meta.env['VITE_API_BASE_URL'] || '';
 
 class CsrfTokenManager {
@@ -53,7 +55,7 @@ class CsrfTokenManager {
    * Perform the actual fetch request
    */
   private async _performFetch(): Promise<string> {
-    const response = await fetch(`${API_BASE_URL}/auth/csrf`, {
+    const response = await transportFetch(`${API_BASE_URL}/auth/csrf`, {
       method: 'GET',
       credentials: 'include',
       headers: {
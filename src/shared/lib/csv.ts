@@ -0,0 +1,113 @@
+/**
+ * CSV import/export utilities
+ *
+ * Builds RFC 4180 CSV (quoted where needed, CRLF line endings, text that
+ * would start a formula prefixed with a quote) and hands it to the browser
+ * as a file download, and parses uploaded CSV back
+ * into rows of cells.
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+/** Text a spreadsheet would run as a formula */
+const FORMULA_START = /^[=+\-@\t\r]/;
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i;
+
+function escapeCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  // Item names, notes and partner names are user input: a leading quote
+  // keeps "=HYPERLINK(...)" from running in the accountant's spreadsheet
+  if (
+    typeof value === 'string' &&
+    FORMULA_START.test(text) &&
+    !NUMBER.test(text)
+  ) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize rows to CSV text with a header line
+ */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [
+    columns.map((column) => escapeCell(column.header)).join(','),
+    ...rows.map((row) =>
+      columns.map((column) => escapeCell(column.value(row))).join(',')
+    ),
+  ];
+  return lines.join('\r\n');
+}
+
+/**
+ * Download CSV text as a file. A BOM is prepended so spreadsheet apps
+ * detect UTF-8.
+ */
+export function downloadCsv(filename: string, csv: string): void {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.csv') ? filename : `${filename}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells (with commas,
+ * quotes and line breaks inside), CRLF or LF line endings and a leading
+ * BOM. Without an explicit delimiter, semicolon files (spreadsheet
+ * exports in comma-decimal locales) are detected from the first line.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter?: ',' | ';'): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.slice(0, source.search(/\r?\n|$/));
+  const separator =
+    delimiter ??
+    (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
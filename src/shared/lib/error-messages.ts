@@ -71,6 +71,11 @@ const ERROR_MESSAGES: Record<number, string> = {
   4412: 'Role not found.',
   4413: 'Cannot delete storehouse — it still has items. Move or delete the items first.',
 
+  // Item codes
+  4500: 'This SKU is already used by another item.',
+  4501: 'Invalid barcode. Use an EAN-8, UPC-A, EAN-13 or GTIN-14 code with a correct check digit.',
+  4502: 'The SKU pattern must contain {seq} and be at most 40 characters.',
+
   // Server errors
   5000: 'Server error occurred. Please try again later.',
   6000: 'Email service is unavailable. Please try again later.',
@@ -149,7 +154,10 @@ export function getErrorTitle(error: BackendError): string | undefined {
   if (error.code === 4290) {
     return 'Rate Limit Exceeded';
   }
-  if (error.code >= 4000 && error.code <= 4001) {
+  if (
+    (error.code >= 4000 && error.code <= 4001) ||
+    (error.code >= 4500 && error.code <= 4502)
+  ) {
     return 'Validation Error';
   }
 
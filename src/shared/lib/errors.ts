@@ -13,6 +13,9 @@ export const ERROR_CODES = {
   SERVER_ERROR: 'SERVER_ERROR',
   UNKNOWN: 'UNKNOWN',
   CSRF_ERROR: 'CSRF_ERROR',
+  OFFLINE_QUEUED: 'OFFLINE_QUEUED',
+  CONTRACT_ERROR: 'CONTRACT_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
 } as const;
 
 /**
@@ -0,0 +1,189 @@
+/**
+ * Export columns for the order, import, transfer and partner lists
+ *
+ * Inventory columns live with the inventory feature.
+ */
+
+import type { ExportColumn } from './export';
+import type { Transaction } from '../types/transaction.types';
+import type { Import } from '../types/import.types';
+import type { Transfer } from '../types/transfer.types';
+import type { Partner } from '../types/partner.types';
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/** "Rice × 2, Beans × 1" */
+const lineSummary = (lines: Array<{ itemName?: string; quantity: number }>) =>
+  lines
+    .map((line) => `${line.itemName ?? 'Unknown item'} × ${line.quantity}`)
+    .join(', ');
+
+const unitCount = (lines: Array<{ quantity: number }>) =>
+  lines.reduce((sum, line) => sum + line.quantity, 0);
+
+export const ORDER_EXPORT_COLUMNS: ExportColumn<Transaction>[] = [
+  { id: 'id', header: 'Order ID', value: (t) => t.id },
+  { id: 'createdAt', header: 'Date', value: (t) => t.createdAt, kind: 'date' },
+  { id: 'client', header: 'Client', value: (t) => t.clientName },
+  {
+    id: 'clientEmail',
+    header: 'Client email',
+    value: (t) => t.clientEmail,
+    optional: true,
+  },
+  { id: 'status', header: 'Status', value: (t) => capitalize(t.status) },
+  {
+    id: 'items',
+    header: 'Items',
+    value: (t) => lineSummary(t.items),
+  },
+  {
+    id: 'units',
+    header: 'Units',
+    value: (t) => unitCount(t.items),
+    kind: 'number',
+    optional: true,
+  },
+  {
+    id: 'total',
+    header: 'Total',
+    value: (t) => t.totalPrice,
+    kind: 'currency',
+  },
+  {
+    id: 'deliveredAt',
+    header: 'Delivered',
+    value: (t) => t.itemsDeliveredDate,
+    kind: 'date',
+    optional: true,
+  },
+  {
+    id: 'paidAt',
+    header: 'Paid',
+    value: (t) => t.paymentCompletedDate,
+    kind: 'date',
+    optional: true,
+  },
+];
+
+export const IMPORT_EXPORT_COLUMNS: ExportColumn<Import>[] = [
+  { id: 'id', header: 'Import ID', value: (i) => i.id },
+  { id: 'createdAt', header: 'Date', value: (i) => i.createdAt, kind: 'date' },
+  { id: 'supplier', header: 'Supplier', value: (i) => i.supplierName },
+  {
+    id: 'supplierEmail',
+    header: 'Supplier email',
+    value: (i) => i.supplierEmail,
+    optional: true,
+  },
+  { id: 'status', header: 'Status', value: (i) => capitalize(i.status) },
+  { id: 'items', header: 'Items', value: (i) => lineSummary(i.items) },
+  {
+    id: 'units',
+    header: 'Units',
+    value: (i) => unitCount(i.items),
+    kind: 'number',
+    optional: true,
+  },
+  {
+    id: 'total',
+    header: 'Total',
+    value: (i) => i.totalPrice,
+    kind: 'currency',
+  },
+  {
+    id: 'receivedAt',
+    header: 'Received',
+    value: (i) => i.itemsReceivedDate,
+    kind: 'date',
+    optional: true,
+  },
+  {
+    id: 'paidAt',
+    header: 'Paid',
+    value: (i) => i.paymentCompletedDate,
+    kind: 'date',
+    optional: true,
+  },
+];
+
+export const TRANSFER_EXPORT_COLUMNS: ExportColumn<Transfer>[] = [
+  { id: 'id', header: 'Transfer ID', value: (t) => t.id, optional: true },
+  { id: 'createdAt', header: 'Date', value: (t) => t.createdAt, kind: 'date' },
+  { id: 'item', header: 'Item', value: (t) => t.itemName ?? t.itemId },
+  {
+    id: 'quantity',
+    header: 'Quantity',
+    value: (t) => t.quantity,
+    kind: 'number',
+  },
+  { id: 'unit', header: 'Unit', value: (t) => t.itemUnit },
+  {
+    id: 'from',
+    header: 'From',
+    value: (t) => t.fromStoreHouseName ?? t.fromStoreHouse,
+  },
+  {
+    id: 'to',
+    header: 'To',
+    value: (t) => t.toStoreHouseName ?? t.toStoreHouse,
+  },
+  { id: 'status', header: 'Status', value: (t) => capitalize(t.status) },
+  {
+    id: 'transferredAt',
+    header: 'Transferred',
+    value: (t) => t.transferredAt,
+    kind: 'date',
+    optional: true,
+  },
+  { id: 'note', header: 'Note', value: (t) => t.note, optional: true },
+];
+
+export const PARTNER_EXPORT_COLUMNS: ExportColumn<Partner>[] = [
+  { id: 'name', header: 'Name', value: (p) => p.partnerName },
+  { id: 'email', header: 'Email', value: (p) => p.email },
+  { id: 'phone', header: 'Phone', value: (p) => p.phoneNumber },
+  { id: 'address', header: 'Address', value: (p) => p.address },
+  {
+    id: 'createdAt',
+    header: 'Added',
+    value: (p) => p.createdAt,
+    kind: 'date',
+    optional: true,
+  },
+];
+
+/**
+ * Active list filters as export header lines. Empty values are left out.
+ */
+export function describeListFilters(filters: {
+  status?: string;
+  search?: string;
+  /** e.g. ["Client", "Acme Ltd"] */
+  partner?: [label: string, name: string | undefined];
+  dateFrom?: string;
+  dateTo?: string;
+  priceMin?: string;
+  priceMax?: string;
+}): string[] {
+  const lines: string[] = [];
+  if (filters.status && filters.status !== 'all') {
+    lines.push(`Status: ${capitalize(filters.status)}`);
+  }
+  if (filters.search) lines.push(`Search: "${filters.search}"`);
+  if (filters.partner?.[1]) {
+    lines.push(`${filters.partner[0]}: ${filters.partner[1]}`);
+  }
+  if (filters.dateFrom || filters.dateTo) {
+    lines.push(
+      `Date: ${filters.dateFrom || 'start'} to ${filters.dateTo || 'today'}`
+    );
+  }
+  if (filters.priceMin || filters.priceMax) {
+    lines.push(
+      `Total: ${filters.priceMin || '0'} to ${filters.priceMax || 'any'}`
+    );
+  }
+  return lines;
+}
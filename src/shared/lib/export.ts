@@ -0,0 +1,383 @@
+/**
+ * List export service
+ *
+ * Pages through a list endpoint with the page's active filters to collect
+ * the full result set, then writes the chosen columns as CSV, XLSX or a
+ * PDF table headed with the business details. Money columns use the
+ * business currency: spreadsheets get plain numbers (the currency code
+ * goes in the header) so they can be summed, the PDF gets formatted
+ * amounts. Image columns print as pictures in the PDF, so it can serve as
+ * a catalog.
+ */
+
+import { jsPDF } from 'jspdf';
+import { downloadCsv, toCsv } from './csv';
+import { toXlsx, type XlsxCell } from './xlsx';
+import { formatCurrency, formatDate } from './format';
+import { loadImageForPdf } from './images';
+import { getBusiness } from '@/shared/stores/business.store';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportColumn<T> {
+  /** Stable key, used to remember the chosen columns */
+  id: string;
+  header: string;
+  value: (row: T) => ExportValue;
+  /**
+   * Dates are ISO strings; currency and number values are numbers; images
+   * are URLs, written out as links in spreadsheets
+   */
+  kind?: 'text' | 'number' | 'currency' | 'date' | 'image';
+  /** Left out until the user picks it */
+  optional?: boolean;
+}
+
+/** One page of a `*WithPagination` endpoint */
+export interface ListPage<T> {
+  rows: T[];
+  pages: number;
+}
+
+/** Rows requested per page while collecting an export */
+export const EXPORT_PAGE_SIZE = 100;
+/** Request options for export pages: one-off reads, kept out of the offline cache */
+export const EXPORT_REQUEST = { skipOfflineCache: true } as const;
+/** Safety stop for endpoints that misreport their page count */
+const MAX_EXPORT_PAGES = 1000;
+
+/**
+ * Every row of a paginated list, fetched page by page
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, limit: number) => Promise<ListPage<T>>,
+  onProgress?: (page: number, pages: number) => void
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let page = 1; page <= MAX_EXPORT_PAGES; page++) {
+    const result = await fetchPage(page, EXPORT_PAGE_SIZE);
+    rows.push(...result.rows);
+    onProgress?.(page, result.pages);
+    if (page >= result.pages || result.rows.length === 0) break;
+  }
+  return rows;
+}
+
+export interface ExportOptions<T> {
+  /** Document title, e.g. "Orders" */
+  title: string;
+  /** File name without extension */
+  filename: string;
+  format: ExportFormat;
+  rows: T[];
+  columns: ExportColumn<T>[];
+  /** Active filters, printed under the PDF title */
+  filters?: string[];
+}
+
+interface ExportContext {
+  currency: string;
+  timezone: string;
+}
+
+type PdfImage = Awaited<ReturnType<typeof loadImageForPdf>>;
+
+/**
+ * "2026-10-19 14:03" in the business timezone: sortable in spreadsheets
+ */
+function sheetDate(value: string, timezone: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  try {
+    // Swedish formatting is ISO-like
+    return date.toLocaleString('sv-SE', { timeZone: timezone });
+  } catch {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+  }
+}
+
+function sheetValue<T>(
+  column: ExportColumn<T>,
+  row: T,
+  context: ExportContext
+): ExportValue {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return value;
+  if (column.kind === 'date') return sheetDate(String(value), context.timezone);
+  if (column.kind === 'currency' && typeof value === 'number') {
+    return Math.round(value * 100) / 100;
+  }
+  // Images stored inline have no address to link to
+  if (column.kind === 'image' && String(value).startsWith('data:')) return '';
+  return value;
+}
+
+function sheetHeader<T>(column: ExportColumn<T>, context: ExportContext) {
+  return column.kind === 'currency'
+    ? `${column.header} (${context.currency})`
+    : column.header;
+}
+
+function pdfValue<T>(
+  column: ExportColumn<T>,
+  row: T,
+  context: ExportContext
+): string {
+  const value = column.value(row);
+  if (value === null || value === undefined || value === '') return '';
+  if (column.kind === 'image') return '';
+  if (column.kind === 'date') {
+    return formatDate(String(value), context.timezone);
+  }
+  if (typeof value === 'number') {
+    return column.kind === 'currency'
+      ? formatCurrency(value, context.currency)
+      : value.toLocaleString('en-US');
+  }
+  return String(value);
+}
+
+const isNumeric = <T>(column: ExportColumn<T>) =>
+  column.kind === 'number' || column.kind === 'currency';
+
+/**
+ * Pictures of the image columns, loaded once per URL
+ */
+async function loadPdfImages<T>(
+  options: ExportOptions<T>
+): Promise<Map<string, PdfImage>> {
+  const images = new Map<string, PdfImage>();
+  const columns = options.columns.filter((column) => column.kind === 'image');
+  for (const row of options.rows) {
+    for (const column of columns) {
+      const url = column.value(row);
+      if (typeof url === 'string' && url && !images.has(url)) {
+        images.set(url, await loadImageForPdf(url, 200));
+      }
+    }
+  }
+  return images;
+}
+
+function writePdf<T>(
+  options: ExportOptions<T>,
+  context: ExportContext,
+  images: Map<string, PdfImage>
+) {
+  const { columns, rows } = options;
+  const business = getBusiness();
+  const doc = new jsPDF({
+    orientation: columns.length > 5 ? 'landscape' : 'portrait',
+    unit: 'mm',
+    format: 'a4',
+  });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 12;
+  const rowHeight = 6;
+  // Rows grow to fit a thumbnail when there are pictures
+  const hasImages = columns.some((column) => column.kind === 'image');
+  const bodyRowHeight = hasImages ? 14 : rowHeight;
+  const tableWidth = pageWidth - margin * 2;
+
+  const cells = rows.map((row) =>
+    columns.map((column) => pdfValue(column, row, context))
+  );
+
+  // Column widths follow the longest text (header or a sampled cell)
+  const weights = columns.map((column, index) =>
+    column.kind === 'image'
+      ? 10
+      : Math.min(
+          40,
+          Math.max(
+            6,
+            column.header.length,
+            ...cells.slice(0, 300).map((row) => row[index]!.length)
+          )
+        )
+  );
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => (weight / totalWeight) * tableWidth);
+
+  // ── Document header ──
+  let y = margin + 2;
+  if (business) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(14);
+    doc.setTextColor(0);
+    doc.text(business.name, margin, y);
+    y += 5;
+    const contact = [business.address, business.phoneNumber, business.email]
+      .filter(Boolean)
+      .join(' · ');
+    if (contact) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(100);
+      doc.text(contact, margin, y);
+      y += 6;
+    }
+  }
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text(options.title, margin, y);
+  y += 5;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  const summary = [
+    `${rows.length} row${rows.length === 1 ? '' : 's'}`,
+    `Generated ${formatDate(new Date().toISOString(), context.timezone)}`,
+    ...(options.filters ?? []),
+  ].join(' · ');
+  for (const line of doc.splitTextToSize(summary, tableWidth) as string[]) {
+    doc.text(line, margin, y);
+    y += 4;
+  }
+  y += 2;
+
+  // ── Table ──
+  const fit = (text: string, width: number) => {
+    const lines = doc.splitTextToSize(text, width - 2) as string[];
+    return lines.length > 1 ? `${lines[0]!.replace(/\s+$/, '')}…` : text;
+  };
+
+  const drawImage = (url: ExportValue, x: number, width: number) => {
+    const image = typeof url === 'string' ? images.get(url) : null;
+    if (!image) return;
+    const box = Math.min(width - 2, bodyRowHeight - 2);
+    const scale = Math.min(box / image.width, box / image.height);
+    const w = image.width * scale;
+    const h = image.height * scale;
+    doc.addImage(
+      image.dataUrl,
+      'JPEG',
+      x + (width - w) / 2,
+      y + (bodyRowHeight - h) / 2,
+      w,
+      h
+    );
+  };
+
+  const drawRow = (values: string[], row: T | null) => {
+    const header = row === null;
+    const height = header ? rowHeight : bodyRowHeight;
+    const textY = y + height / 2 + 1;
+    if (header) {
+      doc.setFillColor(240, 240, 240);
+      doc.rect(margin, y, tableWidth, rowHeight, 'F');
+    }
+    doc.setFont('helvetica', header ? 'bold' : 'normal');
+    doc.setTextColor(header ? 60 : 20);
+    let x = margin;
+    values.forEach((value, index) => {
+      const column = columns[index]!;
+      const width = widths[index]!;
+      const text = fit(value, width);
+      if (row && column.kind === 'image') {
+        drawImage(column.value(row), x, width);
+      } else if (isNumeric(column)) {
+        doc.text(text, x + width - 1, textY, { align: 'right' });
+      } else {
+        doc.text(text, x + 1, textY);
+      }
+      x += width;
+    });
+    doc.setDrawColor(220);
+    doc.line(margin, y + height, margin + tableWidth, y + height);
+    y += height;
+  };
+
+  const headers = columns.map((column) => column.header);
+  doc.setFontSize(8);
+  drawRow(headers, null);
+  cells.forEach((values, index) => {
+    if (y + bodyRowHeight > pageHeight - margin - 4) {
+      doc.addPage();
+      y = margin;
+      drawRow(headers, null);
+    }
+    drawRow(values, rows[index]!);
+  });
+
+  // ── Page numbers ──
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7);
+    doc.setTextColor(140);
+    doc.text(
+      `${options.title} · Page ${page} of ${pageCount}`,
+      pageWidth - margin,
+      pageHeight - margin / 2,
+      { align: 'right' }
+    );
+  }
+
+  doc.save(`${options.filename}.pdf`);
+}
+
+/**
+ * Hand a generated file to the browser as a download
+ */
+function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Write rows in the chosen format and download the file
+ */
+export async function exportList<T>(options: ExportOptions<T>): Promise<void> {
+  const business = getBusiness();
+  const context: ExportContext = {
+    currency: business?.currency || 'USD',
+    timezone: business?.timezone || 'UTC',
+  };
+  const { columns, rows } = options;
+
+  switch (options.format) {
+    case 'csv':
+      downloadCsv(
+        options.filename,
+        toCsv(
+          rows,
+          columns.map((column) => ({
+            header: sheetHeader(column, context),
+            value: (row: T) => sheetValue(column, row, context),
+          }))
+        )
+      );
+      return;
+    case 'xlsx':
+      downloadBlob(
+        `${options.filename}.xlsx`,
+        toXlsx(
+          [
+            columns.map((column) => sheetHeader(column, context)),
+            ...rows.map((row) =>
+              columns.map(
+                (column): XlsxCell => sheetValue(column, row, context)
+              )
+            ),
+          ],
+          options.title
+        )
+      );
+      return;
+    case 'pdf':
+      writePdf(options, context, await loadPdfImages(options));
+      return;
+  }
+}
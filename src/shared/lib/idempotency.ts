@@ -0,0 +1,62 @@
+/**
+ * Idempotency Keys
+ *
+ * Create endpoints accept an `Idempotency-Key` header: the backend performs
+ * the first request with a given key and answers every repeat with the
+ * stored response (flagged `Idempotent-Replayed: true`) instead of creating
+ * a second record.
+ *
+ * Forms hold one key per logical submission via `createSubmissionKey()`, so
+ * a second click on "Create" after a stalled request reuses the key, while
+ * an edited form gets a fresh one.
+ */
+
+import { notificationStore } from '@/shared/stores/notification.store';
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+export const REPLAYED_HEADER = 'Idempotent-Replayed';
+
+/**
+ * Generate a new random key
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Per-form key holder.
+ * Returns the same key while the submitted payload is unchanged;
+ * call `reset()` once the submission succeeded.
+ */
+export function createSubmissionKey() {
+  let key: string | null = null;
+  let fingerprint = '';
+
+  return {
+    keyFor(payload: unknown): string {
+      const next = JSON.stringify(payload) ?? '';
+      if (!key || next !== fingerprint) {
+        key = createIdempotencyKey();
+        fingerprint = next;
+      }
+      return key;
+    },
+    reset(): void {
+      key = null;
+      fingerprint = '';
+    },
+  };
+}
+
+/**
+ * Tell the user a repeated submission resolved to the existing record
+ */
+export function notifyReplayed(): void {
+  notificationStore.info(
+    'This was already saved — showing the original instead of creating a duplicate.',
+    { title: 'Already created' }
+  );
+}
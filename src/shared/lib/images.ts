@@ -0,0 +1,100 @@
+/**
+ * Image helpers
+ *
+ * Photos are shrunk in the browser before upload: a phone picture of
+ * several megabytes becomes a JPEG of a few hundred kilobytes, which keeps
+ * uploads quick on a shop's Wi-Fi and lists light to load.
+ */
+
+export interface ResizeOptions {
+  /** Longest side in pixels */
+  maxSize?: number;
+  /** JPEG quality, 0-1 */
+  quality?: number;
+}
+
+const DEFAULT_MAX_SIZE = 1600;
+const DEFAULT_QUALITY = 0.82;
+
+/**
+ * Load an image from a URL (data, blob or same-origin/CORS-enabled)
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Image could not be loaded'));
+    image.src = src;
+  });
+}
+
+/**
+ * Draw an image onto a white canvas no larger than `maxSize` on its
+ * longest side (transparent PNGs would otherwise turn black as JPEG)
+ */
+function drawScaled(
+  image: HTMLImageElement,
+  maxSize: number
+): HTMLCanvasElement {
+  const scale = Math.min(
+    1,
+    maxSize / Math.max(image.naturalWidth, image.naturalHeight)
+  );
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Shrink and recompress a photo as JPEG. A JPEG that is already small
+ * enough and smaller than the re-encoded one is returned as it is.
+ */
+export async function resizeImage(
+  file: Blob,
+  options: ResizeOptions = {}
+): Promise<Blob> {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const canvas = drawScaled(image, maxSize);
+    const resized = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, 'image/jpeg', options.quality ?? DEFAULT_QUALITY)
+    );
+    if (!resized) throw new Error('Image could not be encoded');
+    const fits =
+      image.naturalWidth <= maxSize && image.naturalHeight <= maxSize;
+    return fits && file.type === 'image/jpeg' && file.size <= resized.size
+      ? file
+      : resized;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * A stored image as a JPEG data URL with its size, for embedding in PDFs.
+ * Null when it can't be loaded (offline, or a host without CORS).
+ */
+export async function loadImageForPdf(
+  src: string,
+  maxSize = 400
+): Promise<{ dataUrl: string; width: number; height: number } | null> {
+  try {
+    const canvas = drawScaled(await loadImage(src), maxSize);
+    return {
+      dataUrl: canvas.toDataURL('image/jpeg', DEFAULT_QUALITY),
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } catch {
+    return null;
+  }
+}
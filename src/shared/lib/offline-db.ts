@@ -0,0 +1,146 @@
+/**
+ * Offline Database
+ *
+ * Minimal promise wrapper around IndexedDB used by the offline outbox
+ * and the read cache. Falls back to in-memory maps when IndexedDB is
+ * unavailable (private mode, tests) so callers never need to branch.
+ */
+
+const DB_NAME = 'store-manager-offline';
+const DB_VERSION = 1;
+
+export type OfflineStoreName = 'outbox' | 'responses';
+
+const STORE_NAMES: OfflineStoreName[] = ['outbox', 'responses'];
+
+// In-memory fallback when IndexedDB cannot be opened
+const memoryStores: Record<OfflineStoreName, Map<string, unknown>> = {
+  outbox: new Map(),
+  responses: new Map(),
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+/**
+ * Open the database once (single-flight)
+ */
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+
+      openRequest.onupgradeneeded = () => {
+        const db = openRequest.result;
+        STORE_NAMES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      openRequest.onsuccess = () => resolve(openRequest.result);
+      openRequest.onerror = () => {
+        console.warn('Could not open offline database:', openRequest.error);
+        resolve(null);
+      };
+    } catch (error) {
+      console.warn('Could not open offline database:', error);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+/**
+ * Run a single request inside a transaction on one object store
+ */
+function runRequest<T>(
+  db: IDBDatabase,
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = createRequest(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Read a value by key
+ */
+export async function offlineGet<T>(
+  storeName: OfflineStoreName,
+  key: string
+): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return memoryStores[storeName].get(key) as T | undefined;
+  return runRequest<T | undefined>(db, storeName, 'readonly', (store) =>
+    store.get(key)
+  );
+}
+
+/**
+ * Read all values in a store
+ */
+export async function offlineGetAll<T>(
+  storeName: OfflineStoreName
+): Promise<T[]> {
+  const db = await openDb();
+  if (!db) return Array.from(memoryStores[storeName].values()) as T[];
+  return runRequest<T[]>(db, storeName, 'readonly', (store) => store.getAll());
+}
+
+/**
+ * Write a value by key (insert or replace)
+ */
+export async function offlineSet(
+  storeName: OfflineStoreName,
+  key: string,
+  value: unknown
+): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStores[storeName].set(key, value);
+    return;
+  }
+  await runRequest(db, storeName, 'readwrite', (store) =>
+    store.put(value, key)
+  );
+}
+
+/**
+ * Delete a value by key
+ */
+export async function offlineDelete(
+  storeName: OfflineStoreName,
+  key: string
+): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStores[storeName].delete(key);
+    return;
+  }
+  await runRequest(db, storeName, 'readwrite', (store) => store.delete(key));
+}
+
+/**
+ * Remove every value in a store
+ */
+export async function offlineClear(storeName: OfflineStoreName): Promise<void> {
+  const db = await openDb();
+  if (!db) {
+    memoryStores[storeName].clear();
+    return;
+  }
+  await runRequest(db, storeName, 'readwrite', (store) => store.clear());
+}
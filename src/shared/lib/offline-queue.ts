@@ -0,0 +1,204 @@
+/**
+ * Offline Queue
+ *
+ * Persistent outbox for state-mutating requests and a last-response
+ * cache for reads.
+ *
+ * - Mutations made while offline are stored without auth/CSRF headers;
+ *   those are attached at replay time by the API client.
+ * - Entries keep their enqueue order (seq) and are replayed in that order.
+ * - Each entry records the user who queued it, so a change made by one
+ *   clerk is never sent under another clerk's session.
+ * - GET responses are cached per endpoint so pages can still render
+ *   when the network is down.
+ */
+
+import type { AppError, HttpMethod } from '../types/api.types';
+import type {
+  CachedResponse,
+  OutboxEntry,
+  OutboxStatus,
+} from '../types/offline.types';
+import { ERROR_CODES } from './errors';
+import {
+  offlineClear,
+  offlineDelete,
+  offlineGet,
+  offlineGetAll,
+  offlineSet,
+} from './offline-db';
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let seqCounter = 0;
+
+/**
+ * Whether the browser reports no connectivity
+ */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/**
+ * Generate a unique outbox entry ID
+ */
+function generateEntryId(): string {
+  return `outbox-${Date.now()}-${++seqCounter}`;
+}
+
+/**
+ * Notify subscribers with the current outbox contents
+ */
+async function emitChange(): Promise<void> {
+  if (listeners.size === 0) return;
+  const entries = await listOutbox();
+  listeners.forEach((listener) => listener(entries));
+}
+
+/**
+ * Subscribe to outbox changes. Returns an unsubscribe function.
+ */
+export function subscribeOutbox(listener: OutboxListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * List all outbox entries in replay order
+ */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await offlineGetAll<OutboxEntry>('outbox');
+  return entries.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Add a mutation to the outbox
+ */
+export async function enqueueMutation(request: {
+  endpoint: string;
+  method: HttpMethod;
+  body?: unknown;
+  label: string;
+  idempotencyKey?: string;
+  userId?: string;
+}): Promise<OutboxEntry> {
+  const existing = await listOutbox();
+  const lastSeq = existing.length > 0 ? existing[existing.length - 1]!.seq : 0;
+
+  const entry: OutboxEntry = {
+    id: generateEntryId(),
+    seq: lastSeq + 1,
+    endpoint: request.endpoint,
+    method: request.method,
+    body: request.body,
+    label: request.label,
+    idempotencyKey: request.idempotencyKey,
+    userId: request.userId,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+
+  await offlineSet('outbox', entry.id, entry);
+  await emitChange();
+  return entry;
+}
+
+/**
+ * Update the status of an outbox entry
+ */
+export async function updateOutboxEntry(
+  id: string,
+  updates: { status: OutboxStatus; error?: AppError; attempted?: boolean }
+): Promise<void> {
+  const entry = await offlineGet<OutboxEntry>('outbox', id);
+  if (!entry) return;
+
+  const updated: OutboxEntry = {
+    ...entry,
+    status: updates.status,
+    error: updates.error,
+    attempts: updates.attempted ? entry.attempts + 1 : entry.attempts,
+    lastAttemptAt: updates.attempted
+      ? new Date().toISOString()
+      : entry.lastAttemptAt,
+  };
+
+  await offlineSet('outbox', id, updated);
+  await emitChange();
+}
+
+/**
+ * Remove an entry (synced or discarded)
+ */
+export async function removeOutboxEntry(id: string): Promise<void> {
+  await offlineDelete('outbox', id);
+  await emitChange();
+}
+
+/**
+ * Build the error thrown to callers when a mutation was queued
+ */
+export function createQueuedError(entry: OutboxEntry): AppError {
+  return {
+    message: 'Saved offline. It will sync when the connection returns.',
+    code: ERROR_CODES.OFFLINE_QUEUED,
+    details: { entryId: entry.id },
+  };
+}
+
+/**
+ * Check whether an error means "queued for later sync" rather than failed
+ */
+export function isQueuedOffline(error: unknown): boolean {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    (error as AppError).code === ERROR_CODES.OFFLINE_QUEUED
+  );
+}
+
+// ============================================
+// Read cache
+// ============================================
+
+/**
+ * Store the latest successful GET response for an endpoint
+ */
+export async function cacheResponse(
+  endpoint: string,
+  data: unknown
+): Promise<void> {
+  const cached: CachedResponse = {
+    endpoint,
+    data,
+    cachedAt: new Date().toISOString(),
+  };
+  try {
+    await offlineSet('responses', endpoint, cached);
+  } catch (error) {
+    // Cache writes are best-effort (quota, non-cloneable data)
+    console.warn('Could not cache response:', error);
+  }
+}
+
+/**
+ * Get the last cached GET response for an endpoint
+ */
+export async function getCachedResponse<T>(
+  endpoint: string
+): Promise<CachedResponse<T> | undefined> {
+  try {
+    return await offlineGet<CachedResponse<T>>('responses', endpoint);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Drop all cached responses (on logout, so the next user starts clean)
+ */
+export async function clearResponseCache(): Promise<void> {
+  await offlineClear('responses');
+}
@@ -0,0 +1,98 @@
+/**
+ * Product code helpers: GS1 barcodes (GTIN/EAN/UPC) and SKU patterns.
+ *
+ * Shared by the item forms and the mock backend, which validates and
+ * generates codes the same way the real backend does.
+ */
+
+// ── GTIN / EAN / UPC ─────────────────────────────────────
+
+export type GtinType = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+const GTIN_TYPES: Record<number, GtinType> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14',
+};
+
+/**
+ * GS1 mod-10 check digit for the digits before it
+ */
+export function gtinCheckDigit(body: string): number {
+  const sum = body
+    .split('')
+    .reverse()
+    .reduce((total, digit, i) => total + Number(digit) * (i % 2 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * EAN-8, UPC-A, EAN-13 or GTIN-14 (by length), or null when the code
+ * isn't all digits, has another length, or its check digit is wrong
+ */
+export function getGtinType(code: string): GtinType | null {
+  const type = GTIN_TYPES[code.length];
+  if (!type || !/^\d+$/.test(code)) return null;
+  return gtinCheckDigit(code.slice(0, -1)) === Number(code.slice(-1))
+    ? type
+    : null;
+}
+
+export function isValidGtin(code: string): boolean {
+  return getGtinType(code) !== null;
+}
+
+/**
+ * Compare GTINs regardless of length: a UPC-A and the EAN-13 with a
+ * leading zero are the same product
+ */
+export function normalizeGtin(code: string): string {
+  return code.padStart(14, '0');
+}
+
+/**
+ * The code as printable EAN-13 (UPC-A gets a leading zero), or null for
+ * codes EAN-13 can't carry
+ */
+export function toEan13(code: string): string | null {
+  const type = getGtinType(code);
+  if (type === 'EAN-13') return code;
+  if (type === 'UPC-A') return `0${code}`;
+  return null;
+}
+
+// ── SKU patterns ─────────────────────────────────────────
+
+/**
+ * Tokens: {seq} or {seq:5} (running number, zero-padded), {yyyy}, {yy},
+ * {name} (first three letters/digits of the item name)
+ */
+export const DEFAULT_SKU_PATTERN = 'SKU-{seq:5}';
+
+const SEQUENCE_TOKEN = /\{seq(?::(\d))?\}/;
+
+/**
+ * A pattern must include the running number, or SKUs would repeat
+ */
+export function isValidSkuPattern(pattern: string): boolean {
+  return SEQUENCE_TOKEN.test(pattern) && pattern.length <= 40;
+}
+
+export function formatSku(
+  pattern: string,
+  values: { sequence: number; name?: string; date?: Date }
+): string {
+  const date = values.date ?? new Date();
+  const namePart = (values.name ?? '')
+    .replace(/[^a-z0-9]/gi, '')
+    .slice(0, 3)
+    .toUpperCase();
+  return pattern
+    .replace(new RegExp(SEQUENCE_TOKEN, 'g'), (_match, width?: string) =>
+      String(values.sequence).padStart(Number(width ?? 0), '0')
+    )
+    .replace(/\{yyyy\}/g, String(date.getUTCFullYear()))
+    .replace(/\{yy\}/g, String(date.getUTCFullYear()).slice(-2))
+    .replace(/\{name\}/g, namePart || 'ITM');
+}
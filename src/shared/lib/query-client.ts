@@ -0,0 +1,244 @@
+/**
+ * Query Client
+ *
+ * Central read cache on top of apiClient.
+ *
+ * Features:
+ * - Keyed caching: every read is stored under [scope, ...params]
+ * - Deduplication: concurrent identical reads share one request
+ * - Stale-while-revalidate: data older than its stale time is returned
+ *   immediately and refreshed in the background
+ * - Mutation-driven invalidation: writes mark related scopes invalid so
+ *   the next read waits for fresh data (see INVALIDATION_RULES)
+ *
+ * Subscribers (see create-query.ts) are notified when a scope is
+ * invalidated or refreshed in the background so mounted views update.
+ */
+
+import { apiClient } from './api-client';
+import type { RequestConfig } from '../types/api.types';
+import { parseResponse } from './contract';
+
+/**
+ * Top-level cache scopes. Invalidation always works on whole scopes.
+ */
+export type QueryScope =
+  | 'items'
+  | 'itemMeta'
+  | 'transactions'
+  | 'imports'
+  | 'transfers'
+  | 'stocktakes'
+  | 'partners'
+  | 'storehouses'
+  | 'analytics'
+  | 'roles'
+  | 'users'
+  | 'business';
+
+export type QueryKey = readonly [QueryScope, ...unknown[]];
+
+export interface QueryOptions {
+  /** How long (ms) data is served without revalidation. Default 30s. */
+  staleTime?: number;
+}
+
+/** Receives every scope invalidated or refreshed since the last call */
+type QueryListener = (scopes: ReadonlySet<QueryScope>) => void;
+
+interface CacheEntry {
+  key: QueryKey;
+  data?: unknown;
+  hasData: boolean;
+  updatedAt: number;
+  /** Set by a mutation — next read must wait for the network */
+  invalidated: boolean;
+  /** Bumped on invalidation so in-flight results from before it are dropped */
+  generation: number;
+  promise?: Promise<unknown>;
+}
+
+const DEFAULT_STALE_TIME = 30_000;
+
+/**
+ * Which scopes a write to a given scope affects.
+ * Stock-moving writes (orders, imports, transfers, stocktakes) also touch
+ * items, which in turn drive low-stock stats and analytics.
+ */
+export const INVALIDATION_RULES: Record<QueryScope, QueryScope[]> = {
+  items: ['items', 'itemMeta', 'analytics'],
+  itemMeta: ['itemMeta'],
+  transactions: ['transactions', 'items', 'partners', 'analytics'],
+  imports: ['imports', 'items', 'partners', 'analytics'],
+  transfers: ['transfers', 'items', 'analytics'],
+  stocktakes: ['stocktakes', 'items', 'analytics'],
+  partners: ['partners', 'transactions', 'imports'],
+  storehouses: ['storehouses', 'items', 'analytics'],
+  analytics: ['analytics'],
+  roles: ['roles', 'users'],
+  users: ['users'],
+  // Reorder suggestions follow the business's reorder settings, stock
+  // values and profit figures its costing method
+  business: ['business', 'items', 'analytics'],
+};
+
+const cache = new Map<string, CacheEntry>();
+const listeners = new Set<QueryListener>();
+
+// Scopes changed in the current tick — delivered together so a mutation
+// touching several scopes causes one refresh per subscriber
+const pendingScopes = new Set<QueryScope>();
+
+/**
+ * Stable string hash for a key
+ */
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function emit(scope: QueryScope): void {
+  if (pendingScopes.size === 0) {
+    queueMicrotask(() => {
+      const scopes = new Set(pendingScopes);
+      pendingScopes.clear();
+      listeners.forEach((listener) => listener(scopes));
+    });
+  }
+  pendingScopes.add(scope);
+}
+
+/**
+ * Run the fetcher for an entry (single-flight per key)
+ */
+function runFetch<T>(entry: CacheEntry, fetcher: () => Promise<T>): Promise<T> {
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const generation = entry.generation;
+  const promise = fetcher()
+    .then((data) => {
+      if (entry.generation !== generation) return data;
+      entry.data = data;
+      entry.hasData = true;
+      entry.updatedAt = Date.now();
+      entry.invalidated = false;
+      return data;
+    })
+    .finally(() => {
+      if (entry.promise === promise) entry.promise = undefined;
+    });
+
+  entry.promise = promise;
+  return promise;
+}
+
+/**
+ * Read through the cache.
+ *
+ * - Fresh data → returned from cache
+ * - Stale data → returned from cache, refreshed in the background
+ * - Missing or invalidated → fetched (shared with concurrent callers)
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: QueryOptions = {}
+): Promise<T> {
+  const hash = hashKey(key);
+  let entry = cache.get(hash);
+  if (!entry) {
+    entry = {
+      key,
+      hasData: false,
+      updatedAt: 0,
+      invalidated: false,
+      generation: 0,
+    };
+    cache.set(hash, entry);
+  }
+
+  if (entry.hasData && !entry.invalidated) {
+    const staleTime = options.staleTime ?? DEFAULT_STALE_TIME;
+    const isStale = Date.now() - entry.updatedAt > staleTime;
+
+    if (isStale && !entry.promise) {
+      runFetch(entry, fetcher)
+        .then(() => emit(key[0]))
+        .catch(() => {
+          // Keep serving the stale value; the next read retries
+        });
+    }
+    return Promise.resolve(entry.data as T);
+  }
+
+  return runFetch(entry, fetcher);
+}
+
+/**
+ * Cached GET through apiClient, keyed by scope and endpoint.
+ * The raw payload is cached; `schema` is applied on every read so callers
+ * sharing an endpoint can validate it against different schemas.
+ */
+export async function queryGet<T>(
+  scope: QueryScope,
+  endpoint: string,
+  options?: QueryOptions & Omit<RequestConfig<T>, 'method' | 'body'>
+): Promise<T> {
+  const { staleTime, schema, ...config } = options ?? {};
+  const data = await fetchQuery(
+    [scope, endpoint],
+    () => apiClient.get<unknown>(endpoint, config),
+    {
+      staleTime,
+    }
+  );
+  return schema ? parseResponse(schema, data, `GET ${endpoint}`) : (data as T);
+}
+
+/**
+ * Read cached data without fetching
+ */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return cache.get(hashKey(key))?.data as T | undefined;
+}
+
+/**
+ * Mark every entry in the given scopes as invalid and notify subscribers.
+ * With no scopes, invalidates everything.
+ */
+export function invalidateQueries(scopes?: QueryScope[]): void {
+  const affected = new Set<QueryScope>();
+
+  cache.forEach((entry) => {
+    if (!scopes || scopes.includes(entry.key[0])) {
+      entry.invalidated = true;
+      entry.generation++;
+      entry.promise = undefined;
+      affected.add(entry.key[0]);
+    }
+  });
+  (scopes ?? []).forEach((scope) => affected.add(scope));
+
+  affected.forEach((scope) => emit(scope));
+}
+
+/**
+ * Invalidate everything a successful write to `scope` affects
+ */
+export function invalidateAfterMutation(scope: QueryScope): void {
+  invalidateQueries(INVALIDATION_RULES[scope]);
+}
+
+/**
+ * Subscribe to invalidation/refresh events. Returns an unsubscribe function.
+ */
+export function subscribeQueries(listener: QueryListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Drop the whole cache (on logout)
+ */
+export function clearQueryCache(): void {
+  cache.clear();
+}
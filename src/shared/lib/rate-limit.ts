@@ -0,0 +1,153 @@
+/**
+ * Rate Limiting & Retry Policy
+ *
+ * Keeps the client under the plan's `apiRequestsPerMinute` and decides how
+ * long to wait before retrying a throttled or temporarily failing request.
+ *
+ * - Token bucket sized from the current UsageSummary (unlimited until known)
+ * - Exponential backoff with jitter for retryable failures
+ * - `Retry-After` (seconds or HTTP date) takes precedence when present
+ * - One "slowing down" notice at a time instead of error toasts
+ */
+
+import { notificationStore } from '@/shared/stores/notification.store';
+
+/** Attempts after the first one before giving up */
+export const MAX_RETRIES = 3;
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+const MAX_RETRY_AFTER_MS = 60000;
+const NOTICE_DURATION_MS = 5000;
+
+/** GETs are safe to resend after these (the request may have been processed) */
+const RETRYABLE_READ_STATUSES = [502, 503, 504];
+
+// ============================================
+// Token bucket
+// ============================================
+
+let capacity = Infinity;
+let tokens = Infinity;
+let refillPerMs = 0;
+let lastRefill = Date.now();
+
+function refill(): void {
+  const now = Date.now();
+  tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+  lastRefill = now;
+}
+
+/**
+ * Size the bucket from the plan limit. `null` removes client-side limiting.
+ */
+export function setRequestRate(perMinute: number | null): void {
+  if (!perMinute || perMinute <= 0) {
+    capacity = Infinity;
+    tokens = Infinity;
+    refillPerMs = 0;
+    return;
+  }
+
+  refill();
+  capacity = perMinute;
+  tokens = Math.min(tokens, capacity);
+  refillPerMs = perMinute / 60000;
+  lastRefill = Date.now();
+}
+
+/**
+ * Take one token, waiting for the bucket to refill if it is empty.
+ * Tokens are reserved up front so concurrent callers queue fairly.
+ */
+export async function acquireRequestToken(signal?: AbortSignal): Promise<void> {
+  if (capacity === Infinity) return;
+
+  refill();
+  tokens -= 1;
+  if (tokens >= 0) return;
+
+  notifySlowingDown();
+  try {
+    await sleep(-tokens / refillPerMs, signal);
+  } catch (error) {
+    // Give the reservation back so aborted requests don't delay others
+    tokens += 1;
+    throw error;
+  }
+}
+
+// ============================================
+// Retry decisions
+// ============================================
+
+/**
+ * Whether a failed response may be retried.
+ * 429 means the request was rejected unprocessed, so any method is safe.
+ */
+export function isRetryableStatus(status: number, method: string): boolean {
+  if (status === 429) return true;
+  return method === 'GET' && RETRYABLE_READ_STATUSES.includes(status);
+}
+
+/**
+ * Parse a `Retry-After` header into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), MAX_RETRY_AFTER_MS);
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.min(Math.max(0, date - Date.now()), MAX_RETRY_AFTER_MS);
+}
+
+/**
+ * Exponential backoff with equal jitter for the given retry (0-based)
+ */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Wait `ms`, rejecting with an AbortError if the signal fires first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// ============================================
+// User notice
+// ============================================
+
+let lastNoticeAt = 0;
+
+/**
+ * Tell the user requests are being paced (deduplicated while visible)
+ */
+export function notifySlowingDown(): void {
+  const now = Date.now();
+  if (now - lastNoticeAt < NOTICE_DURATION_MS) return;
+  lastNoticeAt = now;
+
+  notificationStore.warning(
+    'Lots of requests right now — slowing down briefly to stay within your plan.',
+    { title: 'Slowing down', duration: NOTICE_DURATION_MS }
+  );
+}
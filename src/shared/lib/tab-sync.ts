@@ -0,0 +1,78 @@
+/**
+ * Tab Sync
+ *
+ * Keeps every open tab of the app in agreement about the session.
+ *
+ * - BroadcastChannel messages for logout, refreshed access tokens,
+ *   permission changes, saved business settings and the idle screen lock
+ * - A cross-tab lock (Web Locks API) so only one tab calls /auth/refresh
+ *   at a time; the others pick up the token it broadcasts
+ *
+ * Browsers without BroadcastChannel / navigator.locks simply behave like
+ * independent tabs, as before.
+ */
+
+import type { ResolvedPermissions } from '@/shared/api/roles.api';
+import type { Business } from '@/shared/api/business.api';
+
+const CHANNEL_NAME = 'store-manager-session';
+
+export type TabMessage =
+  | { type: 'logout' }
+  | { type: 'token'; accessToken: string }
+  | { type: 'permissions'; permissions: ResolvedPermissions | null }
+  | { type: 'business'; business: Business }
+  | { type: 'idle-lock'; userId: string; locked: boolean };
+
+type TabMessageType = TabMessage['type'];
+type TabMessageHandler<K extends TabMessageType> = (
+  message: Extract<TabMessage, { type: K }>
+) => void;
+
+const handlers = new Map<TabMessageType, Set<(message: TabMessage) => void>>();
+let channel: BroadcastChannel | null = null;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel) return channel;
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    const message = event.data;
+    handlers.get(message?.type)?.forEach((handler) => handler(message));
+  };
+  return channel;
+}
+
+/**
+ * Tell the other tabs (never delivered to this one)
+ */
+export function broadcastToTabs(message: TabMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+/**
+ * Handle a message type sent by other tabs. Returns an unsubscribe function.
+ */
+export function onTabMessage<K extends TabMessageType>(
+  type: K,
+  handler: TabMessageHandler<K>
+): () => void {
+  getChannel();
+  const set = handlers.get(type) ?? new Set();
+  const wrapped = handler as (message: TabMessage) => void;
+  set.add(wrapped);
+  handlers.set(type, set);
+  return () => set.delete(wrapped);
+}
+
+/**
+ * Run `task` while holding a lock shared by all tabs of this origin
+ */
+export async function withTabLock<T>(
+  name: string,
+  task: () => Promise<T>
+): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return task();
+  return navigator.locks.request(name, task);
+}
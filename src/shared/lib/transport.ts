@@ -0,0 +1,194 @@
+/**
+ * HTTP Transport
+ *
+ * The single place requests and event streams leave the app. With
+ * VITE_USE_MOCK_API=true they are answered by the in-process mock server
+ * instead of the network; the mock is loaded lazily so it stays out of
+ * production bundles.
+ *
+ * Uploads that report progress go over XMLHttpRequest, the rest over fetch.
+ * Event streams are read over fetch too, so they can send the access token.
+ */
+
+import { USE_MOCK_API } from './mock-data';
+
+/**
+ * Bytes sent so far of a request body, and its total size
+ */
+export type UploadProgressHandler = (loaded: number, total: number) => void;
+
+export async function transportFetch(
+  url: string,
+  init: RequestInit = {},
+  onUploadProgress?: UploadProgressHandler
+): Promise<Response> {
+  if (USE_MOCK_API) {
+    const { mockFetch } = await import('../mock/server');
+    return mockFetch(url, init, onUploadProgress);
+  }
+  if (onUploadProgress) return xhrFetch(url, init, onUploadProgress);
+  return fetch(url, init);
+}
+
+/**
+ * fetch() can't report upload progress, XMLHttpRequest can. Settles like
+ * fetch: a Response for any HTTP status, TypeError when the network fails,
+ * AbortError when the signal fires.
+ */
+function xhrFetch(
+  url: string,
+  init: RequestInit,
+  onUploadProgress: UploadProgressHandler
+): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+
+    xhr.open(init.method ?? 'GET', url);
+    xhr.withCredentials = init.credentials === 'include';
+    xhr.responseType = 'blob';
+    new Headers(init.headers).forEach((value, key) =>
+      xhr.setRequestHeader(key, value)
+    );
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onUploadProgress(e.loaded, e.total);
+    };
+    xhr.onload = () => {
+      init.signal?.removeEventListener('abort', abort);
+      const headers = new Headers();
+      for (const line of xhr.getAllResponseHeaders().trim().split(/\r?\n/)) {
+        const index = line.indexOf(':');
+        if (index > 0) {
+          headers.append(
+            line.slice(0, index).trim(),
+            line.slice(index + 1).trim()
+          );
+        }
+      }
+      resolve(
+        new Response(xhr.status === 204 ? null : (xhr.response as Blob), {
+          status: xhr.status,
+          headers,
+        })
+      );
+    };
+    xhr.onerror = () => {
+      init.signal?.removeEventListener('abort', abort);
+      reject(new TypeError('Failed to fetch'));
+    };
+    xhr.onabort = () =>
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+
+    if (init.signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    init.signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(init.body as XMLHttpRequestBodyInit | null | undefined);
+  });
+}
+
+/** EventSource's readyState values */
+export const STREAM_CONNECTING = 0;
+export const STREAM_OPEN = 1;
+export const STREAM_CLOSED = 2;
+
+/**
+ * The part of EventSource the realtime store relies on
+ */
+export interface EventStream {
+  /** STREAM_CLOSED once the stream has given up for good */
+  readonly readyState: number;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent<string>) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  close(): void;
+}
+
+/**
+ * Server-sent events read over fetch. Unlike EventSource it can send an
+ * Authorization header. An HTTP error or a dropped connection closes it
+ * for good (one `onerror`); reconnecting is up to the caller.
+ */
+class FetchEventStream implements EventStream {
+  readyState = STREAM_CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  private readonly controller = new AbortController();
+
+  constructor(url: string, headers: Record<string, string>) {
+    void this.read(url, headers);
+  }
+
+  private async read(
+    url: string,
+    headers: Record<string, string>
+  ): Promise<void> {
+    try {
+      const response = await fetch(url, {
+        headers: { Accept: 'text/event-stream', ...headers },
+        credentials: 'include',
+        signal: this.controller.signal,
+      });
+      if (!response.ok || !response.body) return;
+
+      this.readyState = STREAM_OPEN;
+      this.onopen?.(new Event('open'));
+      const reader = response.body
+        .pipeThrough(new TextDecoderStream())
+        .getReader();
+      let buffer = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        // Events are separated by a blank line
+        const frames = (buffer + value).split(/\r?\n\r?\n/);
+        buffer = frames.pop() ?? '';
+        frames.forEach((frame) => this.dispatch(frame));
+      }
+    } catch {
+      // Network failure or close()
+    } finally {
+      if (this.readyState !== STREAM_CLOSED) {
+        this.readyState = STREAM_CLOSED;
+        this.onerror?.(new Event('error'));
+      }
+    }
+  }
+
+  private dispatch(frame: string): void {
+    const data: string[] = [];
+    let lastEventId = '';
+    for (const line of frame.split(/\r?\n/)) {
+      if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+      else if (line.startsWith('id:')) lastEventId = line.slice(3).trim();
+    }
+    if (data.length === 0) return;
+    this.onmessage?.(
+      new MessageEvent('message', { data: data.join('\n'), lastEventId })
+    );
+  }
+
+  close(): void {
+    this.readyState = STREAM_CLOSED;
+    this.controller.abort();
+  }
+}
+
+/**
+ * Open a server-sent event stream (null when the browser can't read
+ * response bodies as streams)
+ */
+export async function openEventStream(
+  url: string,
+  headers: Record<string, string> = {}
+): Promise<EventStream | null> {
+  if (USE_MOCK_API) {
+    const { MockEventSource } = await import('../mock/events');
+    return new MockEventSource(url, headers);
+  }
+  if (typeof TextDecoderStream === 'undefined') return null;
+  return new FetchEventStream(url, headers);
+}
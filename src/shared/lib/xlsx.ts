@@ -0,0 +1,378 @@
+/**
+ * XLSX import/export utilities
+ *
+ * Reads the first worksheet of an .xlsx workbook into rows of cells, as
+ * text, and writes single-sheet workbooks. An .xlsx file is a zip of XML
+ * parts: the zip is unpacked with the browser's DecompressionStream and
+ * the parts are read with DOMParser, so no spreadsheet library is needed
+ * for plain tabular data. Formulas come through as their cached values;
+ * styling and dates-as-serials are not interpreted. Written workbooks are
+ * stored uncompressed, with a bold header row.
+ */
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+
+function readZipDirectory(view: DataView): Map<string, ZipEntry> {
+  // The end record sits in the last 22 bytes, plus an optional comment
+  let end = view.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) {
+    end--;
+  }
+  if (end < 0) throw new Error('Not an XLSX file');
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(
+      new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength)
+    );
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(view: DataView, entry: ZipEntry): Promise<string> {
+  const header = entry.localHeaderOffset;
+  const dataStart =
+    header +
+    30 +
+    view.getUint16(header + 26, true) +
+    view.getUint16(header + 28, true);
+  const data = new Uint8Array(
+    view.buffer,
+    view.byteOffset + dataStart,
+    entry.compressedSize
+  );
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error('Unsupported XLSX compression');
+
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+/** Text of a string item, including rich-text runs */
+function stringItemText(element: Element): string {
+  return Array.from(element.getElementsByTagName('t'))
+    .map((t) => t.textContent ?? '')
+    .join('');
+}
+
+/** "C12" → 2 (zero-based column) */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + letter.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+/**
+ * Path of the first worksheet, following the workbook relationships
+ */
+async function firstSheetPath(
+  view: DataView,
+  entries: Map<string, ZipEntry>
+): Promise<string> {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+  if (workbook && rels) {
+    const sheet = parseXml(await readZipText(view, workbook))
+      .getElementsByTagName('sheet')
+      .item(0);
+    const relId = sheet?.getAttribute('r:id');
+    const target = Array.from(
+      parseXml(await readZipText(view, rels)).getElementsByTagName(
+        'Relationship'
+      )
+    )
+      .find((rel) => rel.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+    if (target) {
+      return target.startsWith('/')
+        ? target.slice(1)
+        : `xl/${target.replace(/^\.\//, '')}`;
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Rows of the first worksheet as text cells. Blank rows are dropped.
+ */
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const view = new DataView(buffer);
+  const entries = readZipDirectory(view);
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(
+        parseXml(
+          await readZipText(view, sharedStringsEntry)
+        ).getElementsByTagName('si')
+      ).map(stringItemText)
+    : [];
+
+  const sheetEntry = entries.get(await firstSheetPath(view, entries));
+  if (!sheetEntry) throw new Error('The workbook has no worksheet');
+  const sheet = parseXml(await readZipText(view, sheetEntry));
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(sheet.getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cell of Array.from(rowElement.getElementsByTagName('c'))) {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = cell.getAttribute('t');
+      const raw = cell.getElementsByTagName('v').item(0)?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') value = sharedStrings[Number(raw)] ?? '';
+      else if (type === 'inlineStr') value = stringItemText(cell);
+      else if (type === 'b') value = raw === '1' ? 'TRUE' : 'FALSE';
+      else value = raw;
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    if (row.some((value) => value.trim() !== '')) rows.push(row);
+  }
+  return rows;
+}
+
+// ── Writing ──────────────────────────────────────────
+
+export type XlsxCell = string | number | null | undefined;
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Zip archive of uncompressed ("stored") files
+ */
+function writeZip(files: Array<{ name: string; text: string }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = files.map((file) => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.text);
+    return { name, data, crc: crc32(data), offset: 0 };
+  });
+
+  const size =
+    entries.reduce(
+      (total, e) => total + 30 + 46 + e.name.length * 2 + e.data.length,
+      0
+    ) + 22;
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+
+  // Fields shared by the local header (from byte 4) and the central entry (from byte 6)
+  const writeCommon = (at: number, entry: (typeof entries)[number]) => {
+    view.setUint16(at, 20, true); // Version needed
+    view.setUint16(at + 2, 0x0800, true); // UTF-8 names
+    view.setUint16(at + 4, 0, true); // Stored
+    view.setUint32(at + 6, 0, true); // DOS time/date
+    view.setUint32(at + 10, entry.crc, true);
+    view.setUint32(at + 14, entry.data.length, true);
+    view.setUint32(at + 18, entry.data.length, true);
+    view.setUint16(at + 22, entry.name.length, true);
+  };
+
+  for (const entry of entries) {
+    entry.offset = offset;
+    view.setUint32(offset, LOCAL_FILE_HEADER, true);
+    writeCommon(offset + 4, entry);
+    bytes.set(entry.name, offset + 30);
+    bytes.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  const directoryStart = offset;
+  for (const entry of entries) {
+    view.setUint32(offset, CENTRAL_DIRECTORY_ENTRY, true);
+    view.setUint16(offset + 4, 20, true); // Version made by
+    writeCommon(offset + 6, entry);
+    view.setUint32(offset + 42, entry.offset, true);
+    bytes.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  }
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY, true);
+  view.setUint16(offset + 8, entries.length, true);
+  view.setUint16(offset + 10, entries.length, true);
+  view.setUint32(offset + 12, offset - directoryStart, true);
+  view.setUint32(offset + 16, directoryStart, true);
+  return bytes;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+/** 2 → "C" */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NS =
+  'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS =
+  'http://schemas.openxmlformats.org/package/2006/relationships';
+
+function sheetXml(rows: XlsxCell[][]): string {
+  // reduce, not Math.max(...): spreading a large export overflows the stack
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(
+      60,
+      rows.reduce(
+        (max, row) => Math.max(max, String(row[column] ?? '').length + 2),
+        8
+      )
+    )
+  );
+
+  const rowsXml = rows
+    .map((row, rowIndex) => {
+      const style = rowIndex === 0 ? ' s="1"' : '';
+      const cells = row
+        .map((value, column) => {
+          if (value === null || value === undefined || value === '') return '';
+          const ref = `${columnName(column)}${rowIndex + 1}`;
+          return typeof value === 'number' && Number.isFinite(value)
+            ? `<c r="${ref}"${style}><v>${value}</v></c>`
+            : `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  const cols = widths
+    .map(
+      (width, column) =>
+        `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`
+    )
+    .join('');
+
+  return (
+    `${XML_HEADER}<worksheet xmlns="${SPREADSHEET_NS}">` +
+    // Keep the header row visible while scrolling
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${rowsXml}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Single-sheet workbook. The first row is the header and is set in bold;
+ * numbers are written as numeric cells, everything else as text.
+ */
+export function toXlsx(rows: XlsxCell[][], sheetName = 'Sheet1'): Blob {
+  // Sheet names are at most 31 characters and exclude []:*?/\
+  const name = escapeXml(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  const files = [
+    {
+      name: '[Content_Types].xml',
+      text:
+        `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      text:
+        `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      text:
+        `${XML_HEADER}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+        `<sheets><sheet name="${name || 'Sheet1'}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      text:
+        `${XML_HEADER}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+        `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+        `<Relationship Id="rId2" Type="${RELATIONSHIP_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/styles.xml',
+      text:
+        `${XML_HEADER}<styleSheet xmlns="${SPREADSHEET_NS}">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+        '</styleSheet>',
+    },
+    { name: 'xl/worksheets/sheet1.xml', text: sheetXml(rows) },
+  ];
+
+  return new Blob([writeZip(files).slice()], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
+}
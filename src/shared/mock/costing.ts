@@ -0,0 +1,382 @@
+/**
+ * Inventory costing (mirrors the backend's cost layers)
+ *
+ * The stock movement ledger is replayed into cost layers per item and
+ * storehouse. A receipt adds a layer at the import line's unit price;
+ * deliveries, write-offs and transfers out consume layers oldest first
+ * (FIFO), or at the running average when the business uses the moving
+ * weighted average. Transfers carry their cost to the destination, kits
+ * are assembled at the cost of their components and a cancelled delivery
+ * comes back at the cost it left with. Stock arriving
+ * any other way (opening balances, counts, edits) comes in at the
+ * location's current cost, else the item's last received cost, else its
+ * cost price.
+ *
+ * Each movement is costed with the method in effect when it was recorded.
+ * Switching to the average merges the layers from that point on; figures
+ * from before a switch are never re-costed.
+ */
+
+import {
+  findItem,
+  getDb,
+  nowIso,
+  type MockCostingMethod,
+  type MockLine,
+  type MockStockMovement,
+} from './mock-db';
+
+interface CostLayer {
+  quantity: number;
+  unitCost: number;
+}
+
+/** Stock of one item at one storehouse */
+interface CostStack {
+  layers: CostLayer[];
+  /** Units taken beyond the layers (already costed), repaid first */
+  owed: number;
+}
+
+export interface Costing {
+  method: MockCostingMethod;
+  /** By stackKey() */
+  stacks: Map<string, CostStack>;
+  /** What delivered sale lines cost, by saleLineKey() */
+  sold: Map<string, { quantity: number; cost: number }>;
+  /** Unit cost of each item's latest receipt */
+  lastCost: Map<string, number>;
+}
+
+export interface CostedStock {
+  itemId: string;
+  storeHouse: string;
+  quantity: number;
+  value: number;
+}
+
+const stackKey = (itemId: string, storeHouse: string) =>
+  `${itemId}:${storeHouse}`;
+
+// Components delivered in kits are kept apart from the sale's own lines
+const saleLineKey = (
+  saleId: string,
+  itemId: string,
+  storeHouse: string,
+  inKit = false
+) => `${inKit ? 'kit:' : ''}${saleId}:${itemId}:${storeHouse}`;
+
+const quantityOf = (layers: CostLayer[]) =>
+  layers.reduce((sum, layer) => sum + layer.quantity, 0);
+
+const valueOf = (layers: CostLayer[]) =>
+  layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+
+/** Below this, a fractional remainder is rounding noise */
+const EPSILON = 1e-9;
+
+function stackOf(
+  costing: Costing,
+  itemId: string,
+  storeHouse: string
+): CostStack {
+  const key = stackKey(itemId, storeHouse);
+  let stack = costing.stacks.get(key);
+  if (!stack) {
+    stack = { layers: [], owed: 0 };
+    costing.stacks.set(key, stack);
+  }
+  return stack;
+}
+
+/**
+ * Unit cost of stock that has no cost of its own
+ */
+function fallbackCost(
+  costing: Costing,
+  itemId: string,
+  stack?: CostStack
+): number {
+  const quantity = stack ? quantityOf(stack.layers) : 0;
+  if (stack && quantity > EPSILON) return valueOf(stack.layers) / quantity;
+  return costing.lastCost.get(itemId) ?? findItem(itemId)?.unitPrice ?? 0;
+}
+
+/**
+ * Add stock to a stack. Units owed are repaid first; average costing
+ * keeps a single merged layer.
+ */
+function put(costing: Costing, stack: CostStack, layers: CostLayer[]): void {
+  for (const layer of layers) {
+    const repaid = Math.min(stack.owed, layer.quantity);
+    stack.owed -= repaid;
+    if (layer.quantity - repaid > EPSILON) {
+      stack.layers.push({
+        quantity: layer.quantity - repaid,
+        unitCost: layer.unitCost,
+      });
+    }
+  }
+  if (costing.method === 'average' && stack.layers.length > 1) {
+    const quantity = quantityOf(stack.layers);
+    stack.layers = [{ quantity, unitCost: valueOf(stack.layers) / quantity }];
+  }
+}
+
+/**
+ * Take stock out of a stack, oldest layer first. Units beyond the layers
+ * are owed and costed like stock without a cost.
+ */
+function take(
+  costing: Costing,
+  itemId: string,
+  stack: CostStack,
+  quantity: number
+): CostLayer[] {
+  const fallback = fallbackCost(costing, itemId, stack);
+  const taken: CostLayer[] = [];
+  let left = quantity;
+  while (left > EPSILON && stack.layers.length > 0) {
+    const layer = stack.layers[0]!;
+    const used = Math.min(layer.quantity, left);
+    taken.push({ quantity: used, unitCost: layer.unitCost });
+    left -= used;
+    if (used === layer.quantity) stack.layers.shift();
+    else layer.quantity -= used;
+  }
+  if (left > EPSILON) {
+    stack.owed += left;
+    taken.push({ quantity: left, unitCost: fallback });
+  }
+  return taken;
+}
+
+/**
+ * Unit price paid on the import lines behind a receipt
+ */
+function receiptCost(movement: MockStockMovement): number | undefined {
+  const record = getDb().imports.find((i) => i._id === movement.reference);
+  const lines =
+    record?.item.filter(
+      (line) =>
+        line.itemId === movement.itemId &&
+        line.storeHouse === movement.storeHouse
+    ) ?? [];
+  const quantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  if (!quantity) return undefined;
+  return (
+    lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0) /
+    quantity
+  );
+}
+
+/**
+ * Continue with another costing method. The average starts from what the
+ * layers are worth at the switch.
+ */
+function useMethod(costing: Costing, method: MockCostingMethod): void {
+  if (costing.method === method) return;
+  costing.method = method;
+  if (method !== 'average') return;
+  costing.stacks.forEach((stack) => {
+    const quantity = quantityOf(stack.layers);
+    if (stack.layers.length > 1) {
+      stack.layers = [{ quantity, unitCost: valueOf(stack.layers) / quantity }];
+    }
+  });
+}
+
+/**
+ * Cost layers as of `until` (ISO time, default now). Movements are costed
+ * with the method they were recorded under; the result is left in the
+ * method in effect at `until`.
+ */
+export function replayCosts(until?: string): Costing {
+  const db = getDb();
+  const current = db.business.costingMethod;
+  const costing: Costing = {
+    method: current,
+    stacks: new Map(),
+    sold: new Map(),
+    lastCost: new Map(),
+  };
+  const inTransit = new Map<string, CostLayer[]>();
+  // Value of the components used, by assembly
+  const assembling = new Map<string, number>();
+
+  const movements = db.stockMovements
+    .filter((movement) => !until || movement.createdAt <= until)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  costing.method = movements[0]?.costingMethod ?? current;
+  for (const movement of movements) {
+    useMethod(costing, movement.costingMethod ?? current);
+    const { itemId, storeHouse, reference, change } = movement;
+    const stack = stackOf(costing, itemId, storeHouse);
+    const saleKey = saleLineKey(
+      reference ?? '',
+      itemId,
+      storeHouse,
+      movement.reason.startsWith('kit-sale')
+    );
+
+    if (change < 0) {
+      const taken = take(costing, itemId, stack, -change);
+      if (movement.source === 'sale') {
+        const entry = costing.sold.get(saleKey) ?? { quantity: 0, cost: 0 };
+        entry.quantity -= change;
+        entry.cost += valueOf(taken);
+        costing.sold.set(saleKey, entry);
+      } else if (movement.source === 'transfer' && reference) {
+        inTransit.set(reference, taken);
+      } else if (movement.source === 'assembly' && reference) {
+        assembling.set(
+          reference,
+          (assembling.get(reference) ?? 0) + valueOf(taken)
+        );
+      }
+      continue;
+    }
+
+    switch (movement.source) {
+      case 'import': {
+        const unitCost =
+          receiptCost(movement) ?? fallbackCost(costing, itemId, stack);
+        put(costing, stack, [{ quantity: change, unitCost }]);
+        costing.lastCost.set(itemId, unitCost);
+        break;
+      }
+      case 'transfer': {
+        const layers = (reference && inTransit.get(reference)) || [
+          { quantity: change, unitCost: fallbackCost(costing, itemId, stack) },
+        ];
+        put(costing, stack, layers);
+        if (reference) inTransit.delete(reference);
+        break;
+      }
+      case 'assembly': {
+        const value = reference ? assembling.get(reference) : undefined;
+        const unitCost =
+          value === undefined
+            ? fallbackCost(costing, itemId, stack)
+            : value / change;
+        put(costing, stack, [{ quantity: change, unitCost }]);
+        if (reference) assembling.delete(reference);
+        break;
+      }
+      case 'sale': {
+        // A cancelled delivery: back at what it cost when it left
+        const entry = costing.sold.get(saleKey);
+        const unitCost = entry?.quantity
+          ? entry.cost / entry.quantity
+          : fallbackCost(costing, itemId, stack);
+        put(costing, stack, [{ quantity: change, unitCost }]);
+        if (entry) {
+          entry.quantity -= change;
+          entry.cost -= unitCost * change;
+          if (entry.quantity <= EPSILON) costing.sold.delete(saleKey);
+        }
+        break;
+      }
+      default:
+        put(costing, stack, [
+          { quantity: change, unitCost: fallbackCost(costing, itemId, stack) },
+        ]);
+    }
+  }
+  // A switch since the last movement applies from today on
+  const inPast = until !== undefined && until < nowIso();
+  useMethod(
+    costing,
+    inPast ? (movements.at(-1)?.costingMethod ?? current) : current
+  );
+  return costing;
+}
+
+/**
+ * Cost of goods sold for a sale line: what its delivery took out of
+ * stock, or for a sale not delivered yet, what it would take today. Kits
+ * built on delivery cost what their components did.
+ */
+export function saleLineCost(
+  costing: Costing,
+  saleId: string,
+  line: MockLine
+): number {
+  const unitCost = (itemId: string, inKit = false) => {
+    const entry = costing.sold.get(
+      saleLineKey(saleId, itemId, line.storeHouse, inKit)
+    );
+    return entry?.quantity ? entry.cost / entry.quantity : undefined;
+  };
+  if (line.builtFrom) {
+    const built = line.builtFrom.components.reduce(
+      (sum, component) =>
+        sum + (unitCost(component.itemId, true) ?? 0) * component.quantity,
+      0
+    );
+    const held = line.quantity - line.builtFrom.kits;
+    return built + (held > 0 ? (unitCost(line.itemId) ?? 0) * held : 0);
+  }
+  const cost = unitCost(line.itemId);
+  if (cost !== undefined) return cost * line.quantity;
+
+  const stack = costing.stacks.get(stackKey(line.itemId, line.storeHouse));
+  const copy: CostStack = {
+    layers: (stack?.layers ?? []).map((layer) => ({ ...layer })),
+    owed: stack?.owed ?? 0,
+  };
+  return valueOf(take(costing, line.itemId, copy, line.quantity));
+}
+
+/**
+ * Value of `quantity` units of an item held at a storehouse: the newest
+ * layers under FIFO (the oldest went out first), the average otherwise
+ */
+export function heldValue(
+  costing: Costing,
+  itemId: string,
+  storeHouse: string,
+  quantity: number
+): number {
+  const stack = costing.stacks.get(stackKey(itemId, storeHouse));
+  const layers = stack?.layers ?? [];
+  let left = quantity;
+  let value = 0;
+  for (let i = layers.length - 1; i >= 0 && left > EPSILON; i--) {
+    const used = Math.min(layers[i]!.quantity, left);
+    value += used * layers[i]!.unitCost;
+    left -= used;
+  }
+  if (left > EPSILON) value += left * fallbackCost(costing, itemId, stack);
+  return value;
+}
+
+/**
+ * An item's value at cost across its locations
+ */
+export function costedItemValue(
+  costing: Costing,
+  item: { _id: string; stock: Array<{ storeHouse: string; quantity: number }> }
+): number {
+  return item.stock.reduce(
+    (sum, level) =>
+      sum + heldValue(costing, item._id, level.storeHouse, level.quantity),
+    0
+  );
+}
+
+/**
+ * Stock left in the layers, per item and storehouse
+ */
+export function costedStock(costing: Costing): CostedStock[] {
+  return Array.from(costing.stacks, ([key, stack]) => {
+    const [itemId = '', storeHouse = ''] = key.split(':');
+    return {
+      itemId,
+      storeHouse,
+      quantity: quantityOf(stack.layers) - stack.owed,
+      value: valueOf(stack.layers),
+    };
+  }).filter((stock) => stock.quantity > EPSILON);
+}
@@ -0,0 +1,216 @@
+/**
+ * Mock event feed (/events, /events/stream)
+ *
+ * Local stand-in for the backend's change feed. The server publishes an
+ * event for every successful write to items, orders, imports and
+ * transfers; `MockEventSource` delivers them like the app's event stream
+ * (and, like the backend, closes at once without a valid access token)
+ * and GET /events serves them to the polling fallback.
+ *
+ * `simulateColleagueActivity()` makes another business user adjust stock,
+ * so live updates can be tried out with a single browser. Set
+ * VITE_MOCK_ACTIVITY_MS to have it run on an interval while a stream is
+ * open.
+ */
+
+import {
+  STREAM_CLOSED,
+  STREAM_CONNECTING,
+  STREAM_OPEN,
+  type EventStream,
+} from '@/shared/lib/transport';
+import type {
+  RealtimeEntity,
+  RealtimeEvent,
+} from '@/shared/types/realtime.types';
+import { getDb, nowIso, recordStockMovement, type MockUser } from './mock-db';
+import { route, type MockMethod, type MockRoute } from './router';
+
+const MAX_LOG_SIZE = 200;
+const ACTIVITY_INTERVAL = Number(import.meta.env['VITE_MOCK_ACTIVITY_MS']) || 0;
+
+const ENTITY_PATHS: Record<string, RealtimeEntity> = {
+  item: 'item',
+  transaction: 'transaction',
+  import: 'import',
+  transfer: 'transfer',
+};
+
+let log: RealtimeEvent[] = [];
+let nextId = 1;
+const sources = new Set<MockEventSource>();
+let activityTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Forget all events (on re-seed)
+ */
+export function resetMockEvents(): void {
+  log = [];
+  nextId = 1;
+}
+
+/**
+ * Record an event and push it to open streams
+ */
+export function publishMockEvent(
+  event: Omit<RealtimeEvent, 'id' | 'at'>
+): RealtimeEvent {
+  const published: RealtimeEvent = {
+    ...event,
+    id: String(nextId++),
+    at: nowIso(),
+  };
+  log.push(published);
+  if (log.length > MAX_LOG_SIZE) log = log.slice(-MAX_LOG_SIZE);
+
+  sources.forEach((source) => source.deliver(published));
+  return published;
+}
+
+/**
+ * Publish the change events a successful write produced.
+ * Derived from the route (`/transaction/:id/action` → transaction updated)
+ * and the returned record(s).
+ */
+export function publishWriteEvents(
+  method: MockMethod,
+  path: string,
+  params: Record<string, string>,
+  data: unknown,
+  user: MockUser
+): void {
+  const entity = ENTITY_PATHS[path.split('/')[1] ?? ''];
+  if (!entity || method === 'GET') return;
+
+  const action =
+    method === 'POST' ? 'created' : method === 'DELETE' ? 'deleted' : 'updated';
+  const records = Array.isArray(data) ? data : [data];
+  const ids = params['id']
+    ? [params['id']]
+    : records
+        .map((record) =>
+          record && typeof record === 'object' && '_id' in record
+            ? String(record._id)
+            : null
+        )
+        .filter((id): id is string => id !== null);
+
+  ids.forEach((entityId) =>
+    publishMockEvent({
+      entity,
+      action,
+      entityId,
+      actor: { id: user._id, name: user.name },
+    })
+  );
+}
+
+/**
+ * Have another business user adjust an item's stock
+ */
+export function simulateColleagueActivity(): RealtimeEvent | null {
+  const db = getDb();
+  const colleague = db.users.find(
+    (user) => user._id !== db.auth.userId && user.isActive
+  );
+  const item = db.items[Math.floor(Math.random() * db.items.length)];
+  if (!colleague || !item) return null;
+
+  const delta = Math.floor(Math.random() * 9) - 3 || 1;
+  const previousQuantity = item.quantity;
+  item.quantity = Math.max(0, item.quantity + delta);
+  item.updatedAt = nowIso();
+  recordStockMovement(item, previousQuantity, {
+    source: 'adjustment',
+    reason: 'manual-count',
+    performedBy: colleague._id,
+  });
+
+  return publishMockEvent({
+    entity: 'item',
+    action: 'updated',
+    entityId: item._id,
+    actor: { id: colleague._id, name: colleague.name },
+  });
+}
+
+function syncActivityTimer(): void {
+  if (!ACTIVITY_INTERVAL) return;
+  if (sources.size > 0 && !activityTimer) {
+    activityTimer = setInterval(simulateColleagueActivity, ACTIVITY_INTERVAL);
+  } else if (sources.size === 0 && activityTimer) {
+    clearInterval(activityTimer);
+    activityTimer = null;
+  }
+}
+
+/**
+ * EventSource stand-in fed by `publishMockEvent`
+ */
+export class MockEventSource implements EventStream {
+  readyState = STREAM_CONNECTING;
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent<string>) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  readonly url: string;
+
+  constructor(url: string, headers: Record<string, string> = {}) {
+    this.url = url;
+    sources.add(this);
+    syncActivityTimer();
+
+    // Resume after the given id, like Last-Event-ID on reconnect
+    const lastEventId = new URL(url, 'http://mock.local').searchParams.get(
+      'lastEventId'
+    );
+    const token = headers['Authorization']?.replace(/^Bearer /, '');
+    setTimeout(() => {
+      if (!sources.has(this)) return;
+      // A 401 ends the stream for good
+      if (!token || token !== getDb().auth.accessToken) {
+        this.close();
+        this.onerror?.(new Event('error'));
+        return;
+      }
+      this.readyState = STREAM_OPEN;
+      this.onopen?.(new Event('open'));
+      if (lastEventId) {
+        log
+          .filter((event) => Number(event.id) > Number(lastEventId))
+          .forEach((event) => this.deliver(event));
+      }
+    }, 0);
+  }
+
+  deliver(event: RealtimeEvent): void {
+    setTimeout(() => {
+      if (!sources.has(this)) return;
+      this.onmessage?.(
+        new MessageEvent('message', {
+          data: JSON.stringify(event),
+          lastEventId: event.id,
+        })
+      );
+    }, 0);
+  }
+
+  close(): void {
+    this.readyState = STREAM_CLOSED;
+    sources.delete(this);
+    syncActivityTimer();
+  }
+}
+
+export const eventRoutes: MockRoute[] = [
+  route('GET', '/events', (req) => {
+    // Without a cursor the client only learns where the feed currently is
+    const since = req.query.get('since');
+    return {
+      events:
+        since !== null
+          ? log.filter((event) => Number(event.id) > Number(since))
+          : [],
+      cursor: String(nextId - 1),
+    };
+  }),
+];
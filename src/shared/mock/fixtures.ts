@@ -0,0 +1,815 @@
+/**
+ * Mock Fixtures
+ *
+ * Builds the mock dataset from a seed. The same seed (and `now`) always
+ * yields the same records, so demos and tests are reproducible.
+ *
+ * History (orders, imports, transfers) is spread over the last few months
+ * so every analytics period has data. Item quantities are the stock left
+ * after that history, and the stock movement ledger is rebuilt from it.
+ * Perishable items hold their stock in lots, one of them close to expiry.
+ */
+
+import type { Permissions } from '@/shared/api/roles.api';
+import {
+  DEFAULT_SKU_PATTERN,
+  formatSku,
+  gtinCheckDigit,
+} from '@/shared/lib/product-codes';
+import {
+  objectId,
+  pick,
+  random,
+  randomInt,
+  seedRandom,
+  type MockDb,
+  type MockImport,
+  type MockItem,
+  type MockPartner,
+  type MockPriceChange,
+  type MockStockMovement,
+  type MockStorehouse,
+  type MockTransaction,
+  type MockTransfer,
+  type MockUser,
+} from './mock-db';
+
+export interface SeedOptions {
+  /** PRNG seed. Default 42. */
+  seed?: number;
+  /** Reference time for generated history (ms). Default Date.now(). */
+  now?: number;
+  /** Start signed in as the demo owner. Default true. */
+  signedIn?: boolean;
+}
+
+export const DEMO_EMAIL = 'demo@example.com';
+
+const DAY = 86_400_000;
+
+const ITEM_CATALOG: Array<
+  Pick<
+    MockItem,
+    | 'name'
+    | 'description'
+    | 'unitPrice'
+    | 'origin'
+    | 'tags'
+    | 'quantity'
+    | 'unit'
+    | 'packUnits'
+    | 'lowStockAt'
+    | 'serialized'
+  > & { store: 0 | 1 }
+> = [
+  {
+    name: 'MacBook Pro 16" M3',
+    description: 'Latest MacBook Pro with M3 chip, 16GB RAM, 512GB SSD',
+    unitPrice: 2499,
+    origin: 'USA',
+    tags: ['electronics', 'computers', 'apple'],
+    quantity: 15,
+    unit: 'pcs',
+    lowStockAt: 5,
+    store: 0,
+  },
+  {
+    name: 'iPhone 15 Pro',
+    description: 'iPhone 15 Pro 256GB, Titanium',
+    unitPrice: 999,
+    origin: 'China',
+    tags: ['electronics', 'phones', 'apple'],
+    quantity: 3,
+    unit: 'pcs',
+    lowStockAt: 10,
+    serialized: true,
+    store: 0,
+  },
+  {
+    name: 'Samsung 55" QLED TV',
+    description: '55-inch QLED 4K Smart TV',
+    unitPrice: 799,
+    origin: 'South Korea',
+    tags: ['electronics', 'tv', 'samsung'],
+    quantity: 0,
+    unit: 'pcs',
+    lowStockAt: 3,
+    serialized: true,
+    store: 0,
+  },
+  {
+    name: 'Sony WH-1000XM5 Headphones',
+    description: 'Wireless noise-cancelling headphones',
+    unitPrice: 299,
+    origin: 'Japan',
+    tags: ['electronics', 'audio', 'sony'],
+    quantity: 28,
+    unit: 'pcs',
+    lowStockAt: 15,
+    store: 1,
+  },
+  {
+    name: 'Dell UltraSharp 27" Monitor',
+    description: '27-inch 4K USB-C monitor',
+    unitPrice: 449,
+    origin: 'China',
+    tags: ['electronics', 'monitors', 'dell'],
+    quantity: 7,
+    unit: 'pcs',
+    lowStockAt: 8,
+    serialized: true,
+    store: 0,
+  },
+  {
+    name: 'Logitech MX Master 3S Mouse',
+    description: 'Wireless ergonomic mouse',
+    unitPrice: 79,
+    origin: 'China',
+    tags: ['electronics', 'accessories', 'logitech'],
+    quantity: 45,
+    unit: 'pcs',
+    lowStockAt: 20,
+    store: 0,
+  },
+  {
+    name: 'Office Chair Pro Ergonomic',
+    description: 'Adjustable ergonomic office chair with lumbar support',
+    unitPrice: 299,
+    origin: 'Vietnam',
+    tags: ['furniture', 'office'],
+    quantity: 2,
+    unit: 'pcs',
+    lowStockAt: 5,
+    store: 1,
+  },
+  {
+    name: 'Standing Desk Electric',
+    description: 'Height-adjustable standing desk, 140x70cm',
+    unitPrice: 499,
+    origin: 'Germany',
+    tags: ['furniture', 'office'],
+    quantity: 12,
+    unit: 'pcs',
+    lowStockAt: 4,
+    store: 0,
+  },
+  {
+    name: 'USB-C Charging Cable 2m',
+    description: 'Braided USB-C to USB-C cable, 100W',
+    unitPrice: 19,
+    origin: 'China',
+    tags: ['electronics', 'accessories'],
+    quantity: 140,
+    unit: 'pcs',
+    packUnits: [{ unit: 'case', factor: 24 }],
+    lowStockAt: 30,
+    store: 1,
+  },
+  {
+    name: 'Printer Paper A4',
+    description: '80gsm white copy paper, 500 sheets',
+    unitPrice: 6,
+    origin: 'Indonesia',
+    tags: ['office', 'supplies'],
+    quantity: 85,
+    unit: 'box',
+    packUnits: [{ unit: 'pallet', factor: 40 }],
+    lowStockAt: 20,
+    store: 1,
+  },
+  {
+    name: 'Arabica Coffee Beans 1kg',
+    description: 'Medium roast whole beans for the office kitchen',
+    unitPrice: 18,
+    origin: 'Colombia',
+    tags: ['pantry', 'perishable'],
+    quantity: 60,
+    unit: 'bag',
+    packUnits: [{ unit: 'carton', factor: 6 }],
+    lowStockAt: 15,
+    store: 0,
+  },
+];
+
+const CLIENTS = [
+  { partnerName: 'Acme Corporation', email: 'orders@acme.example' },
+  { partnerName: 'Globex Retail', email: 'buying@globex.example' },
+  { partnerName: 'Initech Offices', email: 'it@initech.example' },
+  { partnerName: 'Umbrella Studio', email: 'hello@umbrella.example' },
+];
+
+const SUPPLIERS = [
+  { partnerName: 'TechSource Distribution', email: 'sales@techsource.example' },
+  { partnerName: 'Pacific Furniture Co.', email: 'trade@pacific.example' },
+  { partnerName: 'OfficeLine Wholesale', email: 'b2b@officeline.example' },
+];
+
+/**
+ * Every action on every resource (what admins resolve to)
+ */
+export function fullPermissions(): Permissions {
+  const all = { create: true, update: true, delete: true, execute: true };
+  return {
+    items: { ...all },
+    imports: { ...all },
+    transactions: { ...all },
+    transfers: { ...all },
+    partners: { ...all },
+    storehouses: { ...all },
+    businessSettings: { ...all },
+    users: { ...all },
+  };
+}
+
+function phone(): string {
+  return `+1 (555) ${randomInt(100, 999)}-${randomInt(1000, 9999)}`;
+}
+
+/**
+ * Ledger entries for the seeded history, with an opening balance per item.
+ * Balances are worked out backwards from the current quantity; items whose
+ * history would dip below zero get their stock raised to fit. Completed
+ * transfers leave their quantity at the destination storehouse.
+ */
+function seedStockMovements(db: MockDb): MockStockMovement[] {
+  type Change = Omit<
+    MockStockMovement,
+    '_id' | 'previousQuantity' | 'newQuantity'
+  >;
+  const changes = new Map<string, Change[]>();
+  const add = (change: Change) =>
+    changes.set(change.itemId, [...(changes.get(change.itemId) ?? []), change]);
+  const performer = () => pick(db.users)._id;
+
+  db.transactions.forEach((t) => {
+    if (!t.itemsDeliveredDate) return;
+    t.item.forEach((line) =>
+      add({
+        itemId: line.itemId,
+        change: -line.quantity,
+        source: 'sale',
+        reason: 'sale',
+        reference: t._id,
+        storeHouse: line.storeHouse,
+        performedBy: performer(),
+        createdAt: t.itemsDeliveredDate as string,
+      })
+    );
+  });
+  db.imports.forEach((i) => {
+    if (!i.itemsReceivedDate) return;
+    i.item.forEach((line) =>
+      add({
+        itemId: line.itemId,
+        change: line.quantity,
+        source: 'import',
+        reason: 'import',
+        reference: i._id,
+        storeHouse: line.storeHouse,
+        performedBy: performer(),
+        createdAt: i.itemsReceivedDate as string,
+      })
+    );
+  });
+  // Transferred stock stays with the item, at the destination
+  const transferredIn = new Map<string, Map<string, number>>();
+  db.transfers.forEach((t) => {
+    if (!t.transferredAt) return;
+    const performedBy = performer();
+    (['transfer-out', 'transfer-in'] as const).forEach((reason) =>
+      add({
+        itemId: t.itemId,
+        change: reason === 'transfer-out' ? -t.quantity : t.quantity,
+        source: 'transfer',
+        reason,
+        reference: t._id,
+        storeHouse:
+          reason === 'transfer-out' ? t.fromStoreHouse : t.toStoreHouse,
+        performedBy,
+        createdAt: t.transferredAt as string,
+      })
+    );
+    const byStorehouse = transferredIn.get(t.itemId) ?? new Map();
+    byStorehouse.set(
+      t.toStoreHouse,
+      (byStorehouse.get(t.toStoreHouse) ?? 0) + t.quantity
+    );
+    transferredIn.set(t.itemId, byStorehouse);
+  });
+
+  const ownerId = db.business.creator;
+  return db.items.flatMap((item) => {
+    const history = (changes.get(item._id) ?? []).sort((a, b) =>
+      a.createdAt.localeCompare(b.createdAt)
+    );
+
+    // Lowest running balance relative to the opening stock
+    let running = 0;
+    let lowest = 0;
+    history.forEach((change) => {
+      running += change.change;
+      lowest = Math.min(lowest, running);
+    });
+    const moved = transferredIn.get(item._id) ?? new Map<string, number>();
+    const movedTotal = Array.from(moved.values()).reduce((a, b) => a + b, 0);
+    item.quantity = Math.max(item.quantity, running - lowest, movedTotal);
+    item.stock = [
+      { storeHouse: item.storeHouse, quantity: item.quantity - movedTotal },
+      ...Array.from(moved, ([storeHouse, quantity]) => ({
+        storeHouse,
+        quantity,
+      })),
+    ];
+
+    let balance = item.quantity - running;
+    const opening: MockStockMovement = {
+      _id: objectId(),
+      itemId: item._id,
+      change: balance,
+      source: 'adjustment',
+      reason: 'opening-balance',
+      storeHouse: item.storeHouse,
+      previousQuantity: 0,
+      newQuantity: balance,
+      performedBy: ownerId,
+      createdAt: item.createdAt,
+    };
+    return [
+      opening,
+      ...history.map((change) => {
+        const previousQuantity = balance;
+        balance += change.change;
+        return {
+          ...change,
+          _id: objectId(),
+          previousQuantity,
+          newQuantity: balance,
+        };
+      }),
+    ];
+  });
+}
+
+/**
+ * Split the stock of perishable items into lots: an old one about to
+ * expire, and newer ones further out
+ */
+function seedLots(db: MockDb, now: number): void {
+  const date = (days: number) =>
+    new Date(now + days * DAY).toISOString().slice(0, 10);
+
+  db.items
+    .filter((item) => item.tags.includes('perishable'))
+    .forEach((item, index) => {
+      item.stock.forEach((level, levelIndex) => {
+        const prefix = `L${String(index + 1).padStart(2, '0')}${levelIndex}`;
+        const old = Math.floor(level.quantity * 0.2);
+        const recent = Math.floor(level.quantity * 0.4);
+        level.lots = [
+          {
+            lotNumber: `${prefix}-A`,
+            expiresAt: date(randomInt(3, 12)),
+            quantity: old,
+          },
+          {
+            lotNumber: `${prefix}-B`,
+            expiresAt: date(randomInt(60, 90)),
+            quantity: recent,
+          },
+          {
+            lotNumber: `${prefix}-C`,
+            expiresAt: date(randomInt(150, 200)),
+            quantity: level.quantity - old - recent,
+          },
+        ].filter((lot) => lot.quantity > 0);
+      });
+    });
+}
+
+/**
+ * Serial numbers for the serialized items: one per unit in stock, and for
+ * the units delivered on past sales. Recent receipts list units that are
+ * still in stock.
+ */
+function seedSerials(db: MockDb): void {
+  db.items
+    .filter((item) => item.serialized)
+    .forEach((item, index) => {
+      let next = 1;
+      const serial = () =>
+        `SN${String(index + 1).padStart(2, '0')}-${String(next++).padStart(5, '0')}`;
+
+      db.transactions
+        .filter((record) => record.itemsDeliveredDate)
+        .forEach((record) =>
+          record.item
+            .filter((line) => line.itemId === item._id)
+            .forEach((line) => {
+              line.serials = Array.from({ length: line.quantity }, serial);
+            })
+        );
+
+      const inStock: string[] = [];
+      item.stock.forEach((level) => {
+        level.serials = Array.from({ length: level.quantity }, serial);
+        inStock.push(...level.serials);
+      });
+
+      // Newest receipts first, so the oldest units fall back to fresh serials
+      db.imports
+        .filter((record) => record.itemsReceivedDate)
+        .forEach((record) =>
+          record.item
+            .filter((line) => line.itemId === item._id)
+            .forEach((line) => {
+              line.serials = Array.from(
+                { length: line.quantity },
+                () => inStock.shift() ?? serial()
+              );
+            })
+        );
+    });
+}
+
+/**
+ * A gift set with a couple of sets assembled; more are built from the
+ * components as they are sold
+ */
+function seedKits(db: MockDb): void {
+  const headphones = db.items.find((item) => item.name.startsWith('Sony'))!;
+  const cable = db.items.find((item) => item.name.startsWith('USB-C'))!;
+  const kit: MockItem = {
+    _id: objectId(),
+    name: 'Travel Audio Kit',
+    description: 'Gift set: noise-cancelling headphones and two USB-C cables',
+    unitPrice:
+      Math.round((headphones.unitPrice + cable.unitPrice * 2) * 90) / 100,
+    tags: ['electronics', 'gift-sets'],
+    quantity: 2,
+    unit: 'set',
+    imageUrl: [],
+    sku: formatSku(DEFAULT_SKU_PATTERN, { sequence: db.items.length + 1 }),
+    barcodes: [],
+    storeHouse: headphones.storeHouse,
+    stock: [{ storeHouse: headphones.storeHouse, quantity: 2 }],
+    lowStockAt: 2,
+    components: [
+      { itemId: headphones._id, quantity: 1 },
+      { itemId: cable._id, quantity: 2 },
+    ],
+    createdAt: headphones.createdAt,
+    updatedAt: headphones.createdAt,
+  };
+  db.items.push(kit);
+  db.stockMovements.push({
+    _id: objectId(),
+    itemId: kit._id,
+    change: kit.quantity,
+    source: 'adjustment',
+    reason: 'opening-balance',
+    storeHouse: kit.storeHouse,
+    previousQuantity: 0,
+    newQuantity: kit.quantity,
+    performedBy: db.business.creator,
+    createdAt: kit.createdAt,
+  });
+}
+
+/**
+ * Catalogue prices as set when each item was created. Seeded sales were
+ * listed at today's prices, so there are no later changes.
+ */
+function seedPriceChanges(db: MockDb): MockPriceChange[] {
+  return db.items.map((item) => ({
+    _id: objectId(),
+    itemId: item._id,
+    unitPrice: item.unitPrice,
+    sellingPrice: item.sellingPrice,
+    changedBy: db.business.creator,
+    createdAt: item.createdAt,
+  }));
+}
+
+/**
+ * Build a fresh dataset from a seed
+ */
+export function createFixtures(options: SeedOptions = {}): MockDb {
+  const { seed = 42, now = Date.now(), signedIn = true } = options;
+  seedRandom(seed);
+
+  const at = (daysAgo: number) =>
+    new Date(now - daysAgo * DAY - randomInt(0, 8 * 3_600_000)).toISOString();
+  const created = at(365);
+
+  // ---------- Business & people ----------
+  const businessId = objectId();
+  const ownerId = objectId();
+
+  const storehouses: MockStorehouse[] = [
+    'Main Warehouse',
+    'Store Location A',
+  ].map((name, index) => ({
+    _id: objectId(),
+    name,
+    address: `${100 + index * 20} Market Street`,
+    phoneNumber: phone(),
+    email: `store${index + 1}@example.com`,
+    business: businessId,
+    isLocked: false,
+    createdAt: created,
+    updatedAt: created,
+  }));
+  const storehouseIds = storehouses.map((s) => s._id);
+
+  const salesRoleId = objectId();
+  const salesPermissions = fullPermissions();
+  salesPermissions.storehouses = {};
+  salesPermissions.businessSettings = {};
+  salesPermissions.users = {};
+
+  const users: MockUser[] = [
+    {
+      _id: ownerId,
+      email: DEMO_EMAIL,
+      name: 'Demo User',
+      username: 'demouser',
+      appRole: 'admin',
+      phoneNumber: '+1 (555) 123-4567',
+      birthDate: '1990-01-01',
+      business: businessId,
+      storeHouses: storehouseIds,
+      accessRole: [],
+      isActive: true,
+      createdAt: created,
+      updatedAt: created,
+    },
+    {
+      _id: objectId(),
+      email: 'sam.staff@example.com',
+      name: 'Sam Staff',
+      appRole: 'user',
+      phoneNumber: phone(),
+      birthDate: '1995-06-15',
+      business: businessId,
+      storeHouses: [storehouseIds[1] as string],
+      accessRole: [salesRoleId],
+      isActive: true,
+      createdAt: at(200),
+      updatedAt: at(200),
+    },
+  ];
+
+  // ---------- Catalog ----------
+  const items: MockItem[] = ITEM_CATALOG.map(({ store, ...item }, index) => {
+    const createdAt = at(randomInt(150, 300));
+    // In-store EAN-13 range (prefix 20), so scans resolve to demo items
+    const eanBody = `200${String(index + 1).padStart(9, '0')}`;
+    return {
+      ...item,
+      _id: objectId(),
+      imageUrl: [],
+      sku: formatSku(DEFAULT_SKU_PATTERN, { sequence: index + 1 }),
+      barcodes: [`${eanBody}${gtinCheckDigit(eanBody)}`],
+      storeHouse: storehouseIds[store] as string,
+      // Split by seedStockMovements once the history is known
+      stock: [],
+      createdAt,
+      updatedAt: createdAt,
+    };
+  });
+
+  const partners: MockPartner[] = [
+    {
+      _id: objectId(),
+      partnerName: 'Walk-in Customer',
+      partnerType: 'client',
+      worksWithBusiness: businessId,
+      isWalkIn: true,
+      createdAt: created,
+      updatedAt: created,
+    },
+    ...CLIENTS.map(
+      (client): MockPartner => ({
+        _id: objectId(),
+        ...client,
+        partnerType: 'client',
+        phoneNumber: phone(),
+        address: `${randomInt(1, 999)} Commerce Ave`,
+        worksWithBusiness: businessId,
+        createdAt: at(randomInt(120, 300)),
+        updatedAt: created,
+      })
+    ),
+    ...SUPPLIERS.map(
+      (supplier): MockPartner => ({
+        _id: objectId(),
+        ...supplier,
+        partnerType: 'supplier',
+        phoneNumber: phone(),
+        address: `${randomInt(1, 999)} Industrial Way`,
+        worksWithBusiness: businessId,
+        createdAt: at(randomInt(120, 300)),
+        updatedAt: created,
+      })
+    ),
+  ];
+  const clients = partners.filter((p) => p.partnerType === 'client');
+  const suppliers = partners.filter((p) => p.partnerType === 'supplier');
+
+  // ---------- History ----------
+  const pickLines = (priceFactor: () => number) => {
+    const chosen = new Set<MockItem>();
+    const count = randomInt(1, 3);
+    while (chosen.size < count) chosen.add(pick(items));
+    return Array.from(chosen).map((item) => {
+      const quantity = randomInt(1, item.unit === 'box' ? 20 : 5);
+      const unitPrice = Math.round(item.unitPrice * priceFactor() * 100) / 100;
+      return {
+        itemId: item._id,
+        storeHouse: item.storeHouse,
+        listedPrice: item.unitPrice,
+        quantity,
+        unitPrice,
+        totalPrice: Math.round(quantity * unitPrice * 100) / 100,
+      };
+    });
+  };
+
+  const transactions: MockTransaction[] = [];
+  for (let i = 0; i < 72; i++) {
+    const daysAgo = randomInt(0, 120);
+    const createdAt = at(daysAgo);
+    const lines = pickLines(() => (random() < 0.3 ? 0.9 : 1));
+    const roll = random();
+    const isRecent = daysAgo < 10;
+    const status =
+      roll < 0.08
+        ? 'cancelled'
+        : isRecent && roll < 0.5
+          ? 'pending'
+          : 'completed';
+    const delivered =
+      status === 'completed' || (status === 'pending' && roll < 0.3);
+    const paid = status === 'completed';
+    const lag = () =>
+      new Date(
+        new Date(createdAt).getTime() + randomInt(0, 3) * DAY
+      ).toISOString();
+
+    transactions.push({
+      _id: objectId(),
+      business: businessId,
+      clientId: (random() < 0.35 ? clients[0] : pick(clients.slice(1)))!._id,
+      item: lines,
+      totalPrice: lines.reduce((sum, line) => sum + line.totalPrice, 0),
+      status,
+      itemsDeliveredDate: delivered ? lag() : undefined,
+      paymentCompletedDate: paid ? lag() : undefined,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  }
+
+  const imports: MockImport[] = [];
+  for (let i = 0; i < 24; i++) {
+    const daysAgo = randomInt(0, 130);
+    const createdAt = at(daysAgo);
+    const lines = pickLines(() => 0.6 + random() * 0.15).map(
+      ({ listedPrice: _listed, ...line }) => ({
+        ...line,
+        quantity: line.quantity * 4,
+        totalPrice: Math.round(line.quantity * 4 * line.unitPrice * 100) / 100,
+      })
+    );
+    const status = daysAgo < 7 && random() < 0.5 ? 'pending' : 'completed';
+    const received = new Date(
+      new Date(createdAt).getTime() + randomInt(1, 5) * DAY
+    ).toISOString();
+
+    imports.push({
+      _id: objectId(),
+      business: businessId,
+      supplierId: pick(suppliers)._id,
+      item: lines,
+      totalPrice: lines.reduce((sum, line) => sum + line.totalPrice, 0),
+      status,
+      itemsReceivedDate: status === 'completed' ? received : undefined,
+      paymentCompletedDate: status === 'completed' ? received : undefined,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  }
+
+  const transfers: MockTransfer[] = [];
+  for (let i = 0; i < 6; i++) {
+    const item = pick(items);
+    const from = item.storeHouse;
+    const to = storehouseIds.find((id) => id !== from) as string;
+    const createdAt = at(randomInt(1, 90));
+    const status = i === 0 ? 'pending' : 'completed';
+    transfers.push({
+      _id: objectId(),
+      business: businessId,
+      itemId: item._id,
+      fromStoreHouse: from,
+      toStoreHouse: to,
+      quantity: randomInt(1, 4),
+      status,
+      note: status === 'pending' ? 'Restock front store' : undefined,
+      transferredAt: status === 'completed' ? createdAt : undefined,
+      createdAt,
+      updatedAt: createdAt,
+    });
+  }
+
+  const sortNewestFirst = <T extends { createdAt: string }>(list: T[]) =>
+    list.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  const db: MockDb = {
+    business: {
+      _id: businessId,
+      name: 'Demo Electronics & Office',
+      address: '100 Market Street',
+      phoneNumber: '+1 (555) 100-2000',
+      email: 'contact@demo-store.example',
+      currency: 'USD',
+      timezone: 'UTC',
+      skuPattern: DEFAULT_SKU_PATTERN,
+      skuSequence: items.length + 1,
+      leadTimeDays: 7,
+      safetyStockDays: 3,
+      reorderCoverDays: 30,
+      costingMethod: 'fifo',
+      creator: ownerId,
+      createdAt: created,
+    },
+    users,
+    invitedUsers: [
+      {
+        _id: objectId(),
+        email: 'new.hire@example.com',
+        accountType: 'invited',
+        assignedAppRole: 'user',
+        assignedRoles: [salesRoleId],
+        assignedStoreHouses: [storehouseIds[0] as string],
+        expiresAt: new Date(now + 5 * DAY).toISOString(),
+        createdAt: at(2),
+      },
+    ],
+    roles: [
+      {
+        _id: salesRoleId,
+        name: 'Sales',
+        description: 'Handles orders, clients and stock at the front store',
+        business: businessId,
+        permissions: salesPermissions,
+        createdBy: ownerId,
+        createdAt: at(200),
+        updatedAt: at(200),
+      },
+    ],
+    storehouses,
+    items,
+    partners,
+    transactions: sortNewestFirst(transactions),
+    imports: sortNewestFirst(imports),
+    transfers: sortNewestFirst(transfers),
+    stockMovements: [],
+    priceChanges: [],
+    stocktakes: [],
+    sessions: [
+      {
+        id: objectId(),
+        deviceInfo: { userAgent: navigator.userAgent, ip: '127.0.0.1' },
+        lastUsedAt: new Date(now).toISOString(),
+        createdAt: at(1),
+        expiresAt: new Date(now + 6 * DAY).toISOString(),
+      },
+    ],
+    subscription: {
+      plan: 'pro',
+      status: 'active',
+      billingCycle: 'monthly',
+      trialEndsAt: null,
+      hasUsedTrial: true,
+      canceledAt: null,
+      limitOverrides: {},
+      featureOverrides: {},
+    },
+    auth: {
+      userId: signedIn ? ownerId : null,
+      accessToken: null,
+      csrfToken: objectId(),
+    },
+  };
+  // After everything else, so the seeded records keep their ids
+  db.stockMovements = seedStockMovements(db);
+  seedLots(db, now);
+  seedSerials(db);
+  seedKits(db);
+  db.stockMovements.forEach((movement) => {
+    movement.costingMethod = db.business.costingMethod;
+  });
+  db.priceChanges = seedPriceChanges(db);
+  return db;
+}
@@ -0,0 +1,825 @@
+/**
+ * Mock analytics endpoints (/analytics/*)
+ *
+ * Everything is computed from the mock orders, imports, transfers and
+ * current stock, so the dashboards move when the demo data changes.
+ * Cancelled records are ignored. With ?storehouseId, only order lines
+ * for items stored there are counted. Sales are costed and stock valued
+ * from the cost layers in costing.ts.
+ */
+
+import type {
+  InventorySnapshotData,
+  PartnerAnalyticsEntry,
+  PaymentInsightsData,
+  ProfitLossData,
+  StorehouseComparisonData,
+  TopItemResult,
+  TransferFlowData,
+  TrendsData,
+  DiscountAnalysisData,
+  ValuationReportData,
+} from '@/features/analytics/types/analytics.types';
+import {
+  findItem,
+  findPartner,
+  findStorehouse,
+  getDb,
+  levelThreshold,
+  stockedAt,
+  type MockImport,
+  type MockItem,
+  type MockLine,
+  type MockTransaction,
+} from '../mock-db';
+import {
+  costedItemValue,
+  costedStock,
+  heldValue,
+  replayCosts,
+  saleLineCost,
+  type Costing,
+} from '../costing';
+import { badRequest, route, type MockRequest, type MockRoute } from '../router';
+
+const DAY = 86_400_000;
+
+interface Range {
+  start: Date | null;
+  end: Date;
+  /** Same-length window before `start` (null for "all time") */
+  previous: { start: Date; end: Date } | null;
+}
+
+type Granularity = 'day' | 'week' | 'month';
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return round(((current - previous) / previous) * 100);
+}
+
+function periodRange(period: string | null): Range {
+  const end = new Date();
+  const daysBack = (days: number): Range => {
+    const start = new Date(end.getTime() - days * DAY);
+    return {
+      start,
+      end,
+      previous: { start: new Date(start.getTime() - days * DAY), end: start },
+    };
+  };
+
+  switch (period) {
+    case '7d':
+      return daysBack(7);
+    case '30d':
+      return daysBack(30);
+    case '90d':
+      return daysBack(90);
+    case '12m':
+      return daysBack(365);
+    case 'ytd': {
+      const start = new Date(Date.UTC(end.getUTCFullYear(), 0, 1));
+      const span = end.getTime() - start.getTime();
+      return {
+        start,
+        end,
+        previous: { start: new Date(start.getTime() - span), end: start },
+      };
+    }
+    default:
+      return { start: null, end, previous: null };
+  }
+}
+
+function granularity(period: string | null): Granularity {
+  if (period === '7d' || period === '30d') return 'day';
+  if (period === '90d') return 'week';
+  return 'month';
+}
+
+function bucketKey(date: Date, unit: Granularity): string {
+  const d = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  if (unit === 'week') d.setUTCDate(d.getUTCDate() - d.getUTCDay());
+  if (unit === 'month') d.setUTCDate(1);
+  return d.toISOString().slice(0, 10);
+}
+
+function nextBucket(date: Date, unit: Granularity): Date {
+  const d = new Date(date);
+  if (unit === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  if (unit === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  if (unit === 'month') d.setUTCMonth(d.getUTCMonth() + 1);
+  return d;
+}
+
+function within(createdAt: string, start: Date | null, end: Date): boolean {
+  return (
+    (!start || createdAt >= start.toISOString()) &&
+    createdAt <= end.toISOString()
+  );
+}
+
+/**
+ * Lines of a record that count for the storehouse filter
+ */
+function scopedLines<L extends MockLine>(
+  lines: L[],
+  storehouseId: string | null
+): L[] {
+  if (!storehouseId) return lines;
+  return lines.filter((line) => line.storeHouse === storehouseId);
+}
+
+function lineTotal(lines: MockLine[]): number {
+  return lines.reduce((sum, line) => sum + line.totalPrice, 0);
+}
+
+interface Scope {
+  range: Range;
+  storehouseId: string | null;
+  limit: number;
+  type: string | null;
+  granularity: Granularity;
+}
+
+function readScope(req: MockRequest): Scope {
+  const period = req.query.get('period');
+  return {
+    range: periodRange(period),
+    storehouseId: req.query.get('storehouseId'),
+    limit: Number(req.query.get('limit')) || 10,
+    type: req.query.get('type'),
+    granularity: granularity(period),
+  };
+}
+
+function salesIn(
+  start: Date | null,
+  end: Date,
+  storehouseId: string | null
+): Array<{ record: MockTransaction; lines: MockTransaction['item'] }> {
+  return getDb()
+    .transactions.filter(
+      (t) => t.status !== 'cancelled' && within(t.createdAt, start, end)
+    )
+    .map((record) => ({
+      record,
+      lines: scopedLines(record.item, storehouseId),
+    }))
+    .filter(({ lines }) => lines.length > 0);
+}
+
+function purchasesIn(
+  start: Date | null,
+  end: Date,
+  storehouseId: string | null
+): Array<{ record: MockImport; lines: MockLine[] }> {
+  return getDb()
+    .imports.filter(
+      (i) => i.status !== 'cancelled' && within(i.createdAt, start, end)
+    )
+    .map((record) => ({
+      record,
+      lines: scopedLines(record.item, storehouseId),
+    }))
+    .filter(({ lines }) => lines.length > 0);
+}
+
+/**
+ * Cost of goods sold for a sale's lines
+ */
+function linesCost(
+  costing: Costing,
+  record: MockTransaction,
+  lines: MockLine[]
+): number {
+  return lines.reduce(
+    (sum, line) => sum + saleLineCost(costing, record._id, line),
+    0
+  );
+}
+
+function itemLabel(itemId: string): { name: string; unit: string } {
+  const item = findItem(itemId);
+  return { name: item?.name ?? 'Deleted item', unit: item?.unit ?? '' };
+}
+
+// ============================================
+// Endpoints
+// ============================================
+
+function profitLoss(scope: Scope): ProfitLossData {
+  const { range, storehouseId } = scope;
+  const sales = salesIn(range.start, range.end, storehouseId);
+  const purchases = purchasesIn(range.start, range.end, storehouseId);
+  const revenue = sales.reduce((sum, s) => sum + lineTotal(s.lines), 0);
+  const cost = purchases.reduce((sum, p) => sum + lineTotal(p.lines), 0);
+  const costing = replayCosts();
+  const cogs = sales.reduce(
+    (sum, s) => sum + linesCost(costing, s.record, s.lines),
+    0
+  );
+
+  let revenueChangePercent: number | null = null;
+  let costChangePercent: number | null = null;
+  if (range.previous) {
+    const { start, end } = range.previous;
+    const previousRevenue = salesIn(start, end, storehouseId).reduce(
+      (sum, s) => sum + lineTotal(s.lines),
+      0
+    );
+    const previousCost = purchasesIn(start, end, storehouseId).reduce(
+      (sum, p) => sum + lineTotal(p.lines),
+      0
+    );
+    revenueChangePercent = percentChange(revenue, previousRevenue);
+    costChangePercent = percentChange(cost, previousCost);
+  }
+
+  return {
+    revenue: round(revenue),
+    cost: round(cost),
+    cogs: round(cogs),
+    grossProfit: round(revenue - cogs),
+    marginPercent: revenue ? round(((revenue - cogs) / revenue) * 100) : 0,
+    transactionCount: sales.length,
+    importCount: purchases.length,
+    revenueChangePercent,
+    costChangePercent,
+  };
+}
+
+/**
+ * Empty buckets covering the range (first record for "all time")
+ */
+function emptyBuckets<T>(scope: Scope, create: (date: string) => T) {
+  const db = getDb();
+  const earliest = [...db.transactions, ...db.imports]
+    .map((r) => r.createdAt)
+    .reduce((a, b) => (a < b ? a : b), scope.range.end.toISOString());
+  const start = scope.range.start ?? new Date(earliest);
+
+  const buckets = new Map<string, T>();
+  for (
+    let cursor = new Date(bucketKey(start, scope.granularity));
+    cursor <= scope.range.end;
+    cursor = nextBucket(cursor, scope.granularity)
+  ) {
+    const key = bucketKey(cursor, scope.granularity);
+    buckets.set(key, create(key));
+  }
+  return buckets;
+}
+
+function trends(scope: Scope): TrendsData {
+  const { range, storehouseId } = scope;
+  const buckets = emptyBuckets(scope, (date) => ({
+    date,
+    revenue: 0,
+    cost: 0,
+    cogs: 0,
+    profit: 0,
+    transactionCount: 0,
+    importCount: 0,
+  }));
+  const bucketFor = (createdAt: string) =>
+    buckets.get(bucketKey(new Date(createdAt), scope.granularity));
+  const costing = replayCosts();
+
+  salesIn(range.start, range.end, storehouseId).forEach(({ record, lines }) => {
+    const bucket = bucketFor(record.createdAt);
+    if (!bucket) return;
+    bucket.revenue += lineTotal(lines);
+    bucket.cogs += linesCost(costing, record, lines);
+    bucket.transactionCount++;
+  });
+  purchasesIn(range.start, range.end, storehouseId).forEach(
+    ({ record, lines }) => {
+      const bucket = bucketFor(record.createdAt);
+      if (!bucket) return;
+      bucket.cost += lineTotal(lines);
+      bucket.importCount++;
+    }
+  );
+
+  return {
+    buckets: Array.from(buckets.values()).map((b) => ({
+      ...b,
+      revenue: round(b.revenue),
+      cost: round(b.cost),
+      cogs: round(b.cogs),
+      profit: round(b.revenue - b.cogs),
+    })),
+  };
+}
+
+function groupLines(lines: MockLine[]) {
+  const groups = new Map<string, { quantity: number; value: number }>();
+  lines.forEach((line) => {
+    const group = groups.get(line.itemId) ?? { quantity: 0, value: 0 };
+    group.quantity += line.quantity;
+    group.value += line.totalPrice;
+    groups.set(line.itemId, group);
+  });
+  return groups;
+}
+
+/**
+ * Cost of goods sold per item over a set of sales
+ */
+function costByItem(
+  sales: Array<{ record: MockTransaction; lines: MockLine[] }>
+): Map<string, number> {
+  const costing = replayCosts();
+  const costs = new Map<string, number>();
+  sales.forEach(({ record, lines }) =>
+    lines.forEach((line) =>
+      costs.set(
+        line.itemId,
+        (costs.get(line.itemId) ?? 0) + saleLineCost(costing, record._id, line)
+      )
+    )
+  );
+  return costs;
+}
+
+function topItems(scope: Scope): TopItemResult[] {
+  const { range, storehouseId, limit, type } = scope;
+  const sales = salesIn(range.start, range.end, storehouseId);
+  const soldLines = sales.flatMap((s) => s.lines);
+
+  if (type === 'profitable') {
+    const costs = costByItem(sales);
+    return Array.from(groupLines(soldLines).entries())
+      .map(([itemId, group]) => {
+        const totalCost = costs.get(itemId) ?? 0;
+        const profit = group.value - totalCost;
+        return {
+          itemId,
+          ...itemLabel(itemId),
+          avgSellPrice: round(group.value / group.quantity),
+          avgBuyPrice: round(totalCost / group.quantity),
+          totalRevenue: round(group.value),
+          totalCost: round(totalCost),
+          profit: round(profit),
+          marginPercent: group.value ? round((profit / group.value) * 100) : 0,
+          totalQtySold: group.quantity,
+        };
+      })
+      .sort((a, b) => b.profit - a.profit)
+      .slice(0, limit);
+  }
+
+  const lines =
+    type === 'purchased'
+      ? purchasesIn(range.start, range.end, storehouseId).flatMap(
+          (p) => p.lines
+        )
+      : soldLines;
+
+  return Array.from(groupLines(lines).entries())
+    .map(([itemId, group]) => ({
+      itemId,
+      ...itemLabel(itemId),
+      totalQuantity: group.quantity,
+      totalValue: round(group.value),
+      avgPrice: round(group.value / group.quantity),
+    }))
+    .sort((a, b) => b.totalQuantity - a.totalQuantity)
+    .slice(0, limit);
+}
+
+function partnerAnalytics(scope: Scope): PartnerAnalyticsEntry[] {
+  const { range, storehouseId, limit, type } = scope;
+  const records =
+    type === 'suppliers'
+      ? purchasesIn(range.start, range.end, storehouseId).map((p) => ({
+          partnerId: p.record.supplierId,
+          createdAt: p.record.createdAt,
+          value: lineTotal(p.lines),
+        }))
+      : salesIn(range.start, range.end, storehouseId).map((s) => ({
+          partnerId: s.record.clientId as string | null,
+          createdAt: s.record.createdAt,
+          value: lineTotal(s.lines),
+        }));
+
+  const groups = new Map<string, PartnerAnalyticsEntry>();
+  records.forEach(({ partnerId, createdAt, value }) => {
+    if (!partnerId) return;
+    const partner = findPartner(partnerId);
+    const entry = groups.get(partnerId) ?? {
+      partnerId,
+      name: partner?.partnerName ?? 'Deleted partner',
+      isWalkIn: partner?.isWalkIn,
+      totalValue: 0,
+      orderCount: 0,
+      avgOrderValue: 0,
+      lastActivityDate: createdAt,
+    };
+    entry.totalValue += value;
+    entry.orderCount++;
+    if (createdAt > entry.lastActivityDate) entry.lastActivityDate = createdAt;
+    groups.set(partnerId, entry);
+  });
+
+  return Array.from(groups.values())
+    .map((entry) => ({
+      ...entry,
+      totalValue: round(entry.totalValue),
+      avgOrderValue: round(entry.totalValue / entry.orderCount),
+    }))
+    .sort((a, b) => b.totalValue - a.totalValue)
+    .slice(0, limit);
+}
+
+const isLow = (quantity: number, threshold: number) =>
+  quantity > 0 && quantity <= threshold;
+
+interface HeldStock {
+  item: MockItem;
+  quantity: number;
+  /** At cost */
+  value: number;
+  low: boolean;
+}
+
+/**
+ * Stock held at one storehouse, or every item's total (low when any of
+ * its locations is low)
+ */
+function heldStock(costing: Costing, storehouseId: string | null): HeldStock[] {
+  if (storehouseId) {
+    return stockedAt(storehouseId).map(({ item, level }) => ({
+      item,
+      quantity: level.quantity,
+      value: heldValue(costing, item._id, storehouseId, level.quantity),
+      low: isLow(level.quantity, levelThreshold(item, level)),
+    }));
+  }
+  return getDb().items.map((item) => ({
+    item,
+    quantity: item.quantity,
+    value: costedItemValue(costing, item),
+    low: item.stock.some((level) =>
+      isLow(level.quantity, levelThreshold(item, level))
+    ),
+  }));
+}
+
+const stockValue = (held: HeldStock[]) =>
+  round(held.reduce((sum, h) => sum + h.value, 0));
+
+function inventorySnapshot(scope: Scope): InventorySnapshotData {
+  const db = getDb();
+  const { range, storehouseId } = scope;
+  const costing = replayCosts();
+  const items = heldStock(costing, storehouseId);
+
+  const soldItemIds = new Set(
+    salesIn(range.start, range.end, storehouseId).flatMap((s) =>
+      s.lines.map((line) => line.itemId)
+    )
+  );
+  const quantitySold = salesIn(range.start, range.end, storehouseId).reduce(
+    (sum, s) => sum + s.lines.reduce((q, line) => q + line.quantity, 0),
+    0
+  );
+  const quantityOnHand = items.reduce((sum, h) => sum + h.quantity, 0);
+
+  return {
+    totalValue: stockValue(items),
+    totalItems: items.length,
+    lowStockCount: items.filter((h) => h.low).length,
+    deadStockCount: items.filter(
+      (h) => h.quantity > 0 && !soldItemIds.has(h.item._id)
+    ).length,
+    avgTurnoverRate: quantityOnHand ? round(quantitySold / quantityOnHand) : 0,
+    byStorehouse: db.storehouses
+      .filter((s) => !storehouseId || s._id === storehouseId)
+      .map((storehouse) => {
+        const stored = heldStock(costing, storehouse._id);
+        return {
+          storehouseId: storehouse._id,
+          storehouseName: storehouse.name,
+          isLocked: storehouse.isLocked,
+          totalValue: stockValue(stored),
+          totalItems: stored.length,
+          totalQuantity: stored.reduce((sum, h) => sum + h.quantity, 0),
+          lowStockCount: stored.filter((h) => h.low).length,
+        };
+      }),
+  };
+}
+
+function averageLagDays(
+  records: Array<{ createdAt: string; doneAt?: string }>
+): number | null {
+  const lags = records
+    .filter((r) => r.doneAt)
+    .map(
+      (r) =>
+        (new Date(r.doneAt as string).getTime() -
+          new Date(r.createdAt).getTime()) /
+        DAY
+    );
+  if (lags.length === 0) return null;
+  return round(lags.reduce((a, b) => a + b, 0) / lags.length);
+}
+
+function paymentInsights(scope: Scope): PaymentInsightsData {
+  const { range, storehouseId } = scope;
+  const sales = salesIn(range.start, range.end, storehouseId);
+  const purchases = purchasesIn(range.start, range.end, storehouseId);
+  const unpaidSales = sales.filter((s) => !s.record.paymentCompletedDate);
+  const unpaidPurchases = purchases.filter(
+    (p) => !p.record.paymentCompletedDate
+  );
+
+  return {
+    outstandingTransactions: unpaidSales.length,
+    outstandingRevenue: round(
+      unpaidSales.reduce((sum, s) => sum + lineTotal(s.lines), 0)
+    ),
+    outstandingImports: unpaidPurchases.length,
+    outstandingCost: round(
+      unpaidPurchases.reduce((sum, p) => sum + lineTotal(p.lines), 0)
+    ),
+    avgPaymentLagDays: {
+      transactions: averageLagDays(
+        sales.map(({ record }) => ({
+          createdAt: record.createdAt,
+          doneAt: record.paymentCompletedDate,
+        }))
+      ),
+      imports: averageLagDays(
+        purchases.map(({ record }) => ({
+          createdAt: record.createdAt,
+          doneAt: record.paymentCompletedDate,
+        }))
+      ),
+    },
+    avgDeliveryLagDays: {
+      transactions: averageLagDays(
+        sales.map(({ record }) => ({
+          createdAt: record.createdAt,
+          doneAt: record.itemsDeliveredDate,
+        }))
+      ),
+      imports: averageLagDays(
+        purchases.map(({ record }) => ({
+          createdAt: record.createdAt,
+          doneAt: record.itemsReceivedDate,
+        }))
+      ),
+    },
+  };
+}
+
+function discountAnalysis(scope: Scope): DiscountAnalysisData {
+  const { range, storehouseId, limit } = scope;
+  const costing = replayCosts();
+  const sales = salesIn(range.start, range.end, storehouseId);
+  const costOf = (record: MockTransaction, line: MockLine) =>
+    saleLineCost(costing, record._id, line);
+  const gainOf = (record: MockTransaction, line: MockLine) =>
+    line.unitPrice * line.quantity - costOf(record, line);
+
+  const trend = emptyBuckets(scope, (date) => ({ date, gain: 0 }));
+  sales.forEach(({ record, lines }) => {
+    const bucket = trend.get(
+      bucketKey(new Date(record.createdAt), scope.granularity)
+    );
+    if (bucket) {
+      bucket.gain += lines.reduce((sum, l) => sum + gainOf(record, l), 0);
+    }
+  });
+
+  const revenue = lineTotal(sales.flatMap((s) => s.lines));
+  let totalGain = 0;
+  const perItem = new Map<
+    string,
+    { value: number; quantity: number; cost: number; gain: number }
+  >();
+  sales.forEach(({ record, lines }) =>
+    lines.forEach((line) => {
+      const entry = perItem.get(line.itemId) ?? {
+        value: 0,
+        quantity: 0,
+        cost: 0,
+        gain: 0,
+      };
+      const gain = gainOf(record, line);
+      entry.value += line.totalPrice;
+      entry.quantity += line.quantity;
+      entry.cost += costOf(record, line);
+      entry.gain += gain;
+      totalGain += gain;
+      perItem.set(line.itemId, entry);
+    })
+  );
+
+  return {
+    totalGain: round(totalGain),
+    avgMarginPercent: revenue ? round((totalGain / revenue) * 100) : 0,
+    gainTrend: Array.from(trend.values()).map((b) => ({
+      ...b,
+      gain: round(b.gain),
+    })),
+    topMarginItems: Array.from(perItem.entries())
+      .map(([itemId, entry]) => ({
+        itemId,
+        name: itemLabel(itemId).name,
+        avgSellPrice: round(entry.value / entry.quantity),
+        avgBuyPrice: round(entry.cost / entry.quantity),
+        marginPercent: entry.value
+          ? round((entry.gain / entry.value) * 100)
+          : 0,
+        totalGain: round(entry.gain),
+      }))
+      .sort((a, b) => b.totalGain - a.totalGain)
+      .slice(0, limit),
+  };
+}
+
+function completedTransfers(scope: Scope) {
+  return getDb().transfers.filter(
+    (t) =>
+      t.status === 'completed' &&
+      within(t.transferredAt ?? t.createdAt, scope.range.start, scope.range.end)
+  );
+}
+
+function storehouseComparison(scope: Scope): StorehouseComparisonData {
+  const db = getDb();
+  const transfers = completedTransfers(scope);
+  const costing = replayCosts();
+
+  return {
+    storehouses: db.storehouses.map((storehouse) => {
+      const profit = profitLoss({ ...scope, storehouseId: storehouse._id });
+      const stored = heldStock(costing, storehouse._id);
+      return {
+        id: storehouse._id,
+        name: storehouse.name,
+        isLocked: storehouse.isLocked,
+        revenue: profit.revenue,
+        cost: profit.cost,
+        profit: profit.grossProfit,
+        inventoryValue: stockValue(stored),
+        itemCount: stored.length,
+        transfersIn: transfers.filter((t) => t.toStoreHouse === storehouse._id)
+          .length,
+        transfersOut: transfers.filter(
+          (t) => t.fromStoreHouse === storehouse._id
+        ).length,
+      };
+    }),
+  };
+}
+
+function transferFlow(scope: Scope): TransferFlowData {
+  const transfers = completedTransfers(scope);
+  const storehouseRef = (id: string) => ({
+    id,
+    name: findStorehouse(id)?.name ?? 'Deleted storehouse',
+  });
+
+  const flows = new Map<string, TransferFlowData['flows'][number]>();
+  const items = new Map<string, TransferFlowData['topItems'][number]>();
+  const net = new Map<string, TransferFlowData['netFlow'][number]>();
+  const netEntry = (id: string) => {
+    const entry = net.get(id) ?? {
+      storehouseId: id,
+      name: storehouseRef(id).name,
+      in: 0,
+      out: 0,
+      net: 0,
+    };
+    net.set(id, entry);
+    return entry;
+  };
+
+  transfers.forEach((t) => {
+    const flowKey = `${t.fromStoreHouse}>${t.toStoreHouse}`;
+    const flow = flows.get(flowKey) ?? {
+      from: storehouseRef(t.fromStoreHouse),
+      to: storehouseRef(t.toStoreHouse),
+      totalQuantity: 0,
+      transferCount: 0,
+    };
+    flow.totalQuantity += t.quantity;
+    flow.transferCount++;
+    flows.set(flowKey, flow);
+
+    const item = items.get(t.itemId) ?? {
+      itemId: t.itemId,
+      name: itemLabel(t.itemId).name,
+      totalQuantity: 0,
+      transferCount: 0,
+    };
+    item.totalQuantity += t.quantity;
+    item.transferCount++;
+    items.set(t.itemId, item);
+
+    netEntry(t.fromStoreHouse).out += t.quantity;
+    netEntry(t.toStoreHouse).in += t.quantity;
+  });
+
+  return {
+    flows: Array.from(flows.values())
+      .sort((a, b) => b.totalQuantity - a.totalQuantity)
+      .slice(0, scope.limit),
+    topItems: Array.from(items.values())
+      .sort((a, b) => b.totalQuantity - a.totalQuantity)
+      .slice(0, scope.limit),
+    netFlow: Array.from(net.values()).map((entry) => ({
+      ...entry,
+      net: entry.in - entry.out,
+    })),
+  };
+}
+
+/**
+ * Stock per storehouse and item at the end of a day (UTC), valued from
+ * the cost layers as they stood then
+ */
+function valuationReport(req: MockRequest): ValuationReportData {
+  const date = req.query.get('date') ?? new Date().toISOString().slice(0, 10);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) {
+    badRequest('date must be YYYY-MM-DD');
+  }
+  const storehouseId = req.query.get('storehouseId');
+  const costing = replayCosts(`${date}T23:59:59.999Z`);
+
+  const storehouses = new Map<
+    string,
+    ValuationReportData['storehouses'][number]
+  >();
+  costedStock(costing)
+    .filter((stock) => !storehouseId || stock.storeHouse === storehouseId)
+    .forEach(({ itemId, storeHouse, quantity, value }) => {
+      const entry = storehouses.get(storeHouse) ?? {
+        storehouseId: storeHouse,
+        storehouseName:
+          findStorehouse(storeHouse)?.name ?? 'Deleted storehouse',
+        totalQuantity: 0,
+        totalValue: 0,
+        items: [],
+      };
+      entry.items.push({
+        itemId,
+        ...itemLabel(itemId),
+        quantity,
+        unitCost: round(value / quantity),
+        value: round(value),
+      });
+      entry.totalQuantity += quantity;
+      entry.totalValue += value;
+      storehouses.set(storeHouse, entry);
+    });
+
+  const byStorehouse = Array.from(storehouses.values())
+    .map((entry) => ({
+      ...entry,
+      totalValue: round(entry.totalValue),
+      items: entry.items.sort((a, b) => b.value - a.value),
+    }))
+    .sort((a, b) => a.storehouseName.localeCompare(b.storehouseName));
+
+  return {
+    date,
+    method: costing.method,
+    totalQuantity: byStorehouse.reduce((sum, s) => sum + s.totalQuantity, 0),
+    totalValue: round(byStorehouse.reduce((sum, s) => sum + s.totalValue, 0)),
+    storehouses: byStorehouse,
+  };
+}
+
+export const analyticsRoutes: MockRoute[] = [
+  route('GET', '/analytics/profit-loss', (req) => profitLoss(readScope(req))),
+  route('GET', '/analytics/trends', (req) => trends(readScope(req))),
+  route('GET', '/analytics/top-items', (req) => topItems(readScope(req))),
+  route('GET', '/analytics/partners', (req) =>
+    partnerAnalytics(readScope(req))
+  ),
+  route('GET', '/analytics/inventory', (req) =>
+    inventorySnapshot(readScope(req))
+  ),
+  route('GET', '/analytics/payments', (req) => paymentInsights(readScope(req))),
+  route('GET', '/analytics/discounts', (req) =>
+    discountAnalysis(readScope(req))
+  ),
+  route('GET', '/analytics/storehouses', (req) =>
+    storehouseComparison(readScope(req))
+  ),
+  route('GET', '/analytics/transfers', (req) => transferFlow(readScope(req))),
+  route('GET', '/analytics/valuation', (req) => valuationReport(req)),
+];
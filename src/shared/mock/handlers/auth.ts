@@ -0,0 +1,333 @@
+/**
+ * Mock auth endpoints (/auth/*)
+ *
+ * Mirrors the backend session model: a refresh "cookie" (auth.userId)
+ * that survives until logout, and a short-lived access token that is
+ * re-issued by /auth/refresh. The api-client's refresh-on-401 path runs
+ * against this exactly as it does against the real server.
+ */
+
+import type { ResolvedPermissions } from '@/shared/api/roles.api';
+import { fullPermissions } from '../fixtures';
+import { getDb, nowIso, objectId, type MockUser } from '../mock-db';
+import {
+  badRequest,
+  currentUser,
+  httpError,
+  route,
+  type MockRoute,
+} from '../router';
+
+const CSRF_HEADER = 'X-CSRF-Token';
+
+const ACCESS_TOKEN_TTL = 15 * 60;
+
+function base64Url(value: unknown): string {
+  return btoa(JSON.stringify(value))
+    .replace(/=+$/, '')
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+}
+
+/**
+ * JWT-shaped (unsigned) token so the client can read `exp` like it does
+ * for real tokens
+ */
+function createAccessToken(user: MockUser): string {
+  const exp = Math.floor(Date.now() / 1000) + ACCESS_TOKEN_TTL;
+  const header = base64Url({ alg: 'none', typ: 'JWT' });
+  const payload = base64Url({ sub: user._id, jti: objectId(), exp });
+  return `${header}.${payload}.mock`;
+}
+
+/**
+ * Issue a new access token (and CSRF cookie) for a user
+ */
+function signIn(user: MockUser) {
+  const db = getDb();
+  db.auth.userId = user._id;
+  db.auth.accessToken = createAccessToken(user);
+  document.cookie = `csrf-token=${db.auth.csrfToken}; path=/`;
+  return {
+    user,
+    accessToken: db.auth.accessToken,
+    csrfToken: db.auth.csrfToken,
+  };
+}
+
+function signOut(): void {
+  const db = getDb();
+  db.auth.userId = null;
+  db.auth.accessToken = null;
+}
+
+/**
+ * Merge the user's custom roles (admins get everything)
+ */
+export function resolvePermissions(user: MockUser): ResolvedPermissions {
+  const db = getDb();
+  if (user.appRole !== 'user') {
+    return {
+      isAdmin: true,
+      permissions: fullPermissions(),
+      storeHouses: db.storehouses.map((s) => s._id),
+    };
+  }
+
+  const permissions = fullPermissions();
+  (Object.keys(permissions) as Array<keyof typeof permissions>).forEach(
+    (resource) => {
+      permissions[resource] = {};
+    }
+  );
+  db.roles
+    .filter((role) => user.accessRole.includes(role._id))
+    .forEach((role) => {
+      (
+        Object.keys(role.permissions) as Array<keyof typeof permissions>
+      ).forEach((resource) => {
+        const granted = role.permissions[resource];
+        Object.entries(granted ?? {}).forEach(([action, allowed]) => {
+          if (allowed) {
+            permissions[resource] = {
+              ...permissions[resource],
+              [action]: true,
+            };
+          }
+        });
+      });
+    });
+
+  return { isAdmin: false, permissions, storeHouses: user.storeHouses };
+}
+
+/**
+ * Create a user in the demo business (registration / invitation)
+ */
+function createUser(
+  data: {
+    name: string;
+    phoneNumber?: string;
+    birthDate?: string;
+  },
+  email: string,
+  fields: Partial<MockUser>
+): MockUser {
+  const db = getDb();
+  const timestamp = nowIso();
+  const user: MockUser = {
+    _id: objectId(),
+    email,
+    name: data.name,
+    appRole: 'user',
+    phoneNumber: data.phoneNumber,
+    birthDate: data.birthDate,
+    business: db.business._id,
+    storeHouses: [],
+    accessRole: [],
+    isActive: true,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    ...fields,
+  };
+  db.users.push(user);
+  return user;
+}
+
+function findUserByEmail(email: string): MockUser | undefined {
+  return getDb().users.find(
+    (u) => u.email.toLowerCase() === email.trim().toLowerCase()
+  );
+}
+
+export const authRoutes: MockRoute[] = [
+  route(
+    'POST',
+    '/auth/signup',
+    (req) => {
+      const email = String(req.body['email'] ?? '');
+      if (!email) badRequest('Email is required');
+      if (findUserByEmail(email)) throw httpError(409, 4004);
+      return { message: 'Verification email sent. Please check your inbox.' };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'GET',
+    '/auth/verify-token/:token',
+    (req) => {
+      const db = getDb();
+      const invite = db.invitedUsers.find((i) => i._id === req.params['token']);
+      if (invite) {
+        return {
+          email: invite.email,
+          accountType: 'invited',
+          businessName: db.business.name,
+        };
+      }
+      return { email: 'new.owner@example.com', accountType: 'self_registered' };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/complete-registration',
+    (req) => {
+      const db = getDb();
+      const body = req.body as {
+        user?: { name: string; phoneNumber?: string; birthDate?: string };
+        business?: { name: string; address: string; phoneNumber: string };
+        storeHouse?: { name?: string; address: string };
+      };
+      if (!body.user || !body.business || !body.storeHouse) {
+        badRequest('user, business and storeHouse are required');
+      }
+
+      // The mock keeps one business: registration takes it over
+      const timestamp = nowIso();
+      const user = createUser(body.user, 'new.owner@example.com', {
+        appRole: 'admin',
+      });
+      Object.assign(db.business, body.business, { creator: user._id });
+      const storeHouse = {
+        _id: objectId(),
+        name: body.storeHouse.name || 'Main Storehouse',
+        address: body.storeHouse.address,
+        phoneNumber: '',
+        email: '',
+        business: db.business._id,
+        isLocked: false,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      db.storehouses.push(storeHouse);
+      user.storeHouses = db.storehouses.map((s) => s._id);
+
+      return { ...signIn(user), business: db.business, storeHouse };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/complete-invitation',
+    (req) => {
+      const db = getDb();
+      const body = req.body as {
+        token?: string;
+        user?: { name: string; phoneNumber?: string; birthDate?: string };
+      };
+      const invite = db.invitedUsers.find((i) => i._id === body.token);
+      if (!invite) throw httpError(400, 4306);
+      if (!body.user) badRequest('user is required');
+
+      const user = createUser(body.user, invite.email, {
+        appRole: invite.assignedAppRole,
+        accessRole: invite.assignedRoles,
+        storeHouses: invite.assignedStoreHouses,
+      });
+      db.invitedUsers = db.invitedUsers.filter((i) => i !== invite);
+
+      return { ...signIn(user), business: db.business };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/login',
+    (req) => {
+      // Any password works for a known account
+      const user = findUserByEmail(String(req.body['email'] ?? ''));
+      if (!user) throw httpError(401, 4002);
+      if (!user.isActive) throw httpError(403, 4308);
+      return signIn(user);
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/refresh',
+    () => {
+      const db = getDb();
+      const user = db.users.find((u) => u._id === db.auth.userId);
+      if (!user) throw httpError(401, 4104);
+      const { accessToken, csrfToken } = signIn(user);
+      return { accessToken, csrfToken };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/logout',
+    () => {
+      signOut();
+      return { message: 'Logged out' };
+    },
+    { isPublic: true }
+  ),
+
+  route('POST', '/auth/logout-all', () => {
+    signOut();
+    getDb().sessions = [];
+    return { message: 'Logged out from all devices' };
+  }),
+
+  route('GET', '/auth/profile', (req) => currentUser(req)),
+
+  route('GET', '/auth/permissions', (req) =>
+    resolvePermissions(currentUser(req))
+  ),
+
+  route('GET', '/auth/sessions', () => {
+    const { sessions } = getDb();
+    return { sessions, count: sessions.length };
+  }),
+
+  route('DELETE', '/auth/sessions/:id', (req) => {
+    const db = getDb();
+    const before = db.sessions.length;
+    db.sessions = db.sessions.filter((s) => s.id !== req.params['id']);
+    if (db.sessions.length === before) throw httpError(404, 4411);
+    return { message: 'Session revoked' };
+  }),
+
+  route(
+    'POST',
+    '/auth/forgot-password',
+    () => ({ message: 'Password reset email sent' }),
+    { isPublic: true }
+  ),
+
+  route(
+    'POST',
+    '/auth/reset-password',
+    (req) => {
+      if (!req.body['token']) throw httpError(400, 4006);
+      return { message: 'Password reset successfully' };
+    },
+    { isPublic: true }
+  ),
+
+  route(
+    'GET',
+    '/auth/csrf',
+    () => {
+      const { csrfToken } = getDb().auth;
+      document.cookie = `csrf-token=${csrfToken}; path=/`;
+      return { csrfToken, headerName: CSRF_HEADER };
+    },
+    { isPublic: true }
+  ),
+
+  route('POST', '/auth/change-password', (req) => {
+    if (!req.body['currentPassword'] || !req.body['newPassword']) {
+      throw httpError(400, 4009);
+    }
+    return { message: 'Password changed successfully' };
+  }),
+];
@@ -0,0 +1,420 @@
+/**
+ * Mock billing endpoints (/subscription/*, /stripe/*)
+ *
+ * Plan changes apply immediately (no payment step); usage is counted
+ * from the live dataset so limits react to what the demo creates.
+ */
+
+import type {
+  DowngradeRequirements,
+  FeatureFlag,
+  Invoice,
+  LimitDimension,
+  PlanDefinition,
+  PlanTier,
+  UsageSummary,
+} from '@/features/billing/types/billing.types';
+import { getDb, nowIso, objectId } from '../mock-db';
+import { NO_CONTENT, badRequest, route, type MockRoute } from '../router';
+
+const DAY = 86_400_000;
+
+export const MOCK_PLANS: PlanDefinition[] = [
+  {
+    tier: 'free',
+    label: 'Free',
+    description: 'For getting started with a single store',
+    limits: {
+      storehouses: 1,
+      users: 2,
+      items: 50,
+      monthlyTransactions: 100,
+      apiRequestsPerMinute: 60,
+    },
+    features: { transfers: false, customRoles: false, advancedReports: false },
+    priceMonthly: 0,
+    priceAnnual: 0,
+  },
+  {
+    tier: 'pro',
+    label: 'Pro',
+    description: 'For growing businesses with several locations',
+    limits: {
+      storehouses: 5,
+      users: 15,
+      items: 5000,
+      monthlyTransactions: 10000,
+      apiRequestsPerMinute: 300,
+    },
+    features: { transfers: true, customRoles: true, advancedReports: true },
+    priceMonthly: 2900,
+    priceAnnual: 29000,
+  },
+  {
+    tier: 'enterprise',
+    label: 'Enterprise',
+    description: 'Unlimited scale with priority support',
+    limits: {
+      storehouses: -1,
+      users: -1,
+      items: -1,
+      monthlyTransactions: -1,
+      apiRequestsPerMinute: 1000,
+    },
+    features: { transfers: true, customRoles: true, advancedReports: true },
+    priceMonthly: 9900,
+    priceAnnual: 99000,
+    comingSoon: true,
+  },
+];
+
+function planDefinition(tier: PlanTier): PlanDefinition {
+  return (
+    MOCK_PLANS.find((p) => p.tier === tier) ?? (MOCK_PLANS[0] as PlanDefinition)
+  );
+}
+
+/**
+ * Effective limit for a dimension (overrides win). -1 = unlimited.
+ */
+export function planLimit(dimension: LimitDimension): number {
+  const { subscription } = getDb();
+  return (
+    subscription.limitOverrides[dimension] ??
+    planDefinition(subscription.plan).limits[dimension]
+  );
+}
+
+function currentUsage(dimension: LimitDimension): number {
+  const db = getDb();
+  switch (dimension) {
+    case 'storehouses':
+      return db.storehouses.filter((s) => !s.isLocked).length;
+    case 'users':
+      return db.users.filter((u) => u.isActive).length;
+    case 'items':
+      return db.items.length;
+    case 'monthlyTransactions': {
+      const monthStart = new Date();
+      monthStart.setUTCDate(1);
+      monthStart.setUTCHours(0, 0, 0, 0);
+      return db.transactions.filter(
+        (t) => t.createdAt >= monthStart.toISOString()
+      ).length;
+    }
+  }
+}
+
+function periodBounds(): { start: Date; end: Date } {
+  const start = new Date();
+  start.setUTCDate(1);
+  start.setUTCHours(0, 0, 0, 0);
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return { start, end };
+}
+
+/**
+ * Build GET /subscription from the current state
+ */
+export function usageSummary(): UsageSummary {
+  const { subscription } = getDb();
+  const plan = planDefinition(subscription.plan);
+  const isPaid = subscription.plan !== 'free';
+  const { start, end } = periodBounds();
+
+  const usage = (dimension: LimitDimension) => ({
+    current: currentUsage(dimension),
+    limit: planLimit(dimension),
+  });
+
+  return {
+    plan: subscription.plan,
+    status: subscription.status,
+    limits: {
+      storehouses: usage('storehouses'),
+      users: usage('users'),
+      items: usage('items'),
+      monthlyTransactions: usage('monthlyTransactions'),
+    },
+    features: { ...plan.features, ...subscription.featureOverrides },
+    apiRequestsPerMinute: plan.limits.apiRequestsPerMinute,
+    currentPeriodStart: isPaid ? start.toISOString() : null,
+    currentPeriodEnd: isPaid ? end.toISOString() : null,
+    canceledAt: subscription.canceledAt,
+    billingCycle: isPaid ? subscription.billingCycle : null,
+    pendingDowngrade: null,
+    hasStripeSubscription: isPaid && subscription.status !== 'trialing',
+    paymentMethod: isPaid
+      ? { last4: '4242', brand: 'visa', expMonth: 12, expYear: 2030 }
+      : null,
+    nextInvoice:
+      isPaid && !subscription.canceledAt
+        ? {
+            amountDue:
+              subscription.billingCycle === 'annual'
+                ? plan.priceAnnual
+                : plan.priceMonthly,
+            currency: 'usd',
+            dueDate: end.toISOString(),
+          }
+        : null,
+    trialEndsAt: subscription.trialEndsAt,
+    hasUsedTrial: subscription.hasUsedTrial,
+    limitOverrides: subscription.limitOverrides,
+    featureOverrides: subscription.featureOverrides,
+  };
+}
+
+/**
+ * Lock storehouses / deactivate users picked by the user
+ */
+function applySelections(selection: {
+  lockStorehouseIds?: string[];
+  unlockStorehouseIds?: string[];
+  deactivateUserIds?: string[];
+  reactivateUserIds?: string[];
+}): void {
+  const db = getDb();
+  db.storehouses.forEach((s) => {
+    if (selection.lockStorehouseIds?.includes(s._id)) s.isLocked = true;
+    if (selection.unlockStorehouseIds?.includes(s._id)) s.isLocked = false;
+  });
+  db.users.forEach((u) => {
+    if (u._id === db.business.creator) return;
+    if (selection.deactivateUserIds?.includes(u._id)) u.isActive = false;
+    if (selection.reactivateUserIds?.includes(u._id)) u.isActive = true;
+  });
+}
+
+function setPlan(plan: PlanTier, cycle?: 'monthly' | 'annual'): void {
+  const { subscription } = getDb();
+  subscription.plan = plan;
+  subscription.status = 'active';
+  subscription.billingCycle = plan === 'free' ? null : (cycle ?? 'monthly');
+  subscription.trialEndsAt = null;
+  subscription.canceledAt = null;
+}
+
+function downgradeRequirements(target: PlanTier): DowngradeRequirements {
+  const db = getDb();
+  const limits = planDefinition(target).limits;
+  const activeStorehouses = db.storehouses.filter((s) => !s.isLocked);
+  const activeUsers = db.users.filter((u) => u.isActive);
+  const over = (count: number, limit: number) =>
+    limit === -1 ? 0 : Math.max(0, count - limit);
+
+  return {
+    storehousesToLock: over(activeStorehouses.length, limits.storehouses),
+    usersToDeactivate: over(activeUsers.length, limits.users),
+    currentStorehouses: activeStorehouses.map((s) => ({
+      id: s._id,
+      name: s.name,
+      createdAt: s.createdAt,
+    })),
+    currentActiveUsers: activeUsers.map((u) => ({
+      id: u._id,
+      name: u.name,
+      email: u.email,
+      createdAt: u.createdAt,
+    })),
+  };
+}
+
+function swapCandidates() {
+  const db = getDb();
+  const storehouse = (s: (typeof db.storehouses)[number]) => ({
+    id: s._id,
+    name: s.name,
+    createdAt: s.createdAt,
+  });
+  const user = (u: (typeof db.users)[number]) => ({
+    id: u._id,
+    name: u.name,
+    email: u.email,
+    createdAt: u.createdAt,
+  });
+  return {
+    lockedStorehouses: db.storehouses.filter((s) => s.isLocked).map(storehouse),
+    activeStorehouses: db.storehouses
+      .filter((s) => !s.isLocked)
+      .map(storehouse),
+    inactiveUsers: db.users.filter((u) => !u.isActive).map(user),
+    activeUsers: db.users.filter((u) => u.isActive).map(user),
+  };
+}
+
+function mockInvoices(limit: number): Invoice[] {
+  const { subscription } = getDb();
+  if (subscription.plan === 'free') return [];
+  const plan = planDefinition(subscription.plan);
+  const { start } = periodBounds();
+
+  return Array.from({ length: Math.min(limit, 3) }, (_, index) => {
+    const periodStart = new Date(start);
+    periodStart.setUTCMonth(periodStart.getUTCMonth() - index);
+    const periodEnd = new Date(periodStart);
+    periodEnd.setUTCMonth(periodEnd.getUTCMonth() + 1);
+    return {
+      id: `in_mock_${index + 1}`,
+      number: `MOCK-${String(index + 1).padStart(4, '0')}`,
+      status: 'paid',
+      amountPaid: plan.priceMonthly,
+      amountDue: plan.priceMonthly,
+      currency: 'usd',
+      created: Math.floor(periodStart.getTime() / 1000),
+      periodStart: Math.floor(periodStart.getTime() / 1000),
+      periodEnd: Math.floor(periodEnd.getTime() / 1000),
+      hostedInvoiceUrl: null,
+      invoicePdf: null,
+    };
+  });
+}
+
+export const billingRoutes: MockRoute[] = [
+  route('GET', '/subscription', () => usageSummary()),
+
+  route('GET', '/subscription/plans', () => MOCK_PLANS),
+
+  route('POST', '/subscription/change-plan', (req) => {
+    const body = req.body as {
+      plan?: PlanTier;
+      cycle?: 'monthly' | 'annual';
+      lockedStorehouseIds?: string[];
+      deactivatedUserIds?: string[];
+    };
+    if (!body.plan) badRequest('plan is required');
+    applySelections({
+      lockStorehouseIds: body.lockedStorehouseIds,
+      deactivateUserIds: body.deactivatedUserIds,
+    });
+    setPlan(body.plan, body.cycle);
+    return usageSummary();
+  }),
+
+  route('GET', '/subscription/downgrade-requirements', (req) =>
+    downgradeRequirements((req.query.get('plan') as PlanTier) || 'free')
+  ),
+
+  route('GET', '/subscription/pending-downgrade', () => null),
+
+  route('POST', '/subscription/resolve-downgrade', (req) => {
+    const body = req.body as {
+      unlockStorehouseIds?: string[];
+      reactivateUserIds?: string[];
+    };
+    applySelections(body);
+    return usageSummary();
+  }),
+
+  route('GET', '/subscription/swap-candidates', () => swapCandidates()),
+
+  route('POST', '/subscription/swap', (req) => {
+    applySelections(req.body as Parameters<typeof applySelections>[0]);
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/enforce-limits', (req) => {
+    const body = req.body as {
+      lockedStorehouseIds?: string[];
+      deactivatedUserIds?: string[];
+    };
+    applySelections({
+      lockStorehouseIds: body.lockedStorehouseIds,
+      deactivateUserIds: body.deactivatedUserIds,
+    });
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/start-trial', () => {
+    const { subscription } = getDb();
+    if (subscription.hasUsedTrial) badRequest('Trial already used');
+    subscription.plan = 'pro';
+    subscription.status = 'trialing';
+    subscription.hasUsedTrial = true;
+    subscription.trialEndsAt = new Date(Date.now() + 30 * DAY).toISOString();
+    return usageSummary();
+  }),
+
+  // ---------- Dev portal overrides ----------
+  route('GET', '/subscription/inspect/:businessId', () => usageSummary()),
+
+  route('POST', '/subscription/override/limit', (req) => {
+    const { dimension, value } = req.body as {
+      dimension: LimitDimension;
+      value: number;
+    };
+    getDb().subscription.limitOverrides[dimension] = Number(value);
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/override/feature', (req) => {
+    const { feature, enabled } = req.body as {
+      feature: FeatureFlag;
+      enabled: boolean;
+    };
+    getDb().subscription.featureOverrides[feature] = Boolean(enabled);
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/override/clear-limit', (req) => {
+    delete getDb().subscription.limitOverrides[String(req.body['dimension'])];
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/override/clear-feature', (req) => {
+    delete getDb().subscription.featureOverrides[String(req.body['feature'])];
+    return usageSummary();
+  }),
+
+  route('POST', '/subscription/override/clear-all', () => {
+    const { subscription } = getDb();
+    subscription.limitOverrides = {};
+    subscription.featureOverrides = {};
+    return usageSummary();
+  }),
+
+  // ---------- Stripe ----------
+  route('POST', '/stripe/subscribe', (req) => {
+    const { plan, cycle } = req.body as {
+      plan?: PlanTier;
+      cycle?: 'monthly' | 'annual';
+    };
+    if (!plan) badRequest('plan is required');
+    setPlan(plan, cycle);
+    return {
+      clientSecret: 'mock_secret_skip_payment',
+      subscriptionId: `sub_mock_${objectId().slice(0, 12)}`,
+      customerId: `cus_mock_${getDb().business._id.slice(0, 12)}`,
+      mock: true,
+    };
+  }),
+
+  route('POST', '/stripe/portal', (req) => ({
+    url: String(req.body['returnUrl'] ?? window.location.href),
+  })),
+
+  route('GET', '/stripe/invoices', (req) =>
+    mockInvoices(Number(req.query.get('limit')) || 10)
+  ),
+
+  route('POST', '/stripe/cancel', () => {
+    getDb().subscription.canceledAt = nowIso();
+    return {
+      subscriptionId: 'sub_mock',
+      cancelAtPeriodEnd: true,
+      currentPeriodEnd: Math.floor(periodBounds().end.getTime() / 1000),
+    };
+  }),
+
+  route('POST', '/stripe/reactivate', () => {
+    getDb().subscription.canceledAt = null;
+    return usageSummary();
+  }),
+
+  route('POST', '/stripe/cancel-pending-downgrade', () => NO_CONTENT),
+
+  route('POST', '/stripe/retry-payment', (req) => ({
+    url: String(req.body['returnUrl'] ?? window.location.href),
+  })),
+];
@@ -0,0 +1,123 @@
+/**
+ * Mock business endpoints (/business/*), including the dev portal views
+ *
+ * The mock holds a single business; dev-portal listings show just that one.
+ */
+
+import { isValidSkuPattern } from '@/shared/lib/product-codes';
+import { getDb, type MockBusiness } from '../mock-db';
+import {
+  badRequest,
+  httpError,
+  notFound,
+  route,
+  type MockRoute,
+} from '../router';
+
+const DAY = 86_400_000;
+
+function requireBusiness(id: string | undefined): MockBusiness {
+  const { business } = getDb();
+  return business._id === id ? business : notFound(4401);
+}
+
+function latest(dates: string[]): string | null {
+  return dates.length ? dates.reduce((a, b) => (a > b ? a : b)) : null;
+}
+
+export const businessRoutes: MockRoute[] = [
+  route('GET', '/business/current', () => getDb().business),
+
+  route('GET', '/business/activity', () => {
+    const db = getDb();
+    const since = new Date(Date.now() - 30 * DAY).toISOString();
+    const owner = db.users.find((u) => u._id === db.business.creator);
+    const lastTransactionAt = latest(db.transactions.map((t) => t.createdAt));
+    const lastImportAt = latest(db.imports.map((i) => i.createdAt));
+    const lastActivityAt = latest(
+      [lastTransactionAt, lastImportAt].filter((d): d is string => !!d)
+    );
+
+    return [
+      {
+        businessId: db.business._id,
+        businessName: db.business.name,
+        ownerEmail: owner?.email ?? '',
+        plan: db.subscription.plan,
+        status: db.subscription.status,
+        lastTransactionAt,
+        lastImportAt,
+        lastLoginAt: db.sessions[0]?.lastUsedAt ?? null,
+        lastActivityAt,
+        transactionCount30d: db.transactions.filter((t) => t.createdAt >= since)
+          .length,
+        importCount30d: db.imports.filter((i) => i.createdAt >= since).length,
+        daysSinceLastActivity: lastActivityAt
+          ? Math.floor((Date.now() - new Date(lastActivityAt).getTime()) / DAY)
+          : -1,
+        createdAt: db.business.createdAt,
+      },
+    ];
+  }),
+
+  route('POST', '/business/send-reminder', (req) => {
+    requireBusiness(String(req.body['businessId'] ?? ''));
+    const db = getDb();
+    const owner = db.users.find((u) => u._id === db.business.creator);
+    return { message: 'Reminder sent', to: owner?.email ?? '' };
+  }),
+
+  route('GET', '/business', (req) => {
+    const { business } = getDb();
+    const search = req.query.get('search')?.toLowerCase();
+    return !search || business.name.toLowerCase().includes(search)
+      ? [business]
+      : [];
+  }),
+
+  route('POST', '/business', (req) => {
+    const db = getDb();
+    Object.assign(db.business, req.body);
+    return db.business;
+  }),
+
+  route('GET', '/business/:id', (req) => requireBusiness(req.params['id'])),
+
+  route('PUT', '/business/:id', (req) => {
+    const business = requireBusiness(req.params['id']);
+    const {
+      _id,
+      creator: _creator,
+      skuSequence: _skuSequence,
+      ...updates
+    } = req.body as Partial<MockBusiness>;
+    if (
+      updates.skuPattern !== undefined &&
+      !isValidSkuPattern(updates.skuPattern)
+    ) {
+      throw httpError(400, 4502);
+    }
+    for (const field of [
+      'leadTimeDays',
+      'safetyStockDays',
+      'reorderCoverDays',
+    ] as const) {
+      const days = updates[field];
+      if (days === undefined) continue;
+      if (!Number.isInteger(days) || days < 0 || days > 365) {
+        badRequest(`${field} must be a whole number of days up to 365`);
+      }
+    }
+    if (updates.reorderCoverDays === 0) {
+      badRequest('reorderCoverDays must be at least 1');
+    }
+    if (
+      updates.costingMethod !== undefined &&
+      !['fifo', 'average'].includes(updates.costingMethod)
+    ) {
+      badRequest('costingMethod must be fifo or average');
+    }
+    Object.assign(business, updates);
+    return business;
+  }),
+];
@@ -0,0 +1,914 @@
+/**
+ * Mock item endpoints (/item/*)
+ */
+
+import {
+  adjustItemQuantity,
+  assembleKits,
+  assertSerialsHeld,
+  assertSerialsNew,
+  findItem,
+  findStorehouse,
+  getDb,
+  kitDetails,
+  levelThreshold,
+  nowIso,
+  objectId,
+  pickLots,
+  pickSerials,
+  populateItem,
+  populatePartner,
+  populatePriceChange,
+  populateStockMovement,
+  populateStorehouse,
+  recordPriceChange,
+  recordStockMovement,
+  removeLots,
+  removeSerials,
+  serialLevel,
+  stockLevel,
+  syncQuantity,
+  type MockItem,
+  type MockKitComponent,
+  type MockPackUnit,
+  type MockStockLevel,
+  type RecordStatus,
+} from '../mock-db';
+import {
+  formatSku,
+  isValidGtin,
+  normalizeGtin,
+} from '@/shared/lib/product-codes';
+import { costedItemValue, replayCosts, type Costing } from '../costing';
+import { planLimit } from './billing';
+import {
+  NO_CONTENT,
+  badRequest,
+  httpError,
+  inDateRange,
+  isMockHttpError,
+  notFound,
+  paginate,
+  route,
+  sortBy,
+  type MockRequest,
+  type MockRoute,
+} from '../router';
+
+/** Reasons accepted by the manual adjustment endpoint */
+const ADJUSTMENT_REASONS = [
+  'sale',
+  'damage',
+  'theft',
+  'manual-count',
+  'return',
+  'supplier-delivery',
+];
+
+/** Days of sales history reorder suggestions are based on */
+const SALES_LOOKBACK_DAYS = 90;
+const DAY_MS = 86_400_000;
+
+/** Photos an item can have */
+const MAX_ITEM_IMAGES = 10;
+/** Largest accepted upload; the app resizes photos well below this */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/** Something that happened to one serialized unit */
+interface SerialEvent {
+  type: 'import' | 'sale' | 'transfer';
+  itemId: string;
+  reference: string;
+  status: RecordStatus;
+  date: string;
+  /** Where the unit arrived (imports) or left from (sales, transfers) */
+  storeHouse: string;
+  toStoreHouse?: string;
+  partner: string | null;
+}
+
+function levelStatus(item: MockItem, level: MockStockLevel): string {
+  if (level.quantity === 0) return 'out-of-stock';
+  if (level.quantity <= levelThreshold(item, level)) return 'low-stock';
+  return 'in-stock';
+}
+
+/**
+ * Status at one storehouse, or overall: out of stock when nothing is left
+ * anywhere, low when any location is at or below its threshold
+ */
+function stockStatus(item: MockItem, storehouseId?: string | null): string {
+  if (storehouseId) {
+    const level = stockLevel(item, storehouseId);
+    return level ? levelStatus(item, level) : 'out-of-stock';
+  }
+  if (item.quantity === 0) return 'out-of-stock';
+  return item.stock.some((level) => levelStatus(item, level) !== 'in-stock')
+    ? 'low-stock'
+    : 'in-stock';
+}
+
+/**
+ * Same criteria as GET /item (search, stock status, tags, storehouse).
+ * With a storehouse, items stocked there match and the status is the one
+ * at that location.
+ */
+export function matchesItemFilters(
+  item: MockItem,
+  filters: {
+    search?: string | null;
+    status?: string | null;
+    tags?: string[];
+    storeHouse?: string | null;
+    /** Match archived items instead of active ones */
+    archived?: boolean;
+  }
+): boolean {
+  const search = filters.search?.toLowerCase();
+  const tags = filters.tags ?? [];
+  return (
+    (!search ||
+      item.name.toLowerCase().includes(search) ||
+      item.sku.toLowerCase().includes(search) ||
+      item.barcodes.some((code) => code.includes(search)) ||
+      !!item.description?.toLowerCase().includes(search) ||
+      item.tags.some((tag) => tag.toLowerCase().includes(search))) &&
+    (!filters.status ||
+      stockStatus(item, filters.storeHouse) === filters.status) &&
+    (tags.length === 0 || tags.some((tag) => item.tags.includes(tag))) &&
+    (!filters.storeHouse || !!stockLevel(item, filters.storeHouse)) &&
+    !!item.archived === !!filters.archived
+  );
+}
+
+/**
+ * Whether a scanned or typed code is the item's id, SKU or one of its
+ * barcodes (UPC-A and EAN-13 forms of a GTIN match each other)
+ */
+function matchesCode(item: MockItem, code: string): boolean {
+  const gtin = isValidGtin(code) ? normalizeGtin(code) : null;
+  return (
+    item._id === code ||
+    item.sku.toLowerCase() === code.toLowerCase() ||
+    (gtin !== null && item.barcodes.some((b) => normalizeGtin(b) === gtin))
+  );
+}
+
+/**
+ * SKUs are unique per business. A product stocked at several storehouses
+ * is one item with a stock level per location, not one item each.
+ */
+function assertUniqueSku(sku: string, itemId: string) {
+  const taken = getDb().items.some(
+    (other) =>
+      other._id !== itemId && other.sku.toLowerCase() === sku.toLowerCase()
+  );
+  if (taken) throw httpError(409, 4500);
+}
+
+/**
+ * Next SKU from the business pattern, skipping numbers already in use
+ */
+function generateSku(name: string): string {
+  const { business, items } = getDb();
+  const used = new Set(items.map((item) => item.sku.toLowerCase()));
+  let sku: string;
+  do {
+    sku = formatSku(business.skuPattern, {
+      sequence: business.skuSequence++,
+      name,
+      date: new Date(nowIso()),
+    });
+  } while (used.has(sku.toLowerCase()));
+  return sku;
+}
+
+function readBarcodes(value: unknown): string[] {
+  if (!Array.isArray(value)) badRequest('barcodes must be a list');
+  const codes = (value as string[]).map((code) => String(code).trim());
+  if (!codes.every(isValidGtin)) throw httpError(400, 4501);
+  return Array.from(new Set(codes));
+}
+
+/**
+ * Pack units of an item: named, other than the base unit and each other,
+ * and holding more than one base unit
+ */
+function readPackUnits(value: unknown, baseUnit: string): MockPackUnit[] {
+  if (!Array.isArray(value)) badRequest('packUnits must be a list');
+  const names = new Set([baseUnit.trim().toLowerCase()]);
+  return (value as Array<Partial<MockPackUnit>>).map((pack) => {
+    const unit = String(pack.unit ?? '').trim();
+    const factor = Number(pack.factor);
+    if (!unit) badRequest('Every pack unit needs a name');
+    if (names.has(unit.toLowerCase())) {
+      badRequest(`The unit ${unit} is defined twice`);
+    }
+    if (!(factor > 1)) {
+      badRequest(`A ${unit} must hold more than one ${baseUnit}`);
+    }
+    names.add(unit.toLowerCase());
+    return { unit, factor };
+  });
+}
+
+/**
+ * A kit's bill of materials: existing items, each listed once with a
+ * positive quantity. Kits don't nest, and serialized items can't be
+ * components since built kits don't record which units they used.
+ */
+function readComponents(value: unknown, kitId: string): MockKitComponent[] {
+  if (!Array.isArray(value)) badRequest('components must be a list');
+  const seen = new Set<string>();
+  return (value as Array<Partial<MockKitComponent>>).map((component) => {
+    const item = findItem(component.itemId ?? '') ?? notFound(4403);
+    const quantity = Number(component.quantity);
+    if (item._id === kitId) badRequest('A kit cannot contain itself');
+    if (seen.has(item._id)) badRequest(`${item.name} is listed twice`);
+    if (item.components?.length) {
+      badRequest(`${item.name} is a kit and cannot be a component`);
+    }
+    if (item.serialized) {
+      badRequest(`${item.name} is tracked by serial number`);
+    }
+    if (!(quantity > 0)) {
+      badRequest(`${item.name} needs a quantity above zero`);
+    }
+    seen.add(item._id);
+    return { itemId: item._id, quantity };
+  });
+}
+
+/**
+ * Kits using an item as a component
+ */
+function kitsUsing(itemId: string): MockItem[] {
+  return getDb().items.filter((kit) =>
+    kit.components?.some((component) => component.itemId === itemId)
+  );
+}
+
+/**
+ * Rejects turning an item into a kit when it can't be one: serialized,
+ * or itself a component of another kit
+ */
+function assertCanBeKit(item: {
+  _id: string;
+  name: string;
+  serialized?: boolean;
+}): void {
+  if (item.serialized) {
+    badRequest('Kits cannot be tracked by serial number');
+  }
+  const parent = kitsUsing(item._id)[0];
+  if (parent) {
+    badRequest(`${item.name} is a component of ${parent.name}`);
+  }
+}
+
+/**
+ * Image URLs of an item, the cover first
+ */
+function readImageUrls(value: unknown): string[] {
+  if (!Array.isArray(value) || value.some((url) => typeof url !== 'string')) {
+    badRequest('imageUrl must be a list of URLs');
+  }
+  const urls = value as string[];
+  if (urls.length > MAX_ITEM_IMAGES) {
+    badRequest(`at most ${MAX_ITEM_IMAGES} images per item`);
+  }
+  return urls;
+}
+
+/**
+ * Reorder point and quantity per item from its average daily sales over
+ * the lookback window (or since it was created, if later): enough stock
+ * to last the supplier lead time plus the safety days, and an order that
+ * covers the business's cover days. Items without completed sales in the
+ * window are left out.
+ */
+function reorderSuggestions() {
+  const { business, items, transactions } = getDb();
+  const now = Date.now();
+  const since = now - SALES_LOOKBACK_DAYS * DAY_MS;
+
+  const sold = new Map<string, number>();
+  for (const sale of transactions) {
+    if (sale.status !== 'completed') continue;
+    const date = Date.parse(sale.itemsDeliveredDate ?? sale.createdAt);
+    if (date < since || date > now) continue;
+    for (const line of sale.item) {
+      sold.set(line.itemId, (sold.get(line.itemId) ?? 0) + line.quantity);
+      // Components built into kits sold
+      line.builtFrom?.components.forEach((component) =>
+        sold.set(
+          component.itemId,
+          (sold.get(component.itemId) ?? 0) + component.quantity
+        )
+      );
+    }
+  }
+
+  const suggestions = items
+    .filter((item) => !item.archived && sold.has(item._id))
+    .map((item) => {
+      const days = Math.max(
+        1,
+        Math.min(
+          SALES_LOOKBACK_DAYS,
+          Math.ceil((now - Date.parse(item.createdAt)) / DAY_MS)
+        )
+      );
+      const dailySales = sold.get(item._id)! / days;
+      return {
+        item: item._id,
+        dailySales: Math.round(dailySales * 100) / 100,
+        reorderPoint: Math.ceil(
+          dailySales * (business.leadTimeDays + business.safetyStockDays)
+        ),
+        reorderQuantity: Math.max(
+          1,
+          Math.ceil(dailySales * business.reorderCoverDays)
+        ),
+      };
+    });
+
+  return {
+    lookbackDays: SALES_LOOKBACK_DAYS,
+    leadTimeDays: business.leadTimeDays,
+    safetyStockDays: business.safetyStockDays,
+    reorderCoverDays: business.reorderCoverDays,
+    items: suggestions,
+  };
+}
+
+function requireItem(id: string | undefined): MockItem {
+  return findItem(id ?? '') ?? notFound(4403);
+}
+
+/**
+ * Items are served populated only when asked (?populate=storeHouse), with
+ * the value of their stock at cost
+ */
+function present(
+  item: MockItem,
+  req: MockRequest,
+  costing: Costing = replayCosts()
+) {
+  return {
+    ...(req.query.get('populate') === 'storeHouse'
+      ? populateItem(item)
+      : { ...item, ...kitDetails(item, false) }),
+    stockValue: Math.round(costedItemValue(costing, item) * 100) / 100,
+  };
+}
+
+/**
+ * Writes into a locked storehouse are rejected (plan downgrade)
+ */
+function assertWritableStorehouse(storehouseId: string): void {
+  const storehouse = findStorehouse(storehouseId);
+  if (!storehouse) notFound(4402);
+  if (storehouse.isLocked) throw httpError(403, 4025);
+}
+
+/**
+ * POST /item, also used row by row by the bulk import
+ */
+function createItemRecord(body: Partial<MockItem>): MockItem {
+  if (!body.name || body.unitPrice === undefined || !body.unit) {
+    badRequest('name, unitPrice and unit are required');
+  }
+  if (!body.storeHouse) badRequest('storeHouse is required');
+  assertWritableStorehouse(body.storeHouse);
+
+  const limit = planLimit('items');
+  if (limit !== -1 && getDb().items.length >= limit) {
+    throw httpError(403, 4022);
+  }
+
+  const sku = body.sku?.trim() || generateSku(body.name);
+  assertUniqueSku(sku, '');
+  const components = body.components?.length
+    ? readComponents(body.components, '')
+    : undefined;
+  if (components) {
+    assertCanBeKit({ _id: '', name: body.name, serialized: body.serialized });
+  }
+
+  const timestamp = nowIso();
+  const quantity = Number(body.quantity ?? 0);
+  const item: MockItem = {
+    _id: objectId(),
+    name: body.name,
+    description: body.description,
+    unitPrice: Number(body.unitPrice),
+    sellingPrice:
+      body.sellingPrice === undefined ? undefined : Number(body.sellingPrice),
+    origin: body.origin,
+    tags: body.tags ?? [],
+    quantity,
+    unit: body.unit,
+    imageUrl: readImageUrls(body.imageUrl ?? []),
+    sku,
+    barcodes: readBarcodes(body.barcodes ?? []),
+    packUnits: body.packUnits?.length
+      ? readPackUnits(body.packUnits, body.unit)
+      : undefined,
+    storeHouse: body.storeHouse,
+    stock: [{ storeHouse: body.storeHouse, quantity }],
+    lowStockAt: Number(body.lowStockAt ?? 10),
+    serialized: body.serialized || undefined,
+    components,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+  getDb().items.push(item);
+  recordPriceChange(item);
+  if (item.quantity > 0) {
+    recordStockMovement(item, 0, {
+      source: 'adjustment',
+      reason: 'opening-balance',
+    });
+  }
+  return item;
+}
+
+/**
+ * Per-location thresholds from PUT /item/:id; null clears an override
+ */
+function applyThresholds(item: MockItem, value: unknown): void {
+  if (!Array.isArray(value)) badRequest('stock must be a list');
+  (value as Array<{ storeHouse?: string; lowStockAt?: number | null }>).forEach(
+    ({ storeHouse, lowStockAt }) => {
+      const level = stockLevel(item, storeHouse ?? '') ?? notFound(4402);
+      if (lowStockAt === null || lowStockAt === undefined) {
+        delete level.lowStockAt;
+      } else if (!(Number(lowStockAt) >= 0)) {
+        badRequest('lowStockAt cannot be negative');
+      } else {
+        level.lowStockAt = Number(lowStockAt);
+      }
+    }
+  );
+}
+
+/**
+ * PUT /item/:id, also used row by row by the bulk import.
+ *
+ * A new `quantity` is the item's total; the difference is booked at
+ * `stockAt`, the home storehouse unless the import names another.
+ * Changing `storeHouse` only re-points the home; stock stays put.
+ */
+function updateItemRecord(
+  item: MockItem,
+  body: Partial<MockItem>,
+  stockAt = item.storeHouse
+): MockItem {
+  assertWritableStorehouse(item.storeHouse);
+  if (body.storeHouse) assertWritableStorehouse(body.storeHouse);
+  if (stockAt !== item.storeHouse) assertWritableStorehouse(stockAt);
+  if (body.quantity !== undefined && Number(body.quantity) < 0) {
+    badRequest('quantity cannot be negative');
+  }
+  const level = stockLevel(item, stockAt, true)!;
+  if (
+    body.quantity !== undefined &&
+    level.quantity + Number(body.quantity) - item.quantity < 0
+  ) {
+    badRequest(
+      'quantity cannot drop below the stock held at other storehouses'
+    );
+  }
+
+  if (body.sku !== undefined) {
+    body.sku = body.sku.trim();
+    if (!body.sku) badRequest('sku cannot be empty');
+    assertUniqueSku(body.sku, item._id);
+  }
+  if (body.components !== undefined) {
+    const components = readComponents(body.components, item._id);
+    body.components = components.length > 0 ? components : undefined;
+  }
+  const serialized = body.serialized ?? item.serialized;
+  const components = 'components' in body ? body.components : item.components;
+  if (components?.length) assertCanBeKit({ ...item, serialized });
+  const parent = kitsUsing(item._id)[0];
+  if (serialized && parent) {
+    badRequest(`${item.name} is a component of ${parent.name}`);
+  }
+  if (body.barcodes !== undefined) body.barcodes = readBarcodes(body.barcodes);
+  if (body.imageUrl !== undefined) body.imageUrl = readImageUrls(body.imageUrl);
+  // null clears the selling price
+  if (body.sellingPrice === null) body.sellingPrice = undefined;
+  if (body.packUnits !== undefined || body.unit !== undefined) {
+    body.packUnits = readPackUnits(
+      body.packUnits ?? item.packUnits ?? [],
+      body.unit ?? item.unit
+    );
+  }
+
+  const previousQuantity = item.quantity;
+  const {
+    _id,
+    createdAt: _createdAt,
+    quantity,
+    stock,
+    storeHouse,
+    ...updates
+  } = body;
+  if (stock !== undefined) applyThresholds(item, stock);
+  if (quantity !== undefined) {
+    const delta = Number(quantity) - item.quantity;
+    if (delta < 0) {
+      removeLots(level, pickLots(level, -delta));
+      removeSerials(level, pickSerials(level, -delta));
+    }
+    level.quantity += delta;
+  }
+  // A new home only re-points the item: stock stays where it is and moves
+  // through transfers, so the change is undone by pointing back
+  if (storeHouse && storeHouse !== item.storeHouse) {
+    stockLevel(item, storeHouse, true);
+    item.storeHouse = storeHouse;
+  }
+  syncQuantity(item);
+  Object.assign(item, updates, { updatedAt: nowIso() });
+  recordPriceChange(item);
+  if (item.quantity !== previousQuantity) {
+    recordStockMovement(item, previousQuantity, {
+      source: 'adjustment',
+      reason: 'item-edit',
+    });
+  }
+  return item;
+}
+
+export const itemRoutes: MockRoute[] = [
+  route('GET', '/item/units', () =>
+    Array.from(new Set(getDb().items.map((item) => item.unit))).sort()
+  ),
+
+  route('GET', '/item/tags', (req) => {
+    const limit = Number(req.query.get('limit')) || 12;
+    const counts = new Map<string, number>();
+    getDb().items.forEach((item) =>
+      item.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+    );
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([tag]) => tag);
+  }),
+
+  route('GET', '/item/reorder-suggestions', () => reorderSuggestions()),
+
+  route('GET', '/item', (req) => {
+    const { query } = req;
+    const items = getDb().items.filter((item) =>
+      matchesItemFilters(item, {
+        search: query.get('search'),
+        status: query.get('status'),
+        tags: query.get('tags')?.split(',').filter(Boolean),
+        storeHouse: query.get('storeHouse'),
+        archived: query.get('archived') === 'true',
+      })
+    );
+
+    const page = paginate(items, req.query, 100);
+    const costing = replayCosts();
+    return {
+      ...page,
+      items: page.items.map((item) => present(item, req, costing)),
+    };
+  }),
+
+  // Scanned code: an item id (our labels), SKU or GTIN
+  route('GET', '/item/lookup', (req) => {
+    const code = req.query.get('code')?.trim();
+    if (!code) badRequest('code is required');
+    const item =
+      getDb().items.find((i) => matchesCode(i, code)) ?? notFound(4403);
+    return present(item, req);
+  }),
+
+  // A serial number's history: received, transferred, sold
+  route('GET', '/item/serial/:serial', (req) => {
+    const serial = req.params['serial']?.trim() ?? '';
+    const db = getDb();
+    const lists = (serials?: string[]) => !!serials?.includes(serial);
+
+    const events: SerialEvent[] = [
+      ...db.imports.flatMap((record) =>
+        record.item
+          .filter((line) => lists(line.serials))
+          .map(
+            (line): SerialEvent => ({
+              type: 'import',
+              itemId: line.itemId,
+              reference: record._id,
+              status: record.status,
+              date: record.itemsReceivedDate ?? record.createdAt,
+              storeHouse: line.storeHouse,
+              partner: record.supplierId,
+            })
+          )
+      ),
+      ...db.transactions.flatMap((record) =>
+        record.item
+          .filter((line) => lists(line.serials))
+          .map(
+            (line): SerialEvent => ({
+              type: 'sale',
+              itemId: line.itemId,
+              reference: record._id,
+              status: record.status,
+              date: record.itemsDeliveredDate ?? record.createdAt,
+              storeHouse: line.storeHouse,
+              partner: record.clientId,
+            })
+          )
+      ),
+      ...db.transfers
+        .filter((transfer) => lists(transfer.serials))
+        .map(
+          (transfer): SerialEvent => ({
+            type: 'transfer',
+            itemId: transfer.itemId,
+            reference: transfer._id,
+            status: transfer.status,
+            date: transfer.transferredAt ?? transfer.createdAt,
+            storeHouse: transfer.fromStoreHouse,
+            toStoreHouse: transfer.toStoreHouse,
+            partner: null,
+          })
+        ),
+    ];
+
+    const item =
+      db.items.find((i) => serialLevel(i, serial)) ??
+      findItem(events[0]?.itemId ?? '') ??
+      notFound(4403, `Serial ${serial} not found`);
+    const level = serialLevel(item, serial);
+
+    return {
+      serial,
+      item: { _id: item._id, name: item.name, sku: item.sku },
+      storeHouse: level ? populateStorehouse(level.storeHouse) : null,
+      events: sortBy(
+        events.filter((event) => event.itemId === item._id),
+        (event) => event.date,
+        'asc'
+      ).map(
+        ({ itemId: _itemId, storeHouse, toStoreHouse, partner, ...event }) => ({
+          ...event,
+          storeHouse: populateStorehouse(storeHouse),
+          toStoreHouse: toStoreHouse && populateStorehouse(toStoreHouse),
+          partner: partner && populatePartner(partner),
+        })
+      ),
+    };
+  }),
+
+  route('GET', '/item/:id', (req) =>
+    present(requireItem(req.params['id']), req)
+  ),
+
+  route('POST', '/item', (req) =>
+    populateItem(createItemRecord(req.body as Partial<MockItem>))
+  ),
+
+  // Bulk import: each row is created or updated on its own, failures are
+  // reported per row and don't stop the batch
+  route('POST', '/item/import', (req) => {
+    const { rows } = req.body as {
+      rows?: Array<{
+        row: number;
+        itemId?: string;
+        /** Location an update's quantity is the stock of */
+        storeHouse?: string;
+        item: Partial<MockItem>;
+      }>;
+    };
+    if (!Array.isArray(rows)) badRequest('rows must be a list');
+    if (rows.length > 100) badRequest('at most 100 rows per batch');
+
+    let created = 0;
+    let updated = 0;
+    const failed: Array<{ row: number; rcode: number; debug?: string }> = [];
+    for (const { row, itemId, storeHouse, item } of rows) {
+      try {
+        if (itemId) {
+          const existing = requireItem(itemId);
+          const at = storeHouse ?? existing.storeHouse;
+          const changes = { ...item };
+          if (changes.quantity !== undefined) {
+            // The row counts one location; the update takes the total
+            changes.quantity =
+              existing.quantity -
+              (stockLevel(existing, at)?.quantity ?? 0) +
+              Number(changes.quantity);
+          }
+          updateItemRecord(existing, changes, at);
+          updated++;
+        } else {
+          createItemRecord({ ...item });
+          created++;
+        }
+      } catch (error) {
+        if (!isMockHttpError(error)) throw error;
+        failed.push({ row, rcode: error.rcode, debug: error.debug });
+      }
+    }
+    return { created, updated, failed };
+  }),
+
+  // Image upload (multipart, field `image`). There is no file store, so
+  // the stored URL is the image itself as a data URL.
+  route('POST', '/item/image', (req) => {
+    const image = req.body['image'];
+    if (typeof image !== 'string' || !image.startsWith('data:image/')) {
+      badRequest('image must be an image file');
+    }
+    const bytes = ((image.length - image.indexOf(',') - 1) * 3) / 4;
+    if (bytes > MAX_IMAGE_BYTES) badRequest('image is larger than 5 MB');
+    return { url: image };
+  }),
+
+  route('PUT', '/item/:id', (req) =>
+    populateItem(
+      updateItemRecord(
+        requireItem(req.params['id']),
+        req.body as Partial<MockItem>
+      )
+    )
+  ),
+
+  route('PATCH', '/item/:id/adjust', (req) => {
+    const item = requireItem(req.params['id']);
+    const { change, reason, notes, storeHouse, lotNumber, expiresAt, serials } =
+      req.body as {
+        change?: number;
+        reason?: string;
+        notes?: string;
+        /** Location to adjust, the home storehouse by default */
+        storeHouse?: string;
+        /** Lot added to, or taken from before first-expiry order */
+        lotNumber?: string;
+        /** Expiry of a lot being added */
+        expiresAt?: string;
+        /** Units added or removed, for serialized items */
+        serials?: string[];
+      };
+    const location = storeHouse ?? item.storeHouse;
+    assertWritableStorehouse(location);
+    if (!Number.isInteger(change) || change === 0) {
+      badRequest('change must be a non-zero whole number');
+    }
+    if (!reason || !ADJUSTMENT_REASONS.includes(reason)) {
+      badRequest(`Unknown adjustment reason: ${reason}`);
+    }
+
+    const level = stockLevel(item, location, true)!;
+    const lot = lotNumber?.trim();
+    const lots = !lot
+      ? undefined
+      : (change as number) > 0
+        ? [{ lotNumber: lot, expiresAt, quantity: change as number }]
+        : pickLots(level, -(change as number), lot);
+    const units = Array.from(
+      new Set((serials ?? []).map((serial) => serial.trim()))
+    ).filter(Boolean);
+    if (units.length > 0) {
+      if (!item.serialized) {
+        badRequest(`${item.name} is not tracked by serial number`);
+      }
+      if (units.length !== Math.abs(change as number)) {
+        badRequest(`${item.name} needs one serial number per unit`);
+      }
+      if ((change as number) > 0) assertSerialsNew(item, units);
+      else assertSerialsHeld(item, level, units);
+    }
+
+    adjustItemQuantity(
+      item._id,
+      change as number,
+      {
+        source: 'adjustment',
+        reason,
+        notes: notes?.trim() || undefined,
+      },
+      location,
+      lots,
+      units.length > 0 ? units : undefined
+    );
+    return populateItem(item);
+  }),
+
+  // Assemble kits from their components at one storehouse
+  route('POST', '/item/:id/assemble', (req) => {
+    const kit = requireItem(req.params['id']);
+    const { quantity, storeHouse, notes } = req.body as {
+      quantity?: number;
+      /** Where the components are and the kits go, home by default */
+      storeHouse?: string;
+      notes?: string;
+    };
+    if (!kit.components?.length) badRequest(`${kit.name} is not a kit`);
+    if (!Number.isInteger(quantity) || (quantity as number) < 1) {
+      badRequest('quantity must be a positive whole number');
+    }
+    const location = storeHouse ?? kit.storeHouse;
+    assertWritableStorehouse(location);
+    assembleKits(kit, quantity as number, location, notes?.trim() || undefined);
+    return populateItem(kit);
+  }),
+
+  route('GET', '/item/:id/movements', (req) => {
+    const item = requireItem(req.params['id']);
+    const { query } = req;
+    const reasons = query.get('reason')?.split(',').filter(Boolean) ?? [];
+    const performedBy = query.get('performedBy');
+
+    const movements = getDb().stockMovements.filter(
+      (m) =>
+        m.itemId === item._id &&
+        (reasons.length === 0 || reasons.includes(m.reason)) &&
+        (!performedBy || m.performedBy === performedBy) &&
+        inDateRange(m.createdAt, query)
+    );
+    return sortBy(movements, (m) => m.createdAt, 'desc').map(
+      populateStockMovement
+    );
+  }),
+
+  // Catalogue prices, and what the item actually sold and was bought for.
+  // The catalogue entry in effect when the range starts is included.
+  route('GET', '/item/:id/price-history', (req) => {
+    const item = requireItem(req.params['id']);
+    const { query } = req;
+    const db = getDb();
+    const from = query.get('dateFrom');
+    const start = from ? new Date(from).toISOString() : '';
+
+    const changes = sortBy(
+      db.priceChanges.filter((change) => change.itemId === item._id),
+      (change) => change.createdAt,
+      'asc'
+    );
+    const opening = changes.filter((change) => change.createdAt < start).pop();
+    const catalogue = changes.filter(
+      (change) => change === opening || inDateRange(change.createdAt, query)
+    );
+
+    const sales = db.transactions
+      .filter(
+        (record) =>
+          record.status !== 'cancelled' && inDateRange(record.createdAt, query)
+      )
+      .flatMap((record) =>
+        record.item
+          .filter((line) => line.itemId === item._id)
+          .map((line) => ({
+            reference: record._id,
+            date: record.createdAt,
+            partner: populatePartner(record.clientId),
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+            listedPrice: line.listedPrice,
+          }))
+      );
+    const purchases = db.imports
+      .filter(
+        (record) =>
+          record.status !== 'cancelled' && inDateRange(record.createdAt, query)
+      )
+      .flatMap((record) =>
+        record.item
+          .filter((line) => line.itemId === item._id)
+          .map((line) => ({
+            reference: record._id,
+            date: record.createdAt,
+            partner: populatePartner(record.supplierId),
+            quantity: line.quantity,
+            unitPrice: line.unitPrice,
+          }))
+      );
+
+    return {
+      catalogue: catalogue.map(populatePriceChange),
+      sales: sortBy(sales, (sale) => sale.date, 'asc'),
+      purchases: sortBy(purchases, (purchase) => purchase.date, 'asc'),
+    };
+  }),
+
+  route('DELETE', '/item/:id', (req) => {
+    const db = getDb();
+    const item = requireItem(req.params['id']);
+    item.stock.forEach((level) => assertWritableStorehouse(level.storeHouse));
+    const kit = kitsUsing(item._id)[0];
+    if (kit) badRequest(`${item.name} is a component of ${kit.name}`);
+    db.items = db.items.filter((i) => i !== item);
+    return NO_CONTENT;
+  }),
+];
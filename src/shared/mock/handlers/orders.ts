@@ -0,0 +1,464 @@
+/**
+ * Mock order endpoints: sales (/transaction/*) and purchases (/import/*)
+ *
+ * Both follow the same lifecycle on the backend:
+ * - pending → items delivered/received + payment completed → completed
+ * - Delivering a sale takes stock out; receiving an import puts it in
+ * - Cancelling after the stock moved puts it back
+ * - Each line names the storehouse its stock leaves from or arrives at;
+ *   lines without one use the item's home storehouse
+ * - Import lines may carry a lot number and expiry; sale lines take stock
+ *   first expiry first out unless they name a lot to take first
+ * - Lines of serialized items list a serial number per unit; a pending
+ *   import can be saved without them, but not received
+ * - Lines entered in one of the item's pack units name it; quantity and
+ *   unitPrice are still sent and stored in the base unit
+ */
+
+import {
+  applyLines,
+  findItem,
+  findPartner,
+  findStorehouse,
+  getDb,
+  nowIso,
+  objectId,
+  populateImport,
+  populateTransaction,
+  type MockImport,
+  type MockItem,
+  type MockLine,
+  type MockPackUnit,
+  type MockTransaction,
+} from '../mock-db';
+import {
+  NO_CONTENT,
+  badRequest,
+  httpError,
+  inDateRange,
+  notFound,
+  paginate,
+  route,
+  sortBy,
+  type MockRequest,
+  type MockRoute,
+} from '../router';
+
+type OrderRecord = MockTransaction | MockImport;
+
+interface OrderConfig<T extends OrderRecord> {
+  basePath: string;
+  /** Key of the record in action responses ({ message, transaction }) */
+  responseKey: string;
+  notFoundCode: number;
+  /** +1 when the stock step adds stock, -1 when it removes it */
+  stockDirection: 1 | -1;
+  stockAction: 'markItemsDelivered' | 'markItemsReceived';
+  /** Ledger source of the stock step */
+  movementSource: 'sale' | 'import';
+  stockDateField: 'itemsDeliveredDate' | 'itemsReceivedDate';
+  partnerField: 'clientId' | 'supplierId';
+  list: () => T[];
+  setList: (list: T[]) => void;
+  /** Turn validated lines into the record's stored line shape */
+  prepareLines: (lines: MockLine[]) => T['item'];
+  create: (req: MockRequest, lines: T['item']) => T;
+  populate: (record: T) => unknown;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Serial numbers of a line: one per unit, serialized items only
+ */
+function readSerials(
+  value: unknown,
+  item: MockItem,
+  quantity: number
+): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) badRequest('serials must be a list');
+  const serials = (value as unknown[])
+    .map((serial) => String(serial).trim())
+    .filter(Boolean);
+  if (serials.length === 0) return undefined;
+  if (!item.serialized) {
+    badRequest(`${item.name} is not tracked by serial number`);
+  }
+  if (serials.length !== quantity) {
+    badRequest(`${item.name} needs one serial number per unit`);
+  }
+  return serials;
+}
+
+/**
+ * Pack unit a line was entered in: one the item defines, with its current
+ * factor, and a whole number of packs
+ */
+function readPackUnit(
+  value: Partial<MockPackUnit> | undefined,
+  item: MockItem,
+  quantity: number
+): MockPackUnit | undefined {
+  if (!value?.unit || value.unit === item.unit) return undefined;
+  const pack =
+    item.packUnits?.find((p) => p.unit === value.unit) ??
+    badRequest(`${item.name} does not come in ${value.unit}`);
+  if (value.factor !== undefined && Number(value.factor) !== pack.factor) {
+    badRequest(`A ${pack.unit} of ${item.name} now holds ${pack.factor}`);
+  }
+  const packs = quantity / pack.factor;
+  if (Math.abs(packs - Math.round(packs)) > 1e-9) {
+    badRequest(`${item.name} quantity is not a whole number of ${pack.unit}`);
+  }
+  return { unit: pack.unit, factor: pack.factor };
+}
+
+/**
+ * Validate incoming lines and recompute totals server-side
+ */
+function readLines(body: Record<string, unknown>): MockLine[] {
+  const raw = body['item'];
+  if (!Array.isArray(raw) || raw.length === 0) {
+    badRequest('At least one item is required');
+  }
+  const lines = (raw as Array<Partial<MockLine>>).map((line) => {
+    const item =
+      findItem(line.itemId ?? '') ??
+      notFound(4403, `Item ${line.itemId} not found`);
+    const storehouse =
+      findStorehouse(line.storeHouse ?? item.storeHouse) ?? notFound(4402);
+    const quantity = Number(line.quantity);
+    if (!(quantity > 0)) badRequest('Quantity must be greater than 0');
+    const unitPrice = Number(line.unitPrice);
+    const lotNumber = line.lotNumber?.trim() || undefined;
+    if (line.expiresAt && !ISO_DATE.test(line.expiresAt)) {
+      badRequest('expiresAt must be a YYYY-MM-DD date');
+    }
+    if (line.expiresAt && !lotNumber) {
+      badRequest('An expiry date needs a lot number');
+    }
+    const serials = readSerials(line.serials, item, quantity);
+    const packUnit = readPackUnit(line.packUnit, item, quantity);
+    return {
+      itemId: item._id,
+      storeHouse: storehouse._id,
+      quantity,
+      unitPrice,
+      totalPrice: Math.round(quantity * unitPrice * 100) / 100,
+      ...(lotNumber && { lotNumber, expiresAt: line.expiresAt || undefined }),
+      ...(serials && { serials }),
+      ...(packUnit && { packUnit }),
+    };
+  });
+
+  const serials = lines.flatMap((line) =>
+    (line.serials ?? []).map((serial) => `${line.itemId}:${serial}`)
+  );
+  if (new Set(serials).size !== serials.length) {
+    badRequest('A serial number is listed twice');
+  }
+  return lines;
+}
+
+/**
+ * Units of serialized items can only move once each has its serial number
+ */
+function assertSerialsListed(lines: MockLine[]): void {
+  lines.forEach((line) => {
+    const item = findItem(line.itemId);
+    if (item?.serialized && (line.serials?.length ?? 0) !== line.quantity) {
+      badRequest(`Serial numbers are missing for ${item.name}`);
+    }
+  });
+}
+
+function total(lines: MockLine[]): number {
+  return lines.reduce((sum, line) => sum + line.totalPrice, 0);
+}
+
+function createOrderRoutes<T extends OrderRecord>(
+  config: OrderConfig<T>
+): MockRoute[] {
+  const { basePath, stockDateField } = config;
+
+  const requireRecord = (id: string | undefined): T =>
+    config.list().find((r) => r._id === id) ?? notFound(config.notFoundCode);
+
+  // Config-selected fields (stock date, partner) are read by name
+  const fields = (record: T) => record as unknown as Record<string, unknown>;
+
+  const stockDate = (record: T): string | undefined =>
+    fields(record)[stockDateField] as string | undefined;
+
+  const setStockDate = (record: T, value: string | undefined): void => {
+    fields(record)[stockDateField] = value;
+  };
+
+  const moveStock = (record: T): void => {
+    if (stockDate(record)) return;
+    assertSerialsListed(record.item);
+    applyLines(record.item, config.stockDirection, {
+      source: config.movementSource,
+      reason: config.movementSource,
+      reference: record._id,
+    });
+    setStockDate(record, nowIso());
+  };
+
+  const returnStock = (record: T): void => {
+    if (!stockDate(record)) return;
+    applyLines(record.item, config.stockDirection === 1 ? -1 : 1, {
+      source: config.movementSource,
+      reason: `${config.movementSource}-cancelled`,
+      reference: record._id,
+    });
+    setStockDate(record, undefined);
+  };
+
+  const completeIfDone = (record: T): void => {
+    if (stockDate(record) && record.paymentCompletedDate) {
+      record.status = 'completed';
+    }
+  };
+
+  const runAction = (record: T, action: string): void => {
+    if (record.status === 'cancelled' && action !== 'markPending') {
+      badRequest('Cancelled records must be reopened first');
+    }
+
+    switch (action) {
+      case config.stockAction:
+        if (stockDate(record)) badRequest('Items were already processed');
+        moveStock(record);
+        completeIfDone(record);
+        break;
+      case 'markPaymentCompleted':
+        if (record.paymentCompletedDate)
+          badRequest('Payment already completed');
+        record.paymentCompletedDate = nowIso();
+        completeIfDone(record);
+        break;
+      case 'markCompleted':
+        moveStock(record);
+        record.paymentCompletedDate ??= nowIso();
+        record.status = 'completed';
+        break;
+      case 'markCancelled':
+        if (record.status === 'completed') {
+          badRequest('Completed records cannot be cancelled');
+        }
+        returnStock(record);
+        record.status = 'cancelled';
+        break;
+      case 'markPending':
+        record.status = 'pending';
+        break;
+      default:
+        badRequest(`Unknown action: ${action}`);
+    }
+  };
+
+  return [
+    route('GET', basePath, (req) => {
+      const { query } = req;
+      const status = query.get('status');
+      const partnerId = query.get(config.partnerField);
+      const priceMin = query.get('priceMin');
+      const priceMax = query.get('priceMax');
+
+      const records = config
+        .list()
+        .filter(
+          (r) =>
+            (!status || r.status === status) &&
+            (!partnerId || fields(r)[config.partnerField] === partnerId) &&
+            (priceMin === null || r.totalPrice >= Number(priceMin)) &&
+            (priceMax === null || r.totalPrice <= Number(priceMax)) &&
+            inDateRange(r.createdAt, query)
+        );
+
+      const sortField = query.get('sortBy');
+      const sorted = sortBy(
+        records,
+        (r) => (sortField === 'totalPrice' ? r.totalPrice : r.createdAt),
+        query.get('sortOrder')
+      );
+
+      const page = paginate(sorted, query);
+      return { ...page, items: page.items.map(config.populate) };
+    }),
+
+    route('GET', `${basePath}/:id`, (req) =>
+      config.populate(requireRecord(req.params['id']))
+    ),
+
+    route('POST', basePath, (req) => {
+      const record = config.create(
+        req,
+        config.prepareLines(readLines(req.body))
+      );
+      if (record.status === 'completed') {
+        moveStock(record);
+        record.paymentCompletedDate = nowIso();
+      }
+      config.setList([record, ...config.list()]);
+      return config.populate(record);
+    }),
+
+    route('PUT', `${basePath}/:id`, (req) => {
+      const record = requireRecord(req.params['id']);
+      if (record.status !== 'pending' || stockDate(record)) {
+        badRequest('Only pending records whose stock has not moved can change');
+      }
+
+      if (req.body['item']) {
+        record.item = config.prepareLines(readLines(req.body));
+        record.totalPrice = total(record.item);
+      }
+      const partnerId = req.body[config.partnerField];
+      if (typeof partnerId === 'string') {
+        fields(record)[config.partnerField] = partnerId;
+      }
+      record.updatedAt = nowIso();
+      return config.populate(record);
+    }),
+
+    route('PATCH', `${basePath}/:id/action`, (req) => {
+      const record = requireRecord(req.params['id']);
+      runAction(record, String(req.body['action'] ?? ''));
+      record.updatedAt = nowIso();
+      return {
+        message: 'Action completed',
+        [config.responseKey]: config.populate(record),
+      };
+    }),
+
+    route('DELETE', `${basePath}/:id`, (req) => {
+      const record = requireRecord(req.params['id']);
+      if (record.status === 'completed') {
+        throw httpError(400, 4000, 'Completed records cannot be deleted');
+      }
+      if (record.status === 'pending') returnStock(record);
+      config.setList(config.list().filter((r) => r !== record));
+      return NO_CONTENT;
+    }),
+  ];
+}
+
+/**
+ * Walk-in customer used when an order has no client
+ */
+function walkInClientId(): string {
+  const walkIn = getDb().partners.find((p) => p.isWalkIn);
+  if (!walkIn) notFound(4404, 'Walk-in customer missing');
+  return walkIn._id;
+}
+
+/**
+ * Sale lines record the catalog price at the time of sale;
+ * the client only sends the actual selling price
+ */
+function withListedPrice(lines: MockLine[]): MockTransaction['item'] {
+  return lines.map((line) => ({
+    ...line,
+    listedPrice: findItem(line.itemId)?.unitPrice ?? line.unitPrice,
+  }));
+}
+
+function createTransaction(
+  req: MockRequest,
+  lines: MockTransaction['item']
+): MockTransaction {
+  const db = getDb();
+  const clientId =
+    typeof req.body['clientId'] === 'string'
+      ? req.body['clientId']
+      : walkInClientId();
+  if (!findPartner(clientId)) notFound(4404);
+
+  const timestamp = nowIso();
+  return {
+    _id: objectId(),
+    business: db.business._id,
+    clientId,
+    item: lines,
+    totalPrice: total(lines),
+    status: req.body['status'] === 'completed' ? 'completed' : 'pending',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+function createImport(req: MockRequest, lines: MockLine[]): MockImport {
+  const db = getDb();
+  const supplierId =
+    typeof req.body['supplierId'] === 'string' ? req.body['supplierId'] : null;
+  if (supplierId && !findPartner(supplierId)) notFound(4404);
+
+  const timestamp = nowIso();
+  return {
+    _id: objectId(),
+    business: db.business._id,
+    supplierId,
+    item: lines,
+    totalPrice: total(lines),
+    status: req.body['status'] === 'completed' ? 'completed' : 'pending',
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  };
+}
+
+export const transactionRoutes = createOrderRoutes<MockTransaction>({
+  basePath: '/transaction',
+  responseKey: 'transaction',
+  notFoundCode: 4405,
+  stockDirection: -1,
+  stockAction: 'markItemsDelivered',
+  movementSource: 'sale',
+  stockDateField: 'itemsDeliveredDate',
+  partnerField: 'clientId',
+  list: () => getDb().transactions,
+  setList: (list) => {
+    getDb().transactions = list;
+  },
+  prepareLines: withListedPrice,
+  create: createTransaction,
+  populate: populateTransaction,
+});
+
+const singleImportRoutes = createOrderRoutes<MockImport>({
+  basePath: '/import',
+  responseKey: 'import',
+  notFoundCode: 4406,
+  stockDirection: 1,
+  stockAction: 'markItemsReceived',
+  movementSource: 'import',
+  stockDateField: 'itemsReceivedDate',
+  partnerField: 'supplierId',
+  list: () => getDb().imports,
+  setList: (list) => {
+    getDb().imports = list;
+  },
+  prepareLines: (lines) => lines,
+  create: createImport,
+  populate: populateImport,
+});
+
+export const importRoutes: MockRoute[] = [
+  route('POST', '/import/imports', (req) => {
+    const batch = req.body['imports'];
+    if (!Array.isArray(batch) || batch.length === 0) {
+      badRequest('imports must be a non-empty array');
+    }
+    const bodies = batch as Record<string, unknown>[];
+    // Validate the whole batch before creating anything
+    bodies.forEach((body) => readLines(body));
+
+    const create = singleImportRoutes.find(
+      (r) => r.method === 'POST' && r.pattern === '/import'
+    )!;
+    return bodies.map((body) => create.handler({ ...req, body }));
+  }),
+  ...singleImportRoutes,
+];
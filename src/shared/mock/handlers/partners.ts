@@ -0,0 +1,108 @@
+/**
+ * Mock partner endpoints (/partner/*) — clients and suppliers
+ */
+
+import {
+  getDb,
+  nowIso,
+  objectId,
+  populateImport,
+  populateTransaction,
+  type MockPartner,
+} from '../mock-db';
+import {
+  NO_CONTENT,
+  badRequest,
+  notFound,
+  paginate,
+  route,
+  type MockRequest,
+  type MockRoute,
+} from '../router';
+
+function requirePartner(id: string | undefined): MockPartner {
+  return getDb().partners.find((p) => p._id === id) ?? notFound(4404);
+}
+
+function filterPartners(req: MockRequest): MockPartner[] {
+  const partnerType = req.query.get('partnerType');
+  const search = req.query.get('search')?.toLowerCase();
+  return getDb().partners.filter(
+    (p) =>
+      (!partnerType || p.partnerType === partnerType) &&
+      (!search ||
+        p.partnerName.toLowerCase().includes(search) ||
+        p.email?.toLowerCase().includes(search) ||
+        p.phoneNumber?.toLowerCase().includes(search))
+  );
+}
+
+export const partnerRoutes: MockRoute[] = [
+  route('GET', '/partner', (req) => filterPartners(req)),
+
+  route('GET', '/partner/paginated', (req) =>
+    paginate(filterPartners(req), req.query)
+  ),
+
+  route('GET', '/partner/:id/transactions', (req) => {
+    const partner = requirePartner(req.params['id']);
+    return getDb()
+      .transactions.filter((t) => t.clientId === partner._id)
+      .map(populateTransaction);
+  }),
+
+  route('GET', '/partner/:id/imports', (req) => {
+    const partner = requirePartner(req.params['id']);
+    return getDb()
+      .imports.filter((i) => i.supplierId === partner._id)
+      .map(populateImport);
+  }),
+
+  route('GET', '/partner/:id', (req) => requirePartner(req.params['id'])),
+
+  route('POST', '/partner', (req) => {
+    const body = req.body as Partial<MockPartner>;
+    if (!body.partnerName) badRequest('partnerName is required');
+    if (body.partnerType !== 'client' && body.partnerType !== 'supplier') {
+      badRequest('partnerType must be client or supplier');
+    }
+
+    const timestamp = nowIso();
+    const partner: MockPartner = {
+      _id: objectId(),
+      partnerName: body.partnerName,
+      partnerType: body.partnerType,
+      phoneNumber: body.phoneNumber,
+      email: body.email,
+      address: body.address,
+      worksWithBusiness: getDb().business._id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    getDb().partners.push(partner);
+    return partner;
+  }),
+
+  route('PUT', '/partner/:id', (req) => {
+    const partner = requirePartner(req.params['id']);
+    if (partner.isWalkIn) badRequest('The walk-in customer cannot be edited');
+    const { partnerName, phoneNumber, email, address } =
+      req.body as Partial<MockPartner>;
+    Object.assign(partner, {
+      partnerName: partnerName ?? partner.partnerName,
+      phoneNumber: phoneNumber ?? partner.phoneNumber,
+      email: email ?? partner.email,
+      address: address ?? partner.address,
+      updatedAt: nowIso(),
+    });
+    return partner;
+  }),
+
+  route('DELETE', '/partner/:id', (req) => {
+    const db = getDb();
+    const partner = requirePartner(req.params['id']);
+    if (partner.isWalkIn) badRequest('The walk-in customer cannot be deleted');
+    db.partners = db.partners.filter((p) => p !== partner);
+    return NO_CONTENT;
+  }),
+];
@@ -0,0 +1,222 @@
+/**
+ * Mock stocktake endpoints (/stocktake/*)
+ *
+ * A count session snapshots the expected quantity of every matching item
+ * in one storehouse when it starts. Counts are saved as they are entered,
+ * so a session can be resumed by anyone assigned to it. Posting applies
+ * each counted line's variance (counted − expected) as a `manual-count`
+ * stock movement, all lines or none; sales made since the snapshot are
+ * kept.
+ */
+
+import {
+  adjustItemQuantity,
+  findItem,
+  findStorehouse,
+  getDb,
+  nowIso,
+  objectId,
+  populateStocktake,
+  stockLevel,
+  type MockStocktake,
+} from '../mock-db';
+import {
+  badRequest,
+  currentUser,
+  httpError,
+  notFound,
+  route,
+  sortBy,
+  type MockRoute,
+} from '../router';
+import { matchesItemFilters } from './items';
+
+function requireStocktake(id: string | undefined): MockStocktake {
+  return getDb().stocktakes.find((s) => s._id === id) ?? notFound(4000);
+}
+
+function requireInProgress(stocktake: MockStocktake): void {
+  if (stocktake.status !== 'in-progress') {
+    badRequest('Only sessions in progress can be changed');
+  }
+}
+
+function readAssignees(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) badRequest('assignedTo must be a list of users');
+  const users = getDb().users;
+  return (value as string[]).map(
+    (id) => users.find((u) => u._id === id)?._id ?? notFound(4000)
+  );
+}
+
+function postStocktake(stocktake: MockStocktake): void {
+  const changes = stocktake.lines
+    .filter((line) => line.countedQuantity !== null)
+    .map((line) => ({
+      line,
+      change: (line.countedQuantity as number) - line.expectedQuantity,
+    }))
+    .filter(({ change }) => change !== 0);
+
+  // Check every line before touching stock
+  changes.forEach(({ line, change }) => {
+    const item = findItem(line.itemId) ?? notFound(4403);
+    const left = stockLevel(item, stocktake.storeHouse)?.quantity ?? 0;
+    if (left + change < 0) {
+      badRequest(
+        `${item.name} has ${left} left, cannot apply a variance of ${change}`
+      );
+    }
+  });
+  changes.forEach(({ line, change }) =>
+    adjustItemQuantity(
+      line.itemId,
+      change,
+      {
+        source: 'adjustment',
+        reason: 'manual-count',
+        reference: stocktake._id,
+        notes: `Stocktake: ${stocktake.name}`,
+      },
+      stocktake.storeHouse
+    )
+  );
+
+  stocktake.status = 'posted';
+  stocktake.postedAt = nowIso();
+}
+
+export const stocktakeRoutes: MockRoute[] = [
+  route('GET', '/stocktake', (req) => {
+    const status = req.query.get('status');
+    const assignedTo = req.query.get('assignedTo');
+    const stocktakes = getDb().stocktakes.filter(
+      (s) =>
+        (!status || s.status === status) &&
+        (!assignedTo || s.assignedTo.includes(assignedTo))
+    );
+    return sortBy(stocktakes, (s) => s.createdAt, 'desc').map(
+      populateStocktake
+    );
+  }),
+
+  route('GET', '/stocktake/:id', (req) =>
+    populateStocktake(requireStocktake(req.params['id']))
+  ),
+
+  route('POST', '/stocktake', (req) => {
+    const user = currentUser(req);
+    const body = req.body as {
+      name?: string;
+      storeHouse?: string;
+      search?: string;
+      status?: string;
+      tags?: string[];
+      assignedTo?: string[];
+    };
+    const storehouse = findStorehouse(body.storeHouse ?? '') ?? notFound(4402);
+    if (storehouse.isLocked) throw httpError(403, 4025);
+
+    const criteria = {
+      search: body.search || undefined,
+      status: body.status || undefined,
+      tags: body.tags?.length ? body.tags : undefined,
+    };
+    const items = getDb().items.filter((item) =>
+      matchesItemFilters(item, { ...criteria, storeHouse: storehouse._id })
+    );
+    if (items.length === 0) badRequest('No items match these criteria');
+
+    const timestamp = nowIso();
+    const stocktake: MockStocktake = {
+      _id: objectId(),
+      business: getDb().business._id,
+      name:
+        body.name?.trim() || `${storehouse.name} – ${timestamp.slice(0, 10)}`,
+      storeHouse: storehouse._id,
+      criteria,
+      status: 'in-progress',
+      assignedTo: readAssignees(body.assignedTo),
+      createdBy: user._id,
+      lines: items
+        .map((item) => ({
+          itemId: item._id,
+          expectedQuantity: stockLevel(item, storehouse._id)?.quantity ?? 0,
+          countedQuantity: null,
+        }))
+        .sort((a, b) =>
+          (findItem(a.itemId)?.name ?? '').localeCompare(
+            findItem(b.itemId)?.name ?? ''
+          )
+        ),
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    getDb().stocktakes.unshift(stocktake);
+    return populateStocktake(stocktake);
+  }),
+
+  route('PATCH', '/stocktake/:id/counts', (req) => {
+    const user = currentUser(req);
+    const stocktake = requireStocktake(req.params['id']);
+    requireInProgress(stocktake);
+
+    const counts = req.body['counts'];
+    if (!Array.isArray(counts)) badRequest('counts must be a list');
+
+    const timestamp = nowIso();
+    (counts as Array<{ itemId: string; countedQuantity: number | null }>)
+      .map(({ itemId, countedQuantity }) => {
+        const line =
+          stocktake.lines.find((l) => l.itemId === itemId) ??
+          badRequest(`Item ${itemId} is not part of this count`);
+        if (
+          countedQuantity !== null &&
+          !(Number.isInteger(countedQuantity) && countedQuantity >= 0)
+        ) {
+          badRequest('Counted quantity must be a whole number ≥ 0');
+        }
+        return { line, countedQuantity };
+      })
+      .forEach(({ line, countedQuantity }) => {
+        line.countedQuantity = countedQuantity;
+        line.countedBy = countedQuantity === null ? undefined : user._id;
+        line.countedAt = countedQuantity === null ? undefined : timestamp;
+      });
+
+    stocktake.updatedAt = timestamp;
+    return populateStocktake(stocktake);
+  }),
+
+  route('PATCH', '/stocktake/:id/assign', (req) => {
+    const stocktake = requireStocktake(req.params['id']);
+    requireInProgress(stocktake);
+    stocktake.assignedTo = readAssignees(req.body['assignedTo']);
+    stocktake.updatedAt = nowIso();
+    return populateStocktake(stocktake);
+  }),
+
+  route('PATCH', '/stocktake/:id/action', (req) => {
+    const stocktake = requireStocktake(req.params['id']);
+    requireInProgress(stocktake);
+
+    const action = req.body['action'];
+    if (action === 'post') {
+      postStocktake(stocktake);
+    } else if (action === 'cancel') {
+      stocktake.status = 'cancelled';
+    } else {
+      badRequest(`Unknown action: ${String(action)}`);
+    }
+    stocktake.updatedAt = nowIso();
+
+    return {
+      message:
+        action === 'post'
+          ? 'Stocktake posted — stock levels updated'
+          : 'Stocktake cancelled',
+      stocktake: populateStocktake(stocktake),
+    };
+  }),
+];
@@ -0,0 +1,96 @@
+/**
+ * Mock storehouse endpoints (/storehouse/*)
+ */
+
+import {
+  findStorehouse,
+  getDb,
+  nowIso,
+  objectId,
+  type MockStorehouse,
+} from '../mock-db';
+import { planLimit } from './billing';
+import {
+  NO_CONTENT,
+  badRequest,
+  httpError,
+  notFound,
+  route,
+  type MockRoute,
+} from '../router';
+
+function requireStorehouse(id: string | undefined): MockStorehouse {
+  return findStorehouse(id ?? '') ?? notFound(4402);
+}
+
+export const storehouseRoutes: MockRoute[] = [
+  route('GET', '/storehouse', (req) => {
+    const search = req.query.get('search')?.toLowerCase();
+    return getDb().storehouses.filter(
+      (s) =>
+        !search ||
+        s.name.toLowerCase().includes(search) ||
+        s.address.toLowerCase().includes(search)
+    );
+  }),
+
+  route('GET', '/storehouse/:id', (req) => requireStorehouse(req.params['id'])),
+
+  route('POST', '/storehouse', (req) => {
+    const db = getDb();
+    const body = req.body as Partial<MockStorehouse>;
+    if (!body.name || !body.address)
+      badRequest('name and address are required');
+
+    const limit = planLimit('storehouses');
+    if (limit !== -1 && db.storehouses.length >= limit) {
+      throw httpError(403, 4022);
+    }
+
+    const timestamp = nowIso();
+    const storehouse: MockStorehouse = {
+      _id: objectId(),
+      name: body.name,
+      address: body.address,
+      phoneNumber: body.phoneNumber ?? '',
+      email: body.email ?? '',
+      business: db.business._id,
+      isLocked: false,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    db.storehouses.push(storehouse);
+    return storehouse;
+  }),
+
+  route('PUT', '/storehouse/:id', (req) => {
+    const storehouse = requireStorehouse(req.params['id']);
+    if (storehouse.isLocked) throw httpError(403, 4025);
+    const { name, address, phoneNumber, email } =
+      req.body as Partial<MockStorehouse>;
+    Object.assign(storehouse, {
+      name: name ?? storehouse.name,
+      address: address ?? storehouse.address,
+      phoneNumber: phoneNumber ?? storehouse.phoneNumber,
+      email: email ?? storehouse.email,
+      updatedAt: nowIso(),
+    });
+    return storehouse;
+  }),
+
+  route('DELETE', '/storehouse/:id', (req) => {
+    const db = getDb();
+    const storehouse = requireStorehouse(req.params['id']);
+    if (
+      db.items.some(
+        (item) =>
+          item.storeHouse === storehouse._id ||
+          item.stock.some((level) => level.storeHouse === storehouse._id)
+      )
+    ) {
+      throw httpError(400, 4413);
+    }
+    db.storehouses = db.storehouses.filter((s) => s !== storehouse);
+    return NO_CONTENT;
+  }),
+];
@@ -0,0 +1,193 @@
+/**
+ * Mock transfer endpoints (/transfer/*)
+ *
+ * Completing a transfer moves stock between two of the item's locations;
+ * the item gets a stock level at the destination if it has none yet.
+ * Lots move along, first expiry first. Serial numbers move with their
+ * units: the ones chosen on the transfer, or the earliest received.
+ */
+
+import {
+  adjustItemQuantity,
+  assertSerialsHeld,
+  findItem,
+  findStorehouse,
+  getDb,
+  nowIso,
+  objectId,
+  pickLots,
+  pickSerials,
+  populateTransfer,
+  stockLevel,
+  type MockTransfer,
+} from '../mock-db';
+import {
+  NO_CONTENT,
+  badRequest,
+  httpError,
+  inDateRange,
+  notFound,
+  paginate,
+  route,
+  sortBy,
+  type MockRoute,
+} from '../router';
+
+function requireTransfer(id: string | undefined): MockTransfer {
+  return getDb().transfers.find((t) => t._id === id) ?? notFound(4000);
+}
+
+function completeTransfer(transfer: MockTransfer): void {
+  const item = findItem(transfer.itemId) ?? notFound(4403);
+  const from = stockLevel(item, transfer.fromStoreHouse);
+  if (!from || from.quantity < transfer.quantity) {
+    badRequest(`Insufficient stock: ${from?.quantity ?? 0} available`);
+  }
+
+  // Lots travel with the stock, first expiry first
+  const lots = pickLots(from, transfer.quantity);
+  assertSerialsHeld(item, from, transfer.serials ?? []);
+  const serials = pickSerials(from, transfer.quantity, transfer.serials);
+  const context = { source: 'transfer', reference: transfer._id } as const;
+  adjustItemQuantity(
+    item._id,
+    -transfer.quantity,
+    { ...context, reason: 'transfer-out' },
+    transfer.fromStoreHouse,
+    lots,
+    serials
+  );
+  adjustItemQuantity(
+    item._id,
+    transfer.quantity,
+    { ...context, reason: 'transfer-in' },
+    transfer.toStoreHouse,
+    lots,
+    serials
+  );
+
+  if (serials.length > 0) transfer.serials = serials;
+  transfer.status = 'completed';
+  transfer.transferredAt = nowIso();
+}
+
+export const transferRoutes: MockRoute[] = [
+  route('GET', '/transfer', (req) => {
+    const { query } = req;
+    const filters = ['status', 'itemId', 'fromStoreHouse', 'toStoreHouse'];
+
+    const transfers = getDb().transfers.filter(
+      (transfer) =>
+        filters.every((key) => {
+          const value = query.get(key);
+          return (
+            !value ||
+            (transfer as unknown as Record<string, unknown>)[key] === value
+          );
+        }) && inDateRange(transfer.createdAt, query)
+    );
+
+    const page = paginate(
+      sortBy(
+        transfers,
+        (t) => (query.get('sortBy') === 'quantity' ? t.quantity : t.createdAt),
+        query.get('sortOrder')
+      ),
+      query
+    );
+    return { ...page, items: page.items.map(populateTransfer) };
+  }),
+
+  route('GET', '/transfer/item/:itemId', (req) =>
+    getDb()
+      .transfers.filter((t) => t.itemId === req.params['itemId'])
+      .map(populateTransfer)
+  ),
+
+  route('POST', '/transfer', (req) => {
+    const body = req.body as {
+      itemId?: string;
+      fromStoreHouse?: string;
+      toStoreHouse?: string;
+      quantity?: number;
+      /** Units to move, for serialized items */
+      serials?: string[];
+      note?: string;
+      immediate?: boolean;
+    };
+    const item = findItem(body.itemId ?? '') ?? notFound(4403);
+    const from = findStorehouse(body.fromStoreHouse ?? '') ?? notFound(4402);
+    const to = findStorehouse(body.toStoreHouse ?? '') ?? notFound(4402);
+    const quantity = Number(body.quantity);
+
+    if (from._id === to._id) badRequest('Source and destination must differ');
+    const level = stockLevel(item, from._id);
+    if (!level) badRequest('Item is not stored in the source storehouse');
+    if (!(quantity > 0)) badRequest('Quantity must be greater than 0');
+    if (quantity > level.quantity) {
+      badRequest(`Insufficient stock: ${level.quantity} available`);
+    }
+    if (from.isLocked || to.isLocked) throw httpError(403, 4025);
+    const serials = Array.from(
+      new Set((body.serials ?? []).map((serial) => serial.trim()))
+    ).filter(Boolean);
+    if (serials.length > 0) {
+      if (serials.length !== quantity) {
+        badRequest(`${item.name} needs one serial number per unit`);
+      }
+      assertSerialsHeld(item, level, serials);
+    }
+
+    const timestamp = nowIso();
+    const transfer: MockTransfer = {
+      _id: objectId(),
+      business: getDb().business._id,
+      itemId: item._id,
+      fromStoreHouse: from._id,
+      toStoreHouse: to._id,
+      quantity,
+      ...(serials.length > 0 && { serials }),
+      status: 'pending',
+      note: body.note,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    if (body.immediate) completeTransfer(transfer);
+
+    getDb().transfers.unshift(transfer);
+    return populateTransfer(transfer);
+  }),
+
+  route('PATCH', '/transfer/:id/action', (req) => {
+    const transfer = requireTransfer(req.params['id']);
+    if (transfer.status !== 'pending') {
+      badRequest('Only pending transfers can be changed');
+    }
+
+    const action = req.body['action'];
+    if (action === 'complete') {
+      completeTransfer(transfer);
+    } else if (action === 'cancel') {
+      transfer.status = 'cancelled';
+    } else {
+      badRequest(`Unknown action: ${String(action)}`);
+    }
+    transfer.updatedAt = nowIso();
+
+    return {
+      message:
+        action === 'complete' ? 'Transfer completed' : 'Transfer cancelled',
+      transfer: populateTransfer(transfer),
+    };
+  }),
+
+  route('DELETE', '/transfer/:id', (req) => {
+    const db = getDb();
+    const transfer = requireTransfer(req.params['id']);
+    if (transfer.status !== 'pending') {
+      badRequest('Only pending transfers can be deleted');
+    }
+    db.transfers = db.transfers.filter((t) => t !== transfer);
+    return NO_CONTENT;
+  }),
+];
@@ -0,0 +1,231 @@
+/**
+ * Mock team endpoints (/user/*) and custom roles (/role/*)
+ */
+
+import type { CustomRole, Permissions } from '@/shared/api/roles.api';
+import { getDb, nowIso, objectId, type MockUser } from '../mock-db';
+import { planLimit } from './billing';
+import {
+  NO_CONTENT,
+  badRequest,
+  currentUser,
+  httpError,
+  notFound,
+  route,
+  type MockRequest,
+  type MockRoute,
+} from '../router';
+
+const INVITE_TTL = 7 * 86_400_000;
+
+function requireUser(id: string | undefined): MockUser {
+  return getDb().users.find((u) => u._id === id) ?? notFound(4400);
+}
+
+function requireRole(id: string | undefined): CustomRole {
+  return getDb().roles.find((r) => r._id === id) ?? notFound(4412);
+}
+
+function requireAdmin(req: MockRequest): MockUser {
+  const user = currentUser(req);
+  if (user.appRole === 'user') throw httpError(403, 4312);
+  return user;
+}
+
+/**
+ * The owner and the caller's own account are protected from admin actions
+ */
+function requireManageable(req: MockRequest, target: MockUser): void {
+  if (target._id === getDb().business.creator) throw httpError(403, 4315);
+  if (target._id === currentUser(req)._id) throw httpError(403, 4313);
+}
+
+function isEmailTaken(email: string): 'registered' | 'invited' | null {
+  const db = getDb();
+  const normalized = email.trim().toLowerCase();
+  if (db.users.some((u) => u.email.toLowerCase() === normalized)) {
+    return 'registered';
+  }
+  if (db.invitedUsers.some((i) => i.email.toLowerCase() === normalized)) {
+    return 'invited';
+  }
+  return null;
+}
+
+export const userRoutes: MockRoute[] = [
+  route('GET', '/user', () => getDb().users),
+
+  route('GET', '/user/invited', () => getDb().invitedUsers),
+
+  route('GET', '/user/check-email', (req) => {
+    const reason = isEmailTaken(req.query.get('email') ?? '');
+    return reason ? { available: false, reason } : { available: true };
+  }),
+
+  route('POST', '/user/invite', (req) => {
+    requireAdmin(req);
+    const db = getDb();
+    const body = req.body as {
+      email?: string;
+      appRole?: 'admin' | 'user';
+      roleIds?: string[];
+      storeHouseIds?: string[];
+    };
+    if (!body.email) badRequest('email is required');
+    if (isEmailTaken(body.email)) throw httpError(409, 4004);
+
+    const limit = planLimit('users');
+    const active = db.users.filter((u) => u.isActive).length;
+    if (limit !== -1 && active + db.invitedUsers.length >= limit) {
+      throw httpError(403, 4022);
+    }
+
+    db.invitedUsers.push({
+      _id: objectId(),
+      email: body.email,
+      accountType: 'invited',
+      assignedAppRole: body.appRole ?? 'user',
+      assignedRoles: body.roleIds ?? [],
+      assignedStoreHouses: body.storeHouseIds ?? [],
+      expiresAt: new Date(Date.now() + INVITE_TTL).toISOString(),
+      createdAt: nowIso(),
+    });
+    return { message: 'Invitation sent', email: body.email };
+  }),
+
+  route('GET', '/user/:id', (req) => requireUser(req.params['id'])),
+
+  route('PUT', '/user/:id', (req) => {
+    const user = requireUser(req.params['id']);
+    if (user._id !== currentUser(req)._id) requireAdmin(req);
+    const { name, phoneNumber, birthDate } = req.body as Partial<MockUser>;
+    Object.assign(user, {
+      name: name ?? user.name,
+      phoneNumber: phoneNumber ?? user.phoneNumber,
+      birthDate: birthDate ?? user.birthDate,
+      updatedAt: nowIso(),
+    });
+    return user;
+  }),
+
+  route('PATCH', '/user/:id/deactivate', (req) => {
+    requireAdmin(req);
+    const user = requireUser(req.params['id']);
+    requireManageable(req, user);
+    user.isActive = false;
+    user.updatedAt = nowIso();
+    return { message: 'User deactivated' };
+  }),
+
+  route('PATCH', '/user/:id/reactivate', (req) => {
+    requireAdmin(req);
+    const user = requireUser(req.params['id']);
+    requireManageable(req, user);
+    const limit = planLimit('users');
+    const active = getDb().users.filter((u) => u.isActive).length;
+    if (limit !== -1 && active >= limit) throw httpError(403, 4022);
+    user.isActive = true;
+    user.updatedAt = nowIso();
+    return { message: 'User reactivated' };
+  }),
+
+  route('PATCH', '/user/:id/roles', (req) => {
+    requireAdmin(req);
+    const user = requireUser(req.params['id']);
+    const roleIds = (req.body['roleIds'] as string[] | undefined) ?? [];
+    roleIds.forEach((id) => requireRole(id));
+    user.accessRole = roleIds;
+    user.updatedAt = nowIso();
+    return NO_CONTENT;
+  }),
+
+  route('PATCH', '/user/:id/storehouses', (req) => {
+    requireAdmin(req);
+    const user = requireUser(req.params['id']);
+    const ids = (req.body['storeHouseIds'] as string[] | undefined) ?? [];
+    const known = new Set(getDb().storehouses.map((s) => s._id));
+    if (ids.some((id) => !known.has(id))) notFound(4402);
+    user.storeHouses = ids;
+    user.updatedAt = nowIso();
+    return NO_CONTENT;
+  }),
+
+  route('PATCH', '/user/:id/app-role', (req) => {
+    requireAdmin(req);
+    const user = requireUser(req.params['id']);
+    requireManageable(req, user);
+    const appRole = req.body['appRole'];
+    if (appRole !== 'admin' && appRole !== 'user') {
+      badRequest('appRole must be admin or user');
+    }
+    user.appRole = appRole;
+    user.updatedAt = nowIso();
+    return NO_CONTENT;
+  }),
+];
+
+export const roleRoutes: MockRoute[] = [
+  route('GET', '/role', () => getDb().roles),
+
+  route('GET', '/role/:id', (req) => requireRole(req.params['id'])),
+
+  route('POST', '/role', (req) => {
+    const user = requireAdmin(req);
+    const body = req.body as {
+      name?: string;
+      description?: string;
+      permissions?: Partial<Permissions>;
+    };
+    if (!body.name) badRequest('name is required');
+
+    const timestamp = nowIso();
+    const role: CustomRole = {
+      _id: objectId(),
+      name: body.name,
+      description: body.description ?? '',
+      business: getDb().business._id,
+      permissions: {
+        items: {},
+        imports: {},
+        transactions: {},
+        transfers: {},
+        partners: {},
+        storehouses: {},
+        businessSettings: {},
+        users: {},
+        ...body.permissions,
+      },
+      createdBy: user._id,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    getDb().roles.push(role);
+    return role;
+  }),
+
+  route('PUT', '/role/:id', (req) => {
+    requireAdmin(req);
+    const role = requireRole(req.params['id']);
+    const body = req.body as {
+      name?: string;
+      description?: string;
+      permissions?: Partial<Permissions>;
+    };
+    role.name = body.name ?? role.name;
+    role.description = body.description ?? role.description;
+    role.permissions = { ...role.permissions, ...body.permissions };
+    role.updatedAt = nowIso();
+    return role;
+  }),
+
+  route('DELETE', '/role/:id', (req) => {
+    requireAdmin(req);
+    const db = getDb();
+    const role = requireRole(req.params['id']);
+    db.roles = db.roles.filter((r) => r !== role);
+    db.users.forEach((u) => {
+      u.accessRole = u.accessRole.filter((id) => id !== role._id);
+    });
+    return NO_CONTENT;
+  }),
+];
@@ -0,0 +1,1119 @@
+/**
+ * Mock Database
+ *
+ * In-memory dataset behind the mock server. Records are stored in the
+ * backend (MongoDB) shape so the real API mappers run unchanged; references
+ * are stored as ids and populated on the way out, like the backend does.
+ *
+ * Ids and timestamps come from a seeded PRNG so a given seed always
+ * produces the same dataset (see fixtures.ts).
+ */
+
+import type { CustomRole } from '@/shared/api/roles.api';
+import type { InvitedUser } from '@/features/team/types/team.types';
+import type {
+  PlanTier,
+  UsageSummary,
+} from '@/features/billing/types/billing.types';
+import { httpError } from './router';
+
+export type RecordStatus = 'pending' | 'completed' | 'cancelled';
+
+export type MockCostingMethod = 'fifo' | 'average';
+
+export interface MockBusiness {
+  _id: string;
+  name: string;
+  address: string;
+  phoneNumber: string;
+  email: string;
+  currency: string;
+  timezone: string;
+  /** Pattern for generated item SKUs (see product-codes.ts) */
+  skuPattern: string;
+  /** Next running number for generated SKUs */
+  skuSequence: number;
+  /** Days a supplier takes to deliver, for reorder points */
+  leadTimeDays: number;
+  /** Extra days of sales kept in stock against late deliveries */
+  safetyStockDays: number;
+  /** Days of sales one reorder should cover */
+  reorderCoverDays: number;
+  /** How stock is valued and sales are costed, see costing.ts */
+  costingMethod: MockCostingMethod;
+  creator: string;
+  createdAt: string;
+}
+
+export interface MockUser {
+  _id: string;
+  email: string;
+  name: string;
+  username?: string;
+  appRole: 'dev' | 'admin' | 'user';
+  phoneNumber?: string;
+  birthDate?: string;
+  business?: string;
+  storeHouses: string[];
+  accessRole: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockStorehouse {
+  _id: string;
+  name: string;
+  address: string;
+  phoneNumber: string;
+  email: string;
+  business: string;
+  isLocked: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Quantity of one lot (batch) */
+export interface MockLot {
+  lotNumber: string;
+  /** YYYY-MM-DD */
+  expiresAt?: string;
+  quantity: number;
+}
+
+/** A pack the item is bought or sold in: `factor` base units each */
+export interface MockPackUnit {
+  unit: string;
+  factor: number;
+}
+
+export interface MockStockLevel {
+  storeHouse: string;
+  quantity: number;
+  /** Overrides the item's lowStockAt at this location */
+  lowStockAt?: number;
+  /** Lots held here; stock received without a lot is not listed */
+  lots?: MockLot[];
+  /** Serial numbers of the units held here (serialized items) */
+  serials?: string[];
+}
+
+export interface MockItem {
+  _id: string;
+  name: string;
+  description?: string;
+  unitPrice: number;
+  sellingPrice?: number;
+  origin?: string;
+  tags: string[];
+  /** Sum of the per-storehouse quantities */
+  quantity: number;
+  /** Base unit: quantities, prices and stock are counted in it */
+  unit: string;
+  /** Packs the item also comes in, e.g. a case of 24 */
+  packUnits?: MockPackUnit[];
+  imageUrl: string[];
+  sku: string;
+  /** GTIN/EAN/UPC codes, check digit validated */
+  barcodes: string[];
+  /** Home storehouse: where stock goes when no location is given */
+  storeHouse: string;
+  /** Stock per storehouse, always including the home storehouse */
+  stock: MockStockLevel[];
+  lowStockAt: number;
+  /** Opt-in: every unit received or sold is tracked by serial number */
+  serialized?: boolean;
+  /**
+   * Bill of materials, kits only. Kits are assembled from these ahead of
+   * time, or built as they are delivered.
+   */
+  components?: MockKitComponent[];
+  /** Hidden from GET /item unless ?archived=true */
+  archived?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Base units of a component item in one kit */
+export interface MockKitComponent {
+  itemId: string;
+  quantity: number;
+}
+
+export interface MockPartner {
+  _id: string;
+  partnerName: string;
+  partnerType: 'supplier' | 'client';
+  phoneNumber?: string;
+  email?: string;
+  address?: string;
+  worksWithBusiness: string;
+  isWalkIn?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockLine {
+  itemId: string;
+  /** Location the stock leaves (sales) or arrives at (imports) */
+  storeHouse: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  /** Lot received (imports), or picked before first-expiry order (sales) */
+  lotNumber?: string;
+  /** Expiry of the received lot (imports) */
+  expiresAt?: string;
+  /** Lots the stock was taken from, recorded when a sale is delivered */
+  lots?: MockLot[];
+  /** Serial numbers of the units received (imports) or sold (sales) */
+  serials?: string[];
+  /**
+   * Pack the line was entered in; quantity and unitPrice stay in the
+   * item's base unit
+   */
+  packUnit?: MockPackUnit;
+  /**
+   * Kits built from components when the line was delivered (beyond the
+   * assembled kits in stock), and the components used. Put back on cancel.
+   */
+  builtFrom?: { kits: number; components: MockKitComponent[] };
+}
+
+export interface MockTransaction {
+  _id: string;
+  business: string;
+  clientId: string;
+  item: Array<MockLine & { listedPrice: number }>;
+  totalPrice: number;
+  status: RecordStatus;
+  itemsDeliveredDate?: string;
+  paymentCompletedDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockImport {
+  _id: string;
+  business: string;
+  supplierId: string | null;
+  item: MockLine[];
+  totalPrice: number;
+  status: RecordStatus;
+  itemsReceivedDate?: string;
+  paymentCompletedDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockTransfer {
+  _id: string;
+  business: string;
+  itemId: string;
+  fromStoreHouse: string;
+  toStoreHouse: string;
+  quantity: number;
+  /** Units moved, chosen up front or recorded on completion */
+  serials?: string[];
+  status: RecordStatus;
+  note?: string;
+  transferredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MockMovementSource =
+  | 'adjustment'
+  | 'sale'
+  | 'import'
+  | 'transfer'
+  | 'assembly';
+
+export interface MockStockMovement {
+  _id: string;
+  itemId: string;
+  change: number;
+  source: MockMovementSource;
+  reason: string;
+  /** Order / import / transfer that moved the stock */
+  reference?: string;
+  notes?: string;
+  /** Storehouse whose stock changed */
+  storeHouse: string;
+  previousQuantity: number;
+  newQuantity: number;
+  performedBy: string;
+  /** Business costing method when it was recorded, see costing.ts */
+  costingMethod?: MockCostingMethod;
+  createdAt: string;
+}
+
+/** Catalogue prices an item had from `createdAt` until the next change */
+export interface MockPriceChange {
+  _id: string;
+  itemId: string;
+  unitPrice: number;
+  sellingPrice?: number;
+  changedBy: string;
+  createdAt: string;
+}
+
+export interface MockStocktakeLine {
+  itemId: string;
+  /** Frozen when the session started */
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  countedBy?: string;
+  countedAt?: string;
+}
+
+export interface MockStocktake {
+  _id: string;
+  business: string;
+  name: string;
+  storeHouse: string;
+  /** Item criteria the session was started with (as on GET /item) */
+  criteria: { search?: string; status?: string; tags?: string[] };
+  status: 'in-progress' | 'posted' | 'cancelled';
+  assignedTo: string[];
+  createdBy: string;
+  lines: MockStocktakeLine[];
+  postedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MockSession {
+  id: string;
+  deviceInfo: { userAgent?: string; ip?: string };
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+export interface MockSubscription {
+  plan: PlanTier;
+  status: UsageSummary['status'];
+  billingCycle: UsageSummary['billingCycle'];
+  trialEndsAt: string | null;
+  hasUsedTrial: boolean;
+  canceledAt: string | null;
+  limitOverrides: Record<string, number>;
+  featureOverrides: Record<string, boolean>;
+}
+
+export interface MockAuthState {
+  /** User the refresh cookie belongs to (null = logged out) */
+  userId: string | null;
+  accessToken: string | null;
+  csrfToken: string;
+}
+
+export interface MockDb {
+  business: MockBusiness;
+  users: MockUser[];
+  invitedUsers: InvitedUser[];
+  roles: CustomRole[];
+  storehouses: MockStorehouse[];
+  items: MockItem[];
+  partners: MockPartner[];
+  transactions: MockTransaction[];
+  imports: MockImport[];
+  transfers: MockTransfer[];
+  stockMovements: MockStockMovement[];
+  priceChanges: MockPriceChange[];
+  stocktakes: MockStocktake[];
+  sessions: MockSession[];
+  subscription: MockSubscription;
+  auth: MockAuthState;
+}
+
+// ============================================
+// Deterministic randomness
+// ============================================
+
+let rngState = 1;
+
+/**
+ * Reset the PRNG (mulberry32) to a seed
+ */
+export function seedRandom(seed: number): void {
+  rngState = seed >>> 0 || 1;
+}
+
+/**
+ * Next float in [0, 1)
+ */
+export function random(): number {
+  rngState = (rngState + 0x6d2b79f5) >>> 0;
+  let t = rngState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/**
+ * Integer in [min, max]
+ */
+export function randomInt(min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Pick one element
+ */
+export function pick<T>(values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)] as T;
+}
+
+/**
+ * 24-char hex id, shaped like a MongoDB ObjectId
+ */
+export function objectId(): string {
+  let id = '';
+  for (let i = 0; i < 24; i++) {
+    id += Math.floor(random() * 16).toString(16);
+  }
+  return id;
+}
+
+// ============================================
+// State
+// ============================================
+
+let db: MockDb | null = null;
+
+export function getDb(): MockDb {
+  if (!db) {
+    throw new Error('Mock database has not been seeded');
+  }
+  return db;
+}
+
+export function setDb(next: MockDb): void {
+  db = next;
+}
+
+export function hasDb(): boolean {
+  return db !== null;
+}
+
+/**
+ * Current time as ISO string
+ */
+export function nowIso(): string {
+  return new Date().toISOString();
+}
+
+// ============================================
+// Population helpers (mirror the backend's .populate())
+// ============================================
+
+export function findItem(id: string): MockItem | undefined {
+  return getDb().items.find((i) => i._id === id);
+}
+
+export function findStorehouse(id: string): MockStorehouse | undefined {
+  return getDb().storehouses.find((s) => s._id === id);
+}
+
+export function findPartner(id: string | null): MockPartner | undefined {
+  return getDb().partners.find((p) => p._id === id);
+}
+
+export function populateStorehouse(id: string) {
+  const storehouse = findStorehouse(id);
+  return storehouse ? { _id: storehouse._id, name: storehouse.name } : id;
+}
+
+/**
+ * Components (named) and the kits buildable per storehouse, kits only
+ */
+export function kitDetails(item: MockItem, populate = true) {
+  if (!item.components?.length) return {};
+  return {
+    components: item.components.map((component) => {
+      const part = findItem(component.itemId);
+      return {
+        ...component,
+        itemId: part
+          ? { _id: part._id, name: part.name, unit: part.unit }
+          : component.itemId,
+      };
+    }),
+    buildable: getDb()
+      .storehouses.map((storehouse) => ({
+        storeHouse: populate
+          ? populateStorehouse(storehouse._id)
+          : storehouse._id,
+        quantity: kitsBuildable(item, storehouse._id),
+      }))
+      .filter((level) => level.quantity > 0),
+  };
+}
+
+export function populateItem(item: MockItem) {
+  return {
+    ...item,
+    storeHouse: populateStorehouse(item.storeHouse),
+    stock: item.stock.map((level) => ({
+      ...level,
+      storeHouse: populateStorehouse(level.storeHouse),
+    })),
+    ...kitDetails(item),
+  };
+}
+
+function populateLine<L extends MockLine>(line: L) {
+  const item = findItem(line.itemId);
+  return {
+    ...line,
+    itemId: item ? { _id: item._id, name: item.name } : line.itemId,
+    storeHouse: populateStorehouse(line.storeHouse),
+  };
+}
+
+export function populatePartner(id: string | null) {
+  const partner = findPartner(id);
+  return partner
+    ? {
+        _id: partner._id,
+        partnerName: partner.partnerName,
+        email: partner.email,
+        phoneNumber: partner.phoneNumber,
+      }
+    : id;
+}
+
+export function populateTransaction(transaction: MockTransaction) {
+  return {
+    ...transaction,
+    clientId: populatePartner(transaction.clientId),
+    item: transaction.item.map(populateLine),
+  };
+}
+
+export function populateImport(importRecord: MockImport) {
+  return {
+    ...importRecord,
+    supplierId: populatePartner(importRecord.supplierId),
+    item: importRecord.item.map(populateLine),
+  };
+}
+
+export function populateTransfer(transfer: MockTransfer) {
+  const item = findItem(transfer.itemId);
+  return {
+    ...transfer,
+    itemId: item
+      ? {
+          _id: item._id,
+          name: item.name,
+          unit: item.unit,
+          quantity: item.quantity,
+        }
+      : transfer.itemId,
+    fromStoreHouse: populateStorehouse(transfer.fromStoreHouse),
+    toStoreHouse: populateStorehouse(transfer.toStoreHouse),
+  };
+}
+
+function populateUser(id: string) {
+  const user = getDb().users.find((u) => u._id === id);
+  return user ? { _id: user._id, name: user.name } : id;
+}
+
+export function populateStockMovement(movement: MockStockMovement) {
+  return { ...movement, performedBy: populateUser(movement.performedBy) };
+}
+
+export function populatePriceChange(change: MockPriceChange) {
+  return { ...change, changedBy: populateUser(change.changedBy) };
+}
+
+export function populateStocktake(stocktake: MockStocktake) {
+  return {
+    ...stocktake,
+    storeHouse: populateStorehouse(stocktake.storeHouse),
+    assignedTo: stocktake.assignedTo.map(populateUser),
+    createdBy: populateUser(stocktake.createdBy),
+    lines: stocktake.lines.map((line) => {
+      const item = findItem(line.itemId);
+      return {
+        ...line,
+        itemId: item
+          ? {
+              _id: item._id,
+              name: item.name,
+              unit: item.unit,
+              unitPrice: item.unitPrice,
+            }
+          : line.itemId,
+        countedBy: line.countedBy ? populateUser(line.countedBy) : undefined,
+      };
+    }),
+  };
+}
+
+// ============================================
+// Stock levels
+// ============================================
+
+/**
+ * The item's stock at a storehouse. With `create`, an empty level is added
+ * when the item isn't stocked there yet.
+ */
+export function stockLevel(
+  item: MockItem,
+  storehouseId: string,
+  create = false
+): MockStockLevel | undefined {
+  let level = item.stock.find((l) => l.storeHouse === storehouseId);
+  if (!level && create) {
+    level = { storeHouse: storehouseId, quantity: 0 };
+    item.stock.push(level);
+  }
+  return level;
+}
+
+/**
+ * Kits that could be built from the component stock at a storehouse
+ */
+export function kitsBuildable(kit: MockItem, storehouseId: string): number {
+  if (!kit.components?.length) return 0;
+  return Math.min(
+    ...kit.components.map((component) => {
+      const item = findItem(component.itemId);
+      const held = item ? (stockLevel(item, storehouseId)?.quantity ?? 0) : 0;
+      return Math.floor(held / component.quantity);
+    })
+  );
+}
+
+/**
+ * Low-stock threshold at a location
+ */
+export function levelThreshold(item: MockItem, level: MockStockLevel): number {
+  return level.lowStockAt ?? item.lowStockAt;
+}
+
+/**
+ * Items stocked at a storehouse, with their level there
+ */
+export function stockedAt(
+  storehouseId: string
+): Array<{ item: MockItem; level: MockStockLevel }> {
+  return getDb().items.flatMap((item) => {
+    const level = stockLevel(item, storehouseId);
+    return level ? [{ item, level }] : [];
+  });
+}
+
+/**
+ * Recompute the item's total from its levels
+ */
+export function syncQuantity(item: MockItem): void {
+  item.quantity = item.stock.reduce((sum, level) => sum + level.quantity, 0);
+}
+
+/**
+ * Lots to take `quantity` from, first expiry first out (lots without an
+ * expiry after those with one). A preferred lot is used up first. Stock
+ * held without a lot is taken last and doesn't appear in the result.
+ */
+export function pickLots(
+  level: MockStockLevel,
+  quantity: number,
+  preferredLot?: string
+): MockLot[] {
+  const lots = [...(level.lots ?? [])].sort(
+    (a, b) =>
+      Number(b.lotNumber === preferredLot) -
+        Number(a.lotNumber === preferredLot) ||
+      (a.expiresAt ?? '9999').localeCompare(b.expiresAt ?? '9999')
+  );
+  const picked: MockLot[] = [];
+  let remaining = quantity;
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    picked.push({ ...lot, quantity: taken });
+    remaining -= taken;
+  }
+  return picked;
+}
+
+/**
+ * Add lots to a level, merging quantities by lot number
+ */
+export function addLots(level: MockStockLevel, lots: MockLot[]): void {
+  lots.forEach((lot) => {
+    const held = level.lots?.find((l) => l.lotNumber === lot.lotNumber);
+    if (held) held.quantity += lot.quantity;
+    else level.lots = [...(level.lots ?? []), { ...lot }];
+  });
+}
+
+/**
+ * Take lots out of a level, dropping the ones that run empty
+ */
+export function removeLots(level: MockStockLevel, lots: MockLot[]): void {
+  lots.forEach((lot) => {
+    const held = level.lots?.find((l) => l.lotNumber === lot.lotNumber);
+    if (held) held.quantity -= Math.min(held.quantity, lot.quantity);
+  });
+  level.lots = level.lots?.filter((lot) => lot.quantity > 0);
+}
+
+/**
+ * Serial numbers leaving with `quantity` units: the chosen ones, then
+ * units held without a serial, then the earliest received
+ */
+export function pickSerials(
+  level: MockStockLevel,
+  quantity: number,
+  chosen: string[] = []
+): string[] {
+  const held = level.serials ?? [];
+  const untracked = level.quantity - held.length;
+  const rest = held.filter((serial) => !chosen.includes(serial));
+  return [
+    ...chosen,
+    ...rest.slice(0, Math.max(0, quantity - chosen.length - untracked)),
+  ];
+}
+
+export function addSerials(level: MockStockLevel, serials: string[]): void {
+  if (serials.length > 0)
+    level.serials = [...(level.serials ?? []), ...serials];
+}
+
+export function removeSerials(level: MockStockLevel, serials: string[]): void {
+  if (serials.length === 0) return;
+  level.serials = level.serials?.filter((serial) => !serials.includes(serial));
+}
+
+/**
+ * The item's stock level holding a serial number
+ */
+export function serialLevel(
+  item: MockItem,
+  serial: string
+): MockStockLevel | undefined {
+  return item.stock.find((level) => level.serials?.includes(serial));
+}
+
+function locationName(level: MockStockLevel): string {
+  return findStorehouse(level.storeHouse)?.name ?? level.storeHouse;
+}
+
+function insufficientStock(item: MockItem, level: MockStockLevel) {
+  return httpError(
+    400,
+    4000,
+    `Insufficient stock for ${item.name} at ${locationName(level)}: ${level.quantity} available`
+  );
+}
+
+/**
+ * Rejects serials that are not held at the level the units leave
+ */
+export function assertSerialsHeld(
+  item: MockItem,
+  level: MockStockLevel,
+  serials: string[]
+): void {
+  const missing = serials.find((serial) => !level.serials?.includes(serial));
+  if (missing) {
+    throw httpError(
+      400,
+      4000,
+      `${item.name} ${missing} is not in stock at ${locationName(level)}`
+    );
+  }
+}
+
+/**
+ * Rejects serials the item already has in stock somewhere
+ */
+export function assertSerialsNew(item: MockItem, serials: string[]): void {
+  const taken = serials.find((serial) => serialLevel(item, serial));
+  if (taken) {
+    throw httpError(400, 4000, `${item.name} ${taken} is already in stock`);
+  }
+}
+
+// ============================================
+// Stock movements
+// ============================================
+
+/**
+ * What caused a stock change, for the movement ledger
+ */
+export interface MovementContext {
+  source: MockMovementSource;
+  reason: string;
+  reference?: string;
+  notes?: string;
+  /** Defaults to the item's home storehouse */
+  storeHouse?: string;
+  /** Defaults to the signed-in user */
+  performedBy?: string;
+}
+
+/**
+ * Append a ledger entry for a quantity change that already happened
+ */
+export function recordStockMovement(
+  item: MockItem,
+  previousQuantity: number,
+  context: MovementContext
+): MockStockMovement {
+  const db = getDb();
+  const { performedBy, ...rest } = context;
+  const movement: MockStockMovement = {
+    _id: objectId(),
+    itemId: item._id,
+    change: item.quantity - previousQuantity,
+    ...rest,
+    storeHouse: context.storeHouse ?? item.storeHouse,
+    previousQuantity,
+    newQuantity: item.quantity,
+    performedBy: performedBy ?? db.auth.userId ?? '',
+    costingMethod: db.business.costingMethod,
+    createdAt: nowIso(),
+  };
+  db.stockMovements.push(movement);
+  return movement;
+}
+
+/**
+ * Record the item's catalogue prices when they differ from the last
+ * recorded ones (or none were recorded yet)
+ */
+export function recordPriceChange(item: MockItem): void {
+  const db = getDb();
+  const last = db.priceChanges
+    .filter((change) => change.itemId === item._id)
+    .reduce<
+      MockPriceChange | undefined
+    >((latest, change) => (!latest || change.createdAt >= latest.createdAt ? change : latest), undefined);
+  if (
+    last &&
+    last.unitPrice === item.unitPrice &&
+    last.sellingPrice === item.sellingPrice
+  ) {
+    return;
+  }
+  db.priceChanges.push({
+    _id: objectId(),
+    itemId: item._id,
+    unitPrice: item.unitPrice,
+    sellingPrice: item.sellingPrice,
+    changedBy: db.auth.userId ?? '',
+    createdAt: nowIso(),
+  });
+}
+
+/**
+ * Move an item's quantity at one storehouse (its home storehouse by
+ * default) by `delta`. Rejects moves that would go negative, like the
+ * backend does when delivering more than is in stock.
+ *
+ * `lots` are the lots arriving, or the lots to take from; stock leaving
+ * without them is picked first expiry first out. `serials` work the same
+ * way, leaving units without a serial go first.
+ */
+export function adjustItemQuantity(
+  itemId: string,
+  delta: number,
+  context?: MovementContext,
+  storehouseId?: string,
+  lots?: MockLot[],
+  serials?: string[]
+): MockItem {
+  const item = findItem(itemId);
+  if (!item) throw httpError(404, 4403, `Item ${itemId} not found`);
+  const level = stockLevel(item, storehouseId ?? item.storeHouse, true)!;
+  if (level.quantity + delta < 0) throw insufficientStock(item, level);
+
+  const previousQuantity = item.quantity;
+  if (delta > 0) {
+    addLots(level, lots ?? []);
+    addSerials(level, serials ?? []);
+  } else {
+    removeLots(level, lots ?? pickLots(level, -delta));
+    removeSerials(level, pickSerials(level, -delta, serials));
+  }
+  level.quantity += delta;
+  syncQuantity(item);
+  item.updatedAt = nowIso();
+  if (context) {
+    recordStockMovement(item, previousQuantity, {
+      ...context,
+      storeHouse: level.storeHouse,
+    });
+  }
+  return item;
+}
+
+/**
+ * Count the components outgoing kits will be built from against the
+ * components' own stock, in place of the kits the storehouse doesn't hold
+ */
+function addKitComponents(
+  totals: Map<string, { line: MockLine; quantity: number }>
+): void {
+  Array.from(totals.values()).forEach((entry) => {
+    const kit = findItem(entry.line.itemId);
+    if (!kit?.components?.length) return;
+    const held = stockLevel(kit, entry.line.storeHouse)?.quantity ?? 0;
+    const kits = entry.quantity - held;
+    if (kits <= 0) return;
+    entry.quantity = held;
+    kit.components.forEach((component) => {
+      const key = `${component.itemId}:${entry.line.storeHouse}`;
+      const total = totals.get(key) ?? {
+        line: { ...entry.line, itemId: component.itemId },
+        quantity: 0,
+      };
+      total.quantity += kits * component.quantity;
+      totals.set(key, total);
+    });
+  });
+}
+
+/**
+ * Ledger context of components moving for a kit sale (`kit-sale`,
+ * `kit-sale-cancelled`)
+ */
+function kitContext(
+  kit: MockItem,
+  context?: MovementContext
+): MovementContext | undefined {
+  return (
+    context && { ...context, reason: `kit-${context.reason}`, notes: kit.name }
+  );
+}
+
+/**
+ * Deliver a kit line: assembled kits first, the rest built from components
+ */
+function deliverKitLine(
+  kit: MockItem,
+  line: MockLine,
+  context?: MovementContext
+): void {
+  const held = stockLevel(kit, line.storeHouse)?.quantity ?? 0;
+  const kits = Math.max(0, line.quantity - held);
+  if (kits > 0) {
+    const components = kit.components!.map((component) => ({
+      itemId: component.itemId,
+      quantity: component.quantity * kits,
+    }));
+    components.forEach((component) =>
+      adjustItemQuantity(
+        component.itemId,
+        -component.quantity,
+        kitContext(kit, context),
+        line.storeHouse
+      )
+    );
+    line.builtFrom = { kits, components };
+  }
+  if (line.quantity > kits) {
+    const lots = pickLots(
+      stockLevel(kit, line.storeHouse)!,
+      line.quantity - kits,
+      line.lotNumber
+    );
+    adjustItemQuantity(
+      kit._id,
+      kits - line.quantity,
+      context,
+      line.storeHouse,
+      lots
+    );
+    if (lots.length > 0) line.lots = lots;
+  }
+}
+
+/**
+ * Put a delivered kit line back: the components it was built from, and
+ * the assembled kits it took
+ */
+function returnKitLine(
+  kit: MockItem,
+  line: MockLine,
+  context?: MovementContext
+): void {
+  const { kits, components } = line.builtFrom!;
+  components.forEach((component) =>
+    adjustItemQuantity(
+      component.itemId,
+      component.quantity,
+      kitContext(kit, context),
+      line.storeHouse
+    )
+  );
+  if (line.quantity > kits) {
+    adjustItemQuantity(
+      kit._id,
+      line.quantity - kits,
+      context,
+      line.storeHouse,
+      line.lots ?? []
+    );
+  }
+  delete line.builtFrom;
+  delete line.lots;
+}
+
+/**
+ * Assemble kits at a storehouse: the components are used up (`kit-component`)
+ * and the kits added (`kit-assembled`), under one assembly reference
+ */
+export function assembleKits(
+  kit: MockItem,
+  kits: number,
+  storehouseId: string,
+  notes?: string
+): void {
+  const components = kit.components ?? [];
+  components.forEach((component) => {
+    const item = findItem(component.itemId);
+    if (!item) {
+      throw httpError(404, 4403, `Item ${component.itemId} not found`);
+    }
+    const level = stockLevel(item, storehouseId) ?? {
+      storeHouse: storehouseId,
+      quantity: 0,
+    };
+    if (level.quantity < component.quantity * kits) {
+      throw insufficientStock(item, level);
+    }
+  });
+
+  const reference = objectId();
+  components.forEach((component) =>
+    adjustItemQuantity(
+      component.itemId,
+      -component.quantity * kits,
+      {
+        source: 'assembly',
+        reason: 'kit-component',
+        reference,
+        notes: kit.name,
+      },
+      storehouseId
+    )
+  );
+  adjustItemQuantity(
+    kit._id,
+    kits,
+    { source: 'assembly', reason: 'kit-assembled', reference, notes },
+    storehouseId
+  );
+}
+
+/**
+ * Apply a set of order/import lines to stock atomically:
+ * every line is checked before any quantity changes.
+ *
+ * Incoming lines add their lot; outgoing lines take from their lot first,
+ * then first expiry first out, and record the lots they took so putting
+ * the stock back restores them. Serial numbers on a line move with it and
+ * stay on the line.
+ *
+ * Kits being sold take the assembled kits held first and build the rest
+ * from components at the same storehouse.
+ */
+export function applyLines(
+  lines: MockLine[],
+  direction: 1 | -1,
+  context?: MovementContext
+): void {
+  // Per item and location
+  const totals = new Map<string, { line: MockLine; quantity: number }>();
+  lines.forEach((line) => {
+    const key = `${line.itemId}:${line.storeHouse}`;
+    const entry = totals.get(key) ?? { line, quantity: 0 };
+    entry.quantity += line.quantity;
+    totals.set(key, entry);
+  });
+  const buildsKits = direction === -1 && context?.source === 'sale';
+  if (buildsKits) addKitComponents(totals);
+
+  totals.forEach(({ line, quantity }) => {
+    const item = findItem(line.itemId);
+    if (!item) throw httpError(404, 4403, `Item ${line.itemId} not found`);
+    const level = stockLevel(item, line.storeHouse) ?? {
+      storeHouse: line.storeHouse,
+      quantity: 0,
+    };
+    if (level.quantity + direction * quantity < 0) {
+      throw insufficientStock(item, level);
+    }
+  });
+  lines.forEach((line) => {
+    if (!line.serials?.length) return;
+    const item = findItem(line.itemId)!;
+    if (direction === 1) {
+      assertSerialsNew(item, line.serials);
+      return;
+    }
+    const level = stockLevel(item, line.storeHouse) ?? {
+      storeHouse: line.storeHouse,
+      quantity: 0,
+    };
+    assertSerialsHeld(item, level, line.serials);
+  });
+  lines.forEach((line) => {
+    const item = findItem(line.itemId)!;
+    if (line.builtFrom && direction === 1) {
+      returnKitLine(item, line, context);
+      return;
+    }
+    if (buildsKits && item.components?.length) {
+      deliverKitLine(item, line, context);
+      return;
+    }
+    if (direction === 1) {
+      const lots =
+        line.lots ??
+        (line.lotNumber
+          ? [
+              {
+                lotNumber: line.lotNumber,
+                expiresAt: line.expiresAt,
+                quantity: line.quantity,
+              },
+            ]
+          : []);
+      adjustItemQuantity(
+        line.itemId,
+        line.quantity,
+        context,
+        line.storeHouse,
+        lots,
+        line.serials
+      );
+      delete line.lots;
+      return;
+    }
+    const lots = pickLots(
+      stockLevel(item, line.storeHouse)!,
+      line.quantity,
+      line.lotNumber
+    );
+    adjustItemQuantity(
+      line.itemId,
+      -line.quantity,
+      context,
+      line.storeHouse,
+      lots,
+      line.serials
+    );
+    if (lots.length > 0) line.lots = lots;
+  });
+}
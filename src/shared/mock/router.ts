@@ -0,0 +1,208 @@
+/**
+ * Mock Router
+ *
+ * Tiny path matcher for the mock server. Handlers receive the parsed
+ * request and return the unwrapped payload; the server wraps it in the
+ * backend envelope ({ isOk, data }). Throw `httpError(...)` to answer with
+ * a backend-style error ({ isOk: false, data: { rcode } }).
+ */
+
+import type { MockUser } from './mock-db';
+
+export type MockMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockRequest {
+  method: MockMethod;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  headers: Headers;
+  /** Signed-in user (null on public routes) */
+  user: MockUser | null;
+}
+
+export type MockHandler = (req: MockRequest) => unknown;
+
+export interface MockRoute {
+  method: MockMethod;
+  pattern: string;
+  handler: MockHandler;
+  /** Reachable without an access token */
+  isPublic: boolean;
+}
+
+/**
+ * Error answered as a backend error response
+ */
+export interface MockHttpError {
+  mockStatus: number;
+  rcode: number;
+  debug?: string;
+}
+
+export function httpError(
+  status: number,
+  rcode: number,
+  debug?: string
+): MockHttpError {
+  return { mockStatus: status, rcode, debug };
+}
+
+export function isMockHttpError(error: unknown): error is MockHttpError {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    'mockStatus' in error &&
+    'rcode' in error
+  );
+}
+
+/**
+ * Marker for handlers that answer 204 No Content
+ */
+export const NO_CONTENT = Symbol('NO_CONTENT');
+
+export function route(
+  method: MockMethod,
+  pattern: string,
+  handler: MockHandler,
+  options: { isPublic?: boolean } = {}
+): MockRoute {
+  return { method, pattern, handler, isPublic: options.isPublic ?? false };
+}
+
+/**
+ * Match `/item/:id` style patterns. Returns params or null.
+ */
+function matchPattern(
+  pattern: string,
+  path: string
+): Record<string, string> | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    const expected = patternParts[i] as string;
+    const actual = pathParts[i] as string;
+    if (expected.startsWith(':')) {
+      params[expected.slice(1)] = decodeURIComponent(actual);
+    } else if (expected !== actual) {
+      return null;
+    }
+  }
+  return params;
+}
+
+/**
+ * Find the first route matching method + path.
+ * Static segments win over params because routes are matched in order.
+ */
+export function matchRoute(
+  routes: MockRoute[],
+  method: MockMethod,
+  path: string
+): { route: MockRoute; params: Record<string, string> } | null {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const params = matchPattern(candidate.pattern, path);
+    if (params) return { route: candidate, params };
+  }
+  return null;
+}
+
+// ============================================
+// Shared handler helpers
+// ============================================
+
+/**
+ * Throw a 404 with the given backend code
+ */
+export function notFound(rcode: number, debug?: string): never {
+  throw httpError(404, rcode, debug);
+}
+
+/**
+ * The signed-in user (routes are authenticated by the server)
+ */
+export function currentUser(req: MockRequest): MockUser {
+  if (!req.user) throw httpError(401, 4003);
+  return req.user;
+}
+
+/**
+ * Throw a 400 validation error
+ */
+export function badRequest(debug: string): never {
+  throw httpError(400, 4000, debug);
+}
+
+/**
+ * Page a list the way the backend list endpoints do
+ */
+export function paginate<T>(
+  list: T[],
+  query: URLSearchParams,
+  defaultLimit: number = 20
+): {
+  items: T[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+    totalPages: number;
+  };
+} {
+  const page = Math.max(1, Number(query.get('page')) || 1);
+  const limit = Math.max(1, Number(query.get('limit')) || defaultLimit);
+  const pages = Math.max(1, Math.ceil(list.length / limit));
+  return {
+    items: list.slice((page - 1) * limit, page * limit),
+    pagination: {
+      page,
+      limit,
+      total: list.length,
+      pages,
+      totalPages: pages,
+    },
+  };
+}
+
+/**
+ * Sort by a field read from each record
+ */
+export function sortBy<T>(
+  list: T[],
+  read: (record: T) => string | number,
+  order: string | null
+): T[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...list].sort((a, b) => {
+    const left = read(a);
+    const right = read(b);
+    if (left === right) return 0;
+    return left > right ? direction : -direction;
+  });
+}
+
+/**
+ * Filter records by createdAt against dateFrom/dateTo query params
+ */
+export function inDateRange(
+  createdAt: string,
+  query: URLSearchParams
+): boolean {
+  const from = query.get('dateFrom');
+  const to = query.get('dateTo');
+  if (from && createdAt < new Date(from).toISOString()) return false;
+  if (to) {
+    const end = new Date(to);
+    // Date-only values include the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+    if (createdAt > end.toISOString()) return false;
+  }
+  return true;
+}
@@ -0,0 +1,369 @@
+/**
+ * Mock Server
+ *
+ * In-process stand-in for the backend. The api-client transport hands
+ * requests here instead of the network when VITE_USE_MOCK_API=true, so
+ * every feature module runs its real request/response code paths against
+ * a coherent in-memory dataset.
+ *
+ * Configuration (env, all optional):
+ * - VITE_MOCK_SEED     Fixture seed (default 42)
+ * - VITE_MOCK_LATENCY  "min-max" or "ms" response delay (default 150-400)
+ * - VITE_MOCK_ERROR_RATE  Fraction of requests failing with a 500 (default 0)
+ * - VITE_MOCK_ACTIVITY_MS Interval of simulated colleague edits (default off)
+ *
+ * Multipart (FormData) bodies reach handlers as plain fields, files as
+ * data URLs. Uploads reporting progress are paced over the latency.
+ *
+ * POSTs carrying an `Idempotency-Key` are answered once; repeats get the
+ * stored response with `Idempotent-Replayed: true`, like the backend.
+ *
+ * In dev builds the controls are exposed as `window.__mockServer` so error
+ * scenarios can be triggered from the console.
+ */
+
+import { createFixtures, type SeedOptions } from './fixtures';
+import { getDb, hasDb, setDb } from './mock-db';
+import {
+  NO_CONTENT,
+  isMockHttpError,
+  matchRoute,
+  type MockMethod,
+  type MockRoute,
+} from './router';
+import {
+  eventRoutes,
+  publishWriteEvents,
+  resetMockEvents,
+  simulateColleagueActivity,
+} from './events';
+import { analyticsRoutes } from './handlers/analytics';
+import { authRoutes } from './handlers/auth';
+import { billingRoutes } from './handlers/billing';
+import { businessRoutes } from './handlers/business';
+import { itemRoutes } from './handlers/items';
+import { importRoutes, transactionRoutes } from './handlers/orders';
+import { partnerRoutes } from './handlers/partners';
+import { stocktakeRoutes } from './handlers/stocktakes';
+import { storehouseRoutes } from './handlers/storehouses';
+import { transferRoutes } from './handlers/transfers';
+import { roleRoutes, userRoutes } from './handlers/users';
+
+const API_BASE_URL = import.meta.env['VITE_API_BASE_URL'] || '';
+
+const ROUTES: MockRoute[] = [
+  ...authRoutes,
+  ...itemRoutes,
+  ...transactionRoutes,
+  ...importRoutes,
+  ...transferRoutes,
+  ...stocktakeRoutes,
+  ...partnerRoutes,
+  ...storehouseRoutes,
+  ...analyticsRoutes,
+  ...billingRoutes,
+  ...userRoutes,
+  ...roleRoutes,
+  ...businessRoutes,
+  ...eventRoutes,
+];
+
+export interface MockServerConfig {
+  /** Minimum response delay (ms) */
+  minLatency: number;
+  /** Maximum response delay (ms) */
+  maxLatency: number;
+  /** Fraction (0-1) of requests answered with a 500 */
+  errorRate: number;
+}
+
+/**
+ * One-shot failure for the next matching request
+ */
+export interface SimulatedFailure {
+  /** HTTP status to answer with (ignored when `network` is set) */
+  status?: number;
+  /** Backend rcode for the error body */
+  rcode?: number;
+  /** Only fail requests whose path starts with this */
+  match?: string;
+  method?: MockMethod;
+  /** Reject like fetch does when the network is down */
+  network?: boolean;
+  /** `Retry-After` header value in seconds (e.g. for a 429) */
+  retryAfter?: number;
+}
+
+function parseLatency(value: string | undefined): [number, number] {
+  if (!value) return [150, 400];
+  const [min, max = min] = value.split('-').map(Number);
+  return [min ?? 0, max ?? 0];
+}
+
+const [envMinLatency, envMaxLatency] = parseLatency(
+  import.meta.env['VITE_MOCK_LATENCY']
+);
+
+const DEFAULT_CONFIG: MockServerConfig = {
+  minLatency: envMinLatency,
+  maxLatency: envMaxLatency,
+  errorRate: Number(import.meta.env['VITE_MOCK_ERROR_RATE']) || 0,
+};
+
+let config: MockServerConfig = { ...DEFAULT_CONFIG };
+let pendingFailures: SimulatedFailure[] = [];
+
+/** Stored results of idempotent POSTs, keyed by user + Idempotency-Key */
+let idempotentResults = new Map<string, { body: string; data: unknown }>();
+
+/**
+ * Update latency / error simulation
+ */
+export function configureMockServer(next: Partial<MockServerConfig>): void {
+  config = { ...config, ...next };
+}
+
+/**
+ * Make the next matching request fail
+ */
+export function failNextRequest(failure: SimulatedFailure = {}): void {
+  pendingFailures.push(failure);
+}
+
+/**
+ * Re-seed the dataset and restore default simulation settings
+ */
+export function resetMockServer(options: SeedOptions = {}): void {
+  setDb(
+    createFixtures({
+      seed: Number(import.meta.env['VITE_MOCK_SEED']) || undefined,
+      ...options,
+    })
+  );
+  config = { ...DEFAULT_CONFIG };
+  pendingFailures = [];
+  idempotentResults = new Map();
+  resetMockEvents();
+}
+
+function ensureSeeded(): void {
+  if (!hasDb()) resetMockServer();
+}
+
+function json(
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+function errorResponse(
+  status: number,
+  rcode: number,
+  debug?: string,
+  headers?: Record<string, string>
+) {
+  return json(status, { isOk: false, data: { rcode, debug } }, headers);
+}
+
+function delay(signal: AbortSignal | null | undefined): Promise<void> {
+  const { minLatency, maxLatency } = config;
+  const ms = minLatency + Math.random() * Math.max(0, maxLatency - minLatency);
+
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+function takeFailure(
+  method: MockMethod,
+  path: string
+): SimulatedFailure | null {
+  const index = pendingFailures.findIndex(
+    (f) =>
+      (!f.method || f.method === method) &&
+      (!f.match || path.startsWith(f.match))
+  );
+  if (index === -1) return null;
+  const [failure] = pendingFailures.splice(index, 1);
+  return failure ?? null;
+}
+
+function parseBody(body: BodyInit | null | undefined): Record<string, unknown> {
+  if (typeof body !== 'string' || !body) return {};
+  try {
+    return JSON.parse(body) as Record<string, unknown>;
+  } catch {
+    return {};
+  }
+}
+
+function readFile(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+async function parseFormData(form: FormData): Promise<Record<string, unknown>> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of form.entries()) {
+    fields[key] = typeof value === 'string' ? value : await readFile(value);
+  }
+  return fields;
+}
+
+function bodySize(body: BodyInit | null | undefined): number {
+  if (body instanceof FormData) {
+    let size = 0;
+    for (const [, value] of body.entries()) {
+      size += typeof value === 'string' ? value.length : value.size;
+    }
+    return size;
+  }
+  return typeof body === 'string' ? body.length : 0;
+}
+
+/** Progress reports per simulated upload, one latency apart */
+const UPLOAD_STEPS = 4;
+
+/**
+ * fetch-compatible entry point used by the api transport
+ */
+export async function mockFetch(
+  input: string,
+  init: RequestInit = {},
+  onUploadProgress?: (loaded: number, total: number) => void
+): Promise<Response> {
+  ensureSeeded();
+  if (onUploadProgress) {
+    const total = bodySize(init.body);
+    for (let step = 1; step <= UPLOAD_STEPS; step++) {
+      await delay(init.signal);
+      onUploadProgress(Math.round((total * step) / UPLOAD_STEPS), total);
+    }
+  } else {
+    await delay(init.signal);
+  }
+
+  const url = new URL(
+    input.startsWith(API_BASE_URL) ? input.slice(API_BASE_URL.length) : input,
+    'http://mock.local'
+  );
+  const method = (init.method ?? 'GET').toUpperCase() as MockMethod;
+  const path = url.pathname;
+
+  const failure = takeFailure(method, path);
+  if (failure?.network) throw new TypeError('Failed to fetch');
+  if (failure) {
+    return errorResponse(
+      failure.status ?? 500,
+      failure.rcode ?? 5000,
+      undefined,
+      failure.retryAfter !== undefined
+        ? { 'Retry-After': String(failure.retryAfter) }
+        : undefined
+    );
+  }
+  if (config.errorRate > 0 && Math.random() < config.errorRate) {
+    return errorResponse(500, 5000, 'Simulated server error');
+  }
+
+  const match = matchRoute(ROUTES, method, path);
+  if (!match) {
+    return errorResponse(404, 4000, `No mock route for ${method} ${path}`);
+  }
+
+  const headers = new Headers(init.headers);
+  const db = getDb();
+  const token = headers.get('Authorization')?.replace(/^Bearer /, '');
+  const user =
+    token && token === db.auth.accessToken
+      ? (db.users.find((u) => u._id === db.auth.userId) ?? null)
+      : null;
+
+  if (!match.route.isPublic && !user) {
+    return errorResponse(401, 4101);
+  }
+
+  const idempotencyKey =
+    method === 'POST' && user ? headers.get('Idempotency-Key') : null;
+  const storeKey = `${user?._id}:${idempotencyKey}`;
+  const requestBody = typeof init.body === 'string' ? init.body : '';
+  const stored = idempotencyKey ? idempotentResults.get(storeKey) : undefined;
+  if (stored) {
+    if (stored.body !== requestBody) {
+      return errorResponse(
+        422,
+        4000,
+        'Idempotency-Key reused with a different request body'
+      );
+    }
+    return json(
+      200,
+      { isOk: true, data: stored.data },
+      { 'Idempotent-Replayed': 'true' }
+    );
+  }
+
+  const body =
+    init.body instanceof FormData
+      ? await parseFormData(init.body)
+      : parseBody(init.body);
+
+  try {
+    const data = match.route.handler({
+      method,
+      path,
+      params: match.params,
+      query: url.searchParams,
+      body,
+      headers,
+      user,
+    });
+    if (user) {
+      publishWriteEvents(method, path, match.params, data, user);
+    }
+    if (data === NO_CONTENT) return new Response(null, { status: 204 });
+    if (idempotencyKey) {
+      idempotentResults.set(storeKey, {
+        body: requestBody,
+        data: data ?? null,
+      });
+    }
+    return json(200, { isOk: true, data: data ?? null });
+  } catch (error) {
+    if (isMockHttpError(error)) {
+      return errorResponse(error.mockStatus, error.rcode, error.debug);
+    }
+    return errorResponse(
+      500,
+      5000,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+if (import.meta.env.DEV && typeof window !== 'undefined') {
+  (window as unknown as Record<string, unknown>)['__mockServer'] = {
+    configure: configureMockServer,
+    failNext: failNextRequest,
+    reset: resetMockServer,
+    colleagueActivity: simulateColleagueActivity,
+  };
+}
@@ -7,6 +7,7 @@
  *
  * Call `fetchBusiness()` once at app init (e.g. in MainLayout or after login).
  * Call `refreshBusiness()` after saving business settings to update all consumers.
+ * Settings saved via `saveAndRefreshBusiness()` also reach the other open tabs.
  */
 
 import { createSignal } from 'solid-js';
@@ -15,10 +16,17 @@ import {
   updateBusiness,
   type Business,
 } from '@/shared/api/business.api';
+import { broadcastToTabs, onTabMessage } from '@/shared/lib/tab-sync';
 
 const [business, setBusiness] = createSignal<Business | null>(null);
 const [isLoaded, setIsLoaded] = createSignal(false);
 
+// Another tab saved business settings
+onTabMessage('business', (message) => {
+  setBusiness(message.business);
+  setIsLoaded(true);
+});
+
 /**
  * Fetch business data from the API and cache it in the store.
  * Safe to call multiple times — only fetches once unless forced.
@@ -48,6 +56,7 @@ export async function saveAndRefreshBusiness(
 ): Promise<Business> {
   const updated = await updateBusiness(id, data);
   setBusiness(updated);
+  broadcastToTabs({ type: 'business', business: updated });
   return updated;
 }
 
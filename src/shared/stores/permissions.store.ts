@@ -3,6 +3,7 @@
  *
  * Singleton reactive store for the current user's resolved permissions.
  * Fetched once after login/init, refreshed when roles change.
+ * Refreshed permissions are shared with the other open tabs.
  *
  * Usage:
  *   can('items', 'create')    → boolean (reactive)
@@ -17,12 +18,19 @@ import {
   type PermissionResource,
   type PermissionAction,
 } from '@/shared/api/roles.api';
+import { broadcastToTabs, onTabMessage } from '@/shared/lib/tab-sync';
 
 const [permissions, setPermissions] = createSignal<ResolvedPermissions | null>(
   null
 );
 const [isLoaded, setIsLoaded] = createSignal(false);
 
+// Another tab refreshed permissions (e.g. after a role change)
+onTabMessage('permissions', (message) => {
+  setPermissions(message.permissions);
+  setIsLoaded(true);
+});
+
 /**
  * Fetch permissions from the API and cache them.
  * Safe to call multiple times — only fetches once unless forced.
@@ -45,10 +53,12 @@ export async function fetchPermissions(
 }
 
 /**
- * Force-refresh permissions from the API.
+ * Force-refresh permissions from the API and share them with other tabs.
  */
 export async function refreshPermissions(): Promise<ResolvedPermissions | null> {
-  return fetchPermissions(true);
+  const data = await fetchPermissions(true);
+  broadcastToTabs({ type: 'permissions', permissions: data });
+  return data;
 }
 
 /**
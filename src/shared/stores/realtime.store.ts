@@ -0,0 +1,217 @@
+/**
+ * Realtime Store
+ *
+ * Live change feed from colleagues working in the same business.
+ *
+ * - Subscribes to the backend's server-sent events (/events/stream)
+ * - Falls back to polling /events when streaming is unavailable, the
+ *   stream closes or keeps failing, resuming from the last event id
+ * - Invalidates the affected query scopes, so mounted tables and the
+ *   dashboard refresh in place (see create-query.ts)
+ * - Remembers who changed which record for a short "updated by" highlight
+ *
+ * Call `startRealtime()` once the user is signed in, `stopRealtime()` on
+ * sign-out.
+ */
+
+import { createSignal } from 'solid-js';
+import { apiClient } from '@/shared/lib/api-client';
+import {
+  invalidateAfterMutation,
+  type QueryScope,
+} from '@/shared/lib/query-client';
+import {
+  openEventStream,
+  STREAM_CLOSED,
+  type EventStream,
+} from '@/shared/lib/transport';
+import { getAccessToken, getUser } from '@/features/auth/store/session.store';
+import {
+  RealtimeEventBatchSchema,
+  RealtimeEventSchema,
+  type RealtimeEntity,
+  type RealtimeEvent,
+  type RealtimeMode,
+  type RecentChange,
+} from '@/shared/types/realtime.types';
+
+const API_BASE_URL = import.meta.env['VITE_API_BASE_URL'] || '';
+const STREAM_ENDPOINT = '/events/stream';
+const POLL_ENDPOINT = '/events';
+const POLL_INTERVAL = 15000;
+/** Consecutive stream errors without a successful open before polling */
+const MAX_STREAM_ERRORS = 3;
+const HIGHLIGHT_DURATION = 8000;
+
+const ENTITY_SCOPES: Record<RealtimeEntity, QueryScope> = {
+  item: 'items',
+  transaction: 'transactions',
+  import: 'imports',
+  transfer: 'transfers',
+};
+
+const [mode, setMode] = createSignal<RealtimeMode>('off');
+const [recentChanges, setRecentChanges] = createSignal<
+  Record<string, RecentChange>
+>({});
+const [lastChange, setLastChange] = createSignal<RecentChange | null>(null);
+
+let stream: EventStream | null = null;
+let pollTimer: ReturnType<typeof setTimeout> | null = null;
+let streamErrors = 0;
+let cursor: string | null = null;
+let isActive = false;
+
+/**
+ * Apply one event: refresh affected views and highlight the record.
+ * Own changes are skipped — the mutation already invalidated the cache.
+ */
+export function handleRealtimeEvent(raw: unknown): void {
+  const parsed = RealtimeEventSchema.safeParse(raw);
+  if (!parsed.success) return;
+  const event: RealtimeEvent = parsed.data;
+
+  cursor = event.id;
+  if (event.actor.id === getUser()?._id) return;
+
+  invalidateAfterMutation(ENTITY_SCOPES[event.entity]);
+
+  const change: RecentChange = {
+    entity: event.entity,
+    action: event.action,
+    actorName: event.actor.name,
+    at: event.at,
+  };
+  setRecentChanges((prev) => ({ ...prev, [event.entityId]: change }));
+  setLastChange(change);
+
+  setTimeout(() => {
+    setRecentChanges((prev) => {
+      if (prev[event.entityId] !== change) return prev;
+      const { [event.entityId]: _expired, ...rest } = prev;
+      return rest;
+    });
+    setLastChange((current) => (current === change ? null : current));
+  }, HIGHLIGHT_DURATION);
+}
+
+// ============================================
+// Polling fallback
+// ============================================
+
+async function poll(): Promise<void> {
+  if (!isActive) return;
+
+  try {
+    const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+    // Every poll has a new cursor: caching them would only pile up, and
+    // replaying an old batch while offline would repeat its events
+    const batch = await apiClient.get(`${POLL_ENDPOINT}${query}`, {
+      schema: RealtimeEventBatchSchema,
+      skipOfflineCache: true,
+    });
+    batch.events.forEach(handleRealtimeEvent);
+    cursor = batch.cursor;
+  } catch {
+    // Transient failure — try again on the next tick
+  }
+
+  if (isActive) pollTimer = setTimeout(() => void poll(), POLL_INTERVAL);
+}
+
+function startPolling(): void {
+  stream?.close();
+  stream = null;
+  setMode('polling');
+  void poll();
+}
+
+// ============================================
+// Streaming
+// ============================================
+
+async function connectStream(): Promise<void> {
+  const url = `${API_BASE_URL}${STREAM_ENDPOINT}${
+    cursor ? `?lastEventId=${encodeURIComponent(cursor)}` : ''
+  }`;
+  const token = getAccessToken();
+  const opened = await openEventStream(
+    url,
+    token ? { Authorization: `Bearer ${token}` } : {}
+  );
+  if (!isActive) {
+    opened?.close();
+    return;
+  }
+  if (!opened) {
+    startPolling();
+    return;
+  }
+
+  stream = opened;
+  stream.onopen = () => {
+    streamErrors = 0;
+    setMode('live');
+  };
+  stream.onmessage = (message) => {
+    try {
+      handleRealtimeEvent(JSON.parse(message.data));
+    } catch {
+      // Ignore malformed frames
+    }
+  };
+  // A closed stream (HTTP error, dropped connection) won't come back; one
+  // that reconnects by itself is given up on if it never recovers
+  stream.onerror = () => {
+    streamErrors++;
+    if (
+      stream?.readyState === STREAM_CLOSED ||
+      streamErrors >= MAX_STREAM_ERRORS
+    ) {
+      startPolling();
+    }
+  };
+}
+
+/**
+ * Start receiving colleagues' changes
+ */
+export function startRealtime(): void {
+  if (isActive) return;
+  isActive = true;
+  streamErrors = 0;
+  void connectStream();
+}
+
+/**
+ * Stop the stream / polling loop and clear highlights
+ */
+export function stopRealtime(): void {
+  isActive = false;
+  stream?.close();
+  stream = null;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = null;
+  cursor = null;
+  setMode('off');
+  setRecentChanges({});
+  setLastChange(null);
+}
+
+/**
+ * Recent colleague change to a record, if any (reactive)
+ */
+export function getRecentChange(entityId: string): RecentChange | undefined {
+  return recentChanges()[entityId];
+}
+
+export const realtimeStore = {
+  // State
+  mode,
+  lastChange,
+  getRecentChange,
+
+  // Actions
+  start: startRealtime,
+  stop: stopRealtime,
+};
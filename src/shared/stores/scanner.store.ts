@@ -0,0 +1,112 @@
+/**
+ * Scanner Store
+ *
+ * App-wide keyboard-wedge barcode scanner listener.
+ *
+ * - Tells scanner bursts apart from typing (see barcode-scanner.ts)
+ * - Undoes the characters a scan typed into the focused field and swallows
+ *   its Enter, so a scan never submits a form by accident
+ * - Routes each scan to the most recently registered handler that claims
+ *   it: an open item picker before the form it sits in, a form before the
+ *   page behind it, the page before the app-wide fallback
+ *
+ * Call `startScanner()` once the signed-in shell mounts, `stopScanner()`
+ * on sign-out. Components register with `useScanHandler()`.
+ */
+
+import { onCleanup } from 'solid-js';
+import { createScanDetector } from '@/shared/lib/barcode-scanner';
+
+/** Return true when the scan was handled, false to pass it on */
+export type ScanHandler = (code: string) => boolean | Promise<boolean>;
+
+const handlers: ScanHandler[] = [];
+const detector = createScanDetector();
+
+// Field the current burst is typing into, and its value before the burst
+let burstTarget: HTMLInputElement | HTMLTextAreaElement | null = null;
+let valueBeforeBurst = '';
+let isListening = false;
+
+function isTextField(
+  target: EventTarget | null
+): target is HTMLInputElement | HTMLTextAreaElement {
+  return (
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement &&
+      ['text', 'search', 'number', 'tel', 'email', ''].includes(target.type))
+  );
+}
+
+function restoreBurstTarget(): void {
+  if (!burstTarget) return;
+  burstTarget.value = valueBeforeBurst;
+  // Let controlled inputs pick the restored value back up
+  burstTarget.dispatchEvent(new Event('input', { bubbles: true }));
+  burstTarget = null;
+}
+
+function handleKeyDown(event: KeyboardEvent): void {
+  if (event.ctrlKey || event.metaKey || event.altKey) {
+    detector.reset();
+    return;
+  }
+
+  const code = detector.push(event);
+  if (code) {
+    event.preventDefault();
+    event.stopPropagation();
+    restoreBurstTarget();
+    void dispatchScan(code);
+    return;
+  }
+
+  // First character of a new burst: remember what the field held
+  if (detector.pending() === 1) {
+    burstTarget = isTextField(event.target) ? event.target : null;
+    valueBeforeBurst = burstTarget?.value ?? '';
+  }
+}
+
+/**
+ * Offer a code to the registered handlers, newest first
+ */
+export async function dispatchScan(code: string): Promise<boolean> {
+  for (const handler of [...handlers].reverse()) {
+    if (await handler(code)) return true;
+  }
+  return false;
+}
+
+/**
+ * Register a handler; returns the function that removes it
+ */
+export function registerScanHandler(handler: ScanHandler): () => void {
+  handlers.push(handler);
+  return () => {
+    const index = handlers.lastIndexOf(handler);
+    if (index !== -1) handlers.splice(index, 1);
+  };
+}
+
+/**
+ * Register a handler for the lifetime of the calling component or effect
+ */
+export function useScanHandler(handler: ScanHandler): void {
+  onCleanup(registerScanHandler(handler));
+}
+
+export function startScanner(): void {
+  if (isListening) return;
+  isListening = true;
+  // Capture phase: runs before inputs and forms see the Enter
+  window.addEventListener('keydown', handleKeyDown, true);
+}
+
+export function stopScanner(): void {
+  if (!isListening) return;
+  isListening = false;
+  window.removeEventListener('keydown', handleKeyDown, true);
+  detector.reset();
+  burstTarget = null;
+}
@@ -0,0 +1,213 @@
+/**
+ * Sync Store
+ *
+ * Reactive view of the offline outbox plus the replay loop.
+ *
+ * - Tracks browser connectivity (online/offline events)
+ * - Mirrors the signed-in user's outbox entries for the "pending sync"
+ *   indicator
+ * - Replays that user's queued mutations in order when connectivity returns
+ *   or they sign in; other users' entries wait for their own session
+ * - Reports conflicts/failures per entry instead of dropping them
+ *
+ * Call `initSync()` once at app startup.
+ */
+
+import { createSignal } from 'solid-js';
+import { getUser } from '@/features/auth/store/session.store';
+import { apiClient } from '@/shared/lib/api-client';
+import { ERROR_CODES, normalizeError } from '@/shared/lib/errors';
+import {
+  isOffline,
+  listOutbox,
+  removeOutboxEntry,
+  subscribeOutbox,
+  updateOutboxEntry,
+} from '@/shared/lib/offline-queue';
+import { invalidateQueries } from '@/shared/lib/query-client';
+import { notificationStore } from '@/shared/stores/notification.store';
+import type { OutboxEntry } from '@/shared/types/offline.types';
+
+const [allEntries, setEntries] = createSignal<OutboxEntry[]>([]);
+const [isOnline, setIsOnline] = createSignal(!isOffline());
+const [isSyncing, setIsSyncing] = createSignal(false);
+
+let isInitialized = false;
+
+function isOwnEntry(entry: OutboxEntry): boolean {
+  const userId = getUser()?._id;
+  return !!userId && entry.userId === userId;
+}
+
+/**
+ * The signed-in user's outbox entries
+ */
+function entries(): OutboxEntry[] {
+  return allEntries().filter(isOwnEntry);
+}
+
+/**
+ * Send one queued request through the API client.
+ * Auth and CSRF headers are attached fresh by `request()`.
+ */
+function sendEntry(entry: OutboxEntry): Promise<unknown> {
+  const config = { idempotencyKey: entry.idempotencyKey };
+  switch (entry.method) {
+    case 'POST':
+      return apiClient.post(entry.endpoint, entry.body, config);
+    case 'PUT':
+      return apiClient.put(entry.endpoint, entry.body, config);
+    case 'PATCH':
+      return apiClient.patch(entry.endpoint, entry.body, config);
+    case 'DELETE':
+      return apiClient.delete(entry.endpoint, config);
+    default:
+      return apiClient.get(entry.endpoint);
+  }
+}
+
+/**
+ * Replay the signed-in user's pending entries in order.
+ * Stops at the first network failure so later entries keep their order.
+ */
+export async function replayOutbox(): Promise<void> {
+  if (isSyncing() || isOffline()) return;
+
+  setIsSyncing(true);
+  let synced = 0;
+  let failed = 0;
+
+  try {
+    const queued = (await listOutbox()).filter(
+      (e) => e.status === 'pending' && isOwnEntry(e)
+    );
+
+    for (const entry of queued) {
+      await updateOutboxEntry(entry.id, { status: 'syncing' });
+
+      try {
+        await sendEntry(entry);
+        await removeOutboxEntry(entry.id);
+        synced++;
+      } catch (err) {
+        const appError = normalizeError(err);
+
+        if (
+          appError.code === ERROR_CODES.NETWORK_ERROR ||
+          appError.code === ERROR_CODES.TIMEOUT
+        ) {
+          // Connection dropped again — leave it pending for the next attempt
+          await updateOutboxEntry(entry.id, {
+            status: 'pending',
+            error: appError,
+            attempted: true,
+          });
+          break;
+        }
+
+        // Server rejected the request: keep it for the user to review
+        await updateOutboxEntry(entry.id, {
+          status: appError.status === 409 ? 'conflict' : 'failed',
+          error: appError,
+          attempted: true,
+        });
+        failed++;
+      }
+    }
+  } finally {
+    setIsSyncing(false);
+  }
+
+  if (synced > 0) {
+    // Replayed writes can touch anything — refresh every cached read
+    invalidateQueries();
+    notificationStore.success(
+      `Synced ${synced} offline change${synced === 1 ? '' : 's'}.`
+    );
+  }
+  if (failed > 0) {
+    notificationStore.warning(
+      `${failed} offline change${failed === 1 ? '' : 's'} could not be synced. Review them in the sync list.`,
+      { duration: 0 }
+    );
+  }
+}
+
+/**
+ * Put a failed/conflicting entry back in the queue and replay
+ */
+export async function retryEntry(id: string): Promise<void> {
+  await updateOutboxEntry(id, { status: 'pending' });
+  await replayOutbox();
+}
+
+/**
+ * Drop an entry without sending it
+ */
+export async function discardEntry(id: string): Promise<void> {
+  await removeOutboxEntry(id);
+}
+
+/**
+ * Wire up connectivity listeners and load persisted entries
+ */
+export async function initSync(): Promise<void> {
+  if (isInitialized) return;
+  isInitialized = true;
+
+  subscribeOutbox(setEntries);
+
+  window.addEventListener('online', () => {
+    setIsOnline(true);
+    void replayOutbox();
+  });
+  window.addEventListener('offline', () => {
+    setIsOnline(false);
+    notificationStore.warning(
+      'You are offline. Sales will be saved and synced when the connection returns.'
+    );
+  });
+
+  const persisted = await listOutbox();
+  // Entries left "syncing" by a closed tab never finished — retry them
+  for (const entry of persisted.filter((e) => e.status === 'syncing')) {
+    await updateOutboxEntry(entry.id, { status: 'pending' });
+  }
+  setEntries(await listOutbox());
+
+  if (!isOffline()) {
+    void replayOutbox();
+  }
+}
+
+/**
+ * Count of entries still waiting to be sent
+ */
+export function pendingCount(): number {
+  return entries().filter(
+    (e) => e.status === 'pending' || e.status === 'syncing'
+  ).length;
+}
+
+/**
+ * Count of entries the server rejected
+ */
+export function problemCount(): number {
+  return entries().filter(
+    (e) => e.status === 'failed' || e.status === 'conflict'
+  ).length;
+}
+
+export const syncStore = {
+  // State
+  entries,
+  isOnline,
+  isSyncing,
+  pendingCount,
+  problemCount,
+
+  // Actions
+  replay: replayOutbox,
+  retry: retryEntry,
+  discard: discardEntry,
+};
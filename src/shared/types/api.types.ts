@@ -1,3 +1,5 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+
 /**
  * Normalized application error structure
  */
@@ -24,7 +26,7 @@ export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 /**
  * Request configuration
  */
-export interface RequestConfig {
+export interface RequestConfig<T = unknown> {
   method?: HttpMethod;
   body?: unknown;
   headers?: Record<string, string>;
@@ -32,4 +34,30 @@ export interface RequestConfig {
   timeout?: number;
   skipCsrf?: boolean;
   skipAuth?: boolean;
+  /**
+   * Queue this mutation in the offline outbox when the network is
+   * unreachable instead of failing. The label is shown in the sync list.
+   */
+  offline?: { label: string };
+  /**
+   * Neither store this read for offline use nor answer it from a stored
+   * one. For reads whose URL never repeats, such as event polling and
+   * export pages.
+   */
+  skipOfflineCache?: boolean;
+  /**
+   * Sent as the `Idempotency-Key` header. Kept across the automatic
+   * refresh/CSRF/backoff retries and outbox replays of this request.
+   */
+  idempotencyKey?: string;
+  /**
+   * Validate the unwrapped response against this schema. Mismatches throw
+   * a CONTRACT_ERROR AppError (see shared/lib/contract.ts).
+   */
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+  /**
+   * Called as the body goes out, with bytes sent and the total. Meant for
+   * FormData uploads; the request goes over XMLHttpRequest to report it.
+   */
+  onUploadProgress?: (loaded: number, total: number) => void;
 }
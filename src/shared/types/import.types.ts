@@ -4,11 +4,19 @@
  * Imports represent stock purchases from suppliers
  */
 
+import type { PackUnit } from '@/features/inventory/types/inventory.types';
+
 export type ImportStatus = 'pending' | 'completed' | 'cancelled';
 
 export interface ImportItem {
   itemId: string;
   itemName?: string; // Populated field
+  storeHouse?: string; // Location the stock arrives at
+  storeHouseName?: string; // Populated field
+  lotNumber?: string; // Lot (batch) received
+  expiresAt?: string; // Expiry of the lot, YYYY-MM-DD
+  serials?: string[]; // Units received, serialized items
+  packUnit?: PackUnit; // Unit the line was entered in; quantity and prices stay in the base unit
   quantity: number;
   unitPrice: number;
   totalPrice: number;
@@ -34,6 +42,11 @@ export interface ImportFormData {
   supplierId?: string; // Optional - for imports without a specific supplier
   items: Array<{
     itemId: string;
+    storeHouse?: string; // Destination, the item's home storehouse if omitted
+    lotNumber?: string;
+    expiresAt?: string; // YYYY-MM-DD, needs a lot number
+    serials?: string[]; // One per unit; serialized items need them to be received
+    packUnit?: PackUnit; // Unit entered in; quantity and unitPrice are in the base unit
     quantity: number;
     unitPrice: number;
   }>;
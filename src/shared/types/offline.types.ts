@@ -0,0 +1,36 @@
+/**
+ * Offline Types
+ *
+ * Outbox entries for state-mutating requests made while offline
+ * and cached GET responses used as a read fallback.
+ */
+
+import type { AppError, HttpMethod } from './api.types';
+
+export type OutboxStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  /** Monotonic sequence number — replay happens in this order */
+  seq: number;
+  endpoint: string;
+  method: HttpMethod;
+  body?: unknown;
+  /** Human-readable description shown in the "pending sync" list */
+  label: string;
+  /** Idempotency key of the original request, resent on replay */
+  idempotencyKey?: string;
+  /** User who made the change — it is only replayed in their session */
+  userId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  error?: AppError;
+  createdAt: string;
+  lastAttemptAt?: string;
+}
+
+export interface CachedResponse<T = unknown> {
+  endpoint: string;
+  data: T;
+  cachedAt: string;
+}
@@ -0,0 +1,49 @@
+/**
+ * Realtime Types
+ *
+ * Change events pushed by the backend (SSE on /events/stream, or polled
+ * from /events when streaming is unavailable).
+ */
+
+import { z } from 'zod';
+
+export const RealtimeEntitySchema = z.enum([
+  'item',
+  'transaction',
+  'import',
+  'transfer',
+]);
+
+export type RealtimeEntity = z.infer<typeof RealtimeEntitySchema>;
+
+export const RealtimeEventSchema = z.object({
+  /** Monotonic event id, used as the resume cursor */
+  id: z.string(),
+  entity: RealtimeEntitySchema,
+  action: z.enum(['created', 'updated', 'deleted']),
+  entityId: z.string(),
+  actor: z.object({ id: z.string(), name: z.string() }),
+  at: z.string(),
+});
+
+export type RealtimeEvent = z.infer<typeof RealtimeEventSchema>;
+
+/** Response of the polling endpoint */
+export const RealtimeEventBatchSchema = z.object({
+  events: z.array(RealtimeEventSchema),
+  /** Id of the newest event; pass back as `since` on the next poll */
+  cursor: z.string(),
+});
+
+export type RealtimeEventBatch = z.infer<typeof RealtimeEventBatchSchema>;
+
+/** How the client is currently receiving events */
+export type RealtimeMode = 'off' | 'live' | 'polling';
+
+/** A colleague's change, kept briefly for row highlights */
+export interface RecentChange {
+  entity: RealtimeEntity;
+  action: RealtimeEvent['action'];
+  actorName: string;
+  at: string;
+}
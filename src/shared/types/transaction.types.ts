@@ -4,11 +4,26 @@
  * Transactions represent orders/sales to clients
  */
 
+import type { PackUnit } from '@/features/inventory/types/inventory.types';
+
 export type TransactionStatus = 'pending' | 'completed' | 'cancelled';
 
+/** Quantity taken from one lot (batch) */
+export interface LineLot {
+  lotNumber: string;
+  expiresAt?: string; // YYYY-MM-DD
+  quantity: number;
+}
+
 export interface TransactionItem {
   itemId: string;
   itemName?: string; // Populated field
+  storeHouse?: string; // Location the stock leaves from
+  storeHouseName?: string; // Populated field
+  lotNumber?: string; // Lot to take first instead of first-expiry order
+  lots?: LineLot[]; // Lots the stock left from, set on delivery
+  serials?: string[]; // Units sold, serialized items
+  packUnit?: PackUnit; // Unit the line was entered in; quantity and prices stay in the base unit
   quantity: number;
   listedPrice: number; // Original catalog price at time of transaction
   unitPrice: number; // Actual selling price (may include discounts)
@@ -35,6 +50,10 @@ export interface TransactionFormData {
   clientId?: string; // Optional - if not provided, uses walk-in customer
   items: Array<{
     itemId: string;
+    storeHouse?: string; // Source location, the item's home storehouse if omitted
+    lotNumber?: string; // Lot to take first, first expiry first out if omitted
+    serials?: string[]; // One per unit, required for serialized items
+    packUnit?: PackUnit; // Unit entered in; quantity and unitPrice are in the base unit
     quantity: number;
     unitPrice: number; // Actual selling price (listedPrice is fetched from DB on backend)
   }>;
@@ -18,6 +18,7 @@ export interface Transfer {
   toStoreHouse: string;
   toStoreHouseName?: string;
   quantity: number;
+  serials?: string[]; // Units moved, serialized items
   status: TransferStatus;
   note?: string;
   transferredAt?: string;
@@ -30,6 +31,7 @@ export interface TransferFormData {
   fromStoreHouse: string;
   toStoreHouse: string;
   quantity: number;
+  serials?: string[]; // Units to move, serialized items
   note?: string;
   immediate?: boolean;
 }
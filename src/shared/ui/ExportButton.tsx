@@ -0,0 +1,292 @@
+/**
+ * ExportButton
+ *
+ * "Export" button for list pages. Opens a dialog to pick the format and
+ * columns, then fetches every row matching the page's filters and
+ * downloads the file. The chosen format and columns are remembered per
+ * list.
+ */
+
+import { createSignal, For, Show, type JSX } from 'solid-js';
+import { Button } from './Button';
+import { Alert } from './Alert';
+import {
+  exportList,
+  fetchAllPages,
+  type ExportColumn,
+  type ExportFormat,
+  type ListPage,
+} from '@/shared/lib/export';
+import { getErrorMessage } from '@/shared/lib/error-messages';
+import { notificationStore } from '@/shared/stores/notification.store';
+
+export interface ExportButtonProps<T> {
+  /** Document title and dialog heading, e.g. "Orders" */
+  title: string;
+  /** File name without extension; also keys the remembered choices */
+  filename: string;
+  columns: ExportColumn<T>[];
+  /** Fetch one page with the page's active filters */
+  fetchPage: (page: number, limit: number) => Promise<ListPage<T>>;
+  /** Human-readable active filters, e.g. ["Status: Pending"] */
+  filters?: () => string[];
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string; hint: string }> = [
+  { value: 'csv', label: 'CSV', hint: 'Any spreadsheet or accounting tool' },
+  { value: 'xlsx', label: 'Excel', hint: 'XLSX workbook' },
+  { value: 'pdf', label: 'PDF', hint: 'Printable report' },
+];
+
+interface SavedChoice {
+  format: ExportFormat;
+  columns: string[];
+}
+
+const storageKey = (filename: string) => `export-settings:${filename}`;
+
+function loadChoice(filename: string): SavedChoice | null {
+  try {
+    const raw = localStorage.getItem(storageKey(filename));
+    return raw ? (JSON.parse(raw) as SavedChoice) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function ExportButton<T>(props: ExportButtonProps<T>): JSX.Element {
+  const [isOpen, setIsOpen] = createSignal(false);
+  const [format, setFormat] = createSignal<ExportFormat>('csv');
+  const [selected, setSelected] = createSignal<Set<string>>(new Set());
+  const [progress, setProgress] = createSignal<string | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+
+  const open = () => {
+    const saved = loadChoice(props.filename);
+    const known = new Set(props.columns.map((column) => column.id));
+    setFormat(saved?.format ?? 'csv');
+    setSelected(
+      new Set(
+        saved
+          ? saved.columns.filter((id) => known.has(id))
+          : props.columns
+              .filter((column) => !column.optional)
+              .map((column) => column.id)
+      )
+    );
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const close = () => {
+    if (!progress()) setIsOpen(false);
+  };
+
+  const toggleColumn = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const chosenColumns = () =>
+    props.columns.filter((column) => selected().has(column.id));
+
+  const activeFilters = () => props.filters?.() ?? [];
+
+  const runExport = async () => {
+    const columns = chosenColumns();
+    setError(null);
+    setProgress('Fetching rows…');
+    try {
+      const rows = await fetchAllPages(props.fetchPage, (page, pages) =>
+        setProgress(`Fetching page ${page} of ${pages}…`)
+      );
+      setProgress('Writing file…');
+      const date = new Date().toISOString().slice(0, 10);
+      await exportList({
+        title: props.title,
+        filename: `${props.filename}-${date}`,
+        format: format(),
+        rows,
+        columns,
+        filters: activeFilters(),
+      });
+      localStorage.setItem(
+        storageKey(props.filename),
+        JSON.stringify({
+          format: format(),
+          columns: columns.map((column) => column.id),
+        } satisfies SavedChoice)
+      );
+      notificationStore.success(
+        `Exported ${rows.length} row${rows.length === 1 ? '' : 's'}`
+      );
+      setIsOpen(false);
+    } catch (err: any) {
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" onClick={open}>
+        <svg
+          class="mr-2 h-5 w-5"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            stroke-linecap="round"
+            stroke-linejoin="round"
+            stroke-width={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+          />
+        </svg>
+        Export
+      </Button>
+
+      <Show when={isOpen()}>
+        <div
+          class="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4"
+          onClick={(e) => {
+            if (e.target === e.currentTarget) close();
+          }}
+        >
+          <div class="flex max-h-[90vh] w-full max-w-lg flex-col rounded-xl border border-border-default bg-bg-surface shadow-xl">
+            {/* Header */}
+            <div class="flex items-center justify-between border-b border-border-default px-6 py-4">
+              <h2 class="text-lg font-semibold text-text-primary">
+                Export {props.title}
+              </h2>
+              <button
+                onClick={close}
+                disabled={!!progress()}
+                class="text-text-tertiary hover:bg-bg-muted rounded-md p-1 transition-colors hover:text-text-primary"
+                aria-label="Close"
+              >
+                <svg
+                  class="h-5 w-5"
+                  fill="none"
+                  viewBox="0 0 24 24"
+                  stroke="currentColor"
+                  stroke-width="2"
+                >
+                  <path
+                    stroke-linecap="round"
+                    stroke-linejoin="round"
+                    d="M6 18L18 6M6 6l12 12"
+                  />
+                </svg>
+              </button>
+            </div>
+
+            {/* Body */}
+            <div class="flex-1 space-y-5 overflow-y-auto px-6 py-4">
+              <Show when={error()}>
+                <Alert variant="error">{error()}</Alert>
+              </Show>
+
+              <div>
+                <p class="mb-2 text-sm font-medium text-text-primary">Format</p>
+                <div class="grid grid-cols-3 gap-2">
+                  <For each={FORMATS}>
+                    {(option) => (
+                      <button
+                        type="button"
+                        onClick={() => setFormat(option.value)}
+                        class={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                          format() === option.value
+                            ? 'border-accent-primary bg-bg-hover'
+                            : 'border-border-default hover:bg-bg-hover'
+                        }`}
+                      >
+                        <span class="block text-sm font-medium text-text-primary">
+                          {option.label}
+                        </span>
+                        <span class="block text-xs text-text-muted">
+                          {option.hint}
+                        </span>
+                      </button>
+                    )}
+                  </For>
+                </div>
+              </div>
+
+              <div>
+                <div class="mb-2 flex items-center justify-between">
+                  <p class="text-sm font-medium text-text-primary">Columns</p>
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setSelected(
+                        selected().size === props.columns.length
+                          ? new Set<string>()
+                          : new Set(props.columns.map((column) => column.id))
+                      )
+                    }
+                    class="text-xs font-medium text-accent-primary hover:underline"
+                  >
+                    {selected().size === props.columns.length
+                      ? 'Clear all'
+                      : 'Select all'}
+                  </button>
+                </div>
+                <div class="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <For each={props.columns}>
+                    {(column) => (
+                      <label class="flex items-center gap-2 text-sm text-text-secondary">
+                        <input
+                          type="checkbox"
+                          checked={selected().has(column.id)}
+                          onChange={() => toggleColumn(column.id)}
+                        />
+                        {column.header}
+                      </label>
+                    )}
+                  </For>
+                </div>
+              </div>
+
+              <p class="text-xs text-text-muted">
+                <Show
+                  when={activeFilters().length > 0}
+                  fallback="Every row is exported, not only the loaded page."
+                >
+                  Every row matching the current filters is exported:{' '}
+                  {activeFilters().join(' · ')}
+                </Show>
+              </p>
+            </div>
+
+            {/* Footer */}
+            <div class="flex items-center justify-between gap-3 border-t border-border-default px-6 py-4">
+              <span class="text-sm text-text-secondary">{progress()}</span>
+              <div class="flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={close}
+                  disabled={!!progress()}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  onClick={() => void runExport()}
+                  disabled={!!progress() || chosenColumns().length === 0}
+                >
+                  {progress() ? 'Exporting…' : 'Export'}
+                </Button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </Show>
+    </>
+  );
+}
@@ -7,6 +7,10 @@ import {
   type Component,
 } from 'solid-js';
 import type { Item } from '@/features/inventory/types/inventory.types';
+import { findItemWithCode } from '@/features/inventory/lib/item-codes';
+import { getAvailableQuantity } from '@/features/inventory/lib/kits';
+import { useScanHandler } from '@/shared/stores/scanner.store';
+import { ItemThumbnail } from './ItemThumbnail';
 
 export interface ItemSelectProps {
   /** Full list of inventory items to choose from */
@@ -17,7 +21,7 @@ export interface ItemSelectProps {
   onChange: (itemId: string) => void;
   /** Optional placeholder */
   placeholder?: string;
-  /** Show stock quantity badge */
+  /** Show stock quantity badge (kits: assembled plus buildable) */
   showStock?: boolean;
   /** Make field required */
   required?: boolean;
@@ -35,14 +39,16 @@ export const ItemSelect: Component<ItemSelectProps> = (props) => {
   const selectedItem = () =>
     props.items.find((i) => i.id === props.value) ?? null;
 
-  // Filter items by search text (name or storehouse)
+  // Filter items by search text (name, storehouse, SKU or barcode)
   const filtered = () => {
     const term = search().toLowerCase();
     if (!term) return props.items;
     return props.items.filter(
       (i) =>
         i.name.toLowerCase().includes(term) ||
-        (i.storeHouse?.name ?? '').toLowerCase().includes(term)
+        (i.storeHouse?.name ?? '').toLowerCase().includes(term) ||
+        (i.sku ?? '').toLowerCase().includes(term) ||
+        (i.barcodes ?? []).some((code) => code.includes(term))
     );
   };
 
@@ -64,6 +70,16 @@ export const ItemSelect: Component<ItemSelectProps> = (props) => {
     );
   });
 
+  // While open, a scanned label picks its item
+  createEffect(() => {
+    if (!isOpen()) return;
+    useScanHandler((code) => {
+      const item = findItemWithCode(props.items, code);
+      if (item) select(item);
+      return !!item;
+    });
+  });
+
   const open = () => {
     setIsOpen(true);
     setSearch('');
@@ -154,14 +170,19 @@ export const ItemSelect: Component<ItemSelectProps> = (props) => {
           }
         >
           {(item) => (
-            <div class="min-w-0 flex-1">
-              <span class="text-text-primary">{item().name}</span>
+            <div class="flex min-w-0 flex-1 items-center gap-2">
+              <ItemThumbnail
+                imageUrl={item().imageUrl}
+                name={item().name}
+                class="h-5 w-5"
+              />
+              <span class="truncate text-text-primary">{item().name}</span>
               <span class="ml-1.5 text-xs text-text-muted">
                 {item().storeHouse?.name ?? ''}
               </span>
               <Show when={props.showStock}>
                 <span class="ml-1.5 text-xs text-text-secondary">
-                  ({item().quantity})
+                  ({getAvailableQuantity(item())})
                 </span>
               </Show>
             </div>
@@ -222,7 +243,7 @@ export const ItemSelect: Component<ItemSelectProps> = (props) => {
                 setHighlightedIndex(0);
               }}
               onKeyDown={handleKeyDown}
-              placeholder="Search items..."
+              placeholder="Search name, SKU or barcode..."
               class="w-full rounded border border-border-default bg-bg-surface-subtle px-2.5 py-1.5 text-sm text-text-primary placeholder:text-text-muted focus:border-transparent focus:outline-none focus:ring-2 focus:ring-accent-primary"
             />
           </div>
@@ -255,17 +276,25 @@ export const ItemSelect: Component<ItemSelectProps> = (props) => {
                     }}
                   >
                     <div class="flex items-center justify-between">
+                      <ItemThumbnail
+                        imageUrl={item.imageUrl}
+                        name={item.name}
+                        class="mr-2.5 h-8 w-8"
+                      />
                       <div class="min-w-0 flex-1">
                         <p class="truncate text-sm font-medium text-text-primary">
                           {item.name}
                         </p>
                         <p class="truncate text-xs text-text-muted">
                           {item.storeHouse?.name ?? 'No storehouse'}
+                          <Show when={item.sku}>
+                            <span class="font-mono"> · {item.sku}</span>
+                          </Show>
                         </p>
                       </div>
                       <Show when={props.showStock}>
                         <span class="ml-2 flex-shrink-0 rounded bg-bg-surface-subtle px-1.5 py-0.5 text-xs text-text-secondary">
-                          {item.quantity} {item.unit}
+                          {getAvailableQuantity(item)} {item.unit}
                         </span>
                       </Show>
                       <Show when={item.id === props.value}>
@@ -0,0 +1,40 @@
+import { createSignal, Show, type Component } from 'solid-js';
+
+interface ItemThumbnailProps {
+  /** Image URLs of the item, the cover first */
+  imageUrl?: string[];
+  name: string;
+  /** Size and shape classes, e.g. "h-8 w-8" */
+  class?: string;
+}
+
+/**
+ * Cover photo of an item, or a placeholder with its initial when it has
+ * none (or the photo fails to load)
+ */
+export const ItemThumbnail: Component<ItemThumbnailProps> = (props) => {
+  const [failed, setFailed] = createSignal(false);
+  const cover = () => props.imageUrl?.[0];
+
+  return (
+    <Show
+      when={cover() && !failed()}
+      fallback={
+        <span
+          class={`inline-flex flex-shrink-0 select-none items-center justify-center rounded bg-bg-hover text-xs font-medium uppercase text-text-muted ${props.class ?? 'h-8 w-8'}`}
+          aria-hidden="true"
+        >
+          {props.name.trim().charAt(0)}
+        </span>
+      }
+    >
+      <img
+        src={cover()}
+        alt=""
+        loading="lazy"
+        onError={() => setFailed(true)}
+        class={`flex-shrink-0 rounded border border-border-default object-cover ${props.class ?? 'h-8 w-8'}`}
+      />
+    </Show>
+  );
+};
@@ -16,8 +16,11 @@ export { ToastContainer } from './ToastContainer';
 export { CopyableId } from './CopyableId';
 export { ReceiptPrint } from './ReceiptPrint';
 export { FloatingActionButton } from './FloatingActionButton';
+export { ItemThumbnail } from './ItemThumbnail';
 export { ItemSelect } from './ItemSelect';
 export type { ItemSelectProps } from './ItemSelect';
+export { ExportButton } from './ExportButton';
+export type { ExportButtonProps } from './ExportButton';
 export type {
   ReceiptItem,
   ReceiptTransaction,
@@ -0,0 +1,93 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createScanDetector } from '@/shared/lib/barcode-scanner';
+import {
+  dispatchScan,
+  registerScanHandler,
+  startScanner,
+  stopScanner,
+} from '@/shared/stores/scanner.store';
+
+/**
+ * Test: Keyboard-wedge barcode scanner
+ *
+ * Fast keystroke bursts ending in Enter are scans, typing is not, and a
+ * scan goes to the newest handler that claims it without touching the
+ * focused field.
+ */
+
+function type(
+  detector: ReturnType<typeof createScanDetector>,
+  text: string,
+  interval: number
+) {
+  let time = 1000;
+  let result: string | null = null;
+  [...text.split(''), 'Enter'].forEach((key) => {
+    time += interval;
+    result = detector.push({ key, timeStamp: time });
+  });
+  return result;
+}
+
+describe('Barcode Scanner', () => {
+  afterEach(() => stopScanner());
+
+  it('should detect fast bursts but not typing', () => {
+    const detector = createScanDetector();
+
+    expect(type(detector, '5901234123457', 5)).toBe('5901234123457');
+    expect(type(detector, 'hello world', 120)).toBeNull();
+    expect(type(detector, 'abc', 5)).toBeNull(); // Too short
+  });
+
+  it('should route scans to the newest handler that claims them', async () => {
+    const seen: string[] = [];
+    const removePage = registerScanHandler(() => {
+      seen.push('page');
+      return true;
+    });
+    const removePicker = registerScanHandler((code) => {
+      seen.push('picker');
+      return code === 'known-code';
+    });
+
+    await dispatchScan('known-code');
+    await dispatchScan('other-code');
+    removePicker();
+    removePage();
+
+    expect(seen).toEqual(['picker', 'picker', 'page']);
+    expect(await dispatchScan('known-code')).toBe(false);
+  });
+
+  it('should keep scanned characters out of the focused field', async () => {
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+    input.value = 'Qty';
+    input.focus();
+    const scans: string[] = [];
+    const remove = registerScanHandler((code) => {
+      scans.push(code);
+      return true;
+    });
+    startScanner();
+
+    '12345678'.split('').forEach((key) => {
+      input.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true }));
+      input.value += key; // What the browser would insert
+    });
+    const enter = new KeyboardEvent('keydown', {
+      key: 'Enter',
+      bubbles: true,
+      cancelable: true,
+    });
+    input.dispatchEvent(enter);
+    await Promise.resolve();
+    remove();
+    input.remove();
+
+    expect(scans).toEqual(['12345678']);
+    expect(input.value).toBe('Qty');
+    expect(enter.defaultPrevented).toBe(true); // No form submit
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { hasChanges, planBulkEdit } from '@/features/inventory/lib/bulk-edit';
+import type { Item } from '@/features/inventory/types/inventory.types';
+
+/**
+ * Test: Bulk edit planning
+ *
+ * One set of changes becomes per-item before/after values; items that
+ * already match or can't take the change are not written.
+ */
+
+const makeItem = (overrides: Partial<Item>): Item => ({
+  id: 'item-1',
+  name: 'Rice',
+  quantity: 10,
+  unit: 'kg',
+  unitPrice: 2,
+  lowStockAt: 10,
+  tags: ['food'],
+  storeHouse: { id: 'sh-1', name: 'Main' },
+  stock: [{ storeHouse: { id: 'sh-1', name: 'Main' }, quantity: 10 }],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('Bulk Edit', () => {
+  it('should adjust prices by percentage and merge tags', () => {
+    const row = planBulkEdit([makeItem({ sellingPrice: 3 })], {
+      unitPrice: { mode: 'percent', value: 10 },
+      sellingPrice: { mode: 'amount', value: -0.5 },
+      addTags: ['bulk'],
+      removeTags: ['food'],
+    })[0]!;
+    expect(row.errors).toEqual([]);
+    expect(row.before).toEqual({
+      unitPrice: 2,
+      sellingPrice: 3,
+      tags: ['food'],
+    });
+    expect(row.after).toEqual({
+      unitPrice: 2.2,
+      sellingPrice: 2.5,
+      tags: ['bulk'],
+    });
+  });
+
+  it('should leave out values the item already has', () => {
+    const row = planBulkEdit([makeItem({ lowStockAt: 5 })], {
+      unit: 'kg',
+      lowStockAt: 5,
+      storeHouse: { id: 'sh-1', name: 'Main' },
+      addTags: ['food'],
+    })[0]!;
+    expect(row.after).toEqual({});
+    expect(hasChanges(row)).toBe(false);
+  });
+
+  it('should clear the selling price on undo when the item had none', () => {
+    const row = planBulkEdit([makeItem({})], {
+      sellingPrice: { mode: 'set', value: 4 },
+    })[0]!;
+    expect(row.after).toEqual({ sellingPrice: 4 });
+    // null survives JSON, so writing `before` back takes the price off
+    expect(JSON.parse(JSON.stringify(row.before))).toEqual({
+      sellingPrice: null,
+    });
+  });
+
+  it('should set suggested reorder points per item', () => {
+    const plan = planBulkEdit(
+      [makeItem({ id: 'a', lowStockAt: 10 }), makeItem({ id: 'b' })],
+      { reorderPoints: { a: 24 } }
+    );
+    expect(plan[0]!.after).toEqual({ lowStockAt: 24 });
+    expect(plan[1]!.errors).toEqual([
+      'No recent sales to suggest a reorder point from',
+    ]);
+  });
+
+  it('should skip items the change cannot apply to', () => {
+    const plan = planBulkEdit(
+      [makeItem({}), makeItem({ id: 'item-2', sellingPrice: 1 })],
+      {
+        unitPrice: { mode: 'amount', value: -2 },
+        sellingPrice: { mode: 'percent', value: 5 },
+      }
+    );
+    expect(plan[0]!.errors).toEqual([
+      'Unit price would drop to zero or below',
+      'No selling price to adjust',
+    ]);
+    expect(hasChanges(plan[1]!)).toBe(false);
+  });
+});
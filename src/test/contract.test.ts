@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { paginatedSchema, parseResponse } from '@/shared/lib/contract';
+import { ERROR_CODES } from '@/shared/lib/errors';
+
+/**
+ * Test: Response contract validation
+ *
+ * Ensures valid payloads pass through parsed, and mismatches become a
+ * CONTRACT_ERROR naming the exact fields that broke the contract.
+ */
+
+const ItemSchema = z.object({
+  _id: z.string(),
+  storeHouse: z.object({ name: z.string() }),
+});
+
+describe('Response Contract', () => {
+  it('should return the parsed payload when it matches', () => {
+    const payload = { _id: 'a', storeHouse: { name: 'Main' }, extra: 1 };
+
+    expect(parseResponse(ItemSchema, payload, 'GET /item/a')).toEqual({
+      _id: 'a',
+      storeHouse: { name: 'Main' },
+    });
+  });
+
+  it('should report the offending field paths on mismatch', () => {
+    const schema = paginatedSchema(ItemSchema);
+    const payload = {
+      items: [
+        { _id: 'a', storeHouse: { name: 'Main' } },
+        { _id: 'b', storeHouse: { name: 42 } },
+      ],
+      pagination: { page: 1, limit: 10, total: 2 },
+    };
+
+    try {
+      parseResponse(schema, payload, 'GET /item');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toMatchObject({
+        code: ERROR_CODES.CONTRACT_ERROR,
+        details: {
+          endpoint: 'GET /item',
+          issues: [{ path: 'items[1].storeHouse.name' }],
+        },
+      });
+    }
+  });
+});
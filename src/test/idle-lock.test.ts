@@ -0,0 +1,126 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from 'vitest';
+import { setUser } from '@/features/auth/store/session.store';
+import { idleLockStore } from '@/features/auth/store/idle-lock.store';
+import type { TabMessage } from '@/shared/lib/tab-sync';
+
+/**
+ * Test: Idle screen lock
+ *
+ * The screen locks after the configured inactivity, activity postpones it,
+ * and the PIN unlocks it until too many wrong attempts. Every tab of the
+ * user shares the lock and the attempt count.
+ */
+
+vi.mock('@/features/auth/api/auth.api', () => ({
+  getCurrentUser: vi.fn(),
+  logout: vi.fn(),
+  login: vi.fn(),
+}));
+
+const otherTab = new BroadcastChannel('store-manager-session');
+
+function sendFromOtherTab(message: TabMessage) {
+  otherTab.postMessage(message);
+  // Delivery is asynchronous
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe('Idle Lock', () => {
+  beforeEach(() => {
+    setUser({
+      _id: 'user-1',
+      email: 'cashier@example.com',
+      name: 'Cashier',
+      appRole: 'user',
+      storeHouses: [],
+      accessRole: [],
+    });
+    idleLockStore.setTimeoutMinutes(5);
+  });
+
+  afterEach(() => {
+    idleLockStore.stop();
+    idleLockStore.setTimeoutMinutes(0);
+    idleLockStore.clearPin();
+    vi.useRealTimers();
+  });
+
+  afterAll(() => {
+    otherTab.close();
+  });
+
+  it('should lock after the idle timeout, postponed by activity', () => {
+    vi.useFakeTimers();
+    idleLockStore.start();
+
+    vi.advanceTimersByTime(4 * 60_000);
+    window.dispatchEvent(new Event('keydown'));
+    vi.advanceTimersByTime(4 * 60_000);
+    expect(idleLockStore.isLocked()).toBe(false);
+
+    vi.advanceTimersByTime(60_000);
+    expect(idleLockStore.isLocked()).toBe(true);
+  });
+
+  it('should unlock with the PIN and require the password after 5 misses', async () => {
+    await idleLockStore.setPin('2468');
+    idleLockStore.start();
+
+    idleLockStore.lock();
+    expect(await idleLockStore.unlockWithPin('1111')).toBe(false);
+    expect(await idleLockStore.unlockWithPin('2468')).toBe(true);
+    expect(idleLockStore.isLocked()).toBe(false);
+
+    idleLockStore.lock();
+    for (let i = 0; i < 5; i++) await idleLockStore.unlockWithPin('0000');
+    expect(idleLockStore.canUsePin()).toBe(false);
+    expect(await idleLockStore.unlockWithPin('2468')).toBe(false);
+    expect(idleLockStore.isLocked()).toBe(true);
+  });
+
+  it('should lock and unlock together with the other tabs', async () => {
+    idleLockStore.start();
+
+    localStorage.setItem('idle_lock_locked_user-1', '1');
+    await sendFromOtherTab({
+      type: 'idle-lock',
+      userId: 'user-1',
+      locked: true,
+    });
+    expect(idleLockStore.isLocked()).toBe(true);
+
+    // Someone else's lock doesn't apply
+    localStorage.removeItem('idle_lock_locked_user-1');
+    await sendFromOtherTab({
+      type: 'idle-lock',
+      userId: 'user-2',
+      locked: false,
+    });
+    expect(idleLockStore.isLocked()).toBe(true);
+
+    await sendFromOtherTab({
+      type: 'idle-lock',
+      userId: 'user-1',
+      locked: false,
+    });
+    expect(idleLockStore.isLocked()).toBe(false);
+  });
+
+  it('should count wrong PINs entered in other tabs and after a reload', async () => {
+    await idleLockStore.setPin('2468');
+    idleLockStore.start();
+    idleLockStore.lock();
+
+    localStorage.setItem('idle_lock_pin_attempts_user-1', '5');
+    expect(await idleLockStore.unlockWithPin('2468')).toBe(false);
+    expect(idleLockStore.canUsePin()).toBe(false);
+  });
+});
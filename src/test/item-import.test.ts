@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '@/shared/lib/csv';
+import {
+  guessColumnMapping,
+  planItemImport,
+  toImportRows,
+  type ImportContext,
+} from '@/features/inventory/lib/item-import';
+import type { Item } from '@/features/inventory/types/inventory.types';
+
+/**
+ * Test: Item import
+ *
+ * Uploaded CSV is parsed, its columns mapped to item fields, and every
+ * row is planned as a create, update, skip or error before import.
+ */
+
+const existing: Item = {
+  id: 'item-1',
+  name: 'Rice',
+  sku: 'SKU-00001',
+  unitPrice: 2,
+  tags: [],
+  quantity: 40,
+  unit: 'kg',
+  storeHouse: { id: 'sh-1', name: 'Main' },
+  stock: [{ storeHouse: { id: 'sh-1', name: 'Main' }, quantity: 40 }],
+  lowStockAt: 10,
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+};
+
+const context = (mode: ImportContext['mode']): ImportContext => ({
+  items: [existing],
+  storehouses: [
+    { id: 'sh-1', name: 'Main', isLocked: false },
+    { id: 'sh-2', name: 'Back', isLocked: true },
+  ],
+  defaultStorehouseId: 'sh-1',
+  mode,
+});
+
+describe('Item Import', () => {
+  it('should parse quoted cells and semicolon-separated files', () => {
+    expect(parseCsv('Name,Notes\r\n"Rice, long","say ""hi"""\r\n\r\n')).toEqual(
+      [
+        ['Name', 'Notes'],
+        ['Rice, long', 'say "hi"'],
+      ]
+    );
+    expect(parseCsv('﻿Name;Price\nBeans;1,5\n')).toEqual([
+      ['Name', 'Price'],
+      ['Beans', '1,5'],
+    ]);
+  });
+
+  it('should guess the mapping from header names and aliases', () => {
+    expect(
+      guessColumnMapping(['Product Name', 'Qty', 'unit_price', 'Misc'])
+    ).toEqual({ name: 0, quantity: 1, unitPrice: 2 });
+  });
+
+  it('should plan creates, updates and row errors', () => {
+    const mapping = guessColumnMapping([
+      'Name',
+      'SKU',
+      'Unit',
+      'Unit price',
+      'Storehouse',
+    ]);
+    const rows = [
+      ['Rice', 'SKU-00001', '', '2.5', ''], // Existing by SKU
+      ['Beans', '', 'kg', '1.5', 'main'], // New
+      ['Beans', '', 'kg', '1.6', ''], // Duplicate of the row above
+      ['Flour', 'SKU-00001', 'kg', '1', ''], // SKU belongs to Rice
+      ['Salt', '', 'kg', 'abc', 'Back'], // Bad price, locked storehouse
+    ];
+
+    const updatePlan = planItemImport(rows, mapping, context('update'));
+    expect(updatePlan.map((row) => row.action)).toEqual([
+      'update',
+      'create',
+      'error',
+      'error',
+      'error',
+    ]);
+    expect(updatePlan[2]!.errors).toEqual(['Same item as row 3']);
+    expect(updatePlan[3]!.errors).toContain('SKU SKU-00001 belongs to "Rice"');
+    expect(updatePlan[4]!.errors).toHaveLength(2);
+
+    expect(toImportRows(updatePlan)).toEqual([
+      {
+        row: 2,
+        itemId: 'item-1',
+        storeHouse: 'sh-1',
+        item: { name: 'Rice', sku: 'SKU-00001', unitPrice: 2.5 },
+      },
+      {
+        row: 3,
+        item: {
+          name: 'Beans',
+          unit: 'kg',
+          unitPrice: 1.5,
+          quantity: 0,
+          lowStockAt: 10,
+          storeHouse: 'sh-1',
+        },
+      },
+    ]);
+
+    const skipPlan = planItemImport(rows, mapping, context('skip'));
+    expect(skipPlan[0]!.action).toBe('skip');
+  });
+
+  it('should count stock at another storehouse on the existing item', () => {
+    const mapping = guessColumnMapping([
+      'Name',
+      'SKU',
+      'Unit',
+      'Unit price',
+      'Qty',
+      'Storehouse',
+    ]);
+    const annex = { ...context('update') };
+    annex.storehouses = [
+      ...annex.storehouses,
+      { id: 'sh-3', name: 'Annex', isLocked: false },
+    ];
+    const plan = planItemImport(
+      [
+        ['Rice', 'SKU-00001', '', '', '12', 'Annex'],
+        ['Oats', 'SKU-9', 'kg', '1', '5', 'Main'],
+        ['Oats', 'SKU-9', 'kg', '1', '3', 'Annex'],
+      ],
+      mapping,
+      annex
+    );
+
+    expect(plan.map((row) => row.action)).toEqual([
+      'update',
+      'create',
+      'error',
+    ]);
+    expect(plan[2]!.errors).toEqual([
+      'Row 3 creates this item; add its stock here once imported',
+    ]);
+    expect(toImportRows(plan)[0]).toEqual({
+      row: 2,
+      itemId: 'item-1',
+      storeHouse: 'sh-3',
+      item: { name: 'Rice', sku: 'SKU-00001', quantity: 12 },
+    });
+  });
+});
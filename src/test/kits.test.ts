@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAvailableQuantity,
+  getKitLocations,
+  getKitSourceStorehouse,
+  validateKitComponents,
+} from '@/features/inventory/lib/kits';
+import { getStockStatus } from '@/features/inventory/lib/inventory-stats';
+import type {
+  Item,
+  KitComponent,
+} from '@/features/inventory/types/inventory.types';
+
+/**
+ * Test: Kit stock
+ *
+ * A kit can be sold from assembled sets and from sets its component stock
+ * can still build, per storehouse.
+ */
+
+const main = { id: 'sh-1', name: 'Main' };
+const annex = { id: 'sh-2', name: 'Annex' };
+
+const kit = {
+  quantity: 1,
+  storeHouse: main,
+  stock: [{ storeHouse: main, quantity: 1 }],
+  buildable: [{ storeHouse: annex, quantity: 4 }],
+};
+
+const component = (id: string, quantity: number): KitComponent => ({
+  item: { id, name: `Item ${id}`, unit: 'pcs' },
+  quantity,
+});
+
+describe('Kit stock', () => {
+  it('counts assembled and buildable sets as available', () => {
+    expect(getAvailableQuantity(kit)).toBe(5);
+  });
+
+  it('is in stock while its components can build sets', () => {
+    const unassembled = {
+      ...kit,
+      quantity: 0,
+      lowStockAt: 2,
+      components: [component('a', 1)],
+      stock: [{ storeHouse: main, quantity: 0 }],
+      buildable: [{ storeHouse: main, quantity: 4 }],
+    } as unknown as Item;
+
+    expect(getStockStatus(unassembled)).toBe('in-stock');
+    expect(getStockStatus({ ...unassembled, buildable: [] })).toBe(
+      'out-of-stock'
+    );
+  });
+
+  it('lists storehouses holding assembled sets or components', () => {
+    expect(getKitLocations(kit)).toEqual([
+      { storeHouse: main, assembled: 1, buildable: 0 },
+      { storeHouse: annex, assembled: 0, buildable: 4 },
+    ]);
+  });
+
+  it('takes kits from home while it has sets, otherwise the fullest', () => {
+    expect(getKitSourceStorehouse(kit)).toBe(main.id);
+    expect(
+      getKitSourceStorehouse({
+        ...kit,
+        stock: [{ storeHouse: main, quantity: 0 }],
+      })
+    ).toBe(annex.id);
+  });
+
+  it('rejects unpicked, repeated and empty components', () => {
+    expect(
+      validateKitComponents([component('a', 1), component('b', 2)])
+    ).toBeNull();
+    expect(validateKitComponents([component('', 1)])).toBe(
+      'Pick an item for every component'
+    );
+    expect(validateKitComponents([component('a', 1), component('a', 2)])).toBe(
+      'Item a is listed twice'
+    );
+    expect(validateKitComponents([component('a', 0)])).toBe(
+      'Item a needs a quantity above zero'
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv } from '@/shared/lib/csv';
+import { fetchAllPages } from '@/shared/lib/export';
+import { describeListFilters } from '@/shared/lib/export-columns';
+import { readXlsxRows, toXlsx } from '@/shared/lib/xlsx';
+
+/**
+ * Test: List export
+ *
+ * Exports page through the list endpoint to collect every row, describe
+ * the active filters, and write XLSX workbooks the importer can read back.
+ * CSV text cells never start a spreadsheet formula.
+ */
+
+// jsdom's Blob has no arrayBuffer()
+const readBlob = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe('List Export', () => {
+  it('should fetch every page of a list', async () => {
+    const requested: number[] = [];
+    const rows = await fetchAllPages(async (page, limit) => {
+      requested.push(page);
+      expect(limit).toBe(100);
+      return { rows: [`row-${page}`], pages: 3 };
+    });
+    expect(requested).toEqual([1, 2, 3]);
+    expect(rows).toEqual(['row-1', 'row-2', 'row-3']);
+  });
+
+  it('should describe only the filters that are set', () => {
+    expect(
+      describeListFilters({
+        status: 'pending',
+        search: '',
+        partner: ['Client', 'Acme'],
+        dateFrom: '2026-01-01',
+        priceMin: '',
+      })
+    ).toEqual(['Status: Pending', 'Client: Acme', 'Date: 2026-01-01 to today']);
+    expect(describeListFilters({ status: 'all' })).toEqual([]);
+  });
+
+  it('should write XLSX that reads back cell for cell', async () => {
+    const blob = toXlsx(
+      [
+        ['Name', 'Quantity', 'Note'],
+        ['Rice & beans', 12, '<fragile>'],
+        ['Flour', 0, null],
+      ],
+      'Inventory'
+    );
+    const rows = await readXlsxRows(await readBlob(blob));
+    expect(rows).toEqual([
+      ['Name', 'Quantity', 'Note'],
+      ['Rice & beans', '12', '<fragile>'],
+      ['Flour', '0'],
+    ]);
+  });
+
+  it('should neutralise formulas in CSV text but keep numbers', () => {
+    const csv = toCsv(
+      [
+        { name: '=HYPERLINK("http://x","Click")', change: -3 },
+        { name: '@SUM(A1)', change: '+5' },
+        { name: '-2.5', change: '\tcmd' },
+      ],
+      [
+        { header: 'Name', value: (row) => row.name },
+        { header: 'Change', value: (row) => row.change },
+      ]
+    );
+    expect(csv.split('\r\n')).toEqual([
+      'Name,Change',
+      '"\'=HYPERLINK(""http://x"",""Click"")",-3',
+      "'@SUM(A1),+5",
+      "-2.5,'\tcmd",
+    ]);
+  });
+});
@@ -0,0 +1,759 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  configureMockServer,
+  failNextRequest,
+  mockFetch,
+  resetMockServer,
+} from '@/shared/mock/server';
+import { getDb, stockLevel } from '@/shared/mock/mock-db';
+
+/**
+ * Test: In-process mock backend
+ *
+ * Ensures the mock keeps its dataset coherent across endpoints (stock moves
+ * with imports and transfers), seeds deterministically, and simulates
+ * backend errors in the backend's response shape.
+ */
+
+let accessToken = '';
+
+async function call(
+  method: string,
+  path: string,
+  body?: unknown,
+  headers: Record<string, string> = {}
+) {
+  const response = await mockFetch(path, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, ...headers },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return {
+    status: response.status,
+    headers: response.headers,
+    json: await response.json(),
+  };
+}
+
+describe('Mock Server', () => {
+  beforeEach(async () => {
+    resetMockServer({ seed: 7, now: Date.parse('2026-01-15T12:00:00Z') });
+    configureMockServer({ minLatency: 0, maxLatency: 0 });
+    const { json } = await call('POST', '/auth/refresh');
+    accessToken = json.data.accessToken;
+  });
+
+  it('should seed the same dataset for the same seed', () => {
+    const first = JSON.stringify(getDb().items);
+    resetMockServer({ seed: 7, now: Date.parse('2026-01-15T12:00:00Z') });
+    expect(JSON.stringify(getDb().items)).toBe(first);
+  });
+
+  it('should reject protected routes without a valid token', async () => {
+    accessToken = 'stale';
+    const { status, json } = await call('GET', '/item');
+
+    expect(status).toBe(401);
+    expect(json).toEqual({ isOk: false, data: { rcode: 4101 } });
+  });
+
+  it('should add stock when an import is received', async () => {
+    const [item] = getDb().items;
+    const before = item!.quantity;
+
+    const created = await call('POST', '/import', {
+      item: [{ itemId: item!._id, quantity: 5, unitPrice: 10 }],
+    });
+    expect(item!.quantity).toBe(before);
+
+    await call('PATCH', `/import/${created.json.data._id}/action`, {
+      action: 'markItemsReceived',
+    });
+    expect(item!.quantity).toBe(before + 5);
+  });
+
+  it('should move stock between storehouses on transfer', async () => {
+    const db = getDb();
+    const [from, to] = db.storehouses;
+    const item = db.items.find(
+      (i) => (stockLevel(i, from!._id)?.quantity ?? 0) >= 2
+    )!;
+    const before = item.quantity;
+    const beforeAtDestination = stockLevel(item, to!._id)?.quantity ?? 0;
+
+    await call('POST', '/transfer', {
+      itemId: item._id,
+      fromStoreHouse: from!._id,
+      toStoreHouse: to!._id,
+      quantity: 2,
+      immediate: true,
+    });
+
+    // Same item, stock now split across both locations
+    expect(item.quantity).toBe(before);
+    expect(stockLevel(item, to!._id)?.quantity).toBe(beforeAtDestination + 2);
+  });
+
+  it('should flag an item low when one storehouse is at its threshold', async () => {
+    const db = getDb();
+    const [from, to] = db.storehouses;
+    const item = db.items.find(
+      (i) =>
+        i.storeHouse === from!._id &&
+        (stockLevel(i, from!._id)?.quantity ?? 0) >= 4 &&
+        !stockLevel(i, to!._id)
+    )!;
+    await call('POST', '/transfer', {
+      itemId: item._id,
+      fromStoreHouse: from!._id,
+      toStoreHouse: to!._id,
+      quantity: 2,
+      immediate: true,
+    });
+    await call('PUT', `/item/${item._id}`, { lowStockAt: 1 });
+
+    const isLow = async (storeHouse?: string) => {
+      const query = storeHouse ? `&storeHouse=${storeHouse}` : '';
+      const { json } = await call(
+        'GET',
+        `/item?status=low-stock&limit=500${query}`
+      );
+      return json.data.items.some((i: { _id: string }) => i._id === item._id);
+    };
+    expect(await isLow()).toBe(false);
+
+    // Own threshold at the destination only
+    await call('PUT', `/item/${item._id}`, {
+      stock: [{ storeHouse: to!._id, lowStockAt: 2 }],
+    });
+    expect(await isLow()).toBe(true);
+    expect(await isLow(to!._id)).toBe(true);
+    expect(await isLow(from!._id)).toBe(false);
+  });
+
+  it('should re-point the home storehouse without moving stock', async () => {
+    const db = getDb();
+    const [from, to] = db.storehouses;
+    const item = db.items.find(
+      (i) =>
+        i.storeHouse === from!._id &&
+        !i.serialized &&
+        (stockLevel(i, from!._id)?.quantity ?? 0) >= 4 &&
+        !stockLevel(i, to!._id)
+    )!;
+    await call('POST', '/transfer', {
+      itemId: item._id,
+      fromStoreHouse: from!._id,
+      toStoreHouse: to!._id,
+      quantity: 2,
+      immediate: true,
+    });
+    const split = item.stock.map((level) => ({ ...level }));
+
+    // A bulk "home storehouse" change and its undo
+    await call('PUT', `/item/${item._id}`, { storeHouse: to!._id });
+    expect(item.storeHouse).toBe(to!._id);
+    expect(item.stock).toEqual(split);
+    await call('PUT', `/item/${item._id}`, { storeHouse: from!._id });
+    expect(item.storeHouse).toBe(from!._id);
+    expect(item.stock).toEqual(split);
+  });
+
+  it('should clear the selling price when it is set to null', async () => {
+    const created = await call('POST', '/item', {
+      name: 'Unpriced Item',
+      unitPrice: 2,
+      unit: 'pcs',
+      storeHouse: getDb().items[0]!.storeHouse,
+    });
+    const itemId = created.json.data._id;
+
+    // A bulk selling price change and its undo
+    await call('PUT', `/item/${itemId}`, { sellingPrice: 4 });
+    const { json } = await call('PUT', `/item/${itemId}`, {
+      sellingPrice: null,
+    });
+    expect(json.data.sellingPrice).toBeUndefined();
+    expect(
+      getDb().items.find((i) => i._id === itemId)!.sellingPrice
+    ).toBeUndefined();
+  });
+
+  it('should sell lots first expiry first unless a lot is picked', async () => {
+    const item = getDb().items.find((i) => i.tags.includes('perishable'))!;
+    const level = stockLevel(item, item.storeHouse)!;
+    const [soonest] = [...level.lots!].sort((a, b) =>
+      a.expiresAt!.localeCompare(b.expiresAt!)
+    );
+
+    const received = await call('POST', '/import', {
+      item: [
+        {
+          itemId: item._id,
+          quantity: 5,
+          unitPrice: 10,
+          lotNumber: 'NEW-1',
+          expiresAt: '2027-06-30',
+        },
+      ],
+    });
+    await call('PATCH', `/import/${received.json.data._id}/action`, {
+      action: 'markItemsReceived',
+    });
+    expect(level.lots).toContainEqual({
+      lotNumber: 'NEW-1',
+      expiresAt: '2027-06-30',
+      quantity: 5,
+    });
+
+    const sell = async (lotNumber?: string) => {
+      const sale = await call('POST', '/transaction', {
+        clientId: getDb().partners[0]!._id,
+        item: [{ itemId: item._id, quantity: 1, unitPrice: 20, lotNumber }],
+      });
+      const { json } = await call(
+        'PATCH',
+        `/transaction/${sale.json.data._id}/action`,
+        { action: 'markItemsDelivered' }
+      );
+      return json.data.transaction.item[0].lots;
+    };
+    expect(await sell()).toEqual([{ ...soonest, quantity: 1 }]);
+    expect(await sell('NEW-1')).toEqual([
+      { lotNumber: 'NEW-1', expiresAt: '2027-06-30', quantity: 1 },
+    ]);
+  });
+
+  it('should follow a serial number from receipt through transfer to sale', async () => {
+    const db = getDb();
+    const [from, to] = db.storehouses;
+    const item = db.items.find((i) => i.serialized)!;
+    const client = db.partners.find((p) => p.partnerType === 'client')!;
+
+    const received = await call('POST', '/import', {
+      item: [
+        {
+          itemId: item._id,
+          storeHouse: from!._id,
+          quantity: 2,
+          unitPrice: 10,
+        },
+      ],
+    });
+    const receive = () =>
+      call('PATCH', `/import/${received.json.data._id}/action`, {
+        action: 'markItemsReceived',
+      });
+    expect((await receive()).status).toBe(400);
+
+    await call('PUT', `/import/${received.json.data._id}`, {
+      item: [
+        {
+          itemId: item._id,
+          storeHouse: from!._id,
+          quantity: 2,
+          unitPrice: 10,
+          serials: ['TEST-1', 'TEST-2'],
+        },
+      ],
+    });
+    expect((await receive()).status).toBe(200);
+
+    await call('POST', '/transfer', {
+      itemId: item._id,
+      fromStoreHouse: from!._id,
+      toStoreHouse: to!._id,
+      quantity: 1,
+      serials: ['TEST-2'],
+      immediate: true,
+    });
+    expect(stockLevel(item, to!._id)?.serials).toContain('TEST-2');
+
+    const sell = (storeHouse: string) =>
+      call('POST', '/transaction', {
+        clientId: client._id,
+        status: 'completed',
+        item: [
+          {
+            itemId: item._id,
+            storeHouse,
+            quantity: 1,
+            unitPrice: 20,
+            serials: ['TEST-2'],
+          },
+        ],
+      });
+    expect((await sell(from!._id)).status).toBe(400);
+    const sale = await sell(to!._id);
+
+    const { json } = await call('GET', '/item/serial/TEST-2');
+    expect(json.data.storeHouse).toBeNull();
+    expect(
+      json.data.events.map((e: { type: string; reference: string }) => [
+        e.type,
+        e.reference,
+      ])
+    ).toEqual([
+      ['import', received.json.data._id],
+      ['transfer', expect.any(String)],
+      ['sale', sale.json.data._id],
+    ]);
+    expect(json.data.events[2].partner.partnerName).toBe(client.partnerName);
+  });
+
+  it('should receive a line entered in packs as base units', async () => {
+    const item = getDb().items.find((i) => i.packUnits?.length)!;
+    const [pack] = item.packUnits!;
+    const before = item.quantity;
+
+    const created = await call('POST', '/import', {
+      item: [
+        {
+          itemId: item._id,
+          quantity: 2 * pack!.factor,
+          unitPrice: 1,
+          packUnit: pack,
+        },
+      ],
+    });
+    expect(created.json.data.item[0].packUnit).toEqual(pack);
+    await call('PATCH', `/import/${created.json.data._id}/action`, {
+      action: 'markItemsReceived',
+    });
+    expect(item.quantity).toBe(before + 2 * pack!.factor);
+
+    const partial = await call('POST', '/import', {
+      item: [{ itemId: item._id, quantity: 1, unitPrice: 1, packUnit: pack }],
+    });
+    expect(partial.status).toBe(400);
+    const unknown = await call('POST', '/import', {
+      item: [
+        {
+          itemId: item._id,
+          quantity: 10,
+          unitPrice: 1,
+          packUnit: { unit: 'crate', factor: 10 },
+        },
+      ],
+    });
+    expect(unknown.status).toBe(400);
+  });
+
+  it('should suggest reorder points from recent sales', async () => {
+    const created = await call('POST', '/item', {
+      name: 'Fresh Item',
+      unitPrice: 1,
+      unit: 'pcs',
+      quantity: 20,
+      storeHouse: getDb().items[0]!.storeHouse,
+    });
+    const itemId = created.json.data._id;
+    const sale = await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId, quantity: 4, unitPrice: 2 }],
+    });
+    await call('PATCH', `/transaction/${sale.json.data._id}/action`, {
+      action: 'markCompleted',
+    });
+
+    // Created today, so all 4 sold count as one day's sales
+    const suggestion = async () => {
+      const { json } = await call('GET', '/item/reorder-suggestions');
+      return json.data.items.find((s: { item: string }) => s.item === itemId);
+    };
+    expect(await suggestion()).toEqual({
+      item: itemId,
+      dailySales: 4,
+      reorderPoint: 40,
+      reorderQuantity: 120,
+    });
+
+    const business = getDb().business;
+    const rejected = await call('PUT', `/business/${business._id}`, {
+      leadTimeDays: 2.5,
+    });
+    expect(rejected.status).toBe(400);
+    await call('PUT', `/business/${business._id}`, {
+      leadTimeDays: 2,
+      safetyStockDays: 0,
+      reorderCoverDays: 7,
+    });
+    expect(await suggestion()).toMatchObject({
+      reorderPoint: 8,
+      reorderQuantity: 28,
+    });
+  });
+
+  it('should import stock at a location other than the home storehouse', async () => {
+    const item = getDb().items.find((i) => !i.components && !i.serialized)!;
+    const other = getDb().storehouses.find(
+      (s) => s._id !== item.storeHouse && !s.isLocked
+    )!;
+    const homeQuantity = stockLevel(item, item.storeHouse)!.quantity;
+
+    const { json } = await call('POST', '/item/import', {
+      rows: [
+        {
+          row: 2,
+          itemId: item._id,
+          storeHouse: other._id,
+          item: { name: item.name, quantity: 7 },
+        },
+        {
+          row: 3,
+          item: {
+            name: `${item.name} copy`,
+            sku: item.sku,
+            unit: 'pcs',
+            unitPrice: 1,
+            storeHouse: other._id,
+          },
+        },
+      ],
+    });
+
+    expect(json.data).toMatchObject({ created: 0, updated: 1 });
+    expect(json.data.failed).toEqual([
+      expect.objectContaining({ row: 3, rcode: 4500 }),
+    ]);
+    expect(stockLevel(item, other._id)?.quantity).toBe(7);
+    expect(stockLevel(item, item.storeHouse)?.quantity).toBe(homeQuantity);
+    expect(getDb().items.filter((i) => i.sku === item.sku)).toHaveLength(1);
+  });
+
+  it('should cost sales by the method in effect when they were delivered', async () => {
+    const storeHouse = getDb().items[0]!.storeHouse;
+    const created = await call('POST', '/item', {
+      name: 'Costed Item',
+      unitPrice: 1,
+      unit: 'pcs',
+      storeHouse,
+    });
+    const itemId = created.json.data._id;
+    for (const unitPrice of [1, 3]) {
+      const order = await call('POST', '/import', {
+        item: [{ itemId, quantity: 10, unitPrice, storeHouse }],
+      });
+      await call('PATCH', `/import/${order.json.data._id}/action`, {
+        action: 'markItemsReceived',
+      });
+    }
+    const sale = await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId, quantity: 15, unitPrice: 5, storeHouse }],
+    });
+    await call('PATCH', `/transaction/${sale.json.data._id}/action`, {
+      action: 'markCompleted',
+    });
+
+    const soldCost = async () => {
+      const { json } = await call(
+        'GET',
+        '/analytics/top-items?type=profitable&limit=100'
+      );
+      return json.data.find((i: { itemId: string }) => i.itemId === itemId)
+        .totalCost;
+    };
+    const valued = async (date: string) => {
+      const { json } = await call(
+        'GET',
+        `/analytics/valuation?date=${date}&storehouseId=${storeHouse}`
+      );
+      return json.data.storehouses[0]?.items.find(
+        (i: { itemId: string }) => i.itemId === itemId
+      );
+    };
+    const today = new Date().toISOString().slice(0, 10);
+
+    // FIFO: 10 at 1 and 5 at 3 sold, 5 at 3 left
+    expect(await soldCost()).toBe(25);
+    expect(await valued(today)).toMatchObject({
+      quantity: 5,
+      unitCost: 3,
+      value: 15,
+    });
+
+    // Average from the switch on: the past sale keeps its cost
+    await call('PUT', `/business/${getDb().business._id}`, {
+      costingMethod: 'average',
+    });
+    expect(await soldCost()).toBe(25);
+    expect(await valued(today)).toMatchObject({ quantity: 5, value: 15 });
+
+    // 5 at 3 held plus 5 at 1 received average out at 2
+    const restock = await call('POST', '/import', {
+      item: [{ itemId, quantity: 5, unitPrice: 1, storeHouse }],
+    });
+    await call('PATCH', `/import/${restock.json.data._id}/action`, {
+      action: 'markItemsReceived',
+    });
+    const later = await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId, quantity: 5, unitPrice: 5, storeHouse }],
+    });
+    await call('PATCH', `/transaction/${later.json.data._id}/action`, {
+      action: 'markCompleted',
+    });
+    expect(await soldCost()).toBe(35);
+    expect(await valued(today)).toMatchObject({
+      quantity: 5,
+      unitCost: 2,
+      value: 10,
+    });
+
+    const yesterday = new Date(Date.now() - 86_400_000)
+      .toISOString()
+      .slice(0, 10);
+    expect(await valued(yesterday)).toBeUndefined();
+  });
+
+  it('should keep catalogue price changes next to sold and paid prices', async () => {
+    const storeHouse = getDb().items[0]!.storeHouse;
+    const created = await call('POST', '/item', {
+      name: 'Priced Item',
+      unitPrice: 2,
+      unit: 'pcs',
+      storeHouse,
+    });
+    const itemId = created.json.data._id;
+    await call('PUT', `/item/${itemId}`, { name: 'Priced Item v2' });
+    await call('PUT', `/item/${itemId}`, { unitPrice: 3 });
+    await call('POST', '/import', {
+      item: [{ itemId, quantity: 10, unitPrice: 1.5, storeHouse }],
+    });
+    await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId, quantity: 2, unitPrice: 2.8, storeHouse }],
+    });
+
+    const { json } = await call('GET', `/item/${itemId}/price-history`);
+
+    expect(
+      json.data.catalogue.map((c: { unitPrice: number }) => c.unitPrice)
+    ).toEqual([2, 3]);
+    expect(json.data.sales).toMatchObject([
+      { quantity: 2, unitPrice: 2.8, listedPrice: 3 },
+    ]);
+    expect(json.data.purchases).toMatchObject([
+      { quantity: 10, unitPrice: 1.5 },
+    ]);
+  });
+
+  it('should assemble kits and build the rest from components on delivery', async () => {
+    const storeHouse = getDb().items[0]!.storeHouse;
+    const createItem = async (body: Record<string, unknown>) =>
+      (
+        await call('POST', '/item', {
+          unitPrice: 10,
+          unit: 'pcs',
+          storeHouse,
+          ...body,
+        })
+      ).json.data._id as string;
+    const mug = await createItem({ name: 'Mug', quantity: 10 });
+    const spoon = await createItem({ name: 'Spoon', quantity: 10 });
+    const kit = await createItem({
+      name: 'Mug Set',
+      components: [
+        { itemId: mug, quantity: 1 },
+        { itemId: spoon, quantity: 2 },
+      ],
+    });
+    const quantities = async () =>
+      Promise.all(
+        [kit, mug, spoon].map(
+          async (id) => (await call('GET', `/item/${id}`)).json.data.quantity
+        )
+      );
+
+    expect((await call('GET', `/item/${kit}`)).json.data.buildable).toEqual([
+      { storeHouse, quantity: 5 },
+    ]);
+
+    await call('POST', `/item/${kit}/assemble`, { quantity: 2 });
+    expect(await quantities()).toEqual([2, 8, 6]);
+    const { json: ledger } = await call('GET', `/item/${kit}/movements`);
+    expect(ledger.data[0]).toMatchObject({
+      source: 'assembly',
+      reason: 'kit-assembled',
+      change: 2,
+    });
+
+    // 2 assembled, 1 built from components
+    const sale = await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId: kit, quantity: 3, unitPrice: 40, storeHouse }],
+    });
+    const saleId = sale.json.data._id;
+    await call('PATCH', `/transaction/${saleId}/action`, {
+      action: 'markItemsDelivered',
+    });
+    expect(await quantities()).toEqual([0, 7, 4]);
+
+    await call('PATCH', `/transaction/${saleId}/action`, {
+      action: 'markCancelled',
+    });
+    expect(await quantities()).toEqual([2, 8, 6]);
+
+    const { status } = await call('POST', `/item/${kit}/assemble`, {
+      quantity: 5,
+    });
+    expect(status).toBe(400);
+  });
+
+  it('should accept a multipart image upload and report its progress', async () => {
+    const form = new FormData();
+    form.append('image', new Blob(['jpeg-bytes'], { type: 'image/jpeg' }));
+    const progress: number[] = [];
+
+    const response = await mockFetch(
+      '/item/image',
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+        body: form,
+      },
+      (loaded, total) => progress.push(loaded / total)
+    );
+    const { data } = await response.json();
+
+    expect(data.url).toMatch(/^data:image\/jpeg;base64,/);
+    expect(progress.at(-1)).toBe(1);
+    const item = getDb().items[0]!;
+    await call('PUT', `/item/${item._id}`, { imageUrl: [data.url] });
+    expect(item.imageUrl).toEqual([data.url]);
+
+    const text = new FormData();
+    text.append('image', new Blob(['hello'], { type: 'text/plain' }));
+    const rejected = await mockFetch('/item/image', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: text,
+    });
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should record adjustments and sales in the movement ledger', async () => {
+    const item = getDb().items.find((i) => i.quantity >= 3)!;
+    const before = item.quantity;
+
+    await call('PATCH', `/item/${item._id}/adjust`, {
+      change: -2,
+      reason: 'damage',
+      notes: 'Dropped',
+    });
+    const sale = await call('POST', '/transaction', {
+      clientId: getDb().partners[0]!._id,
+      item: [{ itemId: item._id, quantity: 1, unitPrice: 10 }],
+    });
+    await call('PATCH', `/transaction/${sale.json.data._id}/action`, {
+      action: 'markItemsDelivered',
+    });
+
+    const { json } = await call('GET', `/item/${item._id}/movements`);
+    const [latest, adjustment] = json.data;
+    expect(latest).toMatchObject({
+      source: 'sale',
+      change: -1,
+      newQuantity: before - 3,
+      reference: sale.json.data._id,
+    });
+    expect(adjustment).toMatchObject({
+      reason: 'damage',
+      previousQuantity: before,
+      newQuantity: before - 2,
+      notes: 'Dropped',
+    });
+
+    // Seeded history ends at the current quantity
+    const seeded = getDb().items.map((i) => {
+      const last = getDb()
+        .stockMovements.filter((m) => m.itemId === i._id)
+        .at(-1);
+      return last?.newQuantity === i.quantity;
+    });
+    expect(seeded.every(Boolean)).toBe(true);
+  });
+
+  it('should post stocktake variances as manual-count movements', async () => {
+    const storehouse = getDb().storehouses.find((s) => !s.isLocked)!;
+    const { json } = await call('POST', '/stocktake', {
+      storeHouse: storehouse._id,
+    });
+    const stocktake = json.data;
+    const [first, second] = stocktake.lines;
+    const item = getDb().items.find((i) => i._id === first.itemId._id)!;
+    const before = item.quantity;
+
+    await call('PATCH', `/stocktake/${stocktake._id}/counts`, {
+      counts: [
+        {
+          itemId: first.itemId._id,
+          countedQuantity: first.expectedQuantity + 2,
+        },
+        { itemId: second.itemId._id, countedQuantity: second.expectedQuantity },
+      ],
+    });
+    const posted = await call('PATCH', `/stocktake/${stocktake._id}/action`, {
+      action: 'post',
+    });
+
+    expect(posted.json.data.stocktake.status).toBe('posted');
+    expect(item.quantity).toBe(before + 2);
+    const movements = getDb().stockMovements.filter(
+      (m) => m.reference === stocktake._id
+    );
+    expect(movements).toHaveLength(1);
+    expect(movements[0]).toMatchObject({
+      itemId: item._id,
+      reason: 'manual-count',
+      change: 2,
+    });
+  });
+
+  it('should replay a repeated create with the same idempotency key', async () => {
+    const db = getDb();
+    const [item] = db.items;
+    const before = db.transactions.length;
+    const order = {
+      item: [{ itemId: item!._id, quantity: 1, unitPrice: 5 }],
+    };
+
+    const first = await call('POST', '/transaction', order, {
+      'Idempotency-Key': 'order-1',
+    });
+    const repeat = await call('POST', '/transaction', order, {
+      'Idempotency-Key': 'order-1',
+    });
+
+    expect(db.transactions.length).toBe(before + 1);
+    expect(repeat.json.data._id).toBe(first.json.data._id);
+    expect(repeat.headers.get('Idempotent-Replayed')).toBe('true');
+  });
+
+  it('should publish change events for writes', async () => {
+    const [item] = getDb().items;
+
+    await call('PUT', `/item/${item!._id}`, { quantity: 3 });
+    const { json } = await call('GET', '/events?since=0');
+
+    expect(json.data.events).toEqual([
+      expect.objectContaining({
+        entity: 'item',
+        action: 'updated',
+        entityId: item!._id,
+      }),
+    ]);
+  });
+
+  it('should answer a simulated failure once', async () => {
+    failNextRequest({ status: 429, rcode: 4290, match: '/item' });
+
+    const failed = await call('GET', '/item');
+    const next = await call('GET', '/item');
+
+    expect(failed.status).toBe(429);
+    expect(failed.json.data.rcode).toBe(4290);
+    expect(next.status).toBe(200);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { apiClient } from '@/shared/lib/api-client';
+import {
+  listOutbox,
+  removeOutboxEntry,
+  isQueuedOffline,
+  getCachedResponse,
+} from '@/shared/lib/offline-queue';
+import { setUser } from '@/features/auth/store/session.store';
+import { replayOutbox } from '@/shared/stores/sync.store';
+import type { User } from '@/features/auth/types/auth.types';
+
+/**
+ * Test: Offline outbox and read cache
+ *
+ * Ensures flagged mutations are queued in order when the network is down
+ * and GET requests fall back to the last cached response. Queued changes
+ * are only replayed in the session of the user who made them.
+ */
+
+const clerk = (id: string): User => ({
+  _id: id,
+  email: `${id}@example.com`,
+  name: id,
+  appRole: 'user',
+  storeHouses: [],
+  accessRole: [],
+});
+
+describe('API Client - Offline Queue', () => {
+  beforeEach(async () => {
+    for (const entry of await listOutbox()) {
+      await removeOutboxEntry(entry.id);
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    setUser(null);
+  });
+
+  it('should queue flagged mutations in order on network failure', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    document.cookie = 'csrf-token=test-token';
+
+    const first = apiClient.post(
+      '/transaction',
+      { n: 1 },
+      {
+        offline: { label: 'First' },
+      }
+    );
+    await expect(first).rejects.toSatisfy(isQueuedOffline);
+
+    const second = apiClient.post(
+      '/transaction',
+      { n: 2 },
+      {
+        offline: { label: 'Second' },
+      }
+    );
+    await expect(second).rejects.toSatisfy(isQueuedOffline);
+
+    const entries = await listOutbox();
+    expect(entries.map((e) => e.label)).toEqual(['First', 'Second']);
+    expect(entries.every((e) => e.status === 'pending')).toBe(true);
+  });
+
+  it('should not queue mutations that did not opt in', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    document.cookie = 'csrf-token=test-token';
+
+    await expect(apiClient.delete('/item/1')).rejects.toMatchObject({
+      code: 'NETWORK_ERROR',
+    });
+    expect(await listOutbox()).toHaveLength(0);
+  });
+
+  it('should serve the last cached response when a read fails', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ isOk: true, data: { items: [1, 2] } }),
+      } as Response)
+    );
+    await apiClient.get('/item?page=1');
+
+    globalThis.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    const result = await apiClient.get<{ items: number[] }>('/item?page=1');
+
+    expect(result.items).toEqual([1, 2]);
+  });
+
+  it('should keep one-off reads out of the cache', async () => {
+    globalThis.fetch = vi.fn(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ isOk: true, data: { events: [] } }),
+      } as Response)
+    );
+    await apiClient.get('/events?since=1', { skipOfflineCache: true });
+
+    globalThis.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    await expect(
+      apiClient.get('/events?since=1', { skipOfflineCache: true })
+    ).rejects.toMatchObject({ code: 'NETWORK_ERROR' });
+    expect(await getCachedResponse('/events?since=1')).toBeUndefined();
+  });
+
+  it("should replay a queued change only in its author's session", async () => {
+    document.cookie = 'csrf-token=test-token';
+    setUser(clerk('clerk-a'));
+    globalThis.fetch = vi.fn(() =>
+      Promise.reject(new TypeError('Failed to fetch'))
+    );
+    await expect(
+      apiClient.post('/transaction', { n: 1 }, { offline: { label: 'Sale' } })
+    ).rejects.toSatisfy(isQueuedOffline);
+    expect((await listOutbox())[0]?.userId).toBe('clerk-a');
+
+    const online = vi.fn(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ isOk: true, data: {} }),
+      } as Response)
+    );
+    globalThis.fetch = online;
+
+    setUser(clerk('clerk-b'));
+    await replayOutbox();
+    expect(online).not.toHaveBeenCalled();
+    expect(await listOutbox()).toHaveLength(1);
+
+    setUser(clerk('clerk-a'));
+    await replayOutbox();
+    expect(online).toHaveBeenCalled();
+    expect(await listOutbox()).toHaveLength(0);
+  });
+});
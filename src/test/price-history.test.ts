@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatPeriod,
+  getPeriodKey,
+  summarizeByPartner,
+  summarizeByPeriod,
+} from '@/features/inventory/lib/price-history';
+import type {
+  PriceHistory,
+  PricePoint,
+} from '@/features/inventory/types/inventory.types';
+
+/**
+ * Test: Item price history summaries
+ *
+ * Sold and paid prices are grouped per period and per partner with
+ * quantity-weighted averages, next to the catalogue price of the time.
+ */
+
+const acme = { id: 'c-1', name: 'Acme' };
+const globex = { id: 'c-2', name: 'Globex' };
+
+const point = (
+  date: string,
+  unitPrice: number,
+  quantity: number,
+  partner?: PricePoint['partner']
+): PricePoint => ({ reference: 'r', date, unitPrice, quantity, partner });
+
+const history: PriceHistory = {
+  catalogue: [
+    {
+      date: '2026-01-01T00:00:00.000Z',
+      unitPrice: 10,
+      changedBy: { id: 'u', name: 'Owner' },
+    },
+    {
+      date: '2026-02-15T00:00:00.000Z',
+      unitPrice: 12,
+      changedBy: { id: 'u', name: 'Owner' },
+    },
+  ],
+  sales: [
+    point('2026-01-10T00:00:00.000Z', 10, 1, acme),
+    point('2026-01-20T00:00:00.000Z', 9, 4, globex),
+    point('2026-02-20T00:00:00.000Z', 12, 2, acme),
+  ],
+  purchases: [point('2026-03-02T00:00:00.000Z', 7, 10)],
+};
+
+describe('Price History', () => {
+  it('should name months and quarters', () => {
+    expect(getPeriodKey('2026-05-03T10:00:00.000Z', 'month')).toBe('2026-05');
+    expect(getPeriodKey('2026-05-03T10:00:00.000Z', 'quarter')).toBe('2026-Q2');
+    // 1 April 02:00 in Tokyo is still March in UTC
+    expect(
+      getPeriodKey('2026-03-31T17:00:00.000Z', 'quarter', 'Asia/Tokyo')
+    ).toBe('2026-Q2');
+    expect(formatPeriod('2026-05')).toBe('May 2026');
+    expect(formatPeriod('2026-Q2')).toBe('Q2 2026');
+  });
+
+  it('should give min, weighted average and max per period', () => {
+    const [january, february, march] = summarizeByPeriod(history, 'month');
+
+    expect(january).toMatchObject({
+      period: '2026-01',
+      sold: { lines: 2, quantity: 5, min: 9, average: 9.2, max: 10 },
+      paid: null,
+      listed: 10,
+    });
+    expect(february).toMatchObject({ sold: { average: 12 }, listed: 12 });
+    expect(march).toMatchObject({ sold: null, paid: { average: 7 } });
+    expect(summarizeByPeriod(history, 'quarter')).toHaveLength(1);
+  });
+
+  it('should list the catalogue price at the end of each period', () => {
+    const repriced: PriceHistory = {
+      ...history,
+      catalogue: [
+        ...history.catalogue.slice(0, 1),
+        {
+          date: '2026-01-25T00:00:00.000Z',
+          unitPrice: 11,
+          changedBy: { id: 'u', name: 'Owner' },
+        },
+      ],
+    };
+    const [january] = summarizeByPeriod(repriced, 'month');
+
+    expect(january).toMatchObject({ period: '2026-01', listed: 11 });
+  });
+
+  it('should break prices down per partner, biggest first', () => {
+    const rows = summarizeByPartner(history.sales);
+
+    expect(rows.map((row) => row.partner?.name)).toEqual(['Globex', 'Acme']);
+    expect(rows[1]).toMatchObject({
+      stats: { min: 10, max: 12, quantity: 3 },
+      lastPrice: 12,
+      lastDate: '2026-02-20T00:00:00.000Z',
+    });
+  });
+});
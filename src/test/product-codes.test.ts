@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatSku,
+  getGtinType,
+  gtinCheckDigit,
+  isValidSkuPattern,
+  normalizeGtin,
+  toEan13,
+} from '@/shared/lib/product-codes';
+
+/**
+ * Test: Product codes
+ *
+ * GTINs are validated by their GS1 check digit and compared regardless
+ * of length; SKUs are generated from the business pattern.
+ */
+
+describe('Product Codes', () => {
+  it('should validate GTIN check digits', () => {
+    expect(gtinCheckDigit('590123412345')).toBe(7);
+    expect(getGtinType('5901234123457')).toBe('EAN-13');
+    expect(getGtinType('036000291452')).toBe('UPC-A');
+    expect(getGtinType('96385074')).toBe('EAN-8');
+    expect(getGtinType('5901234123458')).toBeNull(); // Wrong check digit
+    expect(getGtinType('SKU-00001')).toBeNull();
+  });
+
+  it('should treat a UPC-A and its EAN-13 form as the same code', () => {
+    expect(toEan13('036000291452')).toBe('0036000291452');
+    expect(normalizeGtin('036000291452')).toBe(normalizeGtin('0036000291452'));
+    expect(toEan13('96385074')).toBeNull(); // EAN-8 can't be EAN-13
+  });
+
+  it('should format SKUs from a pattern', () => {
+    const date = new Date('2026-03-01T00:00:00Z');
+
+    expect(formatSku('SKU-{seq:5}', { sequence: 42 })).toBe('SKU-00042');
+    expect(
+      formatSku('{name}-{yy}-{seq:3}', {
+        sequence: 7,
+        name: 'blue widget',
+        date,
+      })
+    ).toBe('BLU-26-007');
+    expect(isValidSkuPattern('{yyyy}-{name}')).toBe(false); // No {seq}
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  fetchQuery,
+  invalidateAfterMutation,
+  clearQueryCache,
+} from '@/shared/lib/query-client';
+
+/**
+ * Test: Query Client caching and invalidation
+ *
+ * Ensures identical concurrent reads share one request, fresh data is
+ * served from cache, and mutations force the next read to refetch.
+ */
+
+describe('Query Client', () => {
+  beforeEach(() => {
+    clearQueryCache();
+  });
+
+  it('should deduplicate concurrent identical reads', async () => {
+    const fetcher = vi.fn(() => Promise.resolve(['a']));
+
+    const results = await Promise.all([
+      fetchQuery(['items', '/item'], fetcher),
+      fetchQuery(['items', '/item'], fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([['a'], ['a']]);
+  });
+
+  it('should serve fresh data from cache', async () => {
+    const fetcher = vi.fn(() => Promise.resolve(1));
+
+    await fetchQuery(['items', '/item'], fetcher);
+    await fetchQuery(['items', '/item'], fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refetch items after an import mutation', async () => {
+    let quantity = 5;
+    const fetcher = vi.fn(() => Promise.resolve(quantity));
+
+    await fetchQuery(['items', '/item'], fetcher);
+    quantity = 15;
+    invalidateAfterMutation('imports');
+
+    expect(await fetchQuery(['items', '/item'], fetcher)).toBe(15);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return stale data immediately and revalidate in background', async () => {
+    let value = 'old';
+    const fetcher = vi.fn(() => Promise.resolve(value));
+
+    await fetchQuery(['analytics', '/analytics'], fetcher, { staleTime: 0 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    value = 'new';
+
+    expect(
+      await fetchQuery(['analytics', '/analytics'], fetcher, { staleTime: 0 })
+    ).toBe('old');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { apiClient } from '@/shared/lib/api-client';
+import {
+  acquireRequestToken,
+  parseRetryAfter,
+  setRequestRate,
+} from '@/shared/lib/rate-limit';
+import { notificationStore } from '@/shared/stores/notification.store';
+
+/**
+ * Test: Rate-limit aware retries
+ *
+ * Ensures throttled and temporarily failing requests are retried only when
+ * safe, Retry-After is honoured, and the client paces itself to the plan.
+ */
+
+function reply(status: number, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ isOk: status < 400, data: 'ok' }), {
+    status,
+    headers,
+  });
+}
+
+describe('API Client - Retries', () => {
+  beforeEach(() => {
+    document.cookie = 'csrf-token=test; path=/';
+    notificationStore.clearAll();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should retry a GET after a 503', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(reply(503))
+      .mockResolvedValueOnce(reply(200));
+
+    await expect(apiClient.get('/item')).resolves.toBe('ok');
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not resend a mutation after a 503', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(reply(503));
+
+    await expect(apiClient.post('/item', {})).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honour Retry-After on 429 and show a slowing-down notice', async () => {
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(reply(429, { 'Retry-After': '0' }))
+      .mockResolvedValueOnce(reply(200));
+
+    await expect(apiClient.post('/item', {})).resolves.toBe('ok');
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+    expect(notificationStore.notifications()).toEqual([
+      expect.objectContaining({ type: 'warning', title: 'Slowing down' }),
+    ]);
+  });
+
+  it('should wait out a Retry-After longer than the request timeout', async () => {
+    vi.useFakeTimers();
+    globalThis.fetch = vi
+      .fn()
+      .mockResolvedValueOnce(reply(429, { 'Retry-After': '45' }))
+      .mockResolvedValueOnce(reply(200));
+
+    const result = apiClient.get('/item');
+    await vi.advanceTimersByTimeAsync(45000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('Rate Limit', () => {
+  afterEach(() => {
+    setRequestRate(null);
+    vi.useRealTimers();
+  });
+
+  it('should parse Retry-After seconds and dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter(null)).toBeNull();
+
+    vi.useFakeTimers({ now: Date.parse('2026-01-15T12:00:00Z') });
+    expect(parseRetryAfter('Thu, 15 Jan 2026 12:00:05 GMT')).toBe(5000);
+  });
+
+  it('should hold requests once the per-minute budget is spent', async () => {
+    vi.useFakeTimers();
+    setRequestRate(2);
+
+    await acquireRequestToken();
+    await acquireRequestToken();
+
+    let released = false;
+    const third = acquireRequestToken().then(() => (released = true));
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(released).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(released).toBe(true);
+  });
+});
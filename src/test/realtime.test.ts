@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  handleRealtimeEvent,
+  realtimeStore,
+} from '@/shared/stores/realtime.store';
+import { subscribeQueries, type QueryScope } from '@/shared/lib/query-client';
+import { updateAccessToken } from '@/features/auth/store/session.store';
+import { MockEventSource } from '@/shared/mock/events';
+import { getDb } from '@/shared/mock/mock-db';
+import { resetMockServer } from '@/shared/mock/server';
+
+// Streams come from the mock backend, whatever VITE_USE_MOCK_API says
+vi.mock('@/shared/lib/transport', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/shared/lib/transport')>()),
+  openEventStream: (url: string, headers?: Record<string, string>) =>
+    Promise.resolve(new MockEventSource(url, headers)),
+}));
+
+/**
+ * Test: Realtime change feed
+ *
+ * Ensures a colleague's change refreshes the affected query scopes and is
+ * highlighted on the record, while malformed events are ignored. The
+ * stream is opened with the access token and falls back to polling once
+ * it closes.
+ */
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+const event = {
+  id: '12',
+  entity: 'transaction',
+  action: 'created',
+  entityId: 'order-1',
+  actor: { id: 'user-2', name: 'Linh' },
+  at: '2026-01-15T12:00:00.000Z',
+};
+
+describe('Realtime Store', () => {
+  afterEach(() => {
+    realtimeStore.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('should refresh affected scopes and highlight the record', async () => {
+    const changed: QueryScope[] = [];
+    const unsubscribe = subscribeQueries((scopes) => changed.push(...scopes));
+
+    handleRealtimeEvent(event);
+    await Promise.resolve();
+    unsubscribe();
+
+    expect(changed).toEqual(
+      expect.arrayContaining(['transactions', 'items', 'analytics'])
+    );
+    expect(realtimeStore.getRecentChange('order-1')).toMatchObject({
+      action: 'created',
+      actorName: 'Linh',
+    });
+  });
+
+  it('should ignore events that do not match the contract', () => {
+    handleRealtimeEvent({ ...event, entity: 'invoice' });
+
+    expect(realtimeStore.getRecentChange('order-1')).toBeUndefined();
+  });
+
+  it('should stream live with the access token', async () => {
+    resetMockServer({ seed: 7 });
+    getDb().auth.accessToken = 'stream-token';
+    updateAccessToken('stream-token');
+
+    realtimeStore.start();
+    await settle();
+
+    expect(realtimeStore.mode()).toBe('live');
+  });
+
+  it('should poll as soon as the stream is refused', async () => {
+    resetMockServer({ seed: 7 });
+    getDb().auth.accessToken = 'stream-token';
+    updateAccessToken('stale-token');
+    globalThis.fetch = vi.fn(() =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({ isOk: true, data: { events: [], cursor: '0' } })
+        )
+      )
+    );
+
+    realtimeStore.start();
+    await settle();
+
+    expect(realtimeStore.mode()).toBe('polling');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterAll } from 'vitest';
+import {
+  getAccessToken,
+  getStatus,
+  setStatus,
+  updateAccessToken,
+} from '@/features/auth/store/session.store';
+import type { TabMessage } from '@/shared/lib/tab-sync';
+
+/**
+ * Test: Cross-tab session sync
+ *
+ * A second BroadcastChannel plays the other tab: its refreshed tokens are
+ * adopted and its logout signs this tab out as well.
+ */
+
+vi.mock('@/features/auth/api/auth.api', () => ({
+  getCurrentUser: vi.fn(),
+  logout: vi.fn(),
+}));
+
+const otherTab = new BroadcastChannel('store-manager-session');
+
+function sendFromOtherTab(message: TabMessage) {
+  otherTab.postMessage(message);
+  // Delivery is asynchronous
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+describe('Tab Sync', () => {
+  afterAll(() => {
+    otherTab.close();
+  });
+
+  it('should adopt a token refreshed by another tab', async () => {
+    setStatus('authenticated');
+    updateAccessToken('old-token');
+
+    await sendFromOtherTab({ type: 'token', accessToken: 'new-token' });
+
+    expect(getAccessToken()).toBe('new-token');
+  });
+
+  it('should sign out when another tab logs out', async () => {
+    setStatus('authenticated');
+
+    await sendFromOtherTab({ type: 'logout' });
+
+    expect(getStatus()).toBe('unauthenticated');
+    expect(getAccessToken()).toBeNull();
+  });
+});